@@ -42,6 +42,16 @@ export const routes: Routes = [
         canActivate: [dataReadyGuard],
         loadComponent: () => import('./pages/collection-page.component').then(m => m.CollectionPageComponent),
     },
+    {
+        path: 'compare',
+        canActivate: [dataReadyGuard],
+        loadComponent: () => import('./pages/force-comparison-page.component').then(m => m.ForceComparisonPageComponent),
+    },
+    {
+        path: 'editor',
+        canActivate: [dataReadyGuard],
+        loadComponent: () => import('./pages/unit-editor-page.component').then(m => m.UnitEditorPageComponent),
+    },
     { path: '', pathMatch: 'full', children: [] },
     { path: '**', redirectTo: '' },
 ];
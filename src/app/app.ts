@@ -20,6 +20,7 @@ import { ConnectionStatusBadgeComponent } from './components/connection-status-b
 import { ModeSwitchComponent } from './components/mode-switch/mode-switch.component';
 import { LicenseDialogComponent } from './components/license-dialog/license-dialog.component';
 import { ToastsComponent } from './components/toasts/toasts.component';
+import { LobbyLogPanelComponent } from './components/lobby-log-panel/lobby-log-panel.component';
 import { SavedSearchesService } from './services/saved-searches.service';
 import { WsService } from './services/ws.service';
 import { ToastService } from './services/toast.service';
@@ -37,10 +38,13 @@ import { AccountProtectionService } from './services/account-protection.service'
 import { AppUpdateService } from './services/app-update.service';
 import { LoadingSpinnerComponent } from './components/loading-spinner/loading-spinner.component';
 import { LobbyService } from './services/lobby.service';
+import { LobbyAttackService } from './services/lobby-attack.service';
+import { ForceHistoryService } from './services/force-history.service';
 
 import { GameSystem } from './models/common.model';
 import { Router, RouterOutlet } from '@angular/router';
 import { UrlService } from './services/url.service';
+import { describeUnitImportResults, readUnitImportFiles } from './utils/imported-unit.util';
 
 const ANDROID_PWA_BACK_EXIT_HISTORY_STATE_KEY = 'mekbayAndroidPwaBackExit';
 const ANDROID_PWA_BACK_RESTORE_GUARD_MS = 1000;
@@ -52,6 +56,7 @@ const PENDING_UPDATE_RELOAD_AFTER_NO_FOCUS_MS = 6 * 60 * 60 * 1000; // 6 hours
     changeDetection: ChangeDetectionStrategy.OnPush,
     imports: [
     ToastsComponent,
+    LobbyLogPanelComponent,
     PageViewerComponent,
     AlphaStrikeViewerComponent,
     LayoutModule,
@@ -69,6 +74,8 @@ const PENDING_UPDATE_RELOAD_AFTER_NO_FOCUS_MS = 6 * 60 * 60 * 1000; // 6 hours
     host: {
         '(window:online)': 'onOnline()',
         '(window:focus)': 'onFocus()',
+        '(window:dragover)': 'onWindowDragOver($event)',
+        '(window:drop)': 'onWindowDrop($event)',
         '(window:keydown.escape)': 'closeHomeActionsPanel()'
     }
 })
@@ -88,6 +95,8 @@ export class App {
     public gameService = inject(GameService);
     private accountAuthService = inject(AccountAuthService);
     private accountProtectionService = inject(AccountProtectionService);
+    private lobbyAttackService = inject(LobbyAttackService);
+    private forceHistoryService = inject(ForceHistoryService);
     private router = inject(Router);
     private urlService = inject(UrlService);
     private savedSearchesService = inject(SavedSearchesService);
@@ -134,6 +143,8 @@ export class App {
         //     (navigator as any).virtualKeyboard.overlaysContent = true; // Opt out of the automatic handling.
         // }
         void this.accountProtectionService;
+        void this.lobbyAttackService;
+        void this.forceHistoryService;
         this.dataService.initialize();
         this.savedSearchesService.initialize();
         this.savedSearchesService.registerWsHandlers();
@@ -421,6 +432,40 @@ export class App {
         this.checkForUpdateAfterResume();
     }
 
+    onWindowDragOver(event: DragEvent) {
+        if (!event.dataTransfer?.types.includes('Files')) {
+            return;
+        }
+        // Accepting the drag keeps the browser from navigating to a dropped file.
+        event.preventDefault();
+        event.dataTransfer.dropEffect = 'copy';
+    }
+
+    async onWindowDrop(event: DragEvent) {
+        if (!event.dataTransfer?.types.includes('Files')) {
+            return;
+        }
+        event.preventDefault();
+
+        const files = await readUnitImportFiles(Array.from(event.dataTransfer.files));
+        if (files.length === 0) {
+            return;
+        }
+        if (!this.dataService.isDataReady()) {
+            this.toastService.showToast('Unit data is still loading, try again in a moment.', 'info');
+            return;
+        }
+
+        const results = await this.dataService.importUnitFiles(files);
+        for (const result of results) {
+            if (result.error) {
+                this.logger.warn(`Unit import of ${result.fileName} failed: ${result.error}`);
+            }
+        }
+        const { message, type } = describeUnitImportResults(results);
+        this.toastService.showToast(message, type);
+    }
+
     private onBlur = () => {
         this.urlAtLastBlur = this.getCurrentAppUrl();
         this.markFocusLost();
@@ -581,6 +626,10 @@ export class App {
         void this.router.navigate(['/collection'], { queryParamsHandling: 'preserve' });
     }
 
+    showUnitEditorDialog(): void {
+        void this.router.navigate(['/editor'], { queryParamsHandling: 'preserve' });
+    }
+
     showForceGeneratorDialog(): void {
         void this.forceBuilderService.showForceGeneratorDialog();
     }
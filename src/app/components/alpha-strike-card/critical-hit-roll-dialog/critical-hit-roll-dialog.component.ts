@@ -5,6 +5,7 @@
 import { ChangeDetectionStrategy, Component, inject, signal, viewChild, type AfterViewInit, computed } from '@angular/core';
 import { DialogRef, DIALOG_DATA } from '@angular/cdk/dialog';
 import { DiceRollerComponent } from '../../dice-roller/dice-roller.component';
+import { RollLogService } from '../../../services/roll-log.service';
 import type { ASForceUnit } from '../../../models/as-force-unit.model';
 import type { ASUnitTypeCode } from '../../../models/unit-summary.model';
 import { OptionsService } from '../../../services/options.service';
@@ -388,6 +389,7 @@ export class CriticalHitRollDialogComponent implements AfterViewInit {
     private readonly dialogRef = inject(DialogRef);
     private readonly data = inject<CriticalHitRollDialogData>(DIALOG_DATA);
     private readonly optionsService = inject(OptionsService);
+    private readonly rollLogService = inject(RollLogService);
 
     private readonly mainRoller = viewChild<DiceRollerComponent>('mainRoller');
 
@@ -524,7 +526,21 @@ export class CriticalHitRollDialogComponent implements AfterViewInit {
     }
 
     onMainRollFinished(event: { results: number[]; sum: number }): void {
-        const roll = event.sum;
+        this.resolveMainRoll(event.sum);
+        const res = this.result();
+        if (!res) return;
+        this.rollLogService.record({
+            label: 'Critical Hit',
+            dice: `${event.results.length}d6`,
+            faces: [...event.results],
+            modifier: this.rollModifier(),
+            total: res.roll,
+            result: res.critType,
+            ...(this.unitDisplayName() ? { unit: this.unitDisplayName()! } : {}),
+        });
+    }
+
+    private resolveMainRoll(roll: number): void {
         
         // If unit type doesn't have a crit table, always return No Critical Hit
         if (!this.critTable) {
@@ -5,6 +5,7 @@
 import { ChangeDetectionStrategy, Component, inject, signal, viewChild, type AfterViewInit, computed } from '@angular/core';
 import { DialogRef, DIALOG_DATA } from '@angular/cdk/dialog';
 import { DiceRollerComponent } from '../../dice-roller/dice-roller.component';
+import { RollLogService } from '../../../services/roll-log.service';
 import type { ASForceUnit } from '../../../models/as-force-unit.model';
 import type { MoveType } from '../../../models/unit-summary.model';
 
@@ -285,6 +286,7 @@ const MOTIVE_DAMAGE_TABLE: Record<number, MotiveTableEntry> = {
 export class MotiveDamageRollDialogComponent implements AfterViewInit {
     private readonly dialogRef = inject(DialogRef);
     private readonly data = inject<MotiveDamageRollDialogData>(DIALOG_DATA);
+    private readonly rollLogService = inject(RollLogService);
 
     private readonly mainRoller = viewChild<DiceRollerComponent>('mainRoller');
 
@@ -356,7 +358,21 @@ export class MotiveDamageRollDialogComponent implements AfterViewInit {
     }
 
     onMainRollFinished(event: { results: number[]; sum: number }): void {
-        const roll = event.sum;
+        this.resolveMainRoll(event.sum);
+        const res = this.result();
+        if (!res) return;
+        this.rollLogService.record({
+            label: 'Motive Damage',
+            dice: `${event.results.length}d6`,
+            faces: [...event.results],
+            modifier: this.rollModifier(),
+            total: res.roll,
+            result: res.effectType,
+            unit: this.unitDisplayName(),
+        });
+    }
+
+    private resolveMainRoll(roll: number): void {
         
         // Results of 8 or less (after modifier): No Effect
         if (roll <= 8) {
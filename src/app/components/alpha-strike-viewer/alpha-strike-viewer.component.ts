@@ -13,6 +13,8 @@ import { PageViewerCanvasControlsComponent } from '../page-viewer/canvas/page-vi
 import { PageCanvasOverlayComponent } from '../page-viewer/canvas/page-canvas-overlay.component';
 import { PageViewerCanvasService } from '../page-viewer/canvas/page-viewer-canvas.service';
 import { DbService } from '../../services/db.service';
+import { ForceHistoryService } from '../../services/force-history.service';
+import { KeyboardShortcutService } from '../../services/keyboard-shortcut.service';
 import { ASInteractionOverlayComponent } from './as-interaction-overlay.component';
 
 export interface CardRenderItem {
@@ -66,6 +68,8 @@ export class AlphaStrikeViewerComponent {
     private readonly destroyRef = inject(DestroyRef);
     private readonly dbService = inject(DbService);
     private readonly canvasService = inject(PageViewerCanvasService);
+    private readonly forceHistoryService = inject(ForceHistoryService);
+    private readonly keyboardShortcutService = inject(KeyboardShortcutService);
 
     readonly unit = computed(() => {
         const selectedUnit = this.forceBuilder.selectedUnit();
@@ -82,6 +86,10 @@ export class AlphaStrikeViewerComponent {
         return null;
     });
     
+    readonly readOnly = computed(() => this.force()?.readOnly() ?? false);
+    readonly canUndo = computed(() => this.forceHistoryService.canUndo(this.force()));
+    readonly canRedo = computed(() => this.forceHistoryService.canRedo(this.force()));
+
     private readonly cardWrappers = viewChildren<ElementRef<HTMLElement>>('cardWrapper');
     private readonly viewerContainer = viewChild<ElementRef<HTMLElement>>('viewerContainer');
     
@@ -145,6 +153,11 @@ export class AlphaStrikeViewerComponent {
     
     constructor() {
         this.setupEffects();
+        this.keyboardShortcutService.register({
+            id: 'alpha-strike-viewer-history',
+            active: () => !!this.unit() && !this.readOnly(),
+            handle: (event) => this.forceHistoryService.handleShortcut(this.force(), event),
+        }, this.destroyRef);
         this.destroyRef.onDestroy(() => {
             this.cardRenderItemsCache.clear();
             this.pointers.clear();
@@ -212,6 +225,16 @@ export class AlphaStrikeViewerComponent {
         }
     }
     
+    undo(): void {
+        const force = this.force();
+        if (force) this.forceHistoryService.undo(force);
+    }
+
+    redo(): void {
+        const force = this.force();
+        if (force) this.forceHistoryService.redo(force);
+    }
+
     /**
      * Handle print request from controls
      */
@@ -0,0 +1,196 @@
+// Copyright (C) 2026 The MegaMek Team
+// SPDX-License-Identifier: GPL-3.0-or-later
+// Author: Drake
+
+import { ChangeDetectionStrategy, Component, computed, inject, signal } from '@angular/core';
+import { DatePipe } from '@angular/common';
+import { DialogRef } from '@angular/cdk/dialog';
+import {
+    campaignUnitCrew,
+    campaignUnitName,
+    isCampaignUnitDestroyed,
+    nextCampaignOperation,
+    summarizeCampaign,
+    type CampaignOperationRef,
+    type CampaignRosterUnit,
+    type LoadCampaignEntry,
+    type LoadedCampaign,
+} from '../../models/campaign.model';
+import type { LoadOperationEntry } from '../../models/operation.model';
+import type { SerializedCrewMember } from '../../models/force-serialization';
+import { CampaignService } from '../../services/campaign.service';
+import { DataService } from '../../services/data.service';
+import { DialogsService } from '../../services/dialogs.service';
+import { LoggerService } from '../../services/logger.service';
+import { ToastService } from '../../services/toast.service';
+
+const CAMPAIGN_NAME_MAX_LENGTH = 100;
+
+interface CampaignRosterRow {
+    record: CampaignRosterUnit;
+    name: string;
+    crew: SerializedCrewMember[];
+    destroyed: boolean;
+}
+
+@Component({
+    selector: 'campaign-dialog',
+    standalone: true,
+    changeDetection: ChangeDetectionStrategy.OnPush,
+    imports: [DatePipe],
+    host: { class: 'fullscreen-dialog-host glass' },
+    templateUrl: './campaign-dialog.component.html',
+    styleUrls: ['./campaign-dialog.component.scss'],
+})
+export class CampaignDialogComponent {
+    readonly campaignService = inject(CampaignService);
+    private readonly dataService = inject(DataService);
+    private readonly dialogsService = inject(DialogsService);
+    private readonly toastService = inject(ToastService);
+    private readonly logger = inject(LoggerService);
+    private readonly dialogRef = inject(DialogRef<void>);
+
+    readonly loading = signal(true);
+    readonly entries = signal<LoadCampaignEntry[]>([]);
+    readonly selected = signal<LoadedCampaign | null>(null);
+    readonly savedOperations = signal<LoadOperationEntry[]>([]);
+    readonly operationToAdd = signal('');
+
+    readonly readOnly = computed(() => this.selected()?.owned === false);
+    readonly summary = computed(() => {
+        const campaign = this.selected();
+        return campaign ? summarizeCampaign(campaign) : null;
+    });
+    readonly nextOperationId = computed(() => {
+        const campaign = this.selected();
+        return campaign ? nextCampaignOperation(campaign)?.operationId ?? null : null;
+    });
+    readonly availableOperations = computed(() => {
+        const used = new Set(this.selected()?.operations.map(op => op.operationId) ?? []);
+        return this.savedOperations().filter(op => !used.has(op.operationId));
+    });
+    readonly rosterRows = computed<CampaignRosterRow[]>(() => (this.selected()?.roster ?? []).map(record => ({
+        record,
+        name: campaignUnitName(record),
+        crew: campaignUnitCrew(record),
+        destroyed: isCampaignUnitDestroyed(record),
+    })));
+    /** Whether the operation loaded right now was played from the campaign shown. */
+    readonly canRecordResult = computed(() =>
+        this.campaignService.canRecordResult()
+        && this.campaignService.activeCampaign()?.campaignId === this.selected()?.campaignId);
+
+    constructor() {
+        this.refresh();
+        const active = this.campaignService.activeCampaign();
+        if (active) this.selected.set(active);
+    }
+
+    async refresh(): Promise<void> {
+        this.loading.set(true);
+        try {
+            const [entries, operations] = await Promise.all([
+                this.dataService.listCampaigns(),
+                this.dataService.listOperations(),
+            ]);
+            this.entries.set(entries);
+            this.savedOperations.set(operations.filter(op => op.owned));
+        } catch (error) {
+            this.logger.error(`Failed to list campaigns: ${error}`);
+            this.toastService.showToast('Failed to load the campaigns.', 'error');
+        } finally {
+            this.loading.set(false);
+        }
+    }
+
+    async newCampaign(): Promise<void> {
+        const name = (await this.dialogsService.prompt(
+            'Name the campaign:',
+            'New Campaign',
+            'Campaign',
+            '',
+            { maximumLength: CAMPAIGN_NAME_MAX_LENGTH },
+        ))?.trim();
+        if (!name) return;
+        this.selected.set(await this.campaignService.createCampaign(name));
+        this.refresh();
+    }
+
+    async open(entry: LoadCampaignEntry): Promise<void> {
+        const campaign = await this.dataService.getCampaign(entry.campaignId);
+        if (!campaign) {
+            this.toastService.showToast(`Campaign "${entry.name}" could not be loaded.`, 'error');
+            return;
+        }
+        this.selected.set({ ...campaign, owned: campaign.owned ?? entry.owned });
+    }
+
+    back(): void {
+        this.selected.set(null);
+        this.refresh();
+    }
+
+    operationName(ref: CampaignOperationRef): string {
+        return this.savedOperations().find(op => op.operationId === ref.operationId)?.name ?? ref.name;
+    }
+
+    onOperationToAddChange(event: Event): void {
+        this.operationToAdd.set((event.target as HTMLSelectElement).value);
+    }
+
+    async addOperation(): Promise<void> {
+        const op = this.availableOperations().find(entry => entry.operationId === this.operationToAdd());
+        const campaign = this.selected();
+        if (!op || !campaign) return;
+        this.operationToAdd.set('');
+        await this.update({ ...campaign, operations: [...campaign.operations, { operationId: op.operationId, name: op.name }] });
+    }
+
+    async moveOperation(index: number, delta: number): Promise<void> {
+        const campaign = this.selected();
+        const target = index + delta;
+        if (!campaign || target < 0 || target >= campaign.operations.length) return;
+        const operations = [...campaign.operations];
+        [operations[index], operations[target]] = [operations[target], operations[index]];
+        await this.update({ ...campaign, operations });
+    }
+
+    async removeOperation(index: number): Promise<void> {
+        const campaign = this.selected();
+        if (!campaign) return;
+        await this.update({ ...campaign, operations: campaign.operations.filter((_, i) => i !== index) });
+    }
+
+    async play(ref: CampaignOperationRef): Promise<void> {
+        const campaign = this.selected();
+        if (!campaign) return;
+        this.dialogRef.close();
+        await this.campaignService.playOperation(campaign, ref.operationId);
+    }
+
+    async recordResult(): Promise<void> {
+        const saved = await this.campaignService.recordResult();
+        if (saved) this.selected.set(saved);
+    }
+
+    async deleteCampaign(): Promise<void> {
+        const campaign = this.selected();
+        if (!campaign) return;
+        const confirmed = await this.dialogsService.requestConfirmation(
+            `Delete the campaign "${campaign.name}"? Its operations and forces are kept.`,
+            'Delete Campaign',
+            'danger'
+        );
+        if (!confirmed) return;
+        await this.campaignService.deleteCampaign(campaign.campaignId);
+        this.back();
+    }
+
+    close(): void {
+        this.dialogRef.close();
+    }
+
+    private async update(campaign: LoadedCampaign): Promise<void> {
+        this.selected.set(await this.campaignService.saveCampaign(campaign));
+    }
+}
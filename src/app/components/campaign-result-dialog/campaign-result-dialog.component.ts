@@ -0,0 +1,202 @@
+// Copyright (C) 2026 The MegaMek Team
+// SPDX-License-Identifier: GPL-3.0-or-later
+// Author: Drake
+
+import { ChangeDetectionStrategy, Component, inject, signal } from '@angular/core';
+import { DialogRef, DIALOG_DATA } from '@angular/cdk/dialog';
+import type { CampaignOutcome } from '../../models/campaign.model';
+
+/*
+ * Description: Records the result of a campaign game: the outcome, the kills
+ *              and experience each friendly crew member earned and which
+ *              destroyed enemy units were salvaged.
+ */
+
+/** Experience a surviving crew member earns for taking part in a game. */
+const DEFAULT_GAME_EXPERIENCE = 1;
+
+export interface CampaignResultCrew {
+    unitId: string;
+    crewId: number;
+    unitName: string;
+    name: string;
+    dead: boolean;
+}
+
+export interface CampaignResultSalvage {
+    unitId: string;
+    name: string;
+    forceName: string;
+}
+
+export interface CampaignResultDialogData {
+    campaignName: string;
+    operationName: string;
+    crew: CampaignResultCrew[];
+    salvage: CampaignResultSalvage[];
+}
+
+export interface CampaignCrewGain {
+    unitId: string;
+    crewId: number;
+    kills: number;
+    experience: number;
+}
+
+export interface CampaignResultDialogResult {
+    outcome: CampaignOutcome;
+    /** Kills and experience earned this game, added to each crew member's totals */
+    gains: CampaignCrewGain[];
+    salvageIds: string[];
+}
+
+@Component({
+    selector: 'campaign-result-dialog',
+    standalone: true,
+    changeDetection: ChangeDetectionStrategy.OnPush,
+    host: { class: 'fullscreen-dialog-host glass' },
+    template: `
+    <div class="wide-dialog">
+        <h2 class="wide-dialog-title">Record Campaign Game</h2>
+        <div class="wide-dialog-body">
+            <div class="subtitle">{{ data.operationName }} &middot; {{ data.campaignName }}</div>
+
+            <div class="form-fields">
+                <label class="field-label">Outcome</label>
+                <div class="outcome-buttons">
+                    @for (option of outcomes; track option.value) {
+                    <button class="bt-button" [class.active]="outcome() === option.value" (click)="outcome.set(option.value)">{{ option.label }}</button>
+                    }
+                </div>
+            </div>
+
+            @if (gains().length > 0) {
+            <div class="form-fields">
+                <label class="field-label">Crew</label>
+                <table class="result-table">
+                    <thead>
+                        <tr><th>Unit</th><th>Crew</th><th>Kills</th><th>XP</th></tr>
+                    </thead>
+                    <tbody>
+                        @for (crew of data.crew; track $index) {
+                        <tr [class.dead]="crew.dead">
+                            <td>{{ crew.unitName }}</td>
+                            <td>{{ crew.name || 'Crew ' + (crew.crewId + 1) }}</td>
+                            <td><input type="number" class="bt-input" min="0" [value]="gains()[$index].kills" (input)="setGain($index, 'kills', $event)" /></td>
+                            <td><input type="number" class="bt-input" min="0" [value]="gains()[$index].experience" (input)="setGain($index, 'experience', $event)" /></td>
+                        </tr>
+                        }
+                    </tbody>
+                </table>
+            </div>
+            }
+
+            <div class="form-fields">
+                <label class="field-label">Salvage</label>
+                @for (unit of data.salvage; track unit.unitId) {
+                <label class="salvage-row">
+                    <input type="checkbox" class="bt-checkbox" [checked]="salvageIds().has(unit.unitId)" (change)="toggleSalvage(unit.unitId)" />
+                    <span>{{ unit.name }}</span>
+                    <span class="force-name">{{ unit.forceName }}</span>
+                </label>
+                } @empty {
+                <div class="empty">No destroyed enemy units to salvage.</div>
+                }
+            </div>
+        </div>
+        <div class="wide-dialog-actions">
+            <button class="bt-button" (click)="submit()">RECORD</button>
+            <button class="bt-button" (click)="close()">CANCEL</button>
+        </div>
+    </div>
+    `,
+    styles: [`
+        .subtitle, .force-name, .empty {
+            opacity: 0.7;
+        }
+
+        .outcome-buttons {
+            display: flex;
+            gap: 8px;
+            justify-content: center;
+
+            .bt-button.active {
+                background-color: var(--bt-yellow);
+                color: #000;
+            }
+        }
+
+        .result-table {
+            width: 100%;
+            border-collapse: collapse;
+
+            th, td {
+                padding: 4px 6px;
+                text-align: left;
+            }
+
+            tr.dead {
+                opacity: 0.5;
+            }
+
+            input {
+                width: 4em;
+            }
+        }
+
+        .salvage-row {
+            display: flex;
+            align-items: center;
+            gap: 8px;
+            text-align: left;
+
+            .force-name {
+                margin-left: auto;
+            }
+        }
+    `]
+})
+export class CampaignResultDialogComponent {
+    dialogRef = inject(DialogRef<CampaignResultDialogResult | null>);
+    data: CampaignResultDialogData = inject(DIALOG_DATA);
+
+    readonly outcomes: { value: CampaignOutcome; label: string }[] = [
+        { value: 'victory', label: 'VICTORY' },
+        { value: 'draw', label: 'DRAW' },
+        { value: 'defeat', label: 'DEFEAT' },
+    ];
+
+    outcome = signal<CampaignOutcome>('victory');
+    gains = signal<CampaignCrewGain[]>(this.data.crew.map(crew => ({
+        unitId: crew.unitId,
+        crewId: crew.crewId,
+        kills: 0,
+        experience: crew.dead ? 0 : DEFAULT_GAME_EXPERIENCE,
+    })));
+    salvageIds = signal<Set<string>>(new Set());
+
+    setGain(index: number, field: 'kills' | 'experience', event: Event): void {
+        const value = Math.max(0, Math.trunc(Number((event.target as HTMLInputElement).value) || 0));
+        this.gains.update(gains => gains.map((gain, i) => i === index ? { ...gain, [field]: value } : gain));
+    }
+
+    toggleSalvage(unitId: string): void {
+        this.salvageIds.update(ids => {
+            const next = new Set(ids);
+            if (!next.delete(unitId)) next.add(unitId);
+            return next;
+        });
+    }
+
+    submit(): void {
+        this.dialogRef.close({
+            outcome: this.outcome(),
+            gains: this.gains().filter(gain => gain.kills > 0 || gain.experience > 0),
+            salvageIds: [...this.salvageIds()],
+        });
+    }
+
+    close(): void {
+        this.dialogRef.close(null);
+    }
+}
@@ -20,6 +20,7 @@ import { DialogRef, DIALOG_DATA } from '@angular/cdk/dialog';
 import type { UnitSummary } from '../../models/unit-summary.model';
 import { CBTGameRules, CORE_2026_GAME_RULES } from '../../models/rules/game-rules';
 import { ReferenceTableRollHistoryService } from '../../services/reference-table-roll-history.service';
+import { RollLogService } from '../../services/roll-log.service';
 import {
     buildReferenceTableView,
     defaultReferenceTableOption,
@@ -81,6 +82,7 @@ export class ClusterTableDialogComponent {
     private readonly rollHistoryList = viewChild<ElementRef<HTMLElement>>('rollHistoryList');
     private readonly renderedTables = viewChildren<ElementRef<HTMLTableElement>>('referenceTable');
     private readonly rollHistoryService = inject(ReferenceTableRollHistoryService);
+    private readonly rollLogService = inject(RollLogService);
     private selectedColumn: SelectedReferenceTableColumn | null = null;
     private combinedRequiredWidth = 0;
 
@@ -202,6 +204,15 @@ export class ClusterTableDialogComponent {
             column: selection.column.label,
             result: result.value,
         });
+        this.rollLogService.record({
+            label: `${result.source.tableLabel} · ${selection.column.label}`,
+            dice: `${dice.count}d${dice.sides}`,
+            faces: [...event.results],
+            modifier: 0,
+            total: result.roll,
+            result: result.value,
+            unit: `${this.data.unit.chassis} ${this.data.unit.model}`.trim(),
+        });
     }
 
     rollSourceLabel(table: ReferenceTableDefinition, column: ReferenceTableColumn): string {
@@ -30,6 +30,7 @@ import { OptionsService } from '../../services/options.service';
 import { PilotNameGeneratorService } from '../../services/pilot-name-generator.service';
 import { LoggerService } from '../../services/logger.service';
 import type { Era } from '../../models/eras.model';
+import { NEW_PILOT_RECORD_ID, type PilotRecord } from '../../models/pilot-record.model';
 import type { UnitSubtype, UnitType } from '../../models/entity/types/classification';
 
 /** Represents either a standard ability (by ID) or a custom ability (object) */
@@ -54,6 +55,9 @@ export interface EditASPilotDialogData {
     unitTypeCode?: ASUnitTypeCode;
     /** Base PV at skill 4 for PV preview calculation. */
     basePv?: number;
+    /** Pilot records the pilot can be assigned from; absent hides the selector. */
+    pilotRecords?: readonly PilotRecord[];
+    pilotId?: string;
 }
 
 export interface EditASPilotResult {
@@ -63,6 +67,7 @@ export interface EditASPilotResult {
     formationAbilities: string[];
     formationAbilityOverrides?: Map<string, string[]>;
     commander: boolean;
+    pilotId?: string;
 }
 
 interface FormationEffectCardView {
@@ -112,6 +117,10 @@ export class EditASPilotDialogComponent {
     currentSkill = signal<number>(4);
     readonly nameHasText = signal(!!this.data.name.trim());
     readonly generatingName = signal(false);
+    readonly pilotId = signal<string | undefined>(this.data.pilotId);
+    /** Whether the skill comes from an assigned pilot record. */
+    readonly hasPilotRecord = computed(() => !!this.pilotId() && this.pilotId() !== NEW_PILOT_RECORD_ID);
+    readonly newPilotRecordId = NEW_PILOT_RECORD_ID;
 
     private readonly hasPvPreview = this.data.basePv != null;
 
@@ -476,7 +485,23 @@ export class EditASPilotDialogComponent {
     }
 
     /** Handle skill input change to update limits */
+    onPilotRecordChange(event: Event): void {
+        const pilotId = (event.target as HTMLSelectElement).value || undefined;
+        this.pilotId.set(pilotId);
+        const record = this.data.pilotRecords?.find(entry => entry.pilotId === pilotId);
+        if (!record) return;
+        const input = this.nameInput().nativeElement;
+        input.value = record.name;
+        this.nameHasText.set(!!record.name.trim());
+        this.currentSkill.set(record.skill);
+        const custom = this.selectedAbilities().filter((ability): ability is ASCustomPilotAbility => this.isCustomAbility(ability));
+        const abilities: (AbilitySelection | null)[] = [...record.abilities, ...custom].slice(0, 3);
+        while (abilities.length < 3) abilities.push(null);
+        this.selectedAbilities.set(abilities);
+    }
+
     toggleSkillDropdown(): void {
+        if (this.hasPilotRecord()) return;
         this.closeDropdownOverlay();
         this.closeFormationDropdownOverlay();
         this.overlayManager.closeManagedOverlay('skill-dropdown');
@@ -1181,6 +1206,7 @@ export class EditASPilotDialogComponent {
             formationAbilities: [...(preview?.assignmentsByUnitId.get(this.data.unitId) ?? this.selectedFormationAbilities())],
             formationAbilityOverrides: this.snapshotFormationAbilityOverrides(),
             commander: preview?.commanderUnitId === this.data.unitId || this.selectedFormationCommander(),
+            pilotId: this.pilotId(),
         });
     }
 
@@ -16,6 +16,7 @@ import { BVCalculatorUtil } from '../../utils/bv-calculator.util';
 import type { UnitSummary } from '../../models/unit-summary.model';
 import type { Era } from '../../models/eras.model';
 import { DEFAULT_GUNNERY_SKILL, DEFAULT_PILOTING_SKILL, type CrewMemberDetails, type SkillType } from '../../models/crew-member.model';
+import { NEW_PILOT_RECORD_ID, type PilotRecord } from '../../models/pilot-record.model';
 import { PilotNameGeneratorService } from '../../services/pilot-name-generator.service';
 import { LoggerService } from '../../services/logger.service';
 
@@ -39,6 +40,8 @@ export interface EditPilotDialogData {
     preSkillBv?: number;
     /** Unit reference for effective piloting skill calculation. */
     unit?: UnitSummary;
+    /** Pilot records the crew can be assigned from; absent hides the selector. */
+    pilotRecords?: readonly PilotRecord[];
 }
 
 export interface EditPilotResult {
@@ -55,6 +58,8 @@ interface EditableCrewMember {
     readonly name: WritableSignal<string>;
     readonly gunnery: WritableSignal<number>;
     readonly piloting: WritableSignal<number>;
+    /** Present when the crew can be assigned from pilot records. */
+    readonly pilotId?: WritableSignal<string | undefined>;
     readonly generatingName: WritableSignal<boolean>;
 }
 
@@ -139,8 +144,10 @@ export class EditPilotDialogComponent {
         name: signal(member.name),
         gunnery: signal(member.gunnery),
         piloting: signal(member.piloting),
+        pilotId: this.data.pilotRecords ? signal(member.pilotId) : undefined,
         generatingName: signal(false),
     }));
+    readonly newPilotRecordId = NEW_PILOT_RECORD_ID;
     selectedGroupCommander = signal<boolean>(this.data.commander ?? false);
 
     readonly hasBvPreview = !!(this.data.preSkillBv != null && this.data.unit);
@@ -187,8 +194,31 @@ export class EditPilotDialogComponent {
         return CREW_NAME_LABELS[index] ?? `Crew Member ${index + 1} Name`;
     }
 
+    /** Whether the crew member's skills come from an assigned pilot record. */
+    hasPilotRecord(index: number): boolean {
+        const pilotId = this.crew[index].pilotId?.();
+        return !!pilotId && pilotId !== NEW_PILOT_RECORD_ID;
+    }
+
+    onPilotRecordChange(index: number, event: Event): void {
+        const member = this.crew[index];
+        const pilotId = (event.target as HTMLSelectElement).value || undefined;
+        member.pilotId?.set(pilotId);
+        const record = this.data.pilotRecords?.find(entry => entry.pilotId === pilotId);
+        if (!record) return;
+        member.name.set(record.name);
+        this.nameInputs()[index].nativeElement.value = record.name;
+        member.gunnery.set(record.gunnery);
+        member.asfGunnery?.set(record.gunnery);
+        if (!this.data.disablePiloting) {
+            member.piloting.set(record.piloting);
+            member.asfPiloting?.set(record.piloting);
+        }
+    }
+
     toggleGunneryDropdown(index: number): void {
         const member = this.crew[index];
+        if (this.hasPilotRecord(index)) return;
         this.openSkillDropdown(
             this.skillOverlayKey('gunnery', member.id),
             this.gunneryTriggers()[index],
@@ -200,7 +230,7 @@ export class EditPilotDialogComponent {
     }
 
     togglePilotingDropdown(index: number): void {
-        if (this.data.disablePiloting) return;
+        if (this.data.disablePiloting || this.hasPilotRecord(index)) return;
         const member = this.crew[index];
         this.openSkillDropdown(
             this.skillOverlayKey('piloting', member.id),
@@ -361,6 +391,7 @@ export class EditPilotDialogComponent {
             piloting: member.piloting(),
             ...(member.asfGunnery === undefined ? {} : { asfGunnery: member.asfGunnery() }),
             ...(member.asfPiloting === undefined ? {} : { asfPiloting: member.asfPiloting() }),
+            ...(member.pilotId === undefined ? {} : { pilotId: member.pilotId() }),
         }));
     }
 
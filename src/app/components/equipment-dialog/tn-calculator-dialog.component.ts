@@ -174,6 +174,8 @@ export interface TnCalculatorDialogData {
     showC3Distance?: boolean;
     c3Degraded?: boolean;
     indirectFireAvailable?: boolean;
+    /** Opens the lobby attack resolution; only set for units of other lobby players. */
+    resolveAttack?: () => void;
 }
 
 export interface TnCalculatorDialogResult {
@@ -445,6 +447,9 @@ export interface TnCalculatorDialogResult {
                     <path d="M3 3v5h5"></path>
                 </svg>
             </button>
+            @if (canResolveAttack) {
+            <button class="bt-button" type="button" title="Resolve an attack and send the damage to the target's owner" (click)="resolveAttack()">ATTACK</button>
+            }
             <button class="bt-button" type="button" (click)="close()">CANCEL</button>
         </div>
     </div>
@@ -1183,6 +1188,7 @@ export class TnCalculatorDialogComponent {
     );
 
     readonly target = this.data.target;
+    readonly canResolveAttack = !!this.data.resolveAttack;
     readonly indirectFireAvailable = this.data.indirectFireAvailable ?? true;
     private readonly initialIndirectFire = this.initialCalculator?.indirectFire ?? false;
     readonly targetStateReadOnly = this.data.targetStateReadOnly ?? false;
@@ -1650,6 +1656,10 @@ export class TnCalculatorDialogComponent {
         this.dialogRef.close(null);
     }
 
+    resolveAttack(): void {
+        this.data.resolveAttack?.();
+    }
+
     reset(): void {
         this.range.set(1);
         this.c3Distance.set(1);
@@ -7,13 +7,16 @@ import { DialogRef, DIALOG_DATA } from '@angular/cdk/dialog';
 import { type Overlay } from '@angular/cdk/overlay';
 import { ComponentPortal } from '@angular/cdk/portal';
 import { outputToObservable, takeUntilDestroyed } from '@angular/core/rxjs-interop';
-import type { CBTForceUnit } from '../../models/cbt-force-unit.model';
+import { CBTForceUnit } from '../../models/cbt-force-unit.model';
 import { WeaponEquipment } from '../../models/equipment.model';
 import type { OverlayManagerService } from '../../services/overlay-manager.service';
 import { getInventoryControlAmmoSelectionOptions } from '../../utils/inventory-control.util';
 import { WeaponTargetsMenuComponent, type NarcCapableWeaponLayers, type WeaponTargetCalculatorRequest, type WeaponTargetUpdateRequest } from './weapon-targets-menu.component';
 import { TnCalculatorDialogComponent, type TnCalculatorDialogData, type TnCalculatorDialogResult } from './tn-calculator-dialog.component';
 import { ForceBuilderService } from '../../services/force-builder.service';
+import { DialogsService } from '../../services/dialogs.service';
+import { LobbyAttackService } from '../../services/lobby-attack.service';
+import { getOpforInventoryTargetUnitId } from '../../utils/inventory-control-opfor-target.util';
 
 const WEAPON_TARGET_OVERLAY_POSITIONS = [
     { originX: 'end', originY: 'bottom', overlayX: 'end', overlayY: 'top', offsetY: 4 },
@@ -178,6 +181,7 @@ export class WeaponTargetsOverlayController {
             c3Degraded: options.unit.c3DegradationSource() !== 'none',
             indirectFireAvailable: options.unit.getInventory()
                 .some(entry => entry.equipment?.hasFlag('F_INDIRECT_FIRE') === true),
+            resolveAttack: this.lobbyAttackResolver(options, target.id),
         };
         const portal = new ComponentPortal(TnCalculatorDialogComponent, null, Injector.create({
             providers: [
@@ -207,6 +211,25 @@ export class WeaponTargetsOverlayController {
         });
     }
 
+    /** Attacks on OPFOR units owned by another lobby player are resolved through the lobby. */
+    private lobbyAttackResolver(options: WeaponTargetsOverlayOpenOptions, targetId: string): (() => void) | undefined {
+        const unitId = getOpforInventoryTargetUnitId(targetId);
+        if (!unitId) return undefined;
+        const enemyUnit = this.forceBuilderService().loadedForces()
+            .flatMap(slot => slot.force.units())
+            .find((unit): unit is CBTForceUnit => unit.id === unitId && unit instanceof CBTForceUnit);
+        const lobbyAttackService = this.deps.injector.get(LobbyAttackService);
+        if (!enemyUnit || !lobbyAttackService.getTarget(enemyUnit)) return undefined;
+        return () => {
+            this.closeTnCalculator(options.overlayKey);
+            void import('../lobby-attack-dialog/lobby-attack-dialog.component').then(({ LobbyAttackDialogComponent }) => {
+                this.deps.injector.get(DialogsService).createDialog(LobbyAttackDialogComponent, {
+                    data: { attacker: options.unit, target: enemyUnit },
+                });
+            });
+        };
+    }
+
     private closeTnCalculator(parentOverlayKey: string): void {
         this.deps.overlayManager.closeManagedOverlay(this.tnCalculatorOverlayKey(parentOverlayKey));
         this.tnCalculatorCompRef = null;
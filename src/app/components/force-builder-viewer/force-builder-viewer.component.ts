@@ -8,8 +8,8 @@ import type { Subscription } from 'rxjs';
 import { ForceBuilderService } from '../../services/force-builder.service';
 import { LayoutService } from '../../services/layout.service';
 import { OptionsService } from '../../services/options.service';
-import { buildEraWarningMessage, type Force, UnitGroup } from '../../models/force.model';
-import type { ForceSlot } from '../../models/force-slot.model';
+import { type Force, UnitGroup } from '../../models/force.model';
+import { forceSideRgb, type ForceAlignment, type ForceSlot } from '../../models/force-slot.model';
 import type { ForceUnit } from '../../models/force-unit.model';
 import { DragDropModule, type CdkDragDrop, type CdkDragMove } from '@angular/cdk/drag-drop'
 import { DialogsService } from '../../services/dialogs.service';
@@ -20,11 +20,10 @@ import { ToastService } from '../../services/toast.service';
 import { formatSummaryMovement } from '../../models/pilot-abilities.model';
 import { getFormationDefinition } from '../../utils/formation-blueprints';
 import { formationInheritsParentEffects } from '../../utils/formation-type.model';
-import { DataService } from '../../services/data.service';
-import { UnitAvailabilitySourceService } from '../../services/unit-availability-source.service';
+import { UnitPoolService } from '../../services/unit-pool.service';
+import { RulesPackService } from '../../services/rules-pack.service';
 import { LobbyService } from '../../services/lobby.service';
 import { TooltipDirective } from '../../directives/tooltip.directive';
-import { MULFACTION_EXTINCT } from '../../models/mulfactions.model';
 import { formatBvPv } from '../../utils/force-viewer-bv-pv-display.util';
 import { LanceTypeIdentifierUtil } from '../../utils/lance-type-identifier.util';
 
@@ -46,9 +45,9 @@ export class ForceBuilderViewerComponent {
     private dialogsService = inject(DialogsService);
     protected optionsService = inject(OptionsService);
     private injector = inject(Injector);
-    private dataService = inject(DataService);
     protected lobbyService = inject(LobbyService);
-    private unitAvailabilitySource = inject(UnitAvailabilitySourceService);
+    private unitPoolService = inject(UnitPoolService);
+    private rulesPackService = inject(RulesPackService);
     private scrollableContent = viewChild<ElementRef<HTMLDivElement>>('scrollableContent');
 
     forceUnitItems = viewChildren<ElementRef<HTMLElement>>('forceUnitItem');
@@ -79,23 +78,38 @@ export class ForceBuilderViewerComponent {
 
     hasOwnedForce = computed<boolean>(() => this.forceBuilderService.loadedForces().some(s => !s.force.readOnly()));
 
+    sideRgb(alignment: ForceAlignment): string {
+        return forceSideRgb(this.forceBuilderService.getSide(alignment).color);
+    }
+
     forceEraWarning(force: Force): string | null {
-        const eras = this.dataService.getEras();
-        const availabilityContext = this.unitAvailabilitySource.createForceAvailabilityContextForUnits(
-            force.units().map((unit) => unit.getUnit()),
-            eras,
-        );
-        const extinctFaction = this.dataService.getFactionById(MULFACTION_EXTINCT) ?? null;
-
-        return buildEraWarningMessage(
-            force.units(),
-            force.era(),
-            force.faction(),
-            eras,
-            extinctFaction,
-            availabilityContext,
-            (faction, era) => this.unitAvailabilitySource.factionExistsInEra(faction, era, availabilityContext.source),
-        );
+        return this.forceBuilderService.eraWarning(force);
+    }
+
+    /** Units the force uses that its organization's unit pool does not have available. */
+    forcePoolWarning(force: Force): string | null {
+        return this.unitPoolService.poolWarning(force);
+    }
+
+    /** Destroyed units of the force still deployed from its unit pool. */
+    forcePoolWriteOffWarning(force: Force): string | null {
+        return this.unitPoolService.poolWriteOffWarning(force);
+    }
+
+    confirmPoolWriteOffs(force: Force): void {
+        this.unitPoolService.confirmWriteOffs(force);
+    }
+
+    /** How the force breaks the active rules pack. */
+    forceRulesPackWarning(force: Force): string | null {
+        const violations = this.forceBuilderService.rulesPackViolations(force);
+        if (violations.length === 0) return null;
+        const pack = this.rulesPackService.activePack();
+        return [`Breaks rules pack "${pack?.name}":`, ...violations.map(violation => violation.message)].join(' ');
+    }
+
+    showRulesPacks(): void {
+        this.rulesPackService.showRulesPacks();
     }
 
     /** Set of Force instances whose headers are currently blinking (remote update on visible force). */
@@ -0,0 +1,290 @@
+// Copyright (C) 2026 The MegaMek Team
+// SPDX-License-Identifier: GPL-3.0-or-later
+// Author: Drake
+
+import { ChangeDetectionStrategy, Component, computed, inject, signal } from '@angular/core';
+import { DialogRef } from '@angular/cdk/dialog';
+import { GameSystem } from '../../models/common.model';
+import { buildForceComparisonRows, computeForceComparisonStats, type ForceComparisonRow } from '../../models/force-comparison.model';
+import { createForcePreviewEntryFromForce, type ForcePreviewEntry } from '../../models/force-preview.model';
+import { forceSideRgb } from '../../models/force-slot.model';
+import type { LoadForceEntry } from '../../models/load-force-entry.model';
+import { DataService } from '../../services/data.service';
+import { ForceBuilderService } from '../../services/force-builder.service';
+import { LoggerService } from '../../services/logger.service';
+
+/*
+ * Description: Side-by-side comparison of loaded and saved forces of one game
+ *              system, with every force's difference from the first one.
+ */
+
+interface ForceComparisonCandidate {
+    key: string;
+    name: string;
+    entry: ForcePreviewEntry;
+    /** Side color of a loaded force, as "r, g, b" */
+    sideRgb: string | null;
+    saved: boolean;
+}
+
+@Component({
+    selector: 'force-comparison-dialog',
+    standalone: true,
+    changeDetection: ChangeDetectionStrategy.OnPush,
+    imports: [],
+    host: { class: 'fullscreen-dialog-host glass' },
+    template: `
+    <div class="wide-dialog">
+        <h2 class="wide-dialog-title">Compare Forces</h2>
+        <div class="wide-dialog-body">
+            <div class="controls">
+                <select class="bt-select" [value]="gameSystem()" (change)="setGameSystem($any($event.target).value)" aria-label="Game system">
+                    <option [value]="GameSystem.CLASSIC">Classic BattleTech</option>
+                    <option [value]="GameSystem.ALPHA_STRIKE">Alpha Strike</option>
+                </select>
+                <select class="bt-select" (change)="addSavedForce($event)" aria-label="Add a saved force">
+                    <option value="" selected>{{ loadingSaved() ? 'Loading saved forces...' : 'Add a saved force...' }}</option>
+                    @for (saved of availableSavedForces(); track saved.instanceId) {
+                    <option [value]="saved.instanceId">{{ saved.name || 'Unnamed force' }}</option>
+                    }
+                </select>
+            </div>
+            <div class="candidates">
+                @for (candidate of candidates(); track candidate.key) {
+                <label class="candidate" [style.--side-color]="candidate.sideRgb">
+                    <input type="checkbox" [checked]="isSelected(candidate.key)" (change)="toggle(candidate.key)" />
+                    {{ candidate.name }}
+                    @if (candidate.saved) {
+                    <span class="tag">saved</span>
+                    }
+                </label>
+                } @empty {
+                <span class="hint">No loaded forces of this game system. Add a saved force to compare.</span>
+                }
+            </div>
+            @if (columns().length < 2) {
+            <p class="hint">Pick two or more forces to compare. Differences are shown against the first one.</p>
+            }
+            @if (columns().length > 0) {
+            <div class="table-scroll">
+                <table class="comparison-table">
+                    <thead>
+                        <tr>
+                            <th></th>
+                            @for (column of columns(); track column.key) {
+                            <th class="force-name" [style.--side-color]="column.sideRgb">{{ column.name }}</th>
+                            }
+                        </tr>
+                    </thead>
+                    <tbody>
+                        @for (row of rows(); track row.label) {
+                        <tr>
+                            <th>{{ row.label }}</th>
+                            @for (value of row.values; track $index) {
+                            <td [class.best]="row.best[$index]">
+                                {{ formatValue(value, row) }}
+                                @if (row.deltas[$index]; as delta) {
+                                <span class="delta" [class.up]="delta > 0" [class.down]="delta < 0">{{ formatDelta(delta, row) }}</span>
+                                }
+                            </td>
+                            }
+                        </tr>
+                        }
+                    </tbody>
+                </table>
+            </div>
+            }
+        </div>
+        <div class="wide-dialog-actions">
+            <button class="bt-button" (click)="close()">CLOSE</button>
+        </div>
+    </div>
+    `,
+    styles: [`
+        .wide-dialog {
+            max-width: 1100px;
+        }
+
+        .hint, .tag {
+            font-weight: normal;
+            font-size: 0.85em;
+            opacity: 0.7;
+        }
+
+        .controls, .candidates {
+            display: flex;
+            flex-wrap: wrap;
+            gap: 8px;
+            margin-bottom: 8px;
+        }
+
+        .candidate {
+            display: inline-flex;
+            align-items: center;
+            gap: 4px;
+            padding: 2px 6px;
+            border-left: 3px solid rgb(var(--side-color, 128, 128, 128));
+            cursor: pointer;
+        }
+
+        .table-scroll {
+            overflow-x: auto;
+        }
+
+        .comparison-table {
+            width: 100%;
+            border-collapse: collapse;
+
+            th, td {
+                padding: 4px 6px;
+                border-bottom: 1px solid var(--border-color);
+                white-space: nowrap;
+            }
+
+            tbody th {
+                text-align: left;
+                font-weight: normal;
+                opacity: 0.85;
+            }
+
+            td {
+                text-align: right;
+            }
+
+            .force-name {
+                text-align: right;
+                border-bottom: 3px solid rgb(var(--side-color, 128, 128, 128));
+            }
+
+            .best {
+                color: var(--bt-yellow);
+                font-weight: bold;
+            }
+
+            .delta {
+                display: inline-block;
+                min-width: 3em;
+                font-size: 0.8em;
+                font-weight: normal;
+                opacity: 0.8;
+            }
+
+            .delta.up {
+                color: #4caf50;
+            }
+
+            .delta.down {
+                color: #ff4444;
+            }
+        }
+    `]
+})
+export class ForceComparisonDialogComponent {
+    private readonly forceBuilderService = inject(ForceBuilderService);
+    private readonly dataService = inject(DataService);
+    private readonly logger = inject(LoggerService);
+    private readonly dialogRef = inject(DialogRef<void>);
+
+    protected readonly GameSystem = GameSystem;
+
+    readonly gameSystem = signal<GameSystem>(
+        this.forceBuilderService.currentForce()?.gameSystem
+            ?? this.forceBuilderService.loadedForces()[0]?.force.gameSystem
+            ?? GameSystem.CLASSIC,
+    );
+    readonly savedForces = signal<LoadForceEntry[]>([]);
+    readonly loadingSaved = signal(true);
+    /** Saved forces added to the comparison, in the order they were added */
+    private readonly addedSaved = signal<LoadForceEntry[]>([]);
+    /** Keys of the unchecked forces; loaded forces are compared by default */
+    private readonly deselected = signal<ReadonlySet<string>>(new Set());
+
+    private readonly loadedCandidates = computed<ForceComparisonCandidate[]>(() => {
+        const gameSystem = this.gameSystem();
+        return this.forceBuilderService.loadedForces()
+            .filter(slot => slot.force.gameSystem === gameSystem)
+            .map((slot, index) => ({
+                key: `loaded:${slot.force.instanceId() || index}`,
+                name: slot.force.displayName(),
+                entry: createForcePreviewEntryFromForce(slot.force),
+                sideRgb: forceSideRgb(this.forceBuilderService.getSide(slot.alignment).color),
+                saved: false,
+            }));
+    });
+
+    /** Saved forces of the selected game system that are not loaded already. */
+    readonly availableSavedForces = computed<LoadForceEntry[]>(() => {
+        const gameSystem = this.gameSystem();
+        const loadedIds = new Set(this.forceBuilderService.loadedForces().map(slot => slot.force.instanceId()).filter(Boolean));
+        const addedIds = new Set(this.addedSaved().map(entry => entry.instanceId));
+        return this.savedForces().filter(entry =>
+            entry.type === gameSystem && !loadedIds.has(entry.instanceId) && !addedIds.has(entry.instanceId));
+    });
+
+    readonly candidates = computed<ForceComparisonCandidate[]>(() => {
+        const gameSystem = this.gameSystem();
+        return [
+            ...this.loadedCandidates(),
+            ...this.addedSaved()
+                .filter(entry => entry.type === gameSystem)
+                .map(entry => ({
+                    key: `saved:${entry.instanceId}`,
+                    name: entry.name || 'Unnamed force',
+                    entry,
+                    sideRgb: null,
+                    saved: true,
+                })),
+        ];
+    });
+
+    readonly columns = computed<ForceComparisonCandidate[]>(() => {
+        const deselected = this.deselected();
+        return this.candidates().filter(candidate => !deselected.has(candidate.key));
+    });
+
+    readonly rows = computed<ForceComparisonRow[]>(() =>
+        buildForceComparisonRows(this.columns().map(column => computeForceComparisonStats(column.entry)), this.gameSystem()));
+
+    constructor() {
+        this.dataService.listForces()
+            .then(forces => this.savedForces.set(forces))
+            .catch(error => this.logger.error(`Failed to list saved forces for comparison: ${error}`))
+            .finally(() => this.loadingSaved.set(false));
+    }
+
+    setGameSystem(gameSystem: GameSystem): void {
+        this.gameSystem.set(gameSystem);
+    }
+
+    isSelected(key: string): boolean {
+        return !this.deselected().has(key);
+    }
+
+    toggle(key: string): void {
+        this.deselected.update(keys => {
+            const next = new Set(keys);
+            if (!next.delete(key)) next.add(key);
+            return next;
+        });
+    }
+
+    addSavedForce(event: Event): void {
+        const select = event.target as HTMLSelectElement;
+        const entry = this.availableSavedForces().find(saved => saved.instanceId === select.value);
+        select.value = '';
+        if (!entry) return;
+        this.addedSaved.update(entries => [...entries, entry]);
+    }
+
+    formatValue(value: number, row: ForceComparisonRow): string {
+        return value.toLocaleString(undefined, { maximumFractionDigits: row.decimals });
+    }
+
+    formatDelta(delta: number, row: ForceComparisonRow): string {
+        return `${delta > 0 ? '+' : ''}${this.formatValue(delta, row)}`;
+    }
+
+    close(): void {
+        this.dialogRef.close();
+    }
+}
@@ -1698,6 +1698,7 @@ export class ForceLoadDialogComponent {
             name: op.name || '',
             note: op.note || '',
             forces: op.forces,
+            sides: op.sides,
         };
 
         const ref = this.dialogsService.createDialog<OperationDialogResult | null>(
@@ -1724,6 +1725,7 @@ export class ForceLoadDialogComponent {
                     timestamp: originalForce?.timestamp || new Date().toISOString(),
                 };
             }),
+            sides: result.sides ?? op.sides,
         };
 
         await this.dataService.saveOperation(updatedOp);
@@ -1738,6 +1740,7 @@ export class ForceLoadDialogComponent {
                 timestamp: originalForce?.timestamp || new Date().toISOString(),
             };
         }) as any;
+        op.sides = result.sides ?? op.sides;
         this.operations.set([...this.operations()]);
     }
 
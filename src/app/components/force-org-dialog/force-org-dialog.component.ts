@@ -11,6 +11,7 @@ import {
     type ElementRef,
     HostListener,
     inject,
+    Injector,
     signal,
     viewChild,
     type WritableSignal,
@@ -18,11 +19,13 @@ import {
 import { DialogRef, DIALOG_DATA } from '@angular/cdk/dialog';
 import { LoadForceEntry } from '../../models/load-force-entry.model';
 import { sanitizeForceTags } from '../../models/force-serialization';
+import { forceSideRgb } from '../../models/force-slot.model';
 import { DataService } from '../../services/data.service';
 import { DialogsService } from '../../services/dialogs.service';
 import { ForceBuilderService } from '../../services/force-builder.service';
 import { LayoutService } from '../../services/layout.service';
 import { UrlService } from '../../services/url.service';
+import { UnitPoolService } from '../../services/unit-pool.service';
 import { FactionImgPipe } from '../../pipes/faction-img.pipe';
 import type { GroupSizeResult, OrgSizeResult } from '../../utils/org/org-types';
 import { GameSystem } from '../../models/common.model';
@@ -285,6 +288,7 @@ export class ForceOrgDialogComponent {
     private forceBuilderService = inject(ForceBuilderService);
     private destroyRef = inject(DestroyRef);
     private urlService = inject(UrlService);
+    private injector = inject(Injector);
     protected layoutService = inject(LayoutService);
     private svgCanvas = viewChild<ElementRef<SVGSVGElement>>('svgCanvas');
     private dialogData: ForceOrgDialogData | null = inject(DIALOG_DATA, { optional: true });
@@ -311,12 +315,12 @@ export class ForceOrgDialogComponent {
         return unit?.force?.instanceId() ?? null;
     });
 
-    /** Map of loaded force instanceId → alignment ('friendly' | 'enemy'). */
-    protected loadedForceAlignments = computed<Map<string, 'friendly' | 'enemy'>>(() => {
-        const map = new Map<string, 'friendly' | 'enemy'>();
+    /** Map of loaded force instanceId → `r, g, b` color of the side it is loaded on. */
+    protected loadedForceSideColors = computed<Map<string, string>>(() => {
+        const map = new Map<string, string>();
         for (const slot of this.forceBuilderService.loadedForces()) {
             const id = slot.force.instanceId();
-            if (id) map.set(id, slot.alignment);
+            if (id) map.set(id, forceSideRgb(this.forceBuilderService.getSide(slot.alignment).color));
         }
         return map;
     });
@@ -2988,6 +2992,16 @@ export class ForceOrgDialogComponent {
         }
     }
 
+    protected async showUnitPool(): Promise<void> {
+        const organizationId = this.organizationId();
+        if (!organizationId) return;
+        const units = this.placedForces()
+            .flatMap(pf => pf.force.groups)
+            .flatMap(group => group.units)
+            .flatMap(({ unit }) => unit ? [unit] : []);
+        await this.injector.get(UnitPoolService).showUnitPool(organizationId, units, this.readOnly());
+    }
+
     protected async shareOrganization(event?: MouseEvent): Promise<void> {
         event?.stopPropagation();
         if (this.saving()) return;
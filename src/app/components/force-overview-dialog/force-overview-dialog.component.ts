@@ -20,7 +20,7 @@ import { AsAbilityLookupService } from '../../services/as-ability-lookup.service
 import { formatSummaryMovement } from '../../models/pilot-abilities.model';
 import { createForcePreviewEntryFromForce, type ForcePreviewEntry, type ForcePreviewUnit } from '../../models/force-preview.model';
 import { ForcePreviewPanelComponent } from '../force-preview-panel/force-preview-panel.component';
-import { ForceRadarPanelComponent } from '../force-radar-panel/force-radar-panel.component';
+import { ForceRadarPanelComponent, type ForceRadarSide } from '../force-radar-panel/force-radar-panel.component';
 import { UnitCardExpandedComponent } from '../unit-card-expanded/unit-card-expanded.component';
 import { UnitBlockComponent } from '../unit-block/unit-block.component';
 import { UnitIconComponent } from '../unit-icon/unit-icon.component';
@@ -212,6 +212,20 @@ export class ForceOverviewDialogComponent {
         return createForcePreviewEntryFromForce(this.data.force);
     });
 
+    /** Sides of the loaded operation for the radar, when this force is part of one with more than one side. */
+    readonly radarSides = computed<ForceRadarSide[]>(() => {
+        const slots = this.forceBuilderService.loadedForces();
+        const sides = this.forceBuilderService.activeSides();
+        if (sides.length < 2 || !slots.some(slot => slot.force === this.data.force)) return [];
+        return sides.map(side => ({
+            name: side.name,
+            color: side.color,
+            forces: slots
+                .filter(slot => slot.alignment === side.id)
+                .map(slot => createForcePreviewEntryFromForce(slot.force)),
+        }));
+    });
+
     /** Total unit count */
     unitCount = computed(() => this.units().length);
 
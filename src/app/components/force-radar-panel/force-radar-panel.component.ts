@@ -7,6 +7,7 @@ import { ChangeDetectionStrategy, Component, computed, inject, input } from '@an
 
 import { GameSystem } from '../../models/common.model';
 import { getForcePreviewResolvedUnits, type ForcePreviewEntry } from '../../models/force-preview.model';
+import { forceSideRgb } from '../../models/force-slot.model';
 import type { UnitSummary } from '../../models/unit-summary.model';
 import { DataService, DOES_NOT_TRACK, type MinMaxStatsRange } from '../../services/data.service';
 
@@ -38,6 +39,22 @@ interface RadarRing {
     points: string;
 }
 
+/** One side of an operation, charted on the same axes as the force. */
+export interface ForceRadarSide {
+    name: string;
+    /** Hex color (`#rrggbb`) of the side. */
+    color: string;
+    forces: readonly ForcePreviewEntry[];
+}
+
+interface RadarSideChart {
+    name: string;
+    rgb: string;
+    points: string;
+    bv: number;
+    pv: number;
+}
+
 interface RadarAxisDefinition {
     key: RadarStatKey;
     label: string;
@@ -398,6 +415,10 @@ function getUnitBucketMaxStats(dataService: DataService, gameSystem: GameSystem,
                             r="3.5"></circle>
                     }
 
+                    @for (side of sideCharts(); track $index) {
+                        <polygon class="radar-side-outline" [style.--side-color]="side.rgb" [attr.points]="side.points"></polygon>
+                    }
+
                     @if (overlayAxes.length > 0) {
                         <polygon class="radar-hover-fill" [attr.points]="hoveredValuePolygonPoints()"></polygon>
                         <polygon class="radar-hover-outline" [attr.points]="hoveredValuePolygonPoints()"></polygon>
@@ -430,6 +451,18 @@ function getUnitBucketMaxStats(dataService: DataService, gameSystem: GameSystem,
                     }
                 </svg>
             </div>
+            @if (sideCharts().length > 0) {
+                <div class="radar-legend">
+                    @for (side of sideCharts(); track $index) {
+                        <span class="radar-legend-item" [style.--side-color]="side.rgb">
+                            <span class="radar-legend-swatch"></span>
+                            <span>{{ side.name }}</span>
+                            @if (side.bv > 0) { <span class="radar-legend-total">BV {{ side.bv | number }}</span> }
+                            @if (side.pv > 0) { <span class="radar-legend-total">PV {{ side.pv | number }}</span> }
+                        </span>
+                    }
+                </div>
+            }
         } @else {
             <div class="radar-empty">No units to chart.</div>
         }
@@ -504,6 +537,12 @@ function getUnitBucketMaxStats(dataService: DataService, gameSystem: GameSystem,
             stroke-dasharray: 6 4;
         }
 
+        .radar-side-outline {
+            fill: rgba(var(--side-color), 0.08);
+            stroke: rgb(var(--side-color));
+            stroke-width: 1.5;
+        }
+
         .radar-node {
             fill: var(--bt-yellow, #eaae3f);
         }
@@ -533,6 +572,32 @@ function getUnitBucketMaxStats(dataService: DataService, gameSystem: GameSystem,
             fill: #62c4ff;
         }
 
+        .radar-legend {
+            display: flex;
+            flex-wrap: wrap;
+            justify-content: center;
+            gap: 4px 16px;
+            padding: 4px 8px;
+            font-size: 0.85em;
+        }
+
+        .radar-legend-item {
+            display: flex;
+            align-items: center;
+            gap: 6px;
+            color: rgb(var(--side-color));
+        }
+
+        .radar-legend-swatch {
+            width: 10px;
+            height: 10px;
+            background-color: rgb(var(--side-color));
+        }
+
+        .radar-legend-total {
+            color: var(--text-color-secondary);
+        }
+
         .radar-empty {
             display: flex;
             align-items: center;
@@ -564,6 +629,8 @@ export class ForceRadarPanelComponent {
     readonly renderHeight = RADAR_RENDER_HEIGHT;
     readonly force = input.required<ForcePreviewEntry>();
     readonly hoveredUnit = input<UnitSummary | null>(null);
+    /** Sides of the loaded operation; each gets its own outline and a legend entry with its totals. */
+    readonly sides = input<readonly ForceRadarSide[]>([]);
     readonly axisDefinitions = computed(() => this.force().type === GameSystem.ALPHA_STRIKE
         ? ALPHA_STRIKE_RADAR_AXIS_DEFINITIONS
         : CLASSIC_RADAR_AXIS_DEFINITIONS);
@@ -572,39 +639,25 @@ export class ForceRadarPanelComponent {
 
     readonly hasUnits = computed(() => this.units().length > 0);
 
-    readonly chartAxes = computed<RadarAxis[]>(() => {
-        const axisDefinitions = this.axisDefinitions();
-        const gameSystem = this.force().type;
-        const totals = axisDefinitions.map((definition, index) => ({
-            definition,
-            index,
-            value: 0,
-            min: 0,
-            average: 0,
-            max: 0,
-        }));
-
-        for (const unit of this.units()) {
-            const maxStats = gameSystem === GameSystem.ALPHA_STRIKE
-                ? this.dataService.getASUnitTypeMaxStats(unit.as?.TP ?? '')
-                : this.dataService.getUnitSubtypeMaxStats(unit.subtype);
+    readonly chartAxes = computed<RadarAxis[]>(() => this.buildAxes(this.units()));
 
-            for (const total of totals) {
-                const contribution = total.definition.getContribution(unit, maxStats);
-                total.value += contribution.value;
-                total.min += contribution.min;
-                total.average += contribution.average;
-                total.max += contribution.max;
+    /** Sides of another game system than the force cannot share its axes and are left out. */
+    readonly sideCharts = computed<RadarSideChart[]>(() => {
+        const gameSystem = this.force().type;
+        return this.sides().flatMap((side) => {
+            const forces = side.forces.filter((force) => force.type === gameSystem);
+            const units = forces.flatMap((force) => getForcePreviewResolvedUnits(force));
+            if (units.length === 0) {
+                return [];
             }
-        }
 
-        return totals.map((total) => {
-            return buildRadarAxis(total.definition, total.index, axisDefinitions.length, {
-                value: total.value,
-                min: total.min,
-                average: total.average,
-                max: total.max,
-            });
+            return [{
+                name: side.name,
+                rgb: forceSideRgb(side.color),
+                points: toPointString(this.buildAxes(units).map((axis) => axis.dataPoint)),
+                bv: forces.reduce((sum, force) => sum + (force.bv ?? 0), 0),
+                pv: forces.reduce((sum, force) => sum + (force.pv ?? 0), 0),
+            }];
         });
     });
 
@@ -647,6 +700,42 @@ export class ForceRadarPanelComponent {
         return toPointString(this.hoveredUnitAxes().map((axis) => axis.dataPoint));
     });
 
+    private buildAxes(units: readonly UnitSummary[]): RadarAxis[] {
+        const axisDefinitions = this.axisDefinitions();
+        const gameSystem = this.force().type;
+        const totals = axisDefinitions.map((definition, index) => ({
+            definition,
+            index,
+            value: 0,
+            min: 0,
+            average: 0,
+            max: 0,
+        }));
+
+        for (const unit of units) {
+            const maxStats = gameSystem === GameSystem.ALPHA_STRIKE
+                ? this.dataService.getASUnitTypeMaxStats(unit.as?.TP ?? '')
+                : this.dataService.getUnitSubtypeMaxStats(unit.subtype);
+
+            for (const total of totals) {
+                const contribution = total.definition.getContribution(unit, maxStats);
+                total.value += contribution.value;
+                total.min += contribution.min;
+                total.average += contribution.average;
+                total.max += contribution.max;
+            }
+        }
+
+        return totals.map((total) => {
+            return buildRadarAxis(total.definition, total.index, axisDefinitions.length, {
+                value: total.value,
+                min: total.min,
+                average: total.average,
+                max: total.max,
+            });
+        });
+    }
+
     private getUnitBucketMaxStats(unit: UnitSummary): MinMaxStatsRange {
         return getUnitBucketMaxStats(this.dataService, this.force().type, unit);
     }
@@ -53,7 +53,7 @@ describe('JoinLobbyDialogComponent', () => {
         element.querySelector<HTMLButtonElement>('.wide-dialog-actions button')!.click();
         await fixture.whenStable();
 
-        expect(attemptJoin).toHaveBeenCalledOnceWith('a1b2', 'Specter');
+        expect(attemptJoin).toHaveBeenCalledOnceWith('a1b2', 'Specter', 'player');
         expect(dialogRef.close).toHaveBeenCalledOnceWith(true);
     });
 
@@ -84,6 +84,22 @@ describe('JoinLobbyDialogComponent', () => {
         expect(dialogRef.close).toHaveBeenCalledOnceWith(true);
     });
 
+    it('joins as a spectator when requested', async () => {
+        const element = fixture.nativeElement as HTMLElement;
+        const codeInput = element.querySelector<HTMLInputElement>('.code-field input')!;
+        codeInput.value = 'a1b2';
+        codeInput.dispatchEvent(new Event('input'));
+        const spectatorInput = element.querySelector<HTMLInputElement>('.spectator-control input')!;
+        spectatorInput.checked = true;
+        spectatorInput.dispatchEvent(new Event('change'));
+        fixture.detectChanges();
+
+        element.querySelector<HTMLButtonElement>('.wide-dialog-actions button')!.click();
+        await fixture.whenStable();
+
+        expect(attemptJoin).toHaveBeenCalledOnceWith('a1b2', 'Specter', 'spectator');
+    });
+
     it('uses the usual random button to generate another callsign', async () => {
         const element = fixture.nativeElement as HTMLElement;
         const randomButton = element.querySelector<HTMLButtonElement>('.random-button')!;
@@ -4,12 +4,13 @@
 
 import { ChangeDetectionStrategy, Component, computed, inject, signal } from '@angular/core';
 import { DialogRef, DIALOG_DATA } from '@angular/cdk/dialog';
+import type { LobbyRole } from '../../models/lobby.model';
 import { DisplayNameService } from '../../services/display-name.service';
 import { MAX_DISPLAY_NAME_LENGTH, normalizeDisplayName } from '../../utils/display-name.util';
 
 export interface JoinLobbyDialogData {
     displayName: string;
-    attemptJoin: (code: string, displayName: string) => Promise<void>;
+    attemptJoin: (code: string, displayName: string, role: LobbyRole) => Promise<void>;
 }
 
 @Component({
@@ -70,6 +71,17 @@ export interface JoinLobbyDialogData {
                         <span class="hint">Shown to the other lobby participants</span>
                     </div>
                 </div>
+                <label class="spectator-control">
+                    <input
+                        type="checkbox"
+                        class="bt-checkbox"
+                        [disabled]="joining()"
+                        [checked]="spectator()"
+                        (change)="onSpectatorChange($event)"
+                    />
+                    <span>Join as spectator</span>
+                </label>
+                <span class="hint">Spectators follow every player's sheets live but cannot edit them or publish forces.</span>
                 @if (joinError()) {
                     <div class="join-error" role="alert">{{ joinError() }}</div>
                 }
@@ -139,6 +151,13 @@ export interface JoinLobbyDialogData {
             text-align: center;
         }
 
+        .spectator-control {
+            display: flex;
+            align-items: center;
+            gap: 0.5rem;
+            cursor: pointer;
+        }
+
         .join-error {
             color: var(--danger);
             font-size: 0.9em;
@@ -163,6 +182,7 @@ export class JoinLobbyDialogComponent {
     readonly generatingName = signal(false);
     readonly joining = signal(false);
     readonly joinError = signal('');
+    readonly spectator = signal(false);
     readonly isValid = computed(() => /^[a-z0-9]{4}$/i.test(this.code()) && normalizeDisplayName(this.displayName()) !== null);
 
     onCodeInput(event: Event): void {
@@ -178,6 +198,10 @@ export class JoinLobbyDialogComponent {
         this.joinError.set('');
     }
 
+    onSpectatorChange(event: Event): void {
+        this.spectator.set((event.target as HTMLInputElement).checked);
+    }
+
     async fillRandomName(): Promise<void> {
         if (this.generatingName() || this.joining()) return;
         this.generatingName.set(true);
@@ -199,7 +223,7 @@ export class JoinLobbyDialogComponent {
         this.joining.set(true);
         this.joinError.set('');
         try {
-            await this.data.attemptJoin(this.code(), displayName);
+            await this.data.attemptJoin(this.code(), displayName, this.spectator() ? 'spectator' : 'player');
             this.dialogRef.close(true);
         } catch (error) {
             const message = error instanceof Error ? error.message : '';
@@ -0,0 +1,199 @@
+// Copyright (C) 2026 The MegaMek Team
+// SPDX-License-Identifier: GPL-3.0-or-later
+// Author: Drake
+
+import { ChangeDetectionStrategy, Component, computed, inject, signal } from '@angular/core';
+import { DialogRef, DIALOG_DATA } from '@angular/cdk/dialog';
+import type { CBTForceUnit } from '../../models/cbt-force-unit.model';
+import { getMekLocationLabel } from '../../models/entity/types';
+import type { LobbyDamageHit } from '../../models/lobby-attack.model';
+import { LobbyAttackService } from '../../services/lobby-attack.service';
+import { RollLogService } from '../../services/roll-log.service';
+import { getDamageableLocations } from '../../utils/lobby-attack.util';
+import { resolveMekCriticalChance, mekCriticalChanceCanBlowOff } from '../../utils/mek-critical-hit.util';
+
+export interface LobbyAttackDialogData {
+    attacker: CBTForceUnit;
+    target: CBTForceUnit;
+}
+
+interface DraftHit {
+    location: string;
+    rear: boolean;
+    damage: number;
+    criticalRoll?: number[];
+}
+
+function rollD6(): number {
+    return Math.floor(Math.random() * 6) + 1;
+}
+
+/** Resolves an attack on another lobby player's unit and sends it for their approval. */
+@Component({
+    selector: 'lobby-attack-dialog',
+    standalone: true,
+    changeDetection: ChangeDetectionStrategy.OnPush,
+    host: { class: 'fullscreen-dialog-host glass' },
+    template: `
+        <div class="wide-dialog lobby-attack-dialog">
+            <h2 class="wide-dialog-title">Attack {{ data.target.getDisplayName() }}</h2>
+            <div class="wide-dialog-body">
+                <label class="weapon-field">
+                    <span>Weapon</span>
+                    <input class="bt-input" type="text" maxlength="120" placeholder="Optional"
+                        [value]="weapon()" (input)="weapon.set($any($event.target).value)" />
+                </label>
+                @for (hit of hits(); track $index; let i = $index) {
+                    <div class="hit-row">
+                        <select class="bt-select" [value]="hit.location" (change)="updateHit(i, { location: $any($event.target).value, rear: false })">
+                            @for (option of locations; track option.location) {
+                                <option [value]="option.location">{{ locationLabel(option.location) }}</option>
+                            }
+                        </select>
+                        @if (hasRear(hit.location)) {
+                            <label class="rear-control">
+                                <input type="checkbox" class="bt-checkbox" [checked]="hit.rear" (change)="updateHit(i, { rear: $any($event.target).checked })" />
+                                <span>Rear</span>
+                            </label>
+                        }
+                        <input class="bt-input damage-input" type="number" min="1" max="200" aria-label="Damage"
+                            [value]="hit.damage" (input)="updateHit(i, { damage: +$any($event.target).value })" />
+                        @if (isMek) {
+                            @if (hit.criticalRoll) {
+                                <button type="button" class="bt-button critical-button" title="Clear critical chance roll" (click)="updateHit(i, { criticalRoll: undefined })">
+                                    CRIT {{ hit.criticalRoll[0] + hit.criticalRoll[1] }}: {{ criticalLabel(hit) }}
+                                </button>
+                            } @else {
+                                <button type="button" class="bt-button critical-button" (click)="rollCriticalChance(i)">ROLL CRIT</button>
+                            }
+                        }
+                        <button type="button" class="bt-button square remove-button" aria-label="Remove hit" [disabled]="hits().length === 1" (click)="removeHit(i)">×</button>
+                    </div>
+                }
+                <button type="button" class="bt-button add-button" [disabled]="locations.length === 0" (click)="addHit()">ADD HIT</button>
+            </div>
+            <div class="wide-dialog-actions">
+                <button class="bt-button" type="button" [disabled]="!isValid()" (click)="send()">SEND</button>
+                <button class="bt-button" type="button" (click)="close()">CANCEL</button>
+            </div>
+        </div>
+    `,
+    styles: [`
+        .lobby-attack-dialog {
+            width: min(34rem, calc(100dvw - 2rem));
+        }
+
+        .weapon-field {
+            display: flex;
+            align-items: center;
+            gap: 8px;
+        }
+
+        .weapon-field .bt-input {
+            flex: 1;
+            min-width: 0;
+        }
+
+        .hit-row {
+            display: flex;
+            align-items: center;
+            flex-wrap: wrap;
+            gap: 8px;
+        }
+
+        .rear-control {
+            display: flex;
+            align-items: center;
+            gap: 4px;
+        }
+
+        .damage-input {
+            width: 4.5em;
+        }
+
+        .critical-button {
+            min-width: 7em;
+        }
+
+        .add-button {
+            align-self: flex-start;
+        }
+    `]
+})
+export class LobbyAttackDialogComponent {
+    readonly data = inject<LobbyAttackDialogData>(DIALOG_DATA);
+    private readonly dialogRef = inject(DialogRef<boolean>);
+    private readonly lobbyAttackService = inject(LobbyAttackService);
+    private readonly rollLogService = inject(RollLogService);
+
+    readonly locations = getDamageableLocations(this.data.target);
+    readonly isMek = this.data.target.getUnit().type === 'Mek';
+    readonly weapon = signal('');
+    readonly hits = signal<DraftHit[]>(this.locations.length > 0
+        ? [{ location: this.locations[0].location, rear: false, damage: 1 }]
+        : []);
+    readonly isValid = computed(() => this.hits().length > 0 && this.hits().every(hit => (
+        Number.isInteger(hit.damage) && hit.damage >= 1 && hit.damage <= 200
+    )));
+
+    locationLabel(location: string): string {
+        return getMekLocationLabel(location) ?? location;
+    }
+
+    hasRear(location: string): boolean {
+        return this.locations.some(option => option.location === location && option.hasRear);
+    }
+
+    criticalLabel(hit: DraftHit): string {
+        if (!hit.criticalRoll) return '';
+        const result = resolveMekCriticalChance(hit.criticalRoll[0] + hit.criticalRoll[1], mekCriticalChanceCanBlowOff(hit.location));
+        if (result.kind === 'none') return 'none';
+        if (result.kind === 'blown-off') return 'blown off';
+        return `${result.count}`;
+    }
+
+    addHit(): void {
+        const location = this.hits().at(-1)?.location ?? this.locations[0]?.location;
+        if (!location) return;
+        this.hits.update(hits => [...hits, { location, rear: false, damage: 1 }]);
+    }
+
+    removeHit(index: number): void {
+        this.hits.update(hits => hits.filter((_, i) => i !== index));
+    }
+
+    updateHit(index: number, patch: Partial<DraftHit>): void {
+        this.hits.update(hits => hits.map((hit, i) => i === index ? { ...hit, ...patch } : hit));
+    }
+
+    rollCriticalChance(index: number): void {
+        const faces = [rollD6(), rollD6()];
+        this.updateHit(index, { criticalRoll: faces });
+        const hit = this.hits()[index];
+        this.rollLogService.record({
+            label: `Critical Chance · ${this.locationLabel(hit.location)}`,
+            dice: '2d6',
+            faces,
+            modifier: 0,
+            total: faces[0] + faces[1],
+            result: this.criticalLabel(hit),
+            unit: this.data.target.getDisplayName(),
+        });
+    }
+
+    send(): void {
+        if (!this.isValid()) return;
+        const hits = this.hits().map((hit): LobbyDamageHit => ({
+            location: hit.location,
+            rear: hit.rear && this.hasRear(hit.location),
+            damage: hit.damage,
+            ...(hit.criticalRoll ? { criticalRoll: hit.criticalRoll } : {}),
+        }));
+        const sent = this.lobbyAttackService.proposeAttack(this.data.attacker, this.data.target, this.weapon().trim(), hits);
+        this.dialogRef.close(sent);
+    }
+
+    close(): void {
+        this.dialogRef.close(false);
+    }
+}
@@ -6,7 +6,8 @@ import { ChangeDetectionStrategy, Component, computed, effect, inject } from '@a
 import { CommonModule } from '@angular/common';
 import { DialogRef } from '@angular/cdk/dialog';
 import { type CdkDragDrop, DragDropModule } from '@angular/cdk/drag-drop';
-import type { LobbyParticipant } from '../../models/lobby.model';
+import { createForceSide, forceSideRgb, MAX_FORCE_SIDES, type ForceAlignment, type ForceSide } from '../../models/force-slot.model';
+import { LOBBY_PHASE_LABELS, type LobbyParticipant } from '../../models/lobby.model';
 import { getFactionImg } from '../../models/factions.model';
 import { DialogsService } from '../../services/dialogs.service';
 import { ForceBuilderService } from '../../services/force-builder.service';
@@ -34,6 +35,13 @@ interface LobbySideTotals {
     pv: number;
 }
 
+interface LobbySideColumn {
+    side: ForceSide;
+    rgb: string;
+    participants: LobbyDisplayParticipant[];
+    totals: LobbySideTotals;
+}
+
 @Component({
     selector: 'lobby-dialog',
     standalone: true,
@@ -88,10 +96,17 @@ export class LobbyDialogComponent {
         }));
     });
 
-    readonly friendlyParticipants = computed(() => this.participants().filter(entry => entry.alignment === 'friendly'));
-    readonly enemyParticipants = computed(() => this.participants().filter(entry => entry.alignment === 'enemy'));
-    readonly friendlyTotals = computed(() => this.calculateTotals(this.friendlyParticipants()));
-    readonly enemyTotals = computed(() => this.calculateTotals(this.enemyParticipants()));
+    readonly players = computed(() => this.participants().filter(entry => entry.role === 'player'));
+    readonly spectators = computed(() => this.participants().filter(entry => entry.role === 'spectator'));
+    /** Every lobby side gets a column, empty ones included, so the host can move players onto it. */
+    readonly sideColumns = computed<LobbySideColumn[]>(() => this.lobbyService.sides().map(side => {
+        const participants = this.players().filter(entry => entry.alignment === side.id);
+        return { side, rgb: forceSideRgb(side.color), participants, totals: this.calculateTotals(participants) };
+    }));
+    readonly canAddSide = computed(() => this.lobbyService.sides().length < MAX_FORCE_SIDES);
+    readonly phaseLabels = LOBBY_PHASE_LABELS;
+    readonly pendingIds = computed(() => new Set(this.lobbyService.pendingPlayers().map(participant => participant.publicId)));
+    readonly pendingNames = computed(() => this.lobbyService.pendingPlayers().map(participant => participant.displayName).join(', '));
 
     constructor() {
         effect(() => {
@@ -99,12 +114,21 @@ export class LobbyDialogComponent {
         });
     }
 
-    onDrop(event: CdkDragDrop<LobbyDisplayParticipant[]>, alignment: 'friendly' | 'enemy'): void {
+    onDrop(event: CdkDragDrop<LobbyDisplayParticipant[]>, alignment: ForceAlignment): void {
         const participant = event.item.data as LobbyDisplayParticipant;
         if (participant.self || participant.alignment === alignment) return;
         this.lobbyService.setAlignment(participant.publicId, alignment);
     }
 
+    addSide(): void {
+        const side = createForceSide(this.lobbyService.sides());
+        this.lobbyService.addSide(side.name, side.color);
+    }
+
+    onSpectateChange(event: Event): void {
+        this.lobbyService.setRole((event.target as HTMLInputElement).checked ? 'spectator' : 'player');
+    }
+
     onLockChange(event: Event): void {
         this.lobbyService.setLocked((event.target as HTMLInputElement).checked);
     }
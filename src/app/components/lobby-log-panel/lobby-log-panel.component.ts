@@ -0,0 +1,56 @@
+// Copyright (C) 2026 The MegaMek Team
+// SPDX-License-Identifier: GPL-3.0-or-later
+// Author: Drake
+
+import { ChangeDetectionStrategy, Component, computed, effect, inject, signal, untracked } from '@angular/core';
+import { DatePipe } from '@angular/common';
+import { LobbyMessagesService } from '../../services/lobby-messages.service';
+import { MAX_LOBBY_CHAT_LENGTH } from '../../utils/lobby-log.util';
+
+/** Collapsible lobby chat and roll log, shown while in a lobby. */
+@Component({
+    selector: 'lobby-log-panel',
+    standalone: true,
+    changeDetection: ChangeDetectionStrategy.OnPush,
+    imports: [DatePipe],
+    templateUrl: './lobby-log-panel.component.html',
+    styleUrls: ['./lobby-log-panel.component.scss'],
+})
+export class LobbyLogPanelComponent {
+    readonly messagesService = inject(LobbyMessagesService);
+
+    readonly maxLength = MAX_LOBBY_CHAT_LENGTH;
+    readonly expanded = signal(false);
+    readonly rollsOnly = signal(false);
+    readonly draft = signal('');
+
+    readonly visibleEntries = computed(() => {
+        const entries = this.messagesService.entries();
+        return this.rollsOnly() ? entries.filter(entry => entry.kind === 'roll') : entries;
+    });
+
+    private readonly readSeq = signal(0);
+    readonly unreadCount = computed(() => {
+        const read = this.readSeq();
+        return this.messagesService.entries().filter(entry => entry.seq > read).length;
+    });
+
+    constructor() {
+        effect(() => {
+            const last = this.messagesService.entries().at(-1)?.seq ?? 0;
+            if (this.expanded()) untracked(() => this.readSeq.set(last));
+        });
+    }
+
+    toggle(): void {
+        this.expanded.update(expanded => !expanded);
+    }
+
+    send(): void {
+        if (this.messagesService.sendChat(this.draft())) this.draft.set('');
+    }
+
+    formatFaces(faces: readonly number[]): string {
+        return faces.join(' + ');
+    }
+}
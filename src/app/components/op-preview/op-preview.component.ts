@@ -5,15 +5,25 @@
 import { ChangeDetectionStrategy, Component, computed, inject, input, model } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { type CdkDragDrop, DragDropModule, moveItemInArray, transferArrayItem } from '@angular/cdk/drag-drop';
-import type { ForceAlignment } from '../../models/force-slot.model';
+import {
+    createForceSide,
+    DEFAULT_FORCE_SIDES,
+    forceSideRgb,
+    FRIENDLY_ALIGNMENT,
+    MAX_FORCE_SIDE_NAME_LENGTH,
+    MAX_FORCE_SIDES,
+    normalizeForceSides,
+    type ForceAlignment,
+    type ForceSide,
+} from '../../models/force-slot.model';
 import type { GameSystem } from '../../models/common.model';
 import { FactionId, getFactionImg } from '../../models/factions.model';
 import { DataService } from '../../services/data.service';
 
 /*
  *
- * Reusable operation preview showing Friendly vs Hostile sides
- * with force names, BV/PV values, and totals.
+ * Reusable operation preview showing each side (Friendly vs Hostile, or
+ * more for free-for-alls) with force names, BV/PV values, and totals.
  */
 
 /** Minimal force shape accepted by the preview. */
@@ -35,6 +45,16 @@ interface OpPreviewDisplayForce extends OpPreviewForce {
     eraName?: string;
 }
 
+interface OpPreviewSideColumn {
+    side: ForceSide;
+    /** `r, g, b` triple of the side color, for `--side-color`. */
+    rgb: string;
+    forces: OpPreviewDisplayForce[];
+    bv: number;
+    pv: number;
+    removable: boolean;
+}
+
 @Component({
     selector: 'op-preview',
     standalone: true,
@@ -49,9 +69,18 @@ export class OpPreviewComponent {
     /** The forces to display in the preview. */
     forces = model.required<OpPreviewForce[]>();
     
-    /** Whether to allow drag and drop between the two lists. */
+    /** Sides of the operation; older operations have none and show the default two. */
+    sides = model<ForceSide[] | undefined>(undefined);
+
+    /** Whether to allow drag and drop between the side lists. */
     allowDragDrop = input<boolean>(false);
 
+    /** Whether sides can be added, renamed, recolored and marked as allied. */
+    editableSides = input<boolean>(false);
+
+    readonly friendlyAlignment = FRIENDLY_ALIGNMENT;
+    readonly sideNameLimit = MAX_FORCE_SIDE_NAME_LENGTH;
+
     private displayForces = computed<OpPreviewDisplayForce[]>(() => {
         const factionImgCache = new Map<FactionId, string | undefined>();
         const eraCache = new Map<number, { imgUrl?: string; name?: string }>();
@@ -94,32 +123,33 @@ export class OpPreviewComponent {
         });
     });
 
-    friendlyForces = computed(() => this.displayForces().filter(f => f.alignment === 'friendly'));
-    enemyForces = computed(() => this.displayForces().filter(f => f.alignment === 'enemy'));
-
-    friendlyBv = computed(() =>
-        this.friendlyForces()
-            .filter(f => (f.type || 'cbt') !== 'as')
-            .reduce((sum, f) => sum + (f.bv || 0), 0)
+    private resolvedSides = computed<ForceSide[]>(() =>
+        normalizeForceSides(this.sides(), this.forces().map(f => f.alignment))
     );
 
-    friendlyPv = computed(() =>
-        this.friendlyForces()
-            .filter(f => f.type === 'as')
-            .reduce((sum, f) => sum + (f.pv || f.bv || 0), 0)
-    );
+    /** One column per side; read-only previews leave out sides without forces. */
+    sideColumns = computed<OpPreviewSideColumn[]>(() => {
+        const forces = this.displayForces();
+        return this.resolvedSides()
+            .map(side => {
+                const sideForces = forces.filter(f => f.alignment === side.id);
+                return {
+                    side,
+                    rgb: forceSideRgb(side.color),
+                    forces: sideForces,
+                    bv: sideForces
+                        .filter(f => (f.type || 'cbt') !== 'as')
+                        .reduce((sum, f) => sum + (f.bv || 0), 0),
+                    pv: sideForces
+                        .filter(f => f.type === 'as')
+                        .reduce((sum, f) => sum + (f.pv || f.bv || 0), 0),
+                    removable: sideForces.length === 0 && !DEFAULT_FORCE_SIDES.some(d => d.id === side.id),
+                };
+            })
+            .filter(column => this.editableSides() || column.forces.length > 0);
+    });
 
-    enemyBv = computed(() =>
-        this.enemyForces()
-            .filter(f => (f.type || 'cbt') !== 'as')
-            .reduce((sum, f) => sum + (f.bv || 0), 0)
-    );
-
-    enemyPv = computed(() =>
-        this.enemyForces()
-            .filter(f => f.type === 'as')
-            .reduce((sum, f) => sum + (f.pv || f.bv || 0), 0)
-    );
+    canAddSide = computed(() => this.resolvedSides().length < MAX_FORCE_SIDES);
 
     hasCbt = computed(() => this.forces().some(f => (f.type || 'cbt') !== 'as'));
     hasAs = computed(() => this.forces().some(f => f.type === 'as'));
@@ -129,12 +159,14 @@ export class OpPreviewComponent {
 
         const item = event.item.data as OpPreviewForce;
         const currentForces = [...this.forces()];
-        
-        const friendly = currentForces.filter(f => f.alignment === 'friendly');
-        const enemy = currentForces.filter(f => f.alignment === 'enemy');
 
-        const sourceList = item.alignment === 'friendly' ? friendly : enemy;
-        const targetList = targetAlignment === 'friendly' ? friendly : enemy;
+        const lists = new Map(this.sideColumns().map(column => [
+            column.side.id,
+            currentForces.filter(f => f.alignment === column.side.id),
+        ]));
+        const sourceList = lists.get(item.alignment);
+        const targetList = lists.get(targetAlignment);
+        if (!sourceList || !targetList) return;
 
         if (event.previousContainer === event.container) {
             moveItemInArray(sourceList, event.previousIndex, event.currentIndex);
@@ -148,6 +180,26 @@ export class OpPreviewComponent {
             targetList[event.currentIndex] = { ...targetList[event.currentIndex], alignment: targetAlignment };
         }
 
-        this.forces.set([...friendly, ...enemy]);
+        const unlisted = currentForces.filter(f => !lists.has(f.alignment));
+        this.forces.set([...[...lists.values()].flat(), ...unlisted]);
+    }
+
+    addSide(): void {
+        const sides = this.resolvedSides();
+        if (sides.length >= MAX_FORCE_SIDES) return;
+        this.sides.set([...sides, createForceSide(sides)]);
+    }
+
+    removeSide(alignment: ForceAlignment): void {
+        this.sides.set(this.resolvedSides().filter(side => side.id !== alignment));
+    }
+
+    renameSide(alignment: ForceAlignment, name: string): void {
+        const trimmed = name.trim().slice(0, MAX_FORCE_SIDE_NAME_LENGTH);
+        if (trimmed) this.updateSide(alignment, { name: trimmed });
+    }
+
+    updateSide(alignment: ForceAlignment, patch: Partial<Omit<ForceSide, 'id'>>): void {
+        this.sides.set(this.resolvedSides().map(side => side.id === alignment ? { ...side, ...patch } : side));
     }
 }
@@ -30,6 +30,8 @@ import { RangeSliderComponent } from '../range-slider/range-slider.component';
 import { naturalCompare } from '../../utils/sort.util';
 import { AppUpdateService } from '../../services/app-update.service';
 import { DisplayNameService } from '../../services/display-name.service';
+import { ImportedUnitsService } from '../../services/imported-units.service';
+import { describeUnitImportResults, readUnitImportFiles } from '../../utils/imported-unit.util';
 
 type OptionsSectionId = 'General' | 'Search' | 'Account' | 'Tags' | 'Classic BattleTech' | 'Alpha Strike' | 'Advanced' | 'Logs';
 
@@ -120,6 +122,7 @@ export class OptionsDialogComponent {
     accountAuthService = inject(AccountAuthService);
     appUpdateService = inject(AppUpdateService);
     displayNameService = inject(DisplayNameService);
+    importedUnitsService = inject(ImportedUnitsService);
     destroyRef = inject(DestroyRef);
     isIOS = isIOS();
     modalClass = 'wide options-dialog-modal';
@@ -175,6 +178,7 @@ export class OptionsDialogComponent {
         if (saved.length !== draft.length) return true;
         return draft.some((url, i) => url !== saved[i]);
     });
+    importedUnits = this.importedUnitsService.importedUnits;
     unitsCount = computed(() => this.dataService.getUnits().length);
     equipmentCount = computed(() => this.dataService.getEquipmentRegistry().size);
 
@@ -502,6 +506,30 @@ export class OptionsDialogComponent {
         window.location.reload();
     }
 
+    async onUnitFilesSelected(event: Event) {
+        const input = event.currentTarget as HTMLInputElement | null;
+        const files = await readUnitImportFiles(Array.from(input?.files ?? []));
+        if (input) {
+            input.value = '';
+        }
+        if (files.length === 0) {
+            return;
+        }
+
+        const results = await this.dataService.importUnitFiles(files);
+        for (const result of results) {
+            if (result.error) {
+                this.logger.warn(`Unit import of ${result.fileName} failed: ${result.error}`);
+            }
+        }
+        const { message, type } = describeUnitImportResults(results);
+        this.toastService.showToast(message, type);
+    }
+
+    async removeImportedUnit(name: string) {
+        await this.dataService.removeImportedUnit(name);
+    }
+
     onSwipeToNextSheetChange(event: Event) {
         const value = (event.target as HTMLSelectElement).value as 'vertical' | 'horizontal' | 'disabled';
         this.optionsService.setOption('swipeToNextSheet', value);
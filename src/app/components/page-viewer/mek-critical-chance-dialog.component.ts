@@ -4,6 +4,7 @@
 
 import { ChangeDetectionStrategy, Component, computed, inject, signal, viewChild } from '@angular/core';
 import { DIALOG_DATA, DialogRef } from '@angular/cdk/dialog';
+import { RollLogService } from '../../services/roll-log.service';
 import { DiceRollerComponent } from '../dice-roller/dice-roller.component';
 import {
     resolveMekCriticalChance,
@@ -155,6 +156,7 @@ export interface MekCriticalChanceDialogData {
 })
 export class MekCriticalChanceDialogComponent {
     private readonly dialogRef = inject(DialogRef<MekCriticalChanceResult | undefined>);
+    private readonly rollLogService = inject(RollLogService);
     readonly data = inject<MekCriticalChanceDialogData>(DIALOG_DATA);
     readonly roller = viewChild<DiceRollerComponent>('roller');
     readonly result = signal<MekCriticalChanceResult | null>(null);
@@ -180,7 +182,18 @@ export class MekCriticalChanceDialogComponent {
     }
 
     onFinished(event: { readonly results: readonly number[] }): void {
-        this.resolveRoll(event.results.reduce((total, die) => total + die, 0));
+        const raw = event.results.reduce((total, die) => total + die, 0);
+        this.resolveRoll(raw);
+        const result = this.result();
+        if (!result) return;
+        this.rollLogService.record({
+            label: `Critical Chance · ${this.data.locationLabel}`,
+            dice: '2d6',
+            faces: [...event.results],
+            modifier: this.modifierTotal(),
+            total: Math.min(12, raw + this.modifierTotal()),
+            result: this.resultLabel(result),
+        });
     }
 
     private resolveRoll(raw: number): void {
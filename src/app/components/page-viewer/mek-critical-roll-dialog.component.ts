@@ -15,6 +15,7 @@ import {
     randomValidMekCriticalRoll,
     type MekCriticalRollOutcome,
 } from '../../utils/mek-critical-hit.util';
+import { RollLogService } from '../../services/roll-log.service';
 import { DiceRollerComponent } from '../dice-roller/dice-roller.component';
 
 export interface MekCriticalRollDialogData {
@@ -112,6 +113,7 @@ export interface MekCriticalRollDialogResult {
 })
 export class MekCriticalRollDialogComponent {
     private readonly dialogRef = inject(DialogRef<MekCriticalRollDialogResult>);
+    private readonly rollLogService = inject(RollLogService);
     readonly data = inject<MekCriticalRollDialogData>(DIALOG_DATA);
     readonly roller = viewChild<DiceRollerComponent>('roller');
     readonly targetLocation = mekCriticalRollLocation(this.data.unit, this.data.location);
@@ -171,6 +173,15 @@ export class MekCriticalRollDialogComponent {
         }
         this.outcome.set(outcome);
         this.appliedHits.update(value => value + 1);
+        this.rollLogService.record({
+            label: `Critical Roll · ${this.locationLabel}`,
+            dice: `${event.results.length}d6`,
+            faces: [...event.results],
+            modifier: 0,
+            total: event.results.reduce((total, die) => total + die, 0),
+            result: this.outcomeLabel(outcome),
+            unit: this.data.unit.getDisplayName(),
+        });
     }
 
     rollButtonLabel(): string {
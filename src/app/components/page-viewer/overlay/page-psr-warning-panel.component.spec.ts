@@ -8,6 +8,7 @@ import { Overlay } from '@angular/cdk/overlay';
 import { Subject } from 'rxjs';
 import { DiceRollerComponent } from '../../dice-roller/dice-roller.component';
 import { OverlayManagerService } from '../../../services/overlay-manager.service';
+import { RollLogService } from '../../../services/roll-log.service';
 import type { PSRCheck } from '../../../models/rules/unit-type-rules';
 import { PageInteractionOverlayComponent } from './page-interaction-overlay.component';
 import { PagePsrWarningPanelComponent, psrRollOutcome, togglePsrWarningOverlay } from './page-psr-warning-panel.component';
@@ -63,9 +64,10 @@ describe('PagePsrWarningPanelComponent', () => {
         };
         const unit = {
             id: 'unit-1',
-            rules: { controlRollFullLabel: 'Piloting Skill Rolls' },
+            rules: { controlRollShortLabel: 'PSR', controlRollFullLabel: 'Piloting Skill Rolls' },
             turnState: () => turnState,
             PSRTargetRoll: () => 8,
+            getDisplayName: () => 'Atlas AS7-D',
             PSRModifiers: () => ({ modifiers: [
                 { pilotCheck: 2, reason: 'Gyro hit' },
                 { pilotCheck: 1, loc: 'RL', reason: 'Hip hit' },
@@ -92,6 +94,7 @@ describe('PagePsrWarningPanelComponent', () => {
             .query(node => node.componentInstance instanceof DiceRollerComponent)
             .componentInstance as DiceRollerComponent;
         spyOn(roller, 'roll');
+        const recordRoll = spyOn(TestBed.inject(RollLogService), 'record');
 
         const panel = fixture.nativeElement.querySelector('.panel') as HTMLElement;
         const body = panel.querySelector('.body') as HTMLElement;
@@ -115,6 +118,15 @@ describe('PagePsrWarningPanelComponent', () => {
         expect(roller.roll).toHaveBeenCalledTimes(1);
         expect(resolvePSRCheck).toHaveBeenCalledOnceWith('fall-check', 'success');
         expect(fixture.componentInstance.rolledResult()).toBe('SUCCESS');
+        expect(recordRoll).toHaveBeenCalledOnceWith({
+            label: 'PSR · Hip hit',
+            dice: '2d6',
+            faces: [4, 4],
+            modifier: 0,
+            total: 8,
+            result: 'Success (target 8)',
+            unit: 'Atlas AS7-D',
+        });
         expect(subtitles[0].textContent?.replace(/\s+/g, ' ').trim()).toBe('Right Leg — Failure: Fall');
         expect(subtitles[1].textContent?.replace(/\s+/g, ' ').trim()).toBe('Failure: Fall');
         expect(Array.from(modifierLocations, location => location.textContent?.trim())).toEqual(['—', 'RL', 'LL']);
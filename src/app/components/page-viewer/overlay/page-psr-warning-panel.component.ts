@@ -7,6 +7,7 @@ import { Overlay } from '@angular/cdk/overlay';
 import { ComponentPortal } from '@angular/cdk/portal';
 import type { PSRCheck } from '../../../models/rules/unit-type-rules';
 import { OverlayManagerService } from '../../../services/overlay-manager.service';
+import { RollLogService } from '../../../services/roll-log.service';
 import { DiceRollerComponent } from '../../dice-roller/dice-roller.component';
 import { PageInteractionOverlayComponent } from './page-interaction-overlay.component';
 import { displayPsrModifiers, openTurnSummaryChildOverlay } from './page-turn-summary.util';
@@ -16,6 +17,11 @@ export function psrRollOutcome(sum: number, target: number): 'success' | 'failed
     return sum >= target ? 'success' : 'failed';
 }
 
+/** Roll log result of a control roll, e.g. "Failed (target 8)" */
+export function psrRollLogResult(result: 'success' | 'failed', target: number): string {
+    return `${result === 'success' ? 'Success' : 'Failed'} (target ${target})`;
+}
+
 export function togglePsrWarningOverlay(
     parent: PageInteractionOverlayComponent,
     overlayManager: OverlayManagerService,
@@ -62,6 +68,7 @@ export function togglePsrWarningOverlay(
 export class PagePsrWarningPanelComponent {
     private readonly parent = inject(PageInteractionOverlayComponent);
     private readonly overlayManager = inject(OverlayManagerService);
+    private readonly rollLogService = inject(RollLogService);
     readonly diceRoller = viewChild<DiceRollerComponent>('roller');
     readonly unit = this.parent.unit;
     readonly rolledResult = signal<string | null>(null);
@@ -93,9 +100,19 @@ export class PagePsrWarningPanelComponent {
         this.rollingCheck = null;
         if (!unit || !check) return;
 
-        const result = psrRollOutcome(event.sum, unit.PSRTargetRoll());
+        const target = unit.PSRTargetRoll();
+        const result = psrRollOutcome(event.sum, target);
         this.rolledResult.set(result.toUpperCase());
         this.resolve(check, result);
+        this.rollLogService.record({
+            label: `${unit.rules.controlRollShortLabel} · ${check.reason}`,
+            dice: '2d6',
+            faces: [...event.results],
+            modifier: 0,
+            total: event.sum,
+            result: psrRollLogResult(result, target),
+            unit: unit.getDisplayName(),
+        });
     }
 
     resolve(check: PSRCheck, result: 'success' | 'failed'): void {
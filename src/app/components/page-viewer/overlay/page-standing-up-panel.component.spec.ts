@@ -6,6 +6,7 @@ import { signal } from '@angular/core';
 import { TestBed } from '@angular/core/testing';
 import { DiceRollerComponent } from '../../dice-roller/dice-roller.component';
 import { OverlayManagerService } from '../../../services/overlay-manager.service';
+import { RollLogService } from '../../../services/roll-log.service';
 import { PageInteractionOverlayComponent } from './page-interaction-overlay.component';
 import { PageStandingUpPanelComponent, STANDING_UP_REVIEW_ONLY } from './page-standing-up-panel.component';
 
@@ -44,6 +45,7 @@ describe('PageStandingUpPanelComponent', () => {
         const unit = {
             id: 'unit-1',
             rules: {
+                controlRollShortLabel: 'PSR',
                 standingUpPSRModifier: -1,
                 getStandAttemptLimit: () => 1,
                 supportsCarefulStand: true,
@@ -52,6 +54,7 @@ describe('PageStandingUpPanelComponent', () => {
             turnState: () => turnState,
             PSRTargetRoll: () => 8,
             PSRModifiers: () => ({ modifiers: [{ pilotCheck: 1, reason: 'Gyro damaged' }] }),
+            getDisplayName: () => 'Atlas AS7-D',
         };
 
         TestBed.configureTestingModule({
@@ -68,6 +71,7 @@ describe('PageStandingUpPanelComponent', () => {
             .query(node => node.componentInstance instanceof DiceRollerComponent)
             .componentInstance as DiceRollerComponent;
         spyOn(roller, 'roll');
+        const recordRoll = spyOn(TestBed.inject(RollLogService), 'record');
 
         expect((fixture.nativeElement.querySelector('.careful-stand .modifier-badge') as HTMLElement).textContent?.trim()).toBe('-2');
         expect((fixture.nativeElement.querySelector('.careful-stand') as HTMLElement).textContent).not.toContain('(-2 PSR)');
@@ -99,6 +103,15 @@ describe('PageStandingUpPanelComponent', () => {
         expect(component.lastOutcome()).toBe('success');
         expect(component.rolledResult()).toBe('SUCCESS');
         expect(component.attempts()).toBe(1);
+        expect(recordRoll).toHaveBeenCalledOnceWith({
+            label: 'PSR · Standing up',
+            dice: '2d6',
+            faces: [3, 3],
+            modifier: 0,
+            total: 6,
+            result: 'Success (target 5)',
+            unit: 'Atlas AS7-D',
+        });
 
         fixture.detectChanges();
         const adjustmentButtons = Array.from(fixture.nativeElement.querySelectorAll('.attempts-stepper button')) as HTMLButtonElement[];
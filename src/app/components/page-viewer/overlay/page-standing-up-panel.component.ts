@@ -6,10 +6,11 @@ import { ChangeDetectionStrategy, Component, computed, inject, InjectionToken, I
 import { Overlay } from '@angular/cdk/overlay';
 import { ComponentPortal } from '@angular/cdk/portal';
 import { OverlayManagerService } from '../../../services/overlay-manager.service';
+import { RollLogService } from '../../../services/roll-log.service';
 import { DiceRollerComponent } from '../../dice-roller/dice-roller.component';
 import { PageInteractionOverlayComponent } from './page-interaction-overlay.component';
 import { displayPsrModifiers, openTurnSummaryChildOverlay } from './page-turn-summary.util';
-import { psrRollOutcome } from './page-psr-warning-panel.component';
+import { psrRollLogResult, psrRollOutcome } from './page-psr-warning-panel.component';
 import type { RuleCheckOutcome } from '../../../models/force-serialization';
 
 export const STANDING_UP_REVIEW_ONLY = new InjectionToken<boolean>('Standing up review');
@@ -67,6 +68,7 @@ export function toggleStandingUpOverlay(
 export class PageStandingUpPanelComponent {
     private readonly parent = inject(PageInteractionOverlayComponent);
     private readonly overlayManager = inject(OverlayManagerService);
+    private readonly rollLogService = inject(RollLogService);
     readonly diceRoller = viewChild<DiceRollerComponent>('roller');
     readonly unit = this.parent.unit;
     readonly reviewOnly = inject(STANDING_UP_REVIEW_ONLY, { optional: true }) ?? false;
@@ -135,9 +137,20 @@ export class PageStandingUpPanelComponent {
 
     onRollFinished(event: { readonly results: number[]; readonly sum: number }): void {
         if (this.reviewOnly) return;
-        const result = psrRollOutcome(event.sum, this.targetRoll());
+        const target = this.targetRoll();
+        const result = psrRollOutcome(event.sum, target);
         this.resolve(result);
         if (this.lastOutcome() === result) this.rolledResult.set(result.toUpperCase());
+        const unit = this.unit();
+        this.rollLogService.record({
+            label: `${unit?.rules.controlRollShortLabel ?? 'PSR'} · Standing up`,
+            dice: '2d6',
+            faces: [...event.results],
+            modifier: 0,
+            total: event.sum,
+            result: psrRollLogResult(result, target),
+            unit: unit?.getDisplayName(),
+        });
     }
 
     resolve(outcome: RuleCheckOutcome): void {
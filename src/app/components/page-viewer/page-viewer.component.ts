@@ -36,6 +36,7 @@ import { ForceBuilderService } from '../../services/force-builder.service';
 import { OptionsService } from '../../services/options.service';
 import { DbService } from '../../services/db.service';
 import { KeyboardShortcutService } from '../../services/keyboard-shortcut.service';
+import { ForceHistoryService } from '../../services/force-history.service';
 import { CBTForceUnit } from '../../models/cbt-force-unit.model';
 import { CBTForce } from '../../models/cbt-force.model';
 import { SvgInteractionService } from './svg-interaction.service';
@@ -173,6 +174,7 @@ export class PageViewerComponent implements AfterViewInit {
     private pageViewerSwipeRenderer = inject(PageViewerSwipeRendererService);
     private pageViewerWrapperLayout = inject(PageViewerWrapperLayoutService);
     private keyboardShortcutService = inject(KeyboardShortcutService);    
+    private forceHistoryService = inject(ForceHistoryService);
     private destroyRef = inject(DestroyRef);
 
     canvasService = inject(PageViewerCanvasService);
@@ -205,6 +207,8 @@ export class PageViewerComponent implements AfterViewInit {
 
     // Computed from force
     readOnly = computed(() => this.force()?.readOnly() ?? false);
+    readonly canUndo = computed(() => this.forceHistoryService.canUndo(this.force()));
+    readonly canRedo = computed(() => this.forceHistoryService.canRedo(this.force()));
 
     // View children
     containerRef = viewChild.required<ViewerStageComponent>('container');
@@ -349,6 +353,11 @@ export class PageViewerComponent implements AfterViewInit {
             active: () => this.viewInitialized() && !!this.unit(),
             handle: (event) => this.handleShortcutKeyDown(event),
         }, this.destroyRef);
+        this.keyboardShortcutService.register({
+            id: 'page-viewer-history',
+            active: () => this.viewInitialized() && !!this.unit() && !this.readOnly(),
+            handle: (event) => this.forceHistoryService.handleShortcut(this.force(), event),
+        }, this.destroyRef);
 
         // Watch for unit changes
         let previousUnit: CBTForceUnit | null = null;
@@ -1718,6 +1727,16 @@ export class PageViewerComponent implements AfterViewInit {
 
     // ========== Keyboard Navigation ==========
 
+    undo(): void {
+        const force = this.force();
+        if (force) this.forceHistoryService.undo(force);
+    }
+
+    redo(): void {
+        const force = this.force();
+        if (force) this.forceHistoryService.redo(force);
+    }
+
     private handleShortcutKeyDown(event: KeyboardEvent): boolean {
         if (event.ctrlKey || event.altKey || event.metaKey) return false;
 
@@ -0,0 +1,274 @@
+// Copyright (C) 2026 The MegaMek Team
+// SPDX-License-Identifier: GPL-3.0-or-later
+// Author: Drake
+
+import { ChangeDetectionStrategy, Component, computed, DestroyRef, ElementRef, inject, Injector, signal } from '@angular/core';
+import { DialogRef, DIALOG_DATA } from '@angular/cdk/dialog';
+import { ComponentPortal } from '@angular/cdk/portal';
+import { outputToObservable, takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { GameSystem } from '../../models/common.model';
+import {
+    formatSummaryMovement,
+    getAbilityDetails,
+    getAbilityLimitsForSkill,
+    PILOT_ABILITIES,
+} from '../../models/pilot-abilities.model';
+import {
+    abilityAdvancementCost,
+    applyAdvancement,
+    skillAdvancementCost,
+    type PilotAdvancement,
+    type PilotRecord,
+    type PilotSkill,
+} from '../../models/pilot-record.model';
+import { OverlayManagerService } from '../../services/overlay-manager.service';
+import { OptionsService } from '../../services/options.service';
+import { AbilityDropdownPanelComponent, type AbilityDropdownOption } from '../edit-as-pilot-dialog/ability-dropdown-panel.component';
+import { SkillDropdownPanelComponent, type SkillPreviewEntry } from '../skill-dropdown-panel/skill-dropdown-panel.component';
+
+/*
+ * Description: Spends a pilot record's experience on better skill ratings
+ *              and new special pilot abilities, using the skill and ability
+ *              pickers of the pilot editors with experience costs in place
+ *              of BV and PV.
+ */
+
+export interface PilotAdvancementDialogData {
+    record: PilotRecord;
+}
+
+const SKILL_ROWS: readonly { skill: PilotSkill; label: string }[] = [
+    { skill: 'gunnery', label: 'Gunnery Skill' },
+    { skill: 'piloting', label: 'Piloting Skill' },
+    { skill: 'skill', label: 'Alpha Strike Skill' },
+];
+
+@Component({
+    selector: 'pilot-advancement-dialog',
+    standalone: true,
+    changeDetection: ChangeDetectionStrategy.OnPush,
+    imports: [],
+    host: { class: 'fullscreen-dialog-host glass' },
+    template: `
+    <div class="wide-dialog">
+        <h2 class="wide-dialog-title">Advance {{ record().name || 'Pilot' }}</h2>
+        <div class="wide-dialog-body">
+            <div class="subtitle">
+                {{ record().experience }} XP available
+                @if (spent() > 0) {
+                &middot; {{ spent() }} XP spent
+                }
+            </div>
+            <div class="form-row no-stack">
+                @for (row of skillRows; track row.skill) {
+                <div class="form-fields">
+                    <label class="field-label">{{ row.label }}</label>
+                    <button #skillTrigger class="bt-select skill-selector" type="button" aria-haspopup="listbox"
+                        [disabled]="record()[row.skill] <= 0"
+                        (click)="openSkillDropdown(row.skill, row.label, skillTrigger)">
+                        <span class="skill-selector-value">{{ record()[row.skill] }}</span>
+                    </button>
+                </div>
+                }
+            </div>
+            <section class="abilities">
+                <p>Special Pilot Abilities</p>
+                @for (ability of ownedAbilities(); track ability.id) {
+                <div class="ability" [class.bought]="!data.record.abilities.includes(ability.id)">{{ ability.name }}</div>
+                } @empty {
+                <div class="empty">None yet.</div>
+                }
+                <button #abilityTrigger class="bt-button" type="button" (click)="openAbilityDropdown(abilityTrigger)">+ BUY ABILITY</button>
+                @if (overAbilityLimit()) {
+                <div class="limit-warning">
+                    Alpha Strike skill {{ record().skill }} allows {{ abilityLimits().maxAbilities }} abilities worth {{ abilityLimits().maxCost }} points.
+                </div>
+                }
+            </section>
+            @if (log().length > 0) {
+            <ul class="log">
+                @for (entry of log(); track $index) {
+                <li>{{ entry }}</li>
+                }
+            </ul>
+            }
+        </div>
+        <div class="wide-dialog-actions">
+            <button class="bt-button" [disabled]="spent() === 0" (click)="submit()">APPLY</button>
+            <button class="bt-button" [disabled]="spent() === 0" (click)="reset()">RESET</button>
+            <button class="bt-button" (click)="close()">DISMISS</button>
+        </div>
+    </div>
+    `,
+    styles: [`
+        .wide-dialog {
+            max-width: 560px;
+        }
+
+        .subtitle, .empty, .log {
+            opacity: 0.7;
+        }
+
+        .skill-selector {
+            width: 100%;
+            text-align: center;
+        }
+
+        .abilities {
+            display: flex;
+            flex-direction: column;
+            align-items: flex-start;
+            gap: 4px;
+            margin-top: 12px;
+        }
+
+        .ability.bought {
+            color: var(--bt-yellow);
+        }
+
+        .limit-warning {
+            color: var(--danger);
+            font-size: 0.85em;
+        }
+
+        .log {
+            margin: 12px 0 0;
+            padding-left: 1.2em;
+            text-align: left;
+            font-size: 0.85em;
+        }
+    `]
+})
+export class PilotAdvancementDialogComponent {
+    private readonly dialogRef = inject(DialogRef<PilotRecord | null>);
+    readonly data: PilotAdvancementDialogData = inject(DIALOG_DATA);
+    private readonly overlayManager = inject(OverlayManagerService);
+    private readonly optionsService = inject(OptionsService);
+    private readonly injector = inject(Injector);
+    private readonly destroyRef = inject(DestroyRef);
+    readonly skillRows = SKILL_ROWS;
+
+    readonly record = signal<PilotRecord>(this.data.record);
+    /** Advancements bought so far, described for the player */
+    readonly log = signal<string[]>([]);
+
+    readonly spent = computed(() => this.data.record.experience - this.record().experience);
+    readonly ownedAbilities = computed(() => PILOT_ABILITIES.filter(ability => this.record().abilities.includes(ability.id)));
+    readonly abilityLimits = computed(() => getAbilityLimitsForSkill(this.record().skill));
+    readonly overAbilityLimit = computed(() => {
+        const limits = this.abilityLimits();
+        const owned = this.ownedAbilities();
+        return owned.length > limits.maxAbilities
+            || owned.reduce((total, ability) => total + ability.cost, 0) > limits.maxCost;
+    });
+
+    constructor() {
+        this.destroyRef.onDestroy(() => this.closeDropdowns());
+    }
+
+    openSkillDropdown(skill: PilotSkill, title: string, trigger: HTMLElement): void {
+        this.closeDropdowns();
+        const current = this.record()[skill];
+        const entries: SkillPreviewEntry[] = [{ skill: current, adjustedValue: 0, delta: 0 }];
+        for (let rating = current - 1; rating >= 0; rating--) {
+            const cost = skillAdvancementCost(skill, current, rating);
+            if (cost === null || cost > this.record().experience) break;
+            entries.unshift({ skill: rating, adjustedValue: cost, delta: 0 });
+        }
+
+        const portal = new ComponentPortal(SkillDropdownPanelComponent, null, this.injector);
+        const { componentRef } = this.overlayManager.createManagedOverlay(
+            'advancement-skill-dropdown',
+            new ElementRef(trigger),
+            portal,
+            {
+                closeOnOutsideClick: true,
+                matchTriggerWidth: true,
+                anchorActiveSelector: '.skill-option.active'
+            }
+        );
+        componentRef.setInput('entries', entries);
+        componentRef.setInput('selectedSkill', current);
+        componentRef.setInput('valueLabel', 'XP');
+        componentRef.setInput('title', title);
+
+        outputToObservable(componentRef.instance.selected)
+            .pipe(takeUntilDestroyed(this.destroyRef))
+            .subscribe((rating: number) => {
+                if (rating < current) {
+                    this.buy({ kind: 'skill', skill, to: rating }, `${title} ${current} to ${rating}`);
+                }
+                this.closeDropdowns();
+            });
+    }
+
+    openAbilityDropdown(trigger: HTMLElement): void {
+        this.closeDropdowns();
+        const record = this.record();
+        const useHex = this.optionsService.options().ASUseHex;
+        const options: AbilityDropdownOption[] = [];
+        const unavailable: string[] = [];
+        for (const ability of PILOT_ABILITIES) {
+            const cost = abilityAdvancementCost(record, ability.id);
+            if (cost === null) unavailable.push(ability.id);
+            const details = getAbilityDetails(ability, GameSystem.ALPHA_STRIKE);
+            options.push({
+                id: ability.id,
+                name: ability.name,
+                cost: cost ?? 0,
+                summary: formatSummaryMovement(details.summary, useHex)[0] ?? '',
+                rulesRef: details.rulesRef ?? [],
+            });
+        }
+
+        const portal = new ComponentPortal(AbilityDropdownPanelComponent, null, this.injector);
+        const { componentRef } = this.overlayManager.createManagedOverlay(
+            'advancement-ability-dropdown',
+            new ElementRef(trigger),
+            portal,
+            {
+                closeOnOutsideClick: true,
+                panelClass: 'ability-dropdown-overlay',
+                anchorActiveSelector: '.dropdown-option:first-child'
+            }
+        );
+        componentRef.setInput('abilities', options);
+        componentRef.setInput('disabledIds', unavailable);
+        componentRef.setInput('remainingCost', record.experience);
+        componentRef.setInput('allowCustom', false);
+
+        outputToObservable(componentRef.instance.selected)
+            .pipe(takeUntilDestroyed(this.destroyRef))
+            .subscribe((abilityId: string) => {
+                const name = PILOT_ABILITIES.find(ability => ability.id === abilityId)?.name ?? abilityId;
+                this.buy({ kind: 'ability', abilityId }, name);
+                this.closeDropdowns();
+            });
+    }
+
+    private buy(advancement: PilotAdvancement, label: string): void {
+        const before = this.record();
+        const advanced = applyAdvancement(before, advancement);
+        if (!advanced) return;
+        this.record.set(advanced);
+        this.log.update(log => [...log, `${label} (${before.experience - advanced.experience} XP)`]);
+    }
+
+    private closeDropdowns(): void {
+        this.overlayManager.closeManagedOverlay('advancement-skill-dropdown');
+        this.overlayManager.closeManagedOverlay('advancement-ability-dropdown');
+    }
+
+    reset(): void {
+        this.record.set(this.data.record);
+        this.log.set([]);
+    }
+
+    submit(): void {
+        this.dialogRef.close(this.record());
+    }
+
+    close(): void {
+        this.dialogRef.close(null);
+    }
+}
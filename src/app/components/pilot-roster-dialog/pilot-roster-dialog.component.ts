@@ -0,0 +1,170 @@
+// Copyright (C) 2026 The MegaMek Team
+// SPDX-License-Identifier: GPL-3.0-or-later
+// Author: Drake
+
+import { ChangeDetectionStrategy, Component, computed, inject } from '@angular/core';
+import { DialogRef } from '@angular/cdk/dialog';
+import { PILOT_ABILITIES } from '../../models/pilot-abilities.model';
+import { isPilotKilled, type PilotRecord } from '../../models/pilot-record.model';
+import { DialogsService } from '../../services/dialogs.service';
+import { PilotRecordService } from '../../services/pilot-record.service';
+
+/*
+ * Description: Roster of persistent pilot records: their skills, abilities
+ *              and service history, the loaded units they are assigned to,
+ *              and entry points to advance, award experience or retire them.
+ */
+
+const PILOT_NAME_MAX_LENGTH = 80;
+
+interface PilotRosterRow {
+    record: PilotRecord;
+    abilities: string;
+    assignedTo: string;
+    killed: boolean;
+}
+
+@Component({
+    selector: 'pilot-roster-dialog',
+    standalone: true,
+    changeDetection: ChangeDetectionStrategy.OnPush,
+    imports: [],
+    host: { class: 'fullscreen-dialog-host glass' },
+    template: `
+    <div class="wide-dialog">
+        <h2 class="wide-dialog-title">Pilot Roster</h2>
+        <div class="wide-dialog-body">
+            <table class="roster-table">
+                <thead>
+                    <tr><th>Pilot</th><th>G/P</th><th>AS</th><th>Games</th><th>Kills</th><th>XP</th><th>Injuries</th><th></th></tr>
+                </thead>
+                <tbody>
+                    @for (row of rows(); track row.record.pilotId) {
+                    <tr [class.killed]="row.killed">
+                        <td class="name">
+                            {{ row.record.name || 'Unnamed' }}
+                            @if (row.abilities) {
+                            <div class="details">{{ row.abilities }}</div>
+                            }
+                            @if (row.assignedTo) {
+                            <div class="details">Assigned to {{ row.assignedTo }}</div>
+                            }
+                        </td>
+                        <td>{{ row.record.gunnery }}/{{ row.record.piloting }}</td>
+                        <td>{{ row.record.skill }}</td>
+                        <td>{{ row.record.gamesPlayed }}</td>
+                        <td>{{ row.record.kills }}</td>
+                        <td>{{ row.record.experience }}</td>
+                        <td>{{ row.killed ? 'KIA' : row.record.injuries }}</td>
+                        <td class="actions">
+                            <button class="bt-button" [disabled]="row.killed" (click)="advance(row.record)">ADVANCE</button>
+                            <button class="bt-button" (click)="awardExperience(row.record)">+XP</button>
+                            <button class="bt-button" (click)="delete(row.record)">DELETE</button>
+                        </td>
+                    </tr>
+                    } @empty {
+                    <tr><td class="empty" colspan="8">No pilot records yet. Create one here or from a unit's warrior data.</td></tr>
+                    }
+                </tbody>
+            </table>
+        </div>
+        <div class="wide-dialog-actions">
+            <button class="bt-button" (click)="newPilot()">NEW PILOT</button>
+            <button class="bt-button" (click)="close()">CLOSE</button>
+        </div>
+    </div>
+    `,
+    styles: [`
+        .wide-dialog {
+            max-width: 900px;
+        }
+
+        .roster-table {
+            width: 100%;
+            border-collapse: collapse;
+
+            th, td {
+                padding: 4px 6px;
+                border-bottom: 1px solid var(--border-color);
+                text-align: center;
+            }
+
+            .name {
+                text-align: left;
+                font-weight: bold;
+            }
+
+            .actions {
+                white-space: nowrap;
+            }
+        }
+
+        .details, .empty {
+            font-weight: normal;
+            font-size: 0.85em;
+            opacity: 0.7;
+        }
+
+        .killed {
+            color: var(--danger);
+        }
+    `]
+})
+export class PilotRosterDialogComponent {
+    private readonly pilotRecordService = inject(PilotRecordService);
+    private readonly dialogsService = inject(DialogsService);
+    private readonly dialogRef = inject(DialogRef<void>);
+
+    readonly rows = computed<PilotRosterRow[]>(() => this.pilotRecordService.records().map(record => ({
+        record,
+        abilities: PILOT_ABILITIES
+            .filter(ability => record.abilities.includes(ability.id))
+            .map(ability => ability.name)
+            .join(', '),
+        assignedTo: this.pilotRecordService.assignments(record.pilotId)
+            .map(({ unit }) => unit.getDisplayName())
+            .join(', '),
+        killed: isPilotKilled(record),
+    })));
+
+    async newPilot(): Promise<void> {
+        const name = (await this.dialogsService.prompt(
+            'Name the pilot:',
+            'New Pilot',
+            '',
+            '',
+            { maximumLength: PILOT_NAME_MAX_LENGTH },
+        ))?.trim();
+        if (!name) return;
+        await this.pilotRecordService.createRecord(name);
+    }
+
+    async advance(record: PilotRecord): Promise<void> {
+        await this.pilotRecordService.showAdvancement(record);
+    }
+
+    async awardExperience(record: PilotRecord): Promise<void> {
+        const value = await this.dialogsService.prompt(
+            `Experience to award ${record.name || 'the pilot'}:`,
+            'Award Experience',
+            '1',
+        );
+        const experience = Math.trunc(Number(value));
+        if (!value || !Number.isFinite(experience) || experience <= 0) return;
+        await this.pilotRecordService.saveRecord({ ...record, experience: record.experience + experience });
+    }
+
+    async delete(record: PilotRecord): Promise<void> {
+        const confirmed = await this.dialogsService.requestConfirmation(
+            `Delete the record of ${record.name || 'this pilot'}? Their history cannot be recovered.`,
+            'Delete Pilot',
+            'danger',
+        );
+        if (!confirmed) return;
+        await this.pilotRecordService.deleteRecord(record.pilotId);
+    }
+
+    close(): void {
+        this.dialogRef.close();
+    }
+}
@@ -62,12 +62,14 @@ describe('PrintOptionsDialogComponent', () => {
         const { fixture } = createComponent(GameSystem.ALPHA_STRIKE);
         fixture.detectChanges();
 
-        const select = fixture.nativeElement.querySelector('#ASPrintCardSize') as HTMLSelectElement;
+        const select = fixture.nativeElement.querySelector('#ASPrintCardTemplate') as HTMLSelectElement;
         expect(select).not.toBeNull();
         expect(select.value).toBe('standard');
         expect(Array.from(select.options).map(option => option.text)).toEqual([
             'Standard (8 per page)',
-            'Enlarged (4 per page)'
+            'Enlarged (4 per page)',
+            'Poker size with cut marks (8 per page)',
+            'Tracker, damage and heat only (18 per page)',
         ]);
     });
 
@@ -115,10 +117,10 @@ describe('PrintOptionsDialogComponent', () => {
         expect(summaryButton.disabled).toBeFalse();
     });
 
-    it('returns the enlarged Alpha Strike card size with the print options', async () => {
+    it('returns the enlarged Alpha Strike card template with the print options', async () => {
         const { fixture, dialogRef, optionsService } = createComponent(GameSystem.ALPHA_STRIKE);
         fixture.detectChanges();
-        const select = fixture.nativeElement.querySelector('#ASPrintCardSize') as HTMLSelectElement;
+        const select = fixture.nativeElement.querySelector('#ASPrintCardTemplate') as HTMLSelectElement;
 
         select.value = 'enlarged';
         select.dispatchEvent(new Event('change'));
@@ -126,27 +128,49 @@ describe('PrintOptionsDialogComponent', () => {
         (fixture.nativeElement.querySelector('.bt-button.primary') as HTMLButtonElement).click();
         await fixture.whenStable();
 
-        expect(dialogRef.close).toHaveBeenCalledWith(jasmine.objectContaining({ ASPrintCardSize: 'enlarged' }));
+        expect(dialogRef.close).toHaveBeenCalledWith(jasmine.objectContaining({ ASPrintCardTemplate: 'enlarged' }));
         expect(optionsService.setOption).toHaveBeenCalledWith('printAllOptions', jasmine.objectContaining({
-            ASPrintCardSize: 'enlarged',
+            ASPrintCardTemplate: 'enlarged',
         }));
     });
 
-    it('restores the last Alpha Strike card size from the saved options', () => {
+    it('restores the last Alpha Strike card template from the saved options', () => {
         const { fixture } = createComponent(GameSystem.ALPHA_STRIKE, {
-            printAllOptions: { ASPrintCardSize: 'enlarged' },
+            printAllOptions: { ASPrintCardTemplate: 'enlarged' },
         });
         fixture.detectChanges();
 
-        const select = fixture.nativeElement.querySelector('#ASPrintCardSize') as HTMLSelectElement;
+        const select = fixture.nativeElement.querySelector('#ASPrintCardTemplate') as HTMLSelectElement;
         expect(select.value).toBe('enlarged');
     });
 
-    it('does not show the Alpha Strike card-size option for Classic printing', () => {
+    it('does not show the Alpha Strike card options for Classic printing', () => {
         const { fixture } = createComponent(GameSystem.CLASSIC);
         fixture.detectChanges();
 
-        expect(fixture.nativeElement.querySelector('#ASPrintCardSize')).toBeNull();
+        expect(fixture.nativeElement.querySelector('#ASPrintCardTemplate')).toBeNull();
+        expect(fixture.nativeElement.querySelector('#ASPrintDuplex')).toBeNull();
+        expect(fixture.nativeElement.querySelector('#ASPrintColorBands')).toBeNull();
+    });
+
+    it('returns duplex backs and color bands with the print options', async () => {
+        const { fixture, dialogRef } = createComponent(GameSystem.ALPHA_STRIKE);
+        fixture.detectChanges();
+
+        for (const id of ['#ASPrintDuplex', '#ASPrintColorBands']) {
+            const select = fixture.nativeElement.querySelector(id) as HTMLSelectElement;
+            expect(select.value).toBe('false');
+            select.value = 'true';
+            select.dispatchEvent(new Event('change'));
+        }
+        fixture.detectChanges();
+        (fixture.nativeElement.querySelector('.bt-button.primary') as HTMLButtonElement).click();
+        await fixture.whenStable();
+
+        expect(dialogRef.close).toHaveBeenCalledWith(jasmine.objectContaining({
+            ASPrintDuplex: true,
+            ASPrintColorBands: true,
+        }));
     });
 
     it('saves the complete print options object in one update', async () => {
@@ -161,7 +185,9 @@ describe('PrintOptionsDialogComponent', () => {
             printPilotData: true,
             recordSheetCenterPanelContent: 'clusterTable',
             ASPrintPageBreakOnGroups: true,
-            ASPrintCardSize: 'standard',
+            ASPrintCardTemplate: 'standard',
+            ASPrintDuplex: false,
+            ASPrintColorBands: false,
             printMargin: 'browserDefined',
         };
 
@@ -184,7 +210,9 @@ function createComponent(
                 printPilotData: true,
                 recordSheetCenterPanelContent: 'clusterTable',
                 ASPrintPageBreakOnGroups: true,
-                ASPrintCardSize: 'standard',
+                ASPrintCardTemplate: 'standard',
+                ASPrintDuplex: false,
+                ASPrintColorBands: false,
                 printMargin: 'browserDefined',
                 ...optionOverrides.printAllOptions,
             },
@@ -7,12 +7,15 @@ import { CommonModule } from '@angular/common';
 import { DialogRef, DIALOG_DATA } from '@angular/cdk/dialog';
 import { GameSystem } from '../../models/common.model';
 import type { PrintAllOptions } from '../../models/print-options.model';
+import { AS_CARD_TEMPLATES } from '../../models/as-card-template.model';
 import { OptionsService } from '../../services/options.service';
 
 
 export interface PrintOptionsDialogData {
     gameSystem: GameSystem;
     printSummary: (printOptions: PrintAllOptions) => Promise<void>;
+    /** Saves the summary and the sheets or cards as one PDF file */
+    exportPdf?: (printOptions: PrintAllOptions) => Promise<void>;
 }
 
 @Component({
@@ -70,16 +73,46 @@ export interface PrintOptionsDialogData {
                 @if (isAlphaStrike()) {
                 <div class="option-col">
                     <div class="option-row">
-                        <label for="ASPrintCardSize">Card size:</label>
-                        <select id="ASPrintCardSize" class="bt-select option-select"
-                            [value]="printOptions().ASPrintCardSize"
-                            (change)="onASPrintCardSizeChange($event)">
-                            <option value="standard">Standard (8 per page)</option>
-                            <option value="enlarged">Enlarged (4 per page)</option>
+                        <label for="ASPrintCardTemplate">Card template:</label>
+                        <select id="ASPrintCardTemplate" class="bt-select option-select"
+                            (change)="onASPrintCardTemplateChange($event)">
+                            @for (template of cardTemplates; track template.id) {
+                            <option [value]="template.id" [selected]="template.id === printOptions().ASPrintCardTemplate">{{ template.label }}</option>
+                            }
                         </select>
                     </div>
                 </div>
 
+                <div class="option-col">
+                    <div class="option-row">
+                        <label for="ASPrintDuplex">Pilot abilities on back:</label>
+                        <select id="ASPrintDuplex" class="bt-select option-select"
+                            [value]="printOptions().ASPrintDuplex"
+                            (change)="onBooleanChange('ASPrintDuplex', $event)">
+                            <option value="true">Enabled</option>
+                            <option value="false">Disabled</option>
+                        </select>
+                    </div>
+                    <div class="description">
+                        <p>Follow each page of cards with their backs. Print double-sided, turning pages over on their side edge.</p>
+                    </div>
+                </div>
+
+                <div class="option-col">
+                    <div class="option-row">
+                        <label for="ASPrintColorBands">Force color bands:</label>
+                        <select id="ASPrintColorBands" class="bt-select option-select"
+                            [value]="printOptions().ASPrintColorBands"
+                            (change)="onBooleanChange('ASPrintColorBands', $event)">
+                            <option value="true">Enabled</option>
+                            <option value="false">Disabled</option>
+                        </select>
+                    </div>
+                    <div class="description">
+                        <p>Mark the edge of each card with the color of its force's side.</p>
+                    </div>
+                </div>
+
                 <div class="option-col">
                     <div class="option-row">
                         <label for="ASPrintPageBreakOnGroups">Group page breaks:</label>
@@ -112,6 +145,9 @@ export interface PrintOptionsDialogData {
         <div class="wide-dialog-actions">
             <button class="bt-button primary" [disabled]="isPrinting()" (click)="onPrint()">{{ isClassic() ? 'SHEETS' : 'CARDS' }}</button>
             <button class="bt-button" [disabled]="isPrinting()" (click)="onPrintSummary()">SUMMARY</button>
+            @if (canExportPdf) {
+            <button class="bt-button" [disabled]="isPrinting()" (click)="onExportPdf()">PDF</button>
+            }
             <button class="bt-button" [disabled]="isPrinting()" (click)="onClose()">DISMISS</button>
         </div>
     </div>
@@ -201,8 +237,13 @@ export class PrintOptionsDialogComponent {
 
     protected readonly isClassic = computed(() => this.data.gameSystem === GameSystem.CLASSIC);
     protected readonly isAlphaStrike = computed(() => this.data.gameSystem === GameSystem.ALPHA_STRIKE);
+    protected readonly canExportPdf = !!this.data.exportPdf;
+    protected readonly cardTemplates = Object.values(AS_CARD_TEMPLATES);
 
-    protected onBooleanChange(key: 'clean' | 'printPilotData' | 'ASPrintPageBreakOnGroups', event: Event): void {
+    protected onBooleanChange(
+        key: 'clean' | 'printPilotData' | 'ASPrintPageBreakOnGroups' | 'ASPrintDuplex' | 'ASPrintColorBands',
+        event: Event,
+    ): void {
         const value = (event.target as HTMLSelectElement).value === 'true';
         this.printOptions.update(current => ({ ...current, [key]: value }));
     }
@@ -212,9 +253,9 @@ export class PrintOptionsDialogComponent {
         this.printOptions.update(current => ({ ...current, recordSheetCenterPanelContent: value }));
     }
 
-    protected onASPrintCardSizeChange(event: Event): void {
-        const value = (event.target as HTMLSelectElement).value as PrintAllOptions['ASPrintCardSize'];
-        this.printOptions.update(current => ({ ...current, ASPrintCardSize: value }));
+    protected onASPrintCardTemplateChange(event: Event): void {
+        const value = (event.target as HTMLSelectElement).value as PrintAllOptions['ASPrintCardTemplate'];
+        this.printOptions.update(current => ({ ...current, ASPrintCardTemplate: value }));
     }
 
     protected onPrintMarginChange(event: Event): void {
@@ -235,6 +276,10 @@ export class PrintOptionsDialogComponent {
         await this.runPrint(printOptions => this.data.printSummary(printOptions));
     }
 
+    protected async onExportPdf(): Promise<void> {
+        await this.runPrint(printOptions => this.data.exportPdf?.(printOptions));
+    }
+
     private async runPrint(action: (printOptions: PrintAllOptions) => void | Promise<void>): Promise<void> {
         if (this.isPrinting()) return;
         this.isPrinting.set(true);
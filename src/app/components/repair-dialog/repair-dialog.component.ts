@@ -0,0 +1,136 @@
+// Copyright (C) 2026 The MegaMek Team
+// SPDX-License-Identifier: GPL-3.0-or-later
+// Author: Drake
+
+import { ChangeDetectionStrategy, Component, computed, inject, signal } from '@angular/core';
+import { DecimalPipe } from '@angular/common';
+import { DialogRef, DIALOG_DATA } from '@angular/cdk/dialog';
+import type { Force } from '../../models/force.model';
+import type { ForceUnit } from '../../models/force-unit.model';
+import { sumRepairCost, type RepairItem } from '../../models/repair.model';
+import { applyRepairItems, collectRepairItems } from '../../utils/force-repair.util';
+
+/*
+ * Description: Post-battle repair and rearm screen. Lists the damage every
+ *              unit of a force carries, lets the player pick what to fix and
+ *              estimates what the chosen repairs cost.
+ */
+
+export interface RepairDialogData {
+    force: Force;
+}
+
+/** Units that were repaired, so callers can follow up (toasts, campaign rosters). */
+export type RepairDialogResult = ForceUnit[];
+
+interface RepairUnitRow {
+    unit: ForceUnit;
+    items: RepairItem[];
+}
+
+@Component({
+    selector: 'repair-dialog',
+    standalone: true,
+    changeDetection: ChangeDetectionStrategy.OnPush,
+    imports: [DecimalPipe],
+    host: { class: 'fullscreen-dialog-host glass' },
+    templateUrl: './repair-dialog.component.html',
+    styleUrls: ['./repair-dialog.component.scss'],
+})
+export class RepairDialogComponent {
+    private readonly dialogRef = inject(DialogRef<RepairDialogResult | null>);
+    readonly data: RepairDialogData = inject(DIALOG_DATA);
+
+    readonly loading = signal(true);
+    readonly rows = signal<RepairUnitRow[]>([]);
+    /** Selected items, keyed by `<unit id>|<item key>` */
+    readonly selected = signal<Set<string>>(new Set());
+
+    readonly allItems = computed(() => this.rows().flatMap(row => row.items.map(item => ({ unit: row.unit, item }))));
+    readonly selectedCost = computed(() => {
+        const selected = this.selected();
+        return sumRepairCost(this.allItems()
+            .filter(({ unit, item }) => selected.has(this.selectionKey(unit, item)))
+            .map(({ item }) => item));
+    });
+    readonly totalCost = computed(() => sumRepairCost(this.allItems().map(({ item }) => item)));
+
+    constructor() {
+        this.collect();
+    }
+
+    private async collect(): Promise<void> {
+        try {
+            const units = this.data.force.units();
+            await Promise.all(units.map(unit => unit.load()));
+            const rows = units
+                .map(unit => ({ unit, items: collectRepairItems(unit) }))
+                .filter(row => row.items.length > 0);
+            this.rows.set(rows);
+            this.selected.set(new Set(rows.flatMap(row => row.items.map(item => this.selectionKey(row.unit, item)))));
+        } finally {
+            this.loading.set(false);
+        }
+    }
+
+    selectionKey(unit: ForceUnit, item: RepairItem): string {
+        return `${unit.id}|${item.key}`;
+    }
+
+    isSelected(unit: ForceUnit, item: RepairItem): boolean {
+        return this.selected().has(this.selectionKey(unit, item));
+    }
+
+    isUnitSelected(row: RepairUnitRow): boolean {
+        return row.items.every(item => this.isSelected(row.unit, item));
+    }
+
+    unitCost(row: RepairUnitRow): number {
+        return sumRepairCost(row.items).total;
+    }
+
+    toggle(unit: ForceUnit, item: RepairItem): void {
+        const key = this.selectionKey(unit, item);
+        this.selected.update(selected => {
+            const next = new Set(selected);
+            if (!next.delete(key)) next.add(key);
+            return next;
+        });
+    }
+
+    toggleUnit(row: RepairUnitRow): void {
+        const select = !this.isUnitSelected(row);
+        this.selected.update(selected => {
+            const next = new Set(selected);
+            for (const item of row.items) {
+                const key = this.selectionKey(row.unit, item);
+                if (select) next.add(key);
+                else next.delete(key);
+            }
+            return next;
+        });
+    }
+
+    selectAll(): void {
+        this.selected.set(new Set(this.allItems().map(({ unit, item }) => this.selectionKey(unit, item))));
+    }
+
+    selectNone(): void {
+        this.selected.set(new Set());
+    }
+
+    repair(): void {
+        const repaired: ForceUnit[] = [];
+        for (const row of this.rows()) {
+            const items = row.items.filter(item => this.isSelected(row.unit, item));
+            if (items.length === 0) continue;
+            applyRepairItems(row.unit, items);
+            repaired.push(row.unit);
+        }
+        this.dialogRef.close(repaired);
+    }
+
+    close(): void {
+        this.dialogRef.close(null);
+    }
+}
@@ -0,0 +1,192 @@
+// Copyright (C) 2026 The MegaMek Team
+// SPDX-License-Identifier: GPL-3.0-or-later
+// Author: Drake
+
+import { ChangeDetectionStrategy, Component, computed, inject, signal } from '@angular/core';
+import { DialogRef } from '@angular/cdk/dialog';
+import { describeRulesPack, type RulesPack } from '../../models/rules-pack.model';
+import { DialogsService } from '../../services/dialogs.service';
+import { RulesPackService } from '../../services/rules-pack.service';
+
+/*
+ * Description: Manages the rules packs stored on this device: imports them
+ *              from a file or URL, picks the one loaded forces are validated
+ *              against and deletes the ones no longer needed.
+ */
+
+interface RulesPackRow {
+    pack: RulesPack;
+    summary: string;
+    active: boolean;
+}
+
+@Component({
+    selector: 'rules-pack-dialog',
+    standalone: true,
+    changeDetection: ChangeDetectionStrategy.OnPush,
+    imports: [],
+    host: { class: 'fullscreen-dialog-host glass' },
+    template: `
+    <div class="wide-dialog">
+        <h2 class="wide-dialog-title">Rules Packs</h2>
+        <div class="wide-dialog-body">
+            <p class="hint">Loaded forces are checked against the active pack as you build them. Shared links of a force that passes say which pack it was validated against.</p>
+            <table class="packs-table">
+                <tbody>
+                    @for (row of rows(); track row.pack.id) {
+                    <tr [class.active]="row.active">
+                        <td class="name">
+                            {{ row.pack.name }} <span class="version">v{{ row.pack.version }}</span>
+                            @if (row.pack.description) {
+                            <div class="details">{{ row.pack.description }}</div>
+                            }
+                            <div class="details">{{ row.summary }}</div>
+                        </td>
+                        <td class="actions">
+                            @if (row.active) {
+                            <button class="bt-button" (click)="activate(null)">STOP USING</button>
+                            } @else {
+                            <button class="bt-button" (click)="activate(row.pack.id)">USE</button>
+                            }
+                            @if (row.pack.sourceUrl) {
+                            <button class="bt-button" [disabled]="busy()" (click)="refresh(row.pack)">REFRESH</button>
+                            }
+                            <button class="bt-button" (click)="delete(row.pack)">DELETE</button>
+                        </td>
+                    </tr>
+                    } @empty {
+                    <tr><td class="empty">No rules packs yet. Import one from a file or a URL.</td></tr>
+                    }
+                </tbody>
+            </table>
+            <div class="import-url">
+                <input class="bt-input" type="url" placeholder="https://example.com/event-pack.json"
+                    [value]="url()" (input)="url.set($any($event.target).value)" (keydown.enter)="importFromUrl()" />
+                <button class="bt-button" [disabled]="busy() || !url().trim()" (click)="importFromUrl()">IMPORT URL</button>
+            </div>
+        </div>
+        <div class="wide-dialog-actions">
+            <input #fileInput type="file" accept=".json,application/json" class="hidden-file-input" (change)="importFromFile($event)" />
+            <button class="bt-button" [disabled]="busy()" (click)="fileInput.click()">IMPORT FILE...</button>
+            <button class="bt-button" (click)="close()">CLOSE</button>
+        </div>
+    </div>
+    `,
+    styles: [`
+        .wide-dialog {
+            max-width: 800px;
+        }
+
+        .hint, .details, .empty, .version {
+            font-weight: normal;
+            font-size: 0.85em;
+            opacity: 0.7;
+        }
+
+        .packs-table {
+            width: 100%;
+            border-collapse: collapse;
+
+            td {
+                padding: 4px 6px;
+                border-bottom: 1px solid var(--border-color);
+            }
+
+            .name {
+                font-weight: bold;
+            }
+
+            .actions {
+                text-align: right;
+                white-space: nowrap;
+            }
+
+            .active .name {
+                color: var(--bt-yellow);
+            }
+        }
+
+        .import-url {
+            display: flex;
+            gap: 8px;
+            margin-top: 12px;
+
+            input {
+                flex: 1;
+            }
+        }
+
+        .hidden-file-input {
+            display: none;
+        }
+    `]
+})
+export class RulesPackDialogComponent {
+    private readonly rulesPackService = inject(RulesPackService);
+    private readonly dialogsService = inject(DialogsService);
+    private readonly dialogRef = inject(DialogRef<void>);
+
+    readonly url = signal('');
+    readonly busy = signal(false);
+
+    readonly rows = computed<RulesPackRow[]>(() => {
+        const activeId = this.rulesPackService.activePack()?.id;
+        return this.rulesPackService.packs().map(pack => ({
+            pack,
+            summary: describeRulesPack(pack),
+            active: pack.id === activeId,
+        }));
+    });
+
+    async activate(id: string | null): Promise<void> {
+        await this.rulesPackService.setActivePack(id);
+    }
+
+    async importFromUrl(): Promise<void> {
+        const url = this.url().trim();
+        if (!url || this.busy()) return;
+        this.busy.set(true);
+        try {
+            if (await this.rulesPackService.importFromUrl(url)) this.url.set('');
+        } finally {
+            this.busy.set(false);
+        }
+    }
+
+    async importFromFile(event: Event): Promise<void> {
+        const input = event.currentTarget as HTMLInputElement | null;
+        const file = input?.files?.[0];
+        if (!file) return;
+        this.busy.set(true);
+        try {
+            await this.rulesPackService.importFromFile(file);
+        } finally {
+            input.value = '';
+            this.busy.set(false);
+        }
+    }
+
+    async refresh(pack: RulesPack): Promise<void> {
+        if (!pack.sourceUrl) return;
+        this.busy.set(true);
+        try {
+            await this.rulesPackService.importFromUrl(pack.sourceUrl);
+        } finally {
+            this.busy.set(false);
+        }
+    }
+
+    async delete(pack: RulesPack): Promise<void> {
+        const confirmed = await this.dialogsService.requestConfirmation(
+            `Delete rules pack "${pack.name}"?`,
+            'Delete Rules Pack',
+            'danger',
+        );
+        if (!confirmed) return;
+        await this.rulesPackService.deletePack(pack.id);
+    }
+
+    close(): void {
+        this.dialogRef.close();
+    }
+}
@@ -0,0 +1,241 @@
+// Copyright (C) 2026 The MegaMek Team
+// SPDX-License-Identifier: GPL-3.0-or-later
+// Author: Drake
+
+import { ChangeDetectionStrategy, Component, computed, inject, signal } from '@angular/core';
+import { DecimalPipe } from '@angular/common';
+import { DialogRef, DIALOG_DATA } from '@angular/cdk/dialog';
+import { summarizeSalvage, type SalvageUnitReport } from '../../models/salvage.model';
+
+/*
+ * Description: Salvage report shown after an operation: every destroyed
+ *              opposing unit, whether it can be recovered whole, its intact
+ *              components and their value. Recoverable units can be picked
+ *              for transfer to a friendly force or the collection.
+ */
+
+const DEFAULT_COLLECTION_TAG = 'Salvage';
+const COLLECTION_TARGET = 'collection';
+
+export interface SalvageDialogData {
+    reports: SalvageUnitReport[];
+    /** Names of the friendly forces salvage can be transferred to */
+    forces: string[];
+}
+
+export type SalvageTransferTarget =
+    | { kind: 'force'; forceIndex: number }
+    | { kind: 'collection'; tag: string };
+
+export interface SalvageDialogResult {
+    unitIds: string[];
+    target: SalvageTransferTarget;
+}
+
+@Component({
+    selector: 'salvage-dialog',
+    standalone: true,
+    changeDetection: ChangeDetectionStrategy.OnPush,
+    imports: [DecimalPipe],
+    host: { class: 'fullscreen-dialog-host glass' },
+    template: `
+    <div class="wide-dialog">
+        <h2 class="wide-dialog-title">Salvage Report</h2>
+        <div class="wide-dialog-body">
+            @if (data.reports.length > 0) {
+            <div class="subtitle">
+                {{ summary().units }} wreck(s) &middot; {{ summary().recoverable }} recoverable &middot;
+                {{ summary().value | number:'1.0-0' }} C-bills
+            </div>
+            }
+            @for (report of data.reports; track report.unitId) {
+            <section class="salvage-unit">
+                <div class="unit-header">
+                    <input type="checkbox" class="bt-checkbox"
+                        [disabled]="report.verdict !== 'recoverable'"
+                        [checked]="selected().has(report.unitId)"
+                        (change)="toggle(report.unitId)" />
+                    <button class="name" (click)="toggleExpanded(report.unitId)">{{ report.name }}</button>
+                    <span class="badge" [class.recoverable]="report.verdict === 'recoverable'">{{ report.verdict === 'recoverable' ? 'recoverable' : 'parts only' }}</span>
+                    <span class="value">{{ (report.verdict === 'recoverable' ? report.recoveredValue : report.componentValue) | number:'1.0-0' }}</span>
+                </div>
+                <div class="unit-details">
+                    {{ report.forceName }}
+                    @if (report.verdict === 'recoverable') {
+                    &middot; cost {{ report.unitCost | number:'1.0-0' }} less {{ report.repairCost | number:'1.0-0' }} repairs
+                    }
+                    &middot; {{ report.components.length }} intact component(s)
+                </div>
+                @if (expanded().has(report.unitId)) {
+                <table class="component-table">
+                    <tbody>
+                        @for (component of report.components; track $index) {
+                        <tr>
+                            <td>{{ component.name }}</td>
+                            <td class="location">{{ component.location ?? '' }}</td>
+                            <td class="shots">{{ component.shots !== undefined ? component.shots + ' shots' : '' }}</td>
+                            <td class="value">{{ component.value !== null ? (component.value | number:'1.0-0') : '—' }}</td>
+                        </tr>
+                        } @empty {
+                        <tr><td class="empty">Nothing survived intact.</td></tr>
+                        }
+                    </tbody>
+                </table>
+                }
+            </section>
+            } @empty {
+            <div class="empty">No opposing unit was destroyed.</div>
+            }
+        </div>
+        @if (recoverableCount() > 0) {
+        <div class="transfer">
+            <label for="salvage-target">Transfer to</label>
+            <select id="salvage-target" class="bt-select" [value]="target()" (change)="onTargetChange($event)">
+                @for (force of data.forces; track $index) {
+                <option [value]="$index">{{ force }}</option>
+                }
+                <option [value]="collectionTarget">Collection</option>
+            </select>
+            @if (target() === collectionTarget) {
+            <input type="text" class="bt-input" placeholder="Collection tag" [value]="tag()" (input)="onTagInput($event)" />
+            }
+        </div>
+        }
+        <div class="wide-dialog-actions">
+            @if (recoverableCount() > 0) {
+            <button class="bt-button" [disabled]="!canTransfer()" (click)="transfer()">TRANSFER</button>
+            }
+            <button class="bt-button" (click)="close()">CLOSE</button>
+        </div>
+    </div>
+    `,
+    styles: [`
+        .wide-dialog {
+            max-width: 800px;
+        }
+
+        .subtitle, .unit-details, .empty, .location, .shots {
+            opacity: 0.7;
+        }
+
+        .salvage-unit {
+            display: flex;
+            flex-direction: column;
+            gap: 2px;
+            text-align: left;
+            padding-bottom: 4px;
+            border-bottom: 1px solid var(--border-color);
+        }
+
+        .unit-header {
+            display: flex;
+            align-items: center;
+            gap: 8px;
+
+            .name {
+                flex: 1 1 auto;
+                padding: 0;
+                border: none;
+                background: none;
+                color: inherit;
+                font: inherit;
+                font-weight: bold;
+                text-align: left;
+                cursor: pointer;
+            }
+        }
+
+        .unit-details {
+            font-size: 0.85em;
+            padding-left: 2em;
+        }
+
+        .badge {
+            padding: 1px 6px;
+            font-size: 0.75em;
+            text-transform: uppercase;
+            border: 1px solid currentColor;
+            color: var(--danger);
+
+            &.recoverable {
+                color: #6cc56c;
+            }
+        }
+
+        .value {
+            text-align: right;
+            font-variant-numeric: tabular-nums;
+            white-space: nowrap;
+        }
+
+        .component-table {
+            width: 100%;
+            border-collapse: collapse;
+            padding-left: 2em;
+
+            td {
+                padding: 1px 6px;
+            }
+        }
+
+        .transfer {
+            display: flex;
+            align-items: center;
+            justify-content: center;
+            gap: 8px;
+            padding: 8px 16px;
+        }
+    `]
+})
+export class SalvageDialogComponent {
+    private readonly dialogRef = inject(DialogRef<SalvageDialogResult | null>);
+    readonly data: SalvageDialogData = inject(DIALOG_DATA);
+    readonly collectionTarget = COLLECTION_TARGET;
+
+    readonly selected = signal<Set<string>>(new Set());
+    readonly expanded = signal<Set<string>>(new Set());
+    /** Index of the target force, or the collection */
+    readonly target = signal<string>(this.data.forces.length > 0 ? '0' : COLLECTION_TARGET);
+    readonly tag = signal(DEFAULT_COLLECTION_TAG);
+
+    readonly summary = computed(() => summarizeSalvage(this.data.reports));
+    readonly recoverableCount = computed(() => this.data.reports.filter(report => report.verdict === 'recoverable').length);
+    readonly canTransfer = computed(() => this.selected().size > 0
+        && (this.target() !== COLLECTION_TARGET || this.tag().trim().length > 0));
+
+    toggle(unitId: string): void {
+        this.selected.update(ids => {
+            const next = new Set(ids);
+            if (!next.delete(unitId)) next.add(unitId);
+            return next;
+        });
+    }
+
+    toggleExpanded(unitId: string): void {
+        this.expanded.update(ids => {
+            const next = new Set(ids);
+            if (!next.delete(unitId)) next.add(unitId);
+            return next;
+        });
+    }
+
+    onTargetChange(event: Event): void {
+        this.target.set((event.target as HTMLSelectElement).value);
+    }
+
+    onTagInput(event: Event): void {
+        this.tag.set((event.target as HTMLInputElement).value);
+    }
+
+    transfer(): void {
+        if (!this.canTransfer()) return;
+        const target: SalvageTransferTarget = this.target() === COLLECTION_TARGET
+            ? { kind: 'collection', tag: this.tag().trim() }
+            : { kind: 'force', forceIndex: Number(this.target()) };
+        this.dialogRef.close({ unitIds: [...this.selected()], target });
+    }
+
+    close(): void {
+        this.dialogRef.close(null);
+    }
+}
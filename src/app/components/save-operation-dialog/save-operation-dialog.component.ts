@@ -5,6 +5,7 @@
 import { ChangeDetectionStrategy, Component, inject, signal } from '@angular/core';
 import { DialogRef, DIALOG_DATA } from '@angular/cdk/dialog';
 import { CommonModule } from '@angular/common';
+import type { ForceSide } from '../../models/force-slot.model';
 import { OpPreviewComponent, type OpPreviewForce } from '../op-preview/op-preview.component';
 
 
@@ -18,12 +19,14 @@ export interface OperationDialogData {
     name: string;
     note: string;
     forces: OpPreviewForce[];
+    sides?: ForceSide[];
 }
 
 export interface OperationDialogResult {
     name: string;
     note?: string;
     forces?: OpPreviewForce[];
+    sides?: ForceSide[];
 }
 
 @Component({
@@ -56,7 +59,7 @@ export interface OperationDialogResult {
             </div>
 
             @if (forces().length > 0) {
-                <op-preview [(forces)]="forces" [allowDragDrop]="true"></op-preview>
+                <op-preview [(forces)]="forces" [(sides)]="sides" [allowDragDrop]="true" [editableSides]="true"></op-preview>
             }
 
             <div class="form-fields">
@@ -121,6 +124,7 @@ export class SaveOperationDialogComponent {
     name = signal(this.clampText(this.data.name || '', this.nameLimit));
     note = signal(this.clampText(this.data.note || '', this.noteLimit));
     forces = signal<OpPreviewForce[]>(this.data.forces || []);
+    sides = signal<ForceSide[] | undefined>(this.data.sides);
 
     onNameChange(e: Event): void {
         this.name.set(this.clampText((e.target as HTMLInputElement).value, this.nameLimit));
@@ -150,6 +154,7 @@ export class SaveOperationDialogComponent {
             name,
             note: note || undefined,
             forces: this.forces(),
+            sides: this.sides(),
         });
     }
 
@@ -0,0 +1,105 @@
+// Copyright (C) 2026 The MegaMek Team
+// SPDX-License-Identifier: GPL-3.0-or-later
+// Author: Drake
+
+import { ChangeDetectionStrategy, Component, inject } from '@angular/core';
+import { DialogRef, DIALOG_DATA } from '@angular/cdk/dialog';
+import { DataService } from '../../services/data.service';
+import type { SavedSearchAlert } from '../../services/saved-search-alerts.service';
+
+/*
+ * Description: Units that started or stopped matching a saved search after a
+ *              data update, since the search was last visited.
+ */
+
+export interface SavedSearchChangesDialogData {
+    name: string;
+    alert: SavedSearchAlert;
+}
+
+/** `apply` opens the saved search, `seen` dismisses its changes */
+export type SavedSearchChangesDialogResult = 'apply' | 'seen';
+
+@Component({
+    selector: 'saved-search-changes-dialog',
+    standalone: true,
+    changeDetection: ChangeDetectionStrategy.OnPush,
+    imports: [],
+    host: { class: 'fullscreen-dialog-host glass' },
+    template: `
+    <div class="wide-dialog">
+        <h2 class="wide-dialog-title">{{ data.name }}</h2>
+        <div class="wide-dialog-body">
+            <p class="hint">Changes since your last visit, after a units data update.</p>
+            @if (added.length > 0) {
+            <h3>New matches ({{ added.length }})</h3>
+            <ul class="unit-list added">
+                @for (name of added; track name) {
+                <li>{{ name }}</li>
+                }
+            </ul>
+            }
+            @if (removed.length > 0) {
+            <h3>No longer matching ({{ removed.length }})</h3>
+            <ul class="unit-list removed">
+                @for (name of removed; track name) {
+                <li>{{ name }}</li>
+                }
+            </ul>
+            }
+        </div>
+        <div class="wide-dialog-actions">
+            <button class="bt-button" (click)="close('apply')">OPEN SEARCH</button>
+            <button class="bt-button" (click)="close('seen')">MARK AS SEEN</button>
+            <button class="bt-button" (click)="close()">CLOSE</button>
+        </div>
+    </div>
+    `,
+    styles: [`
+        .wide-dialog {
+            max-width: 560px;
+        }
+
+        .hint {
+            font-size: 0.85em;
+            opacity: 0.7;
+        }
+
+        h3 {
+            font-size: 1em;
+            margin: 12px 0 4px;
+        }
+
+        .unit-list {
+            margin: 0;
+            padding-left: 20px;
+        }
+
+        .added li::marker {
+            content: '+ ';
+            color: #4caf50;
+        }
+
+        .removed li::marker {
+            content: '- ';
+            color: #ff4444;
+        }
+    `]
+})
+export class SavedSearchChangesDialogComponent {
+    private readonly dialogRef = inject(DialogRef<SavedSearchChangesDialogResult>);
+    readonly data: SavedSearchChangesDialogData = inject(DIALOG_DATA);
+    private readonly dataService = inject(DataService);
+
+    readonly added = this.data.alert.added.map(name => this.displayName(name));
+    readonly removed = this.data.alert.removed.map(name => this.displayName(name));
+
+    private displayName(unitName: string): string {
+        const unit = this.dataService.getUnitByName(unitName);
+        return unit ? `${unit.chassis} ${unit.model}`.trim() : unitName;
+    }
+
+    close(result?: SavedSearchChangesDialogResult): void {
+        this.dialogRef.close(result);
+    }
+}
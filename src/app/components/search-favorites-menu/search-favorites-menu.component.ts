@@ -5,6 +5,7 @@
 import { Component, ChangeDetectionStrategy, input, output, signal, afterNextRender, computed, DestroyRef, inject, viewChildren } from '@angular/core';
 import { CdkMenuModule, CdkMenuTrigger, MenuTracker } from '@angular/cdk/menu';
 import type { SerializedSearchFilter } from '../../services/unit-search-filters.model';
+import type { SavedSearchAlert } from '../../services/saved-search-alerts.service';
 
 @Component({
     selector: 'search-favorites-menu',
@@ -46,6 +47,13 @@ import type { SerializedSearchFilter } from '../../services/unit-search-filters.
                 <path d="M19 21l-7-5-7 5V5a2 2 0 0 1 2-2h10a2 2 0 0 1 2 2z"/>
               </svg>
               <span class="favorite-name">{{ f.name }}</span>
+              @if (alerts().get(f.id); as alert) {
+                <button type="button" class="alert-badge"
+                  [title]="alertTitle(alert)"
+                  (click)="onShowChanges(f, $event)">
+                  {{ alert.added.length > 0 ? alert.added.length + ' new' : alert.removed.length + ' removed' }}
+                </button>
+              }
               <button type="button" class="menu-btn"
                 [cdkMenuTriggerFor]="itemMenu"
                 (cdkMenuClosed)="onMenuClosed()"
@@ -58,6 +66,13 @@ import type { SerializedSearchFilter } from '../../services/unit-search-filters.
               </button>
               <ng-template #itemMenu>
                 <div class="popup-menu glass framed-borders has-shadow" cdkMenu>
+                  @if (alerts().has(f.id)) {
+                    <button class="menu-item" cdkMenuItem (cdkMenuItemTriggered)="onShowActiveChanges()">
+                      <span class="icon"><svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round" xmlns="http://www.w3.org/2000/svg">
+                        <path d="M12 5v14M5 12h14"/>
+                      </svg></span> Show changes
+                    </button>
+                  }
                   <button class="menu-item" cdkMenuItem (cdkMenuItemTriggered)="onRename()">
                     <span class="icon"><svg width="16" height="16" viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
                       <path d="M11 4H4C3.44772 4 3 4.44772 3 5V19C3 19.5523 3.44772 20 4 20H18C18.5523 20 19 19.5523 19 19V12" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"/>
@@ -149,6 +164,18 @@ import type { SerializedSearchFilter } from '../../services/unit-search-filters.
             white-space: nowrap;
             font-size: 0.9em;
         }
+        .alert-badge {
+            flex-shrink: 0;
+            padding: 2px 6px;
+            border: none;
+            border-radius: 8px;
+            background-color: var(--bt-yellow);
+            color: #000;
+            font-size: 0.75em;
+            font-weight: bold;
+            white-space: nowrap;
+            cursor: pointer;
+        }
         .menu-btn {
             opacity: 0.4;
             padding: 6px;
@@ -214,12 +241,16 @@ import type { SerializedSearchFilter } from '../../services/unit-search-filters.
 export class SearchFavoritesMenuComponent {
     favorites = input<SerializedSearchFilter[]>([]);
     canSave = input<boolean>(false);
+    /** Saved search alerts keyed by saved search ID */
+    alerts = input<ReadonlyMap<string, SavedSearchAlert>>(new Map());
     ready = signal(false);
     searchText = signal('');
     select = output<SerializedSearchFilter>();
     rename = output<SerializedSearchFilter>();
     delete = output<SerializedSearchFilter>();
     saveRequest = output<void>();
+    /** Emitted to see the matches that changed since the last visit */
+    showChanges = output<SerializedSearchFilter>();
     
     /** Emitted when the item menu opens - parent should block overlay close */
     menuOpened = output<void>();
@@ -298,6 +329,25 @@ export class SearchFavoritesMenuComponent {
         }
     }
 
+    alertTitle(alert: SavedSearchAlert): string {
+        const parts = [];
+        if (alert.added.length > 0) parts.push(`${alert.added.length} new matches`);
+        if (alert.removed.length > 0) parts.push(`${alert.removed.length} no longer matching`);
+        return `${parts.join(', ')} since last visit`;
+    }
+
+    onShowChanges(favorite: SerializedSearchFilter, event: MouseEvent) {
+        event.stopPropagation();
+        this.showChanges.emit(favorite);
+    }
+
+    onShowActiveChanges() {
+        const item = this.activeItem();
+        if (item) {
+            this.showChanges.emit(item);
+        }
+    }
+
     onSave() {
         this.saveRequest.emit();
     }
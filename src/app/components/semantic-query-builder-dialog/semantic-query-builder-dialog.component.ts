@@ -0,0 +1,158 @@
+// Copyright (C) 2026 The MegaMek Team
+// SPDX-License-Identifier: GPL-3.0-or-later
+// Author: Drake
+
+import { ChangeDetectionStrategy, Component, computed, inject, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { DialogRef, DIALOG_DATA } from '@angular/cdk/dialog';
+import { type CdkDrag, type CdkDragDrop, type CdkDropList, DragDropModule } from '@angular/cdk/drag-drop';
+import type { GameSystem } from '../../models/common.model';
+import { UnitSearchFiltersService } from '../../services/unit-search-filters.service';
+import { parseSemanticQueryAST, semanticASTToText, validateSemanticQuery, type ASTNode, type GroupASTNode } from '../../utils/semantic-filter-ast.util';
+import {
+    createGroupNode,
+    getFilterNodePickerState,
+    getNodeAtPath,
+    insertNodeAtPath,
+    isPathWithin,
+    moveNode,
+    parseSemanticNode,
+    pickerValueToNode,
+    replaceNodeAtPath,
+    updateGroupAtPath,
+    type ASTPath,
+    type FilterNodePickerState,
+} from '../../utils/semantic-query-builder.util';
+import { MultiSelectDropdownComponent } from '../multi-select-dropdown/multi-select-dropdown.component';
+import { RangeSliderComponent } from '../range-slider/range-slider.component';
+import { TriStateFilterCheckboxComponent } from '../tri-state-filter-checkbox/tri-state-filter-checkbox.component';
+
+/*
+ * Description: Visual editor for the semantic search query. Conditions sit in
+ *              AND/OR groups that can be negated, nested and rearranged by
+ *              dragging; filters are edited with the advanced filters pickers.
+ *              The tree is written back as canonical semantic text.
+ */
+
+export interface SemanticQueryBuilderDialogData {
+    query: string;
+    gameSystem: GameSystem;
+}
+
+/** The edited query, as semantic text */
+export type SemanticQueryBuilderDialogResult = string;
+
+interface QueryTreeView {
+    path: ASTPath;
+    /** Path joined with dots, unique in the tree */
+    id: string;
+    node: ASTNode;
+    /** Canonical text of the node */
+    text: string;
+    /** Set for filters a picker can show */
+    picker: FilterNodePickerState | null;
+    children: QueryTreeView[];
+}
+
+@Component({
+    selector: 'semantic-query-builder-dialog',
+    standalone: true,
+    changeDetection: ChangeDetectionStrategy.OnPush,
+    imports: [CommonModule, DragDropModule, MultiSelectDropdownComponent, RangeSliderComponent, TriStateFilterCheckboxComponent],
+    host: { class: 'fullscreen-dialog-host glass' },
+    templateUrl: './semantic-query-builder-dialog.component.html',
+    styleUrls: ['./semantic-query-builder-dialog.component.scss'],
+})
+export class SemanticQueryBuilderDialogComponent {
+    private readonly dialogRef = inject(DialogRef<SemanticQueryBuilderDialogResult>);
+    private readonly data: SemanticQueryBuilderDialogData = inject(DIALOG_DATA);
+    readonly filtersService = inject(UnitSearchFiltersService);
+
+    private readonly totalRanges = { ...this.filtersService.getTotalRanges() };
+    readonly root = signal<GroupASTNode>(parseSemanticQueryAST(this.data.query, this.data.gameSystem).ast);
+    readonly tree = computed(() => this.buildView(this.root(), []));
+    readonly queryText = computed(() => semanticASTToText(this.root()));
+    readonly errors = computed(() => validateSemanticQuery(this.queryText(), this.data.gameSystem));
+
+    /** Groups can't be dropped into themselves or their descendants */
+    readonly canEnter = (drag: CdkDrag<ASTPath>, drop: CdkDropList<ASTPath>): boolean => !isPathWithin(drop.data, drag.data);
+
+    private buildView(node: ASTNode, path: ASTPath): QueryTreeView {
+        return {
+            path,
+            id: path.join('.'),
+            node,
+            text: semanticASTToText(node),
+            picker: node.type === 'filter' ? getFilterNodePickerState(node, this.data.gameSystem, this.totalRanges) : null,
+            children: node.type === 'group' ? node.children.map((child, index) => this.buildView(child, [...path, index])) : [],
+        };
+    }
+
+    onDrop(event: CdkDragDrop<ASTPath, ASTPath, ASTPath>): void {
+        // Within a list, CDK gives the final index; moveNode takes it from before the move
+        const index = event.previousContainer === event.container && event.currentIndex > event.previousIndex
+            ? event.currentIndex + 1
+            : event.currentIndex;
+        this.root.update(root => moveNode(root, event.item.data, event.container.data, index));
+    }
+
+    toggleOperator(view: QueryTreeView): void {
+        this.root.update(root => updateGroupAtPath(root, view.path, group => ({
+            ...group,
+            operator: group.operator === 'AND' ? 'OR' : 'AND',
+        })));
+    }
+
+    toggleNegated(view: QueryTreeView): void {
+        this.root.update(root => updateGroupAtPath(root, view.path, group => ({ ...group, negated: !group.negated })));
+    }
+
+    addCondition(view: QueryTreeView): void {
+        const group = view.node as GroupASTNode;
+        this.root.update(root => insertNodeAtPath(root, view.path, group.children.length, { type: 'text', value: '', start: 0, end: 0 }));
+    }
+
+    addGroup(view: QueryTreeView): void {
+        const group = view.node as GroupASTNode;
+        const operator = group.operator === 'AND' ? 'OR' : 'AND';
+        this.root.update(root => insertNodeAtPath(root, view.path, group.children.length, createGroupNode(operator)));
+    }
+
+    remove(view: QueryTreeView): void {
+        this.root.update(root => replaceNodeAtPath(root, view.path, null));
+    }
+
+    onTextChange(view: QueryTreeView, event: Event): void {
+        const node = parseSemanticNode((event.target as HTMLInputElement).value, this.data.gameSystem);
+        this.replace(view, node);
+    }
+
+    onPickerChange(view: QueryTreeView, value: unknown): void {
+        if (!view.picker) return;
+        this.replace(view, pickerValueToNode(view.picker.conf, value, this.data.gameSystem, this.totalRanges));
+    }
+
+    /** An AND group spreads into an AND parent, so edits don't add brackets */
+    private replace(view: QueryTreeView, node: ASTNode | null): void {
+        this.root.update(root => {
+            const parent = getNodeAtPath(root, view.path.slice(0, -1));
+            if (node?.type === 'group' && !node.negated && node.operator === 'AND'
+                && parent?.type === 'group' && parent.operator === 'AND') {
+                return replaceNodeAtPath(root, view.path, node.children);
+            }
+            return replaceNodeAtPath(root, view.path, node);
+        });
+    }
+
+    clear(): void {
+        this.root.set(createGroupNode('AND'));
+    }
+
+    apply(): void {
+        this.dialogRef.close(this.queryText());
+    }
+
+    close(): void {
+        this.dialogRef.close();
+    }
+}
@@ -6,6 +6,7 @@ import { ChangeDetectionStrategy, Component, inject, signal } from '@angular/cor
 import { DialogRef, DIALOG_DATA } from '@angular/cdk/dialog';
 import { ForceBuilderService } from '../../services/force-builder.service';
 import { ToastService } from '../../services/toast.service';
+import { ImportedUnitsService } from '../../services/imported-units.service';
 import { copyTextToClipboard } from '../../utils/clipboard.util';
 import { buildShareUrl } from '../../utils/share-url.util';
 import type { Force } from '../../models/force.model';
@@ -93,6 +94,16 @@ export interface ShareForceDialogData {
                             }
                         </button>
                     }
+                    @if (force.gameSystem === GameSystem.CLASSIC || hasCustomUnits()) {
+                        <button class="bt-button export-btn" (click)="exportToMegaMek()" [disabled]="isExporting()"
+                            title="Zip of the MUL and any custom unit files, ready to extract into a MegaMek directory">
+                            @if (isExporting()) {
+                                EXPORTING...
+                            } @else {
+                                MEGAMEK
+                            }
+                        </button>
+                    }
                 </div>
             </div>
         </div>
@@ -179,6 +190,7 @@ export class ShareForceDialogComponent {
     forceBuilderService = inject(ForceBuilderService);
     toastService = inject(ToastService);
     private dialogsService = inject(DialogsService);
+    private importedUnitsService = inject(ImportedUnitsService);
     instanceId = signal<string | null>(null);
     shareLiveUrl = signal<string | null>(null);
     cleanUrl = signal<string | null>(null);
@@ -273,6 +285,32 @@ export class ShareForceDialogComponent {
         }
     }
 
+    hasCustomUnits(): boolean {
+        return this.force.units().some(unit => unit.getUnit().imported);
+    }
+
+    async exportToMegaMek() {
+        const forceUnits = this.force.units();
+        if (!forceUnits || forceUnits.length === 0) {
+            this.toastService.showToast('No units to export.', 'error');
+            return;
+        }
+
+        this.isExporting.set(true);
+        try {
+            const { exportForceToMegaMekBundle } = await import('../../utils/megamek-bundle.util');
+            const result = await exportForceToMegaMekBundle(this.force, unit =>
+                unit.imported ? this.importedUnitsService.getUnitEntity(unit.name) : undefined);
+            const customUnits = `${result.unitFiles} custom unit file${result.unitFiles === 1 ? '' : 's'}`;
+            this.toastService.showToast(`Exported ${result.includesMul ? `MUL and ${customUnits}` : customUnits} to ${result.fileName}.`, 'success');
+        } catch (err) {
+            console.error('Failed to export MegaMek bundle:', err);
+            this.toastService.showToast('Failed to export MegaMek bundle.', 'error');
+        } finally {
+            this.isExporting.set(false);
+        }
+    }
+
     private buildUrls() {
         const origin = window.location.origin || '';
         // Single-force clean URL (units-based, for sharing without instance IDs)
@@ -281,9 +319,11 @@ export class ShareForceDialogComponent {
         // Instance ID of the current force
         const instanceId = this.force.instanceId() || null;
         this.instanceId.set(instanceId);
+        // Rules pack the force passes, stamped on both links
+        const rules = this.forceBuilderService.rulesPackStamp(this.force);
 
         this.shareLiveUrl.set(instanceId
-            ? buildShareUrl(origin, { instance: instanceId })
+            ? buildShareUrl(origin, { instance: instanceId, rules })
             : null);
 
         this.cleanUrl.set(singleForceParams.units
@@ -292,6 +332,7 @@ export class ShareForceDialogComponent {
                 units: singleForceParams.units,
                 name: singleForceParams.name,
                 factionId: singleForceParams.factionId,
+                rules,
             })
             : null);
     }
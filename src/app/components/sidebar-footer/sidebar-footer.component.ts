@@ -10,7 +10,7 @@ import { ToastService } from '../../services/toast.service';
 import { ForceBuilderService } from '../../services/force-builder.service';
 import { DialogsService } from '../../services/dialogs.service';
 import { DataService } from '../../services/data.service';
-import type { ForceAlignment } from '../../models/force-slot.model';
+import { forceSideRgb, isFriendlyCamp, type ForceAlignment, type ForceSide } from '../../models/force-slot.model';
 import { CdkMenuModule, CdkMenuTrigger, MenuTracker } from '@angular/cdk/menu';
 import { CompactModeService } from '../../services/compact-mode.service';
 import { C3Capabilities } from '../../models/c3-network.model';
@@ -24,6 +24,11 @@ import { getFactionImg } from '../../models/factions.model';
 import { GameSystem } from '../../models/common.model';
 import { AppUpdateService } from '../../services/app-update.service';
 import { LobbyService } from '../../services/lobby.service';
+import { CampaignService } from '../../services/campaign.service';
+import { SalvageService } from '../../services/salvage.service';
+import { PilotRecordService } from '../../services/pilot-record.service';
+import { RulesPackService } from '../../services/rules-pack.service';
+import type { RepairDialogData, RepairDialogResult } from '../repair-dialog/repair-dialog.component';
 
 /*
  * Sidebar footer component
@@ -46,6 +51,10 @@ export class SidebarFooterComponent {
     dataService = inject(DataService);
     appUpdateService = inject(AppUpdateService);
     lobbyService = inject(LobbyService);
+    campaignService = inject(CampaignService);
+    salvageService = inject(SalvageService);
+    pilotRecordService = inject(PilotRecordService);
+    rulesPackService = inject(RulesPackService);
     compactModeService = inject(CompactModeService);
     menuTriggers = viewChildren<CdkMenuTrigger>(CdkMenuTrigger);
 
@@ -62,14 +71,13 @@ export class SidebarFooterComponent {
         return !!f && f.units().length > 0 && !f.instanceId() && !f.readOnly();
     });
 
-    /** Friendly slots in the loaded operation. */
-    operationFriendlySlots = computed<ForceSlot[]>(() =>
-        this.forceBuilderService.loadedForces().filter(s => s.alignment === 'friendly')
-    );
-
-    /** Enemy slots in the loaded operation. */
-    operationEnemySlots = computed<ForceSlot[]>(() =>
-        this.forceBuilderService.loadedForces().filter(s => s.alignment === 'enemy')
+    /** Slots in the loaded operation, grouped by side in side order. */
+    operationSideGroups = computed<{ side: ForceSide; rgb: string; slots: ForceSlot[] }[]>(() =>
+        this.forceBuilderService.activeSides().map(side => ({
+            side,
+            rgb: forceSideRgb(side.color),
+            slots: this.forceBuilderService.loadedForces().filter(s => s.alignment === side.id),
+        }))
     );
 
     /**
@@ -81,15 +89,28 @@ export class SidebarFooterComponent {
         });
     });
 
+    /** The side the alignment filter button switches to next. */
+    nextFilterSide = computed<ForceSide | null>(() => {
+        const sides = this.forceBuilderService.activeSides();
+        const index = sides.findIndex(side => side.id === this.forceBuilderService.alignmentFilter());
+        return sides[(index + 1) % sides.length] ?? null;
+    });
+
+    nextFilterSideRgb = computed(() => {
+        const side = this.nextFilterSide();
+        return side ? forceSideRgb(side.color) : null;
+    });
+
+    /** Whether the next side fights alongside the friendly side (shield icon) or against it (skull icon). */
+    nextFilterIsFriendlyCamp = computed(() => {
+        const side = this.nextFilterSide();
+        return !!side && isFriendlyCamp(this.forceBuilderService.sides(), side.id);
+    });
+
     /**
      * Title text for the alignment filter button based on current state.
      */
-    alignmentFilterTitle = computed(() => {
-        switch (this.forceBuilderService.alignmentFilter()) {
-            case 'friendly': return 'Click to show Enemy';
-            default: return 'Click to show Friendly';
-        }
-    });
+    alignmentFilterTitle = computed(() => `Click to show ${this.nextFilterSide()?.name ?? 'Friendly'}`);
 
     /** True when the alignment filter button should blink (remote update on hidden alignment). */
     alignmentFilterBlink = signal(false);
@@ -338,6 +359,26 @@ export class SidebarFooterComponent {
         this.forceBuilderService.showLoadForceDialog({ initialTab: 'Operations' });
     }
 
+    showSalvageReport(): void {
+        this.salvageService.showSalvageReport();
+    }
+
+    showCampaigns(): void {
+        this.campaignService.showCampaignsDialog();
+    }
+
+    showPilotRoster(): void {
+        this.pilotRecordService.showPilotRoster();
+    }
+
+    showRulesPacks(): void {
+        this.rulesPackService.showRulesPacks();
+    }
+
+    async recordCampaignGame(): Promise<void> {
+        await this.campaignService.recordResult();
+    }
+
     async createLobby(): Promise<void> {
         try {
             await this.lobbyService.createLobby();
@@ -363,6 +404,20 @@ export class SidebarFooterComponent {
         }
     }
 
+    async showRepairDialog(): Promise<void> {
+        const force = this.forceBuilderService.smartCurrentForce();
+        if (!force || force.readOnly() || force.units().length === 0) { return; }
+        const { RepairDialogComponent } = await import('../repair-dialog/repair-dialog.component');
+        const ref = this.dialogsService.createDialog<RepairDialogResult | null>(RepairDialogComponent, {
+            data: { force } satisfies RepairDialogData,
+        });
+        const repaired = await firstValueFrom(ref.closed);
+        if (!repaired || repaired.length === 0) { return; }
+        this.toastService.showToast(`Repaired ${repaired.length} unit(s).`, 'success');
+        await this.campaignService.updateRoster(repaired);
+        await this.pilotRecordService.syncInjuries(repaired);
+    }
+
     async requestCloneForce(): Promise<void> {
         const force = this.forceBuilderService.currentForce();
         if (!force) { return; }
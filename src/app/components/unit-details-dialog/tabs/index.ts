@@ -8,3 +8,6 @@ export * from './unit-details-factions-tab.component';
 export * from './unit-details-sheet-tab.component';
 export * from './unit-details-card-tab.component';
 export * from './unit-details-variants-tab.component';
+export * from './unit-details-similar-tab.component';
+export * from './unit-details-validation-tab.component';
+export * from './unit-details-calculation-tab.component';
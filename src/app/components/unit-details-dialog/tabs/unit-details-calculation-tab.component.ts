@@ -0,0 +1,72 @@
+// Copyright (C) 2026 The MegaMek Team
+// SPDX-License-Identifier: GPL-3.0-or-later
+// Author: Drake
+
+import { Component, ChangeDetectionStrategy, input, inject, computed } from '@angular/core';
+import { NgTemplateOutlet } from '@angular/common';
+import type { UnitSummary } from '../../../models/unit-summary.model';
+import type { BaseEntity } from '../../../models/entity/base-entity';
+import { calculateBattleValueDetails, type BattleValueBreakdown } from '../../../models/entity/utils/battle-value';
+import { convertEntityToAlphaStrikeWithReport } from '../../../models/entity/utils/alpha-strike/alpha-strike-converter';
+import { calculateAlphaStrikePointValue } from '../../../models/entity/utils/alpha-strike/point-value/point-value-calculator';
+import {
+    CalculationReportBuilder,
+    type CalculationReportEvent,
+} from '../../../models/entity/utils/alpha-strike/report/calculation-report';
+import { ImportedUnitsService } from '../../../services/imported-units.service';
+
+interface CalculationSection<T> {
+    value?: T;
+    error?: string;
+}
+
+/**
+ * Shows how BV and PV are derived. The BV breakdown and the Alpha Strike
+ * conversion need the unit's construction data, which the app only has for
+ * imported units; the PV derivation works from any unit's Alpha Strike card.
+ */
+@Component({
+    selector: 'unit-details-calculation-tab',
+    changeDetection: ChangeDetectionStrategy.OnPush,
+    imports: [NgTemplateOutlet],
+    templateUrl: './unit-details-calculation-tab.component.html',
+    styleUrls: ['./unit-details-calculation-tab.component.css']
+})
+export class UnitDetailsCalculationTabComponent {
+    unit = input.required<UnitSummary>();
+
+    private readonly importedUnitsService = inject(ImportedUnitsService);
+
+    readonly entity = computed<CalculationSection<BaseEntity | undefined>>(() =>
+        this.attempt(() => this.importedUnitsService.getUnitEntity(this.unit().name)));
+
+    readonly battleValue = computed<CalculationSection<BattleValueBreakdown> | null>(() => {
+        const entity = this.entity().value;
+        if (!entity) return null;
+        return this.attempt(() => calculateBattleValueDetails(entity));
+    });
+
+    readonly alphaStrikeConversion = computed<CalculationSection<readonly CalculationReportEvent[]> | null>(() => {
+        const entity = this.entity().value;
+        if (!entity) return null;
+        return this.attempt(() => convertEntityToAlphaStrikeWithReport(entity).reportEvents);
+    });
+
+    readonly pointValue = computed<CalculationSection<readonly CalculationReportEvent[]> | null>(() => {
+        const stats = this.unit().as;
+        if (!stats) return null;
+        return this.attempt(() => {
+            const report = new CalculationReportBuilder();
+            calculateAlphaStrikePointValue(stats, 4, report);
+            return report.events();
+        });
+    });
+
+    private attempt<T>(read: () => T): CalculationSection<T> {
+        try {
+            return { value: read() };
+        } catch (error) {
+            return { error: error instanceof Error ? error.message : String(error) };
+        }
+    }
+}
@@ -0,0 +1,110 @@
+// Copyright (C) 2026 The MegaMek Team
+// SPDX-License-Identifier: GPL-3.0-or-later
+// Author: Drake
+
+import { Component, ChangeDetectionStrategy, input, inject, computed, output } from '@angular/core';
+import type { UnitSummary } from '../../../models/unit-summary.model';
+import { DataService } from '../../../services/data.service';
+import { UnitAvailabilitySourceService } from '../../../services/unit-availability-source.service';
+import { isSameVariantGroup } from '../../../utils/unit-variant.util';
+import {
+    DEFAULT_SIMILARITY_WEIGHTS,
+    findSimilarUnits,
+    MAX_SIMILARITY_WEIGHT,
+    SIMILARITY_DIMENSIONS,
+    type SimilarityDimension,
+    type SimilarUnit,
+    type SimilarityWeights,
+} from '../../../utils/unit-similarity.util';
+
+const MAX_SIMILAR_UNITS = 25;
+
+/**
+ * State for the similar units tab that can be persisted by parent components.
+ */
+export interface SimilarTabState {
+    weights: SimilarityWeights;
+    eraId: number | null;
+    factionId: number | null;
+}
+
+/** Default state for the similar units tab */
+export const DEFAULT_SIMILAR_TAB_STATE: SimilarTabState = {
+    weights: DEFAULT_SIMILARITY_WEIGHTS,
+    eraId: null,
+    factionId: null,
+};
+
+/**
+ * Component for the "Similar" tab in the Unit Details Dialog: units of other
+ * chassis nearest to the current one, to stand in for a missing miniature.
+ */
+@Component({
+    selector: 'unit-details-similar-tab',
+    changeDetection: ChangeDetectionStrategy.OnPush,
+    imports: [],
+    templateUrl: './unit-details-similar-tab.component.html',
+    styleUrls: ['./unit-details-similar-tab.component.css']
+})
+export class UnitDetailsSimilarTabComponent {
+    private dataService = inject(DataService);
+    private unitAvailabilitySource = inject(UnitAvailabilitySourceService);
+
+    readonly DIMENSIONS = SIMILARITY_DIMENSIONS;
+    readonly MAX_WEIGHT = MAX_SIMILARITY_WEIGHT;
+
+    /** The current unit to find similar units for */
+    unit = input.required<UnitSummary>();
+
+    /** Tab state passed from parent (weights, era and faction constraints) */
+    state = input<SimilarTabState>(DEFAULT_SIMILAR_TAB_STATE);
+
+    /** Emitted when any state property changes */
+    stateChange = output<SimilarTabState>();
+
+    /** Emitted when a similar unit is clicked */
+    unitClick = output<{ variant: UnitSummary, variants: UnitSummary[] }>();
+
+    readonly eras = computed(() => this.dataService.getEras());
+    readonly factions = computed(() => [...this.dataService.getFactions()].sort((a, b) => a.name.localeCompare(b.name)));
+
+    /** Units of the same type and another chassis, within the era and faction constraints */
+    private candidates = computed<UnitSummary[]>(() => {
+        const currentUnit = this.unit();
+        const { eraId, factionId } = this.state();
+        const era = eraId !== null ? this.dataService.getEraById(eraId) : undefined;
+        const faction = factionId !== null ? this.dataService.getFactionById(factionId) : undefined;
+        const eraIds = era ? new Set([era.id]) : undefined;
+
+        return this.dataService.getUnits().filter(u =>
+            u.type === currentUnit.type
+            && !isSameVariantGroup(u, currentUnit)
+            && (!era || this.unitAvailabilitySource.unitBelongsToEra(u, era))
+            && (!faction || this.unitAvailabilitySource.unitBelongsToFaction(u, faction, eraIds)));
+    });
+
+    similarUnits = computed<SimilarUnit[]>(() =>
+        findSimilarUnits(this.unit(), this.candidates(), this.state().weights, MAX_SIMILAR_UNITS));
+
+    setWeight(dimension: SimilarityDimension, value: number): void {
+        if (!Number.isFinite(value)) return;
+        const state = this.state();
+        this.stateChange.emit({ ...state, weights: { ...state.weights, [dimension]: value } });
+    }
+
+    resetWeights(): void {
+        this.stateChange.emit({ ...this.state(), weights: DEFAULT_SIMILARITY_WEIGHTS });
+    }
+
+    setEra(value: string): void {
+        this.stateChange.emit({ ...this.state(), eraId: value ? Number(value) : null });
+    }
+
+    setFaction(value: string): void {
+        this.stateChange.emit({ ...this.state(), factionId: value ? Number(value) : null });
+    }
+
+    onUnitClick(unit: UnitSummary): void {
+        this.unitClick.emit({ variant: unit, variants: this.similarUnits().map(similar => similar.unit) });
+    }
+}
@@ -0,0 +1,32 @@
+// Copyright (C) 2026 The MegaMek Team
+// SPDX-License-Identifier: GPL-3.0-or-later
+// Author: Drake
+
+import { Component, ChangeDetectionStrategy, input, inject, computed } from '@angular/core';
+import type { UnitSummary } from '../../../models/unit-summary.model';
+import type { ConstructionValidationReport } from '../../../models/entity/utils/construction-validation';
+import { ImportedUnitsService } from '../../../services/imported-units.service';
+
+/**
+ * Construction rule results for a unit imported from a MegaMek file.
+ * Catalog units have no source file in the app and are not checked.
+ */
+@Component({
+    selector: 'unit-details-validation-tab',
+    changeDetection: ChangeDetectionStrategy.OnPush,
+    templateUrl: './unit-details-validation-tab.component.html',
+    styleUrls: ['./unit-details-validation-tab.component.css']
+})
+export class UnitDetailsValidationTabComponent {
+    unit = input.required<UnitSummary>();
+
+    private readonly importedUnitsService = inject(ImportedUnitsService);
+
+    readonly validation = computed<{ report?: ConstructionValidationReport; error?: string }>(() => {
+        try {
+            return { report: this.importedUnitsService.validateUnit(this.unit().name) };
+        } catch (error) {
+            return { error: error instanceof Error ? error.message : String(error) };
+        }
+    });
+}
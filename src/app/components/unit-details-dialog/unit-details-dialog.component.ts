@@ -9,6 +9,7 @@ import type { UnitSummary } from '../../models/unit-summary.model';
 import { DialogRef, DIALOG_DATA } from '@angular/cdk/dialog';
 import { firstValueFrom } from 'rxjs';
 import { ToastService } from '../../services/toast.service';
+import { ImportedUnitsService } from '../../services/imported-units.service';
 import { ForceUnit } from '../../models/force-unit.model';
 import { ForceBuilderService } from '../../services/force-builder.service';
 import { shareUrlWithClipboardFallback } from '../../utils/clipboard.util';
@@ -24,8 +25,11 @@ import { UnitDetailsIntelTabComponent } from './tabs/unit-details-intel-tab.comp
 import { UnitDetailsFactionTabComponent } from './tabs/unit-details-factions-tab.component';
 import { UnitDetailsSheetTabComponent } from './tabs/unit-details-sheet-tab.component';
 import { UnitDetailsVariantsTabComponent, type VariantsTabState, DEFAULT_VARIANTS_TAB_STATE } from './tabs/unit-details-variants-tab.component';
+import { UnitDetailsSimilarTabComponent, type SimilarTabState, DEFAULT_SIMILAR_TAB_STATE } from './tabs/unit-details-similar-tab.component';
 import { GameService } from '../../services/game.service';
 import { UnitDetailsCardTabComponent } from './tabs/unit-details-card-tab.component';
+import { UnitDetailsValidationTabComponent } from './tabs/unit-details-validation-tab.component';
+import { UnitDetailsCalculationTabComponent } from './tabs/unit-details-calculation-tab.component';
 import { UnitTagsComponent, type TagClickEvent } from '../unit-tags/unit-tags.component';
 import { TaggingService } from '../../services/tagging.service';
 import { UrlService } from '../../services/url.service';
@@ -63,7 +67,7 @@ export interface UnitDetailsChangeAction {
 @Component({
     selector: 'unit-details-dialog',
     changeDetection: ChangeDetectionStrategy.OnPush,
-    imports: [CommonModule, BaseDialogComponent, SwipeDirective, LongPressDirective, UnitIconComponent, UnitDetailsGeneralTabComponent, UnitDetailsIntelTabComponent, UnitDetailsFactionTabComponent, UnitDetailsSheetTabComponent, UnitDetailsCardTabComponent, UnitDetailsVariantsTabComponent, UnitTagsComponent, UnitDetailsFooterComponent],
+    imports: [CommonModule, BaseDialogComponent, SwipeDirective, LongPressDirective, UnitIconComponent, UnitDetailsGeneralTabComponent, UnitDetailsIntelTabComponent, UnitDetailsFactionTabComponent, UnitDetailsSheetTabComponent, UnitDetailsCardTabComponent, UnitDetailsVariantsTabComponent, UnitDetailsSimilarTabComponent, UnitDetailsValidationTabComponent, UnitDetailsCalculationTabComponent, UnitTagsComponent, UnitDetailsFooterComponent],
     templateUrl: './unit-details-dialog.component.html',
     styleUrls: ['./unit-details-dialog.component.css'],
     host: {
@@ -84,6 +88,7 @@ export class UnitDetailsDialogComponent {
     private dialogsService = inject(DialogsService);
     private keyboardShortcutService = inject(KeyboardShortcutService);
     private destroyRef = inject(DestroyRef);
+    private importedUnitsService = inject(ImportedUnitsService);
     add = output<UnitSummary>();
     select = output<UnitSummary>();
     change = output<{ oldUnit: ForceUnit; newUnit: UnitSummary }>();
@@ -93,6 +98,7 @@ export class UnitDetailsDialogComponent {
     currentPanelRef = viewChild<ElementRef<HTMLElement>>('currentPanel');
     incomingPanelRef = viewChild<ElementRef<HTMLElement>>('incomingPanel');
     shareButtonInActions = computed(() => this.layoutService.windowWidth() > 600);
+    isExporting = signal(false);
 
     /** Computed property to determine if we're in change mode */
     isChangeMode = computed(() => {
@@ -105,7 +111,9 @@ export class UnitDetailsDialogComponent {
     });
 
     tabs = computed<string[]>(() => {
-        return ['General', 'Intel', 'Factions', 'Variants', 'Sheet', 'Card'];
+        const tabs = ['General', 'Intel', 'Factions', 'Variants', 'Similar', 'Calculation', 'Sheet', 'Card'];
+        // Construction checks need the source file, which only imported units keep.
+        return this.unit.imported ? [...tabs, 'Validation'] : tabs;
     });
     activeTab = signal(this.deriveInitialIsAlphaStrike() ? 'Card' : 'General');
 
@@ -190,6 +198,8 @@ export class UnitDetailsDialogComponent {
 
     /** View mode for variants tab (persisted while dialog is open) */
     variantsTabState = signal<VariantsTabState>({ ...DEFAULT_VARIANTS_TAB_STATE });
+    /** Weights and constraints for similar units tab (persisted while dialog is open) */
+    similarTabState = signal<SimilarTabState>({ ...DEFAULT_SIMILAR_TAB_STATE });
     // Header unit - shows the most visible unit during swipe
     headerUnit = computed(() => {
         const incoming = this.incomingUnit();
@@ -264,6 +274,13 @@ export class UnitDetailsDialogComponent {
             });
         });
         
+        effect(() => {
+            // Swiping to a catalog unit drops the imported-only Validation tab.
+            if (!this.tabs().includes(this.activeTab())) {
+                this.activeTab.set('General');
+            }
+        });
+
         let isFirstRun = true;
         effect(() => {
             const index = this.unitIndex();
@@ -546,6 +563,26 @@ export class UnitDetailsDialogComponent {
         }
     }
 
+    async onExportToMegaMek() {
+        const entity = this.importedUnitsService.getUnitEntity(this.unit.name);
+        if (!entity) {
+            this.toastService.showToast('Only imported units can be exported as MegaMek files.', 'error');
+            return;
+        }
+
+        this.isExporting.set(true);
+        try {
+            const { exportUnitToMegaMekBundle } = await import('../../utils/megamek-bundle.util');
+            const { fileName } = await exportUnitToMegaMekBundle(entity);
+            this.toastService.showToast(`Exported ${this.unit.chassis} ${this.unit.model} to ${fileName}.`, 'success');
+        } catch (err) {
+            console.error('Failed to export MegaMek unit file:', err);
+            this.toastService.showToast('Failed to export MegaMek unit file.', 'error');
+        } finally {
+            this.isExporting.set(false);
+        }
+    }
+
     async onTagClick({ unit, event }: TagClickEvent) {
         event.stopPropagation();
         const anchorEl = (event.currentTarget as HTMLElement) || (event.target as HTMLElement);
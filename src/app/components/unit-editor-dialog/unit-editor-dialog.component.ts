@@ -0,0 +1,490 @@
+// Copyright (C) 2026 The MegaMek Team
+// SPDX-License-Identifier: GPL-3.0-or-later
+// Author: Drake
+
+import { ChangeDetectionStrategy, Component, computed, inject, signal } from '@angular/core';
+import { DialogRef } from '@angular/cdk/dialog';
+import { DecimalPipe } from '@angular/common';
+import type { BaseEntity } from '../../models/entity/base-entity';
+import { MountedArmor } from '../../models/entity/components/armor';
+import { MountedStructure } from '../../models/entity/components/structure';
+import { BattleArmorEntity } from '../../models/entity/entities/infantry/battle-armor-entity';
+import type { MekEntity } from '../../models/entity/entities/mek/mek-entity';
+import { TankEntity } from '../../models/entity/entities/vehicle/tank-entity';
+import type { CockpitType } from '../../models/entity/types/cockpit';
+import type { GyroType } from '../../models/entity/components/gyro-data';
+import type { EngineType } from '../../models/entity/types/engine';
+import type { EntityMountedEquipment } from '../../models/entity/types/equipment';
+import type { MotiveType } from '../../models/entity/types/motive';
+import type { EntityTechBase } from '../../models/entity/types/tech';
+import { BA_WEIGHT_CLASS_BY_CODE } from '../../models/entity/types/weight';
+import { CONSTRUCTION_RULE_LABELS, validateConstruction } from '../../models/entity/utils/construction-validation';
+import { isMekEntity } from '../../models/entity/utils/entity-type-guards';
+import { writeEntity } from '../../models/entity/write-entity';
+import { MiscEquipment, type Equipment } from '../../models/equipment.model';
+import { DataService } from '../../services/data.service';
+import { ImportedUnitsService, type UnitImportFile } from '../../services/imported-units.service';
+import { ToastService } from '../../services/toast.service';
+import { describeUnitImportResults } from '../../utils/imported-unit.util';
+import { downloadTextFile } from '../../utils/mul-file.util';
+import {
+    MEK_ENGINE_TYPES,
+    UNIT_CONSTRUCTION_KINDS,
+    VEHICLE_ENGINE_TYPES,
+    addConstructionEquipment,
+    allocateMekEquipment,
+    applyChassisSettings,
+    autoAllocateMekEquipment,
+    createNewUnitFile,
+    getArmorOptions,
+    getHeatSinkOptions,
+    getMekLocationSlotCount,
+    getStructureOptions,
+    getUnitFileName,
+    isConstructionSlotEquipment,
+    isMountableEquipment,
+    maximizeArmor,
+    releaseConflictingPlacements,
+    releaseMekEquipment,
+    syncConstructionSlotMounts,
+    type UnitConstructionKind,
+} from '../../utils/unit-construction.util';
+
+const GYRO_TYPES: readonly GyroType[] = ['Standard', 'XL', 'Compact', 'Heavy Duty'];
+const COCKPIT_TYPES: readonly CockpitType[] = [
+    'Standard', 'Small', 'Command Console', 'Torso-Mounted', 'Industrial', 'Primitive', 'Interface',
+];
+const VEHICLE_MOTIVE_TYPES: readonly MotiveType[] = ['Tracked', 'Wheeled', 'Hover'];
+const EQUIPMENT_RESULT_LIMIT = 60;
+
+interface ArmorRow {
+    location: string;
+    label: string;
+    front: number;
+    rear: number | null;
+    max: number;
+}
+
+interface CritSlotRow {
+    label: string;
+    kind: 'system' | 'equipment' | 'empty';
+    mount?: EntityMountedEquipment;
+}
+
+interface CritLocationRow {
+    location: string;
+    label: string;
+    slots: CritSlotRow[];
+}
+
+interface MountRow {
+    mount: EntityMountedEquipment;
+    name: string;
+    location: string;
+    slots: number | null;
+    removable: boolean;
+}
+
+/*
+ * Unit construction editor.
+ *
+ * Edits a live entity; tonnage, BV, cost and the validation report are the
+ * entity's own computed values, so every change is reflected immediately.
+ */
+@Component({
+    selector: 'unit-editor-dialog',
+    standalone: true,
+    imports: [DecimalPipe],
+    changeDetection: ChangeDetectionStrategy.OnPush,
+    host: {
+        class: 'fullscreen-dialog-host nopadding fullheight tv-fade'
+    },
+    templateUrl: './unit-editor-dialog.component.html',
+    styleUrl: './unit-editor-dialog.component.scss'
+})
+export class UnitEditorDialogComponent {
+    private readonly dialogRef = inject(DialogRef<void>);
+    private readonly dataService = inject(DataService);
+    private readonly importedUnitsService = inject(ImportedUnitsService);
+    private readonly toastService = inject(ToastService);
+
+    readonly kinds = UNIT_CONSTRUCTION_KINDS;
+    readonly gyroTypes = GYRO_TYPES;
+    readonly cockpitTypes = COCKPIT_TYPES;
+    readonly vehicleMotiveTypes = VEHICLE_MOTIVE_TYPES;
+    readonly baWeightClasses = BA_WEIGHT_CLASS_BY_CODE;
+
+    readonly newKind = signal<UnitConstructionKind>('BipedMek');
+    readonly newTechBase = signal<EntityTechBase>('IS');
+    readonly newChassis = signal('');
+    readonly newModel = signal('');
+    readonly newYear = signal(3145);
+    readonly importedUnits = this.importedUnitsService.importedUnits;
+
+    readonly entity = signal<BaseEntity | null>(null);
+    readonly equipmentFilter = signal('');
+    readonly targetLocation = signal('');
+
+    readonly mek = computed<MekEntity | null>(() => {
+        const entity = this.entity();
+        return entity && isMekEntity(entity) ? entity : null;
+    });
+    readonly tank = computed<TankEntity | null>(() => {
+        const entity = this.entity();
+        return entity instanceof TankEntity ? entity : null;
+    });
+    readonly battleArmor = computed<BattleArmorEntity | null>(() => {
+        const entity = this.entity();
+        return entity instanceof BattleArmorEntity ? entity : null;
+    });
+
+    readonly engineTypes = computed<readonly EngineType[]>(() => this.mek() ? MEK_ENGINE_TYPES : VEHICLE_ENGINE_TYPES);
+    readonly structureOptions = computed(() => {
+        const entity = this.entity();
+        return entity ? getStructureOptions(entity) : [];
+    });
+    readonly armorOptions = computed(() => {
+        const entity = this.entity();
+        return entity ? getArmorOptions(entity) : [];
+    });
+    readonly heatSinkOptions = computed(() => {
+        const mek = this.mek();
+        return mek ? getHeatSinkOptions(mek) : [];
+    });
+
+    readonly tonnageSummary = computed(() => {
+        const entity = this.entity();
+        if (!entity) return null;
+        try {
+            return { used: entity.loadoutTonnage(), max: entity.tonnage(), error: '' };
+        } catch (error) {
+            return { used: 0, max: entity.tonnage(), error: this.describeError(error) };
+        }
+    });
+    readonly battleValue = computed(() => this.safely(entity => entity.battleValue()));
+    readonly cost = computed(() => this.safely(entity => entity.cost()));
+    readonly validationDiagnostics = computed(() => this.safely(entity => validateConstruction(entity).diagnostics) ?? []);
+    readonly ruleLabels = CONSTRUCTION_RULE_LABELS;
+
+    readonly armorRows = computed<ArmorRow[]>(() => {
+        const entity = this.entity();
+        if (!entity || entity instanceof BattleArmorEntity) return [];
+        const maxArmor = entity.maxArmorValues();
+        return entity.armorLocations.map(location => ({
+            location,
+            label: entity.componentLocationLabel(location),
+            front: entity.getArmorValue(location, 'front'),
+            rear: entity.hasRearArmor(location) ? entity.getArmorValue(location, 'rear') : null,
+            max: maxArmor.get(location) ?? 0,
+        }));
+    });
+
+    readonly critLocations = computed<CritLocationRow[]>(() => {
+        const mek = this.mek();
+        if (!mek) return [];
+        const grid = mek.criticalSlotGrid();
+        return mek.locationOrder.map(location => ({
+            location,
+            label: mek.componentLocationLabel(location),
+            slots: (grid.get(location) ?? [])
+                .slice(0, getMekLocationSlotCount(mek, location))
+                .map(slot => {
+                    if (slot.type === 'system') return { label: slot.systemType, kind: 'system' as const };
+                    if (slot.type === 'empty') return { label: '-Empty-', kind: 'empty' as const };
+                    return {
+                        label: slot.mounts.map(mount => mount.equipment?.name ?? mount.equipmentId).join(' | '),
+                        kind: 'equipment' as const,
+                        mount: slot.mounts[0],
+                    };
+                }),
+        }));
+    });
+
+    readonly mountRows = computed<MountRow[]>(() => {
+        const entity = this.entity();
+        if (!entity) return [];
+        return entity.equipment()
+            .filter(mount => mount.allocation.kind !== 'engine')
+            .map(mount => ({
+                mount,
+                name: mount.equipment?.name ?? mount.equipmentId,
+                location: mount.allocation.kind === 'location' ? entity.componentLocationLabel(mount.location) : 'Unallocated',
+                slots: this.mek() ? mount.getNumCriticalSlots(entity) ?? null : null,
+                removable: !isConstructionSlotEquipment(mount.equipment)
+                    && !(mount.equipment instanceof MiscEquipment && mount.equipment.isHeatSink && this.mek() !== null),
+            }));
+    });
+
+    readonly equipmentLocations = computed<readonly string[]>(() => {
+        const entity = this.entity();
+        if (!entity) return [];
+        return entity instanceof BattleArmorEntity ? ['Squad'] : entity.locationOrder;
+    });
+
+    private readonly mountableEquipment = computed<Equipment[]>(() => {
+        const entity = this.entity();
+        if (!entity) return [];
+        return Object.values(entity.getEquipmentRegistry().equipment)
+            .filter(equipment => isMountableEquipment(entity, equipment))
+            .sort((a, b) => a.name.localeCompare(b.name));
+    });
+
+    readonly equipmentResults = computed(() => {
+        const filter = this.equipmentFilter().trim().toLowerCase();
+        return this.mountableEquipment()
+            .filter(equipment => !filter || equipment.name.toLowerCase().includes(filter))
+            .slice(0, EQUIPMENT_RESULT_LIMIT);
+    });
+
+    close(): void {
+        this.dialogRef.close();
+    }
+
+    // ── Start ───────────────────────────────────────────────────────────
+
+    startNew(): void {
+        this.load(createNewUnitFile({
+            kind: this.newKind(),
+            techBase: this.newTechBase(),
+            chassis: this.newChassis(),
+            model: this.newModel(),
+            year: this.newYear(),
+        }));
+    }
+
+    openImported(name: string): void {
+        const file = this.importedUnitsService.getUnitFile(name);
+        if (file) this.load(file);
+    }
+
+    closeUnit(): void {
+        this.entity.set(null);
+    }
+
+    private load(file: UnitImportFile): void {
+        try {
+            const { entity, diagnostics } = this.importedUnitsService.parseUnitFile(file);
+            const errors = diagnostics.filter(diagnostic => diagnostic.severity === 'error');
+            if (errors.length > 0) {
+                throw new Error(errors.map(error => `${error.field}: ${error.message}`).join('; '));
+            }
+            this.entity.set(entity);
+            this.targetLocation.set(this.equipmentLocations()[0] ?? '');
+        } catch (error) {
+            this.toastService.showToast(`Could not open ${file.fileName}: ${this.describeError(error)}`, 'error');
+        }
+    }
+
+    // ── Identity & chassis ──────────────────────────────────────────────
+
+    setChassis(value: string): void {
+        this.entity()?.chassis.set(value);
+    }
+
+    setModel(value: string): void {
+        this.entity()?.model.set(value);
+    }
+
+    setYear(value: number): void {
+        if (Number.isInteger(value) && value > 0) this.entity()?.year.set(value);
+    }
+
+    setTonnage(value: number): void {
+        this.applyChassis({ tonnage: value });
+    }
+
+    setWalkMP(value: number): void {
+        this.applyChassis({ walkMP: value });
+    }
+
+    setEngineType(value: EngineType): void {
+        this.applyChassis({ engineType: value });
+    }
+
+    setMotiveType(value: MotiveType): void {
+        const tank = this.tank();
+        if (!tank) return;
+        tank.motiveType.set(value);
+        this.applyChassis({});
+    }
+
+    setTurret(value: boolean): void {
+        this.tank()?.hasTurret.set(value);
+    }
+
+    private applyChassis(changes: Partial<{ tonnage: number; walkMP: number; engineType: EngineType }>): void {
+        const entity = this.entity();
+        if (!entity) return;
+        const tonnage = changes.tonnage ?? entity.tonnage();
+        const walkMP = changes.walkMP ?? entity.originalWalkMP();
+        if (!(tonnage > 0) || !Number.isInteger(walkMP) || walkMP < 0) return;
+        this.run(() => applyChassisSettings(entity, {
+            tonnage,
+            walkMP,
+            engineType: changes.engineType ?? entity.mountedEngine().type(),
+        }));
+    }
+
+    setGyro(value: GyroType): void {
+        const mek = this.mek();
+        if (!mek) return;
+        mek.gyroType.set(value);
+        releaseConflictingPlacements(mek);
+    }
+
+    setCockpit(value: CockpitType): void {
+        const mek = this.mek();
+        if (!mek) return;
+        mek.cockpitType.set(value);
+        releaseConflictingPlacements(mek);
+    }
+
+    setStructure(id: string): void {
+        const entity = this.entity();
+        const structure = this.structureOptions().find(option => option.id === id);
+        if (!entity || !structure) return;
+        this.run(() => {
+            entity.setUniformStructure(new MountedStructure({ tonnage: entity.tonnage(), structure }));
+            const mek = this.mek();
+            if (mek) syncConstructionSlotMounts(mek);
+        });
+    }
+
+    setArmorType(id: string): void {
+        const entity = this.entity();
+        const armor = this.armorOptions().find(option => option.id === id);
+        if (!entity || !armor) return;
+        this.run(() => {
+            entity.setUniformArmor(new MountedArmor({ armor }));
+            const mek = this.mek();
+            if (mek) syncConstructionSlotMounts(mek);
+        });
+    }
+
+    setHeatSinks(equipmentId: string, count: number): void {
+        const mek = this.mek();
+        const equipment = this.heatSinkOptions().find(option => option.id === equipmentId);
+        if (!mek || !equipment || !Number.isInteger(count) || count < 0) return;
+        this.run(() => mek.configureHeatSinks(equipment, count));
+    }
+
+    // ── Battle armor ────────────────────────────────────────────────────
+
+    setTrooperCount(value: number): void {
+        if (Number.isInteger(value) && value >= 1 && value <= 6) this.battleArmor()?.trooperCount.set(value);
+    }
+
+    setBattleArmorWeightClass(value: string): void {
+        const weightClass = BA_WEIGHT_CLASS_BY_CODE.find(candidate => candidate === value);
+        if (weightClass) this.battleArmor()?.declaredWeightClass.set(weightClass);
+    }
+
+    setJumpMP(value: number): void {
+        if (Number.isInteger(value) && value >= 0) this.battleArmor()?.propulsionMP.set(value);
+    }
+
+    // ── Armor ───────────────────────────────────────────────────────────
+
+    setArmor(location: string, face: 'front' | 'rear', value: number): void {
+        const entity = this.entity();
+        if (!entity || !Number.isInteger(value) || value < 0) return;
+        entity.setArmorValue(location, face, value);
+    }
+
+    maximizeArmor(): void {
+        const entity = this.entity();
+        if (entity) maximizeArmor(entity);
+    }
+
+    // ── Equipment ───────────────────────────────────────────────────────
+
+    addEquipment(equipment: Equipment): void {
+        const entity = this.entity();
+        if (!entity) return;
+        this.run(() => addConstructionEquipment(entity, equipment, this.targetLocation()));
+    }
+
+    removeMount(mount: EntityMountedEquipment): void {
+        this.entity()?.removeEquipment(mount);
+    }
+
+    releaseMount(mount: EntityMountedEquipment): void {
+        const mek = this.mek();
+        if (mek) releaseMekEquipment(mek, mount);
+    }
+
+    allocateMount(mount: EntityMountedEquipment, location: string): void {
+        const mek = this.mek();
+        if (mek) this.run(() => allocateMekEquipment(mek, mount, location));
+    }
+
+    autoAllocate(): void {
+        const mek = this.mek();
+        if (!mek) return;
+        const unplaced = autoAllocateMekEquipment(mek);
+        if (unplaced.length > 0) {
+            this.toastService.showToast(`${unplaced.length} item${unplaced.length === 1 ? '' : 's'} did not fit and remain unallocated.`, 'info');
+        }
+    }
+
+    // ── Export ──────────────────────────────────────────────────────────
+
+    exportFile(): void {
+        const file = this.buildFile();
+        if (file) downloadTextFile(file.fileName, file.content, 'text/plain');
+    }
+
+    async saveToImportedUnits(): Promise<void> {
+        const file = this.buildFile();
+        if (!file) return;
+        const results = await this.dataService.importUnitFiles([file]);
+        const { message, type } = describeUnitImportResults(results);
+        this.toastService.showToast(message, type);
+    }
+
+    private buildFile(): UnitImportFile | null {
+        const entity = this.entity();
+        if (!entity) return null;
+        try {
+            return {
+                fileName: getUnitFileName(entity),
+                content: writeEntity(entity, isMekEntity(entity) ? 'mtf' : 'blk'),
+            };
+        } catch (error) {
+            this.toastService.showToast(`Export failed: ${this.describeError(error)}`, 'error');
+            return null;
+        }
+    }
+
+    // ── Helpers ─────────────────────────────────────────────────────────
+
+    inputNumber(event: Event): number {
+        return Number((event.target as HTMLInputElement).value);
+    }
+
+    inputValue(event: Event): string {
+        return (event.target as HTMLInputElement | HTMLSelectElement).value;
+    }
+
+    private run(action: () => unknown): void {
+        try {
+            action();
+        } catch (error) {
+            this.toastService.showToast(this.describeError(error), 'error');
+        }
+    }
+
+    private safely<T>(read: (entity: BaseEntity) => T): T | null {
+        const entity = this.entity();
+        if (!entity) return null;
+        try {
+            return read(entity);
+        } catch {
+            return null;
+        }
+    }
+
+    private describeError(error: unknown): string {
+        return error instanceof Error ? error.message : String(error);
+    }
+}
@@ -0,0 +1,160 @@
+// Copyright (C) 2026 The MegaMek Team
+// SPDX-License-Identifier: GPL-3.0-or-later
+// Author: Drake
+
+import { ChangeDetectionStrategy, Component, computed, inject, signal } from '@angular/core';
+import { DialogRef, DIALOG_DATA } from '@angular/cdk/dialog';
+import type { UnitSummary } from '../../models/unit-summary.model';
+import { availableInPool, setPoolQuantity, type SerializedUnitPool } from '../../models/unit-pool.model';
+import { DataService } from '../../services/data.service';
+
+/*
+ * Description: Editor for an organization's unit pool: how many of each unit
+ *              the faction owns, how many are deployed to its forces and how
+ *              many are left, stocked from the units of the organization's
+ *              forces.
+ */
+
+export interface UnitPoolDialogData {
+    pool: SerializedUnitPool;
+    /** Units of the organization's forces, offered to stock the pool with */
+    units: readonly UnitSummary[];
+    readOnly: boolean;
+}
+
+interface UnitPoolRow {
+    unitName: string;
+    displayName: string;
+    quantity: number;
+    deployed: number;
+    available: number;
+}
+
+@Component({
+    selector: 'unit-pool-dialog',
+    standalone: true,
+    changeDetection: ChangeDetectionStrategy.OnPush,
+    imports: [],
+    host: { class: 'fullscreen-dialog-host glass' },
+    template: `
+    <div class="wide-dialog">
+        <h2 class="wide-dialog-title">Unit Pool</h2>
+        <div class="wide-dialog-body">
+            <table class="pool-table">
+                <thead>
+                    <tr><th>Unit</th><th>Owned</th><th>Deployed</th><th>Available</th></tr>
+                </thead>
+                <tbody>
+                    @for (row of rows(); track row.unitName) {
+                    <tr>
+                        <td class="name">{{ row.displayName }}</td>
+                        <td>
+                            @if (data.readOnly) {
+                            {{ row.quantity }}
+                            } @else {
+                            <input class="bt-input quantity" type="number" [min]="row.deployed" [value]="row.quantity"
+                                (change)="setQuantity(row.unitName, $any($event.target).valueAsNumber)" />
+                            }
+                        </td>
+                        <td>{{ row.deployed }}</td>
+                        <td [class.depleted]="row.available === 0">{{ row.available }}</td>
+                    </tr>
+                    } @empty {
+                    <tr><td class="empty" colspan="4">The pool is empty. Stock it with the units of the organization's forces.</td></tr>
+                    }
+                </tbody>
+            </table>
+        </div>
+        <div class="wide-dialog-actions">
+            @if (!data.readOnly) {
+            <button class="bt-button" [disabled]="data.units.length === 0" (click)="stockFromForces()">ADD FORCE UNITS</button>
+            <button class="bt-button" (click)="submit()">SAVE</button>
+            }
+            <button class="bt-button" (click)="close()">DISMISS</button>
+        </div>
+    </div>
+    `,
+    styles: [`
+        .wide-dialog {
+            max-width: 640px;
+        }
+
+        .pool-table {
+            width: 100%;
+            border-collapse: collapse;
+
+            th, td {
+                padding: 4px 6px;
+                border-bottom: 1px solid var(--border-color);
+                text-align: center;
+            }
+
+            .name {
+                text-align: left;
+                font-weight: bold;
+            }
+        }
+
+        .quantity {
+            width: 5em;
+            text-align: center;
+        }
+
+        .depleted {
+            color: var(--danger);
+        }
+
+        .empty {
+            font-size: 0.85em;
+            opacity: 0.7;
+        }
+    `]
+})
+export class UnitPoolDialogComponent {
+    private readonly dialogRef = inject(DialogRef<SerializedUnitPool | null>);
+    readonly data: UnitPoolDialogData = inject(DIALOG_DATA);
+    private readonly dataService = inject(DataService);
+
+    readonly pool = signal<SerializedUnitPool>(this.data.pool);
+
+    readonly rows = computed<UnitPoolRow[]>(() => this.pool().entries
+        .map(entry => {
+            const unit = this.dataService.getUnitByName(entry.unitName);
+            return {
+                unitName: entry.unitName,
+                displayName: unit ? `${unit.chassis} ${unit.model}`.trim() : entry.unitName,
+                quantity: entry.quantity,
+                deployed: entry.deployed.length,
+                available: availableInPool(entry),
+            };
+        })
+        .sort((a, b) => a.displayName.localeCompare(b.displayName)));
+
+    setQuantity(unitName: string, quantity: number): void {
+        if (!Number.isFinite(quantity)) return;
+        this.pool.update(pool => setPoolQuantity(pool, unitName, quantity));
+    }
+
+    /** Makes sure the pool holds at least as many of each unit as the organization's forces field. */
+    stockFromForces(): void {
+        const counts = new Map<string, number>();
+        for (const unit of this.data.units) {
+            counts.set(unit.name, (counts.get(unit.name) ?? 0) + 1);
+        }
+        this.pool.update(pool => {
+            for (const [unitName, count] of counts) {
+                const owned = pool.entries.find(entry => entry.unitName === unitName)?.quantity ?? 0;
+                if (owned < count) pool = setPoolQuantity(pool, unitName, count);
+            }
+            return pool;
+        });
+    }
+
+    submit(): void {
+        this.dialogRef.close(this.pool());
+    }
+
+    close(): void {
+        this.dialogRef.close(null);
+    }
+}
@@ -21,6 +21,11 @@ import { isBaseRulesRef } from '../../utils/rules-ref.util';
 import { MultiSelectDropdownComponent, type DropdownOption, type MultiStateSelection } from '../multi-select-dropdown/multi-select-dropdown.component';
 import { RangeSliderComponent } from '../range-slider/range-slider.component';
 import { SemanticGuideComponent } from '../semantic-guide/semantic-guide.component';
+import {
+    SemanticQueryBuilderDialogComponent,
+    type SemanticQueryBuilderDialogData,
+    type SemanticQueryBuilderDialogResult,
+} from '../semantic-query-builder-dialog/semantic-query-builder-dialog.component';
 import { TriStateFilterCheckboxComponent } from '../tri-state-filter-checkbox/tri-state-filter-checkbox.component';
 import {
     type RangeModel,
@@ -234,6 +239,24 @@ export class UnitSearchAdvancedFiltersComponent {
         this.setAdvFilter(filterKey, normalizeUnitSearchRange(newValues, availableRange));
     }
 
+    async openQueryBuilder(): Promise<void> {
+        const ref = this.dialogsService.createDialog<SemanticQueryBuilderDialogResult, SemanticQueryBuilderDialogComponent, SemanticQueryBuilderDialogData>(
+            SemanticQueryBuilderDialogComponent,
+            {
+                data: {
+                    query: this.filtersService.getFullQueryText(),
+                    gameSystem: this.filterGameSystem(),
+                },
+            },
+        );
+        const query = await firstValueFrom(ref.closed);
+        if (query === undefined) {
+            return;
+        }
+
+        this.filtersService.setFullQueryText(query);
+    }
+
     formatRangeValue(conf: RangeFilterConfig, value: number | undefined): string {
         if (value === undefined) {
             return '';
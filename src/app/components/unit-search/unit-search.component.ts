@@ -14,7 +14,8 @@ import {
     type SerializedSearchFilter,
 } from '../../services/unit-search-filters.model';
 import { getMegaMekAvailabilityRarityForScore, MEGAMEK_AVAILABILITY_UNKNOWN_SCORE } from '../../models/megamek/availability.model';
-import { type HighlightToken, tokenizeForHighlight } from '../../utils/semantic-filter-ast.util';
+import { type HighlightToken, parseComputedSortExpression, tokenizeForHighlight } from '../../utils/semantic-filter-ast.util';
+import { COMPUTED_SORT_KEY_PREFIX, isComputedSortKey } from '../../utils/semantic-expression.util';
 import { isFilterAvailableForAvailabilitySource } from '../../utils/unit-search-filter-config.util';
 import type { UnitSummary } from '../../models/unit-summary.model';
 import { DEFAULT_CLASSIC_BV_NORMALIZATION_MAX, DEFAULT_ALPHA_STRIKE_PV_NORMALIZATION_MAX, getNormalizationGunnery, getNormalizationPiloting, type UnitSearchNormalizationMatch, type UnitSearchBudgetMode } from '../../models/unit-search-result.model';
@@ -26,10 +27,12 @@ import { firstValueFrom } from 'rxjs';
 import { LayoutService } from '../../services/layout.service';
 import { DataService } from '../../services/data.service';
 import { DialogsService } from '../../services/dialogs.service';
+import { ToastService } from '../../services/toast.service';
 import { FormatNumberPipe } from '../../pipes/format-number.pipe';
 import { LongPressDirective } from '../../directives/long-press.directive';
 import { TooltipDirective } from '../../directives/tooltip.directive';
 import { SearchFavoritesMenuComponent } from '../search-favorites-menu/search-favorites-menu.component';
+import { SavedSearchChangesDialogComponent, type SavedSearchChangesDialogData, type SavedSearchChangesDialogResult } from '../saved-search-changes-dialog/saved-search-changes-dialog.component';
 import { OverlayManagerService } from '../../services/overlay-manager.service';
 import { ShareSearchDialogComponent } from './share-search.component';
 import { SemanticGuideDialogComponent } from '../semantic-guide-dialog/semantic-guide-dialog.component';
@@ -45,6 +48,7 @@ import { AbilityInfoDialogComponent, type AbilityInfoDialogData } from '../abili
 import { SyntaxInputComponent } from '../syntax-input/syntax-input.component';
 import { formatASDamageValue, isASDamageFilterKey } from '../../utils/as-damage.util';
 import { SavedSearchesService } from '../../services/saved-searches.service';
+import { SavedSearchAlertsService } from '../../services/saved-search-alerts.service';
 import { GameSystem } from '../../models/common.model';
 import { AS_TYPE_DISPLAY_NAMES, DROPDOWN_FILTERS, RANGE_FILTERS } from '../../services/unit-search-filters.model';
 import { KeyboardShortcutService } from '../../services/keyboard-shortcut.service';
@@ -183,12 +187,14 @@ export class UnitSearchComponent {
     private destroyRef = inject(DestroyRef);
     private injector = inject(Injector);
     private dialogsService = inject(DialogsService);
+    private toastService = inject(ToastService);
     private overlay = inject(Overlay);
     private cdr = inject(ChangeDetectorRef);
     private abilityLookup = inject(AsAbilityLookupService);
     protected optionsService = inject(OptionsService);
     private taggingService = inject(TaggingService);
     private savedSearchesService = inject(SavedSearchesService);
+    private savedSearchAlertsService = inject(SavedSearchAlertsService);
     private keyboardShortcutService = inject(KeyboardShortcutService);
 
     readonly useHex = computed(() => this.optionsService.options().ASUseHex);
@@ -826,6 +832,7 @@ export class UnitSearchComponent {
         // Auto-refresh favorites overlay when saved searches change (e.g., from cloud sync)
         effect(() => {
             this.savedSearchesService.version(); // Subscribe to changes
+            this.savedSearchAlertsService.alerts();
             untracked(() => this.refreshFavoritesOverlay());
         });
         // Keep externally applied and restored modes compatible with the current UI state.
@@ -1638,11 +1645,39 @@ export class UnitSearchComponent {
         this.onHeaderSort(event.sortKey, event.groupKey);
     }
 
-    onSortOrderChange(sortKey: string): void {
+    onSortOrderChange(sortKey: string, select?: HTMLSelectElement): void {
         this.resetActiveResult();
+        if (sortKey === COMPUTED_SORT_KEY_PREFIX) {
+            void this.promptComputedSort(select);
+            return;
+        }
         this.filtersService.setSortOrder(sortKey);
     }
 
+    /** Whether the results are sorted by an expression such as `=dpt/bv*1000`. */
+    readonly isComputedSort = computed(() => isComputedSortKey(this.filtersService.selectedSort()));
+
+    private async promptComputedSort(select?: HTMLSelectElement): Promise<void> {
+        const currentSort = this.filtersService.selectedSort();
+        const expression = await this.dialogsService.prompt(
+            'Arithmetic over numeric search fields, for example dpt/bv*1000 or armor/tons.',
+            'Sort by Expression',
+            isComputedSortKey(currentSort) ? currentSort.slice(COMPUTED_SORT_KEY_PREFIX.length) : '',
+        );
+        const sortKey = expression?.trim() ? `${COMPUTED_SORT_KEY_PREFIX}${expression.trim().replace(/\s+/g, '')}` : null;
+        if (sortKey && parseComputedSortExpression(sortKey, this.gameService.currentGameSystem())) {
+            this.filtersService.setSortOrder(sortKey);
+            this.filtersService.setSortDirection('desc');
+            return;
+        }
+        if (sortKey) {
+            this.toastService.showToast(`"${expression}" is not a valid sort expression.`, 'error');
+        }
+        if (select) {
+            select.value = currentSort;
+        }
+    }
+
     toggleSortDirection(): void {
         this.resetActiveResult();
         const current = this.filtersService.selectedSortDirection();
@@ -1768,6 +1803,14 @@ export class UnitSearchComponent {
     }
 
     getCardSortSlotOverride(unit: UnitSummary): { value: string; numeric?: boolean } | null {
+        if (this.isComputedSort()) {
+            const value = this.filtersService.getComputedSortValue(unit);
+            return {
+                value: value === null ? '—' : FormatNumberPipe.formatValue(value, true, false),
+                numeric: value !== null,
+            };
+        }
+
         if (!isMegaMekRaritySortKey(this.filtersService.selectedSort())) {
             return null;
         }
@@ -1791,6 +1834,10 @@ export class UnitSearchComponent {
             return this.filtersService.getMegaMekRaritySortScore(unit);
         }
 
+        if (isComputedSortKey(key)) {
+            return this.filtersService.getComputedSortValue(unit);
+        }
+
         return this.getNestedProperty(unit, key);
     }
 
@@ -2328,6 +2375,7 @@ export class UnitSearchComponent {
             ? this.savedSearchesService.getSearchesForGameSystem(this.gameService.currentGameSystem())
             : this.savedSearchesService.getAllSearches();
         componentRef.setInput('favorites', favorites);
+        componentRef.setInput('alerts', this.savedSearchAlertsService.alerts());
 
         componentRef.setInput('canSave', this.filtersService.hasBookmarkableSearchState());
 
@@ -2342,6 +2390,9 @@ export class UnitSearchComponent {
         outputToObservable(componentRef.instance.delete).pipe(takeUntilDestroyed(this.destroyRef)).subscribe((favorite: SerializedSearchFilter) => {
             this.deleteSearch(favorite);
         });
+        outputToObservable(componentRef.instance.showChanges).pipe(takeUntilDestroyed(this.destroyRef)).subscribe((favorite: SerializedSearchFilter) => {
+            this.showSavedSearchChanges(favorite);
+        });
         outputToObservable(componentRef.instance.saveRequest).pipe(takeUntilDestroyed(this.destroyRef)).subscribe(() => {
             this.saveCurrentSearch();
         });
@@ -2447,6 +2498,34 @@ export class UnitSearchComponent {
         }
     }
 
+    private async showSavedSearchChanges(favorite: SerializedSearchFilter) {
+        const alert = this.savedSearchAlertsService.alerts().get(favorite.id);
+        if (!alert) return;
+
+        // Block favorites overlay from closing while dialog is open
+        this.favoritesDialogActive = true;
+        this.overlayManager.blockCloseUntil('favorites');
+        let result: SavedSearchChangesDialogResult | undefined;
+        try {
+            const ref = this.dialogsService.createDialog<SavedSearchChangesDialogResult, SavedSearchChangesDialogComponent, SavedSearchChangesDialogData>(
+                SavedSearchChangesDialogComponent,
+                { data: { name: favorite.name, alert } }
+            );
+            result = await firstValueFrom(ref.closed);
+            if (result === 'seen') {
+                await this.savedSearchAlertsService.markSeen(favorite.id);
+            }
+        } finally {
+            this.favoritesDialogActive = false;
+            // Unblock after small delay to prevent immediate close from residual events
+            setTimeout(() => this.overlayManager.unblockClose('favorites'), 100);
+        }
+        if (result === 'apply') {
+            this.applyFavorite(favorite);
+            this.closeFavorites();
+        }
+    }
+
     private refreshFavoritesOverlay() {
         // Update favorites data in-place without closing overlay
         if (this.favoritesCompRef && this.overlayManager.has('favorites')) {
@@ -2456,6 +2535,7 @@ export class UnitSearchComponent {
                 ? this.savedSearchesService.getSearchesForGameSystem(this.gameService.currentGameSystem())
                 : this.savedSearchesService.getAllSearches();
             this.favoritesCompRef.setInput('favorites', favorites);
+            this.favoritesCompRef.setInput('alerts', this.savedSearchAlertsService.alerts());
 
             this.favoritesCompRef.setInput('canSave', this.filtersService.hasBookmarkableSearchState());
         }
@@ -2472,5 +2552,6 @@ export class UnitSearchComponent {
             }
         }
         this.filtersService.applySerializedSearchFilter(fav);
+        void this.savedSearchAlertsService.markSeen(fav.id);
     }
 }
@@ -0,0 +1,49 @@
+// Copyright (C) 2026 The MegaMek Team
+// SPDX-License-Identifier: GPL-3.0-or-later
+// Author: Drake
+
+import {
+    AS_CARD_TEMPLATES,
+    asCardBackAbilities,
+    asCardRowsThatFit,
+    asCardTemplateSize,
+    duplexBackSlots,
+} from './as-card-template.model';
+
+describe('AS card templates', () => {
+    it('sizes cards from the standard card, with trackers a strip of its width', () => {
+        expect(asCardTemplateSize(AS_CARD_TEMPLATES.standard)).toEqual({ width: 88, height: 63 });
+        expect(asCardTemplateSize(AS_CARD_TEMPLATES.poker).width).toBeCloseTo(88.9, 10);
+        expect(asCardTemplateSize(AS_CARD_TEMPLATES.tracker)).toEqual({ width: 88, height: 28 });
+    });
+
+    it('fits every template on a Letter page and drops rows under a heading', () => {
+        const portraitMm = 10.5 * 25.4;
+        const landscapeMm = 8 * 25.4;
+        expect(asCardRowsThatFit(AS_CARD_TEMPLATES.standard, portraitMm)).toBe(4);
+        expect(asCardRowsThatFit(AS_CARD_TEMPLATES.enlarged, landscapeMm)).toBe(2);
+        expect(asCardRowsThatFit(AS_CARD_TEMPLATES.poker, portraitMm, 4)).toBe(4);
+        expect(asCardRowsThatFit(AS_CARD_TEMPLATES.poker, portraitMm, 4 + 9)).toBe(3);
+        expect(asCardRowsThatFit(AS_CARD_TEMPLATES.tracker, portraitMm)).toBe(9);
+    });
+
+    it('mirrors each row of a page for its backs', () => {
+        expect(duplexBackSlots(4, 2)).toEqual([1, 0, 3, 2]);
+        expect(duplexBackSlots(3, 2)).toEqual([1, 0, null, 2]);
+        expect(duplexBackSlots(0, 2)).toEqual([]);
+    });
+
+    it('spells out pilot, custom and command abilities for card backs', () => {
+        expect(asCardBackAbilities([
+            'animal_mimicry',
+            { name: 'Sharpshooter', cost: 1, summary: 'Ignores one range modifier.' },
+            'adjusting_fire',
+            'unknown',
+        ], false).map(ability => ability.name)).toEqual([
+            'Animal Mimicry (2)',
+            'Sharpshooter (1)',
+            'Adjusting Fire',
+            'unknown',
+        ]);
+    });
+});
@@ -0,0 +1,156 @@
+// Copyright (C) 2026 The MegaMek Team
+// SPDX-License-Identifier: GPL-3.0-or-later
+// Author: Drake
+
+import { GameSystem } from './common.model';
+import { COMMAND_ABILITIES } from './command-abilities.model';
+import { formatSummaryMovement, getAbilityDetails, PILOT_ABILITIES } from './pilot-abilities.model';
+import type { AbilitySelection } from './as-force-unit.model';
+
+/*
+ * Description: Templates for printed Alpha Strike cards: how large each card
+ *              is, what it shows, how many fit on a page and how they are
+ *              trimmed, plus the layout of the pilot-ability backs printed
+ *              on the reverse of a page.
+ */
+
+/** Standard Alpha Strike card dimensions in millimeters. */
+export const AS_CARD_WIDTH_MM = 88;
+export const AS_CARD_HEIGHT_MM = 63;
+/** Height of a tracker card at scale 1, in millimeters. */
+export const AS_TRACKER_HEIGHT_MM = 28;
+
+export const AS_CARD_TEMPLATE_IDS = ['standard', 'enlarged', 'poker', 'tracker'] as const;
+export type ASCardTemplateId = typeof AS_CARD_TEMPLATE_IDS[number];
+
+export interface ASCardTemplate {
+    id: ASCardTemplateId;
+    label: string;
+    /** `card` prints the full unit card, `tracker` only its damage and heat tracks. */
+    content: 'card' | 'tracker';
+    /** Size of a card relative to the standard 88 × 63 mm card. */
+    cardScale: number;
+    columnsPerPage: number;
+    rowsPerPage: number;
+    /** Space between neighbouring cards, in millimeters. */
+    gutterMm: number;
+    /** Draws crop marks at each card's corners, in the gutters. */
+    cutMarks: boolean;
+    /** Centers the cards on the page rather than packing them to the left. */
+    centered: boolean;
+    pageSize: 'auto' | 'landscape';
+}
+
+export const AS_CARD_TEMPLATES = {
+    standard: {
+        id: 'standard',
+        label: 'Standard (8 per page)',
+        content: 'card',
+        cardScale: 1,
+        columnsPerPage: 2,
+        rowsPerPage: 4,
+        gutterMm: 0.254,
+        cutMarks: false,
+        centered: false,
+        pageSize: 'auto',
+    },
+    enlarged: {
+        id: 'enlarged',
+        label: 'Enlarged (4 per page)',
+        content: 'card',
+        // Halving the cards per page doubles each card's printed area.
+        cardScale: Math.SQRT2,
+        columnsPerPage: 2,
+        rowsPerPage: 2,
+        gutterMm: 0.254,
+        cutMarks: false,
+        centered: true,
+        pageSize: 'landscape',
+    },
+    poker: {
+        id: 'poker',
+        label: 'Poker size with cut marks (8 per page)',
+        content: 'card',
+        // 3.5 × 2.5 in, the size of a poker card turned sideways.
+        cardScale: 88.9 / AS_CARD_WIDTH_MM,
+        columnsPerPage: 2,
+        rowsPerPage: 4,
+        gutterMm: 2,
+        cutMarks: true,
+        centered: true,
+        pageSize: 'auto',
+    },
+    tracker: {
+        id: 'tracker',
+        label: 'Tracker, damage and heat only (18 per page)',
+        content: 'tracker',
+        cardScale: 1,
+        columnsPerPage: 2,
+        rowsPerPage: 9,
+        gutterMm: 0.254,
+        cutMarks: false,
+        centered: false,
+        pageSize: 'auto',
+    },
+} as const satisfies Record<ASCardTemplateId, ASCardTemplate>;
+
+/** Printed size of one card of a template, in millimeters. */
+export function asCardTemplateSize(template: ASCardTemplate): { width: number; height: number } {
+    const height = template.content === 'tracker' ? AS_TRACKER_HEIGHT_MM : AS_CARD_HEIGHT_MM;
+    return {
+        width: AS_CARD_WIDTH_MM * template.cardScale,
+        height: height * template.cardScale,
+    };
+}
+
+/**
+ * Rows of cards that fit in a page's height after `reservedMm` taken by a
+ * heading, never more than the template's own rows.
+ */
+export function asCardRowsThatFit(template: ASCardTemplate, pageHeightMm: number, reservedMm: number = 0): number {
+    const { height } = asCardTemplateSize(template);
+    const rows = Math.floor((pageHeightMm - reservedMm + template.gutterMm) / (height + template.gutterMm));
+    return Math.max(1, Math.min(template.rowsPerPage, rows));
+}
+
+/**
+ * Where each card of a front page goes on its back page, slot by slot:
+ * the columns of every row are reversed so each back lands behind its
+ * front when the sheet is turned over on its side edge. Empty slots are
+ * null.
+ */
+export function duplexBackSlots(cardCount: number, columns: number): (number | null)[] {
+    const slots: (number | null)[] = [];
+    for (let rowStart = 0; rowStart < cardCount; rowStart += columns) {
+        for (let column = columns - 1; column >= 0; column--) {
+            const index = rowStart + column;
+            slots.push(index < cardCount ? index : null);
+        }
+    }
+    return slots;
+}
+
+/** A pilot or command ability as the back of a card spells it out. */
+export interface ASCardBackAbility {
+    name: string;
+    summary: string[];
+}
+
+export function asCardBackAbilities(selections: readonly AbilitySelection[], useHex: boolean): ASCardBackAbility[] {
+    return selections.map(selection => {
+        if (typeof selection !== 'string') {
+            return { name: `${selection.name} (${selection.cost})`, summary: [selection.summary] };
+        }
+        const pilotAbility = PILOT_ABILITIES.find(ability => ability.id === selection);
+        if (pilotAbility) {
+            return {
+                name: `${pilotAbility.name} (${pilotAbility.cost})`,
+                summary: formatSummaryMovement(getAbilityDetails(pilotAbility, GameSystem.ALPHA_STRIKE).summary, useHex),
+            };
+        }
+        const commandAbility = COMMAND_ABILITIES.find(ability => ability.id === selection);
+        return commandAbility
+            ? { name: commandAbility.name, summary: commandAbility.summary }
+            : { name: selection, summary: [] };
+    });
+}
@@ -381,4 +381,26 @@ describe('ASForceUnit ability effects', () => {
 
         expect(forceUnit.effectiveMovement()).toEqual({ '': 10, j: 8 });
     });
+
+    it('clears only the damage named in a repair order', () => {
+        const forceUnit = createForceUnit();
+        const state = forceUnit.getState();
+        state.armor.set(3);
+        state.pendingArmor.set(1);
+        state.internal.set(2);
+        state.crits.set([{ key: 'engine', timestamp: 1 }, { key: 'weapons', timestamp: 2 }]);
+        state.pendingCrits.set([{ key: 'engine', timestamp: 3 }]);
+        state.consumedAbilities.set({ IF: 1, ART: 2 });
+        state.exhaustedAbilities.set(new Set(['IF']));
+
+        forceUnit.applyRepairs({ armor: ['armor'], critical: ['engine'], ammo: ['IF'] });
+
+        expect(state.armor()).toBe(0);
+        expect(state.pendingArmor()).toBe(0);
+        expect(state.internal()).toBe(2);
+        expect(state.crits()).toEqual([{ key: 'weapons', timestamp: 2 }]);
+        expect(state.pendingCrits()).toEqual([]);
+        expect(state.consumedAbilities()).toEqual({ ART: 2 });
+        expect(state.exhaustedAbilities().has('IF')).toBeFalse();
+    });
 });
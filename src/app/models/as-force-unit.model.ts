@@ -14,6 +14,7 @@ import { Sanitizer } from '../utils/sanitizer.util';
 import { ASForceUnitState } from './as-force-unit-state.model';
 import type { CrewMember } from './crew-member.model';
 import type { ASCustomPilotAbility } from './pilot-abilities.model';
+import type { RepairOrder } from './repair.model';
 import { adjustPointValueForSkill } from '../utils/pv-skill-adjustment.util';
 import type { SpecialAbilityState } from './as-special-ability-state.model';
 import type { ASAbilityCriticalHitRollResolution, ASAbilityEffectContext, ASAbilityEffectMode, ASAbilityEffectRef, ASAbilityRollModifierComment, ASMovementDisplayValue } from './as-ability-effects.model';
@@ -46,11 +47,14 @@ export class ASForceUnit extends ForceUnit {
     private readonly _pilotName = signal<string | undefined>(undefined);
     private readonly _pilotSkill = signal<number>(4);
     private readonly _pilotAbilities = signal<AbilitySelection[]>([]);
+    private readonly _pilotId = signal<string | undefined>(undefined);
     private readonly _formationAbilities = signal<string[]>([]);
 
     readonly alias = this._pilotName.asReadonly();
     readonly pilotSkill = this._pilotSkill.asReadonly();
     readonly manualPilotAbilities = this._pilotAbilities.asReadonly();
+    /** Pilot record the unit's pilot is played from, if any. */
+    readonly pilotId = this._pilotId.asReadonly();
     readonly formationAbilities = this._formationAbilities.asReadonly();
     /**
      * Formation choices remain serialized as the setup snapshot, but a Support
@@ -437,6 +441,37 @@ export class ASForceUnit extends ForceUnit {
         this.setModified();
     }
 
+    /**
+     * Repairs only the chosen parts of the unit: armor, structure, critical
+     * hits by key and consumed or exhausted abilities by ability text.
+     */
+    applyRepairs(order: RepairOrder): void {
+        if (order.armor?.length) {
+            this.state.armor.set(0);
+            this.state.pendingArmor.set(0);
+        }
+        if (order.structure?.length) {
+            this.state.internal.set(0);
+            this.state.pendingInternal.set(0);
+        }
+        const critKeys = new Set(order.critical ?? []);
+        if (critKeys.size > 0) {
+            this.state.crits.set(this.state.crits().filter(crit => !critKeys.has(crit.key)));
+            this.state.pendingCrits.set(this.state.pendingCrits().filter(crit => !critKeys.has(crit.key)));
+        }
+        const abilities = new Set(order.ammo ?? []);
+        if (abilities.size > 0) {
+            const withoutAbilities = (record: Record<string, number>) => Object.fromEntries(
+                Object.entries(record).filter(([key]) => !abilities.has(key)));
+            this.state.consumedAbilities.set(withoutAbilities(this.state.consumedAbilities()));
+            this.state.pendingConsumed.set(withoutAbilities(this.state.pendingConsumed()));
+            this.state.exhaustedAbilities.set(new Set([...this.state.exhaustedAbilities()].filter(key => !abilities.has(key))));
+            this.state.pendingExhausted.set(new Set([...this.state.pendingExhausted()].filter(key => !abilities.has(key))));
+        }
+        this.state.destroyed.set(this.isDestroyed());
+        this.setModified();
+    }
+
     /**
      * Set pending critical hits by delta.
      * Positive delta = add damage, negative delta = heal.
@@ -486,6 +521,12 @@ export class ASForceUnit extends ForceUnit {
         this.setModified();
     }
 
+    setPilotId(pilotId: string | undefined): void {
+        if (pilotId === this._pilotId()) return;
+        this._pilotId.set(pilotId);
+        this.setModified();
+    }
+
     setFormationAbilities(abilities: string[], markModified: boolean = true): void {
         const normalizedAbilities = [...new Set(abilities.filter((abilityId) => typeof abilityId === 'string' && abilityId.length > 0))];
         const currentAbilities = this._formationAbilities();
@@ -526,6 +567,7 @@ export class ASForceUnit extends ForceUnit {
         }
         this._formationAbilities.set(data.formationAbilities ?? []);
         this._formationCommander.set(data.commander ?? false);
+        this._pilotId.set(data.pilotId || undefined);
         // Update state (includes pending)
         if (data.state) {
             this.state.update(data.state);
@@ -577,6 +619,7 @@ export class ASForceUnit extends ForceUnit {
             abilities: this._pilotAbilities(),
             formationAbilities: this._formationAbilities().length > 0 ? this._formationAbilities() : undefined,
             commander: this._formationCommander() || undefined,
+            pilotId: this._pilotId(),
         };
         return data;
     }
@@ -653,6 +696,7 @@ export class ASForceUnit extends ForceUnit {
         }
         fu._formationAbilities.set(sanitizedData.formationAbilities ?? []);
         fu._formationCommander.set(sanitizedData.commander ?? false);
+        fu._pilotId.set(sanitizedData.pilotId || undefined);
         if (sanitizedData.updatedTs !== undefined) {
             fu.updatedTs = sanitizedData.updatedTs;
         }
@@ -0,0 +1,110 @@
+// Copyright (C) 2026 The MegaMek Team
+// SPDX-License-Identifier: GPL-3.0-or-later
+// Author: Drake
+
+import {
+    campaignSalvageId,
+    createCampaign,
+    nextCampaignOperation,
+    recordCampaignGame,
+    summarizeCampaign,
+    type CampaignGameReport,
+    type CampaignGameUnit,
+    type SerializedCampaign,
+} from './campaign.model';
+import { GameSystem } from './common.model';
+
+describe('campaign model', () => {
+    function gameUnit(id: string, destroyed = false, kills = 0, experience = 0): CampaignGameUnit {
+        return {
+            gameSystem: GameSystem.CLASSIC,
+            forceInstanceId: 'force-1',
+            data: {
+                id,
+                unit: `Unit ${id}`,
+                state: {
+                    modified: false,
+                    destroyed,
+                    crew: [{ id: 0, name: 'Pilot', gunnerySkill: 4, pilotingSkill: 5, hits: 0, state: 0, kills, experience }],
+                } as any,
+            },
+        };
+    }
+
+    function report(operationId: string, overrides: Partial<CampaignGameReport> = {}): CampaignGameReport {
+        return {
+            operationId,
+            name: `Op ${operationId}`,
+            outcome: 'victory',
+            completedAt: 1000,
+            units: [],
+            salvage: [],
+            ...overrides,
+        };
+    }
+
+    function campaignWithOperations(...operationIds: string[]): SerializedCampaign {
+        const campaign = createCampaign('c1', 'Test');
+        campaign.operations = operationIds.map(operationId => ({ operationId, name: `Op ${operationId}` }));
+        return campaign;
+    }
+
+    it('marks the recorded operation completed and moves on to the next one', () => {
+        const campaign = campaignWithOperations('op1', 'op2');
+        expect(nextCampaignOperation(campaign)?.operationId).toBe('op1');
+
+        const updated = recordCampaignGame(campaign, report('op1', { outcome: 'draw' }));
+        expect(updated.operations[0]).toEqual({ operationId: 'op1', name: 'Op op1', completedAt: 1000, outcome: 'draw' });
+        expect(nextCampaignOperation(updated)?.operationId).toBe('op2');
+        expect(campaign.operations[0].completedAt).toBeUndefined();
+    });
+
+    it('appends operations that were not part of the campaign yet', () => {
+        const updated = recordCampaignGame(campaignWithOperations('op1'), report('op9'));
+        expect(updated.operations.map(op => op.operationId)).toEqual(['op1', 'op9']);
+    });
+
+    it('carries unit state forward and counts each game once', () => {
+        let campaign = recordCampaignGame(campaignWithOperations('op1', 'op2'), report('op1', { units: [gameUnit('a')] }));
+        campaign = recordCampaignGame(campaign, report('op2', { units: [gameUnit('a', false, 1, 2)] }));
+        campaign = recordCampaignGame(campaign, report('op2', { units: [gameUnit('a', true, 1, 2)] }));
+
+        expect(campaign.roster.length).toBe(1);
+        expect(campaign.roster[0].gamesPlayed).toBe(2);
+        expect(campaign.roster[0].lastOperationId).toBe('op2');
+        expect(campaign.roster[0].data.state.destroyed).toBeTrue();
+    });
+
+    it('adds salvage to the roster without duplicating it', () => {
+        const salvage = { ...gameUnit('enemy-1', true), forceInstanceId: undefined };
+        let campaign = recordCampaignGame(campaignWithOperations('op1'), report('op1', { salvage: [salvage] }));
+        campaign = recordCampaignGame(campaign, report('op1', { salvage: [salvage] }));
+
+        expect(campaign.roster.length).toBe(1);
+        expect(campaign.roster[0].id).toBe(campaignSalvageId('op1', 'enemy-1'));
+        expect(campaign.roster[0].origin).toBe('salvage');
+        expect(campaign.roster[0].gamesPlayed).toBe(0);
+    });
+
+    it('summarizes results, units and crew records', () => {
+        let campaign = campaignWithOperations('op1', 'op2', 'op3');
+        campaign = recordCampaignGame(campaign, report('op1', {
+            units: [gameUnit('a', false, 2, 3), gameUnit('b', true, 1, 1)],
+            salvage: [gameUnit('enemy-1', true)],
+        }));
+        campaign = recordCampaignGame(campaign, report('op2', { outcome: 'defeat' }));
+
+        expect(summarizeCampaign(campaign)).toEqual({
+            operations: 3,
+            completed: 2,
+            victories: 1,
+            defeats: 1,
+            draws: 0,
+            activeUnits: 1,
+            destroyedUnits: 2,
+            salvagedUnits: 1,
+            kills: 3,
+            experience: 4,
+        });
+    });
+});
@@ -0,0 +1,239 @@
+// Copyright (C) 2026 The MegaMek Team
+// SPDX-License-Identifier: GPL-3.0-or-later
+// Author: Drake
+
+import type { GameSystem } from './common.model';
+import type { CBTSerializedState, SerializedCrewMember, SerializedUnit } from './force-serialization';
+
+/*
+ * Description: Models for Campaigns: an ordered series of saved operations
+ *              whose unit damage, crew experience and salvage carry over
+ *              from one game to the next.
+ */
+
+export type CampaignOutcome = 'victory' | 'defeat' | 'draw';
+
+/** `force` units came from a friendly force; `salvage` units were recovered from the enemy. */
+export type CampaignUnitOrigin = 'force' | 'salvage';
+
+/** An operation played (or still to be played) as part of a campaign. */
+export interface CampaignOperationRef {
+    operationId: string;
+    /** Operation name when it was added, shown if the operation is no longer available */
+    name: string;
+    /** When the game was recorded; absent while the operation is still to be played */
+    completedAt?: number;
+    outcome?: CampaignOutcome;
+}
+
+/** A unit on the campaign roster with the state it ended its last game in. */
+export interface CampaignRosterUnit {
+    /** ForceUnit id for force units, a generated id for salvage */
+    id: string;
+    gameSystem: GameSystem;
+    origin: CampaignUnitOrigin;
+    /** Force the unit serves in; salvage has none until it is assigned to a force */
+    forceInstanceId?: string;
+    /** The unit as it stood at the end of its last game, damage and crew included */
+    data: SerializedUnit;
+    gamesPlayed: number;
+    /** Operation the unit last fought (or was salvaged) in */
+    lastOperationId: string;
+}
+
+/** Serialized campaign stored locally and on the server. */
+export interface SerializedCampaign {
+    /** Unique campaign ID */
+    campaignId: string;
+    /** User-given name */
+    name: string;
+    /** Optional note / description */
+    note?: string;
+    /** Timestamp when the campaign was last saved */
+    timestamp: number;
+    /** Operations in the order they are played */
+    operations: CampaignOperationRef[];
+    roster: CampaignRosterUnit[];
+}
+
+/**
+ * Campaign returned when loading a campaign for display.
+ * `owned` is transient client metadata and must not be sent back on save.
+ */
+export interface LoadedCampaign extends SerializedCampaign {
+    owned?: boolean;
+}
+
+/**
+ * Enriched campaign entry used for display in the campaign list.
+ */
+export class LoadCampaignEntry {
+    campaignId: string;
+    name: string;
+    note?: string;
+    timestamp: number;
+    operationCount: number;
+    completedCount: number;
+    rosterCount: number;
+    cloud: boolean;
+    local: boolean;
+    owned: boolean;
+
+    constructor(data: Partial<LoadCampaignEntry>) {
+        this.campaignId = data.campaignId ?? '';
+        this.name = data.name ?? '';
+        this.note = data.note ?? '';
+        this.timestamp = data.timestamp ?? 0;
+        this.operationCount = data.operationCount ?? 0;
+        this.completedCount = data.completedCount ?? 0;
+        this.rosterCount = data.rosterCount ?? 0;
+        this.cloud = data.cloud ?? false;
+        this.local = data.local ?? false;
+        this.owned = data.owned ?? true;
+    }
+}
+
+/** A unit as it finished a game. */
+export interface CampaignGameUnit {
+    gameSystem: GameSystem;
+    forceInstanceId?: string;
+    data: SerializedUnit;
+}
+
+/** Everything recorded about one finished game of a campaign. */
+export interface CampaignGameReport {
+    operationId: string;
+    name: string;
+    outcome: CampaignOutcome;
+    completedAt: number;
+    /** Friendly units as they finished the game */
+    units: CampaignGameUnit[];
+    /** Destroyed opposing units recovered after the game */
+    salvage: CampaignGameUnit[];
+}
+
+/** Totals shown on the campaign summary page. */
+export interface CampaignSummary {
+    operations: number;
+    completed: number;
+    victories: number;
+    defeats: number;
+    draws: number;
+    activeUnits: number;
+    destroyedUnits: number;
+    salvagedUnits: number;
+    kills: number;
+    experience: number;
+}
+
+export function createCampaign(campaignId: string, name: string, note?: string): SerializedCampaign {
+    return {
+        campaignId,
+        name,
+        ...(note ? { note } : {}),
+        timestamp: Date.now(),
+        operations: [],
+        roster: [],
+    };
+}
+
+/** Roster id of a unit salvaged in an operation; stable so re-recording a game does not duplicate it. */
+export function campaignSalvageId(operationId: string, unitId: string): string {
+    return `salvage:${operationId}:${unitId}`;
+}
+
+/** The first operation of the campaign that has not been played yet. */
+export function nextCampaignOperation(campaign: SerializedCampaign): CampaignOperationRef | null {
+    return campaign.operations.find(op => op.completedAt === undefined) ?? null;
+}
+
+export function campaignUnitName(record: CampaignRosterUnit): string {
+    const { chassis, model, unit } = record.data;
+    return `${chassis ?? ''} ${model ?? ''}`.trim() || unit;
+}
+
+/** Crew of a roster unit; Alpha Strike units carry none. */
+export function campaignUnitCrew(record: CampaignRosterUnit): SerializedCrewMember[] {
+    const crew = (record.data.state as Partial<CBTSerializedState>).crew;
+    return Array.isArray(crew) ? crew : [];
+}
+
+export function isCampaignUnitDestroyed(record: CampaignRosterUnit): boolean {
+    return !!record.data.state.destroyed;
+}
+
+/**
+ * Returns the campaign with a finished game applied: the operation is marked
+ * completed (and appended if it was not part of the campaign yet), each
+ * friendly unit's roster entry takes its end-of-game state and salvage is
+ * added to the roster. Recording the same operation again replaces its result
+ * without counting the game twice.
+ */
+export function recordCampaignGame(campaign: SerializedCampaign, report: CampaignGameReport): SerializedCampaign {
+    const completed: CampaignOperationRef = {
+        operationId: report.operationId,
+        name: report.name,
+        completedAt: report.completedAt,
+        outcome: report.outcome,
+    };
+    const operations = campaign.operations.some(op => op.operationId === report.operationId)
+        ? campaign.operations.map(op => op.operationId === report.operationId ? completed : op)
+        : [...campaign.operations, completed];
+
+    const roster = campaign.roster.map(record => ({ ...record }));
+    const upsert = (id: string, origin: CampaignUnitOrigin, unit: CampaignGameUnit) => {
+        const existing = roster.find(record => record.id === id);
+        if (existing) {
+            if (existing.lastOperationId !== report.operationId) existing.gamesPlayed++;
+            existing.data = unit.data;
+            existing.lastOperationId = report.operationId;
+            if (origin === 'force') existing.forceInstanceId = unit.forceInstanceId;
+            return;
+        }
+        roster.push({
+            id,
+            gameSystem: unit.gameSystem,
+            origin,
+            ...(origin === 'force' && unit.forceInstanceId ? { forceInstanceId: unit.forceInstanceId } : {}),
+            data: unit.data,
+            gamesPlayed: origin === 'force' ? 1 : 0,
+            lastOperationId: report.operationId,
+        });
+    };
+    for (const unit of report.units) upsert(unit.data.id, 'force', unit);
+    for (const unit of report.salvage) upsert(campaignSalvageId(report.operationId, unit.data.id), 'salvage', unit);
+
+    return { ...campaign, operations, roster };
+}
+
+export function summarizeCampaign(campaign: SerializedCampaign): CampaignSummary {
+    const summary: CampaignSummary = {
+        operations: campaign.operations.length,
+        completed: 0,
+        victories: 0,
+        defeats: 0,
+        draws: 0,
+        activeUnits: 0,
+        destroyedUnits: 0,
+        salvagedUnits: 0,
+        kills: 0,
+        experience: 0,
+    };
+    for (const op of campaign.operations) {
+        if (op.completedAt === undefined) continue;
+        summary.completed++;
+        if (op.outcome === 'victory') summary.victories++;
+        else if (op.outcome === 'defeat') summary.defeats++;
+        else if (op.outcome === 'draw') summary.draws++;
+    }
+    for (const record of campaign.roster) {
+        if (record.origin === 'salvage') summary.salvagedUnits++;
+        if (isCampaignUnitDestroyed(record)) summary.destroyedUnits++;
+        else summary.activeUnits++;
+        for (const crew of campaignUnitCrew(record)) {
+            summary.kills += crew.kills ?? 0;
+            summary.experience += crew.experience ?? 0;
+        }
+    }
+    return summary;
+}
@@ -5338,4 +5338,66 @@ describe('CBTForceUnit direct inventory ammo bins', () => {
         expect(forceUnit.getInventoryControlSnapshot().entryStates.has(weaponEntry.id)).toBeFalse();
         expect(forceUnit.isInventoryControlEntrySelected(weaponEntry.id)).toBeFalse();
     });
+
+    it('clears only the damage named in a repair order', () => {
+        const forceUnit = createForceUnit();
+        forceUnit.locations = {
+            armor: new Map([
+                ['LA', { loc: 'LA', rear: false, points: 8 }],
+                ['LT', { loc: 'LT', rear: false, points: 10 }],
+                ['LT-rear', { loc: 'LT', rear: true, points: 4 }],
+            ]),
+            internal: new Map([
+                ['LA', { loc: 'LA', points: 5 }],
+                ['LT', { loc: 'LT', points: 8 }],
+            ]),
+        };
+        const laserSlot: CriticalSlot = {
+            id: 'laser@LT',
+            name: 'Variable Damage Laser',
+            loc: 'LT',
+            slot: 0,
+            eq: equipment['VariableDamageLaser'],
+            destroyed: 1,
+        };
+        const engineSlots: CriticalSlot[] = [1, 2].map(slot => ({ id: `engine@LT#${slot}`, name: 'Engine', loc: 'LT', slot, hits: 1 }));
+        forceUnit.writeCrits([laserSlot, ...engineSlots]);
+        const laser = new MountedWeapon({
+            owner: forceUnit,
+            id: 'laser@LT',
+            name: 'Variable Damage Laser',
+            equipment: equipment['VariableDamageLaser'] as WeaponEquipment,
+            critSlots: [laserSlot],
+            locations: new Set(['LT']),
+            destroyed: true,
+        });
+        forceUnit.setInventory([laser], true);
+        forceUnit.addArmorHits('LA', 3, false, true);
+        forceUnit.addArmorHits('LT', 4, false, true);
+        forceUnit.addArmorHits('LT', 2, true, true);
+        forceUnit.addInternalHits('LA', 5, true);
+        forceUnit.setLocationCondition('LA', 'blown-off', true, true);
+        forceUnit.getCrewMember(0).setHits(2);
+
+        forceUnit.applyRepairs({
+            armor: ['LT', 'LT-rear'],
+            structure: ['LA'],
+            equipment: [laser.id],
+            critical: ['engine@LT#1'],
+            crew: ['0'],
+        });
+
+        expect(forceUnit.getArmorHits('LT')).toBe(0);
+        expect(forceUnit.getArmorHits('LT', true)).toBe(0);
+        expect(forceUnit.getArmorHits('LA')).toBe(3);
+        expect(forceUnit.getInternalHits('LA')).toBe(0);
+        expect(forceUnit.getLocationCondition('LA', 'blown-off')).toBeFalse();
+        expect(laser.committedDestroyed()).toBeFalse();
+        expect(forceUnit.getCritSlots().find(slot => slot.id === 'laser@LT')?.destroyed).toBeUndefined();
+        expect(forceUnit.getCritSlots().find(slot => slot.id === 'engine@LT#1')?.hits).toBe(0);
+        expect(forceUnit.getCritSlots().find(slot => slot.id === 'engine@LT#2')?.hits).toBe(1);
+        expect(forceUnit.getCrewMember(0).getHits()).toBe(0);
+        expect(forceUnit.getCrewMember(0).getState()).toBe('healthy');
+        expect(forceUnit.modified).toBeTrue();
+    });
 });
@@ -58,6 +58,7 @@ import {
 } from './equipment-status.model';
 import { ENTRY_DISABLED_STATE_KEY, ENTRY_DISABLED_STATE_VALUE } from './rules/unit-type-rules';
 import type { HeatDissipationState } from './rules/heat-management';
+import type { RepairOrder } from './repair.model';
 
 export type EquipmentStatusSource = MountedEquipment | CriticalSlot;
 export type EquipmentAction =
@@ -69,6 +70,9 @@ export type EquipmentAction =
     | 'configure-network';
 export type EquipmentStateEdit = 'enable' | 'disable' | 'repair' | 'apply-damage';
 
+/** Location conditions that count as the location being destroyed; repairing its structure clears them. */
+const LOCATION_DESTROYING_CONDITIONS = new Set(['flooded', 'blown-off']);
+
 export class CBTForceUnit extends ForceUnit {
     override get force(): CBTForce { return super.force as CBTForce; }
     override set force(value: CBTForce) { super.force = value; }
@@ -113,6 +117,10 @@ export class CBTForceUnit extends ForceUnit {
         injector: Injector
     ) {
         super(unit, force, dataService, unitInitializer, injector);
+        const unsupportedReason = CBTForceUnit.getUnsupportedUnitReason(unit);
+        if (unsupportedReason) {
+            throw new Error(unsupportedReason);
+        }
         this.state = new CBTForceUnitState(this);
         this.viewState = {
             scale: 0,
@@ -1569,6 +1577,80 @@ export class CBTForceUnit extends ForceUnit {
         this.setModified();
     }
 
+    /**
+     * Repairs only the chosen parts of the unit, as itemized by the repair screen.
+     * Replaced equipment comes back with full ammo; everything not in the order is left as is.
+     */
+    public applyRepairs(order: RepairOrder) {
+        const crewIds = new Set(order.crew ?? []);
+        if (crewIds.size > 0) {
+            const crew = this.state.crew().map(crewMember => {
+                if (!crewIds.has(String(crewMember.getId()))) return crewMember;
+                if (crewMember.getHits() > 0) {
+                    crewMember.setHits(0);
+                }
+                crewMember.setState('healthy');
+                return crewMember;
+            });
+            this.state.crew.set(crew);
+        }
+        const equipmentIds = new Set(order.equipment ?? []);
+        const ammoIds = new Set(order.ammo ?? []);
+        const critIds = new Set(order.critical ?? []);
+        for (const item of this.state.inventory()) {
+            if (!equipmentIds.has(item.id)) continue;
+            item.critSlots?.forEach(crit => critIds.add(crit.id));
+        }
+        const crits = this.state.crits().map(crit => {
+            if (critIds.has(crit.id)) {
+                crit.destroyed = undefined;
+                crit.destroyedTurn = undefined;
+                crit.destroying = undefined;
+                crit.hits = 0;
+                crit.pendingHits = undefined;
+                crit.hitTimestamps = undefined;
+                crit.pendingHitTimestamps = undefined;
+            }
+            if ((critIds.has(crit.id) || ammoIds.has(crit.id)) && crit.consumed) {
+                crit.consumed = 0;
+            }
+            return crit;
+        });
+        this.state.crits.set([...crits]);
+        const armorKeys = order.armor ?? [];
+        const internalKeys = order.structure ?? [];
+        if (armorKeys.length > 0 || internalKeys.length > 0) {
+            const locations = { ...this.state.locations() };
+            for (const locKey of armorKeys) {
+                locations[locKey] = { ...locations[locKey], armor: undefined, pendingArmor: undefined };
+            }
+            for (const loc of internalKeys) {
+                const conditions = locations[loc]?.conditions?.filter(condition =>
+                    !LOCATION_DESTROYING_CONDITIONS.has(typeof condition === 'string' ? condition : condition.key));
+                locations[loc] = {
+                    ...locations[loc],
+                    internal: undefined,
+                    pendingInternal: undefined,
+                    conditions: conditions?.length ? conditions : undefined,
+                };
+            }
+            this.state.locations.set(locations);
+        }
+        const inventory = this.state.inventory().map(item => {
+            if (equipmentIds.has(item.id) && item.committedDestroyed()) {
+                item.setCommittedDestroyed(false);
+            }
+            if ((equipmentIds.has(item.id) || ammoIds.has(item.id)) && item.consumed) {
+                item.setAmmoState({ consumed: 0 });
+            }
+            return item;
+        });
+        this.state.inventory.set([...inventory]);
+        this.inventoryControl.markAmmoSourcesChanged();
+        this.evaluateDestroyed();
+        this.setModified();
+    }
+
     /**
      * Evaluates whether the unit should be marked destroyed. Delegates to unit-type rules.
      */
@@ -1749,6 +1831,16 @@ export class CBTForceUnit extends ForceUnit {
         this.state.turnState().update(turnState);
     }
 
+    /**
+     * Why the unit can't be played in a Classic BattleTech force, or null if it can.
+     * Record sheets come from the data server, which has none for imported units.
+     */
+    public static getUnsupportedUnitReason(unit: UnitSummary): string | null {
+        if (!unit.imported || unit.sheets.length > 0) return null;
+        const name = `${unit.chassis} ${unit.model}`.trim();
+        return `${name} is an imported unit without a record sheet, so it can't be added to a Classic BattleTech force. Use it in an Alpha Strike force instead.`;
+    }
+
     /** Deserialize a plain object to a CBTForceUnit instance */
     public static override deserialize(
         data: CBTSerializedUnit,
@@ -11,6 +11,7 @@ import { GameSystem } from './common.model';
 import { CBTForceUnit } from './cbt-force-unit.model';
 import { CBTForce } from './cbt-force.model';
 import type { CBTSerializedForce, CBTSerializedUnit } from './force-serialization';
+import type { UnitSummary } from './unit-summary.model';
 
 describe('CBTForce pilot transfer', () => {
     function createCrew(
@@ -179,4 +180,67 @@ describe('CBTForce deserialization failures', () => {
             'Unit Load Error',
         );
     });
-});
\ No newline at end of file
+});
+describe('CBTForce imported units', () => {
+    const importedUnit = {
+        name: 'Imported Custom',
+        chassis: 'Custom',
+        model: 'CST-1',
+        sheets: [],
+        imported: true,
+    } as unknown as UnitSummary;
+    const expectedError = "Custom CST-1 is an imported unit without a record sheet, so it can't be added to a Classic BattleTech force. "
+        + 'Use it in an Alpha Strike force instead.';
+    let dialogs: jasmine.SpyObj<DialogsService>;
+    let dataService: DataService;
+    let injector: Injector;
+
+    beforeEach(() => {
+        dialogs = jasmine.createSpyObj<DialogsService>('DialogsService', ['showError']);
+        dialogs.showError.and.resolveTo();
+        const logger = jasmine.createSpyObj<LoggerService>('LoggerService', ['error']);
+        dataService = {
+            getUnitByName: (name: string) => name === importedUnit.name ? importedUnit : undefined,
+            getFactionById: () => null,
+            getEraById: () => null,
+        } as unknown as DataService;
+        injector = {
+            get: (token: unknown) => {
+                if (token === DialogsService) return dialogs;
+                if (token === LoggerService) return logger;
+                throw new Error(`Unexpected injector token: ${String(token)}`);
+            },
+        } as Injector;
+    });
+
+    it('refuses to add an imported unit without a record sheet', () => {
+        const force = new CBTForce('Imported force', dataService, {} as UnitInitializerService, injector);
+
+        expect(() => force.addUnit(importedUnit)).toThrowError(expectedError);
+        expect(force.units()).toEqual([]);
+    });
+
+    it('reports and skips an imported unit saved in a Classic BattleTech force', () => {
+        const force = CBTForce.deserialize({
+            version: 1,
+            timestamp: new Date().toISOString(),
+            instanceId: 'force-id',
+            type: GameSystem.CLASSIC,
+            name: 'Imported force',
+            groups: [{
+                id: 'group-id',
+                units: [{
+                    id: 'unit-id',
+                    unit: importedUnit.name,
+                    state: { modified: false, destroyed: false, crew: [], crits: [], locations: {}, heat: { current: 0, previous: 0 } },
+                }],
+            }],
+        }, dataService, {} as UnitInitializerService, injector);
+
+        expect(force.units()).toEqual([]);
+        expect(dialogs.showError).toHaveBeenCalledOnceWith(
+            `Unable to load unit "${importedUnit.name}". The unit was skipped.\n\n${expectedError}`,
+            'Unit Load Error',
+        );
+    });
+});
@@ -37,6 +37,22 @@ describe('CrewMember serialization', () => {
         expect(serialized.asfGunnerySkill).toBe(2);
         expect(serialized.asfPilotingSkill).toBe(3);
     });
+
+    it('keeps campaign kills and experience only once earned', () => {
+        const crew = createCrew('BattleMek');
+        expect(crew.serialize().kills).toBeUndefined();
+        expect(crew.serialize().experience).toBeUndefined();
+
+        crew.setKills(2);
+        crew.setExperience(5.7);
+        const serialized = crew.serialize();
+        expect(serialized.kills).toBe(2);
+        expect(serialized.experience).toBe(5);
+
+        crew.update({ ...serialized, kills: undefined, experience: -3 });
+        expect(crew.getKills()).toBe(0);
+        expect(crew.getExperience()).toBe(0);
+    });
 });
 
 describe('consciousness table', () => {
@@ -17,6 +17,11 @@ function normalizeCrewHits(hits: number): number {
     return Math.min(DEAD_CREW_HIT_THRESHOLD, Math.max(0, Math.trunc(hits)));
 }
 
+function normalizeCrewCount(value: number | undefined): number {
+    if (value === undefined || !Number.isFinite(value)) return 0;
+    return Math.max(0, Math.trunc(value));
+}
+
 export function getConsciousnessTarget(hits: number): number | null {
     return CONSCIOUSNESS_SCALE[Math.trunc(hits) - 1] ?? null;
 }
@@ -37,6 +42,8 @@ export interface CrewMemberDetails {
     piloting: number;
     asfGunnery?: number;
     asfPiloting?: number;
+    /** Pilot record the crew member is played from. */
+    pilotId?: string;
 }
 
 export class CrewMember {
@@ -49,6 +56,11 @@ export class CrewMember {
     private asfPilotingSkill?: number; // Optional ASF piloting skill for ASF units
     private hits: number;
     private state: StoredCrewMemberState = 'healthy';
+    /** Campaign bookkeeping, carried from game to game with the unit. */
+    private kills = 0;
+    private experience = 0;
+    /** Pilot record this crew member is played from, if any. */
+    private pilotId?: string;
 
     constructor(id: number, unit: CBTForceUnit) {
         this.unit = unit;
@@ -153,6 +165,41 @@ export class CrewMember {
         this.unit.setModified();
     }
 
+    getKills(): number {
+        return this.kills;
+    }
+
+    setKills(kills: number) {
+        const normalized = normalizeCrewCount(kills);
+        if (normalized === this.kills) return;
+        this.kills = normalized;
+        this.unit.setCrewMember(this.id, this);
+        this.unit.setModified();
+    }
+
+    getExperience(): number {
+        return this.experience;
+    }
+
+    setExperience(experience: number) {
+        const normalized = normalizeCrewCount(experience);
+        if (normalized === this.experience) return;
+        this.experience = normalized;
+        this.unit.setCrewMember(this.id, this);
+        this.unit.setModified();
+    }
+
+    getPilotId(): string | undefined {
+        return this.pilotId;
+    }
+
+    setPilotId(pilotId: string | undefined) {
+        if (pilotId === this.pilotId) return;
+        this.pilotId = pilotId;
+        this.unit.setCrewMember(this.id, this);
+        this.unit.setModified();
+    }
+
     /** Serialize this CrewMember instance to a plain object */
     public serialize(): SerializedCrewMember {
         const isLandAirMek = this.unit.getUnit().subtype === 'Land-Air BattleMek';
@@ -166,7 +213,10 @@ export class CrewMember {
                 asfPilotingSkill: this.getSkill('piloting', true),
             } : {}),
             hits: this.getHits(),
-            state: this.serializeState()
+            state: this.serializeState(),
+            ...(this.kills ? { kills: this.kills } : {}),
+            ...(this.experience ? { experience: this.experience } : {}),
+            ...(this.pilotId ? { pilotId: this.pilotId } : {}),
         };
     }
 
@@ -183,6 +233,9 @@ export class CrewMember {
             crew.setSkill('piloting', data.asfPilotingSkill, true);
         crew.setHits(data.hits);
         crew.setState(CrewMember.deserializeStoredState(data.state, unit));
+        crew.kills = normalizeCrewCount(data.kills);
+        crew.experience = normalizeCrewCount(data.experience);
+        crew.pilotId = data.pilotId || undefined;
         return crew;
     }
 
@@ -194,6 +247,9 @@ export class CrewMember {
         if (data.asfPilotingSkill !== this.asfPilotingSkill) this.asfPilotingSkill = data.asfPilotingSkill;
         const hits = normalizeCrewHits(data.hits);
         if (hits !== this.hits) this.hits = hits;
+        this.kills = normalizeCrewCount(data.kills);
+        this.experience = normalizeCrewCount(data.experience);
+        this.pilotId = data.pilotId || undefined;
 
         const newState = CrewMember.deserializeStoredState(data.state, this.unit);
         if (newState !== this.state) this.state = newState;
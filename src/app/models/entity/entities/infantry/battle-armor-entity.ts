@@ -19,6 +19,15 @@ import {
 import { InfantryBaseEntity } from './infantry-base-entity';
 import { EquipmentRegistry } from '../../../equipment-lookup';
 
+/** Maximum armor points per trooper by BA weight class. */
+const MAX_ARMOR_PER_TROOPER: Partial<Record<WeightClass, number>> = {
+  'Ultra Light': 2,
+  'Light': 6,
+  'Medium': 10,
+  'Heavy': 14,
+  'Assault': 18,
+};
+
 // ============================================================================
 // BattleArmorEntity - powered-armor squads (Elemental, etc.)
 // ============================================================================
@@ -183,14 +192,7 @@ export class BattleArmorEntity extends InfantryBaseEntity {
   }
 
   protected override computeMaximumArmorPoints(): number {
-    const maxPerTrooper: Partial<Record<WeightClass, number>> = {
-      'Ultra Light': 2,
-      'Light': 6,
-      'Medium': 10,
-      'Heavy': 14,
-      'Assault': 18,
-    };
-    return (maxPerTrooper[this.weightClass()] ?? 0) * this.trooperCount();
+    return (MAX_ARMOR_PER_TROOPER[this.weightClass()] ?? 0) * this.trooperCount();
   }
 
   override totalArmorPoints = computed(() => {
@@ -198,6 +200,8 @@ export class BattleArmorEntity extends InfantryBaseEntity {
     return (armorPerTrooper?.front ?? 0) * this.trooperCount();
   });
 
+  override totalMaxArmor = computed(() => this.maximumArmorPoints());
+
   // ═══════════════════════════════════════════════════════════════════════════
   //  LOCATION OVERRIDES
   // ═══════════════════════════════════════════════════════════════════════════
@@ -234,12 +238,9 @@ export class BattleArmorEntity extends InfantryBaseEntity {
   protected override computeMaxArmor(
     _structureValues: Map<string, number>,
   ): Map<string, number> {
-    // BA armor points depend on weight class
-    const maxPerTrooper: Partial<Record<WeightClass, number>> = {
-      'Ultra Light': 2, 'Light': 5, 'Medium': 8, 'Heavy': 10, 'Assault': 14,
-    };
-    const mx = maxPerTrooper[this.weightClass()] ?? 8;
-    const maxArmor = new Map<string, number>();
+    // BA armor points depend on weight class; 'Squad' holds the per-trooper value
+    const mx = MAX_ARMOR_PER_TROOPER[this.weightClass()] ?? 0;
+    const maxArmor = new Map<string, number>([['Squad', mx]]);
     for (let i = 1; i <= this.trooperCount(); i++) {
       maxArmor.set(`Trooper ${i}`, mx);
     }
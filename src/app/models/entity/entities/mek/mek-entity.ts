@@ -989,6 +989,16 @@ export abstract class MekEntity extends BaseEntity {
     }
   }
 
+  /** Usable critical slots in a location: six in the head and legs, twelve elsewhere. */
+  getLocationCriticalSlotCount(location: string): number {
+    return location === 'HD' || this.locationIsLeg(location) ? 6 : 12;
+  }
+
+  /** Whether a slot is reserved by the system template, regardless of equipment placed on it. */
+  isSystemSlot(location: string, slotIndex: number): boolean {
+    return this.getSystemSlotsForLocation(location)[slotIndex]?.type === 'system';
+  }
+
   private equipmentCriticalSlot(
     mount: EntityMountedEquipment,
   ): Extract<CriticalSlotView, { type: 'equipment' }> {
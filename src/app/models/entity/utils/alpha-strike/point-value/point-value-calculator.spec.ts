@@ -4,6 +4,7 @@
 
 import type { AlphaStrikeArcStats, AlphaStrikeUnitStats } from '../../../../unit-summary.model';
 import { adjustPointValueForSkill } from '../../../../../utils/pv-skill-adjustment.util';
+import { CalculationReportBuilder, type CalculationReportLine } from '../report/calculation-report';
 import { calculateAlphaStrikePointValue } from './point-value-calculator';
 
 describe('Alpha Strike point value', () => {
@@ -16,6 +17,21 @@ describe('Alpha Strike point value', () => {
     expect(calculateAlphaStrikePointValue(stats)).toBe(20);
   });
 
+  it('reports the derivation line by line without changing the result', () => {
+    const stats = element({
+      TP: 'CV', SZ: 2, TMM: 1, MVm: { t: 8 }, MVp: 't', MV: '8t',
+      Arm: 5, Str: 2, dmg: damage('2', '1', '0'), specials: ['AMS', 'ECM'],
+    });
+    const report = new CalculationReportBuilder();
+
+    expect(calculateAlphaStrikePointValue(stats, 3, report)).toBe(calculateAlphaStrikePointValue(stats, 3));
+    const lines = report.events().filter((event): event is CalculationReportLine => event.kind === 'line');
+    expect(lines.map(line => line.type)).toEqual(jasmine.arrayContaining([
+      'Damage', 'Movement', 'Armor and Structure', 'Force Bonus', 'Base Point Value', 'Skill Adjusted PV',
+    ]));
+    expect(lines.find(line => line.type === 'Base Point Value')?.result).toBe('20');
+  });
+
   it('treats minimal standard damage as half a point for ordinary offense', () => {
     const noDamage = element({ TP: 'BM', SZ: 0, Arm: 4, Str: 1 });
     const minimalDamage = element({
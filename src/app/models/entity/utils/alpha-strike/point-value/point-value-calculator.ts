@@ -4,6 +4,7 @@
 
 import type { AlphaStrikeArcStats, AlphaStrikeUnitStats, ASUnitTypeCode } from '../../../../unit-summary.model';
 import { adjustPointValueForSkill } from '../../../../../utils/pv-skill-adjustment.util';
+import { formatForReport, NULL_CALCULATION_REPORT, type CalculationReportSink } from '../report/calculation-report';
 
 type DamageRange = readonly [number, number, number];
 type AbilitySource = readonly string[];
@@ -19,43 +20,87 @@ const BRAWLER_EXCLUSIONS = [
   'BT', ...Object.keys(ARTILLERY_VALUES), ...C3_ABILITIES, 'C3RS', 'ECM', 'AECM', 'MEC', 'XMEC',
 ];
 
-/** Calculates Alpha Strike PV from a completed Alpha Strike element. */
-export function calculateAlphaStrikePointValue(stats: AlphaStrikeUnitStats, skill = 4): number {
+/**
+ * Calculates Alpha Strike PV from a completed Alpha Strike element. Pass a
+ * report sink to receive the offensive/defensive derivation line by line.
+ */
+export function calculateAlphaStrikePointValue(
+  stats: AlphaStrikeUnitStats,
+  skill = 4,
+  report: CalculationReportSink = NULL_CALCULATION_REPORT,
+): number {
   if (!Number.isInteger(skill) || skill < 0) {
     throw new RangeError('Alpha Strike skill must be a non-negative integer.');
   }
-  const base = Math.max(1, Math.round(basePointValue(stats)));
-  return adjustPointValueForSkill(base, skill);
+  const unrounded = basePointValue(stats, report);
+  const base = Math.max(1, Math.round(unrounded));
+  report.addResultLine('Base Point Value', `${formatForReport(unrounded)}, round normal, min 1`, String(base));
+  const adjusted = adjustPointValueForSkill(base, skill);
+  if (adjusted !== base) report.addLine('Skill Adjusted PV', `Skill ${skill}`, String(adjusted));
+  return adjusted;
 }
 
-function basePointValue(stats: AlphaStrikeUnitStats): number {
+function basePointValue(stats: AlphaStrikeUnitStats, report: CalculationReportSink): number {
   const abilities = stats.specials;
   const highestMove = Math.max(0, ...Object.values(stats.MVm));
   const largeAero = LARGE_AEROSPACE_TYPES.has(stats.TP);
   const aero = largeAero || stats.TP === 'AF' || stats.TP === 'CF'
     || (stats.TP === 'SV' && ['a', 'k', 'i', 'p'].some(mode => mode in stats.MVm));
 
+  report.addSubHeader('Offensive Value:');
   let offense = largeAero ? largeAerospaceDamage(stats) : standardOffense(stats);
-  if (!largeAero && ['BM', 'IM', 'PM'].includes(stats.TP)) offense += stats.SZ / 2;
+  report.addLine(largeAero ? 'Arc Damage' : 'Damage', largeAero ? '' : 'S + 2M + L + overheat', formatForReport(offense));
+  if (!largeAero && ['BM', 'IM', 'PM'].includes(stats.TP)) {
+    offense += stats.SZ / 2;
+    report.addLine('Size', `+ ${stats.SZ} / 2`, formatForReport(offense));
+  }
+  const beforeAbilities = offense;
   offense += offensiveAbilityValue(abilities, highestMove, stats.SZ, stats.OV, aero);
   if (largeAero) offense += arcOffensiveAbilityValue(stats);
-  offense *= offensiveBlanketMultiplier(stats.TP, abilities);
-  if (largeAero) offense /= largeAerospaceDivisor(stats.TP);
+  if (offense !== beforeAbilities) {
+    report.addLine('Special Abilities', `+ ${formatForReport(offense - beforeAbilities)}`, formatForReport(offense));
+  }
+  const blanketMultiplier = offensiveBlanketMultiplier(stats.TP, abilities);
+  offense *= blanketMultiplier;
+  if (blanketMultiplier !== 1) {
+    report.addLine('Blanket Modifier', `x ${formatForReport(blanketMultiplier)}`, formatForReport(offense));
+  }
+  if (largeAero) {
+    const divisor = largeAerospaceDivisor(stats.TP);
+    offense /= divisor;
+    report.addLine('Large Aerospace Divisor', `/ ${divisor}`, formatForReport(offense));
+  }
 
+  report.addEmptyLine().addSubHeader('Defensive Value:');
   let defense = movementDefense(stats, highestMove, aero);
-  defense += defensiveAbilityValue(stats, abilities, aero, largeAero);
-  defense += defensiveIntegrity(stats, abilities, aero, largeAero);
+  report.addLine('Movement', `highest move ${highestMove}`, formatForReport(defense));
+  const defensiveAbilities = defensiveAbilityValue(stats, abilities, aero, largeAero);
+  defense += defensiveAbilities;
+  if (defensiveAbilities !== 0) {
+    report.addLine('Special Abilities', `+ ${formatForReport(defensiveAbilities)}`, formatForReport(defense));
+  }
+  const integrity = defensiveIntegrity(stats, abilities, aero, largeAero);
+  defense += integrity;
+  report.addLine('Armor and Structure', `+ ${formatForReport(integrity)}`, formatForReport(defense));
 
+  report.addEmptyLine().addSubHeader('Final Adjustments:');
   const initialSubtotal = offense + defense;
+  report.addLine('Offense + Defense', `${formatForReport(offense)} + ${formatForReport(defense)}`, formatForReport(initialSubtotal));
   let subtotal = initialSubtotal;
+  const adjust = (type: string, value: number) => {
+    if (value === 0) return;
+    subtotal += value;
+    report.addLine(type, `${value < 0 ? '-' : '+'} ${formatForReport(Math.abs(value))}`, formatForReport(subtotal));
+  };
   if (aero) {
-    subtotal += c3Bonus(initialSubtotal, abilities);
+    adjust('C3 Bonus', c3Bonus(initialSubtotal, abilities));
   } else {
-    subtotal += agileBonus(stats, abilities);
-    subtotal += c3Bonus(initialSubtotal, abilities);
-    subtotal -= brawlerPenalty(stats, abilities, highestMove, initialSubtotal);
+    adjust('Agile Bonus', agileBonus(stats, abilities));
+    adjust('C3 Bonus', c3Bonus(initialSubtotal, abilities));
+    adjust('Brawler Penalty', -brawlerPenalty(stats, abilities, highestMove, initialSubtotal));
   }
-  return subtotal + forceBonus(abilities);
+  adjust('Force Bonus', forceBonus(abilities));
+  return subtotal;
 }
 
 function standardOffense(stats: AlphaStrikeUnitStats): number {
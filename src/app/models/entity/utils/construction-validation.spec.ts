@@ -0,0 +1,112 @@
+// Copyright (C) 2026 The MegaMek Team
+// SPDX-License-Identifier: GPL-3.0-or-later
+// Author: Drake
+
+import { createEquipment } from '../../equipment.model';
+import {
+  TestBattleArmorEntity as BattleArmorEntity,
+  TestBipedMekEntity as BipedMekEntity,
+} from '../testing/test-entities';
+import { addTestEquipment } from '../testing/test-mounted-equipment';
+import { validateConstruction } from './construction-validation';
+
+function testEquipment(id: string, options: {
+  base?: 'IS' | 'Clan' | 'All';
+  introduced?: number;
+  tonnage?: number;
+  criticalSlots?: number;
+} = {}) {
+  const introduced = String(options.introduced ?? 2500);
+  const dates = { prototype: introduced, production: introduced, common: introduced };
+  return createEquipment({
+    id,
+    name: id,
+    type: 'misc',
+    flags: ['F_MEK_EQUIPMENT'],
+    stats: { tonnage: options.tonnage ?? 0, criticalSlots: options.criticalSlots ?? 1 },
+    tech: {
+      base: options.base ?? 'All',
+      level: 'Standard',
+      advancement: { is: dates, clan: dates },
+    },
+  });
+}
+
+function codes(entity: BipedMekEntity | BattleArmorEntity, rule: string): string[] {
+  return validateConstruction(entity).rules
+    .find(result => result.rule === rule)!
+    .diagnostics.map(diagnostic => diagnostic.code);
+}
+
+describe('validateConstruction', () => {
+  function createMek(): BipedMekEntity {
+    const entity = new BipedMekEntity();
+    entity.techBase.set('IS');
+    entity.year.set(3050);
+    return entity;
+  }
+
+  it('reports every rule in order and groups entity checks by rule', () => {
+    const report = validateConstruction(createMek());
+
+    expect(report.rules.map(rule => rule.rule)).toEqual([
+      'tonnage', 'critical-slots', 'tech-base', 'era', 'heat-sinks', 'armor', 'engine', 'equipment', 'general',
+    ]);
+    const heatSinks = report.rules.find(rule => rule.rule === 'heat-sinks')!;
+    expect(heatSinks.passed).toBeFalse();
+    expect(heatSinks.diagnostics.map(diagnostic => diagnostic.code)).toContain('HEAT_SINKS_BELOW_MIN');
+    expect(report.valid).toBeFalse();
+    expect(report.errorCount).toBe(report.diagnostics.filter(diagnostic => diagnostic.severity === 'error').length);
+  });
+
+  it('flags equipment heavier than the chassis allows', () => {
+    const entity = createMek();
+    addTestEquipment(entity, testEquipment('Anvil', { tonnage: 500 }), { location: 'RT' });
+
+    const diagnostics = validateConstruction(entity).diagnostics.filter(diagnostic => diagnostic.rule === 'tonnage');
+    expect(diagnostics.map(diagnostic => diagnostic.code)).toEqual(['OVER_TONNAGE']);
+    expect(diagnostics[0].severity).toBe('error');
+  });
+
+  it('flags Mek equipment left out of the critical slots', () => {
+    const entity = createMek();
+    const sensor = testEquipment('Sensor', { criticalSlots: 2 });
+    addTestEquipment(entity, sensor, { allocation: { kind: 'unallocated' } });
+
+    expect(codes(entity, 'critical-slots')).toEqual(['CRIT_UNALLOCATED']);
+  });
+
+  it('flags opposite tech base equipment unless the unit is mixed tech', () => {
+    const entity = createMek();
+    addTestEquipment(entity, testEquipment('Clan Widget', { base: 'Clan' }), { location: 'RT' });
+
+    const [mismatch] = validateConstruction(entity).diagnostics.filter(diagnostic => diagnostic.rule === 'tech-base');
+    expect(mismatch.code).toBe('TECH_BASE_MISMATCH');
+    expect(mismatch.location).toBe('RT');
+
+    entity.mixedTech.set(true);
+    expect(codes(entity, 'tech-base')).toEqual([]);
+  });
+
+  it('flags equipment introduced after the unit year', () => {
+    const entity = createMek();
+    addTestEquipment(entity, testEquipment('Future Widget', { introduced: 3100 }), { location: 'CT' });
+
+    const [era] = validateConstruction(entity).diagnostics.filter(diagnostic => diagnostic.rule === 'era');
+    expect(era.code).toBe('TECH_ERA_UNAVAILABLE');
+    expect(era.message).toContain('3100');
+
+    entity.year.set(3100);
+    expect(codes(entity, 'era')).toEqual([]);
+  });
+
+  it('checks battle armor squad armor against the per-trooper maximum', () => {
+    const entity = new BattleArmorEntity();
+    entity.declaredWeightClass.set('Medium');
+    entity.setArmorValue('Squad', 'front', 10);
+    expect(codes(entity, 'armor')).toEqual([]);
+
+    entity.setArmorValue('Squad', 'front', 11);
+    expect(codes(entity, 'armor')).toEqual(['ARMOR_EXCEEDS_MAX', 'ARMOR_TOTAL_EXCEEDS_MAX']);
+  });
+});
@@ -0,0 +1,325 @@
+// Copyright (C) 2026 The MegaMek Team
+// SPDX-License-Identifier: GPL-3.0-or-later
+// Author: Drake
+
+import type { TechBase } from '../../tech.model';
+import type { BaseEntity } from '../base-entity';
+import type { EntityValidationMessage, ValidationCategory } from '../types/common';
+import type { EntityMountedEquipment } from '../types/equipment';
+import { getTechIntroductionYear, isTechAvailableForBase, type EntityTechBase } from '../types/tech';
+import { isMekEntity } from './entity-type-guards';
+
+// ═══════════════════════════════════════════════════════════════════════════
+//  CONSTRUCTION VALIDATION
+//
+//  Answers "is this unit legal?" for a parsed entity.  The entity's own
+//  `validationResult` covers per-location bounds and type-specific rules;
+//  this module folds those in and adds the checks that need the whole unit
+//  (total weight, slot allocation, tech base and introduction dates), then
+//  groups every diagnostic under the construction rule it belongs to.
+// ═══════════════════════════════════════════════════════════════════════════
+
+export type ConstructionRuleId =
+    | 'tonnage'
+    | 'critical-slots'
+    | 'tech-base'
+    | 'era'
+    | 'heat-sinks'
+    | 'armor'
+    | 'engine'
+    | 'equipment'
+    | 'general';
+
+export const CONSTRUCTION_RULE_LABELS: Readonly<Record<ConstructionRuleId, string>> = {
+    'tonnage': 'Tonnage',
+    'critical-slots': 'Critical Slots',
+    'tech-base': 'Tech Base',
+    'era': 'Era Availability',
+    'heat-sinks': 'Heat Sinks',
+    'armor': 'Armor',
+    'engine': 'Engine',
+    'equipment': 'Equipment',
+    'general': 'General',
+};
+
+const CONSTRUCTION_RULE_ORDER = Object.keys(CONSTRUCTION_RULE_LABELS) as ConstructionRuleId[];
+
+export interface ConstructionDiagnostic extends EntityValidationMessage {
+    readonly rule: ConstructionRuleId;
+}
+
+export interface ConstructionRuleResult {
+    readonly rule: ConstructionRuleId;
+    readonly label: string;
+    /** No error-level diagnostics; warnings do not fail a rule. */
+    readonly passed: boolean;
+    readonly diagnostics: readonly ConstructionDiagnostic[];
+}
+
+export interface ConstructionValidationReport {
+    readonly valid: boolean;
+    readonly errorCount: number;
+    readonly warningCount: number;
+    /** Every rule in display order, including the ones that passed. */
+    readonly rules: readonly ConstructionRuleResult[];
+    readonly diagnostics: readonly ConstructionDiagnostic[];
+}
+
+const RULE_BY_CATEGORY: Readonly<Record<ValidationCategory, ConstructionRuleId>> = {
+    engine: 'engine',
+    armor: 'armor',
+    weight: 'tonnage',
+    equipment: 'equipment',
+    structure: 'general',
+    movement: 'general',
+    heat: 'heat-sinks',
+    tech: 'tech-base',
+    crit: 'critical-slots',
+    general: 'general',
+};
+
+const TECH_BASE_NAMES: Readonly<Record<EntityTechBase, TechBase>> = {
+    IS: 'Inner Sphere',
+    Clan: 'Clan',
+};
+
+/** Fractional-ton slack so kilogram rounding never reports a unit as overweight. */
+const TONNAGE_EPSILON = 0.0005;
+
+/**
+ * Run every construction rule against an entity.  Never throws: a rule whose
+ * inputs cannot be computed reports a warning instead.
+ */
+export function validateConstruction(entity: BaseEntity): ConstructionValidationReport {
+    const diagnostics: ConstructionDiagnostic[] = [
+        ...entityDiagnostics(entity),
+        ...tonnageDiagnostics(entity),
+        ...criticalSlotDiagnostics(entity),
+        ...techBaseDiagnostics(entity),
+        ...eraDiagnostics(entity),
+        ...armorTotalDiagnostics(entity),
+    ];
+
+    const rules = CONSTRUCTION_RULE_ORDER.map(rule => {
+        const ruleDiagnostics = diagnostics.filter(diagnostic => diagnostic.rule === rule);
+        return {
+            rule,
+            label: CONSTRUCTION_RULE_LABELS[rule],
+            passed: ruleDiagnostics.every(diagnostic => diagnostic.severity !== 'error'),
+            diagnostics: ruleDiagnostics,
+        };
+    });
+    const errorCount = diagnostics.filter(diagnostic => diagnostic.severity === 'error').length;
+
+    return {
+        valid: errorCount === 0,
+        errorCount,
+        warningCount: diagnostics.filter(diagnostic => diagnostic.severity === 'warning').length,
+        rules,
+        diagnostics: rules.flatMap(rule => rule.diagnostics),
+    };
+}
+
+function diagnostic(rule: ConstructionRuleId, message: EntityValidationMessage): ConstructionDiagnostic {
+    return { ...message, rule };
+}
+
+function equipmentName(mount: EntityMountedEquipment): string {
+    return mount.equipment?.name ?? mount.equipmentId;
+}
+
+function errorMessage(error: unknown): string {
+    return error instanceof Error ? error.message : String(error);
+}
+
+// ── Entity-level checks (engine, armor bounds, heat sinks, crit conflicts) ──
+
+function entityDiagnostics(entity: BaseEntity): ConstructionDiagnostic[] {
+    try {
+        return entity.validationResult().messages.map(message => diagnostic(RULE_BY_CATEGORY[message.category], message));
+    } catch (error) {
+        return [diagnostic('general', {
+            severity: 'warning', category: 'general', code: 'VALIDATION_UNAVAILABLE',
+            message: `Unit checks could not run: ${errorMessage(error)}`,
+        })];
+    }
+}
+
+// ── Tonnage ─────────────────────────────────────────────────────────────
+
+function tonnageDiagnostics(entity: BaseEntity): ConstructionDiagnostic[] {
+    const tonnage = entity.tonnage();
+    let used: number;
+    try {
+        used = entity.loadoutTonnage();
+    } catch (error) {
+        return [diagnostic('tonnage', {
+            severity: 'warning', category: 'weight', code: 'TONNAGE_UNKNOWN',
+            message: `Weight could not be calculated: ${errorMessage(error)}`,
+        })];
+    }
+    if (used <= tonnage + TONNAGE_EPSILON) return [];
+    return [diagnostic('tonnage', {
+        severity: 'error', category: 'weight', code: 'OVER_TONNAGE',
+        message: `Components weigh ${formatTons(used)} t, ${formatTons(used - tonnage)} t over the ${formatTons(tonnage)} t limit`,
+    })];
+}
+
+function formatTons(tons: number): string {
+    return String(Math.round(tons * 1000) / 1000);
+}
+
+// ── Critical slots (Meks) ───────────────────────────────────────────────
+
+function criticalSlotDiagnostics(entity: BaseEntity): ConstructionDiagnostic[] {
+    if (!isMekEntity(entity)) return [];
+    const result: ConstructionDiagnostic[] = [];
+
+    for (const mount of entity.equipment()) {
+        if (!mount.equipment || mount.allocation.kind === 'engine') continue;
+        const required = mount.getNumCriticalSlots(entity);
+        if (!required) continue;
+
+        if (mount.allocation.kind === 'unallocated') {
+            result.push(diagnostic('critical-slots', {
+                severity: 'error', category: 'crit', code: 'CRIT_UNALLOCATED',
+                message: `${equipmentName(mount)} is not placed in any critical slots (needs ${required})`,
+            }));
+            continue;
+        }
+
+        const placements = mount.placements ?? [];
+        for (const placement of placements) {
+            const available = entity.getLocationCriticalSlotCount(placement.location);
+            if (placement.slotIndex >= available) {
+                result.push(diagnostic('critical-slots', {
+                    severity: 'error', category: 'crit', code: 'CRIT_SLOT_OUT_OF_RANGE',
+                    message: `${equipmentName(mount)} uses slot ${placement.slotIndex + 1} of ${placement.location}, which has only ${available}`,
+                    location: placement.location,
+                }));
+            }
+        }
+        if (placements.length > 0 && placements.length !== required) {
+            result.push(diagnostic('critical-slots', {
+                severity: 'warning', category: 'crit', code: 'CRIT_SLOT_COUNT_MISMATCH',
+                message: `${equipmentName(mount)} occupies ${placements.length} critical slots but needs ${required}`,
+                location: mount.location,
+            }));
+        }
+    }
+    return result;
+}
+
+// ── Tech base ───────────────────────────────────────────────────────────
+
+function techBaseDiagnostics(entity: BaseEntity): ConstructionDiagnostic[] {
+    if (entity.mixedTech()) return [];
+    const techBase = entity.techBase();
+    const unitTechBase = TECH_BASE_NAMES[techBase];
+    const result: ConstructionDiagnostic[] = [];
+
+    const engine = entity.mountedEngine();
+    if (engine.techBase !== techBase) {
+        result.push(diagnostic('tech-base', {
+            severity: 'error', category: 'tech', code: 'TECH_BASE_MISMATCH',
+            message: `${TECH_BASE_NAMES[engine.techBase]} engine on a ${unitTechBase} unit requires mixed tech`,
+            location: 'Engine',
+        }));
+    }
+
+    for (const mount of entity.equipment()) {
+        const base = mount.equipment?.techBase;
+        if (!base || base === 'All' || base === techBase) continue;
+        result.push(diagnostic('tech-base', {
+            severity: 'error', category: 'tech', code: 'TECH_BASE_MISMATCH',
+            message: `${equipmentName(mount)} is ${TECH_BASE_NAMES[base]} equipment on a ${unitTechBase} unit without mixed tech`,
+            location: mount.location,
+        }));
+    }
+    return result;
+}
+
+// ── Era availability ────────────────────────────────────────────────────
+
+/** Tech bases the unit may draw from: its own, or both when mixed. */
+function availableTechBases(entity: BaseEntity): EntityTechBase[] {
+    return entity.mixedTech() ? ['IS', 'Clan'] : [entity.techBase()];
+}
+
+function eraDiagnostics(entity: BaseEntity): ConstructionDiagnostic[] {
+    const year = entity.year();
+    const techBases = availableTechBases(entity);
+    const result: ConstructionDiagnostic[] = [];
+
+    const engine = entity.mountedEngine();
+    try {
+        const engineAvailable = techBases.some(techBase => {
+            const tech = engine.getTechAdvancement({ clan: techBase === 'Clan', large: engine.isLarge });
+            return isTechAvailableForBase(tech.dates, techBase, year);
+        });
+        if (!engineAvailable) {
+            result.push(diagnostic('era', {
+                severity: 'error', category: 'tech', code: 'TECH_ERA_UNAVAILABLE',
+                message: `${engine.type} engine is not available in ${year}`,
+                location: 'Engine',
+            }));
+        }
+    } catch (error) {
+        result.push(diagnostic('era', {
+            severity: 'warning', category: 'tech', code: 'TECH_DATES_UNKNOWN',
+            message: `Engine availability could not be checked: ${errorMessage(error)}`,
+            location: 'Engine',
+        }));
+    }
+
+    const checked = new Set<string>();
+    for (const mount of entity.equipment()) {
+        const equipment = mount.equipment;
+        if (!equipment || checked.has(equipment.id)) continue;
+        checked.add(equipment.id);
+        if (techBases.some(techBase => equipment.isAvailableIn(year, techBase))) continue;
+
+        const technology = { level: equipment.level, dates: equipment.tech.advancement };
+        const introductionYear = (candidates: readonly EntityTechBase[]) => {
+            const years = candidates
+                .map(techBase => getTechIntroductionYear(technology, { techBase }))
+                .filter((introYear): introYear is number => introYear != null);
+            return years.length ? Math.min(...years) : undefined;
+        };
+        const firstYear = introductionYear(techBases);
+        if (firstYear === undefined) {
+            // Equipment without any advancement dates cannot be checked.
+            if (introductionYear(['IS', 'Clan']) === undefined) continue;
+            result.push(diagnostic('era', {
+                severity: 'error', category: 'tech', code: 'TECH_ERA_UNAVAILABLE',
+                message: `${equipment.name} is never available to ${TECH_BASE_NAMES[entity.techBase()]} units`,
+                location: mount.location,
+            }));
+        } else if (firstYear > year) {
+            result.push(diagnostic('era', {
+                severity: 'error', category: 'tech', code: 'TECH_ERA_UNAVAILABLE',
+                message: `${equipment.name} is not introduced until ${firstYear} (unit year ${year})`,
+                location: mount.location,
+            }));
+        } else {
+            result.push(diagnostic('era', {
+                severity: 'warning', category: 'tech', code: 'TECH_ERA_EXTINCT',
+                message: `${equipment.name} is extinct in ${year}`,
+                location: mount.location,
+            }));
+        }
+    }
+    return result;
+}
+
+// ── Armor total ─────────────────────────────────────────────────────────
+
+function armorTotalDiagnostics(entity: BaseEntity): ConstructionDiagnostic[] {
+    const maximum = entity.maximumArmorPoints();
+    const total = entity.totalArmorPoints();
+    if (maximum <= 0 || total <= maximum) return [];
+    return [diagnostic('armor', {
+        severity: 'error', category: 'armor', code: 'ARMOR_TOTAL_EXCEEDS_MAX',
+        message: `Total armor ${total} exceeds the unit maximum of ${maximum}`,
+    })];
+}
@@ -2,7 +2,7 @@
 // SPDX-License-Identifier: GPL-3.0-or-later
 // Author: Drake
 
-import { ArmorEquipment, Equipment, MiscEquipment, WeaponEquipment } from '../../equipment.model';
+import { AmmoEquipment, ArmorEquipment, Equipment, MiscEquipment, WeaponEquipment } from '../../equipment.model';
 import { MountedArmor, MountedEngine } from '../components';
 import {
     TestBattleArmorEntity as BattleArmorEntity,
@@ -24,6 +24,7 @@ import { TestBipedMekEntity, TestHandheldWeaponEntity } from '../testing/test-en
 import { calculateMountedEquipmentCost } from './cost';
 import { calculateEntityCost, calculateEntityCostDetails } from './cost/entity-cost';
 import { amount, buildCostReport, multiplier } from './cost/cost-report';
+import { ammoShotCost, armorPointCost, combatVehicleStructureCost, equipmentReplacementCost, mekStructureCostPerTon } from './cost/repair';
 import { EquipmentFlag } from '../../equipment-flags.type';
 
 describe('entity cost', () => {
@@ -587,6 +588,41 @@ function mount(equipment: Equipment, armored = false, size?: number, mountId = e
     });
 }
 
+describe('repair pricing', () => {
+    it('prices armor per point from the cost of a full ton', () => {
+        const ferro = new ArmorEquipment({
+            id: 'IS Ferro-Fibrous Armor', name: 'Ferro-Fibrous', type: 'armor',
+            stats: { cost: 20000 }, armor: { type: 'FERRO_FIBROUS', pptMultiplier: 1.12 },
+        });
+        const bar = new ArmorEquipment({
+            id: 'BAR 5', name: 'BAR 5', type: 'armor', flags: ['F_SUPPORT_VEE_BAR_ARMOR'],
+            stats: { cost: 150 }, armor: { type: 'STANDARD', pptMultiplier: 1 },
+        });
+
+        expect(armorPointCost(ferro)).toBeCloseTo(20000 / (16 * 1.12), 6);
+        expect(armorPointCost(bar)).toBe(150);
+    });
+
+    it('shares the construction prices for structure', () => {
+        expect(mekStructureCostPerTon('Endo Steel', false)).toBe(1600);
+        expect(mekStructureCostPerTon('Endo-Composite', true)).toBe(6400);
+        expect(mekStructureCostPerTon('Standard', false)).toBe(400);
+        expect(combatVehicleStructureCost(55, false)).toBe(55000);
+        expect(combatVehicleStructureCost(150, true)).toBe(300000);
+    });
+
+    it('prices ammo per shot and leaves variable-cost equipment unpriced', () => {
+        const ammo = new AmmoEquipment({
+            id: 'IS Ammo AC/10', name: 'AC/10 Ammo', type: 'ammo',
+            stats: { cost: 6000 }, ammo: { type: 'AC', rackSize: 10, shots: 10 },
+        });
+
+        expect(ammoShotCost(ammo)).toBe(600);
+        expect(equipmentReplacementCost(ammo)).toBe(6000);
+        expect(equipmentReplacementCost(variableCostEquipment('Variable', [], 1))).toBeNull();
+    });
+});
+
 describe('EntityMountedEquipment.getCost', () => {
     const entity = new BipedMekEntity();
     entity.setTonnage(75);
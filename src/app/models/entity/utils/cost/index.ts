@@ -5,4 +5,11 @@
 export { calculateEntityCost, calculateEntityCostDetails, type EntityCostOptions } from './entity-cost';
 export { getEquipmentCost } from './equipment-pricing';
 export { calculateMountedEquipmentCost, calculateMountedEquipmentCostBreakdown } from './equipment-total';
+export {
+  ammoShotCost,
+  armorPointCost,
+  combatVehicleStructureCost,
+  equipmentReplacementCost,
+  mekStructureCostPerTon,
+} from './repair';
 export type { EntityCostAmountStep, EntityCostEntry, EntityCostFactorStep, EntityCostReport, EntityCostStep } from './cost-report';
@@ -5,6 +5,7 @@
 import type { MekEntity, MekWithArmsEntity } from '../../entities/mek/mek-entity';
 import { calculateArmorCost } from './common';
 import { amount, buildCostReport, multiplier } from './cost-report';
+import { mekStructureCostPerTon } from './repair';
 import type { EntityCostEntry, EntityCostReport } from './cost-report';
 
 /** Mirrors MegaMek's MekCostCalculator for common Mek construction systems. */
@@ -79,15 +80,7 @@ function getMekStructureCostPerTon(entity: MekEntity): number {
   // MegaMek retains the default Standard aggregate structure type when MTF
   // declares a location-specific Hybrid structure.
   if (entity.hasMixedStructureMaterials()) return entity.isSuperHeavy() ? 4000 : 400;
-  const name = entity.structureAt('CT').structure.name.toLowerCase();
-  const superHeavyMultiplier = entity.isSuperHeavy() ? 2 : 1;
-  if (name.includes('industrial')) return entity.isSuperHeavy() ? 3000 : 300;
-  if (name.includes('reinforced')) return entity.isSuperHeavy() ? 0 : 6400;
-  if (name.includes('endo-composite') || name.includes('endo composite')) return 3200 * superHeavyMultiplier;
-  if (name.includes('endo') && name.includes('prototype')) return entity.isSuperHeavy() ? 0 : 4800;
-  if (name.includes('endo')) return entity.isSuperHeavy() ? 16000 : 1600;
-  if (name.includes('composite')) return 1600;
-  return entity.isSuperHeavy() ? 4000 : 400;
+  return mekStructureCostPerTon(entity.structureAt('CT').structure.name, entity.isSuperHeavy());
 }
 
 function getMekMyomerCost(entity: MekEntity): number {
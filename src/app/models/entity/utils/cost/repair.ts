@@ -0,0 +1,49 @@
+// Copyright (C) 2026 The MegaMek Team
+// SPDX-License-Identifier: GPL-3.0-or-later
+// Author: Drake
+
+import type { AmmoEquipment, ArmorEquipment, Equipment } from '../../../equipment.model';
+import { nextHalfTon } from './common';
+
+/*
+ * Description: Per-point and per-item prices used to estimate the cost of
+ *              repairing and rearming a unit between games. They reuse the
+ *              construction cost formulas, so a fully destroyed component
+ *              costs what building it would.
+ */
+
+/** Price of one point of armor; BAR-rated support vehicle armor is priced per point. */
+export function armorPointCost(armor: ArmorEquipment): number | null {
+  if (!armor.hasFixedCost()) return null;
+  if (armor.hasFlag('F_SUPPORT_VEE_BAR_ARMOR')) return armor.cost;
+  return armor.cost / (16 * armor.pptMultiplier);
+}
+
+/** Mirrors MekCostCalculator's structure cost per ton for a single structure type. */
+export function mekStructureCostPerTon(structureName: string, superHeavy: boolean): number {
+  const name = structureName.toLowerCase();
+  const superHeavyMultiplier = superHeavy ? 2 : 1;
+  if (name.includes('industrial')) return superHeavy ? 3000 : 300;
+  if (name.includes('reinforced')) return superHeavy ? 0 : 6400;
+  if (name.includes('endo-composite') || name.includes('endo composite')) return 3200 * superHeavyMultiplier;
+  if (name.includes('endo') && name.includes('prototype')) return superHeavy ? 0 : 4800;
+  if (name.includes('endo')) return superHeavy ? 16000 : 1600;
+  if (name.includes('composite')) return 1600;
+  return superHeavy ? 4000 : 400;
+}
+
+/** Mirrors CombatVehicleCostCalculator's structure cost for a combat vehicle. */
+export function combatVehicleStructureCost(tonnage: number, superHeavy: boolean): number {
+  return nextHalfTon(tonnage / (superHeavy ? 5 : 10)) * 10000;
+}
+
+/** Price of a single shot, from the price of a full ton of the ammo. */
+export function ammoShotCost(ammo: AmmoEquipment): number | null {
+  if (!ammo.hasFixedCost() || ammo.shots <= 0) return null;
+  return ammo.cost / ammo.shots;
+}
+
+/** Price of replacing a destroyed piece of equipment; variable-cost equipment depends on the unit and is not priced. */
+export function equipmentReplacementCost(equipment: Equipment): number | null {
+  return equipment.hasFixedCost() ? equipment.cost : null;
+}
@@ -15,6 +15,7 @@ import {
   standardRound,
 } from './common';
 import { amount, buildCostReport, multiplier, type EntityCostEntry, type EntityCostReport } from './cost-report';
+import { combatVehicleStructureCost } from './repair';
 
 /** Mirrors MegaMek's CombatVehicleCostCalculator for support and combat vehicles. */
 export function calculateVehicleCost(entity: VehicleEntity, equipmentCost: number): number {
@@ -41,10 +42,9 @@ export function calculateVehicleCostReport(
     entries.push(amount('Chassis', chassisCost), amount('Engine', engineCost), amount('Armor', armorCost));
     entries.push(multiplier('Structural Tech Rating', structuralTechMultiplier));
   } else {
-    const structureDivisor = entity.isSuperHeavy()
+    const structureCost = combatVehicleStructureCost(tonnage, entity.isSuperHeavy()
       && entity.motiveType() !== 'Naval'
-      && entity.motiveType() !== 'Submarine' ? 5 : 10;
-    const structureCost = nextHalfTon(tonnage / structureDivisor) * 10000;
+      && entity.motiveType() !== 'Submarine');
     const controlCost = entity.hasNoControlSystems() ? 0 : nextHalfTon(tonnage * 0.05) * 10000;
     entries.push(amount('Structure', structureCost), amount('Engine', engineCost),
       amount('Controls', controlCost), amount('Armor', armorCost));
@@ -0,0 +1,73 @@
+// Copyright (C) 2026 The MegaMek Team
+// SPDX-License-Identifier: GPL-3.0-or-later
+// Author: Drake
+
+import { createEmptyUnit, type TestUnitOverrides } from '../testing/unit-test-helpers';
+import { GameSystem } from './common.model';
+import { buildForceComparisonRows, computeForceComparisonStats } from './force-comparison.model';
+import type { ForcePreviewEntry } from './force-preview.model';
+
+function entry(type: GameSystem, points: number, units: { overrides: TestUnitOverrides; destroyed?: boolean }[]): ForcePreviewEntry {
+    return {
+        instanceId: '',
+        timestamp: '',
+        type,
+        owned: true,
+        cloud: false,
+        local: false,
+        missing: false,
+        name: 'Force',
+        faction: null,
+        era: null,
+        bv: type === GameSystem.CLASSIC ? points : undefined,
+        pv: type === GameSystem.ALPHA_STRIKE ? points : undefined,
+        groups: [{ units: units.map(({ overrides, destroyed }) => ({ unit: createEmptyUnit(overrides), destroyed: !!destroyed })) }],
+    };
+}
+
+describe('force comparison model', () => {
+    it('totals Classic damage by range band, durability, heat and roles', () => {
+        const stats = computeForceComparisonStats(entry(GameSystem.CLASSIC, 2400, [
+            {
+                overrides: {
+                    role: 'Brawler', armor: 100, internal: 50, run: 6, jump: 4, heat: 20, dissipation: 16, c3: 'C3S',
+                    comp: [
+                        { id: 'ml', q: 2, n: 'Medium Laser', t: 'E', p: 1, l: 'RA', md: '5', r: '3/6/9' },
+                        { id: 'lrm', q: 1, n: 'LRM 10', t: 'M', p: 1, l: 'LT', md: '10', r: '7/14/21' },
+                    ],
+                },
+            },
+            { overrides: { role: 'Scout', armor: 40, internal: 20, run: 12 } },
+            { overrides: { role: 'Scout', armor: 80 }, destroyed: true },
+        ]));
+
+        expect(stats.unitCount).toBe(2);
+        expect(stats.points).toBe(2400);
+        expect([stats.damageShort, stats.damageMedium, stats.damageLong]).toEqual([20, 10, 10]);
+        expect(stats.averageMovement).toBe(9);
+        expect(stats.averageTmm).toBe(3);
+        expect([stats.armor, stats.structure, stats.heat]).toEqual([140, 70, -4]);
+        expect([stats.c3, stats.indirectFire]).toEqual([1, 1]);
+        expect(stats.roles).toEqual({ Brawler: 1, Scout: 1 });
+    });
+
+    it('compares every force with the first and marks the best values', () => {
+        const striker = { overrides: { role: 'Striker', as: { TMM: 2, Arm: 4, Str: 2, MVm: { '': 10 }, dmg: { dmgS: '3', dmgM: '2', dmgL: '0', dmgE: '0', _dmgS: 3, _dmgM: 2, _dmgL: 0 } } } };
+        const sniper = { overrides: { role: 'Sniper', as: { TMM: 1, Arm: 3, Str: 3, MVm: { '': 8 }, specials: ['IF1'], dmg: { dmgS: '2', dmgM: '2', dmgL: '2', dmgE: '0', _dmgS: 2, _dmgM: 2, _dmgL: 2 } } } };
+        const rows = buildForceComparisonRows([
+            computeForceComparisonStats(entry(GameSystem.ALPHA_STRIKE, 200, [striker, striker])),
+            computeForceComparisonStats(entry(GameSystem.ALPHA_STRIKE, 180, [sniper, striker])),
+        ], GameSystem.ALPHA_STRIKE);
+
+        const row = (label: string) => rows.find(entry => entry.label === label)!;
+        expect(row('Total PV')).toEqual(jasmine.objectContaining({ values: [200, 180], deltas: [null, -20], best: [false, false] }));
+        expect(row('Damage (S)')).toEqual(jasmine.objectContaining({ values: [6, 5], deltas: [null, -1], best: [true, false] }));
+        expect(row('Damage (L)').best).toEqual([false, true]);
+        expect(row('Damage (M)').best).toEqual([false, false]);
+        expect(row('Indirect fire units').values).toEqual([0, 1]);
+        expect(rows.slice(-2).map(entry => [entry.label, entry.values])).toEqual([
+            ['Role: Sniper', [0, 1]],
+            ['Role: Striker', [2, 1]],
+        ]);
+    });
+});
@@ -0,0 +1,187 @@
+// Copyright (C) 2026 The MegaMek Team
+// SPDX-License-Identifier: GPL-3.0-or-later
+// Author: Drake
+
+import { GameSystem } from './common.model';
+import { getForcePreviewResolvedUnits, type ForcePreviewEntry } from './force-preview.model';
+import type { UnitSummary } from './unit-summary.model';
+import { targetMovementModifier } from './entity/utils/battle-value/rules';
+import { cbtHasIndirectFireWeapon } from '../utils/formation-unit-facts.util';
+import { CLASSIC_RANGE_BAND_HEXES, getDamageAtRange } from '../utils/unit-range.util';
+
+/*
+ * Description: Side-by-side comparison of forces: the aggregates of each
+ *              force (points, damage by range band, movement, durability,
+ *              heat, key specials and roles) and how every other force
+ *              differs from the first one.
+ */
+
+const ECM_SPECIALS = ['ECM', 'AECM', 'LECM', 'WAT'];
+
+export interface ForceComparisonStats {
+    unitCount: number;
+    /** BV, or PV for Alpha Strike, skill-adjusted */
+    points: number;
+    damageShort: number;
+    damageMedium: number;
+    damageLong: number;
+    /** Average running MP, or primary move in inches for Alpha Strike */
+    averageMovement: number;
+    averageTmm: number;
+    armor: number;
+    structure: number;
+    /** Classic: dissipation minus heat generated; Alpha Strike: total overheat (OV) */
+    heat: number;
+    ecm: number;
+    c3: number;
+    indirectFire: number;
+    /** Units per role */
+    roles: Record<string, number>;
+}
+
+type ForceComparisonMetricKey = Exclude<keyof ForceComparisonStats, 'roles'>;
+
+export interface ForceComparisonRow {
+    label: string;
+    /** One value per force, in the order they were given */
+    values: number[];
+    /** Difference of each force from the first; null for the first */
+    deltas: (number | null)[];
+    /** Forces with the best value, when a higher or lower value is better */
+    best: boolean[];
+    decimals: number;
+}
+
+interface ForceComparisonMetric {
+    key: ForceComparisonMetricKey;
+    label: (gameSystem: GameSystem) => string;
+    /** Whether a higher value is better; null when neither is */
+    higherIsBetter: boolean | null;
+    decimals: number;
+}
+
+const FORCE_COMPARISON_METRICS: readonly ForceComparisonMetric[] = [
+    { key: 'points', label: gs => gs === GameSystem.ALPHA_STRIKE ? 'Total PV' : 'Total BV', higherIsBetter: null, decimals: 0 },
+    { key: 'unitCount', label: () => 'Units', higherIsBetter: null, decimals: 0 },
+    { key: 'damageShort', label: gs => gs === GameSystem.ALPHA_STRIKE ? 'Damage (S)' : 'Damage at 3 hexes', higherIsBetter: true, decimals: 1 },
+    { key: 'damageMedium', label: gs => gs === GameSystem.ALPHA_STRIKE ? 'Damage (M)' : 'Damage at 12 hexes', higherIsBetter: true, decimals: 1 },
+    { key: 'damageLong', label: gs => gs === GameSystem.ALPHA_STRIKE ? 'Damage (L)' : 'Damage at 21 hexes', higherIsBetter: true, decimals: 1 },
+    { key: 'averageMovement', label: gs => gs === GameSystem.ALPHA_STRIKE ? 'Avg. move (in.)' : 'Avg. run MP', higherIsBetter: true, decimals: 1 },
+    { key: 'averageTmm', label: () => 'Avg. TMM', higherIsBetter: true, decimals: 1 },
+    { key: 'armor', label: () => 'Armor', higherIsBetter: true, decimals: 0 },
+    { key: 'structure', label: () => 'Structure', higherIsBetter: true, decimals: 0 },
+    { key: 'heat', label: gs => gs === GameSystem.ALPHA_STRIKE ? 'Overheat (OV)' : 'Heat balance', higherIsBetter: true, decimals: 0 },
+    { key: 'ecm', label: () => 'ECM units', higherIsBetter: true, decimals: 0 },
+    { key: 'c3', label: () => 'C3 units', higherIsBetter: true, decimals: 0 },
+    { key: 'indirectFire', label: () => 'Indirect fire units', higherIsBetter: true, decimals: 0 },
+];
+
+function hasSpecial(unit: UnitSummary, prefixes: readonly string[]): boolean {
+    return unit.as?.specials?.some(special => prefixes.some(prefix => special.startsWith(prefix))) ?? false;
+}
+
+function average(total: number, count: number): number {
+    return count > 0 ? total / count : 0;
+}
+
+function hasEcm(unit: UnitSummary, gameSystem: GameSystem): boolean {
+    if (gameSystem === GameSystem.ALPHA_STRIKE) return hasSpecial(unit, ECM_SPECIALS);
+    return unit.comp?.some(component => component.eq?.hasFlag('F_ECM') === true) ?? false;
+}
+
+function hasC3(unit: UnitSummary, gameSystem: GameSystem): boolean {
+    return gameSystem === GameSystem.ALPHA_STRIKE ? hasSpecial(unit, ['C3']) : !!unit.c3;
+}
+
+function hasIndirectFire(unit: UnitSummary, gameSystem: GameSystem): boolean {
+    return gameSystem === GameSystem.ALPHA_STRIKE ? hasSpecial(unit, ['IF']) : cbtHasIndirectFireWeapon(unit);
+}
+
+/** Aggregates of a force's units; destroyed units are left out. */
+export function computeForceComparisonStats(entry: ForcePreviewEntry): ForceComparisonStats {
+    const gameSystem = entry.type;
+    const units = getForcePreviewResolvedUnits({
+        ...entry,
+        groups: entry.groups.map(group => ({ ...group, units: group.units.filter(unit => !unit.destroyed) })),
+    });
+    const stats: ForceComparisonStats = {
+        unitCount: units.length,
+        points: (gameSystem === GameSystem.ALPHA_STRIKE ? entry.pv : entry.bv) ?? 0,
+        damageShort: 0,
+        damageMedium: 0,
+        damageLong: 0,
+        averageMovement: 0,
+        averageTmm: 0,
+        armor: 0,
+        structure: 0,
+        heat: 0,
+        ecm: 0,
+        c3: 0,
+        indirectFire: 0,
+        roles: {},
+    };
+    let movement = 0;
+    let tmm = 0;
+    for (const unit of units) {
+        if (gameSystem === GameSystem.ALPHA_STRIKE) {
+            stats.damageShort += unit.as?.dmg?._dmgS ?? 0;
+            stats.damageMedium += unit.as?.dmg?._dmgM ?? 0;
+            stats.damageLong += unit.as?.dmg?._dmgL ?? 0;
+            movement += unit.as?.MVm?.[''] ?? Math.max(0, ...Object.values(unit.as?.MVm ?? {}));
+            tmm += unit.as?.TMM ?? 0;
+            stats.armor += unit.as?.Arm ?? 0;
+            stats.structure += unit.as?.Str ?? 0;
+            stats.heat += unit.as?.usesOV ? unit.as.OV : 0;
+        } else {
+            stats.damageShort += getDamageAtRange(unit, CLASSIC_RANGE_BAND_HEXES.short);
+            stats.damageMedium += getDamageAtRange(unit, CLASSIC_RANGE_BAND_HEXES.medium);
+            stats.damageLong += getDamageAtRange(unit, CLASSIC_RANGE_BAND_HEXES.long);
+            movement += unit.run;
+            tmm += Math.max(targetMovementModifier(unit.run), targetMovementModifier(unit.jump, true));
+            stats.armor += unit.armor;
+            stats.structure += unit.internal;
+            stats.heat += unit.heat && unit.dissipation ? unit.dissipation - unit.heat : 0;
+        }
+        if (hasEcm(unit, gameSystem)) stats.ecm++;
+        if (hasC3(unit, gameSystem)) stats.c3++;
+        if (hasIndirectFire(unit, gameSystem)) stats.indirectFire++;
+        const role = unit.role || 'None';
+        stats.roles[role] = (stats.roles[role] ?? 0) + 1;
+    }
+    stats.averageMovement = average(movement, units.length);
+    stats.averageTmm = average(tmm, units.length);
+    return stats;
+}
+
+function compareValues(values: number[], higherIsBetter: boolean | null, decimals: number): Omit<ForceComparisonRow, 'label' | 'decimals'> {
+    const factor = 10 ** decimals;
+    const rounded = values.map(value => Math.round(value * factor) / factor);
+    const deltas = rounded.map((value, index) => index === 0 ? null : Math.round((value - rounded[0]) * factor) / factor);
+    const target = higherIsBetter === null || rounded.length < 2
+        ? null
+        : higherIsBetter ? Math.max(...rounded) : Math.min(...rounded);
+    const allEqual = rounded.every(value => value === rounded[0]);
+    return {
+        values: rounded,
+        deltas,
+        best: rounded.map(value => target !== null && !allEqual && value === target),
+    };
+}
+
+/** The comparison table: one row per aggregate, then one per role any force fields. */
+export function buildForceComparisonRows(stats: readonly ForceComparisonStats[], gameSystem: GameSystem): ForceComparisonRow[] {
+    const rows: ForceComparisonRow[] = FORCE_COMPARISON_METRICS.map(metric => ({
+        label: metric.label(gameSystem),
+        decimals: metric.decimals,
+        ...compareValues(stats.map(entry => entry[metric.key]), metric.higherIsBetter, metric.decimals),
+    }));
+    const roles = [...new Set(stats.flatMap(entry => Object.keys(entry.roles)))].sort();
+    for (const role of roles) {
+        rows.push({
+            label: `Role: ${role}`,
+            decimals: 0,
+            ...compareValues(stats.map(entry => entry.roles[role] ?? 0), null, 0),
+        });
+    }
+    return rows;
+}
@@ -0,0 +1,68 @@
+// Copyright (C) 2026 The MegaMek Team
+// SPDX-License-Identifier: GPL-3.0-or-later
+// Author: Drake
+
+import { ForceHistory, MAX_FORCE_HISTORY_STEPS, type ForceHistoryStep } from './force-history.model';
+
+describe('ForceHistory', () => {
+    function step(unitId: string, before: string, after: string): ForceHistoryStep {
+        return [{ unitId, before, after }];
+    }
+
+    it('undoes and redoes steps in order', () => {
+        const history = new ForceHistory();
+        history.record(step('a', 's0', 's1'));
+        history.record(step('a', 's1', 's2'));
+
+        expect(history.undo()).toEqual(step('a', 's1', 's2'));
+        expect(history.undo()).toEqual(step('a', 's0', 's1'));
+        expect(history.undo()).toBeNull();
+        expect(history.canUndo()).toBeFalse();
+
+        expect(history.redo()).toEqual(step('a', 's0', 's1'));
+        expect(history.canUndo()).toBeTrue();
+        expect(history.canRedo()).toBeTrue();
+    });
+
+    it('drops the redo stack when a new step is recorded', () => {
+        const history = new ForceHistory();
+        history.record(step('a', 's0', 's1'));
+        history.undo();
+        history.record(step('a', 's0', 'x1'));
+
+        expect(history.canRedo()).toBeFalse();
+        expect(history.undo()).toEqual(step('a', 's0', 'x1'));
+    });
+
+    it('keeps only the most recent steps', () => {
+        const history = new ForceHistory();
+        for (let i = 0; i < MAX_FORCE_HISTORY_STEPS + 5; i++) {
+            history.record(step('a', `s${i}`, `s${i + 1}`));
+        }
+        expect(history.serialize().undo.length).toBe(MAX_FORCE_HISTORY_STEPS);
+        expect(history.serialize().undo[0]).toEqual(step('a', 's5', 's6'));
+    });
+
+    it('reports the state each unit should currently be in', () => {
+        const history = new ForceHistory();
+        history.record([...step('a', 'a0', 'a1'), ...step('b', 'b0', 'b1')]);
+        history.record(step('a', 'a1', 'a2'));
+        history.undo();
+
+        expect(history.currentStates()).toEqual(new Map([['a', 'a1'], ['b', 'b1']]));
+    });
+
+    it('round-trips through serialize and rejects malformed data', () => {
+        const history = new ForceHistory();
+        history.record(step('a', 's0', 's1'));
+        history.record(step('a', 's1', 's2'));
+        history.undo();
+
+        const restored = ForceHistory.deserialize(JSON.parse(JSON.stringify(history.serialize())));
+        expect(restored?.serialize()).toEqual(history.serialize());
+
+        expect(ForceHistory.deserialize(null)).toBeNull();
+        expect(ForceHistory.deserialize({ undo: [[{ unitId: 'a' }]], redo: [] })).toBeNull();
+        expect(ForceHistory.deserialize({ undo: [[]], redo: [] })).toBeNull();
+    });
+});
@@ -0,0 +1,94 @@
+// Copyright (C) 2026 The MegaMek Team
+// SPDX-License-Identifier: GPL-3.0-or-later
+// Author: Drake
+
+import { computed, signal } from '@angular/core';
+
+export const MAX_FORCE_HISTORY_STEPS = 50;
+
+/** One unit's serialized state before and after a change. */
+export interface UnitStateChange {
+    unitId: string;
+    before: string;
+    after: string;
+}
+
+/** Everything that changed between two saves of a force; undone and redone as one. */
+export type ForceHistoryStep = UnitStateChange[];
+
+export interface SerializedForceHistory {
+    undo: ForceHistoryStep[];
+    redo: ForceHistoryStep[];
+}
+
+function isStep(value: unknown): value is ForceHistoryStep {
+    return Array.isArray(value) && value.length > 0 && value.every(change => (
+        !!change && typeof change.unitId === 'string'
+        && typeof change.before === 'string' && typeof change.after === 'string'
+    ));
+}
+
+/**
+ * Undo and redo stacks of unit state changes for one force. Recording a new
+ * step drops whatever could have been redone.
+ */
+export class ForceHistory {
+    private readonly undoSteps = signal<ForceHistoryStep[]>([]);
+    private readonly redoSteps = signal<ForceHistoryStep[]>([]);
+
+    readonly canUndo = computed(() => this.undoSteps().length > 0);
+    readonly canRedo = computed(() => this.redoSteps().length > 0);
+
+    record(step: ForceHistoryStep): void {
+        if (step.length === 0) return;
+        this.undoSteps.update(steps => [...steps, step].slice(-MAX_FORCE_HISTORY_STEPS));
+        this.redoSteps.set([]);
+    }
+
+    /** Takes the latest step off the undo stack; the caller restores its `before` states. */
+    undo(): ForceHistoryStep | null {
+        const step = this.undoSteps().at(-1);
+        if (!step) return null;
+        this.undoSteps.update(steps => steps.slice(0, -1));
+        this.redoSteps.update(steps => [...steps, step]);
+        return step;
+    }
+
+    /** Takes the latest undone step back; the caller restores its `after` states. */
+    redo(): ForceHistoryStep | null {
+        const step = this.redoSteps().at(-1);
+        if (!step) return null;
+        this.redoSteps.update(steps => steps.slice(0, -1));
+        this.undoSteps.update(steps => [...steps, step]);
+        return step;
+    }
+
+    /** The state every unit the history touches should be in right now. */
+    currentStates(): Map<string, string> {
+        const states = new Map<string, string>();
+        for (const step of this.undoSteps()) {
+            for (const change of step) states.set(change.unitId, change.after);
+        }
+        // The top of the redo stack was undone last, so its `before` wins.
+        for (const step of this.redoSteps()) {
+            for (const change of step) states.set(change.unitId, change.before);
+        }
+        return states;
+    }
+
+    serialize(): SerializedForceHistory {
+        return { undo: this.undoSteps(), redo: this.redoSteps() };
+    }
+
+    static deserialize(data: unknown): ForceHistory | null {
+        const value = data as Partial<SerializedForceHistory> | null;
+        if (!value || !Array.isArray(value.undo) || !Array.isArray(value.redo)
+            || !value.undo.every(isStep) || !value.redo.every(isStep)) {
+            return null;
+        }
+        const history = new ForceHistory();
+        history.undoSteps.set(value.undo.slice(-MAX_FORCE_HISTORY_STEPS));
+        history.redoSteps.set(value.redo.slice(-MAX_FORCE_HISTORY_STEPS));
+        return history;
+    }
+}
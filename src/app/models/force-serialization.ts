@@ -159,6 +159,8 @@ export interface ASSerializedUnit extends SerializedUnit {
     abilities: (string | ASCustomPilotAbility)[]; // Array of ability IDs or custom abilities
     formationAbilities?: string[];
     commander?: boolean;
+    /** Pilot record the unit's pilot is played from. */
+    pilotId?: string;
 }
 
 export interface CBTSerializedUnit extends SerializedUnit {
@@ -331,6 +333,12 @@ export interface SerializedCrewMember {
     asfPilotingSkill?: number;
     hits: number;
     state: number;
+    /** Enemy units this crew member has destroyed over a campaign. */
+    kills?: number;
+    /** Unspent campaign experience points. */
+    experience?: number;
+    /** Pilot record this crew member is played from. */
+    pilotId?: string;
 }
 
 export interface CBTSerializedState extends SerializedState {
@@ -630,6 +638,9 @@ export const CREW_MEMBER_SCHEMA = Sanitizer.schema<SerializedCrewMember>()
     .number('asfPilotingSkill')
     .number('hits', { default: 0, min: 0 })
     .number('state', { default: 0, min: 0, max: 2 })
+    .number('kills', { min: 0 })
+    .number('experience', { min: 0 })
+    .string('pilotId')
     .build();
 
 /**
@@ -872,6 +883,7 @@ export const AS_SERIALIZED_UNIT_SCHEMA = Sanitizer.schema<ASSerializedUnit>()
         return abilities.length > 0 ? [...new Set(abilities)] : undefined;
     })
     .boolean('commander')
+    .string('pilotId')
     .custom('state', (value: unknown) => {
         if (!value || typeof value !== 'object') {
             return Sanitizer.sanitize({}, AS_SERIALIZED_STATE_SCHEMA);
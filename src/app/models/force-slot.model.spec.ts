@@ -0,0 +1,65 @@
+// Copyright (C) 2026 The MegaMek Team
+// SPDX-License-Identifier: GPL-3.0-or-later
+// Author: Drake
+
+import {
+    areForceSidesOpposed,
+    createForceSide,
+    DEFAULT_FORCE_SIDES,
+    forceSideRgb,
+    MAX_FORCE_SIDES,
+    normalizeForceSides,
+    type ForceSide,
+} from './force-slot.model';
+
+describe('force sides', () => {
+    it('falls back to the friendly and hostile sides for older data', () => {
+        expect(normalizeForceSides(undefined)).toEqual([...DEFAULT_FORCE_SIDES]);
+        expect(normalizeForceSides([{ id: 'enemy', name: 'Pirates', color: '#112233' }]).map(side => side.name))
+            .toEqual(['Friendly', 'Pirates']);
+    });
+
+    it('keeps stored sides, drops malformed ones and generates sides for unknown alignments', () => {
+        const sides = normalizeForceSides([
+            { id: 'side-3', name: '  Mercenaries ', color: '#E3A53C', allied: true },
+            { id: 'Bad Id', name: 'Broken', color: '#000000' },
+            { id: 'side-4', name: 'No color' },
+            { id: 'friendly', name: 'Us', color: '#64b4ff', allied: true },
+        ], ['enemy', 'side-5']);
+
+        expect(sides.map(side => side.id)).toEqual(['friendly', 'side-3', 'enemy', 'side-5']);
+        expect(sides[0]).toEqual({ id: 'friendly', name: 'Us', color: '#64b4ff' });
+        expect(sides[1]).toEqual({ id: 'side-3', name: 'Mercenaries', color: '#e3a53c', allied: true });
+        expect(new Set(sides.map(side => side.color)).size).toBe(sides.length);
+    });
+
+    it('caps the number of sides', () => {
+        const alignments = Array.from({ length: MAX_FORCE_SIDES + 2 }, (_, index) => `side-${index + 3}`);
+        expect(normalizeForceSides([], alignments).length).toBe(MAX_FORCE_SIDES);
+    });
+
+    it('creates sides with unused ids and colors', () => {
+        const existing: ForceSide[] = [...DEFAULT_FORCE_SIDES, { id: 'side-3', name: 'Side 3', color: '#6cc56c' }];
+        const side = createForceSide(existing);
+        expect(side.id).toBe('side-4');
+        expect(existing.some(entry => entry.color === side.color)).toBeFalse();
+    });
+
+    it('treats allied sides as one camp and every other pair as opposed', () => {
+        const sides: ForceSide[] = [
+            ...DEFAULT_FORCE_SIDES,
+            { id: 'side-3', name: 'Allies', color: '#6cc56c', allied: true },
+            { id: 'side-4', name: 'Third party', color: '#e3a53c' },
+        ];
+        expect(areForceSidesOpposed(sides, 'friendly', 'side-3')).toBeFalse();
+        expect(areForceSidesOpposed(sides, 'friendly', 'enemy')).toBeTrue();
+        expect(areForceSidesOpposed(sides, 'side-3', 'side-4')).toBeTrue();
+        expect(areForceSidesOpposed(sides, 'enemy', 'side-4')).toBeTrue();
+        expect(areForceSidesOpposed(sides, 'enemy', 'enemy')).toBeFalse();
+    });
+
+    it('converts side colors for the stylesheets', () => {
+        expect(forceSideRgb('#64b4ff')).toBe('100, 180, 255');
+        expect(forceSideRgb('not a color')).toBe('200, 200, 200');
+    });
+});
@@ -6,10 +6,107 @@ import type { Subscription } from 'rxjs';
 import type { Force } from './force.model';
 
 /**
- * 
- * Represents a loaded force in the multi-force manager.
+ * Id of the side a loaded force fights on. `friendly` is always the user's
+ * own side; `enemy` is the default opposing side, and further sides can be
+ * added for free-for-alls and allied commands.
+ */
+export type ForceAlignment = string;
+
+export const FRIENDLY_ALIGNMENT: ForceAlignment = 'friendly';
+export const ENEMY_ALIGNMENT: ForceAlignment = 'enemy';
+
+export const MAX_FORCE_SIDES = 8;
+export const MAX_FORCE_SIDE_NAME_LENGTH = 40;
+
+const FORCE_ALIGNMENT_PATTERN = /^[a-z0-9-]{1,32}$/;
+const FORCE_SIDE_COLOR_PATTERN = /^#[0-9a-f]{6}$/;
+
+/** A named, colored side of an operation or lobby. */
+export interface ForceSide {
+    id: ForceAlignment;
+    name: string;
+    /** Hex color (`#rrggbb`) used to mark the side's forces. */
+    color: string;
+    /** Allied sides fight alongside the friendly side but keep their own totals. */
+    allied?: boolean;
+}
+
+/** Colors offered to new sides, in order; the first two belong to the default sides. */
+export const FORCE_SIDE_COLORS: readonly string[] = [
+    '#64b4ff', '#dc5050', '#6cc56c', '#e3a53c', '#b57be0', '#4fc8c0', '#e07bb0', '#c8c8c8',
+];
+
+export const DEFAULT_FORCE_SIDES: readonly ForceSide[] = [
+    { id: FRIENDLY_ALIGNMENT, name: 'Friendly', color: FORCE_SIDE_COLORS[0] },
+    { id: ENEMY_ALIGNMENT, name: 'Hostile', color: FORCE_SIDE_COLORS[1] },
+];
+
+export function isForceAlignment(value: unknown): value is ForceAlignment {
+    return typeof value === 'string' && FORCE_ALIGNMENT_PATTERN.test(value);
+}
+
+function parseForceSide(value: any): ForceSide | null {
+    if (!value || !isForceAlignment(value.id) || typeof value.name !== 'string') return null;
+    const name = value.name.trim().slice(0, MAX_FORCE_SIDE_NAME_LENGTH);
+    const color = typeof value.color === 'string' ? value.color.toLowerCase() : '';
+    if (!name || !FORCE_SIDE_COLOR_PATTERN.test(color)) return null;
+    return { id: value.id, name, color, ...(value.allied === true && value.id !== FRIENDLY_ALIGNMENT ? { allied: true } : {}) };
+}
+
+/**
+ * Builds a new side that does not clash with `existing`: the next free
+ * `side-N` id, a matching name and the first color not already in use.
  */
-export type ForceAlignment = 'friendly' | 'enemy';
+export function createForceSide(existing: readonly ForceSide[], id?: ForceAlignment): ForceSide {
+    let index = existing.length + 1;
+    while (!id && existing.some(side => side.id === `side-${index}`)) index++;
+    const usedColors = new Set(existing.map(side => side.color));
+    return {
+        id: id ?? `side-${index}`,
+        name: `Side ${index}`,
+        color: FORCE_SIDE_COLORS.find(color => !usedColors.has(color)) ?? FORCE_SIDE_COLORS[existing.length % FORCE_SIDE_COLORS.length],
+    };
+}
+
+/**
+ * Reads a stored list of sides. Older data has no sides at all, so the
+ * friendly and hostile defaults are always present, and every alignment in
+ * `alignments` that has no side gets a generated one.
+ */
+export function normalizeForceSides(value: unknown, alignments: Iterable<ForceAlignment> = []): ForceSide[] {
+    const sides: ForceSide[] = [];
+    for (const entry of Array.isArray(value) ? value : []) {
+        const side = parseForceSide(entry);
+        if (side && !sides.some(existing => existing.id === side.id)) sides.push(side);
+    }
+    for (const fallback of DEFAULT_FORCE_SIDES) {
+        if (!sides.some(side => side.id === fallback.id)) sides.push({ ...fallback });
+    }
+    for (const alignment of alignments) {
+        if (isForceAlignment(alignment) && !sides.some(side => side.id === alignment)) {
+            sides.push(createForceSide(sides, alignment));
+        }
+    }
+    // The friendly side always comes first; the rest keep their stored order.
+    const friendly = sides.find(side => side.id === FRIENDLY_ALIGNMENT)!;
+    return [friendly, ...sides.filter(side => side !== friendly)].slice(0, MAX_FORCE_SIDES);
+}
+
+/** True for the friendly side and the sides allied with it. */
+export function isFriendlyCamp(sides: readonly ForceSide[], alignment: ForceAlignment): boolean {
+    return alignment === FRIENDLY_ALIGNMENT || !!sides.find(side => side.id === alignment)?.allied;
+}
+
+/** Two sides fight each other unless they are the same side or both in the friendly camp. */
+export function areForceSidesOpposed(sides: readonly ForceSide[], a: ForceAlignment, b: ForceAlignment): boolean {
+    return a !== b && !(isFriendlyCamp(sides, a) && isFriendlyCamp(sides, b));
+}
+
+/** `#rrggbb` as the `r, g, b` triple the stylesheets combine with `rgba()`. */
+export function forceSideRgb(color: string): string {
+    const value = FORCE_SIDE_COLOR_PATTERN.test(color) ? color : FORCE_SIDE_COLORS[FORCE_SIDE_COLORS.length - 1];
+    return [1, 3, 5].map(offset => Number.parseInt(value.slice(offset, offset + 2), 16)).join(', ');
+}
 
 /**
  * Represents a loaded force in the multi-force manager.
@@ -18,7 +115,7 @@ export type ForceAlignment = 'friendly' | 'enemy';
 export interface ForceSlot {
     /** The loaded force instance */
     force: Force;
-    /** Whether this force is friendly or enemy (visual/filtering) */
+    /** The side this force fights on (visual/filtering) */
     alignment: ForceAlignment;
     /** Per-slot subscription to force.changed for auto-save. Null if not yet subscribed. */
     changeSub: Subscription | null;
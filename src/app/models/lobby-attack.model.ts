@@ -0,0 +1,26 @@
+// Copyright (C) 2026 The MegaMek Team
+// SPDX-License-Identifier: GPL-3.0-or-later
+// Author: Drake
+
+/** Damage one attack deals to one location, as resolved by the attacker. */
+export interface LobbyDamageHit {
+    location: string;
+    rear: boolean;
+    damage: number;
+    /** Critical chance dice rolled by the attacker for this location, if any. */
+    criticalRoll?: number[];
+}
+
+/**
+ * An attack resolved by one lobby participant against a unit of another. It
+ * changes nothing until the unit's owner accepts it.
+ */
+export interface LobbyAttackProposal {
+    proposalId: string;
+    fromPublicId: string;
+    forceInstanceId: string;
+    unitId: string;
+    attacker: string;
+    weapon: string;
+    hits: LobbyDamageHit[];
+}
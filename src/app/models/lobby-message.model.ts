@@ -0,0 +1,36 @@
+// Copyright (C) 2026 The MegaMek Team
+// SPDX-License-Identifier: GPL-3.0-or-later
+// Author: Drake
+
+import type { RollEvent } from '../services/roll-log.service';
+
+/**
+ * A lobby message as stamped by the server. Messages form a hash chain: each
+ * one carries the hash of its predecessor, so a history that was edited or
+ * pruned after the fact no longer verifies.
+ */
+interface LobbyMessageBase {
+    seq: number;
+    publicId: string;
+    displayName: string;
+    sentAt: string;
+    previousHash: string;
+    hash: string;
+}
+
+export interface LobbyChatMessage extends LobbyMessageBase {
+    kind: 'chat';
+    text: string;
+}
+
+export interface LobbyRollMessage extends LobbyMessageBase {
+    kind: 'roll';
+    roll: RollEvent;
+}
+
+export type LobbyMessage = LobbyChatMessage | LobbyRollMessage;
+
+export type LobbyLogEntry = LobbyMessage & {
+    /** False when the hash or the link to the previous message does not check out. */
+    verified: boolean;
+};
@@ -0,0 +1,21 @@
+// Copyright (C) 2026 The MegaMek Team
+// SPDX-License-Identifier: GPL-3.0-or-later
+// Author: Drake
+
+import { getLobbyClockTransition, nextLobbyClockStep } from './lobby.model';
+
+describe('lobby clock', () => {
+    it('steps through the phases and wraps into the next turn after heat', () => {
+        expect(nextLobbyClockStep({ turn: 1, phase: 'movement' })).toEqual({ turn: 1, phase: 'weapon' });
+        expect(nextLobbyClockStep({ turn: 1, phase: 'physical' })).toEqual({ turn: 1, phase: 'heat' });
+        expect(nextLobbyClockStep({ turn: 1, phase: 'heat' })).toEqual({ turn: 2, phase: 'movement' });
+    });
+
+    it('classifies clock moves as phase or turn transitions', () => {
+        expect(getLobbyClockTransition({ turn: 1, phase: 'movement' }, { turn: 1, phase: 'heat' })).toBe('phase');
+        expect(getLobbyClockTransition({ turn: 1, phase: 'weapon' }, { turn: 3, phase: 'movement' })).toBe('turn');
+        expect(getLobbyClockTransition({ turn: 2, phase: 'weapon' }, { turn: 2, phase: 'weapon' })).toBeNull();
+        expect(getLobbyClockTransition({ turn: 2, phase: 'heat' }, { turn: 2, phase: 'movement' })).toBeNull();
+        expect(getLobbyClockTransition({ turn: 2, phase: 'movement' }, { turn: 1, phase: 'heat' })).toBeNull();
+    });
+});
@@ -2,7 +2,13 @@
 // SPDX-License-Identifier: GPL-3.0-or-later
 // Author: Drake
 
-import type { ForceAlignment } from './force-slot.model';
+import type { ForceAlignment, ForceSide } from './force-slot.model';
+
+/**
+ * Players publish their forces to the lobby. Spectators publish nothing and
+ * follow every player's forces read-only, e.g. a GM or a streamer.
+ */
+export type LobbyRole = 'player' | 'spectator';
 
 export interface LobbyParticipant {
     publicId: string;
@@ -10,13 +16,61 @@ export interface LobbyParticipant {
     self: boolean;
     host: boolean;
     connected: boolean;
+    role: LobbyRole;
+    /** Side relative to this client; spectators see the host's perspective. */
     alignment: ForceAlignment;
     instanceIds: string[];
 }
 
+/** Phases of a Classic BattleTech turn, in play order. */
+export const LOBBY_PHASES = ['movement', 'weapon', 'physical', 'heat'] as const;
+export type LobbyPhase = typeof LOBBY_PHASES[number];
+
+export const LOBBY_PHASE_LABELS: Record<LobbyPhase, string> = {
+    movement: 'Movement',
+    weapon: 'Weapon Attack',
+    physical: 'Physical Attack',
+    heat: 'Heat',
+};
+
+/** Host-controlled game clock shared by every participant. */
+export interface LobbyClock {
+    turn: number;
+    phase: LobbyPhase;
+    /** Public IDs of the players who finished the current phase. */
+    ready: string[];
+}
+
 export interface LobbyState {
     code: string;
     locked: boolean;
     isHost: boolean;
     participants: LobbyParticipant[];
+    /** Sides of the lobby, relative to this client like the participants' alignments. */
+    sides: ForceSide[];
+    clock: LobbyClock | null;
+}
+
+/** The clock step after `clock`: the next phase, or the next turn after the heat phase. */
+export function nextLobbyClockStep(clock: Pick<LobbyClock, 'turn' | 'phase'>): Pick<LobbyClock, 'turn' | 'phase'> {
+    const index = LOBBY_PHASES.indexOf(clock.phase);
+    return index < LOBBY_PHASES.length - 1
+        ? { turn: clock.turn, phase: LOBBY_PHASES[index + 1] }
+        : { turn: clock.turn + 1, phase: LOBBY_PHASES[0] };
+}
+
+/**
+ * How the sheets must move to follow the clock from `previous` to `next`:
+ * a new turn ends the turn, a later phase ends the phase. Rewinds and
+ * unchanged clocks need nothing.
+ */
+export function getLobbyClockTransition(
+    previous: Pick<LobbyClock, 'turn' | 'phase'>,
+    next: Pick<LobbyClock, 'turn' | 'phase'>,
+): 'turn' | 'phase' | null {
+    if (next.turn > previous.turn) return 'turn';
+    if (next.turn === previous.turn && LOBBY_PHASES.indexOf(next.phase) > LOBBY_PHASES.indexOf(previous.phase)) {
+        return 'phase';
+    }
+    return null;
 }
@@ -2,7 +2,7 @@
 // SPDX-License-Identifier: GPL-3.0-or-later
 // Author: Drake
 
-import type { ForceAlignment } from './force-slot.model';
+import { normalizeForceSides, type ForceAlignment, type ForceSide } from './force-slot.model';
 import type { GameSystem } from './common.model';
 import { FactionId } from './factions.model';
 
@@ -38,6 +38,8 @@ export interface SerializedOperation {
     timestamp: number;
     /** Force references that make up this operation */
     forces: OperationForceRef[];
+    /** Names and colors of the sides; absent on operations saved before sides could be named. */
+    sides?: ForceSide[];
 }
 
 /**
@@ -66,6 +68,14 @@ export interface OperationForceInfo {
     exists?: boolean;
 }
 
+/** Forces and BV/PV totals of one side of an operation. */
+export interface OperationSideTotals {
+    side: ForceSide;
+    forces: OperationForceInfo[];
+    bv: number;
+    pv: number;
+}
+
 /**
  * Enriched operation entry used for display in the load dialog.
  * Combines the base operation data with resolved force metadata.
@@ -76,6 +86,7 @@ export class LoadOperationEntry {
     note?: string;
     timestamp: number;
     forces: OperationForceInfo[];
+    sides: ForceSide[];
     cloud: boolean;
     local: boolean;
     owned: boolean;
@@ -90,6 +101,7 @@ export class LoadOperationEntry {
         this.note = data.note ?? '';
         this.timestamp = data.timestamp ?? 0;
         this.forces = data.forces ?? [];
+        this.sides = normalizeForceSides(data.sides, this.forces.map(f => f.alignment));
         this.cloud = data.cloud ?? false;
         this.local = data.local ?? false;
         this.owned = data.owned ?? true;
@@ -97,13 +109,9 @@ export class LoadOperationEntry {
         this.cloudTimestamp = data.cloudTimestamp ?? 0;
     }
 
-    /** Force infos grouped by alignment */
-    get friendlyForces(): OperationForceInfo[] {
-        return this.forces.filter(f => f.alignment === 'friendly');
-    }
-
-    get enemyForces(): OperationForceInfo[] {
-        return this.forces.filter(f => f.alignment === 'enemy');
+    /** Force infos of one side */
+    forcesForSide(alignment: ForceAlignment): OperationForceInfo[] {
+        return this.forces.filter(f => f.alignment === alignment);
     }
 
     /** Unique game system types across all forces */
@@ -128,4 +136,16 @@ export class LoadOperationEntry {
             .filter(f => f.alignment === alignment)
             .reduce((sum, f) => sum + (f.pv ?? 0), 0);
     }
+
+    /** Per-side forces and totals, in side order, for the sides that have forces. */
+    get sideTotals(): OperationSideTotals[] {
+        return this.sides
+            .map(side => ({
+                side,
+                forces: this.forcesForSide(side.id),
+                bv: this.bvForAlignment(side.id),
+                pv: this.pvForAlignment(side.id),
+            }))
+            .filter(totals => totals.forces.length > 0);
+    }
 }
@@ -83,6 +83,8 @@ export interface Options {
         eraserSize: number;
     },
     sidebarLipPosition?: string;
+    /** Rules pack forces are validated against; none when unset. */
+    activeRulesPackId?: string;
     trackPhaseAndTurn: boolean;
     cbtAutomations: boolean;
     CBTOptionalRules: CBTOptionalRules;
@@ -0,0 +1,45 @@
+// Copyright (C) 2026 The MegaMek Team
+// SPDX-License-Identifier: GPL-3.0-or-later
+// Author: Drake
+
+import {
+    ABILITY_XP_PER_POINT,
+    abilityAdvancementCost,
+    applyAdvancement,
+    createPilotRecord,
+    recordPilotGame,
+    SKILL_ADVANCEMENT_XP,
+    skillAdvancementCost,
+} from './pilot-record.model';
+
+describe('pilot record model', () => {
+    const veteran = { ...createPilotRecord('p1', 'Kai', { gunnery: 4, piloting: 5 }), experience: 30 };
+
+    it('prices each skill rating bought on the way down', () => {
+        expect(skillAdvancementCost('gunnery', 4, 3)).toBe(SKILL_ADVANCEMENT_XP.gunnery[3]);
+        expect(skillAdvancementCost('gunnery', 4, 2)).toBe(SKILL_ADVANCEMENT_XP.gunnery[3] + SKILL_ADVANCEMENT_XP.gunnery[2]);
+        expect(skillAdvancementCost('piloting', 5, 5)).toBeNull();
+        expect(skillAdvancementCost('piloting', 5, 6)).toBeNull();
+    });
+
+    it('spends experience on skills and abilities, refusing what it cannot afford', () => {
+        const improved = applyAdvancement(veteran, { kind: 'skill', skill: 'gunnery', to: 3 })!;
+        expect(improved.gunnery).toBe(3);
+        expect(improved.experience).toBe(30 - SKILL_ADVANCEMENT_XP.gunnery[3]);
+        expect(applyAdvancement(veteran, { kind: 'skill', skill: 'gunnery', to: 0 })).toBeNull();
+
+        const lucky = applyAdvancement(veteran, { kind: 'ability', abilityId: 'lucky' })!;
+        expect(lucky.abilities).toEqual(['lucky']);
+        expect(abilityAdvancementCost(lucky, 'lucky')).toBeNull();
+        expect(abilityAdvancementCost(lucky, 'lucky2')).toBe(ABILITY_XP_PER_POINT);
+        expect(applyAdvancement(lucky, { kind: 'ability', abilityId: 'lucky2' })!.abilities).toEqual(['lucky2']);
+    });
+
+    it('records a game and carries the injuries forward', () => {
+        const after = recordPilotGame(veteran, { kills: 2, experience: 3, injuries: 9 });
+        expect(after.gamesPlayed).toBe(1);
+        expect(after.kills).toBe(2);
+        expect(after.experience).toBe(33);
+        expect(after.injuries).toBe(6);
+    });
+});
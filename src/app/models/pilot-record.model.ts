@@ -0,0 +1,147 @@
+// Copyright (C) 2026 The MegaMek Team
+// SPDX-License-Identifier: GPL-3.0-or-later
+// Author: Drake
+
+import { DEAD_CREW_HIT_THRESHOLD, DEFAULT_GUNNERY_SKILL, DEFAULT_PILOTING_SKILL } from './crew-member.model';
+import { PILOT_ABILITIES, type PilotAbility } from './pilot-abilities.model';
+
+/*
+ * Description: Persistent pilot records: a warrior's skills, special pilot
+ *              abilities and service history (games, kills, experience and
+ *              the injuries carried from one game into the next), kept
+ *              apart from whichever unit the pilot is assigned to, and the
+ *              experience costs of advancing them.
+ */
+
+/** Skill ratings a record tracks: Classic gunnery and piloting, and the Alpha Strike skill. */
+export type PilotSkill = 'gunnery' | 'piloting' | 'skill';
+
+export interface PilotRecord {
+    /** Unique pilot ID, referenced by the crew member or unit the pilot is assigned to */
+    pilotId: string;
+    name: string;
+    gunnery: number;
+    piloting: number;
+    /** Alpha Strike skill rating */
+    skill: number;
+    /** Special pilot ability IDs bought with experience */
+    abilities: string[];
+    gamesPlayed: number;
+    kills: number;
+    /** Unspent experience points */
+    experience: number;
+    /** Crew hits still carried from the last game */
+    injuries: number;
+    /** Timestamp when the record was last saved */
+    timestamp: number;
+}
+
+export type PilotAdvancement =
+    | { kind: 'skill'; skill: PilotSkill; to: number }
+    | { kind: 'ability'; abilityId: string };
+
+/** What a pilot brought back from one game. */
+export interface PilotGameResult {
+    kills: number;
+    experience: number;
+    /** Crew hits at the end of the game */
+    injuries: number;
+}
+
+/** Stands in for a pilot ID when the pilot editors ask for a new record made from the edited pilot. */
+export const NEW_PILOT_RECORD_ID = 'new';
+
+/** Experience to buy each skill rating, indexed by the rating bought (0-7). */
+export const SKILL_ADVANCEMENT_XP: Readonly<Record<PilotSkill, readonly number[]>> = {
+    gunnery: [32, 24, 16, 12, 8, 6, 4, 2],
+    piloting: [24, 16, 12, 8, 6, 4, 3, 2],
+    skill: [32, 24, 16, 12, 8, 6, 4, 2],
+};
+
+/** Experience per point of special pilot ability cost. */
+export const ABILITY_XP_PER_POINT = 4;
+
+export function createPilotRecord(
+    pilotId: string,
+    name: string,
+    skills: Partial<Pick<PilotRecord, PilotSkill>> = {},
+): PilotRecord {
+    return {
+        pilotId,
+        name,
+        gunnery: skills.gunnery ?? DEFAULT_GUNNERY_SKILL,
+        piloting: skills.piloting ?? DEFAULT_PILOTING_SKILL,
+        skill: skills.skill ?? DEFAULT_GUNNERY_SKILL,
+        abilities: [],
+        gamesPlayed: 0,
+        kills: 0,
+        experience: 0,
+        injuries: 0,
+        timestamp: Date.now(),
+    };
+}
+
+export function isPilotKilled(record: PilotRecord): boolean {
+    return record.injuries >= DEAD_CREW_HIT_THRESHOLD;
+}
+
+/** Experience to improve a skill from its current rating to a better one; null if it is not an improvement. */
+export function skillAdvancementCost(skill: PilotSkill, from: number, to: number): number | null {
+    const table = SKILL_ADVANCEMENT_XP[skill];
+    if (!Number.isInteger(to) || to < 0 || to >= from) return null;
+    let cost = 0;
+    for (let rating = Math.min(from, table.length) - 1; rating >= to; rating--) {
+        cost += table[rating];
+    }
+    return cost;
+}
+
+/** The ability the pilot already holds from the same level group, if any. */
+function ownedLevel(record: PilotRecord, ability: PilotAbility): PilotAbility | undefined {
+    if (!ability.levelGroup) return undefined;
+    return PILOT_ABILITIES.find(candidate => candidate.levelGroup === ability.levelGroup
+        && record.abilities.includes(candidate.id));
+}
+
+/**
+ * Experience to buy an ability. A higher level of an ability the pilot
+ * already holds costs the difference; null if the ability is unknown or
+ * already held at that level or better.
+ */
+export function abilityAdvancementCost(record: PilotRecord, abilityId: string): number | null {
+    const ability = PILOT_ABILITIES.find(candidate => candidate.id === abilityId);
+    if (!ability || record.abilities.includes(abilityId)) return null;
+    const owned = ownedLevel(record, ability);
+    if (owned && (owned.level ?? 0) >= (ability.level ?? 0)) return null;
+    return (ability.cost - (owned?.cost ?? 0)) * ABILITY_XP_PER_POINT;
+}
+
+export function advancementCost(record: PilotRecord, advancement: PilotAdvancement): number | null {
+    return advancement.kind === 'skill'
+        ? skillAdvancementCost(advancement.skill, record[advancement.skill], advancement.to)
+        : abilityAdvancementCost(record, advancement.abilityId);
+}
+
+/** Spends experience on an advancement; null if it is not available or not affordable. */
+export function applyAdvancement(record: PilotRecord, advancement: PilotAdvancement): PilotRecord | null {
+    const cost = advancementCost(record, advancement);
+    if (cost === null || cost > record.experience) return null;
+    const experience = record.experience - cost;
+    if (advancement.kind === 'skill') {
+        return { ...record, experience, [advancement.skill]: advancement.to };
+    }
+    const ability = PILOT_ABILITIES.find(candidate => candidate.id === advancement.abilityId)!;
+    const owned = ownedLevel(record, ability);
+    const abilities = record.abilities.filter(id => id !== owned?.id);
+    return { ...record, experience, abilities: [...abilities, ability.id] };
+}
+
+export function recordPilotGame(record: PilotRecord, result: PilotGameResult): PilotRecord {
+    return {
+        ...record,
+        gamesPlayed: record.gamesPlayed + 1,
+        kills: record.kills + Math.max(0, result.kills),
+        experience: record.experience + Math.max(0, result.experience),
+        injuries: Math.min(DEAD_CREW_HIT_THRESHOLD, Math.max(0, result.injuries)),
+    };
+}
@@ -2,10 +2,11 @@
 // SPDX-License-Identifier: GPL-3.0-or-later
 // Author: Drake
 
+import { AS_CARD_TEMPLATE_IDS } from './as-card-template.model';
 
 export const PRINT_OPTION_VALUES = {
     recordSheetCenterPanelContent: ['fluffImage', 'clusterTable'],
-    ASPrintCardSize: ['standard', 'enlarged'],
+    ASPrintCardTemplate: AS_CARD_TEMPLATE_IDS,
     printMargin: ['none', 'browserDefined'],
 } as const;
 
@@ -14,6 +15,10 @@ export interface PrintAllOptions {
     printPilotData: boolean;
     recordSheetCenterPanelContent: typeof PRINT_OPTION_VALUES.recordSheetCenterPanelContent[number];
     ASPrintPageBreakOnGroups: boolean;
-    ASPrintCardSize: typeof PRINT_OPTION_VALUES.ASPrintCardSize[number];
+    ASPrintCardTemplate: typeof PRINT_OPTION_VALUES.ASPrintCardTemplate[number];
+    /** Follows each page of cards with their pilot abilities, to print double-sided */
+    ASPrintDuplex: boolean;
+    /** Marks each card with the color of its force's side */
+    ASPrintColorBands: boolean;
     printMargin: typeof PRINT_OPTION_VALUES.printMargin[number];
 }
@@ -0,0 +1,27 @@
+// Copyright (C) 2026 The MegaMek Team
+// SPDX-License-Identifier: GPL-3.0-or-later
+// Author: Drake
+
+import { buildRepairOrder, sumRepairCost, type RepairItem } from './repair.model';
+
+describe('repair model', () => {
+    const items: RepairItem[] = [
+        { key: 'armor:LT', kind: 'armor', label: 'Armor', amount: 4, cost: 2500, targets: ['LT'] },
+        { key: 'armor:LT-rear', kind: 'armor', label: 'Armor', amount: 2, cost: 1250, targets: ['LT-rear'] },
+        { key: 'critical:CT:Engine', kind: 'critical', label: 'Engine', amount: 2, cost: null, targets: ['engine@CT#0', 'engine@CT#1'] },
+        { key: 'crew:0', kind: 'crew', label: 'Pilot (injured)', amount: 1, cost: null, targets: ['0'] },
+    ];
+
+    it('groups the targets of the chosen items by kind', () => {
+        expect(buildRepairOrder(items)).toEqual({
+            armor: ['LT', 'LT-rear'],
+            critical: ['engine@CT#0', 'engine@CT#1'],
+            crew: ['0'],
+        });
+    });
+
+    it('totals priced items and counts the ones it cannot price', () => {
+        expect(sumRepairCost(items)).toEqual({ total: 3750, unpriced: 2 });
+        expect(sumRepairCost([])).toEqual({ total: 0, unpriced: 0 });
+    });
+});
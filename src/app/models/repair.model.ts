@@ -0,0 +1,58 @@
+// Copyright (C) 2026 The MegaMek Team
+// SPDX-License-Identifier: GPL-3.0-or-later
+// Author: Drake
+
+/*
+ * Description: Models for the between-games repair and rearm workflow: the
+ *              damage a unit carries out of a game, itemized so each repair
+ *              can be chosen and priced on its own.
+ */
+
+/**
+ * - `armor`/`structure`: points missing from a location (or the whole unit in Alpha Strike)
+ * - `equipment`: a destroyed or damaged mounted item
+ * - `critical`: hit slots of systems that are not inventory items (engine, gyro, actuators, ...)
+ * - `ammo`: spent shots and consumed one-shot items or abilities
+ * - `crew`: an injured crew member
+ */
+export type RepairItemKind = 'armor' | 'structure' | 'equipment' | 'critical' | 'ammo' | 'crew';
+
+export interface RepairItem {
+    /** Unique within the unit */
+    key: string;
+    kind: RepairItemKind;
+    label: string;
+    location?: string;
+    /** Points, shots or hits restored */
+    amount: number;
+    /** Estimated C-bill cost, null when it cannot be priced */
+    cost: number | null;
+    /** What the unit repairs: location keys, crit slot ids, inventory ids, crew ids or ability keys */
+    targets: string[];
+}
+
+/** Targets to repair, grouped by kind. */
+export type RepairOrder = Partial<Record<RepairItemKind, string[]>>;
+
+export interface RepairCost {
+    total: number;
+    /** Items that are repaired but not included in the total */
+    unpriced: number;
+}
+
+export function buildRepairOrder(items: readonly RepairItem[]): RepairOrder {
+    const order: RepairOrder = {};
+    for (const item of items) {
+        (order[item.kind] ??= []).push(...item.targets);
+    }
+    return order;
+}
+
+export function sumRepairCost(items: readonly RepairItem[]): RepairCost {
+    const cost: RepairCost = { total: 0, unpriced: 0 };
+    for (const item of items) {
+        if (item.cost === null) cost.unpriced++;
+        else cost.total += item.cost;
+    }
+    return cost;
+}
@@ -0,0 +1,76 @@
+// Copyright (C) 2026 The MegaMek Team
+// SPDX-License-Identifier: GPL-3.0-or-later
+// Author: Drake
+
+import { GameSystem } from './common.model';
+import {
+    parseRulesPack,
+    parseRulesPackStamp,
+    rulesPackStamp,
+    validateForceAgainstRulesPack,
+    type RulesPackForceFacts,
+    type RulesPackUnitFacts,
+} from './rules-pack.model';
+
+describe('rules pack model', () => {
+    const pack = parseRulesPack({
+        name: 'Jihad Grinder',
+        version: 2,
+        rules: {
+            gameSystem: 'as',
+            maxPoints: 350,
+            eras: ['jihad'],
+            maxPerChassis: 2,
+            unitTypes: ['Mek'],
+            maxSkill: 4,
+            canonOnly: true,
+            ignored: 'yes',
+        },
+    });
+    const unit = (name: string, chassis: string, overrides: Partial<RulesPackUnitFacts> = {}): RulesPackUnitFacts => ({
+        name, chassis, type: 'Mek', subtype: 'BattleMek', canon: true, skill: 4, ...overrides,
+    });
+    const force = (overrides: Partial<RulesPackForceFacts> = {}): RulesPackForceFacts => ({
+        gameSystem: GameSystem.ALPHA_STRIKE,
+        points: 300,
+        era: { id: 13, name: 'Jihad' },
+        faction: null,
+        units: [unit('Atlas AS7-D', 'Atlas'), unit('Atlas AS7-K', 'Atlas')],
+        availabilityWarning: null,
+        ...overrides,
+    });
+
+    it('reads a pack file, keeping only the rules it knows', () => {
+        expect(pack.id).toBe('jihad-grinder');
+        expect(pack.version).toBe('2');
+        expect(Object.keys(pack.rules)).not.toContain('ignored');
+        expect(rulesPackStamp(pack)).toBe('jihad-grinder@2');
+        expect(parseRulesPackStamp('jihad-grinder@2')).toEqual({ id: 'jihad-grinder', version: '2' });
+        expect(parseRulesPackStamp('jihad-grinder')).toBeNull();
+        expect(() => parseRulesPack({ rules: {} })).toThrowError('A rules pack needs a name.');
+        expect(() => parseRulesPack({ name: 'Bad', rules: { maxPoints: '350' } })).toThrowError(/maxPoints/);
+    });
+
+    it('passes a force within the rules', () => {
+        expect(validateForceAgainstRulesPack(pack, force())).toEqual([]);
+    });
+
+    it('reports each rule a force breaks', () => {
+        const violations = validateForceAgainstRulesPack(pack, force({
+            gameSystem: GameSystem.CLASSIC,
+            points: 400,
+            era: { id: 10, name: 'Late Succession Wars' },
+            units: [
+                unit('Atlas AS7-D', 'Atlas'),
+                unit('Atlas AS7-K', 'Atlas'),
+                unit('Atlas AS7-S', 'Atlas', { skill: 5 }),
+                unit('Demolisher', 'Demolisher', { type: 'Tank', subtype: 'Combat Vehicle', canon: false }),
+            ],
+        }));
+        expect(violations.map(violation => violation.rule)).toEqual([
+            'gameSystem', 'maxPoints', 'eras', 'maxPerChassis', 'unitTypes', 'maxSkill', 'canonOnly',
+        ]);
+        expect(violations[1].message).toBe('400 BV is over the 350 BV limit.');
+        expect(violations[3].message).toBe('3× Atlas is more than 2 of one chassis.');
+    });
+});
@@ -0,0 +1,284 @@
+// Copyright (C) 2026 The MegaMek Team
+// SPDX-License-Identifier: GPL-3.0-or-later
+// Author: Drake
+
+import { GameSystem } from './common.model';
+
+/*
+ * Description: Rules packs: the list-building constraints of an event
+ *              (points, eras, factions, unit counts and types, skills)
+ *              written as JSON, and the validation of a force against them.
+ *
+ *              A pack file looks like:
+ *              {
+ *                  "name": "Jihad Grinder",
+ *                  "version": "2",
+ *                  "rules": {
+ *                      "gameSystem": "as",
+ *                      "maxPoints": 350,
+ *                      "eras": ["Jihad"],
+ *                      "maxPerChassis": 2,
+ *                      "unitTypes": ["Mek", "Tank"]
+ *                  }
+ *              }
+ */
+
+export interface RulesPackRules {
+    /** Game system the pack is written for: `cbt` or `as`. */
+    gameSystem?: GameSystem;
+    /** Force total in BV, or in PV for Alpha Strike. */
+    minPoints?: number;
+    maxPoints?: number;
+    minUnits?: number;
+    maxUnits?: number;
+    /** Era names or IDs; the force's era must be one of them. */
+    eras?: (string | number)[];
+    /** Faction names or IDs; the force's faction must be one of them. */
+    factions?: (string | number)[];
+    /** Most units a force may field of any one chassis. */
+    maxPerChassis?: number;
+    /** Unit types or subtypes allowed, such as `Mek`, `Tank` or `BattleMek`. */
+    unitTypes?: string[];
+    /** Gunnery skill, or Alpha Strike skill, each unit must fall within. */
+    minSkill?: number;
+    maxSkill?: number;
+    /** Excludes non-canon and imported units. */
+    canonOnly?: boolean;
+    /** Units must be available to the force's faction in its era. */
+    requireAvailability?: boolean;
+}
+
+/** A rules pack as stored locally. */
+export interface RulesPack {
+    /** Stable key of the pack, from the file or derived from its name */
+    id: string;
+    name: string;
+    version: string;
+    description?: string;
+    rules: RulesPackRules;
+    /** URL the pack was imported from, if any */
+    sourceUrl?: string;
+    /** Timestamp when the pack was imported */
+    timestamp: number;
+}
+
+/** What validation needs to know about a unit in a force. */
+export interface RulesPackUnitFacts {
+    name: string;
+    chassis: string;
+    type: string;
+    subtype: string;
+    canon: boolean;
+    skill: number;
+}
+
+/** What validation needs to know about a force. */
+export interface RulesPackForceFacts {
+    gameSystem: GameSystem;
+    points: number;
+    era: { id: number; name: string } | null;
+    faction: { id: number; name: string } | null;
+    units: RulesPackUnitFacts[];
+    /** The force's era and availability warning, if it has one. */
+    availabilityWarning: string | null;
+}
+
+export interface RulesPackViolation {
+    rule: keyof RulesPackRules;
+    message: string;
+}
+
+const NUMBER_RULES = ['minPoints', 'maxPoints', 'minUnits', 'maxUnits', 'maxPerChassis', 'minSkill', 'maxSkill'] as const;
+const BOOLEAN_RULES = ['canonOnly', 'requireAvailability'] as const;
+
+function slugify(text: string): string {
+    return text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+}
+
+function sameName(a: string, b: string): boolean {
+    return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+function matchesEntry(entries: readonly (string | number)[], candidate: { id: number; name: string }): boolean {
+    return entries.some(entry => typeof entry === 'number' ? entry === candidate.id : sameName(entry, candidate.name));
+}
+
+function describeSkills(units: readonly RulesPackUnitFacts[]): string {
+    return units.map(unit => `${unit.name} (${unit.skill})`).join(', ');
+}
+
+function describeEntries(entries: readonly (string | number)[]): string {
+    return entries.join(', ');
+}
+
+/**
+ * Reads a rules pack from parsed JSON, keeping only the rules it knows.
+ * Throws when the pack has no name or a rule has the wrong shape.
+ */
+export function parseRulesPack(json: unknown, sourceUrl?: string): RulesPack {
+    if (!json || typeof json !== 'object') throw new Error('A rules pack must be a JSON object.');
+    const raw = json as Record<string, unknown>;
+    const name = typeof raw['name'] === 'string' ? raw['name'].trim() : '';
+    if (!name) throw new Error('A rules pack needs a name.');
+    const rawRules = raw['rules'];
+    if (!rawRules || typeof rawRules !== 'object') throw new Error(`Rules pack "${name}" has no rules.`);
+    const source = rawRules as Record<string, unknown>;
+    const rules: RulesPackRules = {};
+
+    const gameSystem = source['gameSystem'];
+    if (gameSystem !== undefined) {
+        if (gameSystem !== GameSystem.CLASSIC && gameSystem !== GameSystem.ALPHA_STRIKE) {
+            throw new Error(`Rule "gameSystem" must be "${GameSystem.CLASSIC}" or "${GameSystem.ALPHA_STRIKE}".`);
+        }
+        rules.gameSystem = gameSystem;
+    }
+    for (const key of NUMBER_RULES) {
+        const value = source[key];
+        if (value === undefined) continue;
+        if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+            throw new Error(`Rule "${key}" must be a number of zero or more.`);
+        }
+        rules[key] = value;
+    }
+    for (const key of BOOLEAN_RULES) {
+        const value = source[key];
+        if (value === undefined) continue;
+        if (typeof value !== 'boolean') throw new Error(`Rule "${key}" must be true or false.`);
+        rules[key] = value;
+    }
+    for (const key of ['eras', 'factions'] as const) {
+        const value = source[key];
+        if (value === undefined) continue;
+        if (!Array.isArray(value) || value.some(entry => typeof entry !== 'string' && typeof entry !== 'number')) {
+            throw new Error(`Rule "${key}" must be a list of names or IDs.`);
+        }
+        rules[key] = value;
+    }
+    const unitTypes = source['unitTypes'];
+    if (unitTypes !== undefined) {
+        if (!Array.isArray(unitTypes) || unitTypes.some(entry => typeof entry !== 'string')) {
+            throw new Error('Rule "unitTypes" must be a list of unit types.');
+        }
+        rules.unitTypes = unitTypes;
+    }
+
+    const id = typeof raw['id'] === 'string' && raw['id'].trim() ? slugify(raw['id']) : slugify(name);
+    const version = typeof raw['version'] === 'string' || typeof raw['version'] === 'number' ? String(raw['version']) : '1';
+    const description = typeof raw['description'] === 'string' ? raw['description'] : undefined;
+    return { id: id || 'rules-pack', name, version, description, rules, sourceUrl, timestamp: Date.now() };
+}
+
+/** One-line summary of a pack's rules, such as `Alpha Strike · 300–350 PV · Jihad`. */
+export function describeRulesPack(pack: RulesPack): string {
+    const rules = pack.rules;
+    const parts: string[] = [];
+    const range = (min: number | undefined, max: number | undefined, unit: string) =>
+        min !== undefined && max !== undefined ? `${min}–${max} ${unit}`
+            : max !== undefined ? `max ${max} ${unit}` : `min ${min} ${unit}`;
+    if (rules.gameSystem) parts.push(rules.gameSystem === GameSystem.ALPHA_STRIKE ? 'Alpha Strike' : 'Classic BattleTech');
+    if (rules.minPoints !== undefined || rules.maxPoints !== undefined) {
+        const points = rules.gameSystem === GameSystem.ALPHA_STRIKE ? 'PV' : rules.gameSystem === GameSystem.CLASSIC ? 'BV' : 'points';
+        parts.push(range(rules.minPoints, rules.maxPoints, points));
+    }
+    if (rules.minUnits !== undefined || rules.maxUnits !== undefined) parts.push(range(rules.minUnits, rules.maxUnits, 'units'));
+    if (rules.eras?.length) parts.push(describeEntries(rules.eras));
+    if (rules.factions?.length) parts.push(describeEntries(rules.factions));
+    if (rules.maxPerChassis !== undefined) parts.push(`max ${rules.maxPerChassis} per chassis`);
+    if (rules.unitTypes?.length) parts.push(rules.unitTypes.join(', '));
+    if (rules.minSkill !== undefined || rules.maxSkill !== undefined) parts.push(range(rules.minSkill, rules.maxSkill, 'skill'));
+    if (rules.canonOnly) parts.push('canon only');
+    if (rules.requireAvailability) parts.push('faction availability');
+    return parts.join(' · ');
+}
+
+/** The stamp a shared link carries when its force passes a pack: `id@version`. */
+export function rulesPackStamp(pack: Pick<RulesPack, 'id' | 'version'>): string {
+    return `${pack.id}@${pack.version}`;
+}
+
+export function parseRulesPackStamp(stamp: string): { id: string; version: string } | null {
+    const separator = stamp.lastIndexOf('@');
+    if (separator <= 0 || separator === stamp.length - 1) return null;
+    return { id: stamp.substring(0, separator), version: stamp.substring(separator + 1) };
+}
+
+/** Every way a force breaks a pack's rules; empty when it passes. */
+export function validateForceAgainstRulesPack(pack: RulesPack, force: RulesPackForceFacts): RulesPackViolation[] {
+    const rules = pack.rules;
+    const violations: RulesPackViolation[] = [];
+    const pointsLabel = force.gameSystem === GameSystem.ALPHA_STRIKE ? 'PV' : 'BV';
+
+    if (rules.gameSystem && rules.gameSystem !== force.gameSystem) {
+        const system = rules.gameSystem === GameSystem.ALPHA_STRIKE ? 'Alpha Strike' : 'Classic BattleTech';
+        violations.push({ rule: 'gameSystem', message: `The pack is for ${system} forces.` });
+    }
+    if (rules.maxPoints !== undefined && force.points > rules.maxPoints) {
+        violations.push({ rule: 'maxPoints', message: `${force.points} ${pointsLabel} is over the ${rules.maxPoints} ${pointsLabel} limit.` });
+    }
+    if (rules.minPoints !== undefined && force.points < rules.minPoints) {
+        violations.push({ rule: 'minPoints', message: `${force.points} ${pointsLabel} is under the ${rules.minPoints} ${pointsLabel} minimum.` });
+    }
+    const unitCount = force.units.length;
+    if (rules.maxUnits !== undefined && unitCount > rules.maxUnits) {
+        violations.push({ rule: 'maxUnits', message: `${unitCount} units is more than the ${rules.maxUnits} allowed.` });
+    }
+    if (rules.minUnits !== undefined && unitCount < rules.minUnits) {
+        violations.push({ rule: 'minUnits', message: `${unitCount} units is fewer than the ${rules.minUnits} required.` });
+    }
+    if (rules.eras?.length) {
+        if (!force.era) {
+            violations.push({ rule: 'eras', message: `The force needs an era: ${describeEntries(rules.eras)}.` });
+        } else if (!matchesEntry(rules.eras, force.era)) {
+            violations.push({ rule: 'eras', message: `The ${force.era.name} era is not allowed; use ${describeEntries(rules.eras)}.` });
+        }
+    }
+    if (rules.factions?.length) {
+        if (!force.faction) {
+            violations.push({ rule: 'factions', message: `The force needs a faction: ${describeEntries(rules.factions)}.` });
+        } else if (!matchesEntry(rules.factions, force.faction)) {
+            violations.push({ rule: 'factions', message: `${force.faction.name} is not an allowed faction.` });
+        }
+    }
+    if (rules.maxPerChassis !== undefined) {
+        const counts = new Map<string, number>();
+        for (const unit of force.units) {
+            counts.set(unit.chassis, (counts.get(unit.chassis) ?? 0) + 1);
+        }
+        for (const [chassis, count] of counts) {
+            if (count > rules.maxPerChassis) {
+                violations.push({ rule: 'maxPerChassis', message: `${count}× ${chassis} is more than ${rules.maxPerChassis} of one chassis.` });
+            }
+        }
+    }
+    const unitTypes = rules.unitTypes;
+    if (unitTypes?.length) {
+        const excluded = force.units.filter(unit => !unitTypes.some(type => sameName(type, unit.type) || sameName(type, unit.subtype)));
+        if (excluded.length > 0) {
+            violations.push({ rule: 'unitTypes', message: `Unit type not allowed: ${excluded.map(unit => unit.name).join(', ')}.` });
+        }
+    }
+    const minSkill = rules.minSkill;
+    if (minSkill !== undefined) {
+        const tooSkilled = force.units.filter(unit => unit.skill < minSkill);
+        if (tooSkilled.length > 0) {
+            violations.push({ rule: 'minSkill', message: `Skill may be no better than ${minSkill}: ${describeSkills(tooSkilled)}.` });
+        }
+    }
+    const maxSkill = rules.maxSkill;
+    if (maxSkill !== undefined) {
+        const tooGreen = force.units.filter(unit => unit.skill > maxSkill);
+        if (tooGreen.length > 0) {
+            violations.push({ rule: 'maxSkill', message: `Skill may be no worse than ${maxSkill}: ${describeSkills(tooGreen)}.` });
+        }
+    }
+    if (rules.canonOnly) {
+        const nonCanon = force.units.filter(unit => !unit.canon);
+        if (nonCanon.length > 0) {
+            violations.push({ rule: 'canonOnly', message: `Only canon units are allowed: ${nonCanon.map(unit => unit.name).join(', ')}.` });
+        }
+    }
+    if (rules.requireAvailability && force.availabilityWarning) {
+        violations.push({ rule: 'requireAvailability', message: force.availabilityWarning });
+    }
+    return violations;
+}
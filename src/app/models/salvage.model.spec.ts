@@ -0,0 +1,33 @@
+// Copyright (C) 2026 The MegaMek Team
+// SPDX-License-Identifier: GPL-3.0-or-later
+// Author: Drake
+
+import { summarizeSalvage, type SalvageUnitReport } from './salvage.model';
+
+describe('salvage model', () => {
+    function report(unitId: string, overrides: Partial<SalvageUnitReport> = {}): SalvageUnitReport {
+        return {
+            unitId,
+            name: `Unit ${unitId}`,
+            forceName: 'Opfor',
+            verdict: 'recoverable',
+            unitCost: 5000000,
+            repairCost: 1000000,
+            recoveredValue: 4000000,
+            components: [],
+            componentValue: 750000,
+            ...overrides,
+        };
+    }
+
+    it('values recoverable units whole and wrecks by their intact parts', () => {
+        expect(summarizeSalvage([
+            report('a'),
+            report('b', { verdict: 'parts', recoveredValue: 0, componentValue: 250000 }),
+        ])).toEqual({ units: 2, recoverable: 1, value: 4250000 });
+    });
+
+    it('reports nothing when no unit was destroyed', () => {
+        expect(summarizeSalvage([])).toEqual({ units: 0, recoverable: 0, value: 0 });
+    });
+});
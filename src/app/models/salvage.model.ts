@@ -0,0 +1,61 @@
+// Copyright (C) 2026 The MegaMek Team
+// SPDX-License-Identifier: GPL-3.0-or-later
+// Author: Drake
+
+/*
+ * Description: Models for the salvage report drawn up after an operation:
+ *              which destroyed units can be recovered whole, which survive
+ *              only as parts and what the intact components are worth.
+ */
+
+/**
+ * - `recoverable`: the unit's core survived; it can be repaired and fielded again
+ * - `parts`: the unit is a wreck; only its intact components can be recovered
+ */
+export type SalvageVerdict = 'recoverable' | 'parts';
+
+/** A component that survived the battle intact. */
+export interface SalvageComponent {
+    name: string;
+    location?: string;
+    /** Remaining shots, for ammo */
+    shots?: number;
+    /** C-bill value, null when it cannot be priced */
+    value: number | null;
+}
+
+export interface SalvageUnitReport {
+    unitId: string;
+    name: string;
+    forceName: string;
+    verdict: SalvageVerdict;
+    /** Price of the unit as built */
+    unitCost: number;
+    /** Estimated cost of bringing a recovered unit back to full strength */
+    repairCost: number;
+    /** Value of the recovered unit: its cost less repairs; 0 for wrecks */
+    recoveredValue: number;
+    components: SalvageComponent[];
+    /** Total value of the intact components */
+    componentValue: number;
+}
+
+export interface SalvageSummary {
+    units: number;
+    recoverable: number;
+    /** Value of the recoverable units plus the parts of the wrecks */
+    value: number;
+}
+
+export function summarizeSalvage(reports: readonly SalvageUnitReport[]): SalvageSummary {
+    const summary: SalvageSummary = { units: reports.length, recoverable: 0, value: 0 };
+    for (const report of reports) {
+        if (report.verdict === 'recoverable') {
+            summary.recoverable++;
+            summary.value += report.recoveredValue;
+        } else {
+            summary.value += report.componentValue;
+        }
+    }
+    return summary;
+}
@@ -0,0 +1,89 @@
+// Copyright (C) 2026 The MegaMek Team
+// SPDX-License-Identifier: GPL-3.0-or-later
+// Author: Drake
+
+import {
+    applyUnitPoolOps,
+    availableInPool,
+    createUnitPool,
+    setPoolQuantity,
+    unitPoolQuantityOps,
+    unitPoolReconcileOps,
+    unitPoolShortfalls,
+    unitPoolWriteOffOps,
+    type SerializedUnitPool,
+    type UnitPoolForceUnit,
+} from './unit-pool.model';
+
+function reconcileUnitPool(pool: SerializedUnitPool, forceInstanceId: string, units: UnitPoolForceUnit[]): SerializedUnitPool {
+    return applyUnitPoolOps(pool, unitPoolReconcileOps(pool, forceInstanceId, units));
+}
+
+describe('unit pool model', () => {
+    const pool = setPoolQuantity(setPoolQuantity(createUnitPool('org1'), 'Atlas AS7-D', 2), 'Locust LCT-1V', 1);
+    const atlas = (id: string, destroyed = false) => ({ id, unitName: 'Atlas AS7-D', destroyed });
+
+    it('deploys units while the pool has them and warns about the rest', () => {
+        const first = reconcileUnitPool(pool, 'f1', [atlas('a1')]);
+        const second = reconcileUnitPool(first, 'f2', [atlas('b1'), atlas('b2')]);
+        expect(availableInPool(second.entries[0])).toBe(0);
+        expect(second.entries[0].deployed).toEqual([
+            { forceInstanceId: 'f1', unitId: 'a1' },
+            { forceInstanceId: 'f2', unitId: 'b1' },
+        ]);
+        expect(unitPoolShortfalls(second, 'f2', [atlas('b1'), atlas('b2')])).toEqual([{ unitName: 'Atlas AS7-D', missing: 1 }]);
+        expect(unitPoolShortfalls(second, 'f2', [{ id: 'x', unitName: 'Marauder MAD-3R', destroyed: false }]))
+            .toEqual([{ unitName: 'Marauder MAD-3R', missing: 1 }]);
+        expect(unitPoolReconcileOps(second, 'f2', [atlas('b1'), atlas('b2')])).toEqual([]);
+    });
+
+    it('releases removed units and loses destroyed ones only once written off', () => {
+        const deployed = reconcileUnitPool(pool, 'f1', [atlas('a1'), atlas('a2')]);
+        const released = reconcileUnitPool(deployed, 'f1', [atlas('a2')]);
+        expect(released.entries[0].quantity).toBe(2);
+        expect(availableInPool(released.entries[0])).toBe(1);
+
+        const destroyed = [atlas('a2', true)];
+        expect(unitPoolReconcileOps(released, 'f1', destroyed)).toEqual([]);
+        expect(unitPoolShortfalls(released, 'f1', destroyed)).toEqual([]);
+
+        const writeOffs = unitPoolWriteOffOps(released, 'f1', destroyed);
+        expect(writeOffs).toEqual([{ kind: 'write-off', unitName: 'Atlas AS7-D', forceInstanceId: 'f1', unitId: 'a2' }]);
+        const lost = applyUnitPoolOps(released, writeOffs);
+        expect(lost.entries[0].quantity).toBe(1);
+        expect(lost.entries[0].deployed).toEqual([]);
+        expect(applyUnitPoolOps(lost, writeOffs)).toBe(lost);
+        expect(unitPoolWriteOffOps(lost, 'f1', destroyed)).toEqual([]);
+    });
+
+    it('merges changes players made to the same pool at once', () => {
+        // Both players worked from the same copy of the pool
+        const deployA = unitPoolReconcileOps(pool, 'f1', [atlas('a1')]);
+        const deployB = unitPoolReconcileOps(pool, 'f2', [atlas('b1'), atlas('b2')]);
+        const restock = unitPoolQuantityOps(pool, setPoolQuantity(pool, 'Locust LCT-1V', 3));
+
+        const merged = applyUnitPoolOps(applyUnitPoolOps(applyUnitPoolOps(pool, deployA), restock), deployB);
+
+        expect(merged.entries[0].deployed).toEqual([
+            { forceInstanceId: 'f1', unitId: 'a1' },
+            { forceInstanceId: 'f2', unitId: 'b1' },
+        ]);
+        expect(merged.entries[1].quantity).toBe(3);
+        expect(unitPoolShortfalls(merged, 'f2', [atlas('b1'), atlas('b2')])).toEqual([{ unitName: 'Atlas AS7-D', missing: 1 }]);
+    });
+
+    it('describes pool edits as quantity changes', () => {
+        const edited = setPoolQuantity(setPoolQuantity(pool, 'Locust LCT-1V', 0), 'Marauder MAD-3R', 2);
+        expect(unitPoolQuantityOps(pool, edited)).toEqual([
+            { kind: 'set-quantity', unitName: 'Locust LCT-1V', quantity: 0 },
+            { kind: 'set-quantity', unitName: 'Marauder MAD-3R', quantity: 2 },
+        ]);
+        expect(applyUnitPoolOps(pool, unitPoolQuantityOps(pool, edited)).entries).toEqual(edited.entries);
+    });
+
+    it('keeps quantities above what is deployed', () => {
+        const deployed = reconcileUnitPool(pool, 'f1', [atlas('a1')]);
+        expect(setPoolQuantity(deployed, 'Atlas AS7-D', 0).entries[0].quantity).toBe(1);
+        expect(setPoolQuantity(deployed, 'Locust LCT-1V', 0).entries.map(entry => entry.unitName)).toEqual(['Atlas AS7-D']);
+    });
+});
@@ -0,0 +1,197 @@
+// Copyright (C) 2026 The MegaMek Team
+// SPDX-License-Identifier: GPL-3.0-or-later
+// Author: Drake
+
+/*
+ * Description: Unit pool of an organization: the units its players share,
+ *              how many of each the faction owns and which force units they
+ *              are deployed to. Forces draw on the pool as units are added,
+ *              give units back when they are removed and lose them for good
+ *              once a destroyed unit is written off.
+ *
+ *              Every change is an operation on a single entry, so players
+ *              changing the same pool at once don't overwrite each other.
+ */
+
+/** A force unit drawing on a pool entry. */
+export interface UnitPoolDeployment {
+    forceInstanceId: string;
+    unitId: string;
+}
+
+export interface UnitPoolEntry {
+    /** Unit name (the unit's unique key) */
+    unitName: string;
+    /** Units the faction owns, deployed or not */
+    quantity: number;
+    deployed: UnitPoolDeployment[];
+}
+
+/** Serialized unit pool stored locally and on the server, one per organization. */
+export interface SerializedUnitPool {
+    organizationId: string;
+    /** Timestamp when the pool was last saved */
+    timestamp: number;
+    entries: UnitPoolEntry[];
+}
+
+/**
+ * Unit pool returned when loading a pool.
+ * `owned` is transient client metadata and must not be sent back on save.
+ */
+export interface LoadedUnitPool extends SerializedUnitPool {
+    owned?: boolean;
+}
+
+/** A change to one pool entry. */
+export type UnitPoolOp =
+    | { kind: 'deploy' | 'release' | 'write-off'; unitName: string; forceInstanceId: string; unitId: string }
+    | { kind: 'set-quantity'; unitName: string; quantity: number };
+
+/** What the pool needs to know about a unit in a force. */
+export interface UnitPoolForceUnit {
+    id: string;
+    unitName: string;
+    destroyed: boolean;
+}
+
+/** Units a force uses beyond what the pool has available for it. */
+export interface UnitPoolShortfall {
+    unitName: string;
+    missing: number;
+}
+
+export function createUnitPool(organizationId: string): SerializedUnitPool {
+    return { organizationId, timestamp: Date.now(), entries: [] };
+}
+
+export function availableInPool(entry: UnitPoolEntry): number {
+    return Math.max(0, entry.quantity - entry.deployed.length);
+}
+
+/** Sets how many of a unit the pool holds; never less than the units already deployed. */
+export function setPoolQuantity<T extends SerializedUnitPool>(pool: T, unitName: string, quantity: number): T {
+    const existing = pool.entries.find(entry => entry.unitName === unitName);
+    const floor = existing?.deployed.length ?? 0;
+    const clamped = Math.max(floor, Math.trunc(quantity));
+    if (existing) {
+        if (clamped === 0) {
+            return { ...pool, entries: pool.entries.filter(entry => entry !== existing) };
+        }
+        return { ...pool, entries: pool.entries.map(entry => entry === existing ? { ...entry, quantity: clamped } : entry) };
+    }
+    if (clamped === 0) return pool;
+    return { ...pool, entries: [...pool.entries, { unitName, quantity: clamped, deployed: [] }] };
+}
+
+/**
+ * Applies operations in order. Each one only takes effect if it still makes
+ * sense for the pool as it is: a unit is deployed while one is available,
+ * released or written off only while deployed.
+ * Returns the same pool object when nothing changed.
+ */
+export function applyUnitPoolOps<T extends SerializedUnitPool>(pool: T, ops: readonly UnitPoolOp[]): T {
+    let result = pool;
+    for (const op of ops) {
+        if (op.kind === 'set-quantity') {
+            result = setPoolQuantity(result, op.unitName, op.quantity);
+            continue;
+        }
+        const entry = result.entries.find(candidate => candidate.unitName === op.unitName);
+        const updated = entry ? applyDeploymentOp(entry, op) : undefined;
+        if (!entry || updated === undefined) continue;
+        result = {
+            ...result,
+            entries: updated
+                ? result.entries.map(candidate => candidate === entry ? updated : candidate)
+                : result.entries.filter(candidate => candidate !== entry),
+        };
+    }
+    return result;
+}
+
+/** The entry after a deployment operation: undefined when it doesn't apply, null when the entry runs out. */
+function applyDeploymentOp(
+    entry: UnitPoolEntry,
+    op: Exclude<UnitPoolOp, { kind: 'set-quantity' }>,
+): UnitPoolEntry | null | undefined {
+    const deployed = entry.deployed.some(deployment =>
+        deployment.forceInstanceId === op.forceInstanceId && deployment.unitId === op.unitId);
+    if (op.kind === 'deploy') {
+        if (deployed || availableInPool(entry) === 0) return undefined;
+        return { ...entry, deployed: [...entry.deployed, { forceInstanceId: op.forceInstanceId, unitId: op.unitId }] };
+    }
+    if (!deployed) return undefined;
+    const remaining = entry.deployed.filter(deployment =>
+        deployment.forceInstanceId !== op.forceInstanceId || deployment.unitId !== op.unitId);
+    const quantity = op.kind === 'write-off' ? entry.quantity - 1 : entry.quantity;
+    return quantity > 0 ? { ...entry, quantity, deployed: remaining } : null;
+}
+
+/**
+ * Operations that bring a pool in line with a force: surviving units are
+ * deployed while the pool has them available and deployments of units no
+ * longer in the force are released. Destroyed units stay deployed until
+ * they are written off.
+ */
+export function unitPoolReconcileOps(
+    pool: SerializedUnitPool,
+    forceInstanceId: string,
+    units: readonly UnitPoolForceUnit[],
+): UnitPoolOp[] {
+    const ops: UnitPoolOp[] = [];
+    for (const entry of pool.entries) {
+        const named = units.filter(unit => unit.unitName === entry.unitName);
+        const own = entry.deployed.filter(deployment => deployment.forceInstanceId === forceInstanceId);
+        const released = own.filter(deployment => !named.some(unit => unit.id === deployment.unitId));
+        for (const { unitId } of released) {
+            ops.push({ kind: 'release', unitName: entry.unitName, forceInstanceId, unitId });
+        }
+        let deployedCount = entry.deployed.length - released.length;
+        for (const unit of named) {
+            if (unit.destroyed || deployedCount >= entry.quantity) continue;
+            if (own.some(deployment => deployment.unitId === unit.id)) continue;
+            ops.push({ kind: 'deploy', unitName: entry.unitName, forceInstanceId, unitId: unit.id });
+            deployedCount++;
+        }
+    }
+    return ops;
+}
+
+/** Write-offs for the destroyed units of a force that are still deployed from the pool. */
+export function unitPoolWriteOffOps(
+    pool: SerializedUnitPool,
+    forceInstanceId: string,
+    units: readonly UnitPoolForceUnit[],
+): UnitPoolOp[] {
+    return units
+        .filter(unit => unit.destroyed && pool.entries.some(entry => entry.unitName === unit.unitName
+            && entry.deployed.some(deployment => deployment.forceInstanceId === forceInstanceId && deployment.unitId === unit.id)))
+        .map(unit => ({ kind: 'write-off', unitName: unit.unitName, forceInstanceId, unitId: unit.id }));
+}
+
+/** Quantity changes that turn one version of a pool into another. */
+export function unitPoolQuantityOps(from: SerializedUnitPool, to: SerializedUnitPool): UnitPoolOp[] {
+    const quantities = new Map(from.entries.map(entry => [entry.unitName, 0]));
+    to.entries.forEach(entry => quantities.set(entry.unitName, entry.quantity));
+    return [...quantities]
+        .filter(([unitName, quantity]) => from.entries.find(entry => entry.unitName === unitName)?.quantity !== quantity)
+        .map(([unitName, quantity]) => ({ kind: 'set-quantity', unitName, quantity }));
+}
+
+/** Surviving units of a force that the pool could not deploy, by unit name. */
+export function unitPoolShortfalls(
+    pool: SerializedUnitPool,
+    forceInstanceId: string,
+    units: readonly UnitPoolForceUnit[],
+): UnitPoolShortfall[] {
+    const shortfalls = new Map<string, number>();
+    for (const unit of units) {
+        if (unit.destroyed) continue;
+        const entry = pool.entries.find(candidate => candidate.unitName === unit.unitName);
+        const deployed = entry?.deployed.some(deployment =>
+            deployment.forceInstanceId === forceInstanceId && deployment.unitId === unit.id);
+        if (!deployed) shortfalls.set(unit.unitName, (shortfalls.get(unit.unitName) ?? 0) + 1);
+    }
+    return Array.from(shortfalls, ([unitName, missing]) => ({ unitName, missing }));
+}
@@ -188,6 +188,7 @@ export interface UnitSummary {
     as: AlphaStrikeUnitStats;
     unitFile?: string;
     serverHost?: string; // Base URL of the additional unit server this unit was loaded from; undefined means the primary db.mekbay.com host.
+    imported?: boolean; // True for units the user imported locally from .mtf/.blk files.
     _searchKey: string; // Pre-compiled lowercase search key: "chassis model"
     _displayType: string;
     _techBaseDisplay: UnitTechBaseDisplay; // Mixed-aware tech base used by display, search, and sorting.
@@ -196,6 +197,13 @@ export interface UnitSummary {
     _dissipationEfficiency: number; // Dissipation - Heat
     _mdSumNoPhysical: number; // Max damage sum for all weapons except physical
     _mdSumNoPhysicalNoOneshots: number; // Max damage sum for all weapons except physical, ignoring oneshots
+    _dmgShort: number; // Max damage of the weapons reaching the short range band (3 hexes)
+    _dmgMedium: number; // Max damage of the weapons reaching the medium range band (12 hexes)
+    _dmgLong: number; // Max damage of the weapons reaching the long range band (21 hexes)
+    _maxExtremeRange?: number; // Max extreme range of any weapon on this unit
+    _rearWeapons?: number; // Number of rear-mounted weapons
+    _lrmTubes?: number; // Total LRM launcher tubes (MMLs included)
+    _srmTubes?: number; // Total SRM launcher tubes (MMLs included)
     _weaponTypes?: WeaponType[]; // Intrinsic types present on mounted weapons
     _weaponTypeCounts?: Partial<Record<WeaponType, number>>; // Mounted quantity by intrinsic weapon type
     _era?: Era; // Cached era for this unit
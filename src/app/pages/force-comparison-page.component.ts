@@ -0,0 +1,24 @@
+// Copyright (C) 2026 The MegaMek Team
+// SPDX-License-Identifier: GPL-3.0-or-later
+// Author: Drake
+
+import { ChangeDetectionStrategy, Component, inject } from '@angular/core';
+import { DialogsService } from '../services/dialogs.service';
+import { RoutedDialogPage } from './routed-dialog-page';
+
+/**
+ * Routed page for the force comparison dialog (/compare).
+ */
+@Component({
+    selector: 'force-comparison-page',
+    template: '',
+    changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class ForceComparisonPageComponent extends RoutedDialogPage {
+    private readonly dialogsService = inject(DialogsService);
+
+    protected override async openDialog() {
+        const { ForceComparisonDialogComponent } = await import('../components/force-comparison-dialog/force-comparison-dialog.component');
+        return this.dialogsService.createDialog(ForceComparisonDialogComponent);
+    }
+}
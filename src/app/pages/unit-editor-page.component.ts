@@ -0,0 +1,24 @@
+// Copyright (C) 2026 The MegaMek Team
+// SPDX-License-Identifier: GPL-3.0-or-later
+// Author: Drake
+
+import { ChangeDetectionStrategy, Component, inject } from '@angular/core';
+import { DialogsService } from '../services/dialogs.service';
+import { RoutedDialogPage } from './routed-dialog-page';
+
+/**
+ * Routed page for the unit editor dialog (/editor).
+ */
+@Component({
+    selector: 'unit-editor-page',
+    template: '',
+    changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class UnitEditorPageComponent extends RoutedDialogPage {
+    private readonly dialogsService = inject(DialogsService);
+
+    protected override async openDialog() {
+        const { UnitEditorDialogComponent } = await import('../components/unit-editor-dialog/unit-editor-dialog.component');
+        return this.dialogsService.createDialog(UnitEditorDialogComponent);
+    }
+}
@@ -0,0 +1,243 @@
+// Copyright (C) 2026 The MegaMek Team
+// SPDX-License-Identifier: GPL-3.0-or-later
+// Author: Drake
+
+import { computed, inject, Injectable, signal } from '@angular/core';
+import { firstValueFrom } from 'rxjs';
+import {
+    createCampaign,
+    recordCampaignGame,
+    type CampaignGameUnit,
+    type LoadedCampaign,
+    type SerializedCampaign,
+} from '../models/campaign.model';
+import { ASForceUnit } from '../models/as-force-unit.model';
+import { CBTForceUnit } from '../models/cbt-force-unit.model';
+import type { ForceUnit } from '../models/force-unit.model';
+import { isFriendlyCamp } from '../models/force-slot.model';
+import type { SerializedUnit } from '../models/force-serialization';
+import type {
+    CampaignResultDialogData,
+    CampaignResultDialogResult,
+} from '../components/campaign-result-dialog/campaign-result-dialog.component';
+import { uuidv7 } from '../utils/uuid.util';
+import { DataService } from './data.service';
+import { DialogsService } from './dialogs.service';
+import { ForceBuilderService } from './force-builder.service';
+import { LoggerService } from './logger.service';
+import { PilotRecordService } from './pilot-record.service';
+import { ToastService } from './toast.service';
+
+/** Serialized unit without the transient modified flag, as stored on the roster. */
+function campaignSnapshot(unit: ForceUnit): SerializedUnit {
+    const data = unit.serialize();
+    return { ...data, state: { ...data.state, modified: false } };
+}
+
+function sameState(a: SerializedUnit, b: SerializedUnit): boolean {
+    return JSON.stringify({ ...a.state, modified: false }) === JSON.stringify({ ...b.state, modified: false });
+}
+
+/**
+ * Campaigns: plays saved operations in order and carries each friendly
+ * unit's damage and crew record from one game into the next.
+ */
+@Injectable({ providedIn: 'root' })
+export class CampaignService {
+    private readonly dataService = inject(DataService);
+    private readonly forceBuilderService = inject(ForceBuilderService);
+    private readonly dialogsService = inject(DialogsService);
+    private readonly toastService = inject(ToastService);
+    private readonly logger = inject(LoggerService);
+    private readonly pilotRecordService = inject(PilotRecordService);
+
+    /** Campaign the currently loaded operation was played from. */
+    readonly activeCampaign = signal<LoadedCampaign | null>(null);
+
+    /** Whether the loaded operation belongs to the active campaign, so its result can be recorded. */
+    readonly canRecordResult = computed<boolean>(() => {
+        const campaign = this.activeCampaign();
+        const op = this.forceBuilderService.currentOperation();
+        return !!campaign && campaign.owned !== false && !!op
+            && campaign.operations.some(ref => ref.operationId === op.operationId);
+    });
+
+    async showCampaignsDialog(): Promise<void> {
+        const { CampaignDialogComponent } = await import('../components/campaign-dialog/campaign-dialog.component');
+        this.dialogsService.createDialog(CampaignDialogComponent);
+    }
+
+    async createCampaign(name: string, note?: string): Promise<LoadedCampaign> {
+        return await this.saveCampaign(createCampaign(uuidv7(), name, note));
+    }
+
+    /** Saves a campaign locally and to the cloud; returns the saved copy. */
+    async saveCampaign(campaign: SerializedCampaign): Promise<LoadedCampaign> {
+        const { owned: _owned, ...data } = campaign as LoadedCampaign;
+        const saved: SerializedCampaign = { ...data, timestamp: Date.now() };
+        await this.dataService.saveCampaign(saved);
+        const loaded: LoadedCampaign = { ...saved, owned: true };
+        if (this.activeCampaign()?.campaignId === saved.campaignId) {
+            this.activeCampaign.set(loaded);
+        }
+        return loaded;
+    }
+
+    async deleteCampaign(campaignId: string): Promise<void> {
+        await this.dataService.deleteCampaign(campaignId);
+        if (this.activeCampaign()?.campaignId === campaignId) {
+            this.activeCampaign.set(null);
+        }
+    }
+
+    /**
+     * Loads one of the campaign's operations and offers to bring the friendly
+     * units back to the state the campaign roster recorded for them.
+     */
+    async playOperation(campaign: LoadedCampaign, operationId: string): Promise<boolean> {
+        const loaded = await this.forceBuilderService.loadOperation(operationId);
+        if (!loaded) return false;
+        this.activeCampaign.set(campaign);
+
+        const carried = this.carriedUnits(campaign);
+        if (carried.length === 0) return true;
+        const confirmed = await this.dialogsService.requestConfirmation(
+            `${carried.length} unit(s) differ from their state at the end of their last campaign game. Carry their damage and crew forward?`,
+            'Campaign Carry-Over',
+            'info'
+        );
+        if (!confirmed) return true;
+        for (const { unit, data } of carried) {
+            unit.update({ ...unit.serialize(), state: { ...data.state, modified: true } });
+            unit.setModified();
+        }
+        this.toastService.showToast(`Carried ${carried.length} unit(s) forward from the campaign.`, 'success');
+        return true;
+    }
+
+    /**
+     * Records the result of the loaded operation: crew kills and experience,
+     * each friendly unit's final state and the salvaged enemy units.
+     */
+    async recordResult(): Promise<LoadedCampaign | null> {
+        const campaign = this.activeCampaign();
+        const op = this.forceBuilderService.currentOperation();
+        if (!campaign || !op || !this.canRecordResult()) return null;
+
+        const sides = this.forceBuilderService.sides();
+        const slots = this.forceBuilderService.loadedForces();
+        const friendlySlots = slots.filter(slot => isFriendlyCamp(sides, slot.alignment) && slot.force.owned() && !slot.force.readOnly());
+        const enemySlots = slots.filter(slot => !isFriendlyCamp(sides, slot.alignment));
+
+        const friendlyUnits = friendlySlots.flatMap(slot => slot.force.units());
+        const data: CampaignResultDialogData = {
+            campaignName: campaign.name,
+            operationName: op.name,
+            // Alpha Strike pilots have no crew record on the unit; only those with a pilot record earn anything.
+            crew: friendlyUnits.flatMap(unit => {
+                if (unit instanceof CBTForceUnit) {
+                    return unit.getCrewMembers().map(crew => ({
+                        unitId: unit.id,
+                        crewId: crew.getId(),
+                        unitName: unit.getDisplayName(),
+                        name: crew.getName(),
+                        dead: crew.isDead(),
+                    }));
+                }
+                if (unit instanceof ASForceUnit && unit.pilotId()) {
+                    return [{ unitId: unit.id, crewId: 0, unitName: unit.getDisplayName(), name: unit.alias() ?? '', dead: false }];
+                }
+                return [];
+            }),
+            salvage: enemySlots.flatMap(slot => slot.force.units()
+                .filter(unit => unit.destroyed)
+                .map(unit => ({
+                    unitId: unit.id,
+                    name: unit.getDisplayName(),
+                    forceName: slot.force.displayName(),
+                }))),
+        };
+        const { CampaignResultDialogComponent } = await import('../components/campaign-result-dialog/campaign-result-dialog.component');
+        const ref = this.dialogsService.createDialog<CampaignResultDialogResult | null>(CampaignResultDialogComponent, { data });
+        const result = await firstValueFrom(ref.closed);
+        if (!result) return null;
+
+        for (const gain of result.gains) {
+            const unit = friendlyUnits.find(candidate => candidate.id === gain.unitId);
+            if (!(unit instanceof CBTForceUnit)) continue;
+            const crew = unit.getCrewMember(gain.crewId);
+            crew.setKills(crew.getKills() + gain.kills);
+            crew.setExperience(crew.getExperience() + gain.experience);
+        }
+        await this.pilotRecordService.recordGame(friendlyUnits, result.gains);
+
+        const toGameUnit = (unit: ForceUnit, forceInstanceId: string | null): CampaignGameUnit => ({
+            gameSystem: unit.force.gameSystem,
+            ...(forceInstanceId ? { forceInstanceId } : {}),
+            data: campaignSnapshot(unit),
+        });
+        const salvageIds = new Set(result.salvageIds);
+        const updated = recordCampaignGame(campaign, {
+            operationId: op.operationId,
+            name: op.name,
+            outcome: result.outcome,
+            completedAt: Date.now(),
+            units: friendlySlots.flatMap(slot => slot.force.units().map(unit => toGameUnit(unit, slot.force.instanceId()))),
+            salvage: enemySlots.flatMap(slot => slot.force.units()
+                .filter(unit => salvageIds.has(unit.id))
+                .map(unit => toGameUnit(unit, null))),
+        });
+        try {
+            const saved = await this.saveCampaign(updated);
+            this.toastService.showToast(`Recorded "${op.name}" in campaign "${campaign.name}".`, 'success');
+            return saved;
+        } catch (error) {
+            this.logger.error(`Failed to save campaign "${campaign.name}": ${error}`);
+            this.toastService.showToast('Failed to save the campaign.', 'error');
+            return null;
+        }
+    }
+
+    /**
+     * Brings the active campaign's roster up to date with units repaired
+     * between games, so the next game does not carry the old damage forward.
+     */
+    async updateRoster(units: ForceUnit[]): Promise<void> {
+        const campaign = this.activeCampaign();
+        if (!campaign || campaign.owned === false) return;
+        const byId = new Map(units.map(unit => [unit.id, unit] as const));
+        let changed = false;
+        const roster = campaign.roster.map(record => {
+            const unit = byId.get(record.id);
+            if (!unit || record.origin !== 'force' || record.gameSystem !== unit.force.gameSystem) return record;
+            changed = true;
+            return { ...record, data: campaignSnapshot(unit) };
+        });
+        if (!changed) return;
+        try {
+            await this.saveCampaign({ ...campaign, roster });
+        } catch (error) {
+            this.logger.error(`Failed to save campaign "${campaign.name}": ${error}`);
+            this.toastService.showToast('Failed to save the campaign.', 'error');
+        }
+    }
+
+    /** Friendly units of the loaded operation whose state differs from their roster record. */
+    private carriedUnits(campaign: SerializedCampaign): { unit: ForceUnit; data: SerializedUnit }[] {
+        const roster = new Map(campaign.roster
+            .filter(record => record.origin === 'force')
+            .map(record => [record.id, record] as const));
+        const sides = this.forceBuilderService.sides();
+        const carried: { unit: ForceUnit; data: SerializedUnit }[] = [];
+        for (const slot of this.forceBuilderService.loadedForces()) {
+            if (!isFriendlyCamp(sides, slot.alignment) || !slot.force.owned() || slot.force.readOnly()) continue;
+            for (const unit of slot.force.units()) {
+                const record = roster.get(unit.id);
+                if (record && record.gameSystem === slot.force.gameSystem && !sameState(record.data, unit.serialize())) {
+                    carried.push({ unit, data: record.data });
+                }
+            }
+        }
+        return carried;
+    }
+}
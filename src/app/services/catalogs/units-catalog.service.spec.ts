@@ -163,4 +163,33 @@ describe('UnitsCatalogService custom servers', () => {
         expect(dbMock.getCustomServerUnits).not.toHaveBeenCalled();
         httpMock.verify(); // no outstanding custom-server requests
     });
+
+    it('merges imported units without overriding catalog units and replaces the previous import set', async () => {
+        optionsSignal.set({ unitServers: [] } as unknown as Options);
+
+        const primaryBody: Units = { version: '1', etag: '', units: buildPrimaryUnits(9000) };
+        const initializePromise = service.initialize();
+        await settleMicrotasks();
+        await flush(`${REMOTE_HOST}/units.json?ngsw-bypass=true`, 'HEAD', '', 'primary-etag');
+        await flush(`${REMOTE_HOST}/units.json?ngsw-bypass=true`, 'GET', primaryBody, 'primary-etag');
+        await initializePromise;
+
+        const added = service.setImportedUnits([
+            createEmptyUnit({ id: 0, name: 'Shared Unit' }), // collides with primary -> dropped
+            createEmptyUnit({ id: 0, name: 'Homebrew Alpha' }),
+            createEmptyUnit({ id: 0, name: 'Homebrew Beta' }),
+        ]);
+
+        expect(added.map(unit => unit.name)).toEqual(['Homebrew Alpha', 'Homebrew Beta']);
+        expect(added.every(unit => unit.imported && unit.id < 0)).toBeTrue();
+        expect(service.getUnits().length).toBe(9003);
+        expect(service.isCatalogUnitName('shared unit')).toBeTrue();
+        expect(service.isCatalogUnitName('Homebrew Alpha')).toBeFalse();
+
+        service.setImportedUnits([createEmptyUnit({ id: 0, name: 'Homebrew Beta' })]);
+
+        expect(service.getUnits().length).toBe(9002);
+        expect(service.getUnits().some(unit => unit.name === 'Homebrew Alpha')).toBeFalse();
+        expect((preprocessSpy.calls.mostRecent().args[0] as UnitSummary[]).length).toBe(9002);
+    });
 });
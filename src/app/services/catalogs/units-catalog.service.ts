@@ -52,6 +52,11 @@ export class UnitsCatalogService extends CatalogBaseService<Units, Units> {
         return this.units;
     }
 
+    /** ETag of the loaded db.mekbay.com units data; changes with every data update. */
+    public getDataVersion(): string {
+        return this.etag;
+    }
+
     protected override hasHydratedData(): boolean {
         return this.units.length > 0;
     }
@@ -144,6 +149,45 @@ export class UnitsCatalogService extends CatalogBaseService<Units, Units> {
         this.unitRuntimeService.preprocessUnits(this.units);
     }
 
+    /**
+     * Replaces the set of locally imported units merged into the catalog. As with additional
+     * servers, units from db.mekbay.com and custom servers win on name collisions.
+     * Returns the imported units that were actually added.
+     */
+    public setImportedUnits(importedUnits: readonly UnitSummary[]): UnitSummary[] {
+        const catalogUnits = this.units.filter(unit => !unit.imported);
+        const usedNames = new Set(catalogUnits.map(unit => unit.name.toLowerCase()));
+        const usedIds = new Set(catalogUnits.map(unit => unit.id));
+        let nextSyntheticId = catalogUnits.reduce((min, unit) => Math.min(min, unit.id), 0) - 1;
+
+        const added: UnitSummary[] = [];
+        for (const rawUnit of importedUnits) {
+            const nameKey = rawUnit.name.toLowerCase();
+            if (usedNames.has(nameKey)) {
+                continue;
+            }
+            usedNames.add(nameKey);
+
+            let id = rawUnit.id;
+            if (!(id > 0) || usedIds.has(id)) {
+                id = nextSyntheticId--;
+            }
+            usedIds.add(id);
+
+            added.push({ ...rawUnit, id, imported: true });
+        }
+
+        this.units = [...catalogUnits, ...added];
+        this.unitRuntimeService.preprocessUnits(this.units);
+        return added;
+    }
+
+    /** Whether a unit name is already taken by the primary catalog or an additional server. */
+    public isCatalogUnitName(name: string): boolean {
+        const nameKey = name.toLowerCase();
+        return this.units.some(unit => !unit.imported && unit.name.toLowerCase() === nameKey);
+    }
+
     private async loadServerUnits(server: string): Promise<Units | null> {
         const url = `${server}/units.json`;
         const cached = await this.dbService.getCustomServerUnits(server);
@@ -29,6 +29,7 @@ import { QuirksCatalogService } from './catalogs/quirks-catalog.service';
 import { SarnaPageTitlesCatalogService } from './catalogs/sarna-page-titles-catalog.service';
 import { SourcebooksCatalogService } from './catalogs/sourcebooks-catalog.service';
 import { ForceNameWordsCatalogService } from './catalogs/force-name-words-catalog.service';
+import { ImportedUnitsService } from './imported-units.service';
 import { createEmptyForceNameWords } from '../models/force-name-words.model';
 import { createEmptyUnit } from '../testing/unit-test-helpers';
 import { MULFACTION_NONE } from '../models/mulfactions.model';
@@ -119,6 +120,9 @@ describe('DataService', () => {
         initialize: jasmine.createSpy('initialize').and.resolveTo(undefined),
         getWords: jasmine.createSpy('getWords').and.callFake(() => createEmptyForceNameWords()),
     };
+    const importedUnitsServiceMock = {
+        initialize: jasmine.createSpy('initialize').and.resolveTo(undefined),
+    };
     const tagsServiceMock = {
         setRefreshUnitsCallback: jasmine.createSpy('setRefreshUnitsCallback'),
         setNotifyStoreUpdatedCallback: jasmine.createSpy('setNotifyStoreUpdatedCallback'),
@@ -224,6 +228,8 @@ describe('DataService', () => {
         forceNameWordsCatalogMock.initialize.and.resolveTo(undefined);
         forceNameWordsCatalogMock.getWords.calls.reset();
         forceNameWordsCatalogMock.getWords.and.callFake(() => createEmptyForceNameWords());
+        importedUnitsServiceMock.initialize.calls.reset();
+        importedUnitsServiceMock.initialize.and.resolveTo(undefined);
         tagsServiceMock.setRefreshUnitsCallback.calls.reset();
         tagsServiceMock.setNotifyStoreUpdatedCallback.calls.reset();
         tagsServiceMock.registerWsHandlers.calls.reset();
@@ -256,6 +262,7 @@ describe('DataService', () => {
                 { provide: SarnaPageTitlesCatalogService, useValue: sarnaPageTitlesCatalogMock },
                 { provide: SourcebooksCatalogService, useValue: sourcebooksCatalogMock },
                 { provide: ForceNameWordsCatalogService, useValue: forceNameWordsCatalogMock },
+                { provide: ImportedUnitsService, useValue: importedUnitsServiceMock },
                 { provide: TagsService, useValue: tagsServiceMock },
                 { provide: PublicTagsService, useValue: publicTagsServiceMock },
                 { provide: LoggerService, useValue: loggerServiceMock },
@@ -27,6 +27,10 @@ import {
 import { LoggerService } from './logger.service';
 import { type SerializedOperation, LoadOperationEntry, type OperationForceInfo } from '../models/operation.model';
 import { type LoadedOrganization, type SerializedOrganization, LoadOrganizationEntry } from '../models/organization.model';
+import { type LoadedCampaign, type SerializedCampaign, LoadCampaignEntry } from '../models/campaign.model';
+import type { PilotRecord } from '../models/pilot-record.model';
+import type { RulesPack } from '../models/rules-pack.model';
+import type { LoadedUnitPool, SerializedUnitPool, UnitPoolOp } from '../models/unit-pool.model';
 import { Subject } from 'rxjs';
 import { GameSystem } from '../models/common.model';
 import { CBTForce } from '../models/cbt-force.model';
@@ -54,6 +58,7 @@ import { UnitsFluffCatalogService } from './catalogs/units-fluff-catalog.service
 import { EquipmentCatalogService } from './catalogs/equipment-catalog.service';
 import { ForceNameWordsCatalogService } from './catalogs/force-name-words-catalog.service';
 import { CatalogDownloadTrackerService } from './catalogs/catalog-base.service';
+import { ImportedUnitsService, type UnitImportFile, type UnitImportResult } from './imported-units.service';
 import { MULFACTION_EXTINCT, MULFACTION_NONE } from '../models/mulfactions.model';
 import { naturalCompare } from '../utils/sort.util';
 import { getUnitVariantGroupKey } from '../utils/unit-variant.util';
@@ -145,6 +150,7 @@ export class DataService {
     private sourcebooksCatalog = inject(SourcebooksCatalogService);
     private forceNameWordsCatalog = inject(ForceNameWordsCatalogService);
     private catalogDownloadTracker = inject(CatalogDownloadTrackerService);
+    private importedUnitsService = inject(ImportedUnitsService);
 
     isDataReady = signal(false);
     public readonly isDownloading = this.catalogDownloadTracker.isDownloading;
@@ -302,6 +308,10 @@ export class DataService {
         return this.unitsCatalog.getUnits();
     }
 
+    public getUnitsDataVersion(): string {
+        return this.unitsCatalog.getDataVersion();
+    }
+
     public getUnitByName(name: string): UnitSummary | undefined {
         return this.unitRuntimeService.getUnitByName(name);
     }
@@ -453,6 +463,20 @@ export class DataService {
         this.bumpSearchCorpusVersion();
     }
 
+    /** Imports .mtf/.blk unit files and makes the resulting units searchable. */
+    public async importUnitFiles(files: readonly UnitImportFile[]): Promise<UnitImportResult[]> {
+        const results = await this.importedUnitsService.importFiles(files);
+        if (results.some(result => result.unit)) {
+            this.refreshSearchCorpus();
+        }
+        return results;
+    }
+
+    public async removeImportedUnit(name: string): Promise<void> {
+        await this.importedUnitsService.removeUnit(name);
+        this.refreshSearchCorpus();
+    }
+
     private rebuildTagSearchIndex(): void {
         this.unitSearchIndexService.rebuildTagSearchIndex(this.getUnits());
     }
@@ -535,6 +559,7 @@ export class DataService {
         }
 
         await this.unitsCatalog.initialize();
+        await this.initializeCatalog('imported_units', () => this.importedUnitsService.initialize());
         this.postprocessData();
         this.bumpSearchCorpusVersion();
     }
@@ -1089,6 +1114,7 @@ export class DataService {
                 timestamp: ref.timestamp,
                 exists: false,
             })),
+            sides: serialized.sides,
             local: true,
         });
     }
@@ -1178,6 +1204,7 @@ export class DataService {
                         alignment: f.alignment,
                         timestamp: f.timestamp,
                     })),
+                    sides: op.sides,
                 };
                 await this.dbService.saveOperation(serialized);
             } catch (err) {
@@ -1260,6 +1287,7 @@ export class DataService {
                         alignment: f.alignment,
                         timestamp: f.timestamp,
                     })),
+                    sides: conflictOp.sides,
                 };
 
                 // Save locally with new ID
@@ -1336,6 +1364,7 @@ export class DataService {
                 note: op.note || '',
                 timestamp: op.timestamp,
                 forces,
+                sides: op.sides,
                 local: true,
             }));
         }
@@ -1370,6 +1399,7 @@ export class DataService {
                 forceTimestamp: f.forceTimestamp,
                 exists: f.exists ?? false,
             } as OperationForceInfo)),
+            sides: raw.sides,
             cloud: true,
         }));
     }
@@ -1397,6 +1427,7 @@ export class DataService {
                 timestamp: f.timestamp,
                 exists: false,
             })),
+            sides: raw.sides,
             cloud: true,
         });
     }
@@ -1806,6 +1837,7 @@ export class DataService {
 
     public async deleteOrganization(organizationId: string): Promise<void> {
         await this.dbService.deleteOrganization(organizationId);
+        await this.dbService.deleteUnitPool(organizationId);
         const ws = await this.canUseCloud();
         if (ws) {
             this.wsService.send({
@@ -1960,4 +1992,241 @@ export class DataService {
             // Silently fail — will retry on next list
         }
     }
+
+    /* ----------------------------------------------------------
+     * Unit pools (units an organization's players share)
+     */
+
+    /**
+     * Applies changes to an organization's unit pool. `pool` is the local copy
+     * with the changes made; the cloud makes them on its own copy, entry by
+     * entry, and returns the result (null when working offline).
+     */
+    public async applyUnitPoolOps(pool: SerializedUnitPool, ops: readonly UnitPoolOp[]): Promise<LoadedUnitPool | null> {
+        await this.dbService.saveUnitPool(pool);
+        const ws = await this.canUseCloud();
+        if (!ws) return null;
+        const response = await this.wsService.sendAndWaitForResponse({
+            action: 'unitPoolOps',
+            organizationId: pool.organizationId,
+            ops,
+        });
+        if (!response?.data) {
+            throw new Error('Cloud save did not receive a response.');
+        }
+        await this.storeUnitPool(response.data);
+        return response.data;
+    }
+
+    /** Keeps the local copy of a pool received from the cloud. */
+    public async storeUnitPool(pool: LoadedUnitPool): Promise<void> {
+        const { owned: _owned, ...serialized } = pool;
+        await this.dbService.saveUnitPool(serialized);
+    }
+
+    /** Gets an organization's unit pool, the newer of the cloud and local copies. */
+    public async getUnitPool(organizationId: string): Promise<LoadedUnitPool | null> {
+        const localPromise = this.dbService.getUnitPool(organizationId);
+        let cloudPool: LoadedUnitPool | null = null;
+
+        try {
+            const ws = await this.canUseCloud();
+            if (ws) {
+                const response = await this.wsService.sendAndWaitForResponse({
+                    action: 'getUnitPool',
+                    organizationId,
+                });
+                cloudPool = response?.data ?? null;
+            }
+        } catch {
+            // cloud unavailable
+        }
+
+        const localPool = await localPromise;
+
+        if (cloudPool && (!localPool || cloudPool.timestamp > localPool.timestamp)) {
+            await this.storeUnitPool(cloudPool);
+            return cloudPool;
+        }
+        return localPool;
+    }
+
+    /* ----------------------------------------------------------
+     * Campaigns (ordered series of operations)
+     */
+
+    public async saveCampaign(campaign: SerializedCampaign): Promise<void> {
+        await this.dbService.saveCampaign(campaign);
+        this.saveCampaignCloud(campaign);
+    }
+
+    public async deleteCampaign(campaignId: string): Promise<void> {
+        await this.dbService.deleteCampaign(campaignId);
+        const ws = await this.canUseCloud();
+        if (ws) {
+            this.wsService.send({
+                action: 'delCampaign',
+                campaignId,
+            });
+        }
+    }
+
+    public async listCampaigns(): Promise<LoadCampaignEntry[]> {
+        const [localCampaigns, cloudCampaigns] = await Promise.all([
+            this.listCampaignsLocal(),
+            this.listCampaignsCloud(),
+        ]);
+
+        const campaignMap = new Map<string, LoadCampaignEntry>();
+
+        for (const campaign of localCampaigns) {
+            campaign.local = true;
+            campaignMap.set(campaign.campaignId, campaign);
+        }
+
+        for (const cloudCampaign of cloudCampaigns) {
+            const existing = campaignMap.get(cloudCampaign.campaignId);
+            cloudCampaign.cloud = true;
+            if (existing) {
+                cloudCampaign.local = true;
+            }
+            campaignMap.set(cloudCampaign.campaignId, cloudCampaign);
+        }
+
+        // Push local-only campaigns to cloud
+        const localOnly = Array.from(campaignMap.values()).filter(c => c.local && !c.cloud);
+        for (const entry of localOnly) {
+            const serialized = await this.dbService.getCampaign(entry.campaignId);
+            if (serialized) this.saveCampaignCloud(serialized);
+        }
+
+        // Save cloud campaigns locally for offline access
+        for (const cloudCampaign of cloudCampaigns) {
+            const localEntry = localCampaigns.find(l => l.campaignId === cloudCampaign.campaignId);
+            if (!localEntry || cloudCampaign.timestamp > localEntry.timestamp) {
+                this.syncCampaignFromCloud(cloudCampaign.campaignId);
+            }
+        }
+
+        return Array.from(campaignMap.values()).sort((a, b) => b.timestamp - a.timestamp);
+    }
+
+    public async getCampaign(campaignId: string): Promise<LoadedCampaign | null> {
+        const localPromise = this.dbService.getCampaign(campaignId);
+        let cloudCampaign: LoadedCampaign | null = null;
+
+        try {
+            const ws = await this.canUseCloud();
+            if (ws) {
+                const response = await this.wsService.sendAndWaitForResponse({
+                    action: 'getCampaign',
+                    campaignId,
+                });
+                cloudCampaign = response?.data ?? null;
+            }
+        } catch {
+            // cloud unavailable
+        }
+
+        const localCampaign = await localPromise;
+
+        if (localCampaign && cloudCampaign) {
+            return cloudCampaign.timestamp > localCampaign.timestamp ? cloudCampaign : localCampaign;
+        }
+        return cloudCampaign || localCampaign || null;
+    }
+
+    private async listCampaignsLocal(): Promise<LoadCampaignEntry[]> {
+        const serialized = await this.dbService.listCampaigns();
+        return serialized.map(campaign => new LoadCampaignEntry({
+            campaignId: campaign.campaignId,
+            name: campaign.name,
+            note: campaign.note,
+            timestamp: campaign.timestamp,
+            operationCount: campaign.operations.length,
+            completedCount: campaign.operations.filter(op => op.completedAt !== undefined).length,
+            rosterCount: campaign.roster.length,
+            local: true,
+        }));
+    }
+
+    private async listCampaignsCloud(): Promise<LoadCampaignEntry[]> {
+        const ws = await this.canUseCloud();
+        if (!ws) return [];
+
+        const response = await this.wsService.sendAndWaitForResponse({
+            action: 'listCampaigns',
+        });
+        if (!response?.data || !Array.isArray(response.data)) return [];
+
+        return response.data.map((raw: any) => new LoadCampaignEntry({
+            campaignId: raw.campaignId,
+            name: raw.name || '',
+            note: raw.note,
+            timestamp: raw.timestamp,
+            operationCount: raw.operationCount ?? 0,
+            completedCount: raw.completedCount ?? 0,
+            rosterCount: raw.rosterCount ?? 0,
+            cloud: true,
+            owned: raw.owned ?? true,
+        }));
+    }
+
+    private async saveCampaignCloud(campaign: SerializedCampaign): Promise<void> {
+        const ws = await this.canUseCloud();
+        if (!ws) return;
+        this.wsService.send({
+            action: 'saveCampaign',
+            data: campaign,
+        });
+    }
+
+    private async syncCampaignFromCloud(campaignId: string): Promise<void> {
+        try {
+            const ws = await this.canUseCloud();
+            if (!ws) return;
+            const response = await this.wsService.sendAndWaitForResponse({
+                action: 'getCampaign',
+                campaignId,
+            });
+            if (response?.data) {
+                const { owned: _owned, ...serialized } = response.data as LoadedCampaign;
+                await this.dbService.saveCampaign(serialized);
+            }
+        } catch {
+            // Silently fail — will retry on next list
+        }
+    }
+
+    /* ----------------------------------------------------------
+     * Pilot records (kept on this device)
+     */
+
+    public async savePilotRecord(record: PilotRecord): Promise<void> {
+        await this.dbService.savePilotRecord(record);
+    }
+
+    public async deletePilotRecord(pilotId: string): Promise<void> {
+        await this.dbService.deletePilotRecord(pilotId);
+    }
+
+    public async listPilotRecords(): Promise<PilotRecord[]> {
+        return await this.dbService.listPilotRecords();
+    }
+
+    /* ----------------------------------------------------------
+     * Rules packs (kept on this device)
+     */
+
+    public async saveRulesPack(pack: RulesPack): Promise<void> {
+        await this.dbService.saveRulesPack(pack);
+    }
+
+    public async deleteRulesPack(id: string): Promise<void> {
+        await this.dbService.deleteRulesPack(id);
+    }
+
+    public async listRulesPacks(): Promise<RulesPack[]> {
+        return await this.dbService.listRulesPacks();
+    }
 }
@@ -27,17 +27,22 @@ import type { ForceEntryResolver } from '../models/force-entry-resolver.model';
 import { LoggerService } from './logger.service';
 import type { SerializedOperation } from '../models/operation.model';
 import type { SerializedOrganization } from '../models/organization.model';
+import type { SerializedUnitPool } from '../models/unit-pool.model';
+import type { SerializedCampaign } from '../models/campaign.model';
+import type { PilotRecord } from '../models/pilot-record.model';
+import type { RulesPack } from '../models/rules-pack.model';
 import type { LinkedOAuthProvider } from '../models/account-auth.model';
 
 
 
 const DB_NAME = 'mekbay';
-const DB_VERSION = 13;
+const DB_VERSION = 17;
 const DB_STORE = 'store';
 const UNITS_KEY = 'units';
 const UNITS_FLUFF_METADATA_KEY = 'unitsFluff';
 const CUSTOM_UNITS_KEY_PREFIX = 'units:server:';
 const CUSTOM_UNITS_FLUFF_KEY_PREFIX = 'units-fluff:server:';
+const IMPORTED_UNITS_KEY = 'units:imported';
 const EQUIPMENT_KEY = 'equipment';
 const FACTIONS_KEY = 'factions';
 const MEGAMEK_FACTIONS_KEY = 'megamekFactions';
@@ -54,6 +59,10 @@ const TAGS_STORE = 'tagsStore';
 const SAVED_SEARCHES_STORE = 'savedSearchesStore';
 const PUBLIC_TAGS_STORE = 'publicTagsStore';
 const ORGANIZATIONS_STORE = 'organizationsStore';
+const UNIT_POOLS_STORE = 'unitPoolsStore';
+const CAMPAIGNS_STORE = 'campaignsStore';
+const PILOT_RECORDS_STORE = 'pilotRecordsStore';
+const RULES_PACKS_STORE = 'rulesPacksStore';
 const OPTIONS_KEY = 'options';
 const USER_KEY = 'user';
 const QUIRKS_KEY = 'quirks';
@@ -88,6 +97,21 @@ export interface StoredSheet {
     size: number; // Size of the blob in bytes
 }
 
+/**
+ * A unit file imported by the user from disk. The raw content is kept so the
+ * unit summary can be rebuilt whenever the equipment catalog changes.
+ */
+export interface StoredImportedUnitFile {
+    /** Unique unit name derived from the parsed entity */
+    name: string;
+    /** Original file name, its extension selects the parser (.mtf / .blk) */
+    fileName: string;
+    /** Raw file content */
+    content: string;
+    /** Timestamp of the import */
+    timestamp: number;
+}
+
 /** Tag data keyed by tag label -> unit names array. */
 export interface StoredTags {
     [tagName: string]: string[];
@@ -203,6 +227,22 @@ export interface StoredSavedSearches {
     [id: string]: SerializedSearchFilter;
 }
 
+/**
+ * Units a saved search matched when it was last visited, kept locally only.
+ */
+export interface SavedSearchMatchBaseline {
+    /** Version of the units data the matches were taken from */
+    dataVersion: string;
+    unitNames: string[];
+}
+
+/**
+ * Saved search match baselines keyed by saved search ID.
+ */
+export interface StoredSavedSearchBaselines {
+    [id: string]: SavedSearchMatchBaseline;
+}
+
 /**
  * Saved search sync state stored in IndexedDB.
  */
@@ -346,6 +386,10 @@ export class DbService {
                 this.createStoreIfMissing(db, transaction, PUBLIC_TAGS_STORE);
                 this.createStoreIfMissing(db, transaction, OPERATIONS_STORE);
                 this.createStoreIfMissing(db, transaction, ORGANIZATIONS_STORE);
+                this.createStoreIfMissing(db, transaction, CAMPAIGNS_STORE);
+                this.createStoreIfMissing(db, transaction, PILOT_RECORDS_STORE);
+                this.createStoreIfMissing(db, transaction, UNIT_POOLS_STORE);
+                this.createStoreIfMissing(db, transaction, RULES_PACKS_STORE);
             };
 
             request.onsuccess = (event) => resolve((event.target as IDBOpenDBRequest).result);
@@ -506,6 +550,14 @@ export class DbService {
         return await this.saveDataFromGeneralStore(unitsData, DbService.customUnitsKey(serverUrl));
     }
 
+    public async getImportedUnitFiles(): Promise<StoredImportedUnitFile[]> {
+        return await this.getDataFromGeneralStore<StoredImportedUnitFile[]>(IMPORTED_UNITS_KEY) ?? [];
+    }
+
+    public async saveImportedUnitFiles(files: StoredImportedUnitFile[]): Promise<void> {
+        return await this.saveDataFromGeneralStore(files, IMPORTED_UNITS_KEY);
+    }
+
     private static customFluffKey(serverUrl: string): string {
         return `${CUSTOM_UNITS_FLUFF_KEY_PREFIX}${serverUrl}`;
     }
@@ -911,6 +963,20 @@ export class DbService {
         });
     }
 
+    /**
+     * Get the units each saved search matched when it was last visited.
+     */
+    public async getSavedSearchBaselines(): Promise<StoredSavedSearchBaselines> {
+        return await this.getDataFromStore<StoredSavedSearchBaselines>('baselines', SAVED_SEARCHES_STORE) ?? {};
+    }
+
+    /**
+     * Save the units each saved search matched when it was last visited.
+     */
+    public async saveSavedSearchBaselines(baselines: StoredSavedSearchBaselines): Promise<void> {
+        return await this.saveDataToStore(baselines, 'baselines', SAVED_SEARCHES_STORE);
+    }
+
     // ================== Public Tags (Subscribed) ==================
 
     /**
@@ -1185,6 +1251,128 @@ export class DbService {
         });
     }
 
+    /* ----------------------------------------------------------
+     * Unit pools (units an organization's players share)
+     */
+
+    public async saveUnitPool(pool: SerializedUnitPool): Promise<void> {
+        return await this.saveDataToStore(pool, pool.organizationId, UNIT_POOLS_STORE);
+    }
+
+    public async getUnitPool(organizationId: string): Promise<SerializedUnitPool | null> {
+        return await this.getDataFromStore<SerializedUnitPool>(organizationId, UNIT_POOLS_STORE);
+    }
+
+    public async deleteUnitPool(organizationId: string): Promise<void> {
+        return await this.deleteDataFromStore(organizationId, UNIT_POOLS_STORE);
+    }
+
+    /* ----------------------------------------------------------
+     * Campaigns (ordered series of operations)
+     */
+
+    public async saveCampaign(campaign: SerializedCampaign): Promise<void> {
+        return await this.saveDataToStore(campaign, campaign.campaignId, CAMPAIGNS_STORE);
+    }
+
+    public async getCampaign(campaignId: string): Promise<SerializedCampaign | null> {
+        return await this.getDataFromStore<SerializedCampaign>(campaignId, CAMPAIGNS_STORE);
+    }
+
+    public async deleteCampaign(campaignId: string): Promise<void> {
+        return await this.deleteDataFromStore(campaignId, CAMPAIGNS_STORE);
+    }
+
+    public async listCampaigns(): Promise<SerializedCampaign[]> {
+        const db = await this.dbPromise;
+        if (!db) return [];
+        return new Promise<SerializedCampaign[]>((resolve, reject) => {
+            const transaction = db.transaction(CAMPAIGNS_STORE, 'readonly');
+            const store = transaction.objectStore(CAMPAIGNS_STORE);
+            const request = store.openCursor();
+            const campaigns: SerializedCampaign[] = [];
+            request.onsuccess = () => {
+                const cursor = request.result;
+                if (cursor) {
+                    campaigns.push(cursor.value);
+                    cursor.continue();
+                } else {
+                    campaigns.sort((a, b) => (b.timestamp ?? 0) - (a.timestamp ?? 0));
+                    resolve(campaigns);
+                }
+            };
+            request.onerror = () => reject(request.error);
+        });
+    }
+
+    /* ----------------------------------------------------------
+     * Pilot records (warrior skills and service history)
+     */
+
+    public async savePilotRecord(record: PilotRecord): Promise<void> {
+        return await this.saveDataToStore(record, record.pilotId, PILOT_RECORDS_STORE);
+    }
+
+    public async deletePilotRecord(pilotId: string): Promise<void> {
+        return await this.deleteDataFromStore(pilotId, PILOT_RECORDS_STORE);
+    }
+
+    public async listPilotRecords(): Promise<PilotRecord[]> {
+        const db = await this.dbPromise;
+        if (!db) return [];
+        return new Promise<PilotRecord[]>((resolve, reject) => {
+            const transaction = db.transaction(PILOT_RECORDS_STORE, 'readonly');
+            const store = transaction.objectStore(PILOT_RECORDS_STORE);
+            const request = store.openCursor();
+            const records: PilotRecord[] = [];
+            request.onsuccess = () => {
+                const cursor = request.result;
+                if (cursor) {
+                    records.push(cursor.value);
+                    cursor.continue();
+                } else {
+                    records.sort((a, b) => a.name.localeCompare(b.name));
+                    resolve(records);
+                }
+            };
+            request.onerror = () => reject(request.error);
+        });
+    }
+
+    /* ----------------------------------------------------------
+     * Rules packs (event list-building constraints)
+     */
+
+    public async saveRulesPack(pack: RulesPack): Promise<void> {
+        return await this.saveDataToStore(pack, pack.id, RULES_PACKS_STORE);
+    }
+
+    public async deleteRulesPack(id: string): Promise<void> {
+        return await this.deleteDataFromStore(id, RULES_PACKS_STORE);
+    }
+
+    public async listRulesPacks(): Promise<RulesPack[]> {
+        const db = await this.dbPromise;
+        if (!db) return [];
+        return new Promise<RulesPack[]>((resolve, reject) => {
+            const transaction = db.transaction(RULES_PACKS_STORE, 'readonly');
+            const store = transaction.objectStore(RULES_PACKS_STORE);
+            const request = store.openCursor();
+            const packs: RulesPack[] = [];
+            request.onsuccess = () => {
+                const cursor = request.result;
+                if (cursor) {
+                    packs.push(cursor.value);
+                    cursor.continue();
+                } else {
+                    packs.sort((a, b) => a.name.localeCompare(b.name));
+                    resolve(packs);
+                }
+            };
+            request.onerror = () => reject(request.error);
+        });
+    }
+
     public async getCanvasData(unitId: string): Promise<Blob | null> {
         const storedData = await this.getDataFromStore<Blob>(unitId, CANVAS_STORE);
         if (!storedData) {
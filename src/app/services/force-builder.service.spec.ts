@@ -280,6 +280,72 @@ describe('ForceBuilderService unit conversion', () => {
         expect(result).toBe(convertedUnit);
         expect(convertedUnit.load).toHaveBeenCalledTimes(1);
     });
+
+    it('leaves imported units without record sheets out of a force converted to Classic', async () => {
+        const service = Object.create(ForceBuilderService.prototype) as any;
+        const importedData = { ...createUnit(), imported: true, sheets: [] } as unknown as UnitSummary;
+        const sourceGroup = {
+            id: 'group-1',
+            name: signal('Imported Lance'),
+            formation: signal(null),
+            formationLock: false,
+            formationTargetGroupId: signal(null),
+            units: () => [{ getUnit: () => importedData } as ForceUnit],
+        };
+        const sourceForce = {
+            gameSystem: GameSystem.ALPHA_STRIKE,
+            name: 'Imported Force',
+            note: '',
+            faction: signal(null),
+            factionLock: false,
+            groups: () => [sourceGroup],
+        } as unknown as Force;
+
+        service.dataService = {
+            getUnitByName: jasmine.createSpy('getUnitByName').and.returnValue(importedData),
+            saveForce: jasmine.createSpy('saveForce'),
+        };
+        service.toastService = { showToast: jasmine.createSpy('showToast') };
+        service.logger = { warn: jasmine.createSpy('warn'), error: jasmine.createSpy('error') };
+        service.getForceSlot = () => undefined;
+        service.assignFormationIfNeeded = jasmine.createSpy('assignFormationIfNeeded');
+        service.reconcileASFormationAssignmentsForForce = jasmine.createSpy('reconcileASFormationAssignmentsForForce');
+        service.removeLoadedForce = jasmine.createSpy('removeLoadedForce');
+        service.addLoadedForce = jasmine.createSpy('addLoadedForce');
+
+        await expectAsync(service.convertForce(sourceForce)).toBeResolvedTo(true);
+
+        const convertedForce = service.addLoadedForce.calls.mostRecent().args[0] as CBTForce;
+        expect(convertedForce).toBeInstanceOf(CBTForce);
+        expect(convertedForce.groups().map(group => group.name())).toEqual(['Imported Lance']);
+        expect(convertedForce.units()).toEqual([]);
+        expect(service.toastService.showToast).toHaveBeenCalledWith(
+            'Imported units without a record sheet were left out: Test Mek.',
+            'error',
+        );
+    });
+
+    it('refuses to replace a Classic unit with an imported unit before touching the original', async () => {
+        const service = Object.create(ForceBuilderService.prototype) as any;
+        const importedData = { ...createUnit(), imported: true, sheets: [] } as unknown as UnitSummary;
+        const originalUnit = { id: 'unit-1' } as ForceUnit;
+        const targetForce = {
+            gameSystem: GameSystem.CLASSIC,
+            units: () => [originalUnit],
+            replaceUnit: jasmine.createSpy('replaceUnit'),
+        };
+        (originalUnit as any).force = targetForce;
+        service.dataService = { deleteCanvasDataOfUnit: jasmine.createSpy('deleteCanvasDataOfUnit') };
+        service.dialogsService = { choose: jasmine.createSpy('choose').and.resolveTo('change') };
+        service.toastService = { showToast: jasmine.createSpy('showToast') };
+
+        await expectAsync(service.replaceUnit(originalUnit, importedData)).toBeResolvedTo(null);
+
+        expect(service.toastService.showToast).toHaveBeenCalledWith(jasmine.stringContaining('without a record sheet'), 'error');
+        expect(service.dialogsService.choose).not.toHaveBeenCalled();
+        expect(service.dataService.deleteCanvasDataOfUnit).not.toHaveBeenCalled();
+        expect(targetForce.replaceUnit).not.toHaveBeenCalled();
+    });
 });
 
 describe('ForceBuilderService remote force updates', () => {
@@ -1043,3 +1109,61 @@ describe('ForceBuilderService load dialog', () => {
         expect(sourceForce.instanceId()).toBeNull();
     });
 });
+
+describe('ForceBuilderService rules pack stamps', () => {
+    function createStampHarness(points: number) {
+        const service = Object.create(ForceBuilderService.prototype) as any;
+        const pack = { id: 'open-3000', name: 'Open 3000', version: '2', rules: { maxPoints: 3000 } };
+        const force = { displayName: () => 'Strike Lance', gameSystem: GameSystem.CLASSIC } as unknown as Force;
+        service.urlService = { setQueryParams: jasmine.createSpy('setQueryParams') };
+        service.rulesPackService = {
+            loadPacks: jasmine.createSpy('loadPacks').and.resolveTo([pack]),
+            getPack: (id: string) => id === pack.id ? pack : undefined,
+        };
+        service.toastService = { showToast: jasmine.createSpy('showToast') };
+        service.loadedForces = () => [{ force }];
+        service.rulesPackFacts = () => ({
+            gameSystem: GameSystem.CLASSIC,
+            points,
+            era: null,
+            faction: null,
+            units: [],
+            availabilityWarning: null,
+        });
+        return service;
+    }
+
+    it('reports a shared force that passes the installed pack', async () => {
+        const service = createStampHarness(2800);
+
+        await service.announceRulesPackStamp('open-3000@2');
+
+        expect(service.urlService.setQueryParams).toHaveBeenCalledWith({ rules: null });
+        expect(service.toastService.showToast).toHaveBeenCalledWith(
+            'Checked against rules pack "Open 3000" v2: the shared force passes.',
+            'success',
+        );
+    });
+
+    it('reports the violations of a shared force that fails the installed pack', async () => {
+        const service = createStampHarness(3200);
+
+        await service.announceRulesPackStamp('open-3000@1');
+
+        expect(service.toastService.showToast).toHaveBeenCalledWith(
+            'Checked against rules pack "Open 3000" v2 (shared with v1), the shared force fails. Strike Lance: 3200 BV is over the 3000 BV limit.',
+            'error',
+        );
+    });
+
+    it('says a stamp of a pack that is not installed cannot be verified', async () => {
+        const service = createStampHarness(2800);
+
+        await service.announceRulesPackStamp('league-night@4');
+
+        expect(service.toastService.showToast).toHaveBeenCalledWith(
+            jasmine.stringMatching(/"league-night" v4, which is not installed, so this can't be verified/),
+            'info',
+        );
+    });
+});
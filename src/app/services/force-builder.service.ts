@@ -4,7 +4,7 @@
 
 import { Injectable, signal, effect, computed, Injector, inject, untracked, DestroyRef, ApplicationRef } from '@angular/core';
 import type { UnitSummary } from '../models/unit-summary.model';
-import { Force, type UnitGroup, MAX_GROUPS, MAX_UNITS } from '../models/force.model';
+import { buildEraWarningMessage, Force, type UnitGroup, MAX_GROUPS, MAX_UNITS } from '../models/force.model';
 import type { ForceUnit } from '../models/force-unit.model';
 import { DataService } from './data.service';
 import { LayoutService } from './layout.service';
@@ -46,7 +46,19 @@ import { CBTPrintUtil } from '../utils/cbtprint.util';
 import { CBTSummaryPrintUtil } from '../utils/cbt-summary-print.util';
 import { ASPrintUtil } from '../utils/asprint.util';
 import { ASSummaryPrintUtil } from '../utils/as-summary-print.util';
-import type { ForceSlot, ForceAlignment } from '../models/force-slot.model';
+import {
+    areForceSidesOpposed,
+    createForceSide,
+    DEFAULT_FORCE_SIDES,
+    FORCE_SIDE_COLORS,
+    FRIENDLY_ALIGNMENT,
+    isForceAlignment,
+    MAX_FORCE_SIDES,
+    normalizeForceSides,
+    type ForceAlignment,
+    type ForceSide,
+    type ForceSlot,
+} from '../models/force-slot.model';
 import { MULFACTION_EXTINCT, MULFACTION_MERCENARY } from '../models/mulfactions.model';
 import { LanceTypeIdentifierUtil } from '../utils/lance-type-identifier.util';
 import { FormationAbilityAssignmentUtil } from '../utils/formation-ability-assignment.util';
@@ -65,6 +77,17 @@ import { UnitAvailabilitySourceService } from './unit-availability-source.servic
 import { C3NetworkEditor } from '../models/c3-network-editor';
 import { uuidv7 } from '../utils/uuid.util';
 import { EquipmentInteractionRegistryService } from './equipment-interaction-registry.service';
+import { NEW_PILOT_RECORD_ID } from '../models/pilot-record.model';
+import { PilotRecordService } from './pilot-record.service';
+import { RulesPackService } from './rules-pack.service';
+import {
+    parseRulesPackStamp,
+    rulesPackStamp,
+    validateForceAgainstRulesPack,
+    type RulesPack,
+    type RulesPackForceFacts,
+    type RulesPackViolation,
+} from '../models/rules-pack.model';
 import { INVENTORY_CONTROL_TARGET_COLORS, getInventoryControlTargetLetter, type InventoryControlRuntimeTarget } from '../models/inventory-control-runtime-state.model';
 import { deriveOpforTargetCalculatorState, getOpforInventoryTargetId, resolveInventoryTargetUnitType } from '../utils/inventory-control-opfor-target.util';
 
@@ -150,6 +173,7 @@ export class ForceBuilderService {
     private router = inject(Router);
     private unitAvailabilitySource = inject(UnitAvailabilitySourceService);
     private equipmentRegistryService = inject(EquipmentInteractionRegistryService);
+    private rulesPackService = inject(RulesPackService);
 
     public selectedUnit = signal<ForceUnit | null>(null, { equal: () => false });
     public loadedForces = signal<ForceSlot[]>([]);
@@ -173,19 +197,27 @@ export class ForceBuilderService {
     private conflictDialogRef: any;
     private remoteConflictQueue: Promise<void> = Promise.resolve();
 
-    /** Current alignment filter: 'all' shows everything, 'friendly'/'enemy' filters by alignment. */
-    public alignmentFilter = signal<'friendly' | 'enemy' | 'all'>('friendly');
+    /** Named, colored sides the loaded forces are aligned to. The friendly side is always first. */
+    public sides = signal<ForceSide[]>(DEFAULT_FORCE_SIDES.map(side => ({ ...side })));
+
+    /** Current alignment filter: 'all' shows everything, a side id shows only that side. */
+    public alignmentFilter = signal<ForceAlignment | 'all'>('friendly');
 
     /** Remembers the last selected unit per filter mode so switching back restores it. */
-    private savedSelectionByFilter = new Map<'friendly' | 'enemy' | 'all', string | null>();
+    private savedSelectionByFilter = new Map<ForceAlignment | 'all', string | null>();
     followLastModifiedUnit = signal(false); // If true, selection will follow the last modified unit
 
-    /** True when loaded forces have a mix of friendly and enemy alignments (>1 slot). */
+    /** True when loaded forces are spread over more than one side (>1 slot). */
     hasMixedAlignments = computed<boolean>(() => {
         const slots = this.loadedForces();
         if (slots.length < 2) return false;
-        const alignments = new Set(slots.map(s => s.alignment));
-        return alignments.has('friendly') && alignments.has('enemy');
+        return new Set(slots.map(s => s.alignment)).size > 1;
+    });
+
+    /** Sides that have at least one loaded force, in side order. */
+    activeSides = computed<ForceSide[]>(() => {
+        const alignments = new Set(this.loadedForces().map(s => s.alignment));
+        return this.sides().filter(side => alignments.has(side.id));
     });
 
     /** Emits when a force is updated remotely via WS, with the force and its alignment. */
@@ -281,12 +313,10 @@ export class ForceBuilderService {
     private opposingCBTForces(force: CBTForce): CBTForce[] {
         const sourceSlot = this.loadedForces().find(slot => slot.force === force);
         if (!sourceSlot) return [];
+        const sides = this.sides();
         return this.loadedForces()
-            .filter(slot => slot.force instanceof CBTForce && (
-                sourceSlot.alignment === 'enemy'
-                    ? slot.alignment !== 'enemy'
-                    : slot.alignment === 'enemy'
-            ))
+            .filter(slot => slot.force instanceof CBTForce
+                && areForceSidesOpposed(sides, sourceSlot.alignment, slot.alignment))
             .map(slot => slot.force as CBTForce);
     }
 
@@ -367,7 +397,7 @@ export class ForceBuilderService {
     /** Current force's game system, or null. */
     forceGameSystem = computed<GameSystem | null>(() => this.smartCurrentForce()?.gameSystem ?? null);
 
-    /** Cycles the alignment filter: all → friendly → enemy → all. Auto-resets if conditions no longer apply. */
+    /** Cycles the alignment filter through the sides that have loaded forces, in side order. */
     cycleAlignmentFilter(): void {
         const current = this.alignmentFilter();
 
@@ -375,18 +405,56 @@ export class ForceBuilderService {
         this.savedSelectionByFilter.set(current, this.selectedUnit()?.id ?? null);
 
         // Determine next filter
-        let next: 'friendly' | 'enemy';
-        if (current === 'enemy') {
-            next = 'friendly';
-        } else {
-            next = 'enemy';
-        }
-        this.alignmentFilter.set(next);
+        const sides = this.activeSides();
+        if (sides.length === 0) return;
+        const index = sides.findIndex(side => side.id === current);
+        this.alignmentFilter.set(sides[(index + 1) % sides.length].id);
 
         // Restore saved selection for the new filter, or pick first visible unit
         this.restoreSelectionForCurrentFilter();
     }
 
+    /** The side with the given id; unknown ids get a generated side so they still render. */
+    getSide(alignment: ForceAlignment): ForceSide {
+        const sides = this.sides();
+        return sides.find(side => side.id === alignment) ?? createForceSide(sides, alignment);
+    }
+
+    /** Adds a new side, or returns null when the side limit is reached. */
+    addSide(): ForceSide | null {
+        const sides = this.sides();
+        if (sides.length >= MAX_FORCE_SIDES) return null;
+        const side = createForceSide(sides);
+        this.sides.set([...sides, side]);
+        return side;
+    }
+
+    /**
+     * Exchanges two sides: their forces trade alignments and the side names
+     * and colors go with the forces, so only the point of view changes.
+     */
+    swapSides(a: ForceAlignment, b: ForceAlignment): void {
+        if (a === b) return;
+        const swap = (alignment: ForceAlignment) => alignment === a ? b : alignment === b ? a : alignment;
+        this.sides.update(sides => normalizeForceSides(sides.map(side => ({ ...side, id: swap(side.id) }))));
+        this.loadedForces.update(slots => slots.map(s => ({ ...s, alignment: swap(s.alignment) })));
+        const filter = this.alignmentFilter();
+        if (filter !== 'all') this.alignmentFilter.set(swap(filter));
+    }
+
+    /** Adds sides that are referenced but not defined yet; known sides keep their names and colors. */
+    ensureSides(alignments: Iterable<ForceAlignment>, definitions: readonly ForceSide[] = []): void {
+        const sides = this.sides();
+        const merged = [
+            ...sides.map(side => definitions.find(definition => definition.id === side.id) ?? side),
+            ...definitions.filter(definition => !sides.some(side => side.id === definition.id)),
+        ];
+        const next = normalizeForceSides(merged, alignments);
+        if (JSON.stringify(next) !== JSON.stringify(sides)) {
+            this.sides.set(next);
+        }
+    }
+
     /**
      * Restores the remembered unit selection for the current filter mode.
      * If the remembered unit is no longer visible, selects the first visible unit instead.
@@ -526,6 +594,7 @@ export class ForceBuilderService {
             this.logger.warn(`ForceBuilderService: Skipping duplicate force "${force.displayName()}" (instance: ${instanceId})`);
             return;
         }
+        this.ensureSides([alignment]);
         const slot = this.setupForceSlot(force, alignment, { persistInUrl });
         this.loadedForces.update(slots => [...slots, slot]);
 
@@ -642,6 +711,72 @@ export class ForceBuilderService {
         return this.loadedForces().find(s => s.force === force);
     }
 
+    /** Units of a force outside its era, or a faction that does not exist in it. */
+    eraWarning(force: Force): string | null {
+        const eras = this.dataService.getEras();
+        const availabilityContext = this.unitAvailabilitySource.createForceAvailabilityContextForUnits(
+            force.units().map((unit) => unit.getUnit()),
+            eras,
+        );
+        const extinctFaction = this.dataService.getFactionById(MULFACTION_EXTINCT) ?? null;
+
+        return buildEraWarningMessage(
+            force.units(),
+            force.era(),
+            force.faction(),
+            eras,
+            extinctFaction,
+            availabilityContext,
+            (faction, era) => this.unitAvailabilitySource.factionExistsInEra(faction, era, availabilityContext.source),
+        );
+    }
+
+    /** Violations of the active rules pack by each loaded force, re-evaluated as the forces change. */
+    private readonly rulesPackViolationsByForce = computed(() => {
+        const pack = this.rulesPackService.activePack();
+        const violations = new Map<Force, RulesPackViolation[]>();
+        if (!pack) return violations;
+        for (const { force } of this.loadedForces()) {
+            violations.set(force, validateForceAgainstRulesPack(pack, this.rulesPackFacts(force, pack)));
+        }
+        return violations;
+    });
+
+    /** How a loaded force breaks the active rules pack; empty when it passes or no pack is active. */
+    rulesPackViolations(force: Force): RulesPackViolation[] {
+        return this.rulesPackViolationsByForce().get(force) ?? [];
+    }
+
+    /** The stamp a shared link of a force carries when it passes the active rules pack. */
+    rulesPackStamp(force: Force): string | null {
+        const pack = this.rulesPackService.activePack();
+        return pack && this.rulesPackViolationsByForce().get(force)?.length === 0 ? rulesPackStamp(pack) : null;
+    }
+
+    private rulesPackFacts(force: Force, pack: RulesPack): RulesPackForceFacts {
+        const era = force.era();
+        const faction = force.faction();
+        return {
+            gameSystem: force.gameSystem,
+            points: force.totalBv(),
+            era: era ? { id: era.id, name: era.name } : null,
+            faction: faction ? { id: faction.id, name: faction.name } : null,
+            units: force.units().map(unit => {
+                const summary = unit.getUnit();
+                return {
+                    name: unit.getDisplayName(),
+                    chassis: summary.chassis,
+                    type: summary.type,
+                    subtype: summary.subtype,
+                    canon: summary.canon && !summary.imported,
+                    skill: unit instanceof ASForceUnit ? unit.getPilotStats()
+                        : unit instanceof CBTForceUnit ? unit.gunnerySkill() : 0,
+                };
+            }),
+            availabilityWarning: pack.rules.requireAvailability ? this.eraWarning(force) : null,
+        };
+    }
+
     /**
      * Loads a force by instance ID and adds it to the loaded forces.
      * Used for adding external forces (e.g., from other users).
@@ -1014,6 +1149,13 @@ export class ForceBuilderService {
     async addUnit(unit: UnitSummary, gunnerySkill?: number, pilotingSkill?: number, group?: UnitGroup, gameSystemOverride?: GameSystem): Promise<ForceUnit | null> {
         let targetForce = this.smartCurrentForce();
         if (!targetForce) {
+            // Don't leave an empty force behind when the unit can't join it
+            const gameSystem = gameSystemOverride ?? this.injector.get(GameService).currentGameSystem();
+            const unsupportedReason = this.getUnsupportedUnitReason(unit, gameSystem);
+            if (unsupportedReason) {
+                this.toastService.showToast(unsupportedReason, 'error');
+                return null;
+            }
             targetForce = await this.createNewForce('', gameSystemOverride);
             if (!targetForce) {
                 return null;
@@ -1251,6 +1393,12 @@ export class ForceBuilderService {
             return null;
         }
 
+        const unsupportedReason = this.getUnsupportedUnitReason(newUnitData, targetForce.gameSystem);
+        if (unsupportedReason) {
+            this.toastService.showToast(unsupportedReason, 'error');
+            return null;
+        }
+
         // Build confirmation message
         const oldUnitName = `${originalUnit.getUnit().chassis} ${originalUnit.getUnit().model}`.trim();
         const newUnitName = `${newUnitData.chassis} ${newUnitData.model}`.trim();
@@ -1376,6 +1524,7 @@ export class ForceBuilderService {
         newForce.faction.set(force.faction());
         newForce.factionLock = force.factionLock;
         newForce.loading = true;
+        const skippedUnits: string[] = [];
 
         try {
             // First, clear any default groups
@@ -1404,6 +1553,10 @@ export class ForceBuilderService {
                         this.logger.warn(`Unit "${unitName}" not found during conversion`);
                         continue;
                     }
+                    if (this.getUnsupportedUnitReason(unit, newForce.gameSystem)) {
+                        skippedUnits.push(`${unit.chassis} ${unit.model}`.trim());
+                        continue;
+                    }
 
                     // addUnit adds to the last group, which is newGroup since we just created it
                     const newForceUnit = newForce.addUnit(unit);
@@ -1447,9 +1600,17 @@ export class ForceBuilderService {
         this.dataService.saveForce(newForce);
 
         this.toastService.showToast(`Force converted to ${targetSystemLabel} and saved.`, 'success');
+        if (skippedUnits.length > 0) {
+            this.toastService.showToast(`Imported units without a record sheet were left out: ${skippedUnits.join(', ')}.`, 'error');
+        }
         return true;
     }
 
+    /** Why a unit can't join a force of the game system, or null if it can. */
+    private getUnsupportedUnitReason(unit: UnitSummary, gameSystem: GameSystem): string | null {
+        return gameSystem === GameSystem.CLASSIC ? CBTForceUnit.getUnsupportedUnitReason(unit) : null;
+    }
+
     /**
      * Transfers pilot/crew data between ForceUnits of different game systems.
      * AS → CBT: copies pilot name + skill into the first crew member's gunnery.
@@ -1490,13 +1651,19 @@ export class ForceBuilderService {
     /**
      * Converts a ForceUnit to be compatible with a target force of a different game system.
      * Creates a new ForceUnit and transfers pilot/crew data cross-system.
-     * @returns The converted ForceUnit (not yet added to any group), or null if the unit data wasn't found.
+     * @returns The converted ForceUnit (not yet added to any group), or null if the unit data wasn't found
+     * or the unit can't be played in the target force.
      */
     convertUnitForForce(sourceUnit: ForceUnit, sourceForce: Force, targetForce: Force): ForceUnit | null {
         const unitName = sourceUnit.getUnit()?.name;
         if (!unitName) return null;
         const unitData = this.dataService.getUnitByName(unitName);
         if (!unitData) return null;
+        const unsupportedReason = this.getUnsupportedUnitReason(unitData, targetForce.gameSystem);
+        if (unsupportedReason) {
+            this.toastService.showToast(unsupportedReason, 'error');
+            return null;
+        }
         const newUnit = targetForce.createCompatibleUnit(unitData);
         newUnit.disabledSaving = true;
         try {
@@ -1821,6 +1988,10 @@ export class ForceBuilderService {
         });
     }
 
+    public showForceComparison(): void {
+        void this.router.navigate(['/compare'], { queryParamsHandling: 'preserve' });
+    }
+
     public showC3Network(force: Force): void {
         if (!force) return;
         this.openC3Network(force, force.readOnly());
@@ -1866,6 +2037,7 @@ export class ForceBuilderService {
             disableClose: false,
             data: {
                 gameSystem: currentForce.gameSystem,
+                exportPdf: (printOptions: PrintAllOptions) => this.exportPdf(currentForce, printOptions),
                 printSummary: async (printOptions: PrintAllOptions) => {
                     if (currentForce instanceof CBTForce) {
                         await CBTSummaryPrintUtil.print(currentForce, printOptions);
@@ -1890,10 +2062,57 @@ export class ForceBuilderService {
             }, currentForce.units(), printOptions);
         } else if (currentForce instanceof ASForce) {
             const appRef = this.injector.get(ApplicationRef);
-            await ASPrintUtil.multipagePrint(appRef, this.injector, this.optionsService, currentForce.groups(), printOptions);
+            await ASPrintUtil.multipagePrint(appRef, this.injector, this.optionsService, currentForce.groups(), {
+                ...printOptions,
+                forceColor: this.forcePrintColor(currentForce),
+            });
+        }
+    }
+
+    /**
+     * Exports the force's summary pages and its record sheets or cards as one
+     * PDF file, skipping the browser print dialog.
+     */
+    public async exportPdf(force: Force, printOptions: PrintAllOptions): Promise<void> {
+        if (force.units().length === 0) return;
+        try {
+            const [{ PdfExportUtil }, { downloadBlob, sanitizeMulFilename }] = await Promise.all([
+                import('../utils/pdf-export.util'),
+                import('../utils/mul-file.util'),
+            ]);
+            let pdf: Blob;
+            if (force instanceof CBTForce) {
+                pdf = await PdfExportUtil.exportCBTForce(force, {
+                    dataService: this.dataService,
+                    unitInitializer: this.unitInitializer,
+                    injector: this.injector,
+                }, printOptions);
+            } else if (force instanceof ASForce) {
+                pdf = await PdfExportUtil.exportASForce(force, {
+                    appRef: this.injector.get(ApplicationRef),
+                    injector: this.injector,
+                    optionsService: this.optionsService,
+                    abilityLookup: this.injector.get(AsAbilityLookupService),
+                }, { ...printOptions, forceColor: this.forcePrintColor(force) });
+            } else {
+                return;
+            }
+            downloadBlob(`${sanitizeMulFilename(force.displayName())}.pdf`, pdf);
+        } catch (error) {
+            this.logger.error(`Failed to export "${force.displayName()}" to PDF: ${error}`);
+            this.toastService.showToast('Failed to export the PDF.', 'error');
         }
     }
 
+    /**
+     * Color of a force's printed color bands: one per loaded force, in load
+     * order, so forces on the same side still print apart.
+     */
+    private forcePrintColor(force: Force): string | undefined {
+        const index = this.loadedForces().findIndex(loaded => loaded.force === force);
+        return index < 0 ? undefined : FORCE_SIDE_COLORS[index % FORCE_SIDE_COLORS.length];
+    }
+
     private monitorEquipmentHandlerRuntime(): void {
         effect(() => {
             for (const { force } of this.loadedForces()) {
@@ -2039,6 +2258,7 @@ export class ForceBuilderService {
 
         // Restore selected unit from URL
         this.restoreSelectionFromUrl(params);
+        await this.announceRulesPackStamp(params.get('rules'));
 
         // Show notice when ALL loaded forces are non-owned
         if (loadedAny) {
@@ -2058,6 +2278,41 @@ export class ForceBuilderService {
         this.urlStateInitialized.set(true);
     }
 
+    /**
+     * Checks shared forces against the rules pack their link says they were
+     * validated with, when it is installed here, and drops the stamp from the
+     * URL, since edits can invalidate it.
+     */
+    private async announceRulesPackStamp(value: string | null): Promise<void> {
+        if (!value) return;
+        this.urlService.setQueryParams({ rules: null });
+        const stamp = parseRulesPackStamp(value);
+        if (!stamp) return;
+        await this.rulesPackService.loadPacks();
+        const pack = this.rulesPackService.getPack(stamp.id);
+        if (!pack) {
+            this.toastService.showToast(
+                `Shared as validated against rules pack "${stamp.id}" v${stamp.version}, which is not installed, so this can't be verified.`,
+                'info',
+            );
+            return;
+        }
+
+        const name = pack.version === stamp.version
+            ? `"${pack.name}" v${pack.version}`
+            : `"${pack.name}" v${pack.version} (shared with v${stamp.version})`;
+        const failures = this.loadedForces()
+            .map(({ force }) => ({ force, violations: validateForceAgainstRulesPack(pack, this.rulesPackFacts(force, pack)) }))
+            .filter(({ violations }) => violations.length > 0);
+        if (failures.length === 0) {
+            this.toastService.showToast(`Checked against rules pack ${name}: the shared force passes.`, 'success');
+            return;
+        }
+        const details = failures.map(({ force, violations }) =>
+            `${force.displayName()}: ${violations.map(violation => violation.message).join(' ')}`);
+        this.toastService.showToast(`Checked against rules pack ${name}, the shared force fails. ${details.join(' ')}`, 'error');
+    }
+
     /**
      * Restores the selected unit from the `sel` URL parameter.
      * Looks up the unit by ID across all loaded forces and selects it if found.
@@ -2089,7 +2344,7 @@ export class ForceBuilderService {
      * Shared between startup initialization and in-app captured URL handling.
      *
     * Handles:
-    * - instance= (comma-separated cloud force IDs, with optional 'enemy:' prefix)
+    * - instance= (comma-separated cloud force IDs, with an optional side prefix such as 'enemy:')
     * - units= (inline unsaved force using unit names)
     * - mul_ids= (inline unsaved force using MUL IDs)
      *
@@ -2111,9 +2366,10 @@ export class ForceBuilderService {
             for (const entry of entries) {
                 let entryAlignment = defaultAlignment;
                 let instanceId = entry;
-                if (entry.startsWith('enemy:')) {
-                    entryAlignment = 'enemy';
-                    instanceId = entry.substring('enemy:'.length);
+                const separator = entry.indexOf(':');
+                if (separator > 0 && isForceAlignment(entry.substring(0, separator))) {
+                    entryAlignment = entry.substring(0, separator);
+                    instanceId = entry.substring(separator + 1);
                 }
                 // Skip if already loaded
                 if (this.loadedForces().some(s => s.force.instanceId() === instanceId)) {
@@ -2702,6 +2958,7 @@ export class ForceBuilderService {
             name: currentOp ? currentOp.name : 'Operation',
             note: currentOp?.note || '',
             forces: dialogForces,
+            sides: this.sides(),
         };
         const ref = this.dialogsService.createDialog<OperationDialogResult | null>(
             SaveOperationDialogComponent,
@@ -2710,6 +2967,9 @@ export class ForceBuilderService {
         const result = await firstValueFrom(ref.closed);
         if (!result) return false; // User cancelled
 
+        if (result.sides) {
+            this.sides.set(result.sides);
+        }
         if (result.forces) {
             const newSlots: ForceSlot[] = [];
             for (const f of result.forces) {
@@ -2755,6 +3015,7 @@ export class ForceBuilderService {
             note: result.note,
             timestamp: Date.now(),
             forces,
+            sides: this.sides(),
         };
 
         try {
@@ -2776,6 +3037,7 @@ export class ForceBuilderService {
                     bv: slot.force.gameSystem !== 'as' ? slot.force.totalBv() : undefined,
                     pv: slot.force.gameSystem === 'as' ? slot.force.totalBv() : undefined,
                 })),
+                sides: op.sides,
                 local: true,
                 cloud: true,
                 owned: true,
@@ -2824,6 +3086,7 @@ export class ForceBuilderService {
             name: currentOp.name || '',
             note: currentOp.note || '',
             forces: dialogForces,
+            sides: this.sides(),
         };
         const ref = this.dialogsService.createDialog<OperationDialogResult | null>(
             SaveOperationDialogComponent,
@@ -2832,6 +3095,9 @@ export class ForceBuilderService {
         const result = await firstValueFrom(ref.closed);
         if (!result) return false; // User cancelled
 
+        if (result.sides) {
+            this.sides.set(result.sides);
+        }
         if (result.forces) {
             const newSlots: ForceSlot[] = [];
             for (const f of result.forces) {
@@ -2879,6 +3145,7 @@ export class ForceBuilderService {
             note: result.note,
             timestamp: Date.now(),
             forces,
+            sides: this.sides(),
         };
 
         try {
@@ -2898,6 +3165,7 @@ export class ForceBuilderService {
                 bv: slot.force.gameSystem !== 'as' ? slot.force.totalBv() : undefined,
                 pv: slot.force.gameSystem === 'as' ? slot.force.totalBv() : undefined,
             }));
+            currentOp.sides = this.sides();
             this.currentOperation.set(currentOp);
             this.toastService.showToast('Operation updated.', 'success');
             return true;
@@ -2983,6 +3251,7 @@ export class ForceBuilderService {
             }
             this.selectedUnit.set(null);
             this.loadedForces.set([]);
+            this.sides.set(entry.sides.map(side => ({ ...side })));
 
             let loadedAny = false;
             const failedForces: string[] = [];
@@ -3012,23 +3281,19 @@ export class ForceBuilderService {
             // Offer to switch sides when:
             // a) we don't own the operation
             // b) we own at least one force
-            // c) ALL our owned forces are on the enemy side
+            // c) ALL our owned forces are on the same non-friendly side
             if (!entry.owned) {
                 const slots = this.loadedForces();
                 const ownedSlots = slots.filter(s => s.force.owned());
-                if (ownedSlots.length > 0 && ownedSlots.every(s => s.alignment === 'enemy')) {
+                const ownSide = ownedSlots[0]?.alignment;
+                if (ownSide && ownSide !== FRIENDLY_ALIGNMENT && ownedSlots.every(s => s.alignment === ownSide)) {
                     const switchSides = await this.dialogsService.requestConfirmation(
-                        'Your forces are currently assigned to the hostile side in this operation. Would you like to switch sides?',
+                        `Your forces are currently assigned to the ${this.getSide(ownSide).name} side in this operation. Would you like to switch sides?`,
                         'Switch Sides?',
                         'info'
                     );
                     if (switchSides) {
-                        this.loadedForces.update(slots =>
-                            slots.map(s => ({
-                                ...s,
-                                alignment: s.alignment === 'friendly' ? 'enemy' as ForceAlignment : 'friendly' as ForceAlignment
-                            }))
-                        );
+                        this.swapSides(FRIENDLY_ALIGNMENT, ownSide);
                     }
                 }
             }
@@ -3237,6 +3502,8 @@ export class ForceBuilderService {
             return;
         }
         const group = cbtUnit.getGroup() as UnitGroup<CBTForceUnit> | null;
+        const pilotRecordService = this.injector.get(PilotRecordService);
+        const pilotRecords = await pilotRecordService.loadRecords();
         const disablePiloting = baseUnit.type === 'ProtoMek' || ((baseUnit.type === 'Infantry') && (!baseUnit.canAntiMech));
         let labelPiloting;
         if (baseUnit.type === 'Infantry') {
@@ -3258,6 +3525,7 @@ export class ForceBuilderService {
                         piloting: member.getSkill('piloting'),
                         asfGunnery: baseUnit.subtype === 'Land-Air BattleMek' ? member.getSkill('gunnery', true) : undefined,
                         asfPiloting: baseUnit.subtype === 'Land-Air BattleMek' ? member.getSkill('piloting', true) : undefined,
+                        pilotId: member.getPilotId(),
                     })),
                     labelGunnery: `Gunnery Skill`,
                     labelPiloting: `${labelPiloting} Skill`,
@@ -3269,6 +3537,7 @@ export class ForceBuilderService {
                     era: cbtUnit.force.era(),
                     preSkillBv: cbtUnit.getPreSkillBv(),
                     unit: baseUnit,
+                    pilotRecords,
                 }
             }
         );
@@ -3276,13 +3545,22 @@ export class ForceBuilderService {
         const result = await firstValueFrom(ref.closed);
         if (!result) return;
 
+        const pilotIds = await Promise.all(result.crew.map((editedMember) =>
+            pilotRecordService.resolveEditorAssignment(editedMember.pilotId, editedMember)));
         const crewById = new Map(crewMembers.map((member) => [member.getId(), member]));
         let crewChanged = false;
         cbtUnit.disabledSaving = true;
         try {
-            for (const editedMember of result.crew) {
+            for (const [index, editedMember] of result.crew.entries()) {
                 const member = crewById.get(editedMember.id);
                 if (!member) continue;
+                if (pilotIds[index] !== member.getPilotId()) {
+                    // A pilot taken from an existing record brings the injuries it carries.
+                    const record = editedMember.pilotId === NEW_PILOT_RECORD_ID ? undefined : pilotRecordService.getRecord(pilotIds[index]);
+                    if (record) member.setHits(record.injuries);
+                    member.setPilotId(pilotIds[index]);
+                    crewChanged = true;
+                }
                 if (editedMember.name !== member.getName()) {
                     member.setName(editedMember.name);
                     crewChanged = true;
@@ -3327,6 +3605,8 @@ export class ForceBuilderService {
      */
     private async editASPilot(unit: ASForceUnit): Promise<void> {
         const group = unit.getGroup() as UnitGroup<ASForceUnit> | null;
+        const pilotRecordService = this.injector.get(PilotRecordService);
+        const pilotRecords = await pilotRecordService.loadRecords();
         const ref = this.dialogsService.createDialog<EditASPilotResult | null, EditASPilotDialogComponent, EditASPilotDialogData>(
             EditASPilotDialogComponent,
             {
@@ -3345,6 +3625,8 @@ export class ForceBuilderService {
                     unitSubtype: unit.getUnit().subtype,
                     unitTypeCode: unit.getUnit().as?.TP,
                     basePv: unit.getUnit().as?.PV,
+                    pilotRecords,
+                    pilotId: unit.pilotId(),
                 }
             }
         );
@@ -3361,6 +3643,11 @@ export class ForceBuilderService {
         if (result.skill !== undefined && result.skill !== unit.pilotSkill()) {
             unit.setPilotSkill(result.skill);
         }
+        unit.setPilotId(await pilotRecordService.resolveEditorAssignment(result.pilotId, {
+            name: result.name,
+            skill: result.skill,
+            abilities: result.abilities.filter((ability): ability is string => typeof ability === 'string'),
+        }));
         if (result.abilities !== undefined) {
             const currentAbilities = unit.manualPilotAbilities();
             const abilitiesChanged = result.abilities.length !== currentAbilities.length ||
@@ -0,0 +1,53 @@
+// Copyright (C) 2026 The MegaMek Team
+// SPDX-License-Identifier: GPL-3.0-or-later
+// Author: Drake
+
+import type { Force } from '../models/force.model';
+import { ForceHistoryService } from './force-history.service';
+
+describe('ForceHistoryService shortcuts', () => {
+    const force = {} as Force;
+
+    function createService(): ForceHistoryService {
+        const service = Object.create(ForceHistoryService.prototype) as ForceHistoryService;
+        spyOn(service, 'undo').and.returnValue(true);
+        spyOn(service, 'redo').and.returnValue(true);
+        return service;
+    }
+
+    function key(key: string, init: KeyboardEventInit = {}): KeyboardEvent {
+        return { key, ctrlKey: false, metaKey: false, shiftKey: false, altKey: false, ...init } as KeyboardEvent;
+    }
+
+    it('undoes on Ctrl+Z and Cmd+Z', () => {
+        const service = createService();
+
+        expect(service.handleShortcut(force, key('z', { ctrlKey: true }))).toBeTrue();
+        expect(service.handleShortcut(force, key('z', { metaKey: true }))).toBeTrue();
+
+        expect(service.undo).toHaveBeenCalledTimes(2);
+        expect(service.redo).not.toHaveBeenCalled();
+    });
+
+    it('redoes on Ctrl+Shift+Z and Ctrl+Y', () => {
+        const service = createService();
+
+        expect(service.handleShortcut(force, key('Z', { ctrlKey: true, shiftKey: true }))).toBeTrue();
+        expect(service.handleShortcut(force, key('y', { ctrlKey: true }))).toBeTrue();
+
+        expect(service.redo).toHaveBeenCalledTimes(2);
+        expect(service.undo).not.toHaveBeenCalled();
+    });
+
+    it('leaves other keys, Alt chords and missing forces alone', () => {
+        const service = createService();
+
+        expect(service.handleShortcut(force, key('z'))).toBeFalse();
+        expect(service.handleShortcut(force, key('z', { ctrlKey: true, altKey: true }))).toBeFalse();
+        expect(service.handleShortcut(force, key('x', { ctrlKey: true }))).toBeFalse();
+        expect(service.handleShortcut(null, key('z', { ctrlKey: true }))).toBeFalse();
+
+        expect(service.undo).not.toHaveBeenCalled();
+        expect(service.redo).not.toHaveBeenCalled();
+    });
+});
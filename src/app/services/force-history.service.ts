@@ -0,0 +1,185 @@
+// Copyright (C) 2026 The MegaMek Team
+// SPDX-License-Identifier: GPL-3.0-or-later
+// Author: Drake
+
+import { DestroyRef, effect, inject, Injectable, signal, untracked } from '@angular/core';
+import type { Subscription } from 'rxjs';
+import { ForceHistory, type ForceHistoryStep } from '../models/force-history.model';
+import type { Force } from '../models/force.model';
+import type { ForceUnit } from '../models/force-unit.model';
+import { ForceBuilderService } from './force-builder.service';
+import { LoggerService } from './logger.service';
+import { SessionPersistenceService } from './session-persistence.service';
+
+const HISTORY_STORAGE_PREFIX = 'mekbay:force-history:';
+
+interface TrackedForce {
+    history: ForceHistory;
+    /** Last known serialized state of each unit, to diff against on the next change. */
+    snapshots: Map<string, string>;
+    changeSub: Subscription;
+}
+
+/**
+ * Serialized unit state used for history. The save timestamp and modified
+ * flag change on every save, so they are left out to keep steps comparable.
+ */
+function unitSnapshot(unit: ForceUnit): string {
+    const { updatedTs: _updatedTs, ...data } = unit.serialize();
+    return JSON.stringify({ ...data, state: { ...data.state, modified: undefined } });
+}
+
+/**
+ * Per-force undo/redo of record-sheet state. Every time a force saves, the
+ * units whose serialized state changed since the last save are recorded as
+ * one step; undoing a step feeds the earlier state back through `update()`.
+ * History is kept in session storage so it survives a reload.
+ */
+@Injectable({ providedIn: 'root' })
+export class ForceHistoryService {
+    private readonly forceBuilderService = inject(ForceBuilderService);
+    private readonly sessionPersistence = inject(SessionPersistenceService);
+    private readonly logger = inject(LoggerService);
+
+    private readonly tracked = new Map<Force, TrackedForce>();
+    /** Bumped when forces start or stop being tracked, so lookups stay reactive. */
+    private readonly trackedVersion = signal(0);
+
+    constructor() {
+        effect(() => {
+            const forces = this.forceBuilderService.loadedForces()
+                .map(slot => slot.force)
+                .filter(force => force.owned());
+            untracked(() => this.syncTrackedForces(forces));
+        });
+
+        inject(DestroyRef).onDestroy(() => {
+            for (const entry of this.tracked.values()) entry.changeSub.unsubscribe();
+            this.tracked.clear();
+        });
+    }
+
+    canUndo(force: Force | null): boolean {
+        this.trackedVersion();
+        return !!force && (this.tracked.get(force)?.history.canUndo() ?? false);
+    }
+
+    canRedo(force: Force | null): boolean {
+        this.trackedVersion();
+        return !!force && (this.tracked.get(force)?.history.canRedo() ?? false);
+    }
+
+    undo(force: Force): boolean {
+        const entry = this.tracked.get(force);
+        const step = entry && !force.readOnly() ? entry.history.undo() : null;
+        if (!entry || !step) return false;
+        this.restore(force, entry, step, 'before');
+        return true;
+    }
+
+    redo(force: Force): boolean {
+        const entry = this.tracked.get(force);
+        const step = entry && !force.readOnly() ? entry.history.redo() : null;
+        if (!entry || !step) return false;
+        this.restore(force, entry, step, 'after');
+        return true;
+    }
+
+    /** Ctrl/Cmd+Z undoes; Ctrl/Cmd+Shift+Z and Ctrl+Y redo. Returns whether the key was a history shortcut. */
+    handleShortcut(force: Force | null, event: KeyboardEvent): boolean {
+        if (!force || !(event.ctrlKey || event.metaKey) || event.altKey) return false;
+        const key = event.key.toLowerCase();
+        if (key === 'z' && !event.shiftKey) {
+            this.undo(force);
+            return true;
+        }
+        if ((key === 'z' && event.shiftKey) || (key === 'y' && event.ctrlKey && !event.shiftKey)) {
+            this.redo(force);
+            return true;
+        }
+        return false;
+    }
+
+    private syncTrackedForces(forces: readonly Force[]): void {
+        const current = new Set(forces);
+        for (const [force, entry] of this.tracked) {
+            if (current.has(force)) continue;
+            entry.changeSub.unsubscribe();
+            this.tracked.delete(force);
+        }
+        for (const force of forces) {
+            if (this.tracked.has(force)) continue;
+            const snapshots = new Map(force.units().map(unit => [unit.id, unitSnapshot(unit)] as const));
+            const entry: TrackedForce = {
+                history: this.loadHistory(force, snapshots) ?? new ForceHistory(),
+                snapshots,
+                changeSub: force.changed.subscribe(() => this.recordChanges(force)),
+            };
+            this.tracked.set(force, entry);
+        }
+        this.trackedVersion.update(version => version + 1);
+    }
+
+    private recordChanges(force: Force): void {
+        const entry = this.tracked.get(force);
+        if (!entry) return;
+        const step: ForceHistoryStep = [];
+        const unitIds = new Set<string>();
+        for (const unit of force.units()) {
+            unitIds.add(unit.id);
+            const after = unitSnapshot(unit);
+            const before = entry.snapshots.get(unit.id);
+            entry.snapshots.set(unit.id, after);
+            // Newly added units only get a baseline; adding and removing units is not undoable.
+            if (before !== undefined && before !== after) {
+                step.push({ unitId: unit.id, before, after });
+            }
+        }
+        for (const unitId of entry.snapshots.keys()) {
+            if (!unitIds.has(unitId)) entry.snapshots.delete(unitId);
+        }
+        if (step.length === 0) return;
+        entry.history.record(step);
+        this.saveHistory(force, entry.history);
+    }
+
+    private restore(force: Force, entry: TrackedForce, step: ForceHistoryStep, side: 'before' | 'after'): void {
+        for (const change of step) {
+            const unit = force.units().find(candidate => candidate.id === change.unitId);
+            if (!unit) continue;
+            const data = JSON.parse(change[side]);
+            unit.update({ ...data, state: { ...data.state, modified: true } });
+            entry.snapshots.set(unit.id, unitSnapshot(unit));
+            // Saves the restored state; the resulting change is already in the snapshots.
+            unit.setModified();
+        }
+        this.saveHistory(force, entry.history);
+    }
+
+    private storageKey(force: Force): string | null {
+        const instanceId = force.instanceId();
+        return instanceId ? `${HISTORY_STORAGE_PREFIX}${instanceId}` : null;
+    }
+
+    private saveHistory(force: Force, history: ForceHistory): void {
+        const key = this.storageKey(force);
+        if (key) this.sessionPersistence.setItem(key, JSON.stringify(history.serialize()));
+    }
+
+    /** Restores a stored history, but only if it still matches the force as loaded. */
+    private loadHistory(force: Force, snapshots: ReadonlyMap<string, string>): ForceHistory | null {
+        const key = this.storageKey(force);
+        const stored = key ? this.sessionPersistence.getItem(key) : null;
+        if (!key || !stored) return null;
+        try {
+            const history = ForceHistory.deserialize(JSON.parse(stored));
+            const matches = history && [...history.currentStates()]
+                .every(([unitId, state]) => !snapshots.has(unitId) || snapshots.get(unitId) === state);
+            if (history && matches) return history;
+        } catch (error) {
+            this.logger.warn(`Discarding unreadable history for force "${force.name}": ${error}`);
+        }
+        this.sessionPersistence.removeItem(key);
+        return null;
+    }
+}
@@ -0,0 +1,213 @@
+// Copyright (C) 2026 The MegaMek Team
+// SPDX-License-Identifier: GPL-3.0-or-later
+// Author: Drake
+
+import { Injectable, Injector, inject, signal } from '@angular/core';
+import type { BaseEntity } from '../models/entity/base-entity';
+import { parseEntity, type ParseResult } from '../models/entity/parse-entity';
+import {
+    CONSTRUCTION_RULE_LABELS,
+    validateConstruction,
+    type ConstructionValidationReport,
+} from '../models/entity/utils/construction-validation';
+import type { UnitSummary } from '../models/unit-summary.model';
+import { buildImportedUnitSummary, isImportableUnitFile } from '../utils/imported-unit.util';
+import { createUnitIconResolver, type UnitIconResolver } from '../utils/unit-sprite-resolver';
+import { DbService, type StoredImportedUnitFile } from './db.service';
+import { LoggerService } from './logger.service';
+import { SpriteStorageService } from './sprite-storage.service';
+import { EquipmentCatalogService } from './catalogs/equipment-catalog.service';
+import { QuirksCatalogService } from './catalogs/quirks-catalog.service';
+import { SourcebooksCatalogService } from './catalogs/sourcebooks-catalog.service';
+import { UnitsCatalogService } from './catalogs/units-catalog.service';
+
+/** Outcome of importing a single unit file. */
+export interface UnitImportResult {
+    fileName: string;
+    /** The imported unit, absent when the import failed */
+    unit?: UnitSummary;
+    /** Reason the file was rejected */
+    error?: string;
+    /** Non-fatal parser diagnostics */
+    warnings: string[];
+}
+
+export interface UnitImportFile {
+    fileName: string;
+    content: string;
+}
+
+/**
+ * Manages units imported by the user from MegaMek .mtf/.blk files.
+ *
+ * Files are parsed through the entity layer into a regular `UnitSummary` and
+ * merged into the units catalog, so they can be searched and added to forces
+ * like any other unit. The raw files are persisted in IndexedDB and rebuilt on
+ * every startup against the current equipment catalog.
+ */
+@Injectable({
+    providedIn: 'root'
+})
+export class ImportedUnitsService {
+    private readonly dbService = inject(DbService);
+    private readonly logger = inject(LoggerService);
+    private readonly injector = inject(Injector);
+    private readonly equipmentCatalog = inject(EquipmentCatalogService);
+    private readonly quirksCatalog = inject(QuirksCatalogService);
+    private readonly sourcebooksCatalog = inject(SourcebooksCatalogService);
+    private readonly unitsCatalog = inject(UnitsCatalogService);
+
+    private files: StoredImportedUnitFile[] = [];
+    private readonly _importedUnits = signal<readonly UnitSummary[]>([]);
+    public readonly importedUnits = this._importedUnits.asReadonly();
+
+    /** Rebuilds the persisted imported units and merges them into the units catalog. */
+    public async initialize(): Promise<void> {
+        this.files = await this.dbService.getImportedUnitFiles();
+        if (this.files.length === 0) {
+            return;
+        }
+
+        const resolveIcon = await this.getIconResolver();
+        const units: UnitSummary[] = [];
+        for (const file of this.files) {
+            try {
+                units.push(this.buildUnit(file, resolveIcon).unit);
+            } catch (error) {
+                this.logger.warn(`Failed to rebuild imported unit ${file.fileName}: ${this.describeError(error)}`);
+            }
+        }
+
+        this.applyUnits(units);
+        this.logger.info(`Loaded ${this._importedUnits().length} imported unit(s).`);
+    }
+
+    /**
+     * Parses and imports unit files. A file whose unit name is already imported
+     * replaces the previous import; names owned by the catalog are rejected.
+     */
+    public async importFiles(files: readonly UnitImportFile[]): Promise<UnitImportResult[]> {
+        const resolveIcon = await this.getIconResolver();
+        const results: UnitImportResult[] = [];
+        const storedByName = new Map(this.files.map(file => [file.name.toLowerCase(), file]));
+
+        for (const file of files) {
+            if (!isImportableUnitFile(file.fileName)) {
+                results.push({ fileName: file.fileName, error: 'Only .mtf and .blk unit files can be imported.', warnings: [] });
+                continue;
+            }
+
+            try {
+                const stored: StoredImportedUnitFile = {
+                    name: '',
+                    fileName: file.fileName,
+                    content: file.content,
+                    timestamp: Date.now(),
+                };
+                const { unit, warnings } = this.buildUnit(stored, resolveIcon);
+                if (this.unitsCatalog.isCatalogUnitName(unit.name)) {
+                    results.push({
+                        fileName: file.fileName,
+                        error: `${unit.chassis} ${unit.model} already exists in the units catalog.`,
+                        warnings,
+                    });
+                    continue;
+                }
+
+                stored.name = unit.name;
+                storedByName.set(unit.name.toLowerCase(), stored);
+                results.push({ fileName: file.fileName, unit, warnings });
+            } catch (error) {
+                results.push({ fileName: file.fileName, error: this.describeError(error), warnings: [] });
+            }
+        }
+
+        const importedUnits = results.flatMap(result => result.unit ? [result.unit] : []);
+        if (importedUnits.length === 0) {
+            return results;
+        }
+
+        this.files = Array.from(storedByName.values());
+        await this.dbService.saveImportedUnitFiles(this.files);
+
+        const replacedNames = new Set(importedUnits.map(unit => unit.name.toLowerCase()));
+        this.applyUnits([
+            ...this._importedUnits().filter(unit => !replacedNames.has(unit.name.toLowerCase())),
+            ...importedUnits,
+        ]);
+        return results;
+    }
+
+    public async removeUnit(name: string): Promise<void> {
+        const nameKey = name.toLowerCase();
+        this.files = this.files.filter(file => file.name.toLowerCase() !== nameKey);
+        await this.dbService.saveImportedUnitFiles(this.files);
+        this.applyUnits(this._importedUnits().filter(unit => unit.name.toLowerCase() !== nameKey));
+    }
+
+    /** Returns the original file of an imported unit, e.g. for re-export. */
+    public getUnitFile(name: string): UnitImportFile | undefined {
+        const nameKey = name.toLowerCase();
+        const stored = this.files.find(file => file.name.toLowerCase() === nameKey);
+        return stored ? { fileName: stored.fileName, content: stored.content } : undefined;
+    }
+
+    /** Parses a unit file against the loaded equipment, sourcebook and quirk catalogs. */
+    public parseUnitFile(file: UnitImportFile): ParseResult {
+        return parseEntity(file.content, file.fileName, this.equipmentCatalog.getEquipmentRegistry(), {
+            sourcebookResolver: abbrev => this.sourcebooksCatalog.getSourcebookByAbbrev(abbrev),
+            quirkResolver: key => this.quirksCatalog.getQuirkByKey(key),
+        });
+    }
+
+    /** Parses an imported unit back into an entity; undefined when the unit is not imported. */
+    public getUnitEntity(name: string): BaseEntity | undefined {
+        const file = this.getUnitFile(name);
+        return file ? this.parseUnitFile(file).entity : undefined;
+    }
+
+    /** Runs the construction rules against an imported unit; undefined when the unit is not imported. */
+    public validateUnit(name: string): ConstructionValidationReport | undefined {
+        const entity = this.getUnitEntity(name);
+        return entity ? validateConstruction(entity) : undefined;
+    }
+
+    private applyUnits(units: readonly UnitSummary[]): void {
+        this._importedUnits.set(this.unitsCatalog.setImportedUnits(units));
+    }
+
+    private buildUnit(file: StoredImportedUnitFile, resolveIcon: UnitIconResolver): { unit: UnitSummary; warnings: string[] } {
+        const { entity, diagnostics } = this.parseUnitFile(file);
+
+        const errors = diagnostics.filter(diagnostic => diagnostic.severity === 'error');
+        if (errors.length > 0) {
+            throw new Error(errors.map(error => `${error.field}: ${error.message}`).join('; '));
+        }
+
+        // Homebrew units are imported even when they break construction rules; the findings are reported as warnings.
+        const construction = validateConstruction(entity).diagnostics
+            .filter(diagnostic => diagnostic.severity !== 'info')
+            .map(diagnostic => `${CONSTRUCTION_RULE_LABELS[diagnostic.rule]}: ${diagnostic.message}`);
+        return {
+            unit: buildImportedUnitSummary(entity, file.fileName, resolveIcon),
+            warnings: [
+                ...diagnostics.map(diagnostic => `${diagnostic.field}: ${diagnostic.message}`),
+                ...construction,
+            ],
+        };
+    }
+
+    private async getIconResolver(): Promise<UnitIconResolver> {
+        try {
+            // Resolved lazily: the sprite service starts downloading sprites on construction.
+            const spriteStorageService = this.injector.get(SpriteStorageService);
+            return createUnitIconResolver(await spriteStorageService.getAssignments() ?? undefined);
+        } catch {
+            return createUnitIconResolver(undefined);
+        }
+    }
+
+    private describeError(error: unknown): string {
+        return error instanceof Error ? error.message : String(error);
+    }
+}
@@ -0,0 +1,63 @@
+// Copyright (C) 2026 The MegaMek Team
+// SPDX-License-Identifier: GPL-3.0-or-later
+// Author: Drake
+
+import { of } from 'rxjs';
+import { CBTForceUnit } from '../models/cbt-force-unit.model';
+import type { LobbyAttackProposal } from '../models/lobby-attack.model';
+import { LobbyAttackService } from './lobby-attack.service';
+
+describe('LobbyAttackService', () => {
+    const proposal: LobbyAttackProposal = {
+        proposalId: 'proposal-1',
+        fromPublicId: 'attacker',
+        attacker: 'Attacker',
+        weapon: '',
+        forceInstanceId: 'force-1',
+        unitId: 'unit-1',
+        hits: [{ location: 'LA', rear: false, damage: 5 }],
+    };
+
+    function createUnit(name: string): CBTForceUnit {
+        const unit = Object.create(CBTForceUnit.prototype) as CBTForceUnit;
+        Object.defineProperty(unit, 'id', { value: 'unit-1' });
+        unit.getDisplayName = () => name;
+        return unit;
+    }
+
+    function createService(answer: 'accept' | 'reject', unitsAfterDialog: CBTForceUnit[]) {
+        const service = Object.create(LobbyAttackService.prototype) as any;
+        let units = [createUnit('Before')];
+        const force = { owned: () => true, instanceId: () => 'force-1', units: () => units };
+        service.forceBuilderService = { loadedForces: () => [{ force }] };
+        service.lobbyService = { hasLobby: () => true };
+        service.wsService = { send: jasmine.createSpy('send') };
+        service.dialogsService = {
+            createDialog: jasmine.createSpy('createDialog').and.callFake(() => {
+                units = unitsAfterDialog;
+                return { closed: of(answer) };
+            }),
+        };
+        service.apply = jasmine.createSpy('apply').and.resolveTo();
+        return service;
+    }
+
+    it('applies accepted damage to the unit as it is once the owner answers', async () => {
+        const reloaded = createUnit('Reloaded');
+        const service = createService('accept', [reloaded]);
+
+        await service.review(proposal);
+
+        expect(service.apply).toHaveBeenCalledOnceWith(reloaded, proposal.hits);
+        expect(service.wsService.send).toHaveBeenCalledWith(jasmine.objectContaining({ accepted: true, target: 'Reloaded' }));
+    });
+
+    it('rejects an accepted attack whose unit is gone once the owner answers', async () => {
+        const service = createService('accept', []);
+
+        await service.review(proposal);
+
+        expect(service.apply).not.toHaveBeenCalled();
+        expect(service.wsService.send).toHaveBeenCalledWith(jasmine.objectContaining({ accepted: false, target: 'Before' }));
+    });
+});
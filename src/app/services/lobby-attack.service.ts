@@ -0,0 +1,168 @@
+// Copyright (C) 2026 The MegaMek Team
+// SPDX-License-Identifier: GPL-3.0-or-later
+// Author: Drake
+
+import { DestroyRef, inject, Injectable } from '@angular/core';
+import { firstValueFrom } from 'rxjs';
+import { CBTForceUnit } from '../models/cbt-force-unit.model';
+import { getMekLocationLabel } from '../models/entity/types';
+import type { LobbyAttackProposal, LobbyDamageHit } from '../models/lobby-attack.model';
+import type { ConfirmDialogData } from '../components/confirm-dialog/confirm-dialog.component';
+import { DialogsService } from './dialogs.service';
+import { ForceBuilderService } from './force-builder.service';
+import { LobbyService } from './lobby.service';
+import { OptionsService } from './options.service';
+import { ToastService } from './toast.service';
+import { WsService } from './ws.service';
+import { applyLobbyDamage, parseLobbyAttackProposal } from '../utils/lobby-attack.util';
+import { applyMekBlowOff, mekCriticalChanceCanBlowOff, resolveMekCriticalChance } from '../utils/mek-critical-hit.util';
+
+export interface LobbyAttackTarget {
+    publicId: string;
+    forceInstanceId: string;
+}
+
+/**
+ * Cross-force attacks in a lobby. The attacker resolves an attack against a
+ * unit of another participant and sends it as a proposal; the unit's owner
+ * accepts or rejects it, and only an accepted proposal touches the sheet.
+ */
+@Injectable({ providedIn: 'root' })
+export class LobbyAttackService {
+    private readonly wsService = inject(WsService);
+    private readonly lobbyService = inject(LobbyService);
+    private readonly forceBuilderService = inject(ForceBuilderService);
+    private readonly dialogsService = inject(DialogsService);
+    private readonly optionsService = inject(OptionsService);
+    private readonly toastService = inject(ToastService);
+
+    private reviewQueue = Promise.resolve();
+
+    constructor() {
+        const unregisterProposal = this.wsService.registerMessageHandler('lobbyAttackProposal', msg => {
+            const proposal = parseLobbyAttackProposal(msg.proposal);
+            if (!proposal) return;
+            this.reviewQueue = this.reviewQueue
+                .then(() => this.review(proposal))
+                .catch(error => console.error('Failed to resolve lobby attack:', error));
+        });
+        const unregisterResponse = this.wsService.registerMessageHandler('lobbyAttackResponse', msg => {
+            if (typeof msg.proposalId !== 'string' || typeof msg.accepted !== 'boolean') return;
+            const target = typeof msg.target === 'string' && msg.target ? msg.target : 'The target';
+            this.toastService.showToast(
+                msg.accepted ? `${target} accepted the attack.` : `${target} rejected the attack.`,
+                msg.accepted ? 'success' : 'info',
+            );
+        });
+
+        inject(DestroyRef).onDestroy(() => {
+            unregisterProposal();
+            unregisterResponse();
+        });
+    }
+
+    /** The lobby player who owns the unit, when the unit can be attacked through the lobby. */
+    getTarget(unit: CBTForceUnit): LobbyAttackTarget | null {
+        const forceInstanceId = unit.force.instanceId();
+        if (!forceInstanceId || unit.force.owned() || this.lobbyService.isSpectator()) return null;
+        const owner = this.lobbyService.state()?.participants.find(participant => (
+            !participant.self && participant.role === 'player' && participant.instanceIds.includes(forceInstanceId)
+        ));
+        return owner ? { publicId: owner.publicId, forceInstanceId } : null;
+    }
+
+    proposeAttack(attacker: CBTForceUnit, target: CBTForceUnit, weapon: string, hits: LobbyDamageHit[]): boolean {
+        const lobbyTarget = this.getTarget(target);
+        if (!lobbyTarget || hits.length === 0) return false;
+        this.wsService.send({
+            action: 'sendLobbyAttack',
+            proposalId: crypto.randomUUID(),
+            targetPublicId: lobbyTarget.publicId,
+            forceInstanceId: lobbyTarget.forceInstanceId,
+            unitId: target.id,
+            attacker: attacker.getDisplayName(),
+            weapon,
+            hits,
+        });
+        this.toastService.showToast(`Attack on ${target.getDisplayName()} sent for approval.`, 'info');
+        return true;
+    }
+
+    private findOwnUnit(proposal: LobbyAttackProposal): CBTForceUnit | null {
+        const slot = this.forceBuilderService.loadedForces().find(candidate => (
+            candidate.force.owned() && candidate.force.instanceId() === proposal.forceInstanceId
+        ));
+        const unit = slot?.force.units().find(candidate => candidate.id === proposal.unitId);
+        return unit instanceof CBTForceUnit ? unit : null;
+    }
+
+    private async review(proposal: LobbyAttackProposal): Promise<void> {
+        const unit = this.findOwnUnit(proposal);
+        if (!unit || !this.lobbyService.hasLobby()) {
+            this.respond(proposal, false, unit);
+            return;
+        }
+        const { ConfirmDialogComponent } = await import('../components/confirm-dialog/confirm-dialog.component');
+        const ref = this.dialogsService.createDialog<'accept' | 'reject'>(ConfirmDialogComponent, {
+            disableClose: true,
+            data: <ConfirmDialogData<'accept' | 'reject'>>{
+                title: 'Incoming Attack',
+                message: this.describe(proposal, unit),
+                buttons: [
+                    { label: 'ACCEPT', value: 'accept' },
+                    { label: 'REJECT', value: 'reject' },
+                ],
+            },
+        });
+        const answer = await firstValueFrom(ref.closed);
+        // The force may have been reloaded or updated while the dialog was open.
+        const current = this.findOwnUnit(proposal);
+        const accepted = answer === 'accept' && !!current && this.lobbyService.hasLobby();
+        if (accepted) await this.apply(current, proposal.hits);
+        this.respond(proposal, accepted, current ?? unit);
+    }
+
+    private respond(proposal: LobbyAttackProposal, accepted: boolean, unit: CBTForceUnit | null): void {
+        this.wsService.send({
+            action: 'respondLobbyAttack',
+            proposalId: proposal.proposalId,
+            fromPublicId: proposal.fromPublicId,
+            accepted,
+            target: unit?.getDisplayName() ?? '',
+        });
+    }
+
+    private describe(proposal: LobbyAttackProposal, unit: CBTForceUnit): string {
+        const hits = proposal.hits.map(hit => {
+            const location = `${getMekLocationLabel(hit.location) ?? hit.location}${hit.rear ? ' (rear)' : ''}`;
+            const critical = hit.criticalRoll ? `, critical chance ${hit.criticalRoll.join(' + ')}` : '';
+            return `${hit.damage} to ${location}${critical}`;
+        });
+        const weapon = proposal.weapon ? ` with ${proposal.weapon}` : '';
+        return `${proposal.attacker} attacks your ${unit.getDisplayName()}${weapon}: ${hits.join('; ')}.`;
+    }
+
+    private async apply(unit: CBTForceUnit, hits: readonly LobbyDamageHit[]): Promise<void> {
+        const consolidateImmediately = !this.optionsService.options().trackPhaseAndTurn;
+        for (const hit of hits) {
+            applyLobbyDamage(unit, hit, consolidateImmediately);
+        }
+        if (unit.getUnit().type !== 'Mek') return;
+
+        for (const hit of hits) {
+            if (!hit.criticalRoll) continue;
+            const canBlowOff = mekCriticalChanceCanBlowOff(hit.location);
+            const result = resolveMekCriticalChance(hit.criticalRoll[0] + hit.criticalRoll[1], canBlowOff);
+            if (result.kind === 'blown-off') {
+                applyMekBlowOff(unit, hit.location, consolidateImmediately);
+            } else if (result.kind === 'critical-hits') {
+                // Slot rolls depend on the sheet as it is now, so the owner rolls them.
+                const { MekCriticalRollDialogComponent } = await import('../components/page-viewer/mek-critical-roll-dialog.component');
+                const ref = this.dialogsService.createDialog(MekCriticalRollDialogComponent, {
+                    data: { unit, location: hit.location, requiredHits: result.count, consolidateImmediately },
+                });
+                await firstValueFrom(ref.closed);
+            }
+        }
+    }
+}
@@ -0,0 +1,121 @@
+// Copyright (C) 2026 The MegaMek Team
+// SPDX-License-Identifier: GPL-3.0-or-later
+// Author: Drake
+
+import { DestroyRef, computed, effect, inject, Injectable, signal, untracked } from '@angular/core';
+import type { LobbyLogEntry, LobbyMessage } from '../models/lobby-message.model';
+import { LobbyService } from './lobby.service';
+import { RollLogService } from './roll-log.service';
+import { ToastService } from './toast.service';
+import { WsService } from './ws.service';
+import { MAX_LOBBY_CHAT_LENGTH, parseLobbyMessage, verifyLobbyLog } from '../utils/lobby-log.util';
+
+const MAX_LOBBY_MESSAGES = 500;
+
+/**
+ * Lobby chat and shared roll log. The server numbers and chains every message;
+ * clients verify the chain and remember the first hash seen for each number,
+ * so a history that changes under them is flagged instead of trusted.
+ */
+@Injectable({ providedIn: 'root' })
+export class LobbyMessagesService {
+    private readonly wsService = inject(WsService);
+    private readonly lobbyService = inject(LobbyService);
+    private readonly toastService = inject(ToastService);
+
+    readonly entries = signal<LobbyLogEntry[]>([]);
+    readonly unverifiedCount = computed(() => this.entries().filter(entry => !entry.verified).length);
+
+    private messages = new Map<number, LobbyMessage>();
+    private readonly seenHashes = new Map<number, string>();
+    private verifyQueue = Promise.resolve();
+    private lobbyCode: string | null = null;
+    private lobbyVersion = 0;
+    private tamperWarningShown = false;
+
+    constructor() {
+        const unregisterMessage = this.wsService.registerMessageHandler('lobbyMessage', msg => {
+            this.receive([msg.message]);
+        });
+        const unregisterMessages = this.wsService.registerMessageHandler('lobbyMessages', msg => {
+            if (Array.isArray(msg.messages)) this.receive(msg.messages);
+        });
+        const rollSubscription = inject(RollLogService).rolled.subscribe(roll => {
+            if (this.lobbyService.hasLobby()) {
+                this.wsService.send({ action: 'sendLobbyMessage', kind: 'roll', roll });
+            }
+        });
+
+        effect(() => {
+            const code = this.lobbyService.state()?.code ?? null;
+            const connected = this.wsService.wsConnected();
+            untracked(() => {
+                if (code !== this.lobbyCode) {
+                    this.lobbyCode = code;
+                    this.reset();
+                }
+                if (code && connected) {
+                    this.wsService.send({ action: 'getLobbyMessages' });
+                }
+            });
+        });
+
+        inject(DestroyRef).onDestroy(() => {
+            unregisterMessage();
+            unregisterMessages();
+            rollSubscription.unsubscribe();
+        });
+    }
+
+    sendChat(text: string): boolean {
+        const trimmed = text.trim();
+        if (!trimmed || trimmed.length > MAX_LOBBY_CHAT_LENGTH || !this.lobbyService.hasLobby()) return false;
+        this.wsService.send({ action: 'sendLobbyMessage', kind: 'chat', text: trimmed });
+        return true;
+    }
+
+    private receive(values: unknown[]): void {
+        if (!this.lobbyService.hasLobby()) return;
+        for (const value of values) {
+            const message = parseLobbyMessage(value);
+            if (!message) continue;
+            const seen = this.seenHashes.get(message.seq);
+            if (seen === undefined) {
+                this.seenHashes.set(message.seq, message.hash);
+            } else if (seen !== message.hash) {
+                this.warnTampered();
+            }
+            this.messages.set(message.seq, message);
+        }
+        if (this.messages.size > MAX_LOBBY_MESSAGES) {
+            this.messages = new Map([...this.messages].sort(([a], [b]) => a - b).slice(-MAX_LOBBY_MESSAGES));
+        }
+
+        const version = this.lobbyVersion;
+        const messages = [...this.messages.values()];
+        this.verifyQueue = this.verifyQueue
+            .then(() => verifyLobbyLog(messages))
+            .then(entries => {
+                if (version !== this.lobbyVersion) return;
+                // A message whose number was first seen with another hash never verifies again.
+                this.entries.set(entries.map(entry => (
+                    this.seenHashes.get(entry.seq) === entry.hash ? entry : { ...entry, verified: false }
+                )));
+            })
+            .catch(error => console.error('Lobby log verification failed:', error));
+    }
+
+    private warnTampered(): void {
+        if (this.tamperWarningShown) return;
+        this.tamperWarningShown = true;
+        this.toastService.showToast('The lobby history changed after it was received.', 'error');
+    }
+
+    private reset(): void {
+        this.lobbyVersion++;
+        this.messages = new Map();
+        this.seenHashes.clear();
+        this.tamperWarningShown = false;
+        this.entries.set([]);
+    }
+}
@@ -10,6 +10,7 @@ import { DialogsService } from './dialogs.service';
 import { DisplayNameService } from './display-name.service';
 import { ForceBuilderService } from './force-builder.service';
 import { LobbyService } from './lobby.service';
+import { OptionsService } from './options.service';
 import { ToastService } from './toast.service';
 import { WsService } from './ws.service';
 
@@ -35,6 +36,7 @@ describe('LobbyService', () => {
     let dialogsService: any;
     let toastService: any;
     let displayNameService: any;
+    let optionsService: any;
 
     beforeEach(() => {
         handlers = new Map();
@@ -60,6 +62,7 @@ describe('LobbyService', () => {
             removeLoadedForce: jasmine.createSpy('removeLoadedForce').and.callFake(async (force: any) => {
                 forceBuilderService.loadedForces.update((slots: any[]) => slots.filter(slot => slot.force !== force));
             }),
+            ensureSides: jasmine.createSpy('ensureSides'),
         };
         dataService = {
             getForce: jasmine.createSpy('getForce'),
@@ -77,6 +80,8 @@ describe('LobbyService', () => {
             save: jasmine.createSpy('save').and.resolveTo('Specter'),
         };
 
+        optionsService = { options: signal({ trackPhaseAndTurn: true }) };
+
         TestBed.configureTestingModule({
             providers: [
                 provideZonelessChangeDetection(),
@@ -87,6 +92,7 @@ describe('LobbyService', () => {
                 { provide: DialogsService, useValue: dialogsService },
                 { provide: DisplayNameService, useValue: displayNameService },
                 { provide: ToastService, useValue: toastService },
+                { provide: OptionsService, useValue: optionsService },
             ],
         });
     });
@@ -387,6 +393,74 @@ describe('LobbyService', () => {
         });
     });
 
+    it('keeps a spectator role private and follows every player force read-only', async () => {
+        const ownForce = createForce('own-force', true, [{}]);
+        const friendlyForce = createForce('friendly-force', true);
+        const hostileForce = createForce('hostile-force', true);
+        forceBuilderService.loadedForces.set([{ force: ownForce, alignment: 'friendly', changeSub: null }]);
+        dataService.getForce.and.callFake(async (instanceId: string) => (
+            instanceId === 'friendly-force' ? friendlyForce : hostileForce
+        ));
+        const service = TestBed.inject(LobbyService);
+
+        handlers.get('lobbyState')?.({
+            action: 'lobbyState',
+            code: 'room',
+            locked: false,
+            isHost: false,
+            participants: [
+                { publicId: 'self', self: true, host: false, connected: true, role: 'spectator', alignment: 'friendly', instanceIds: ['stale-force'] },
+                { publicId: 'host', self: false, host: true, connected: true, role: 'player', alignment: 'friendly', instanceIds: ['friendly-force'] },
+                { publicId: 'guest', self: false, host: false, connected: true, alignment: 'enemy', instanceIds: ['hostile-force'] },
+            ],
+        });
+        await settleEffects();
+
+        expect(service.isSpectator()).toBeTrue();
+        expect(service.state()?.participants[0].instanceIds).toEqual([]);
+        expect(service.state()?.participants[2].role).toBe('player');
+        expect(wsService.send).toHaveBeenCalledWith({ action: 'syncLobbyForces', instanceIds: [] });
+        expect(dataService.saveForce).not.toHaveBeenCalled();
+        expect(friendlyForce.owned()).toBeFalse();
+        expect(hostileForce.owned()).toBeFalse();
+        expect(forceBuilderService.addLoadedForce).toHaveBeenCalledWith(friendlyForce, 'friendly', jasmine.any(Object));
+        expect(forceBuilderService.addLoadedForce).toHaveBeenCalledWith(hostileForce, 'enemy', jasmine.any(Object));
+
+        service.setAlignment('self', 'enemy');
+        service.setRole('player');
+        expect(wsService.send).not.toHaveBeenCalledWith(jasmine.objectContaining({ action: 'setLobbyAlignment' }));
+        expect(wsService.send).toHaveBeenCalledWith({ action: 'setLobbyRole', role: 'player' });
+    });
+
+    it('asks to join as a spectator only when requested', async () => {
+        wsService.sendAndWaitForResponse.and.resolveTo({
+            action: 'lobbyJoined',
+            state: {
+                action: 'lobbyState',
+                code: 'a1b2',
+                locked: false,
+                isHost: false,
+                participants: [
+                    { publicId: 'self', self: true, host: false, connected: true, role: 'spectator', alignment: 'friendly', instanceIds: [] },
+                    { publicId: 'host', self: false, host: true, connected: true, role: 'player', alignment: 'friendly', instanceIds: [] },
+                ],
+            },
+        });
+        const service = TestBed.inject(LobbyService);
+
+        await service.joinLobby('a1b2', 'Specter', 'spectator');
+
+        expect(wsService.sendAndWaitForResponse).toHaveBeenCalledWith(
+            { action: 'joinLobby', code: 'a1b2', role: 'spectator' },
+            { suppressGlobalError: true },
+        );
+        service.setAlignment('self', 'enemy');
+        service.setAlignment('host', 'enemy');
+        service.setRole('spectator');
+        expect(wsService.send).toHaveBeenCalledTimes(1);
+        expect(wsService.send).toHaveBeenCalledWith({ action: 'setLobbyAlignment', publicId: 'host', alignment: 'enemy' });
+    });
+
     it('publishes friendly local forces regardless of cloud ownership', async () => {
         const sharedForce = createForce('shared-force', false);
         forceBuilderService.loadedForces.set([{
@@ -476,6 +550,33 @@ describe('LobbyService', () => {
         expect(forceBuilderService.loadedForces()).toEqual([]);
     });
 
+    it('loads forces on additional sides and shares the lobby side definitions', async () => {
+        const thirdForce = createForce('third-force', true);
+        dataService.getForce.and.resolveTo(thirdForce);
+        const service = TestBed.inject(LobbyService);
+
+        handlers.get('lobbyState')?.({
+            action: 'lobbyState',
+            code: 'room',
+            locked: false,
+            isHost: false,
+            participants: [
+                { publicId: 'self', self: true, host: false, connected: true, alignment: 'friendly', instanceIds: [] },
+                { publicId: 'third', self: false, host: true, connected: true, alignment: 'side-3', instanceIds: ['third-force'] },
+            ],
+            sides: [{ id: 'side-3', name: 'Mercenaries', color: '#E3A53C' }],
+        });
+        await settleEffects();
+
+        expect(service.sides().map(side => side.id)).toEqual(['friendly', 'side-3', 'enemy']);
+        expect(service.sides()[1]).toEqual({ id: 'side-3', name: 'Mercenaries', color: '#e3a53c' });
+        expect(forceBuilderService.ensureSides).toHaveBeenCalledWith(jasmine.anything(), service.sides());
+        expect(forceBuilderService.addLoadedForce).toHaveBeenCalledWith(thirdForce, 'side-3', {
+            activate: true,
+            persistInUrl: false,
+        });
+    });
+
     it('sends only public IDs when changing perspective or kicking', () => {
         const service = TestBed.inject(LobbyService);
         handlers.get('lobbyState')?.({
@@ -501,6 +602,92 @@ describe('LobbyService', () => {
         expect(JSON.stringify(wsService.send.calls.allArgs())).not.toContain('uuid');
     });
 
+    it('drives the shared clock from the host and tracks who is still playing the phase', () => {
+        const service = TestBed.inject(LobbyService);
+        handlers.get('lobbyState')?.({
+            action: 'lobbyState',
+            code: 'room',
+            locked: false,
+            isHost: true,
+            participants: [
+                { publicId: 'self-public', self: true, host: true, connected: true, alignment: 'friendly', instanceIds: [] },
+                { publicId: 'guest-public', self: false, host: false, connected: true, alignment: 'enemy', instanceIds: [] },
+                { publicId: 'viewer-public', self: false, host: false, connected: true, role: 'spectator', alignment: 'friendly', instanceIds: [] },
+            ],
+            clock: { turn: 2, phase: 'heat', ready: ['self-public'] },
+        });
+
+        expect(service.isPhaseReady()).toBeTrue();
+        expect(service.pendingPlayers().map(participant => participant.publicId)).toEqual(['guest-public']);
+
+        service.advancePhase();
+        service.advanceTurn();
+        service.setPhaseReady(false);
+        service.stopClock();
+
+        expect(wsService.send.calls.allArgs()).toEqual([
+            [{ action: 'setLobbyClock', turn: 3, phase: 'movement' }],
+            [{ action: 'setLobbyClock', turn: 3, phase: 'movement' }],
+            [{ action: 'setLobbyPhaseReady', ready: false }],
+            [{ action: 'clearLobbyClock' }],
+        ]);
+    });
+
+    it('ends the phase or turn on owned Classic sheets when the clock moves', () => {
+        const unit = { endPhase: jasmine.createSpy('endPhase'), endTurn: jasmine.createSpy('endTurn') };
+        const remoteUnit = { endPhase: jasmine.createSpy('endPhase'), endTurn: jasmine.createSpy('endTurn') };
+        const ownForce = Object.assign(createForce('own-force', true, [unit]), { gameSystem: 'cbt' });
+        const remoteForce = Object.assign(createForce('remote-force', false, [remoteUnit]), { gameSystem: 'cbt' });
+        forceBuilderService.loadedForces.set([
+            { force: ownForce, alignment: 'friendly', changeSub: null },
+            { force: remoteForce, alignment: 'enemy', changeSub: null },
+        ]);
+        TestBed.inject(LobbyService);
+        const sendState = (clock: unknown) => handlers.get('lobbyState')?.({
+            action: 'lobbyState',
+            code: 'room',
+            locked: false,
+            isHost: false,
+            participants: [
+                { publicId: 'self', self: true, host: false, connected: true, alignment: 'friendly', instanceIds: ['own-force'] },
+                { publicId: 'host', self: false, host: true, connected: true, alignment: 'enemy', instanceIds: ['remote-force'] },
+            ],
+            clock,
+        });
+
+        sendState({ turn: 1, phase: 'weapon', ready: [] });
+        expect(unit.endPhase).not.toHaveBeenCalled();
+
+        sendState({ turn: 1, phase: 'heat', ready: [] });
+        expect(unit.endPhase).toHaveBeenCalledTimes(1);
+        expect(toastService.showToast).toHaveBeenCalledWith('Turn 1: Heat phase.', 'info');
+
+        sendState({ turn: 2, phase: 'movement', ready: [] });
+        expect(unit.endTurn).toHaveBeenCalledTimes(1);
+        expect(remoteUnit.endPhase).not.toHaveBeenCalled();
+        expect(remoteUnit.endTurn).not.toHaveBeenCalled();
+
+        optionsService.options.set({ trackPhaseAndTurn: false });
+        sendState({ turn: 2, phase: 'weapon', ready: [] });
+        expect(unit.endPhase).toHaveBeenCalledTimes(1);
+    });
+
+    it('rejects malformed clocks', () => {
+        const service = TestBed.inject(LobbyService);
+        handlers.get('lobbyState')?.({
+            action: 'lobbyState',
+            code: 'room',
+            locked: false,
+            isHost: true,
+            participants: [
+                { publicId: 'self', self: true, host: true, connected: true, alignment: 'friendly', instanceIds: [] },
+            ],
+            clock: { turn: 0, phase: 'initiative', ready: [] },
+        });
+
+        expect(service.state()).toBeNull();
+    });
+
     it('confirms before the host closes a lobby from the menu', async () => {
         dialogsService.requestConfirmation.and.resolveTo(true);
         const service = TestBed.inject(LobbyService);
@@ -4,13 +4,31 @@
 
 import { DestroyRef, computed, effect, inject, Injectable, signal } from '@angular/core';
 import { firstValueFrom } from 'rxjs';
-import type { ForceAlignment } from '../models/force-slot.model';
+import type { CBTForceUnit } from '../models/cbt-force-unit.model';
+import { GameSystem } from '../models/common.model';
+import {
+    isForceAlignment,
+    MAX_FORCE_SIDE_NAME_LENGTH,
+    MAX_FORCE_SIDES,
+    normalizeForceSides,
+    type ForceAlignment,
+} from '../models/force-slot.model';
 import type { Force } from '../models/force.model';
-import type { LobbyParticipant, LobbyState } from '../models/lobby.model';
+import {
+    getLobbyClockTransition,
+    LOBBY_PHASE_LABELS,
+    LOBBY_PHASES,
+    nextLobbyClockStep,
+    type LobbyClock,
+    type LobbyParticipant,
+    type LobbyRole,
+    type LobbyState,
+} from '../models/lobby.model';
 import { DataService } from './data.service';
 import { DialogsService } from './dialogs.service';
 import { DisplayNameService } from './display-name.service';
 import { ForceBuilderService } from './force-builder.service';
+import { OptionsService } from './options.service';
 import { ToastService } from './toast.service';
 import { WsService } from './ws.service';
 import { normalizeDisplayName } from '../utils/display-name.util';
@@ -27,11 +45,29 @@ export class LobbyService {
     private readonly dialogsService = inject(DialogsService);
     private readonly displayNameService = inject(DisplayNameService);
     private readonly forceBuilderService = inject(ForceBuilderService);
+    private readonly optionsService = inject(OptionsService);
     private readonly toastService = inject(ToastService);
 
     readonly state = signal<LobbyState | null>(null);
     readonly hasLobby = computed(() => this.state() !== null);
     readonly isHost = computed(() => this.state()?.isHost === true);
+    readonly isSpectator = computed(() => (
+        this.state()?.participants.find(participant => participant.self)?.role === 'spectator'
+    ));
+    readonly clock = computed(() => this.state()?.clock ?? null);
+    readonly sides = computed(() => this.state()?.sides ?? []);
+    /** Players who have not finished the current clock phase yet. */
+    readonly pendingPlayers = computed(() => {
+        const clock = this.clock();
+        if (!clock) return [];
+        const ready = new Set(clock.ready);
+        return (this.state()?.participants ?? [])
+            .filter(participant => participant.role === 'player' && !ready.has(participant.publicId));
+    });
+    readonly isPhaseReady = computed(() => {
+        const self = this.state()?.participants.find(participant => participant.self);
+        return !!self && (this.clock()?.ready.includes(self.publicId) ?? false);
+    });
     readonly canCreateOrJoin = computed(() => (
         this.lobbyStateKnown()
         && !this.hasLobby()
@@ -96,19 +132,21 @@ export class LobbyService {
             if (!state) return;
 
             this.queueReconcile();
+            // Spectators only follow the players' forces; their own stay private.
+            const spectator = this.isSpectator();
             const remoteInstanceIds = new Set(
                 state.participants
                     .filter(participant => !participant.self)
                     .flatMap(participant => participant.instanceIds),
             );
-            for (const slot of slots) {
+            for (const slot of spectator ? [] : slots) {
                 if (slot.alignment === 'friendly' && slot.force.owned()
                     && slot.force.units().length > 0 && !slot.force.instanceId()) {
                     this.saveDraftForLobby(slot.force);
                 }
             }
             const publishedInstanceIds = slots
-                .filter(slot => slot.alignment === 'friendly')
+                .filter(slot => !spectator && slot.alignment === 'friendly')
                 .map(slot => slot.force.instanceId())
                 .filter((instanceId): instanceId is string => !!instanceId && !remoteInstanceIds.has(instanceId));
             if (publishedInstanceIds.length > MAX_LOBBY_FORCES && !this.forceLimitWarningShown) {
@@ -167,7 +205,7 @@ export class LobbyService {
         }
     }
 
-    async joinLobby(rawCode: string, requestedDisplayName?: string): Promise<void> {
+    async joinLobby(rawCode: string, requestedDisplayName?: string, role: LobbyRole = 'player'): Promise<void> {
         const code = rawCode.trim().toLowerCase();
         if (!LOBBY_CODE_PATTERN.test(code)) {
             throw new Error('Enter a valid 4-character lobby code.');
@@ -177,7 +215,9 @@ export class LobbyService {
         this.invalidateRestore();
         this.lobbyStateKnown.set(false);
         try {
-            const response = await this.request({ action: 'joinLobby', code });
+            const response = await this.request(role === 'spectator'
+                ? { action: 'joinLobby', code, role }
+                : { action: 'joinLobby', code });
             if (response.action !== 'lobbyJoined') {
                 throw new Error('The lobby could not be joined.');
             }
@@ -203,7 +243,7 @@ export class LobbyService {
                 autoFocus: 'first-tabbable',
                 data: {
                     displayName: await this.displayNameService.currentOrGenerated(),
-                    attemptJoin: (code: string, displayName: string) => this.joinLobby(code, displayName),
+                    attemptJoin: (code: string, displayName: string, role: LobbyRole) => this.joinLobby(code, displayName, role),
                 },
             },
         );
@@ -238,15 +278,55 @@ export class LobbyService {
 
     setAlignment(publicId: string, alignment: ForceAlignment): void {
         const participant = this.state()?.participants.find(entry => entry.publicId === publicId);
-        if (!participant || participant.self) return;
+        if (!participant || participant.self || participant.role === 'spectator') return;
         this.wsService.send({ action: 'setLobbyAlignment', publicId, alignment });
     }
 
+    /** Asks the server for another side; the host then moves players onto it. */
+    addSide(name: string, color: string): void {
+        const trimmed = name.trim().slice(0, MAX_FORCE_SIDE_NAME_LENGTH);
+        if (!this.isHost() || !trimmed || this.sides().length >= MAX_FORCE_SIDES) return;
+        this.wsService.send({ action: 'addLobbySide', name: trimmed, color });
+    }
+
+    setRole(role: LobbyRole): void {
+        const self = this.state()?.participants.find(participant => participant.self);
+        if (!self || self.role === role) return;
+        this.wsService.send({ action: 'setLobbyRole', role });
+    }
+
     setLocked(locked: boolean): void {
         if (!this.isHost()) return;
         this.wsService.send({ action: 'setLobbyLock', locked });
     }
 
+    startClock(): void {
+        if (!this.isHost() || this.clock()) return;
+        this.wsService.send({ action: 'setLobbyClock', turn: 1, phase: LOBBY_PHASES[0] });
+    }
+
+    advancePhase(): void {
+        const clock = this.clock();
+        if (!this.isHost() || !clock) return;
+        this.wsService.send({ action: 'setLobbyClock', ...nextLobbyClockStep(clock) });
+    }
+
+    advanceTurn(): void {
+        const clock = this.clock();
+        if (!this.isHost() || !clock) return;
+        this.wsService.send({ action: 'setLobbyClock', turn: clock.turn + 1, phase: LOBBY_PHASES[0] });
+    }
+
+    stopClock(): void {
+        if (!this.isHost() || !this.clock()) return;
+        this.wsService.send({ action: 'clearLobbyClock' });
+    }
+
+    setPhaseReady(ready: boolean): void {
+        if (!this.clock() || this.isSpectator() || this.isPhaseReady() === ready) return;
+        this.wsService.send({ action: 'setLobbyPhaseReady', ready });
+    }
+
     kick(publicId: string): void {
         const participant = this.state()?.participants.find(entry => entry.publicId === publicId);
         if (!this.isHost() || !participant || participant.self) return;
@@ -286,10 +366,32 @@ export class LobbyService {
     }
 
     private applyState(state: LobbyState): void {
+        const previousClock = this.state()?.clock ?? null;
         this.state.set(state);
+        if (previousClock && state.clock) this.followClock(previousClock, state.clock);
         this.queueReconcile();
     }
 
+    /**
+     * Moves the local sheets along with the host's clock. Only owned Classic
+     * forces are advanced; every other participant's sheets follow through
+     * their owner's client and arrive as regular force updates.
+     */
+    private followClock(previous: LobbyClock, next: LobbyClock): void {
+        const transition = getLobbyClockTransition(previous, next);
+        if (!transition) return;
+        this.toastService.showToast(`Turn ${next.turn}: ${LOBBY_PHASE_LABELS[next.phase]} phase.`, 'info');
+        if (!this.optionsService.options().trackPhaseAndTurn) return;
+
+        for (const slot of this.forceBuilderService.loadedForces()) {
+            if (!slot.force.owned() || slot.force.gameSystem !== GameSystem.CLASSIC) continue;
+            for (const unit of slot.force.units() as CBTForceUnit[]) {
+                if (transition === 'turn') unit.endTurn();
+                else unit.endPhase();
+            }
+        }
+    }
+
     private saveDraftForLobby(force: Force): void {
         if (this.pendingDraftSaves.has(force)) return;
         this.pendingDraftSaves.add(force);
@@ -310,7 +412,8 @@ export class LobbyService {
             if (!entry || typeof entry.publicId !== 'string' || entry.publicId.length === 0 || entry.publicId.length > 128
                 || typeof entry.self !== 'boolean' || typeof entry.host !== 'boolean'
                 || typeof entry.connected !== 'boolean'
-                || (entry.alignment !== 'friendly' && entry.alignment !== 'enemy')
+                || (entry.role !== undefined && entry.role !== 'player' && entry.role !== 'spectator')
+                || !isForceAlignment(entry.alignment)
                 || !Array.isArray(entry.instanceIds) || entry.instanceIds.length > MAX_LOBBY_FORCES
                 || !entry.instanceIds.every((id: unknown) => typeof id === 'string' && id.length > 0 && id.length <= 128)) {
                 return null;
@@ -322,13 +425,30 @@ export class LobbyService {
                 self: entry.self,
                 host: entry.host,
                 connected: entry.connected,
+                role: entry.role ?? 'player',
                 alignment: entry.alignment,
-                instanceIds: [...new Set<string>(entry.instanceIds)],
+                instanceIds: entry.role === 'spectator' ? [] : [...new Set<string>(entry.instanceIds)],
             });
         }
         if (participants.filter(participant => participant.self).length !== 1) return null;
 
-        return { code: value.code, locked: value.locked, isHost: value.isHost, participants };
+        const clock = this.parseClock(value.clock);
+        if (clock === undefined) return null;
+
+        const sides = normalizeForceSides(value.sides, participants.map(participant => participant.alignment));
+        return { code: value.code, locked: value.locked, isHost: value.isHost, participants, sides, clock };
+    }
+
+    /** A missing clock is null; a malformed one is undefined. */
+    private parseClock(value: any): LobbyClock | null | undefined {
+        if (value === undefined || value === null) return null;
+        if (!Number.isInteger(value.turn) || value.turn < 1
+            || !LOBBY_PHASES.includes(value.phase)
+            || !Array.isArray(value.ready) || value.ready.length > MAX_LOBBY_PARTICIPANTS
+            || !value.ready.every((id: unknown) => typeof id === 'string' && id.length > 0 && id.length <= 128)) {
+            return undefined;
+        }
+        return { turn: value.turn, phase: value.phase, ready: [...new Set<string>(value.ready)] };
     }
 
     private queueReconcile(): void {
@@ -348,10 +468,11 @@ export class LobbyService {
                 remoteAlignments.set(instanceId, participant.alignment);
             }
         }
+        this.forceBuilderService.ensureSides(remoteAlignments.values(), state.sides);
 
         let unloadedHostile = false;
         for (const slot of [...this.forceBuilderService.loadedForces()]) {
-            if (slot.alignment !== 'enemy') continue;
+            if (slot.alignment === 'friendly') continue;
             const instanceId = slot.force.instanceId();
             const isLobbyForce = !slot.force.owned() && !!instanceId && remoteAlignments.has(instanceId);
             if (isLobbyForce) continue;
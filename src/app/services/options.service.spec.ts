@@ -63,7 +63,9 @@ describe('OptionsService', () => {
             printPilotData: true,
             recordSheetCenterPanelContent: 'clusterTable',
             ASPrintPageBreakOnGroups: true,
-            ASPrintCardSize: 'standard',
+            ASPrintCardTemplate: 'standard',
+            ASPrintDuplex: false,
+            ASPrintColorBands: false,
             printMargin: 'browserDefined',
         });
     });
@@ -139,7 +141,9 @@ describe('OptionsService', () => {
                 printPilotData: 'yes',
                 recordSheetCenterPanelContent: 'diagram',
                 ASPrintPageBreakOnGroups: 'false',
-                ASPrintCardSize: 'large',
+                ASPrintCardTemplate: 'large',
+                ASPrintDuplex: 'true',
+                ASPrintColorBands: 1,
                 printMargin: 'auto',
             },
             CBTOptionalRules: {
@@ -184,7 +188,9 @@ describe('OptionsService', () => {
             printPilotData: true,
             recordSheetCenterPanelContent: 'clusterTable',
             ASPrintPageBreakOnGroups: true,
-            ASPrintCardSize: 'standard',
+            ASPrintCardTemplate: 'standard',
+            ASPrintDuplex: false,
+            ASPrintColorBands: false,
             printMargin: 'browserDefined',
         });
         expect(service.options().CBTOptionalRules).toEqual({
@@ -226,7 +232,9 @@ describe('OptionsService', () => {
                 printPilotData: false,
                 recordSheetCenterPanelContent: 'fluffImage',
                 ASPrintPageBreakOnGroups: false,
-                ASPrintCardSize: 'enlarged',
+                ASPrintCardTemplate: 'poker',
+                ASPrintDuplex: true,
+                ASPrintColorBands: true,
                 printMargin: 'none',
             },
         };
@@ -238,11 +246,21 @@ describe('OptionsService', () => {
             printPilotData: false,
             recordSheetCenterPanelContent: 'fluffImage',
             ASPrintPageBreakOnGroups: false,
-            ASPrintCardSize: 'enlarged',
+            ASPrintCardTemplate: 'poker',
+            ASPrintDuplex: true,
+            ASPrintColorBands: true,
             printMargin: 'none',
         });
     });
 
+    it('carries the card size saved before card templates over to the template', async () => {
+        savedOptions = { printAllOptions: { ASPrintCardSize: 'enlarged' } };
+
+        const service = await createService();
+
+        expect(service.options().printAllOptions.ASPrintCardTemplate).toBe('enlarged');
+    });
+
     it('restores a disabled CBT automations preference', async () => {
         savedOptions = { cbtAutomations: false };
 
@@ -28,7 +28,9 @@ const DEFAULT_OPTIONS: Options = {
         printPilotData: true,
         recordSheetCenterPanelContent: 'clusterTable',
         ASPrintPageBreakOnGroups: true,
-        ASPrintCardSize: 'standard',
+        ASPrintCardTemplate: 'standard',
+        ASPrintDuplex: false,
+        ASPrintColorBands: false,
         printMargin: 'browserDefined',
     },
     performanceMode: false,
@@ -106,11 +108,14 @@ function resolvePrintAllOptions(saved: Options | null | undefined): PrintAllOpti
             printOptions?.ASPrintPageBreakOnGroups,
             defaults.ASPrintPageBreakOnGroups,
         ),
-        ASPrintCardSize: resolveSavedValue(
-            printOptions?.ASPrintCardSize,
-            defaults.ASPrintCardSize,
-            PRINT_OPTION_VALUES.ASPrintCardSize,
+        ASPrintCardTemplate: resolveSavedValue(
+            // Options saved before card templates kept the card size, whose values are template ids.
+            printOptions?.ASPrintCardTemplate ?? (printOptions as { ASPrintCardSize?: unknown } | undefined)?.ASPrintCardSize,
+            defaults.ASPrintCardTemplate,
+            PRINT_OPTION_VALUES.ASPrintCardTemplate,
         ),
+        ASPrintDuplex: resolveSavedValue(printOptions?.ASPrintDuplex, defaults.ASPrintDuplex),
+        ASPrintColorBands: resolveSavedValue(printOptions?.ASPrintColorBands, defaults.ASPrintColorBands),
         printMargin: resolveSavedValue(
             printOptions?.printMargin,
             defaults.printMargin,
@@ -271,6 +276,7 @@ export class OptionsService {
             recordSheetDoubleTapZoomReset: resolveSavedValue(saved?.recordSheetDoubleTapZoomReset, DEFAULT_OPTIONS.recordSheetDoubleTapZoomReset, OPTION_VALUES.recordSheetDoubleTapZoomReset),
             lastCanvasState: resolveLastCanvasState(saved?.lastCanvasState),
             sidebarLipPosition: typeof saved?.sidebarLipPosition === 'string' ? saved.sidebarLipPosition : undefined,
+            activeRulesPackId: typeof saved?.activeRulesPackId === 'string' ? saved.activeRulesPackId : undefined,
             trackPhaseAndTurn: resolveSavedValue(saved?.trackPhaseAndTurn, DEFAULT_OPTIONS.trackPhaseAndTurn),
             cbtAutomations: resolveSavedValue(saved?.cbtAutomations, DEFAULT_OPTIONS.cbtAutomations),
             CBTOptionalRules: resolveCBTOptionalRules(saved),
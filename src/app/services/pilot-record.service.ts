@@ -0,0 +1,250 @@
+// Copyright (C) 2026 The MegaMek Team
+// SPDX-License-Identifier: GPL-3.0-or-later
+// Author: Drake
+
+import { inject, Injectable, signal } from '@angular/core';
+import { firstValueFrom } from 'rxjs';
+import { ASForceUnit } from '../models/as-force-unit.model';
+import { CBTForceUnit } from '../models/cbt-force-unit.model';
+import { DEAD_CREW_HIT_THRESHOLD } from '../models/crew-member.model';
+import type { ForceUnit } from '../models/force-unit.model';
+import {
+    createPilotRecord,
+    NEW_PILOT_RECORD_ID,
+    recordPilotGame,
+    type PilotGameResult,
+    type PilotRecord,
+    type PilotSkill,
+} from '../models/pilot-record.model';
+import type { CampaignCrewGain } from '../components/campaign-result-dialog/campaign-result-dialog.component';
+import type { PilotAdvancementDialogData } from '../components/pilot-advancement-dialog/pilot-advancement-dialog.component';
+import { getEffectivePilotingSkill } from '../utils/cbt-common.util';
+import { uuidv7 } from '../utils/uuid.util';
+import { DataService } from './data.service';
+import { DialogsService } from './dialogs.service';
+import { ForceBuilderService } from './force-builder.service';
+import { LoggerService } from './logger.service';
+import { ToastService } from './toast.service';
+
+/** A loaded unit a pilot record is assigned to; `crewId` is set for Classic crew members. */
+export interface PilotAssignment {
+    unit: ForceUnit;
+    crewId?: number;
+}
+
+/**
+ * Pilot records: keeps each warrior's skills and service history across
+ * games, writes them onto the units they are assigned to and spends their
+ * experience on advancement.
+ */
+@Injectable({ providedIn: 'root' })
+export class PilotRecordService {
+    private readonly dataService = inject(DataService);
+    private readonly forceBuilderService = inject(ForceBuilderService);
+    private readonly dialogsService = inject(DialogsService);
+    private readonly toastService = inject(ToastService);
+    private readonly logger = inject(LoggerService);
+
+    /** Stored records, sorted by name; filled by `loadRecords`. */
+    readonly records = signal<PilotRecord[]>([]);
+    private loading: Promise<PilotRecord[]> | null = null;
+
+    /** Loads the stored records once; later calls reuse the first load. */
+    async loadRecords(): Promise<PilotRecord[]> {
+        this.loading ??= this.dataService.listPilotRecords()
+            .then(records => {
+                this.records.set(records);
+                return records;
+            })
+            .catch(error => {
+                this.loading = null;
+                this.logger.error(`Failed to load pilot records: ${error}`);
+                return [];
+            });
+        await this.loading;
+        return this.records();
+    }
+
+    getRecord(pilotId: string | undefined): PilotRecord | undefined {
+        return pilotId ? this.records().find(record => record.pilotId === pilotId) : undefined;
+    }
+
+    async createRecord(name: string, skills?: Partial<Pick<PilotRecord, PilotSkill>>): Promise<PilotRecord> {
+        return await this.saveRecord(createPilotRecord(uuidv7(), name, skills));
+    }
+
+    async saveRecord(record: PilotRecord): Promise<PilotRecord> {
+        await this.loadRecords();
+        const saved: PilotRecord = { ...record, timestamp: Date.now() };
+        await this.dataService.savePilotRecord(saved);
+        this.records.update(records => [...records.filter(entry => entry.pilotId !== saved.pilotId), saved]
+            .sort((a, b) => a.name.localeCompare(b.name)));
+        return saved;
+    }
+
+    /** Deletes a record and unassigns it from the loaded units it was assigned to. */
+    async deleteRecord(pilotId: string): Promise<void> {
+        await this.dataService.deletePilotRecord(pilotId);
+        this.records.update(records => records.filter(record => record.pilotId !== pilotId));
+        for (const { unit, crewId } of this.assignments(pilotId)) {
+            if (unit instanceof CBTForceUnit && crewId !== undefined) {
+                unit.getCrewMember(crewId).setPilotId(undefined);
+            } else if (unit instanceof ASForceUnit) {
+                unit.setPilotId(undefined);
+            }
+        }
+    }
+
+    /** Loaded units, and Classic crew seats, the record is assigned to. */
+    assignments(pilotId: string): PilotAssignment[] {
+        const assignments: PilotAssignment[] = [];
+        for (const slot of this.forceBuilderService.loadedForces()) {
+            for (const unit of slot.force.units()) {
+                if (unit instanceof CBTForceUnit) {
+                    for (const crew of unit.getCrewMembers()) {
+                        if (crew.getPilotId() === pilotId) assignments.push({ unit, crewId: crew.getId() });
+                    }
+                } else if (unit instanceof ASForceUnit && unit.pilotId() === pilotId) {
+                    assignments.push({ unit });
+                }
+            }
+        }
+        return assignments;
+    }
+
+    /**
+     * Writes a record onto a unit: name and skills, plus the injuries it
+     * carries for Classic crew and its abilities for Alpha Strike pilots.
+     */
+    applyToUnit(record: PilotRecord, unit: ForceUnit, crewId?: number): void {
+        if (unit.readOnly()) return;
+        if (unit instanceof CBTForceUnit) {
+            const crew = unit.getCrewMember(crewId ?? 0);
+            if (!crew) return;
+            unit.disabledSaving = true;
+            try {
+                crew.setName(record.name);
+                crew.setSkill('gunnery', record.gunnery);
+                crew.setSkill('piloting', getEffectivePilotingSkill(unit.getUnit(), record.piloting));
+                crew.setHits(record.injuries);
+                crew.setPilotId(record.pilotId);
+            } finally {
+                unit.disabledSaving = false;
+            }
+            unit.setModified();
+        } else if (unit instanceof ASForceUnit) {
+            const custom = unit.manualPilotAbilities().filter(ability => typeof ability !== 'string');
+            unit.setPilotName(record.name || undefined);
+            unit.setPilotSkill(record.skill);
+            unit.setPilotAbilities([...record.abilities, ...custom]);
+            unit.setPilotId(record.pilotId);
+        }
+    }
+
+    /**
+     * Resolves the record a pilot editor assigned: creates the record when a
+     * new one was asked for and keeps the record's name in step with the
+     * editor. Returns the pilot ID to store on the unit.
+     */
+    async resolveEditorAssignment(
+        pilotId: string | undefined,
+        pilot: Partial<Pick<PilotRecord, PilotSkill | 'abilities'>> & { name: string },
+    ): Promise<string | undefined> {
+        if (!pilotId) return undefined;
+        if (pilotId === NEW_PILOT_RECORD_ID) {
+            const { name, abilities, ...skills } = pilot;
+            const record = createPilotRecord(uuidv7(), name, skills);
+            return (await this.saveRecord({ ...record, abilities: abilities ?? [] })).pilotId;
+        }
+        const record = this.getRecord(pilotId);
+        if (!record) return undefined;
+        if (pilot.name && pilot.name !== record.name) {
+            await this.saveRecord({ ...record, name: pilot.name });
+        }
+        return pilotId;
+    }
+
+    /**
+     * Records a game for every pilot assigned to the given units: kills and
+     * experience from the gains, injuries from the crew's final state.
+     */
+    async recordGame(units: ForceUnit[], gains: readonly CampaignCrewGain[]): Promise<void> {
+        await this.loadRecords();
+        const updated: PilotRecord[] = [];
+        const gainFor = (unitId: string, crewId: number) =>
+            gains.find(gain => gain.unitId === unitId && gain.crewId === crewId);
+        const record = (pilotId: string | undefined, unitId: string, crewId: number, injuries?: number) => {
+            const current = this.getRecord(pilotId);
+            if (!current || updated.some(entry => entry.pilotId === current.pilotId)) return;
+            const gain = gainFor(unitId, crewId);
+            const result: PilotGameResult = {
+                kills: gain?.kills ?? 0,
+                experience: gain?.experience ?? 0,
+                injuries: injuries ?? current.injuries,
+            };
+            updated.push(recordPilotGame(current, result));
+        };
+        for (const unit of units) {
+            if (unit instanceof CBTForceUnit) {
+                for (const crew of unit.getCrewMembers()) {
+                    record(crew.getPilotId(), unit.id, crew.getId(), crew.isDead() ? DEAD_CREW_HIT_THRESHOLD : crew.getHits());
+                }
+            } else if (unit instanceof ASForceUnit) {
+                record(unit.pilotId(), unit.id, 0);
+            }
+        }
+        await this.saveAll(updated);
+    }
+
+    /** Brings the injuries of the records assigned to the given Classic units in line with their crew. */
+    async syncInjuries(units: ForceUnit[]): Promise<void> {
+        await this.loadRecords();
+        const updated: PilotRecord[] = [];
+        for (const unit of units) {
+            if (!(unit instanceof CBTForceUnit)) continue;
+            for (const crew of unit.getCrewMembers()) {
+                const record = this.getRecord(crew.getPilotId());
+                if (record && record.injuries !== crew.getHits()) {
+                    updated.push({ ...record, injuries: crew.getHits() });
+                }
+            }
+        }
+        await this.saveAll(updated);
+    }
+
+    async showPilotRoster(): Promise<void> {
+        await this.loadRecords();
+        const { PilotRosterDialogComponent } = await import('../components/pilot-roster-dialog/pilot-roster-dialog.component');
+        this.dialogsService.createDialog(PilotRosterDialogComponent);
+    }
+
+    /** Opens the advancement screen; the advanced record is saved and written onto its assigned units. */
+    async showAdvancement(record: PilotRecord): Promise<PilotRecord | null> {
+        const data: PilotAdvancementDialogData = { record };
+        const { PilotAdvancementDialogComponent } = await import('../components/pilot-advancement-dialog/pilot-advancement-dialog.component');
+        const ref = this.dialogsService.createDialog<PilotRecord | null>(PilotAdvancementDialogComponent, { data });
+        const advanced = await firstValueFrom(ref.closed);
+        if (!advanced) return null;
+        try {
+            const saved = await this.saveRecord(advanced);
+            for (const { unit, crewId } of this.assignments(saved.pilotId)) {
+                this.applyToUnit(saved, unit, crewId);
+            }
+            this.toastService.showToast(`Advanced ${saved.name || 'the pilot'}.`, 'success');
+            return saved;
+        } catch (error) {
+            this.logger.error(`Failed to save pilot record "${record.name}": ${error}`);
+            this.toastService.showToast('Failed to save the pilot record.', 'error');
+            return null;
+        }
+    }
+
+    private async saveAll(records: PilotRecord[]): Promise<void> {
+        try {
+            for (const record of records) await this.saveRecord(record);
+        } catch (error) {
+            this.logger.error(`Failed to save pilot records: ${error}`);
+            this.toastService.showToast('Failed to save the pilot records.', 'error');
+        }
+    }
+}
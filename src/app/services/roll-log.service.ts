@@ -0,0 +1,35 @@
+// Copyright (C) 2026 The MegaMek Team
+// SPDX-License-Identifier: GPL-3.0-or-later
+// Author: Drake
+
+import { Injectable } from '@angular/core';
+import { Subject } from 'rxjs';
+
+/** A finished dice roll, described well enough to be read back later. */
+export interface RollEvent {
+    /** What was rolled for, e.g. "Cluster Hits · 10" or "Critical Roll · Left Torso" */
+    readonly label: string;
+    readonly dice: string;
+    readonly faces: readonly number[];
+    readonly modifier: number;
+    readonly total: number;
+    /** Rules outcome of the roll */
+    readonly result: string;
+    /** Unit the roll applies to, when any */
+    readonly unit?: string;
+}
+
+/**
+ * Announces every resolved roll so other features can record it, without the
+ * rolling dialogs knowing who listens.
+ */
+@Injectable({ providedIn: 'root' })
+export class RollLogService {
+    private readonly rolls = new Subject<RollEvent>();
+
+    readonly rolled = this.rolls.asObservable();
+
+    record(event: RollEvent): void {
+        this.rolls.next(event);
+    }
+}
@@ -0,0 +1,119 @@
+// Copyright (C) 2026 The MegaMek Team
+// SPDX-License-Identifier: GPL-3.0-or-later
+// Author: Drake
+
+import { computed, inject, Injectable, signal } from '@angular/core';
+import { firstValueFrom } from 'rxjs';
+import { parseRulesPack, type RulesPack } from '../models/rules-pack.model';
+import { DataService } from './data.service';
+import { DialogsService } from './dialogs.service';
+import { LoggerService } from './logger.service';
+import { OptionsService } from './options.service';
+import { ToastService } from './toast.service';
+
+/**
+ * Rules packs: imports event constraint packs from files or URLs, keeps
+ * them on this device and tracks the one loaded forces are validated
+ * against.
+ */
+@Injectable({ providedIn: 'root' })
+export class RulesPackService {
+    private readonly dataService = inject(DataService);
+    private readonly optionsService = inject(OptionsService);
+    private readonly dialogsService = inject(DialogsService);
+    private readonly toastService = inject(ToastService);
+    private readonly logger = inject(LoggerService);
+
+    /** Stored packs, sorted by name; filled by `loadPacks`. */
+    readonly packs = signal<RulesPack[]>([]);
+    private loading: Promise<RulesPack[]> | null = null;
+
+    /** The pack forces are validated against, once the stored packs are loaded. */
+    readonly activePack = computed<RulesPack | null>(() => {
+        const activeId = this.optionsService.options().activeRulesPackId;
+        return activeId ? this.packs().find(pack => pack.id === activeId) ?? null : null;
+    });
+
+    constructor() {
+        this.loadPacks();
+    }
+
+    /** Loads the stored packs once; later calls reuse the first load. */
+    async loadPacks(): Promise<RulesPack[]> {
+        this.loading ??= this.dataService.listRulesPacks()
+            .then(packs => {
+                this.packs.set(packs);
+                return packs;
+            })
+            .catch(error => {
+                this.loading = null;
+                this.logger.error(`Failed to load rules packs: ${error}`);
+                return [];
+            });
+        await this.loading;
+        return this.packs();
+    }
+
+    getPack(id: string): RulesPack | undefined {
+        return this.packs().find(pack => pack.id === id);
+    }
+
+    async setActivePack(id: string | null): Promise<void> {
+        await this.optionsService.setOption('activeRulesPackId', id ?? undefined);
+    }
+
+    /** Imports a pack from a JSON file; a new pack becomes the active one. */
+    async importFromFile(file: File): Promise<RulesPack | null> {
+        try {
+            return await this.importPack(parseRulesPack(JSON.parse(await file.text())));
+        } catch (error) {
+            this.reportImportError(error);
+            return null;
+        }
+    }
+
+    /** Imports a pack from a URL serving its JSON; a new pack becomes the active one. */
+    async importFromUrl(url: string): Promise<RulesPack | null> {
+        try {
+            const response = await fetch(url, { cache: 'no-store' });
+            if (!response.ok) throw new Error(`The server answered ${response.status}.`);
+            return await this.importPack(parseRulesPack(await response.json(), url));
+        } catch (error) {
+            this.reportImportError(error);
+            return null;
+        }
+    }
+
+    async deletePack(id: string): Promise<void> {
+        await this.dataService.deleteRulesPack(id);
+        this.packs.update(packs => packs.filter(pack => pack.id !== id));
+        if (this.optionsService.options().activeRulesPackId === id) {
+            await this.setActivePack(null);
+        }
+    }
+
+    async showRulesPacks(): Promise<void> {
+        await this.loadPacks();
+        const { RulesPackDialogComponent } = await import('../components/rules-pack-dialog/rules-pack-dialog.component');
+        const ref = this.dialogsService.createDialog<void>(RulesPackDialogComponent);
+        await firstValueFrom(ref.closed);
+    }
+
+    /** Saves a pack, replacing an older copy with the same ID; a pack seen for the first time becomes active. */
+    private async importPack(pack: RulesPack): Promise<RulesPack> {
+        await this.loadPacks();
+        const isNew = !this.getPack(pack.id);
+        await this.dataService.saveRulesPack(pack);
+        this.packs.update(packs => [...packs.filter(entry => entry.id !== pack.id), pack]
+            .sort((a, b) => a.name.localeCompare(b.name)));
+        if (isNew) await this.setActivePack(pack.id);
+        this.toastService.showToast(`Imported rules pack "${pack.name}" v${pack.version}.`, 'success');
+        return pack;
+    }
+
+    private reportImportError(error: unknown): void {
+        const message = error instanceof Error ? error.message : String(error);
+        this.logger.error(`Failed to import rules pack: ${message}`);
+        this.toastService.showToast(`Could not import the rules pack: ${message}`, 'error');
+    }
+}
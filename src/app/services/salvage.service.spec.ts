@@ -0,0 +1,113 @@
+// Copyright (C) 2026 The MegaMek Team
+// SPDX-License-Identifier: GPL-3.0-or-later
+// Author: Drake
+
+import { Injector, provideZonelessChangeDetection } from '@angular/core';
+import { TestBed } from '@angular/core/testing';
+import { CBTForce } from '../models/cbt-force.model';
+import { CBTForceUnit } from '../models/cbt-force-unit.model';
+import { EquipmentRegistry } from '../models/equipment-lookup';
+import { MAX_UNITS, type Force } from '../models/force.model';
+import type { UnitSummary } from '../models/unit-summary.model';
+import { createEmptyUnit } from '../testing/unit-test-helpers';
+import { DataService } from './data.service';
+import { DialogsService } from './dialogs.service';
+import { ForceBuilderService } from './force-builder.service';
+import { OptionsService } from './options.service';
+import { SalvageService } from './salvage.service';
+import { TagsService } from './tags.service';
+import { ToastService } from './toast.service';
+import { UnitInitializerService } from './unit-initializer.service';
+
+describe('SalvageService', () => {
+    let service: SalvageService;
+    let dataService: jasmine.SpyObj<DataService>;
+    let tagsService: jasmine.SpyObj<TagsService>;
+    let toastService: jasmine.SpyObj<ToastService>;
+    let unitInitializer: UnitInitializerService;
+    let injector: Injector;
+
+    beforeEach(() => {
+        dataService = jasmine.createSpyObj<DataService>('DataService', ['getEquipmentRegistry', 'findEquipment', 'getUnitByName']);
+        dataService.getEquipmentRegistry.and.returnValue(new EquipmentRegistry({}));
+        tagsService = jasmine.createSpyObj<TagsService>('TagsService', ['modifyTag']);
+        tagsService.modifyTag.and.resolveTo();
+        toastService = jasmine.createSpyObj<ToastService>('ToastService', ['showToast']);
+
+        TestBed.configureTestingModule({
+            providers: [
+                provideZonelessChangeDetection(),
+                SalvageService,
+                UnitInitializerService,
+                { provide: DataService, useValue: dataService },
+                { provide: TagsService, useValue: tagsService },
+                { provide: ToastService, useValue: toastService },
+                { provide: ForceBuilderService, useValue: { sides: () => [], loadedForces: () => [] } },
+                { provide: DialogsService, useValue: jasmine.createSpyObj<DialogsService>('DialogsService', ['createDialog', 'showError']) },
+                { provide: OptionsService, useValue: { options: () => ({ cbtAutomations: true, CBTOptionalRules: {} }) } },
+            ],
+        });
+        service = TestBed.inject(SalvageService);
+        unitInitializer = TestBed.inject(UnitInitializerService);
+        injector = TestBed.inject(Injector);
+    });
+
+    function createForce(name: string): CBTForce {
+        return new CBTForce(name, dataService, unitInitializer, injector);
+    }
+
+    function createWreck(): CBTForceUnit {
+        const summary = createEmptyUnit({ name: 'SLV-1', chassis: 'Salvage Test', model: 'SLV-1', type: 'Mek', subtype: 'BattleMek' });
+        dataService.getUnitByName.and.callFake((name: string) => name === summary.name ? summary : undefined);
+        const unit = createForce('Opfor').addUnit(summary) as CBTForceUnit;
+        unit.locations = {
+            armor: new Map([['LT', { loc: 'LT', rear: false, points: 10 }]]),
+            internal: new Map([['CT', { loc: 'CT', points: 10 }], ['LT', { loc: 'LT', points: 8 }]]),
+        };
+        unit.addArmorHits('LT', 10, false, true);
+        unit.addInternalHits('LT', 3, true);
+        unit.getCrewMember(0).setHits(2);
+        return unit;
+    }
+
+    it('transfers copies of the salvaged units that keep their damage but not their crew', () => {
+        const wreck = createWreck();
+        const force = createForce('Lance');
+
+        expect(service.transferToForce([wreck], force)).toBe(1);
+
+        const [copy] = force.units();
+        expect(copy).not.toBe(wreck);
+        expect(copy.getUnit()).toBe(wreck.getUnit());
+        expect(copy.getInternalHits('LT')).toBe(3);
+        expect(copy.getArmorHits('LT')).toBe(10);
+        expect(copy.getCrewMember(0).getHits()).toBe(0);
+        expect(wreck.getInternalHits('LT')).toBe(3);
+        expect(toastService.showToast).toHaveBeenCalledWith('Transferred 1 salvaged unit(s) to "Lance".', 'success');
+    });
+
+    it('stops transferring once the force is full', () => {
+        const force = {
+            units: () => new Array(MAX_UNITS),
+            addUnit: jasmine.createSpy('addUnit'),
+        } as unknown as Force;
+
+        expect(service.transferToForce([createWreck()], force)).toBe(0);
+
+        expect(force.addUnit).not.toHaveBeenCalled();
+        expect(toastService.showToast).toHaveBeenCalledOnceWith(`A force cannot contain more than ${MAX_UNITS} units.`, 'error');
+    });
+
+    it('adds salvaged units to a collection on top of the ones already owned', async () => {
+        const owned = { ...createEmptyUnit({ name: 'Owned' }), _nameTags: [{ tag: 'Salvage', quantity: 2 }] } as UnitSummary;
+        const fresh = createEmptyUnit({ name: 'Fresh' });
+
+        await service.addToCollection([owned, fresh, owned], 'salvage');
+
+        expect(tagsService.modifyTag.calls.allArgs()).toEqual([
+            [[owned], 'salvage', 'name', 'add', 4],
+            [[fresh], 'salvage', 'name', 'add', 1],
+        ]);
+        expect(toastService.showToast).toHaveBeenCalledWith('Added 3 salvaged unit(s) to the "salvage" collection.', 'success');
+    });
+});
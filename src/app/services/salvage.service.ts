@@ -0,0 +1,116 @@
+// Copyright (C) 2026 The MegaMek Team
+// SPDX-License-Identifier: GPL-3.0-or-later
+// Author: Drake
+
+import { computed, inject, Injectable } from '@angular/core';
+import { firstValueFrom } from 'rxjs';
+import { CBTForceUnit } from '../models/cbt-force-unit.model';
+import { GameSystem } from '../models/common.model';
+import type { CBTSerializedState } from '../models/force-serialization';
+import { isFriendlyCamp } from '../models/force-slot.model';
+import { MAX_UNITS, type Force } from '../models/force.model';
+import type { UnitSummary } from '../models/unit-summary.model';
+import type {
+    SalvageDialogData,
+    SalvageDialogResult,
+} from '../components/salvage-dialog/salvage-dialog.component';
+import { assessSalvage } from '../utils/salvage.util';
+import { DialogsService } from './dialogs.service';
+import { ForceBuilderService } from './force-builder.service';
+import { TagsService } from './tags.service';
+import { ToastService } from './toast.service';
+
+/**
+ * Battlefield recovery: reports what can be salvaged from the destroyed
+ * opposing Classic units of the loaded forces and hands the recovered units
+ * over to a friendly force or the unit collection.
+ */
+@Injectable({ providedIn: 'root' })
+export class SalvageService {
+    private readonly forceBuilderService = inject(ForceBuilderService);
+    private readonly dialogsService = inject(DialogsService);
+    private readonly tagsService = inject(TagsService);
+    private readonly toastService = inject(ToastService);
+
+    /** Whether an opposing Classic force is loaded, so there is something to salvage. */
+    readonly canReport = computed<boolean>(() => {
+        const sides = this.forceBuilderService.sides();
+        return this.forceBuilderService.loadedForces().some(slot =>
+            !isFriendlyCamp(sides, slot.alignment) && slot.force.gameSystem === GameSystem.CLASSIC);
+    });
+
+    async showSalvageReport(): Promise<void> {
+        const sides = this.forceBuilderService.sides();
+        const slots = this.forceBuilderService.loadedForces();
+        const wrecks = slots
+            .filter(slot => !isFriendlyCamp(sides, slot.alignment))
+            .flatMap(slot => slot.force.units()
+                .filter((unit): unit is CBTForceUnit => unit instanceof CBTForceUnit && unit.destroyed)
+                .map(unit => ({ unit, forceName: slot.force.displayName() })));
+        await Promise.all(wrecks.map(({ unit }) => unit.load()));
+        const targets = slots
+            .filter(slot => isFriendlyCamp(sides, slot.alignment)
+                && slot.force.gameSystem === GameSystem.CLASSIC
+                && slot.force.owned() && !slot.force.readOnly())
+            .map(slot => slot.force);
+
+        const data: SalvageDialogData = {
+            reports: wrecks.map(({ unit, forceName }) => assessSalvage(unit, forceName)),
+            forces: targets.map(force => force.displayName()),
+        };
+        const { SalvageDialogComponent } = await import('../components/salvage-dialog/salvage-dialog.component');
+        const ref = this.dialogsService.createDialog<SalvageDialogResult | null>(SalvageDialogComponent, { data });
+        const result = await firstValueFrom(ref.closed);
+        if (!result || result.unitIds.length === 0) return;
+
+        const selected = new Set(result.unitIds);
+        const units = wrecks.map(({ unit }) => unit).filter(unit => selected.has(unit.id));
+        if (result.target.kind === 'force') {
+            const force = targets[result.target.forceIndex];
+            if (force) this.transferToForce(units, force);
+        } else {
+            await this.addToCollection(units.map(unit => unit.getUnit()), result.target.tag);
+        }
+    }
+
+    /**
+     * Adds copies of the salvaged units to a friendly force. The copies keep
+     * the wreck's damage, ready for the repair screen, but not its crew.
+     */
+    transferToForce(units: CBTForceUnit[], force: Force): number {
+        let transferred = 0;
+        for (const unit of units) {
+            if (force.units().length >= MAX_UNITS) {
+                this.toastService.showToast(`A force cannot contain more than ${MAX_UNITS} units.`, 'error');
+                break;
+            }
+            const copy = force.addUnit(unit.getUnit());
+            const copyData = copy.serialize();
+            const state: CBTSerializedState = {
+                ...unit.serialize().state,
+                crew: (copyData.state as CBTSerializedState).crew,
+                c3Position: undefined,
+                modified: true,
+            };
+            copy.update({ ...copyData, state });
+            copy.setModified();
+            transferred++;
+        }
+        if (transferred > 0) {
+            this.toastService.showToast(`Transferred ${transferred} salvaged unit(s) to "${force.displayName()}".`, 'success');
+        }
+        return transferred;
+    }
+
+    /** Adds the salvaged units to the collection under a tag, on top of the units already owned. */
+    async addToCollection(units: UnitSummary[], tag: string): Promise<void> {
+        const counts = new Map<UnitSummary, number>();
+        for (const unit of units) counts.set(unit, (counts.get(unit) ?? 0) + 1);
+        const lowerTag = tag.toLowerCase();
+        for (const [unit, count] of counts) {
+            const owned = unit._nameTags?.find(entry => entry.tag.toLowerCase() === lowerTag)?.quantity ?? 0;
+            await this.tagsService.modifyTag([unit], tag, 'name', 'add', owned + count);
+        }
+        this.toastService.showToast(`Added ${units.length} salvaged unit(s) to the "${tag}" collection.`, 'success');
+    }
+}
@@ -0,0 +1,144 @@
+// Copyright (C) 2026 The MegaMek Team
+// SPDX-License-Identifier: GPL-3.0-or-later
+// Author: Drake
+
+import { Injectable, effect, inject, signal, untracked } from '@angular/core';
+import { DataService } from './data.service';
+import { DbService, type StoredSavedSearchBaselines } from './db.service';
+import { LoggerService } from './logger.service';
+import { SavedSearchesService } from './saved-searches.service';
+import { UnitSearchFiltersService } from './unit-search-filters.service';
+
+/*
+ * Saved search alerts: after a units data update, flags the saved searches
+ * whose matches changed since they were last visited.
+ *
+ * Every saved search keeps the units it matched on its last visit (its
+ * baseline, stored locally). When the units data version differs from the
+ * baseline's, the search worker runs the saved search on the new corpus and
+ * compares the matches. An unchanged search moves its baseline forward
+ * silently; a changed one stays flagged until it is visited again.
+ */
+
+export interface SavedSearchAlert {
+    searchId: string;
+    /** Units matching since the data update */
+    added: string[];
+    /** Units that matched before the data update, but not anymore */
+    removed: string[];
+    /** All the units matching on the current data */
+    unitNames: string[];
+}
+
+@Injectable({
+    providedIn: 'root'
+})
+export class SavedSearchAlertsService {
+    private readonly dataService = inject(DataService);
+    private readonly dbService = inject(DbService);
+    private readonly logger = inject(LoggerService);
+    private readonly savedSearchesService = inject(SavedSearchesService);
+    private readonly filtersService = inject(UnitSearchFiltersService);
+
+    /** Alerts keyed by saved search ID */
+    public readonly alerts = signal<ReadonlyMap<string, SavedSearchAlert>>(new Map());
+
+    private baselines: StoredSavedSearchBaselines | null = null;
+    private refreshing: Promise<void> | null = null;
+    private refreshQueued = false;
+
+    constructor() {
+        effect(() => {
+            const ready = this.dataService.isDataReady();
+            this.dataService.searchCorpusVersion();
+            this.savedSearchesService.version();
+            if (!ready) return;
+            untracked(() => void this.refresh());
+        });
+    }
+
+    /** Marks a saved search as visited: its current matches become its baseline. */
+    public async markSeen(searchId: string): Promise<void> {
+        const alert = this.alerts().get(searchId);
+        if (!alert || !this.baselines) return;
+
+        this.baselines[searchId] = { dataVersion: this.dataService.getUnitsDataVersion(), unitNames: alert.unitNames };
+        this.alerts.update(alerts => {
+            const next = new Map(alerts);
+            next.delete(searchId);
+            return next;
+        });
+        await this.saveBaselines();
+    }
+
+    private async refresh(): Promise<void> {
+        if (this.refreshing) {
+            this.refreshQueued = true;
+            return;
+        }
+
+        this.refreshing = this.compareSavedSearches()
+            .catch(err => this.logger.error('Failed to compare saved searches: ' + err))
+            .finally(() => {
+                this.refreshing = null;
+                if (this.refreshQueued) {
+                    this.refreshQueued = false;
+                    void this.refresh();
+                }
+            });
+        await this.refreshing;
+    }
+
+    private async compareSavedSearches(): Promise<void> {
+        const dataVersion = this.dataService.getUnitsDataVersion();
+        if (!dataVersion) return;
+
+        this.baselines ??= await this.dbService.getSavedSearchBaselines();
+        const baselines = this.baselines;
+        const searches = this.savedSearchesService.getAllSearches();
+        const searchIds = new Set(searches.map(search => search.id));
+
+        let changed = false;
+        for (const id of Object.keys(baselines)) {
+            if (!searchIds.has(id)) {
+                delete baselines[id];
+                changed = true;
+            }
+        }
+
+        // Searches without a baseline get one; those with an outdated one are compared
+        const outdated = searches.filter(search => baselines[search.id]?.dataVersion !== dataVersion);
+        const alerts = new Map([...this.alerts()].filter(([id]) => searchIds.has(id)));
+        if (outdated.length > 0) {
+            const diffs = await this.filtersService.diffSavedSearches(outdated.map(search => ({
+                search,
+                previousUnitNames: baselines[search.id]?.unitNames ?? null,
+            })));
+            if (!diffs) return;
+
+            for (const diff of diffs) {
+                if (diff.added.length === 0 && diff.removed.length === 0) {
+                    baselines[diff.id] = { dataVersion, unitNames: diff.unitNames };
+                    alerts.delete(diff.id);
+                    changed = true;
+                } else {
+                    alerts.set(diff.id, { searchId: diff.id, added: diff.added, removed: diff.removed, unitNames: diff.unitNames });
+                }
+            }
+        }
+
+        this.alerts.set(alerts);
+        if (changed) {
+            await this.saveBaselines();
+        }
+    }
+
+    private async saveBaselines(): Promise<void> {
+        if (!this.baselines) return;
+        try {
+            await this.dbService.saveSavedSearchBaselines(this.baselines);
+        } catch (err) {
+            this.logger.error('Failed to save saved search baselines: ' + err);
+        }
+    }
+}
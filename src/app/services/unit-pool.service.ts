@@ -0,0 +1,247 @@
+// Copyright (C) 2026 The MegaMek Team
+// SPDX-License-Identifier: GPL-3.0-or-later
+// Author: Drake
+
+import { effect, inject, Injectable, signal, untracked } from '@angular/core';
+import { firstValueFrom } from 'rxjs';
+import type { Force } from '../models/force.model';
+import type { UnitSummary } from '../models/unit-summary.model';
+import {
+    applyUnitPoolOps,
+    createUnitPool,
+    unitPoolQuantityOps,
+    unitPoolReconcileOps,
+    unitPoolShortfalls,
+    unitPoolWriteOffOps,
+    type LoadedUnitPool,
+    type SerializedUnitPool,
+    type UnitPoolForceUnit,
+    type UnitPoolOp,
+} from '../models/unit-pool.model';
+import type { UnitPoolDialogData } from '../components/unit-pool-dialog/unit-pool-dialog.component';
+import { DataService } from './data.service';
+import { DialogsService } from './dialogs.service';
+import { ForceBuilderService } from './force-builder.service';
+import { LoggerService } from './logger.service';
+import { ToastService } from './toast.service';
+import { WsService } from './ws.service';
+
+/**
+ * Unit pools: keeps the loaded forces of an organization in step with the
+ * units its players share, deploying units as they join a force, returning
+ * them when they leave and, once the player confirms, writing off the ones
+ * destroyed. Changes go to the cloud as operations on single entries, and
+ * pools changed by other players are picked up as the cloud reports them.
+ */
+@Injectable({ providedIn: 'root' })
+export class UnitPoolService {
+    private readonly dataService = inject(DataService);
+    private readonly forceBuilderService = inject(ForceBuilderService);
+    private readonly dialogsService = inject(DialogsService);
+    private readonly toastService = inject(ToastService);
+    private readonly logger = inject(LoggerService);
+    private readonly wsService = inject(WsService);
+
+    /** Organization whose pool each loaded force draws on, by force instance ID; null when it draws on none. */
+    private readonly poolOrganizations = signal<ReadonlyMap<string, string | null>>(new Map());
+    /** Loaded pools, by organization ID. */
+    readonly pools = signal<ReadonlyMap<string, LoadedUnitPool>>(new Map());
+    private readonly resolving = new Set<string>();
+    /** Operations sent to the cloud and not confirmed yet, by organization ID. */
+    private readonly unconfirmedOps = new Map<string, (readonly UnitPoolOp[])[]>();
+    /** Timestamp of the newest cloud copy received, by organization ID. */
+    private readonly cloudTimestamps = new Map<string, number>();
+
+    constructor() {
+        effect(() => {
+            const instanceIds = this.forceBuilderService.loadedForces()
+                .map(slot => slot.force.instanceId())
+                .filter((instanceId): instanceId is string => !!instanceId);
+            untracked(() => this.resolvePools(instanceIds));
+        });
+
+        effect(() => {
+            for (const { force } of this.forceBuilderService.loadedForces()) {
+                const instanceId = force.instanceId();
+                const pool = this.poolFor(force);
+                if (!instanceId || !pool || pool.owned === false || force.readOnly()) continue;
+                const ops = unitPoolReconcileOps(pool, instanceId, this.poolUnits(force));
+                if (ops.length > 0) untracked(() => this.applyOps(pool, ops));
+            }
+        });
+
+        this.wsService.registerMessageHandler('unitPoolUpdate', msg => {
+            const pool = msg.data as LoadedUnitPool | undefined;
+            if (!pool?.organizationId || !this.pools().has(pool.organizationId)) return;
+            this.receivePool(pool);
+            this.dataService.storeUnitPool(pool).catch(error =>
+                this.logger.error(`Failed to store the unit pool of organization ${pool.organizationId}: ${error}`));
+        });
+        this.wsService.registerMessageHandler('userState', () => {
+            for (const organizationId of this.pools().keys()) {
+                this.refreshPool(organizationId);
+            }
+        });
+    }
+
+    /** The pool a force draws on, if it belongs to an organization that keeps one. */
+    poolFor(force: Force): LoadedUnitPool | null {
+        const instanceId = force.instanceId();
+        const organizationId = instanceId ? this.poolOrganizations().get(instanceId) : null;
+        return organizationId ? this.pools().get(organizationId) ?? null : null;
+    }
+
+    /** Describes the units a force uses that its pool does not have available; null when there are none. */
+    poolWarning(force: Force): string | null {
+        const instanceId = force.instanceId();
+        const pool = this.poolFor(force);
+        if (!instanceId || !pool) return null;
+        const shortfalls = unitPoolShortfalls(pool, instanceId, this.poolUnits(force));
+        if (shortfalls.length === 0) return null;
+        const units = shortfalls.map(({ unitName, missing }) => {
+            const unit = this.dataService.getUnitByName(unitName);
+            const name = unit ? `${unit.chassis} ${unit.model}`.trim() : unitName;
+            return missing > 1 ? `${missing}× ${name}` : name;
+        });
+        return `Not available in the unit pool: ${units.join(', ')}`;
+    }
+
+    /** Describes the destroyed units of a force still deployed from its pool; null when there are none. */
+    poolWriteOffWarning(force: Force): string | null {
+        const writeOffs = this.poolWriteOffs(force);
+        if (writeOffs.length === 0) return null;
+        return `Destroyed units still deployed from the unit pool: ${this.describeUnits(writeOffs)}. Click to write them off.`;
+    }
+
+    /** Asks the player to confirm the loss of a force's destroyed units, then takes them out of the pool. */
+    async confirmWriteOffs(force: Force): Promise<void> {
+        const pool = this.poolFor(force);
+        const writeOffs = this.poolWriteOffs(force);
+        if (!pool || writeOffs.length === 0) return;
+        const confirmed = await this.dialogsService.requestConfirmation(
+            `Write off ${this.describeUnits(writeOffs)}? The unit pool will permanently hold one fewer of each.`,
+            'Write Off Destroyed Units',
+            'danger',
+        );
+        if (!confirmed) return;
+        this.applyOps(this.poolFor(force) ?? pool, this.poolWriteOffs(force));
+    }
+
+    /**
+     * Opens the pool editor of an organization; `units` are the units of
+     * its forces, offered to stock the pool with.
+     */
+    async showUnitPool(organizationId: string, units: readonly UnitSummary[], readOnly: boolean): Promise<void> {
+        let pool: LoadedUnitPool;
+        try {
+            pool = await this.dataService.getUnitPool(organizationId) ?? createUnitPool(organizationId);
+        } catch (error) {
+            this.logger.error(`Failed to load the unit pool of organization ${organizationId}: ${error}`);
+            this.toastService.showToast('Failed to load the unit pool.', 'error');
+            return;
+        }
+        const data: UnitPoolDialogData = { pool, units, readOnly };
+        const { UnitPoolDialogComponent } = await import('../components/unit-pool-dialog/unit-pool-dialog.component');
+        const ref = this.dialogsService.createDialog<SerializedUnitPool | null>(UnitPoolDialogComponent, { data });
+        const edited = await firstValueFrom(ref.closed);
+        if (!edited) return;
+        this.applyOps(this.pools().get(organizationId) ?? pool, unitPoolQuantityOps(pool, edited));
+        // Forces of the organization that drew on no pool until now pick it up.
+        this.poolOrganizations.update(map => new Map([...map].filter(([, id]) => id !== null)));
+        await this.resolvePools(this.forceBuilderService.loadedForces()
+            .map(slot => slot.force.instanceId())
+            .filter((instanceId): instanceId is string => !!instanceId));
+        this.toastService.showToast('Unit pool saved.', 'success');
+    }
+
+    private poolWriteOffs(force: Force): UnitPoolOp[] {
+        const instanceId = force.instanceId();
+        const pool = this.poolFor(force);
+        if (!instanceId || !pool || pool.owned === false || force.readOnly()) return [];
+        return unitPoolWriteOffOps(pool, instanceId, this.poolUnits(force));
+    }
+
+    private describeUnits(ops: readonly UnitPoolOp[]): string {
+        return ops.map(({ unitName }) => {
+            const unit = this.dataService.getUnitByName(unitName);
+            return unit ? `${unit.chassis} ${unit.model}`.trim() : unitName;
+        }).join(', ');
+    }
+
+    private poolUnits(force: Force): UnitPoolForceUnit[] {
+        return force.units().map(unit => ({
+            id: unit.id,
+            unitName: unit.getUnit().name,
+            destroyed: unit.destroyed,
+        }));
+    }
+
+    /** Finds the pool each newly loaded force draws on: the first of its organizations that keeps one. */
+    private async resolvePools(instanceIds: readonly string[]): Promise<void> {
+        const pending = instanceIds.filter(instanceId =>
+            !this.poolOrganizations().has(instanceId) && !this.resolving.has(instanceId));
+        for (const instanceId of pending) {
+            this.resolving.add(instanceId);
+            try {
+                let organizationId: string | null = null;
+                for (const organization of await this.dataService.findOrganizationsForForce(instanceId)) {
+                    const pool = this.pools().get(organization.organizationId)
+                        ?? await this.dataService.getUnitPool(organization.organizationId);
+                    if (!pool) continue;
+                    organizationId = organization.organizationId;
+                    this.pools.update(pools => new Map(pools).set(pool.organizationId, pool));
+                    break;
+                }
+                this.poolOrganizations.update(map => new Map(map).set(instanceId, organizationId));
+            } catch (error) {
+                this.logger.error(`Failed to load the unit pool of force ${instanceId}: ${error}`);
+            } finally {
+                this.resolving.delete(instanceId);
+            }
+        }
+    }
+
+    /**
+     * Makes changes to a pool in place and sends them to the cloud in the
+     * background. The cloud's copy replaces the local one once it confirms.
+     */
+    private applyOps(pool: LoadedUnitPool, ops: readonly UnitPoolOp[]): void {
+        const { organizationId } = pool;
+        const { owned, ...serialized } = applyUnitPoolOps(pool, ops);
+        const updated: SerializedUnitPool = { ...serialized, timestamp: Date.now() };
+        this.pools.update(pools => new Map(pools).set(organizationId, { ...updated, owned }));
+        const unconfirmed = this.unconfirmedOps.get(organizationId) ?? [];
+        unconfirmed.push(ops);
+        this.unconfirmedOps.set(organizationId, unconfirmed);
+
+        this.dataService.applyUnitPoolOps(updated, ops)
+            .then(cloudPool => {
+                unconfirmed.splice(unconfirmed.indexOf(ops), 1);
+                if (cloudPool) this.receivePool(cloudPool);
+            })
+            .catch(error => {
+                unconfirmed.splice(unconfirmed.indexOf(ops), 1);
+                this.logger.error(`Failed to save the unit pool of organization ${organizationId}: ${error}`);
+                this.toastService.showToast('Failed to save the unit pool.', 'error');
+                this.refreshPool(organizationId);
+            });
+    }
+
+    /** Takes a cloud copy of a pool, keeping the local changes it doesn't have yet. */
+    private receivePool(pool: LoadedUnitPool): void {
+        const { organizationId } = pool;
+        if (pool.timestamp < (this.cloudTimestamps.get(organizationId) ?? 0)) return;
+        this.cloudTimestamps.set(organizationId, pool.timestamp);
+        const pending = (this.unconfirmedOps.get(organizationId) ?? []).flat();
+        this.pools.update(pools => new Map(pools).set(organizationId, {
+            ...applyUnitPoolOps(pool, pending),
+            owned: pool.owned ?? pools.get(organizationId)?.owned,
+        }));
+    }
+
+    private refreshPool(organizationId: string): void {
+        this.dataService.getUnitPool(organizationId)
+            .then(pool => { if (pool) this.receivePool(pool); })
+            .catch(error => this.logger.error(`Failed to refresh the unit pool of organization ${organizationId}: ${error}`));
+    }
+}
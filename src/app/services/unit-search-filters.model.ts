@@ -482,6 +482,13 @@ export const RANGE_FILTERS: readonly RangeFilterConfig[] = Object.freeze([
     { key: 'dissipation', semanticKey: 'dissipation', label: 'Dissipation', curve: 0, ignoreValues: [-1], game: GameSystem.CLASSIC },
     { key: '_dissipationEfficiency', semanticKey: 'efficiency', label: 'Heat Efficiency', curve: 1, game: GameSystem.CLASSIC },
     { key: '_maxRange', semanticKey: 'range', label: 'Range', curve: 0, game: GameSystem.CLASSIC },
+    { key: '_maxExtremeRange', semanticKey: 'extremerange', label: 'Extreme Range', curve: 0, game: GameSystem.CLASSIC },
+    { key: '_dmgShort', semanticKey: 'dmgshort', label: 'Damage at 3 hexes', curve: 0, game: GameSystem.CLASSIC },
+    { key: '_dmgMedium', semanticKey: 'dmgmedium', label: 'Damage at 12 hexes', curve: 0, game: GameSystem.CLASSIC },
+    { key: '_dmgLong', semanticKey: 'dmglong', label: 'Damage at 21 hexes', curve: 0, game: GameSystem.CLASSIC },
+    { key: '_rearWeapons', semanticKey: 'rear', label: 'Rear Weapons', curve: 0, game: GameSystem.CLASSIC },
+    { key: '_lrmTubes', semanticKey: 'lrmtubes', label: 'LRM Tubes', curve: 0, game: GameSystem.CLASSIC },
+    { key: '_srmTubes', semanticKey: 'srmtubes', label: 'SRM Tubes', curve: 0, game: GameSystem.CLASSIC },
     { key: 'walk', semanticKey: 'walk', label: 'Walk MP', curve: 0.9, game: GameSystem.CLASSIC },
     { key: 'run', semanticKey: 'run', label: 'Run MP', curve: 0.9, game: GameSystem.CLASSIC },
     { key: 'jump', semanticKey: 'jump', label: 'Jump MP', curve: 0.9, game: GameSystem.CLASSIC },
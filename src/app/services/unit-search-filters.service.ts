@@ -39,7 +39,7 @@ import { GameService } from './game.service';
 import { UrlService } from './url.service';
 import { adjustPointValueForSkill } from '../utils/pv-skill-adjustment.util';
 import { filterStateToSemanticText, tokensToFilterState, type WildcardPattern } from '../utils/semantic-filter.util';
-import { parseSemanticQueryAST, stripSemanticFieldsFromParseResult, type ParseResult, type ParseError, isComplexQuery } from '../utils/semantic-filter-ast.util';
+import { evaluateExpressionForUnit, parseComputedSortExpression, parseSemanticQueryAST, stripSemanticFieldsFromParseResult, type ParseResult, type ParseError, isComplexQuery } from '../utils/semantic-filter-ast.util';
 import { getSnapshotForcePackNames, type AdvOptionsContextSnapshot } from '../utils/unit-search-adv-options.util';
 import { buildUnitSearchAdvOptions } from '../utils/unit-search-adv-options-builder.util';
 import type { UnitSearchDropdownValuesDependencies } from '../utils/unit-search-dropdown-values.util';
@@ -94,7 +94,12 @@ import {
 } from '../utils/filter-name-resolution.util';
 import { sortAvailableDropdownOptions, sortDropdownOptionObjects } from '../utils/unit-search-dropdown-sort.util';
 import { compareUnitsByName } from '../utils/sort.util';
-import type { UnitSearchWorkerCorpusSnapshot, UnitSearchWorkerQueryRequest, UnitSearchWorkerResultMessage } from '../utils/unit-search-worker-protocol.util';
+import type {
+    UnitSearchWorkerCorpusSnapshot,
+    UnitSearchWorkerQueryRequest,
+    UnitSearchWorkerResultMessage,
+    UnitSearchWorkerSavedSearchDiff,
+} from '../utils/unit-search-worker-protocol.util';
 import {
     ADVANCED_FILTERS,
     type AvailabilityFilterScope,
@@ -320,6 +325,8 @@ export class UnitSearchFiltersService {
     private cachedWorkerCorpusSnapshot: UnitSearchWorkerCorpusSnapshot | null = null;
     private searchRequestRevision = 0;
     private lastWorkerSearchExecutionKey: string | null = null;
+    private savedSearchDiffRevision = 0;
+    private readonly pendingSavedSearchDiffs = new Map<number, (diffs: UnitSearchWorkerSavedSearchDiff[] | null) => void>();
     private readonly availabilitySelectionScopePartsCache = new WeakMap<FilterState, AvailabilitySelectionScopeParts>();
     private readonly workerRequestRevision = signal(0);
     private readonly workerResultRevision = signal(0);
@@ -904,6 +911,26 @@ export class UnitSearchFiltersService {
         return this.unitAvailabilitySource.getMegaMekAvailabilityScore(unit, context);
     }
 
+    /** Expression of the selected computed sort (e.g. `=dpt/bv*1000`), or null for a regular sort. */
+    readonly computedSortExpression = computed(() =>
+        parseComputedSortExpression(this.selectedSort(), this.gameService.currentGameSystem()));
+
+    /** Value of the selected computed sort for a unit; null when the unit has none. */
+    public getComputedSortValue(unit: UnitSummary): number | null {
+        const expression = this.computedSortExpression();
+        if (!expression) {
+            return null;
+        }
+
+        return evaluateExpressionForUnit(expression, unit, {
+            getProperty,
+            getUnitId: (candidate: UnitSummary) => candidate.name,
+            getAdjustedBV: (candidate: UnitSummary) => this.getAdjustedBV(candidate),
+            getAdjustedPV: (candidate: UnitSummary) => this.getAdjustedPV(candidate),
+            gameSystem: this.gameService.currentGameSystem(),
+        });
+    }
+
     public getMegaMekRaritySortScore(unit: UnitSummary, scope?: AvailabilityFilterScope): number {
         if (scope === undefined) {
             return this.getMegaMekRaritySortScoreFromContext(unit, this.megaMekRaritySortContext());
@@ -1795,6 +1822,43 @@ export class UnitSearchFiltersService {
         return next.text;
     }
 
+    /**
+     * The whole query as semantic text: the search text, and the filters set only
+     * from the UI, appended in brackets. This is what the query builder edits.
+     */
+    public getFullQueryText(): string {
+        const uiOnlyFilters = this.getUiOnlyFilterState(this.filterState(), this.semanticFilterKeys());
+        const uiFiltersText = filterStateToSemanticText(
+            uiOnlyFilters,
+            '',
+            this.gameService.currentGameSystem(),
+            this.totalRangesCache
+        ).trim();
+        const currentText = this.searchText().trim();
+        if (!uiFiltersText || !currentText) {
+            return uiFiltersText || currentText;
+        }
+        return `${currentText} (${uiFiltersText})`;
+    }
+
+    /**
+     * Replaces the whole query (see getFullQueryText) with the given semantic
+     * text. The filters set only from the UI are dropped, the text covers them.
+     */
+    public setFullQueryText(rawText: string): string {
+        const uiOnlyFilters = this.getUiOnlyFilterState(this.filterState(), this.semanticFilterKeys());
+        if (Object.keys(uiOnlyFilters).length > 0) {
+            this.filterState.update(current => {
+                const updated = { ...current };
+                for (const key of Object.keys(uiOnlyFilters)) {
+                    delete updated[key];
+                }
+                return updated;
+            });
+        }
+        return this.setSearchText(rawText);
+    }
+
     /**
      * Semantic filter state derived from parsed tokens in the search text.
      * Uses AST parser to properly handle brackets and boolean operators.
@@ -1898,6 +1962,7 @@ export class UnitSearchFiltersService {
         this.workerSearchEnabled.set(false);
         this.searchWorkerClient?.dispose();
         this.searchWorkerClient = null;
+        this.resolvePendingSavedSearchDiffs();
         this.workerResultRevision.set(this.workerRequestRevision());
         this.logger.warn(`Unit search worker disabled, falling back to main-thread execution: ${message}`);
     }
@@ -2005,6 +2070,87 @@ export class UnitSearchFiltersService {
         });
     }
 
+    /**
+     * Runs saved searches in the search worker and compares their matches with the ones
+     * they had on a previous corpus. Resolves null when the worker is not available.
+     * Budget modes depend on the force being built and are left out.
+     */
+    public diffSavedSearches(
+        searches: readonly { search: SerializedSearchFilter; previousUnitNames: string[] | null }[],
+    ): Promise<UnitSearchWorkerSavedSearchDiff[] | null> {
+        if (!this.searchWorkerClient || !this.workerSearchEnabled() || !this.isDataReady()) {
+            return Promise.resolve(null);
+        }
+
+        // A newer diff supersedes the ones still waiting for the corpus
+        this.resolvePendingSavedSearchDiffs();
+        const revision = ++this.savedSearchDiffRevision;
+        const corpusVersion = this.getWorkerCorpusVersion();
+        const request = {
+            revision,
+            corpusVersion,
+            searches: searches.map(({ search, previousUnitNames }) => {
+                const gameSystem = search.gameSystem === 'as' ? GameSystem.ALPHA_STRIKE : GameSystem.CLASSIC;
+                return {
+                    id: search.id,
+                    executionQuery: this.buildSavedSearchExecutionQuery(search, gameSystem),
+                    gameSystem,
+                    pilotGunnerySkill: search.gunnery ?? DEFAULT_GUNNERY_SKILL,
+                    pilotPilotingSkill: search.piloting ?? DEFAULT_PILOTING_SKILL,
+                    previousUnitNames,
+                };
+            }),
+        };
+
+        return new Promise(resolve => {
+            this.pendingSavedSearchDiffs.set(revision, resolve);
+            try {
+                this.searchWorkerClient!.submitSavedSearchDiff(this.getWorkerCorpusSnapshot(corpusVersion), request);
+            } catch (error) {
+                this.disableWorkerSearch(error instanceof Error ? error.message : 'Search worker submission failed');
+            }
+        });
+    }
+
+    /** The worker query of a saved search: its UI filters, then its search text. */
+    private buildSavedSearchExecutionQuery(search: SerializedSearchFilter, gameSystem: GameSystem): string {
+        const filterState: FilterState = {};
+        for (const [rawKey, rawValue] of Object.entries(search.filters ?? {})) {
+            const key = normalizeUnitSearchPropertyKey(rawKey);
+            const conf = getAdvancedFilterConfigByKey(key);
+            if (!conf) continue;
+            const value = conf.type === AdvFilterType.DROPDOWN && conf.multistate
+                ? normalizeMultiStateSelection(rawValue)
+                : conf.type === AdvFilterType.BOOLEAN ? normalizeTriStateBooleanFilterValue(rawValue) : rawValue;
+            filterState[key] = { value, interactedWith: true };
+        }
+
+        const filtersText = filterStateToSemanticText(
+            this.getWorkerFilterState(this.getApplicableFilterState(filterState)),
+            '',
+            gameSystem,
+            this.totalRangesCache,
+        ).trim();
+        const text = search.q?.trim() ?? '';
+        if (!filtersText || !text) {
+            return filtersText || text;
+        }
+        return `${filtersText} (${text})`;
+    }
+
+    private applySavedSearchDiffResult(revision: number, diffs: UnitSearchWorkerSavedSearchDiff[] | null): void {
+        const resolve = this.pendingSavedSearchDiffs.get(revision);
+        this.pendingSavedSearchDiffs.delete(revision);
+        resolve?.(diffs);
+    }
+
+    private resolvePendingSavedSearchDiffs(): void {
+        for (const resolve of this.pendingSavedSearchDiffs.values()) {
+            resolve(null);
+        }
+        this.pendingSavedSearchDiffs.clear();
+    }
+
     private applyRemainingBudgetLimit(units: readonly UnitSummary[], telemetryStages?: SearchTelemetryStage[]): UnitSummary[] {
         if (this.budgetMode() !== 'force-limit') {
             return units as UnitSummary[];
@@ -2413,6 +2559,8 @@ export class UnitSearchFiltersService {
             this.searchWorkerClient = new UnitSearchWorkerClient({
                 createWorker: () => this.searchWorkerFactory!(),
                 onResult: result => this.applyWorkerSearchResult(result),
+                onSavedSearchDiff: result => this.applySavedSearchDiffResult(result.revision, result.diffs),
+                onSavedSearchDiffDropped: revision => this.applySavedSearchDiffResult(revision, null),
                 onError: message => this.disableWorkerSearch(message),
                 onReady: corpusVersion => this.logger.info(`Unit search worker ready (corpus ${corpusVersion})`),
             });
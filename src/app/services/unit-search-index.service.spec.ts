@@ -341,6 +341,29 @@ describe('UnitSearchIndexService', () => {
         expect(unit._weaponTypeCounts?.DB).toBe(2);
     });
 
+    it('derives the weapon loadout: range band damage, launcher tubes, rear weapons and extreme range', () => {
+        const service = new UnitSearchIndexService();
+        const lrm = new WeaponEquipment({ id: 'lrm15', name: 'LRM 15', type: 'weapon', weapon: { ammoType: 'LRM', rackSize: 15, ranges: [7, 14, 21, 28] } });
+        const mml = new WeaponEquipment({ id: 'mml5', name: 'MML 5', type: 'weapon', weapon: { ammoType: 'MML', rackSize: 5, ranges: [6, 14, 21, 28] } });
+        const laser = new WeaponEquipment({ id: 'ml', name: 'Medium Laser', type: 'weapon', weapon: { damage: 5, ranges: [3, 6, 9, 12] } });
+        const unit = createUnit({
+            name: 'Loadout Unit',
+            comp: [
+                { id: 'lrm15', q: 2, n: 'LRM 15', t: 'M', p: 1, l: 'LT', md: '15', r: '7/14/21', eq: lrm },
+                { id: 'mml5', q: 1, n: 'MML 5', t: 'M', p: 2, l: 'RT', md: '10', r: '6/14/21', eq: mml },
+                { id: 'ml', q: 2, n: 'Medium Laser', t: 'E', p: 3, l: 'CT', md: '5', r: '3/6/9', rear: true, eq: laser },
+            ],
+        });
+
+        service.prepareUnits([unit]);
+        service.rebuildIndexes([unit], [], []);
+
+        expect([unit._dmgShort, unit._dmgMedium, unit._dmgLong]).toEqual([50, 40, 40]);
+        expect([unit._lrmTubes, unit._srmTubes]).toEqual([35, 5]);
+        expect(unit._rearWeapons).toBe(2);
+        expect(unit._maxExtremeRange).toBe(28);
+    });
+
     it('replaces stale weapon-type data when indexes are rebuilt', () => {
         const service = new UnitSearchIndexService();
         const unit = createUnit({
@@ -10,14 +10,22 @@ import type { BucketStatSummary, MinMaxStatsRange, UnitSubtypeMaxStats } from '.
 import { removeAccents } from '../utils/string.util';
 import { naturalCompare } from '../utils/sort.util';
 import { getMergedTags, getUnitSourceFilterValues } from '../utils/unit-search-shared.util';
-import { calculateWeightedMaxRange, getMaxRangeFromComponents } from '../utils/unit-range.util';
+import { CLASSIC_RANGE_BAND_HEXES, calculateWeightedMaxRange, getDamageAtRange, getMaxRangeFromComponents } from '../utils/unit-range.util';
 import { parseASDamageValue } from '../utils/as-damage.util';
 import { AS_MOVEMENT_MODE_DISPLAY_NAMES, BOOLEAN_FILTERS, getBooleanFilterUnitValue } from './unit-search-filters.model';
 import type { UnitSearchWorkerFactionEraSnapshot, UnitSearchWorkerIndexSnapshot } from '../utils/unit-search-worker-protocol.util';
 import { MULFACTION_EXTINCT } from '../models/mulfactions.model';
-import { WeaponEquipment } from '../models/equipment.model';
+import { WeaponEquipment, type AmmoType } from '../models/equipment.model';
 import { WEAPON_TYPES, type WeaponType } from '../models/weapon-types.model';
 
+/** Launchers counted as LRM or SRM tubes; MMLs fire either and count as both */
+const LRM_AMMO_TYPES = new Set<AmmoType>([
+    'LRM', 'LRM_PRIMITIVE', 'LRM_IMP', 'LRM_STREAK', 'LRM_TORPEDO', 'LRM_TORPEDO_COMBO', 'EXLRM', 'NLRM', 'NLRM_TORPEDO', 'MML',
+]);
+const SRM_AMMO_TYPES = new Set<AmmoType>([
+    'SRM', 'SRM_PRIMITIVE', 'SRM_IMP', 'SRM_STREAK', 'SRM_TORPEDO', 'SRM_ADVANCED', 'MML',
+]);
+
 interface ASUnitTypeMaxStats {
     [asUnitType: string]: MinMaxStatsRange;
 }
@@ -216,6 +224,9 @@ export class UnitSearchIndexService {
             unit._mdSumNoPhysicalNoOneshots = unit.comp ? this.sumWeaponDamageNoPhysical(unit, unit.comp, true) : 0;
             unit._maxRange = unit.comp ? getMaxRangeFromComponents(unit.comp) : 0;
             unit._weightedMaxRange = unit.comp ? calculateWeightedMaxRange(unit) : 0;
+            unit._dmgShort = Math.round(getDamageAtRange(unit, CLASSIC_RANGE_BAND_HEXES.short));
+            unit._dmgMedium = Math.round(getDamageAtRange(unit, CLASSIC_RANGE_BAND_HEXES.medium));
+            unit._dmgLong = Math.round(getDamageAtRange(unit, CLASSIC_RANGE_BAND_HEXES.long));
             unit._dissipationEfficiency = (unit.heat && unit.dissipation) ? unit.dissipation - unit.heat : 0;
 
             if (unit.as) {
@@ -302,6 +313,7 @@ export class UnitSearchIndexService {
             this.addSearchIndexValues('componentName', unit.comp.map(component => component.n), unit.name);
             this.addComponentCountValues(unit);
             this.prepareUnitWeaponTypes(unit);
+            this.prepareUnitWeaponLoadout(unit);
             this.addSearchIndexValues('weaponType', unit._weaponTypes ?? [], unit.name);
             this.addSearchIndexValues('features', unit.features ?? [], unit.name);
             this.addSearchIndexValues('quirks', unit.quirks ?? [], unit.name);
@@ -552,6 +564,43 @@ export class UnitSearchIndexService {
         unit._weaponTypes = WEAPON_TYPES.filter(weaponType => (counts[weaponType] ?? 0) > 0);
     }
 
+    private prepareUnitWeaponLoadout(unit: UnitSummary): void {
+        let maxExtremeRange = 0;
+        let rearWeapons = 0;
+        let lrmTubes = 0;
+        let srmTubes = 0;
+
+        const addComponents = (components: readonly UnitComponent[]): void => {
+            for (const component of components) {
+                if (component.bay?.length) {
+                    addComponents(component.bay);
+                    continue;
+                }
+
+                if (!(component.eq instanceof WeaponEquipment) || !Number.isFinite(component.q) || component.q <= 0) {
+                    continue;
+                }
+
+                maxExtremeRange = Math.max(maxExtremeRange, component.eq.ranges[3] ?? 0);
+                if (component.rear) {
+                    rearWeapons += component.q;
+                }
+                if (LRM_AMMO_TYPES.has(component.eq.ammoType)) {
+                    lrmTubes += component.eq.rackSize * component.q;
+                }
+                if (SRM_AMMO_TYPES.has(component.eq.ammoType)) {
+                    srmTubes += component.eq.rackSize * component.q;
+                }
+            }
+        };
+
+        addComponents(unit.comp);
+        unit._maxExtremeRange = maxExtremeRange;
+        unit._rearWeapons = rearWeapons;
+        unit._lrmTubes = lrmTubes;
+        unit._srmTubes = srmTubes;
+    }
+
     private getASMotiveDisplayNames(unit: UnitSummary): string[] {
         const movementModes = unit.as?.MVm;
         if (!movementModes) {
@@ -143,6 +143,9 @@ export function createEmptyUnit(overrides: TestUnitOverrides = {}): UnitSummary
         _dissipationEfficiency: 0,
         _mdSumNoPhysical: 0,
         _mdSumNoPhysicalNoOneshots: 0,
+        _dmgShort: 0,
+        _dmgMedium: 0,
+        _dmgLong: 0,
         _nameTags: [],
         _chassisTags: [],
         ...unitOverrides,
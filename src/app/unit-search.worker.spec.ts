@@ -253,4 +253,45 @@ describe('unit-search worker', () => {
         expect(getEntries('rulesRefs=Shrap01')).toEqual([{ unitName: 'Unit B' }]);
         expect(getEntries('rulesRefs=AAA')).toEqual([]);
     });
+
+    it('diffs saved search matches against their previous matches', () => {
+        const heavyUnit = createUnit('Unit C');
+        heavyUnit.bv = 2500;
+        const runtime = __test__.hydrateCorpus({
+            corpusVersion: '2:0',
+            units: [createUnit('Unit A'), createUnit('Unit B'), heavyUnit],
+            indexes: {},
+            factionEraIndex: {},
+        });
+
+        const result = __test__.buildSavedSearchDiffMessage(runtime, {
+            revision: 3,
+            corpusVersion: '2:0',
+            searches: [
+                {
+                    id: 'light',
+                    executionQuery: 'bv<=2000',
+                    gameSystem: GameSystem.CLASSIC,
+                    pilotGunnerySkill: 4,
+                    pilotPilotingSkill: 5,
+                    previousUnitNames: ['Unit A', 'Unit Z'],
+                },
+                {
+                    id: 'new',
+                    executionQuery: 'bv>2000',
+                    gameSystem: GameSystem.CLASSIC,
+                    pilotGunnerySkill: 4,
+                    pilotPilotingSkill: 5,
+                    previousUnitNames: null,
+                },
+            ],
+        });
+
+        expect(result.type).toBe('saved-search-diff-result');
+        expect(result.revision).toBe(3);
+        expect(result.diffs).toEqual([
+            { id: 'light', unitNames: ['Unit A', 'Unit B'], added: ['Unit B'], removed: ['Unit Z'] },
+            { id: 'new', unitNames: ['Unit C'], added: [], removed: [] },
+        ]);
+    });
 });
@@ -27,6 +27,9 @@ import type {
     UnitSearchWorkerRequestMessage,
     UnitSearchWorkerResponseMessage,
     UnitSearchWorkerResultMessage,
+    UnitSearchWorkerSavedSearchDiff,
+    UnitSearchWorkerSavedSearchDiffRequest,
+    UnitSearchWorkerSavedSearchDiffResultMessage,
 } from './utils/unit-search-worker-protocol.util';
 import { getUnitVariantGroupKey } from './utils/unit-variant.util';
 
@@ -139,6 +142,7 @@ function hydrateCorpus(snapshot: UnitSearchWorkerCorpusSnapshot): WorkerCorpusRu
 export const __test__ = {
     hydrateCorpus,
     buildResultMessage,
+    buildSavedSearchDiffMessage,
 };
 
 function buildResultMessage(runtime: WorkerCorpusRuntime, request: UnitSearchWorkerQueryRequest): UnitSearchWorkerResultMessage {
@@ -303,6 +307,61 @@ function buildResultMessage(runtime: WorkerCorpusRuntime, request: UnitSearchWor
     };
 }
 
+/**
+ * Runs every saved search against the loaded corpus and compares its matches with the
+ * ones it had on the previous corpus. Searches that fail to run are left out.
+ */
+function buildSavedSearchDiffMessage(
+    runtime: WorkerCorpusRuntime,
+    request: UnitSearchWorkerSavedSearchDiffRequest,
+): UnitSearchWorkerSavedSearchDiffResultMessage {
+    const diffs: UnitSearchWorkerSavedSearchDiff[] = [];
+
+    for (const search of request.searches) {
+        let unitNames: string[];
+        try {
+            unitNames = buildResultMessage(runtime, {
+                revision: request.revision,
+                corpusVersion: request.corpusVersion,
+                executionQuery: search.executionQuery,
+                telemetryQuery: search.executionQuery,
+                gameSystem: search.gameSystem,
+                sortKey: '',
+                sortDirection: 'asc',
+                bvPvLimit: 0,
+                forceTotalBvPv: 0,
+                pilotGunnerySkill: search.pilotGunnerySkill,
+                pilotPilotingSkill: search.pilotPilotingSkill,
+                normalization: null,
+            }).entries.map(entry => entry.unitName);
+        } catch {
+            continue;
+        }
+
+        const previousUnitNames = search.previousUnitNames;
+        if (!previousUnitNames) {
+            diffs.push({ id: search.id, unitNames, added: [], removed: [] });
+            continue;
+        }
+
+        const previous = new Set(previousUnitNames);
+        const current = new Set(unitNames);
+        diffs.push({
+            id: search.id,
+            unitNames,
+            added: unitNames.filter(unitName => !previous.has(unitName)),
+            removed: previousUnitNames.filter(unitName => !current.has(unitName)),
+        });
+    }
+
+    return {
+        type: 'saved-search-diff-result',
+        revision: request.revision,
+        corpusVersion: runtime.corpusVersion,
+        diffs,
+    };
+}
+
 function postError(message: string, revision?: number, corpusVersion?: string): void {
     const error: UnitSearchWorkerErrorMessage = {
         type: 'error',
@@ -330,9 +389,14 @@ if (typeof WorkerGlobalScope !== 'undefined' && self instanceof WorkerGlobalScop
                 return;
             }
 
+            if (data.type === 'saved-search-diff') {
+                postMessage(buildSavedSearchDiffMessage(corpus, data.request) satisfies UnitSearchWorkerResponseMessage);
+                return;
+            }
+
             postMessage(buildResultMessage(corpus, data.request) satisfies UnitSearchWorkerResponseMessage);
         } catch (error) {
-            const request = data.type === 'execute' ? data.request : undefined;
+            const request = data.type === 'init' ? undefined : data.request;
             postError(error instanceof Error ? error.message : 'Search worker failed', request?.revision, request?.corpusVersion);
         }
     });
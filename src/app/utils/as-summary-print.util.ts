@@ -8,7 +8,7 @@ import type { PrintAllOptions } from '../models/print-options.model';
 import type { AsAbilityLookupService } from '../services/as-ability-lookup.service';
 import { formatMovement, formatMovementWithAlternate } from './as-common.util';
 import { createASPrintRulesReferencePage, getASPrintRulesReferenceStyles } from './as-print-reference.util';
-import { printInOverlay } from './print-overlay.util';
+import { printInOverlay, type PrintContent } from './print-overlay.util';
 import {
     createPrintRosterHeader,
     createPrintRosterQrMarkup,
@@ -37,6 +37,20 @@ export class ASSummaryPrintUtil {
             return;
         }
 
+        await printInOverlay({
+            ...await this.createPrintContent(force, abilityLookup, useHex, printOptions),
+            bodyClass: 'as-summary-print-active',
+            triggerPrint,
+        });
+    }
+
+    /** The roster summary and rules reference markup and the styles scoped to their print container. */
+    public static async createPrintContent(
+        force: ASForce,
+        abilityLookup: ASAbilityLookup,
+        useHex: boolean,
+        printOptions: ASSummaryPrintOptions,
+    ): Promise<PrintContent> {
         const groups = force.groups();
         const forceName = getPrintRosterHeading(force).name;
         const rosterPage = await this.createRosterSummaryPage(force, useHex);
@@ -47,13 +61,11 @@ export class ASSummaryPrintUtil {
             forceName,
         );
 
-        await printInOverlay({
+        return {
             containerId: 'as-summary-print-container',
-            bodyClass: 'as-summary-print-active',
             content: rosterPage.outerHTML + rulesReferencePage.outerHTML,
             styles: this.getPrintStyles(printOptions.printMargin),
-            triggerPrint,
-        });
+        };
     }
 
     private static async createRosterSummaryPage(
@@ -2,6 +2,7 @@
 // SPDX-License-Identifier: GPL-3.0-or-later
 // Author: Drake
 
+import { AS_CARD_TEMPLATES } from '../models/as-card-template.model';
 import type { PrintAllOptions } from '../models/print-options.model';
 import { ASPrintUtil } from './asprint.util';
 
@@ -44,6 +45,56 @@ describe('ASPrintUtil', () => {
         expect(flexStyles).toContain('size: landscape;');
     });
 
+    it('prints poker-size cards centered, with cut marks in the gutters', () => {
+        const styles = getFixedPrintStyles('none', 'poker');
+
+        expect(styles).toContain('width: 88.9mm;');
+        expect(styles).toContain('gap: 2mm;');
+        expect(styles).toContain('justify-content: center;');
+        expect(styles).toContain('.as-cut-mark.top-left');
+    });
+
+    it('follows each page of duplex trackers with its backs, mirrored row by row', () => {
+        const units = ['A', 'B', 'C'].map(model => ({
+            getUnit: () => ({ chassis: 'Atlas', model, as: { TP: 'BM', Arm: 3, Str: 2 } }),
+            pilotSkill: () => 4,
+            getBv: () => 52,
+            remainingArmor: () => 1,
+            remainingInternal: () => 2,
+            heatTrackLevels: () => [0, 1, 2, 3],
+            alias: () => model === 'A' ? 'Natasha' : undefined,
+            pilotAbilities: () => model === 'A' ? ['animal_mimicry'] : [],
+        }));
+        const overlay = createFixedPrintContainer({
+            appRef: {},
+            injector: {},
+            optionsService: { options: () => ({ ASUseHex: false, colorScheme: 'default' }) },
+            cardItems: units.map(forceUnit => ({ forceUnit, cardIndex: 0, groupIndex: 0 })),
+            pageBreakOnGroups: false,
+            groups: [{ units: () => units }],
+            printMargin: 'none',
+            template: AS_CARD_TEMPLATES.tracker,
+            duplex: true,
+            bandColor: 'rgb(100, 180, 255)',
+            componentRefs: [],
+        });
+
+        const pages = Array.from(overlay.querySelectorAll('.as-print-page'));
+        const names = (page: Element) => Array.from(page.querySelectorAll('.as-card-cell'), cell =>
+            cell.querySelector('.as-tracker-name, .as-card-back-name')?.textContent ?? null);
+        expect(pages.length).toBe(2);
+        expect(names(pages[0])).toEqual(['Atlas A', 'Atlas B', 'Atlas C', null]);
+        expect(names(pages[1])).toEqual(['Atlas B', 'Atlas A', null, 'Atlas C']);
+        expect(pages[1].classList).toContain('as-back-page');
+        expect(pages[1].classList).toContain('last-page');
+        expect(pages[0].querySelectorAll('.as-tracker-pip.damaged').length).toBe(6);
+        expect(pages[0].querySelector('.as-tracker-heat-box:last-child')?.textContent).toBe('S');
+        expect(pages[1].textContent).toContain('Natasha · Skill 4');
+        expect(pages[1].textContent).toContain('Animal Mimicry (2)');
+        expect((pages[0].querySelector('.as-color-band') as HTMLElement).style.getPropertyValue('--as-band-color'))
+            .toBe('rgb(100, 180, 255)');
+    });
+
     it('builds a cards-only print container', async () => {
         const createContainer = () => {
             const overlay = document.createElement('div');
@@ -78,7 +129,9 @@ describe('ASPrintUtil', () => {
             {
                 clean: true,
                 ASPrintPageBreakOnGroups: false,
-                ASPrintCardSize: 'standard',
+                ASPrintCardTemplate: 'standard',
+                ASPrintDuplex: false,
+                ASPrintColorBands: false,
                 printMargin: 'none',
             },
             false,
@@ -130,7 +183,9 @@ describe('ASPrintUtil', () => {
             {
                 clean: false,
                 ASPrintPageBreakOnGroups: false,
-                ASPrintCardSize: 'standard',
+                ASPrintCardTemplate: 'standard',
+                ASPrintDuplex: false,
+                ASPrintColorBands: false,
                 printMargin: 'none',
             },
             false,
@@ -190,7 +245,9 @@ describe('ASPrintUtil', () => {
             {
                 clean: true,
                 ASPrintPageBreakOnGroups: false,
-                ASPrintCardSize: 'standard',
+                ASPrintCardTemplate: 'standard',
+                ASPrintDuplex: false,
+                ASPrintColorBands: false,
                 printMargin: 'none',
             },
             false,
@@ -234,7 +291,9 @@ describe('ASPrintUtil', () => {
             {
                 clean: true,
                 ASPrintPageBreakOnGroups: false,
-                ASPrintCardSize: 'standard',
+                ASPrintCardTemplate: 'standard',
+                ASPrintDuplex: false,
+                ASPrintColorBands: false,
                 printMargin: 'none',
             },
             false,
@@ -275,32 +334,38 @@ function prepareUnitsForPrint(units: unknown[], clean: boolean): () => void {
     }).prepareUnitsForPrint(units, clean);
 }
 
-function getPrintLayout(cardSize: PrintAllOptions['ASPrintCardSize']): TestPrintLayout {
+function createFixedPrintContainer(options: Record<string, unknown>): HTMLElement {
+    return (ASPrintUtil as unknown as {
+        createFixedPrintContainer(options: Record<string, unknown>): HTMLElement;
+    }).createFixedPrintContainer(options);
+}
+
+function getPrintLayout(templateId: PrintAllOptions['ASPrintCardTemplate']): TestPrintLayout {
     return (ASPrintUtil as unknown as {
-        getPrintLayout(cardSize: PrintAllOptions['ASPrintCardSize']): TestPrintLayout;
-    }).getPrintLayout(cardSize);
+        getPrintLayout(templateId: PrintAllOptions['ASPrintCardTemplate']): TestPrintLayout;
+    }).getPrintLayout(templateId);
 }
 
 function getFixedPrintStyles(
     printMargin: PrintAllOptions['printMargin'],
-    cardSize: PrintAllOptions['ASPrintCardSize']
+    templateId: PrintAllOptions['ASPrintCardTemplate']
 ): string {
     return (ASPrintUtil as unknown as {
         getFixedPrintStyles(
             printMargin: PrintAllOptions['printMargin'],
-            cardSize: PrintAllOptions['ASPrintCardSize']
+            templateId: PrintAllOptions['ASPrintCardTemplate']
         ): string;
-    }).getFixedPrintStyles(printMargin, cardSize);
+    }).getFixedPrintStyles(printMargin, templateId);
 }
 
 function getFlexPrintStyles(
     printMargin: PrintAllOptions['printMargin'],
-    cardSize: PrintAllOptions['ASPrintCardSize']
+    templateId: PrintAllOptions['ASPrintCardTemplate']
 ): string {
     return (ASPrintUtil as unknown as {
         getFlexPrintStyles(
             printMargin: PrintAllOptions['printMargin'],
-            cardSize: PrintAllOptions['ASPrintCardSize']
+            templateId: PrintAllOptions['ASPrintCardTemplate']
         ): string;
-    }).getFlexPrintStyles(printMargin, cardSize);
+    }).getFlexPrintStyles(printMargin, templateId);
 }
@@ -11,7 +11,17 @@ import type { OptionsService } from '../services/options.service';
 import type { ColorScheme } from '../models/options.model';
 import { isIOS } from './platform.util';
 import type { PrintAllOptions } from '../models/print-options.model';
-import { mountPrintOverlay } from './print-overlay.util';
+import {
+    AS_CARD_TEMPLATES,
+    asCardBackAbilities,
+    asCardRowsThatFit,
+    asCardTemplateSize,
+    duplexBackSlots,
+    type ASCardTemplate,
+    type ASCardTemplateId,
+} from '../models/as-card-template.model';
+import { forceSideRgb } from '../models/force-slot.model';
+import { mountPrintOverlay, nextAnimationFrames, waitForPrintImages } from './print-overlay.util';
 
 /**
  * Represents a single card to render (handles multi-card units)
@@ -22,40 +32,28 @@ interface CardRenderItem {
     groupIndex: number;
 }
 
-interface ASPrintLayout {
-    cardScale: number;
-    columnsPerPage: number;
-    rowsPerPage: number;
-    pageSize: 'auto' | 'landscape';
+/**
+ * The cards of one fixed page, and the group whose header opens it.
+ */
+interface CardPage {
+    cards: CardRenderItem[];
+    group: UnitGroup<ASForceUnit> | null;
 }
 
-// Standard Alpha Strike card dimensions in millimeters.
-const CARD_WIDTH_MM = 88;
-const CARD_HEIGHT_MM = 63;
 // Page dimensions (Letter size with margins)
 const PAGE_WIDTH_IN = 8.0;  // 8.5 - 0.5 margins
 const PAGE_HEIGHT_IN = 10.5; // 11 - 0.5 margins
+const MM_PER_IN = 25.4;
+/** Height a group header takes at the top of a fixed page. */
+const GROUP_HEADER_HEIGHT_MM = 9;
 
-const AS_PRINT_LAYOUTS = {
-    standard: {
-        cardScale: 1,
-        columnsPerPage: 2,
-        rowsPerPage: 4,
-        pageSize: 'auto',
-    },
-    enlarged: {
-        // Halving the cards per page doubles each card's printed area.
-        cardScale: Math.SQRT2,
-        columnsPerPage: 2,
-        rowsPerPage: 2,
-        pageSize: 'landscape',
-    },
-} satisfies Record<PrintAllOptions['ASPrintCardSize'], ASPrintLayout>;
-
-type ASCardPrintOptions = Pick<
+export type ASCardPrintOptions = Pick<
     PrintAllOptions,
-    'clean' | 'ASPrintPageBreakOnGroups' | 'ASPrintCardSize' | 'printMargin'
->;
+    'clean' | 'ASPrintPageBreakOnGroups' | 'ASPrintCardTemplate' | 'ASPrintDuplex' | 'ASPrintColorBands' | 'printMargin'
+> & {
+    /** Hex color of the force, used for the color bands */
+    forceColor?: string;
+};
 
 interface ASPrintUnitSnapshot {
     unit: ASForceUnit;
@@ -71,7 +69,23 @@ interface ASPrintContainerOptions {
     pageBreakOnGroups: boolean;
     groups: UnitGroup<ASForceUnit>[];
     printMargin: PrintAllOptions['printMargin'];
-    cardSize: PrintAllOptions['ASPrintCardSize'];
+    template: ASCardTemplate;
+    duplex: boolean;
+    /** CSS color of the band along each card, or null for none */
+    bandColor: string | null;
+    componentRefs: ComponentRef<AlphaStrikeCardComponent>[];
+}
+
+/**
+ * What every card of a print job is rendered with.
+ */
+interface CardRenderContext {
+    appRef: ApplicationRef;
+    injector: Injector;
+    useHex: boolean;
+    cardStyle: ColorScheme;
+    template: ASCardTemplate;
+    bandColor: string | null;
     componentRefs: ComponentRef<AlphaStrikeCardComponent>[];
 }
 
@@ -95,12 +109,78 @@ export class ASPrintUtil {
         printOptions: ASCardPrintOptions,
         triggerPrint: boolean = true,
     ): Promise<void> {
-        const allUnits = groups.flatMap(g => g.units());
-        if (allUnits.length === 0) {
+        if (groups.every(g => g.units().length === 0)) {
             console.warn('No units to export.');
             return;
         }
 
+        // Duplex backs only line up behind their fronts on explicitly laid out pages.
+        const fixedPages = isIOS() || printOptions.ASPrintDuplex;
+        const { overlay, cleanup } = this.createCardContainer(appRef, injector, optionsService, groups, printOptions, fixedPages);
+        try {
+            await mountPrintOverlay({
+                overlay,
+                bodyClass: 'as-multipage-container-active',
+                triggerPrint,
+                onMount: () => {
+                    appRef.tick();
+                },
+                onCleanup: cleanup,
+            });
+        } catch (error) {
+            cleanup();
+            throw error;
+        }
+    }
+
+    /**
+     * Lays the cards out on fixed-size pages off screen and hands the page
+     * elements to `render`, as the PDF export does to rasterize them. The
+     * cards are torn down once `render` is done.
+     */
+    public static async renderPages(
+        appRef: ApplicationRef,
+        injector: Injector,
+        optionsService: OptionsService,
+        groups: UnitGroup<ASForceUnit>[],
+        printOptions: ASCardPrintOptions,
+        render: (pages: HTMLElement[]) => Promise<void>,
+    ): Promise<void> {
+        if (groups.every(g => g.units().length === 0)) return;
+
+        const { overlay, cleanup } = this.createCardContainer(appRef, injector, optionsService, groups, printOptions, true);
+        // Override the screen rule that hides the container; it only has to lay out.
+        overlay.style.cssText = 'display: block; position: fixed; left: -100000px; top: 0;';
+        try {
+            document.body.appendChild(overlay);
+            appRef.tick();
+            try {
+                await document.fonts?.ready;
+            } catch {
+                // Rendering can continue with the fallback font.
+            }
+            await waitForPrintImages(overlay);
+            await nextAnimationFrames(2);
+            await render(Array.from(overlay.querySelectorAll<HTMLElement>('.as-print-page')));
+        } finally {
+            overlay.remove();
+            cleanup();
+        }
+    }
+
+    /**
+     * Builds the card container and the cleanup that destroys its cards and
+     * restores the units; the fixed layout puts the cards on explicit pages.
+     */
+    private static createCardContainer(
+        appRef: ApplicationRef,
+        injector: Injector,
+        optionsService: OptionsService,
+        groups: UnitGroup<ASForceUnit>[],
+        printOptions: ASCardPrintOptions,
+        fixedPages: boolean,
+    ): { overlay: HTMLElement; cleanup: () => void } {
+        const allUnits = groups.flatMap(g => g.units());
         const restoreUnits = this.prepareUnitsForPrint(allUnits, printOptions.clean);
         const cardComponentRefs: ComponentRef<AlphaStrikeCardComponent>[] = [];
         let detachedViewCount = 0;
@@ -144,7 +224,8 @@ export class ASPrintUtil {
         };
 
         try {
-            const cardRenderItems = this.expandToCardItems(groups);
+            const template = this.getPrintLayout(printOptions.ASPrintCardTemplate);
+            const cardRenderItems = this.expandToCardItems(groups, template);
             const containerOptions: ASPrintContainerOptions = {
                 appRef,
                 injector,
@@ -153,22 +234,17 @@ export class ASPrintUtil {
                 pageBreakOnGroups: printOptions.ASPrintPageBreakOnGroups,
                 groups,
                 printMargin: printOptions.printMargin,
-                cardSize: printOptions.ASPrintCardSize,
+                template,
+                duplex: printOptions.ASPrintDuplex,
+                bandColor: printOptions.ASPrintColorBands && printOptions.forceColor
+                    ? `rgb(${forceSideRgb(printOptions.forceColor)})`
+                    : null,
                 componentRefs: cardComponentRefs,
             };
-            const overlay = isIOS()
+            const overlay = fixedPages
                 ? this.createFixedPrintContainer(containerOptions)
                 : this.createFlexPrintContainer(containerOptions);
-
-            await mountPrintOverlay({
-                overlay,
-                bodyClass: 'as-multipage-container-active',
-                triggerPrint,
-                onMount: () => {
-                    appRef.tick();
-                },
-                onCleanup: cleanup,
-            });
+            return { overlay, cleanup };
         } catch (error) {
             cleanup();
             throw error;
@@ -177,10 +253,12 @@ export class ASPrintUtil {
 
     /**
      * Expands force units into individual card render items.
-     * Multi-card units (like large vessels) are expanded into multiple entries.
+     * Multi-card units (like large vessels) are expanded into multiple entries,
+     * except on trackers, which fit a unit on one.
      * @param groups - Array of UnitGroups
+     * @param template - Card template being printed
      */
-    private static expandToCardItems(groups: UnitGroup<ASForceUnit>[]): CardRenderItem[] {
+    private static expandToCardItems(groups: UnitGroup<ASForceUnit>[], template: ASCardTemplate): CardRenderItem[] {
         const items: CardRenderItem[] = [];
         
         for (let groupIndex = 0; groupIndex < groups.length; groupIndex++) {
@@ -188,7 +266,7 @@ export class ASPrintUtil {
             for (const forceUnit of groupUnits) {
                 const unitType = forceUnit.getUnit().as.TP;
                 const layout = getLayoutForUnitType(unitType);
-                const cardCount = layout.cards.length;
+                const cardCount = template.content === 'tracker' ? 1 : layout.cards.length;
                 
                 for (let cardIndex = 0; cardIndex < cardCount; cardIndex++) {
                     items.push({ forceUnit, cardIndex, groupIndex });
@@ -244,8 +322,9 @@ export class ASPrintUtil {
     }
 
     /**
-     * Creates a fixed grid print container (iOS-specific).
-     * Uses fixed page dimensions for reliable printing on iOS.
+     * Creates a fixed grid print container (iOS, duplex printing and the
+     * PDF export). Uses fixed page dimensions for reliable printing on iOS;
+     * with duplex, each page of cards is followed by its backs.
      */
     private static createFixedPrintContainer({
         appRef,
@@ -255,13 +334,20 @@ export class ASPrintUtil {
         pageBreakOnGroups,
         groups,
         printMargin,
-        cardSize,
+        template,
+        duplex,
+        bandColor,
         componentRefs,
     }: ASPrintContainerOptions): HTMLElement {
-        const useHex = optionsService.options().ASUseHex;
-        const cardStyle = optionsService.options().colorScheme;
-        const layout = this.getPrintLayout(cardSize);
-        const cardsPerPage = layout.columnsPerPage * layout.rowsPerPage;
+        const context: CardRenderContext = {
+            appRef,
+            injector,
+            useHex: optionsService.options().ASUseHex,
+            cardStyle: optionsService.options().colorScheme,
+            template,
+            bandColor,
+            componentRefs,
+        };
         
         // Create overlay container
         const overlay = document.createElement('div');
@@ -269,74 +355,100 @@ export class ASPrintUtil {
         
         // Add print styles
         const style = document.createElement('style');
-        style.textContent = this.getFixedPrintStyles(printMargin, cardSize);
+        style.textContent = this.getFixedPrintStyles(printMargin, template.id, duplex);
         overlay.appendChild(style);
         
-        // Group cards by groupIndex if pageBreakOnGroups is enabled
-        if (pageBreakOnGroups) {
-            const groupedCards = this.groupCardsByGroupIndex(cardItems);
-            let isLastGroup = false;
-            
-            for (let g = 0; g < groupedCards.length; g++) {
-                const groupCards = groupedCards[g];
-                isLastGroup = g === groupedCards.length - 1;
-                const totalPagesInGroup = Math.ceil(groupCards.length / cardsPerPage);
-                
-                for (let pageIndex = 0; pageIndex < totalPagesInGroup; pageIndex++) {
-                    const pageDiv = document.createElement('div');
-                    pageDiv.className = 'as-print-page';
-                    
-                    // Mark last page of last group
-                    const isLastPageOfGroup = pageIndex === totalPagesInGroup - 1;
-                    if (isLastGroup && isLastPageOfGroup) {
-                        pageDiv.classList.add('last-page');
-                    }
-
-                    // Add group header on first page of each group
-                    if (pageIndex === 0 && groups.length > 1) {
-                        const group = groups[groupCards[0].groupIndex];
-                        if (group) {
-                            pageDiv.appendChild(this.createGroupHeaderElement(group));
-                        }
-                    }
-                    
-                    const startIndex = pageIndex * cardsPerPage;
-                    const endIndex = Math.min(startIndex + cardsPerPage, groupCards.length);
-                    
-                    for (let i = startIndex; i < endIndex; i++) {
-                        const item = groupCards[i];
-                        this.appendCardToContainer(pageDiv, item, appRef, injector, useHex, cardStyle, componentRefs);
-                    }
-                    
-                    overlay.appendChild(pageDiv);
-                }
-            }
-        } else {
-            // Simple pagination
-            const totalPages = Math.ceil(cardItems.length / cardsPerPage);
-            
-            for (let pageIndex = 0; pageIndex < totalPages; pageIndex++) {
-                const pageDiv = document.createElement('div');
-                pageDiv.className = 'as-print-page';
-                if (pageIndex === totalPages - 1) {
-                    pageDiv.classList.add('last-page');
-                }
-                
-                const startIndex = pageIndex * cardsPerPage;
-                const endIndex = Math.min(startIndex + cardsPerPage, cardItems.length);
-                
-                for (let i = startIndex; i < endIndex; i++) {
-                    const item = cardItems[i];
-                    this.appendCardToContainer(pageDiv, item, appRef, injector, useHex, cardStyle, componentRefs);
-                }
-                
-                overlay.appendChild(pageDiv);
+        const pageElements: HTMLElement[] = [];
+        for (const page of this.paginateFixedPages(cardItems, pageBreakOnGroups, groups, template)) {
+            pageElements.push(this.createFrontPage(page, context, duplex));
+            if (duplex) {
+                pageElements.push(this.createBackPage(page, context));
             }
         }
+        pageElements[pageElements.length - 1]?.classList.add('last-page');
+        for (const pageElement of pageElements) {
+            overlay.appendChild(pageElement);
+        }
         
         return overlay;
     }
 
+    /**
+     * Splits the cards into fixed pages. With group page breaks every group
+     * starts a page, headed by its name when there are several; a header
+     * leaves room for fewer rows on its page.
+     */
+    private static paginateFixedPages(
+        cardItems: CardRenderItem[],
+        pageBreakOnGroups: boolean,
+        groups: UnitGroup<ASForceUnit>[],
+        template: ASCardTemplate,
+    ): CardPage[] {
+        const pageHeightMm = (template.pageSize === 'landscape' ? PAGE_WIDTH_IN : PAGE_HEIGHT_IN) * MM_PER_IN;
+        // Cut marks reach into a gutter's width above and below the cards.
+        const edgesMm = template.cutMarks ? template.gutterMm * 2 : 0;
+        const cardsPerPage = (reservedMm: number) =>
+            template.columnsPerPage * asCardRowsThatFit(template, pageHeightMm, edgesMm + reservedMm);
+
+        const pages: CardPage[] = [];
+        const sections = pageBreakOnGroups ? this.groupCardsByGroupIndex(cardItems) : [cardItems];
+        for (const section of sections) {
+            const group = pageBreakOnGroups && groups.length > 1 ? groups[section[0].groupIndex] ?? null : null;
+            let start = 0;
+            while (start < section.length) {
+                const header = start === 0 ? group : null;
+                const count = cardsPerPage(header ? GROUP_HEADER_HEIGHT_MM : 0);
+                pages.push({ cards: section.slice(start, start + count), group: header });
+                start += count;
+            }
+        }
+        return pages;
+    }
+
+    private static createFrontPage(page: CardPage, context: CardRenderContext, duplex: boolean): HTMLElement {
+        const pageDiv = document.createElement('div');
+        pageDiv.className = 'as-print-page';
+        if (page.group) {
+            pageDiv.appendChild(this.createGroupHeaderElement(page.group));
+        }
+        for (const item of page.cards) {
+            this.appendCardToContainer(pageDiv, item, context);
+        }
+        if (duplex) {
+            // Fill the last row so centering cannot shift its cards away from their backs.
+            const columns = context.template.columnsPerPage;
+            const emptySlots = (columns - page.cards.length % columns) % columns;
+            for (let i = 0; i < emptySlots; i++) {
+                pageDiv.appendChild(this.createEmptyCell());
+            }
+        }
+        return pageDiv;
+    }
+
+    /**
+     * The backs of a page's cards, mirrored so each lands behind its front.
+     */
+    private static createBackPage(page: CardPage, context: CardRenderContext): HTMLElement {
+        const pageDiv = document.createElement('div');
+        pageDiv.className = 'as-print-page as-back-page';
+        if (page.group) {
+            // Keeps the rows at the same height as on the front.
+            const spacer = this.createGroupHeaderElement(page.group);
+            spacer.style.visibility = 'hidden';
+            pageDiv.appendChild(spacer);
+        }
+        for (const slot of duplexBackSlots(page.cards.length, context.template.columnsPerPage)) {
+            if (slot === null) {
+                pageDiv.appendChild(this.createEmptyCell());
+                continue;
+            }
+            const cellDiv = this.createCardCell(context);
+            cellDiv.appendChild(this.createCardBackElement(page.cards[slot].forceUnit, context.useHex));
+            pageDiv.appendChild(cellDiv);
+        }
+        return pageDiv;
+    }
+
     /**
      * Creates a flexible print container (non-iOS platforms).
      * Uses flexbox with auto-wrapping for portrait/landscape support.
@@ -349,11 +461,19 @@ export class ASPrintUtil {
         pageBreakOnGroups,
         groups,
         printMargin,
-        cardSize,
+        template,
+        bandColor,
         componentRefs,
     }: ASPrintContainerOptions): HTMLElement {
-        const useHex = optionsService.options().ASUseHex;
-        const cardStyle = optionsService.options().colorScheme;
+        const context: CardRenderContext = {
+            appRef,
+            injector,
+            useHex: optionsService.options().ASUseHex,
+            cardStyle: optionsService.options().colorScheme,
+            template,
+            bandColor,
+            componentRefs,
+        };
         
         // Create overlay container
         const overlay = document.createElement('div');
@@ -361,7 +481,7 @@ export class ASPrintUtil {
         
         // Add print styles
         const style = document.createElement('style');
-        style.textContent = this.getFlexPrintStyles(printMargin, cardSize);
+        style.textContent = this.getFlexPrintStyles(printMargin, template.id);
         overlay.appendChild(style);
         
         if (pageBreakOnGroups) {
@@ -387,7 +507,7 @@ export class ASPrintUtil {
                 }
                 
                 for (const item of groupCards) {
-                    this.appendCardToContainer(flexContainer, item, appRef, injector, useHex, cardStyle, componentRefs);
+                    this.appendCardToContainer(flexContainer, item, context);
                 }
                 
                 overlay.appendChild(flexContainer);
@@ -408,11 +528,11 @@ export class ASPrintUtil {
                         }
                         lastGroupIndex = item.groupIndex;
                     }
-                    this.appendCardToContainer(flexContainer, item, appRef, injector, useHex, cardStyle, componentRefs);
+                    this.appendCardToContainer(flexContainer, item, context);
                 }
             } else {
                 for (const item of cardItems) {
-                    this.appendCardToContainer(flexContainer, item, appRef, injector, useHex, cardStyle, componentRefs);
+                    this.appendCardToContainer(flexContainer, item, context);
                 }
             }
             
@@ -471,19 +591,21 @@ export class ASPrintUtil {
     }
 
     /**
-     * Helper to create and append a card component to a container.
+     * Helper to create and append a card to a container: the card
+     * component, or the tracker built for it when the template is one.
      */
     private static appendCardToContainer(
         container: HTMLElement,
         item: CardRenderItem,
-        appRef: ApplicationRef,
-        injector: Injector,
-        useHex: boolean,
-        cardStyle: ColorScheme,
-        componentRefs: ComponentRef<AlphaStrikeCardComponent>[]
+        context: CardRenderContext
     ): void {
-        const cellDiv = document.createElement('div');
-        cellDiv.className = 'as-card-cell';
+        const { appRef, injector, useHex, cardStyle, template, componentRefs } = context;
+        const cellDiv = this.createCardCell(context);
+        if (template.content === 'tracker') {
+            cellDiv.appendChild(this.createTrackerElement(item.forceUnit));
+            container.appendChild(cellDiv);
+            return;
+        }
         
         const environmentInjector = injector.get(EnvironmentInjector);
         const componentRef = createComponent(AlphaStrikeCardComponent, {
@@ -514,23 +636,135 @@ export class ASPrintUtil {
         }
     }
 
-    private static getPrintLayout(cardSize: PrintAllOptions['ASPrintCardSize']): ASPrintLayout {
-        return AS_PRINT_LAYOUTS[cardSize];
+    /**
+     * Creates an empty card cell, with the template's cut marks and color band.
+     */
+    private static createCardCell({ template, bandColor }: CardRenderContext): HTMLElement {
+        const cellDiv = document.createElement('div');
+        cellDiv.className = 'as-card-cell';
+        if (template.cutMarks) {
+            cellDiv.classList.add('as-cut-marks');
+            for (const corner of ['top-left', 'top-right', 'bottom-left', 'bottom-right']) {
+                cellDiv.appendChild(this.createElement('span', `as-cut-mark ${corner}`));
+            }
+        }
+        if (bandColor) {
+            cellDiv.classList.add('as-color-band');
+            cellDiv.style.setProperty('--as-band-color', bandColor);
+        }
+        return cellDiv;
+    }
+
+    /**
+     * Creates a cell that only holds a card's place on a page.
+     */
+    private static createEmptyCell(): HTMLElement {
+        return this.createElement('div', 'as-card-cell as-empty-cell');
     }
 
     /**
-     * Returns the CSS styles for fixed grid printing (iOS).
+     * Creates a tracker card: the unit's armor, structure and heat, with the
+     * damage it has taken filled in.
+     */
+    private static createTrackerElement(forceUnit: ASForceUnit): HTMLElement {
+        const unit = forceUnit.getUnit();
+        const tracker = this.createElement('div', 'as-tracker');
+
+        const header = this.createElement('div', 'as-tracker-header');
+        header.appendChild(this.createElement('span', 'as-tracker-name', this.cardUnitName(forceUnit)));
+        header.appendChild(this.createElement('span', 'as-tracker-stats', `Skill ${forceUnit.pilotSkill()} · PV ${forceUnit.getBv()}`));
+        tracker.appendChild(header);
+
+        tracker.appendChild(this.createTrackerRow('A', unit.as.Arm, unit.as.Arm - forceUnit.remainingArmor()));
+        tracker.appendChild(this.createTrackerRow('S', unit.as.Str, unit.as.Str - forceUnit.remainingInternal()));
+
+        const heatRow = this.createElement('div', 'as-tracker-row');
+        heatRow.appendChild(this.createElement('span', 'as-tracker-label', 'H'));
+        const heatBoxes = this.createElement('div', 'as-tracker-pips');
+        const heatLevels = forceUnit.heatTrackLevels().filter(level => level > 0);
+        for (const level of [...heatLevels.map(String), 'S']) {
+            heatBoxes.appendChild(this.createElement('span', 'as-tracker-heat-box', level));
+        }
+        heatRow.appendChild(heatBoxes);
+        tracker.appendChild(heatRow);
+
+        return tracker;
+    }
+
+    private static createTrackerRow(label: string, total: number, damaged: number): HTMLElement {
+        const row = this.createElement('div', 'as-tracker-row');
+        row.appendChild(this.createElement('span', 'as-tracker-label', label));
+        const pips = this.createElement('div', 'as-tracker-pips');
+        for (let i = 0; i < total; i++) {
+            pips.appendChild(this.createElement('span', i < damaged ? 'as-tracker-pip damaged' : 'as-tracker-pip'));
+        }
+        row.appendChild(pips);
+        return row;
+    }
+
+    /**
+     * Creates the back of a unit's card: its pilot and what each of the
+     * pilot's abilities does.
+     */
+    private static createCardBackElement(forceUnit: ASForceUnit, useHex: boolean): HTMLElement {
+        const back = this.createElement('div', 'as-card-back');
+        back.appendChild(this.createElement('div', 'as-card-back-name', this.cardUnitName(forceUnit)));
+
+        const pilotName = forceUnit.alias()?.trim();
+        const pilot = pilotName ? `${pilotName} · Skill ${forceUnit.pilotSkill()}` : `Skill ${forceUnit.pilotSkill()}`;
+        back.appendChild(this.createElement('div', 'as-card-back-pilot', pilot));
+
+        const abilities = asCardBackAbilities(forceUnit.pilotAbilities(), useHex);
+        if (abilities.length === 0) {
+            back.appendChild(this.createElement('div', 'as-card-back-empty', 'No special pilot abilities.'));
+            return back;
+        }
+        const list = this.createElement('ul', 'as-card-back-abilities');
+        for (const ability of abilities) {
+            const item = this.createElement('li');
+            item.appendChild(this.createElement('span', 'as-card-back-ability-name', ability.name));
+            if (ability.summary.length > 0) {
+                item.appendChild(document.createTextNode(` ${ability.summary.join(' ')}`));
+            }
+            list.appendChild(item);
+        }
+        back.appendChild(list);
+        return back;
+    }
+
+    private static cardUnitName(forceUnit: ASForceUnit): string {
+        const unit = forceUnit.getUnit();
+        return `${unit.chassis} ${unit.model}`.trim();
+    }
+
+    private static createElement(tagName: string, className?: string, text?: string): HTMLElement {
+        const element = document.createElement(tagName);
+        if (className) element.className = className;
+        if (text !== undefined) element.textContent = text;
+        return element;
+    }
+
+    private static getPrintLayout(templateId: ASCardTemplateId): ASCardTemplate {
+        return AS_CARD_TEMPLATES[templateId];
+    }
+
+    /**
+     * Returns the CSS styles for fixed grid printing (iOS, duplex and PDF).
      * Standard card size: 88mm x 63mm.
      */
     private static getFixedPrintStyles(
         printMargin: PrintAllOptions['printMargin'],
-        cardSize: PrintAllOptions['ASPrintCardSize']
+        templateId: ASCardTemplateId,
+        duplex: boolean = false
     ): string {
-        const layout = this.getPrintLayout(cardSize);
-        const cardWidthMm = `${CARD_WIDTH_MM * layout.cardScale}mm`;
-        const cardHeightMm = `${CARD_HEIGHT_MM * layout.cardScale}mm`;
-        const cardFontSizeMm = `${CARD_WIDTH_MM * layout.cardScale / 100}mm`;
-        const justifyContent = cardSize === 'enlarged' ? 'center' : 'flex-start';
+        const layout = this.getPrintLayout(templateId);
+        const cardSize = asCardTemplateSize(layout);
+        const cardWidthMm = `${cardSize.width}mm`;
+        const cardHeightMm = `${cardSize.height}mm`;
+        const cardFontSizeMm = `${cardSize.width / 100}mm`;
+        // Backs are mirrored around the page's center line, so duplex pages center their cards.
+        const justifyContent = layout.centered || duplex ? 'center' : 'flex-start';
+        const edgePaddingMm = layout.cutMarks ? `${layout.gutterMm}mm` : '0';
         const pageWidthIn = `${layout.pageSize === 'landscape' ? PAGE_HEIGHT_IN : PAGE_WIDTH_IN}in`;
         const pageHeightIn = `${layout.pageSize === 'landscape' ? PAGE_WIDTH_IN : PAGE_HEIGHT_IN}in`;
         
@@ -553,7 +787,8 @@ export class ASPrintUtil {
                 align-content: flex-start;
                 -webkit-justify-content: ${justifyContent};
                 justify-content: ${justifyContent};
-                gap: 0.01in;
+                gap: ${layout.gutterMm}mm;
+                padding: ${edgePaddingMm} 0;
                 background: white;
                 box-sizing: border-box;
                 overflow: hidden;
@@ -570,6 +805,7 @@ export class ASPrintUtil {
                 justify-content: center;
                 -webkit-align-items: center;
                 align-items: center;
+                position: relative;
                 overflow: hidden;
                 box-sizing: border-box;
             }
@@ -585,6 +821,8 @@ export class ASPrintUtil {
                 font-size: ${cardFontSizeMm};
             }
 
+            ${this.getCardElementStyles(layout, cardFontSizeMm)}
+
             .as-group-header {
                 width: 100%;
                 flex-basis: 100%;
@@ -655,13 +893,15 @@ export class ASPrintUtil {
      */
     private static getFlexPrintStyles(
         printMargin: PrintAllOptions['printMargin'],
-        cardSize: PrintAllOptions['ASPrintCardSize']
+        templateId: ASCardTemplateId
     ): string {
-        const layout = this.getPrintLayout(cardSize);
-        const cardWidthMm = `${CARD_WIDTH_MM * layout.cardScale}mm`;
-        const cardHeightMm = `${CARD_HEIGHT_MM * layout.cardScale}mm`;
-        const cardFontSizeMm = `${CARD_WIDTH_MM * layout.cardScale / 100}mm`;
-        const justifyContent = cardSize === 'enlarged' ? 'center' : 'flex-start';
+        const layout = this.getPrintLayout(templateId);
+        const cardSize = asCardTemplateSize(layout);
+        const cardWidthMm = `${cardSize.width}mm`;
+        const cardHeightMm = `${cardSize.height}mm`;
+        const cardFontSizeMm = `${cardSize.width / 100}mm`;
+        const justifyContent = layout.centered ? 'center' : 'flex-start';
+        const edgePaddingMm = layout.cutMarks ? `${layout.gutterMm}mm` : '0';
         
         return `            
             @media screen {
@@ -676,9 +916,9 @@ export class ASPrintUtil {
                 flex-wrap: wrap;
                 align-content: flex-start;
                 justify-content: ${justifyContent};
-                gap: 0.01in;
+                gap: ${layout.gutterMm}mm;
                 background: white;
-                padding: 0;
+                padding: ${edgePaddingMm} 0;
             }
 
             .as-card-cell {
@@ -688,6 +928,7 @@ export class ASPrintUtil {
                 display: flex;
                 justify-content: center;
                 align-items: center;
+                position: relative;
                 overflow: hidden;
                 box-sizing: border-box;
                 page-break-inside: avoid;
@@ -705,6 +946,8 @@ export class ASPrintUtil {
                 font-size: ${cardFontSizeMm};
             }
 
+            ${this.getCardElementStyles(layout, cardFontSizeMm)}
+
             .as-group-header {
                 width: 100%;
                 flex-basis: 100%;
@@ -763,4 +1006,189 @@ export class ASPrintUtil {
         `;
     }
 
+    /**
+     * Returns the CSS styles shared by both containers for the template's
+     * cut marks, the color bands, trackers and card backs. Sizes are in em
+     * of the card's font size, so they scale with the card.
+     */
+    private static getCardElementStyles(layout: ASCardTemplate, cardFontSizeMm: string): string {
+        const markMm = `${layout.gutterMm}mm`;
+        return `
+            .as-card-cell.as-cut-marks {
+                overflow: visible;
+            }
+
+            .as-card-cell.as-cut-marks > * {
+                overflow: hidden;
+            }
+
+            .as-card-cell.as-cut-marks > .as-cut-mark {
+                position: absolute;
+                width: ${markMm};
+                height: ${markMm};
+                box-sizing: border-box;
+                border: 0 solid #000;
+                overflow: visible;
+            }
+
+            .as-cut-mark.top-left {
+                left: -${markMm};
+                top: -${markMm};
+                border-right-width: 0.2mm;
+                border-bottom-width: 0.2mm;
+            }
+
+            .as-cut-mark.top-right {
+                right: -${markMm};
+                top: -${markMm};
+                border-left-width: 0.2mm;
+                border-bottom-width: 0.2mm;
+            }
+
+            .as-cut-mark.bottom-left {
+                left: -${markMm};
+                bottom: -${markMm};
+                border-right-width: 0.2mm;
+                border-top-width: 0.2mm;
+            }
+
+            .as-cut-mark.bottom-right {
+                right: -${markMm};
+                bottom: -${markMm};
+                border-left-width: 0.2mm;
+                border-top-width: 0.2mm;
+            }
+
+            .as-card-cell.as-color-band::before {
+                content: '';
+                position: absolute;
+                left: 0;
+                top: 0;
+                bottom: 0;
+                width: 2%;
+                background: var(--as-band-color);
+                z-index: 1;
+                -webkit-print-color-adjust: exact;
+                print-color-adjust: exact;
+            }
+
+            .as-back-page .as-card-cell.as-color-band::before {
+                left: auto;
+                right: 0;
+            }
+
+            .as-tracker,
+            .as-card-back {
+                width: 100%;
+                height: 100%;
+                box-sizing: border-box;
+                display: flex;
+                flex-direction: column;
+                gap: 1em;
+                padding: 1.5em 3em;
+                border: 0.35em solid #000;
+                border-radius: 2em;
+                background: white;
+                color: #000;
+                font-family: sans-serif;
+                font-size: ${cardFontSizeMm};
+                overflow: hidden;
+            }
+
+            .as-tracker-header {
+                display: flex;
+                justify-content: space-between;
+                align-items: baseline;
+                gap: 0.6em;
+                font-size: 3.4em;
+                font-weight: 700;
+            }
+
+            .as-tracker-name,
+            .as-card-back-name {
+                overflow: hidden;
+                white-space: nowrap;
+                text-overflow: ellipsis;
+            }
+
+            .as-tracker-stats {
+                flex: none;
+                font-size: 0.8em;
+                font-weight: 400;
+            }
+
+            .as-tracker-row {
+                display: flex;
+                align-items: center;
+                gap: 1.2em;
+            }
+
+            .as-tracker-label {
+                flex: none;
+                width: 1.4em;
+                font-size: 2.8em;
+                font-weight: 700;
+            }
+
+            .as-tracker-pips {
+                display: flex;
+                flex-wrap: wrap;
+                gap: 0.6em;
+            }
+
+            .as-tracker-pip {
+                width: 2.8em;
+                height: 2.8em;
+                box-sizing: border-box;
+                border: 0.3em solid #000;
+                border-radius: 50%;
+            }
+
+            .as-tracker-pip.damaged {
+                background: #000;
+                -webkit-print-color-adjust: exact;
+                print-color-adjust: exact;
+            }
+
+            .as-tracker-heat-box {
+                min-width: 2em;
+                height: 1.3em;
+                box-sizing: border-box;
+                border: 0.14em solid #000;
+                font-size: 2.2em;
+                font-weight: 700;
+                line-height: 1.05em;
+                text-align: center;
+            }
+
+            .as-card-back-name {
+                font-size: 3.4em;
+                font-weight: 700;
+            }
+
+            .as-card-back-pilot {
+                font-size: 2.8em;
+            }
+
+            .as-card-back-abilities {
+                margin: 0;
+                padding: 0;
+                list-style: none;
+                display: flex;
+                flex-direction: column;
+                gap: 0.4em;
+                font-size: 2.4em;
+            }
+
+            .as-card-back-ability-name {
+                font-weight: 700;
+            }
+
+            .as-card-back-empty {
+                font-size: 2.4em;
+                color: #666;
+            }
+        `;
+    }
+
 }
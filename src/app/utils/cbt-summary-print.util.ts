@@ -6,7 +6,7 @@ import type { CBTForceUnit } from '../models/cbt-force-unit.model';
 import type { CBTForce } from '../models/cbt-force.model';
 import type { PrintAllOptions } from '../models/print-options.model';
 import type { UnitSummary, UnitComponent } from '../models/unit-summary.model';
-import { printInOverlay } from './print-overlay.util';
+import { printInOverlay, type PrintContent } from './print-overlay.util';
 import {
     createPrintRosterHeader,
     createPrintRosterQrMarkup,
@@ -28,14 +28,21 @@ export class CBTSummaryPrintUtil {
         }
 
         await printInOverlay({
-            containerId: 'cbt-summary-print-container',
+            ...await this.createPrintContent(force, printOptions),
             bodyClass: 'cbt-summary-print-active',
-            content: await this.createRosterSummary(force, printOptions.printPilotData),
-            styles: this.getPrintStyles(printOptions.printMargin),
             triggerPrint,
         });
     }
 
+    /** The roster summary markup and the styles scoped to its print container. */
+    public static async createPrintContent(force: CBTForce, printOptions: CBTSummaryPrintOptions): Promise<PrintContent> {
+        return {
+            containerId: 'cbt-summary-print-container',
+            content: await this.createRosterSummary(force, printOptions.printPilotData),
+            styles: this.getPrintStyles(printOptions.printMargin),
+        };
+    }
+
     private static async createRosterSummary(
         force: CBTForce,
         printPilotData: boolean,
@@ -34,7 +34,19 @@ export class CBTPrintUtil {
             console.warn('No units to export.');
             return;
         }
-        // Gather all SVGs as strings
+        const svgStrings = await this.createPrintSvgs(printServices, forceUnits, printOptions);
+        await this.generateMultipagePrintContainer(svgStrings, printOptions.printMargin, triggerPrint);
+    }
+
+    /**
+     * Renders the record sheet of each unit as it prints, one serialized
+     * Letter-sized SVG per unit.
+     */
+    public static async createPrintSvgs(
+        printServices: CBTPrintServices,
+        forceUnits: CBTForceUnit[],
+        printOptions: CBTSheetPrintOptions,
+    ): Promise<string[]> {
         const svgStrings: string[] = [];
         for (const unit of forceUnits) {
             const printUnit = await this.createPrintUnit(unit, printServices, printOptions.clean);
@@ -107,7 +119,7 @@ export class CBTPrintUtil {
             );
             svgStrings.push(svgString);
         }
-        await this.generateMultipagePrintContainer(svgStrings, printOptions.printMargin, triggerPrint);
+        return svgStrings;
     }
 
     private static normalizeFontSizeUnits(style: string): string {
@@ -0,0 +1,195 @@
+// Copyright (C) 2026 The MegaMek Team
+// SPDX-License-Identifier: GPL-3.0-or-later
+// Author: Drake
+
+import { Injector, provideZonelessChangeDetection } from '@angular/core';
+import { TestBed } from '@angular/core/testing';
+import { ASForceUnit } from '../models/as-force-unit.model';
+import type { ASForce } from '../models/as-force.model';
+import { CBTForce } from '../models/cbt-force.model';
+import { CBTForceUnit } from '../models/cbt-force-unit.model';
+import { AmmoEquipment, WeaponEquipment } from '../models/equipment.model';
+import { EquipmentRegistry } from '../models/equipment-lookup';
+import type { CriticalSlot } from '../models/force-serialization';
+import { MountedAmmo, MountedWeapon } from '../models/mounted-equipment.model';
+import { DataService } from '../services/data.service';
+import { DialogsService } from '../services/dialogs.service';
+import { OptionsService } from '../services/options.service';
+import { ToastService } from '../services/toast.service';
+import { UnitInitializerService } from '../services/unit-initializer.service';
+import { createEmptyUnit } from '../testing/unit-test-helpers';
+import { applyRepairItems, collectRepairItems } from './force-repair.util';
+
+describe('force repair utilities', () => {
+    const laserEquipment = new WeaponEquipment({
+        id: 'ISMediumLaser',
+        name: 'Medium Laser',
+        type: 'weapon',
+        stats: { cost: 40000 },
+        weapon: { ammoType: 'NA', heat: 3, damage: 5, ranges: [3, 6, 9, 12] },
+    });
+    const ammoEquipment = new AmmoEquipment({
+        id: 'ISAC10 Ammo',
+        name: 'AC/10 Ammo',
+        type: 'ammo',
+        ammo: { type: 'AC', rackSize: 10, shots: 10, damagePerShot: 1 },
+    });
+    let dataService: jasmine.SpyObj<DataService>;
+    let unitInitializer: UnitInitializerService;
+    let injector: Injector;
+
+    beforeEach(() => {
+        dataService = jasmine.createSpyObj<DataService>('DataService', ['getEquipmentRegistry', 'findEquipment', 'getUnitByName']);
+        const registry = new EquipmentRegistry({ [laserEquipment.id]: laserEquipment, [ammoEquipment.id]: ammoEquipment });
+        dataService.getEquipmentRegistry.and.returnValue(registry);
+        dataService.findEquipment.and.callFake((name: string) => registry.findEquipment(name) ?? undefined);
+
+        TestBed.configureTestingModule({
+            providers: [
+                provideZonelessChangeDetection(),
+                UnitInitializerService,
+                { provide: DataService, useValue: dataService },
+                { provide: DialogsService, useValue: jasmine.createSpyObj<DialogsService>('DialogsService', ['createDialog', 'showError']) },
+                { provide: ToastService, useValue: jasmine.createSpyObj<ToastService>('ToastService', ['showToast']) },
+                { provide: OptionsService, useValue: { options: () => ({ cbtAutomations: true, CBTOptionalRules: {} }) } },
+            ],
+        });
+        unitInitializer = TestBed.inject(UnitInitializerService);
+        injector = TestBed.inject(Injector);
+    });
+
+    function createDamagedMek(): { unit: CBTForceUnit; laser: MountedWeapon; ammo: MountedAmmo } {
+        const summary = createEmptyUnit({ name: 'REP-1', chassis: 'Repair Test', model: 'REP-1', type: 'Mek', subtype: 'BattleMek' });
+        dataService.getUnitByName.and.callFake((name: string) => name === summary.name ? summary : undefined);
+        const force = new CBTForce('Repair Force', dataService, unitInitializer, injector);
+        const unit = new CBTForceUnit(summary, force, dataService, unitInitializer, injector);
+        unit.locations = {
+            armor: new Map([
+                ['LT', { loc: 'LT', rear: false, points: 10 }],
+                ['LT-rear', { loc: 'LT', rear: true, points: 4 }],
+                ['RA', { loc: 'RA', rear: false, points: 8 }],
+            ]),
+            internal: new Map([
+                ['LT', { loc: 'LT', points: 8 }],
+                ['RA', { loc: 'RA', points: 6 }],
+            ]),
+        };
+        const laserSlot: CriticalSlot = { id: 'laser@LT', name: laserEquipment.name, loc: 'LT', slot: 0, eq: laserEquipment, destroyed: 1 };
+        const engineSlots: CriticalSlot[] = [1, 2].map(slot => ({ id: `engine@LT#${slot}`, name: 'Engine', loc: 'LT', slot, hits: 1 }));
+        unit.writeCrits([laserSlot, ...engineSlots]);
+        const laser = new MountedWeapon({
+            owner: unit,
+            id: 'laser@LT',
+            name: laserEquipment.name,
+            equipment: laserEquipment,
+            critSlots: [laserSlot],
+            locations: new Set(['LT']),
+            destroyed: true,
+        });
+        const ammo = new MountedAmmo({
+            owner: unit,
+            id: 'ammo@LT',
+            name: ammoEquipment.name,
+            equipment: ammoEquipment,
+            locations: new Set(['LT']),
+            totalAmmo: 10,
+            consumed: 4,
+        });
+        unit.setInventory([laser, ammo], true);
+
+        unit.addArmorHits('LT', 6, false, true);
+        unit.addArmorHits('LT', 2, true, true);
+        unit.addInternalHits('LT', 3, true);
+        unit.setLocationCondition('RA', 'blown-off', true, true);
+        unit.getCrewMember(0).setHits(2);
+        return { unit, laser, ammo };
+    }
+
+    function createDamagedAlphaStrikeUnit(): ASForceUnit {
+        const force = { owned: () => true, emitChanged: () => undefined, groups: () => [] } as unknown as ASForce;
+        const unit = new ASForceUnit(
+            createEmptyUnit({ type: 'Mek', subtype: 'BattleMek', as: { TP: 'BM', SZ: 3, PV: 30, MVm: { '': 8 }, Arm: 5, Str: 3 } }),
+            force,
+            {} as DataService,
+            {} as UnitInitializerService,
+            injector,
+        );
+        const state = unit.getState();
+        state.armor.set(3);
+        state.pendingArmor.set(1);
+        state.internal.set(1);
+        state.crits.set([{ key: 'engine', timestamp: 1 }, { key: 'weapons', timestamp: 2 }, { key: 'weapons', timestamp: 3 }]);
+        state.consumedAbilities.set({ IF: 1 });
+        state.exhaustedAbilities.set(new Set(['SRM']));
+        return unit;
+    }
+
+    it('itemizes the damage a Classic unit carries out of a game', () => {
+        const { unit } = createDamagedMek();
+
+        const items = collectRepairItems(unit);
+
+        expect(items.map(({ key, kind, amount, targets }) => ({ key, kind, amount, targets }))).toEqual([
+            { key: 'armor:LT', kind: 'armor', amount: 6, targets: ['LT'] },
+            { key: 'armor:LT-rear', kind: 'armor', amount: 2, targets: ['LT-rear'] },
+            { key: 'structure:LT', kind: 'structure', amount: 3, targets: ['LT'] },
+            { key: 'structure:RA', kind: 'structure', amount: 6, targets: ['RA'] },
+            { key: 'equipment:laser@LT', kind: 'equipment', amount: 1, targets: ['laser@LT'] },
+            { key: 'critical:LT:Engine', kind: 'critical', amount: 2, targets: ['engine@LT#1', 'engine@LT#2'] },
+            { key: 'ammo:ammo@LT', kind: 'ammo', amount: 4, targets: ['ammo@LT'] },
+            { key: 'crew:0', kind: 'crew', amount: 2, targets: ['0'] },
+        ]);
+        expect(items.find(item => item.key === 'structure:RA')?.label).toBe('Structure (location lost)');
+        expect(items.find(item => item.key === 'structure:LT')?.cost).toBeGreaterThan(0);
+        expect(items.find(item => item.key === 'equipment:laser@LT')?.cost).toBe(40000);
+        expect(items.find(item => item.key === 'critical:LT:Engine')?.cost).toBeNull();
+    });
+
+    it('applies the chosen Classic repairs and leaves the rest of the damage', () => {
+        const { unit, laser, ammo } = createDamagedMek();
+        const items = collectRepairItems(unit);
+
+        applyRepairItems(unit, items.filter(item => item.kind !== 'crew' && item.key !== 'armor:LT-rear'));
+
+        expect(unit.getArmorHits('LT')).toBe(0);
+        expect(unit.getArmorHits('LT', true)).toBe(2);
+        expect(unit.getInternalHits('LT')).toBe(0);
+        expect(unit.getLocationCondition('RA', 'blown-off')).toBeFalse();
+        expect(laser.committedDestroyed()).toBeFalse();
+        expect(unit.getCritSlots().every(slot => !slot.destroyed && !slot.hits)).toBeTrue();
+        expect(ammo.consumed).toBe(0);
+        expect(unit.getCrewMember(0).getHits()).toBe(2);
+        expect(collectRepairItems(unit).map(item => item.key)).toEqual(['armor:LT-rear', 'crew:0']);
+    });
+
+    it('itemizes and repairs an Alpha Strike unit', () => {
+        const unit = createDamagedAlphaStrikeUnit();
+
+        const items = collectRepairItems(unit);
+
+        expect(items.map(({ key, amount }) => ({ key, amount }))).toEqual([
+            { key: 'armor', amount: 4 },
+            { key: 'structure', amount: 1 },
+            { key: 'critical:engine', amount: 1 },
+            { key: 'critical:weapons', amount: 2 },
+            { key: 'ammo:IF', amount: 1 },
+            { key: 'ammo:SRM', amount: 1 },
+        ]);
+
+        applyRepairItems(unit, items.filter(item => item.key !== 'critical:weapons'));
+
+        expect(collectRepairItems(unit).map(({ key, amount }) => ({ key, amount }))).toEqual([
+            { key: 'critical:weapons', amount: 2 },
+        ]);
+        expect(unit.getState().exhaustedAbilities().size).toBe(0);
+    });
+
+    it('does nothing for an empty repair selection', () => {
+        const { unit } = createDamagedMek();
+        const before = collectRepairItems(unit);
+
+        applyRepairItems(unit, []);
+
+        expect(collectRepairItems(unit)).toEqual(before);
+    });
+});
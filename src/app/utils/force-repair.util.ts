@@ -0,0 +1,215 @@
+// Copyright (C) 2026 The MegaMek Team
+// SPDX-License-Identifier: GPL-3.0-or-later
+// Author: Drake
+
+import { ASForceUnit } from '../models/as-force-unit.model';
+import { CBTForceUnit } from '../models/cbt-force-unit.model';
+import { AmmoEquipment } from '../models/equipment.model';
+import type { CriticalSlot } from '../models/force-serialization';
+import type { ForceUnit } from '../models/force-unit.model';
+import { MountedAmmo } from '../models/mounted-equipment.model';
+import { buildRepairOrder, type RepairItem } from '../models/repair.model';
+import { resolveMtfArmorEquipment } from '../models/entity/parsers/mtf-codec';
+import {
+    ammoShotCost,
+    armorPointCost,
+    combatVehicleStructureCost,
+    equipmentReplacementCost,
+    mekStructureCostPerTon,
+} from '../models/entity/utils/cost';
+
+/*
+ * Description: Itemizes the damage a unit carries out of a game (armor,
+ *              structure, destroyed equipment and criticals, spent ammo and
+ *              injured crew), prices each item with the construction cost
+ *              formulas and applies the repairs chosen on the repair screen.
+ */
+
+const SUPER_HEAVY_WEIGHT_CLASS = 'Colossal/Super-Heavy';
+
+/** Whether a critical slot took hits or was destroyed. */
+export function isCritDamaged(crit: CriticalSlot): boolean {
+    return (crit.hits ?? 0) > 0 || (crit.pendingHits ?? 0) > 0 || crit.destroyed !== undefined || !!crit.destroying;
+}
+
+function locationLabel(loc: string, rear: boolean): string {
+    return rear ? `${loc} (rear)` : loc;
+}
+
+/** Price of one point of internal structure: the unit's structure cost spread over all its points. */
+function structurePointCost(unit: CBTForceUnit): number | null {
+    const summary = unit.getUnit();
+    let totalPoints = 0;
+    unit.locations?.internal.forEach(({ points }) => totalPoints += points ?? 0);
+    if (totalPoints <= 0) return null;
+    const superHeavy = summary.weightClass === SUPER_HEAVY_WEIGHT_CLASS;
+    if (summary.type === 'Mek') {
+        return mekStructureCostPerTon(summary.structureType ?? 'Standard', superHeavy) * summary.tons / totalPoints;
+    }
+    if ((summary.type === 'Tank' || summary.type === 'VTOL' || summary.type === 'Naval') && !summary.subtype.includes('Support')) {
+        return combatVehicleStructureCost(summary.tons, superHeavy && summary.type !== 'Naval') / totalPoints;
+    }
+    return null;
+}
+
+function collectCBTRepairItems(unit: CBTForceUnit): RepairItem[] {
+    const summary = unit.getUnit();
+    const registry = unit.getEquipmentRegistry();
+    const items: RepairItem[] = [];
+
+    const armor = resolveMtfArmorEquipment(summary.armorType ?? '', summary.techBase === 'Clan', registry);
+    const perArmorPoint = armor ? armorPointCost(armor) : null;
+    unit.locations?.armor.forEach(({ loc, rear }, locKey) => {
+        const missing = Math.min(unit.getArmorHits(loc, rear), unit.getArmorPoints(loc, rear));
+        if (missing <= 0) return;
+        items.push({
+            key: `armor:${locKey}`,
+            kind: 'armor',
+            label: 'Armor',
+            location: locationLabel(loc, rear),
+            amount: missing,
+            cost: perArmorPoint === null ? null : missing * perArmorPoint,
+            targets: [locKey],
+        });
+    });
+
+    const perStructurePoint = structurePointCost(unit);
+    unit.locations?.internal.forEach(({ points }, loc) => {
+        const lost = unit.getLocationCondition(loc, 'blown-off') || unit.getLocationCondition(loc, 'flooded');
+        const missing = lost ? points ?? 0 : Math.min(unit.getInternalHits(loc), points ?? 0);
+        if (missing <= 0 && !lost) return;
+        items.push({
+            key: `structure:${loc}`,
+            kind: 'structure',
+            label: lost ? 'Structure (location lost)' : 'Structure',
+            location: loc,
+            amount: missing,
+            cost: perStructurePoint === null ? null : missing * perStructurePoint,
+            targets: [loc],
+        });
+    });
+
+    // Destroyed equipment is replaced whole; a replaced ammo bin comes back full.
+    const covered = new Set<string>();
+    for (const entry of unit.getInventory()) {
+        if (!entry.equipment) continue;
+        const damagedSlots = (entry.critSlots ?? []).filter(isCritDamaged);
+        if (!entry.committedDestroyed() && damagedSlots.length === 0) continue;
+        entry.critSlots?.forEach(crit => covered.add(crit.id));
+        items.push({
+            key: `equipment:${entry.id}`,
+            kind: 'equipment',
+            label: entry.getDisplayName(),
+            location: [...entry.locations ?? []].join('/') || undefined,
+            amount: 1,
+            cost: equipmentReplacementCost(entry.equipment),
+            targets: [entry.id],
+        });
+    }
+
+    // Remaining hit slots belong to unit systems, grouped per system and location.
+    const systems = new Map<string, RepairItem>();
+    for (const crit of unit.getCritSlots()) {
+        if (covered.has(crit.id) || !isCritDamaged(crit)) continue;
+        const name = crit.eq?.name ?? crit.name ?? crit.id;
+        const key = `critical:${crit.loc ?? ''}:${name}`;
+        const existing = systems.get(key);
+        if (existing) {
+            existing.amount++;
+            existing.targets.push(crit.id);
+            continue;
+        }
+        systems.set(key, { key, kind: 'critical', label: name, location: crit.loc, amount: 1, cost: null, targets: [crit.id] });
+    }
+    items.push(...systems.values());
+
+    if (unit.hasDirectInventory()) {
+        for (const entry of unit.getInventory()) {
+            if (!entry.consumed || covered.has(entry.id) || entry.committedDestroyed()) continue;
+            const ammo = entry instanceof MountedAmmo
+                ? (entry.ammo ? registry.findEquipment(entry.ammo) : entry.equipment)
+                : null;
+            const perShot = ammo instanceof AmmoEquipment ? ammoShotCost(ammo) : null;
+            items.push({
+                key: `ammo:${entry.id}`,
+                kind: 'ammo',
+                label: ammo?.name ?? entry.getDisplayName(),
+                location: [...entry.locations ?? []].join('/') || undefined,
+                amount: entry.consumed,
+                cost: perShot === null ? null : entry.consumed * perShot,
+                targets: [entry.id],
+            });
+        }
+    } else {
+        for (const crit of unit.getCritSlots()) {
+            if (!crit.consumed || covered.has(crit.id) || isCritDamaged(crit)) continue;
+            const perShot = crit.eq instanceof AmmoEquipment ? ammoShotCost(crit.eq) : null;
+            items.push({
+                key: `ammo:${crit.id}`,
+                kind: 'ammo',
+                label: crit.eq?.name ?? crit.name ?? crit.id,
+                location: crit.loc,
+                amount: crit.consumed,
+                cost: perShot === null ? null : crit.consumed * perShot,
+                targets: [crit.id],
+            });
+        }
+    }
+
+    for (const crew of unit.getCrewMembers()) {
+        if (crew.getHits() <= 0 && crew.getState() === 'healthy') continue;
+        const state = crew.getState();
+        items.push({
+            key: `crew:${crew.getId()}`,
+            kind: 'crew',
+            label: `${crew.getName() || `Crew ${crew.getId() + 1}`} (${state === 'healthy' ? 'injured' : state})`,
+            amount: crew.getHits(),
+            cost: null,
+            targets: [String(crew.getId())],
+        });
+    }
+    return items;
+}
+
+function collectASRepairItems(unit: ASForceUnit): RepairItem[] {
+    const state = unit.getState();
+    const items: RepairItem[] = [];
+    const armor = state.armor() + state.pendingArmor();
+    if (armor > 0) {
+        items.push({ key: 'armor', kind: 'armor', label: 'Armor', amount: armor, cost: null, targets: ['armor'] });
+    }
+    const internal = state.internal() + state.pendingInternal();
+    if (internal > 0) {
+        items.push({ key: 'structure', kind: 'structure', label: 'Structure', amount: internal, cost: null, targets: ['structure'] });
+    }
+    const critCounts = new Map<string, number>();
+    for (const crit of state.crits()) {
+        critCounts.set(crit.key, (critCounts.get(crit.key) ?? 0) + 1);
+    }
+    for (const [key, count] of critCounts) {
+        items.push({ key: `critical:${key}`, kind: 'critical', label: `${key.toUpperCase()} critical`, amount: count, cost: null, targets: [key] });
+    }
+    const abilities = new Map<string, number>(Object.entries(state.consumedAbilities()).filter(([, used]) => used > 0));
+    for (const ability of state.exhaustedAbilities()) {
+        abilities.set(ability, Math.max(1, abilities.get(ability) ?? 0));
+    }
+    for (const [ability, used] of abilities) {
+        items.push({ key: `ammo:${ability}`, kind: 'ammo', label: ability, amount: used, cost: null, targets: [ability] });
+    }
+    return items;
+}
+
+/** Itemized repairs a unit needs; Classic units must be loaded first. */
+export function collectRepairItems(unit: ForceUnit): RepairItem[] {
+    if (unit instanceof CBTForceUnit) return collectCBTRepairItems(unit);
+    if (unit instanceof ASForceUnit) return collectASRepairItems(unit);
+    return [];
+}
+
+export function applyRepairItems(unit: ForceUnit, items: readonly RepairItem[]): void {
+    if (items.length === 0) return;
+    const order = buildRepairOrder(items);
+    if (unit instanceof CBTForceUnit || unit instanceof ASForceUnit) {
+        unit.applyRepairs(order);
+    }
+}
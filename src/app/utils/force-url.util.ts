@@ -94,8 +94,8 @@ export function buildForceQueryParams(force: Force | null): ForceQueryParams {
  * Builds URL query parameters representing ALL loaded forces.
  *
  * - Saved forces (with instanceId) are combined into a comma-separated `instance` param.
- *   Enemy forces are prefixed with `enemy:` (friendly is the default, no prefix).
- *   Example: `instance=UUID1,enemy:UUID2,UUID3`
+ *   Forces on other sides are prefixed with their side id (friendly is the default, no prefix).
+ *   Example: `instance=UUID1,enemy:UUID2,side-3:UUID3`
  * - At most one unsaved force (without instanceId) is serialized via `gs`, `units`, `name`.
  *   Unsaved forces are always friendly (our own force).
  */
@@ -112,7 +112,7 @@ export function buildMultiForceQueryParams(slots: ForceSlot[]): ForceQueryParams
         if (slot.persistInUrl === false) continue;
         const id = slot.force.instanceId();
         if (id) {
-            instanceEntries.push(slot.alignment === 'enemy' ? `enemy:${id}` : id);
+            instanceEntries.push(slot.alignment === 'friendly' ? id : `${slot.alignment}:${id}`);
         } else if (!unsavedForce) {
             // Only the first unsaved force is serialized (constraint: max one unsaved)
             unsavedForce = slot.force;
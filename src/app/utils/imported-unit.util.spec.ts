@@ -0,0 +1,59 @@
+// Copyright (C) 2026 The MegaMek Team
+// SPDX-License-Identifier: GPL-3.0-or-later
+// Author: Drake
+
+import { TestBipedMekEntity as BipedMekEntity } from '../models/entity/testing/test-entities';
+import type { UnitImportResult } from '../services/imported-units.service';
+import { createEmptyUnit } from '../testing/unit-test-helpers';
+import { buildImportedUnitSummary, describeUnitImportResults, isImportableUnitFile } from './imported-unit.util';
+
+describe('imported unit utilities', () => {
+    it('accepts only MegaMek unit files', () => {
+        expect(isImportableUnitFile('Atlas AS7-D.mtf')).toBeTrue();
+        expect(isImportableUnitFile('ELEMENTAL.BLK')).toBeTrue();
+        expect(isImportableUnitFile('force.mul')).toBeFalse();
+        expect(isImportableUnitFile('mtf')).toBeFalse();
+    });
+
+    it('builds a complete summary marked as imported', () => {
+        const entity = new BipedMekEntity();
+        entity.chassis.set('Homebrew');
+        entity.model.set('HB-1');
+
+        const unit = buildImportedUnitSummary(entity, 'Homebrew HB-1.mtf', () => 'meks/Homebrew.png');
+
+        expect(unit.name).toBe('BMHomebrew_HB1');
+        expect(unit.chassis).toBe('Homebrew');
+        expect(unit.model).toBe('HB-1');
+        expect(unit.uuid).toBe(entity.uuid());
+        expect(unit.unitFile).toBe('Homebrew HB-1.mtf');
+        expect(unit.icon).toBe('meks/Homebrew.png');
+        expect(unit.imported).toBeTrue();
+        expect(unit.sheets).toEqual([]);
+        expect(unit.rulesRefs).toEqual([]);
+        expect(unit.as.TP).toBe('BM');
+        expect(unit._nameTags).toEqual([]);
+    });
+
+    it('rejects entities without a chassis or model', () => {
+        expect(() => buildImportedUnitSummary(new BipedMekEntity(), 'empty.mtf')).toThrowError(/empty\.mtf/);
+    });
+
+    it('summarizes import batches', () => {
+        const imported: UnitImportResult = {
+            fileName: 'a.mtf',
+            unit: createEmptyUnit({ name: 'A', chassis: 'Alpha', model: 'A-1' }),
+            warnings: [],
+        };
+        const failed: UnitImportResult = { fileName: 'b.blk', error: 'Unsupported BLK UnitType', warnings: [] };
+
+        expect(describeUnitImportResults([imported])).toEqual({ message: 'Imported Alpha A-1.', type: 'success' });
+        expect(describeUnitImportResults([imported, failed])).toEqual({ message: 'Imported Alpha A-1, 1 file failed.', type: 'info' });
+        expect(describeUnitImportResults([{ ...imported, warnings: ['Tonnage: over by 1 t', 'Era Availability: not introduced'] }]))
+            .toEqual({ message: 'Imported Alpha A-1 with 2 warnings.', type: 'info' });
+        expect(describeUnitImportResults([failed])).toEqual({
+            message: 'Failed to import 1 unit file: Unsupported BLK UnitType',
+            type: 'error',
+        });
+    });
+});
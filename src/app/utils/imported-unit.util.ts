@@ -0,0 +1,85 @@
+// Copyright (C) 2026 The MegaMek Team
+// SPDX-License-Identifier: GPL-3.0-or-later
+// Author: Drake
+
+import type { BaseEntity } from '../models/entity/base-entity';
+import type { UnitSummary } from '../models/unit-summary.model';
+import type { UnitImportFile, UnitImportResult } from '../services/imported-units.service';
+import { UnitMetadataBuilder } from './unit-metadata-builder';
+import type { UnitIconResolver } from './unit-sprite-resolver';
+
+export const IMPORTABLE_UNIT_FILE_EXTENSIONS = ['.mtf', '.blk'] as const;
+
+export function isImportableUnitFile(fileName: string): boolean {
+    const lowerName = fileName.toLowerCase();
+    return IMPORTABLE_UNIT_FILE_EXTENSIONS.some(extension => lowerName.endsWith(extension));
+}
+
+export async function readUnitImportFiles(files: readonly File[]): Promise<UnitImportFile[]> {
+    return Promise.all(files
+        .filter(file => isImportableUnitFile(file.name))
+        .map(async file => ({ fileName: file.name, content: await file.text() })));
+}
+
+/** Summarizes an import batch as a single toast message. */
+export function describeUnitImportResults(results: readonly UnitImportResult[]): { message: string; type: 'success' | 'info' | 'error' } {
+    const imported = results.filter(result => result.unit);
+    const failed = results.filter(result => !result.unit);
+    if (imported.length === 0) {
+        const reason = failed.length === 1 ? `: ${failed[0].error}` : '.';
+        return { message: `Failed to import ${failed.length} unit file${failed.length === 1 ? '' : 's'}${reason}`, type: 'error' };
+    }
+
+    const names = imported.length === 1
+        ? `${imported[0].unit!.chassis} ${imported[0].unit!.model}`
+        : `${imported.length} units`;
+    if (failed.length > 0) {
+        return { message: `Imported ${names}, ${failed.length} file${failed.length === 1 ? '' : 's'} failed.`, type: 'info' };
+    }
+    const warnings = imported.reduce((count, result) => count + result.warnings.length, 0);
+    if (warnings > 0) {
+        return { message: `Imported ${names} with ${warnings} warning${warnings === 1 ? '' : 's'}.`, type: 'info' };
+    }
+    return { message: `Imported ${names}.`, type: 'success' };
+}
+
+/**
+ * Builds a complete `UnitSummary` for a unit parsed from a local file.
+ *
+ * The metadata builder covers everything derivable from the entity; the
+ * remaining fields are server-side exports (record sheets, rulebook coverage,
+ * damage per turn) that imported units do not have. Runtime `_` fields are
+ * left at their defaults and filled in by the regular catalog preprocessing.
+ */
+export function buildImportedUnitSummary(
+    entity: BaseEntity,
+    fileName: string,
+    resolveIcon?: UnitIconResolver,
+): UnitSummary {
+    if (!entity.chassis().trim() && !entity.model().trim()) {
+        throw new Error(`${fileName} does not define a chassis and model.`);
+    }
+
+    const metadata = new UnitMetadataBuilder(resolveIcon).build(entity, fileName);
+    return {
+        ...metadata,
+        uuid: entity.uuid(),
+        dpt: 0,
+        rulesRefs: [],
+        sheets: [],
+        imported: true,
+        _searchKey: '',
+        _displayType: '',
+        _techBaseDisplay: metadata.techBase ?? 'Inner Sphere',
+        _maxRange: 0,
+        _weightedMaxRange: 0,
+        _dissipationEfficiency: 0,
+        _mdSumNoPhysical: 0,
+        _mdSumNoPhysicalNoOneshots: 0,
+        _dmgShort: 0,
+        _dmgMedium: 0,
+        _dmgLong: 0,
+        _nameTags: [],
+        _chassisTags: [],
+    } as UnitSummary;
+}
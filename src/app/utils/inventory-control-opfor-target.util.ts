@@ -22,6 +22,10 @@ export function isOpforInventoryTargetId(targetId: string): boolean {
     return targetId.startsWith(OPFOR_INVENTORY_TARGET_ID_PREFIX);
 }
 
+export function getOpforInventoryTargetUnitId(targetId: string): string | null {
+    return isOpforInventoryTargetId(targetId) ? targetId.slice(OPFOR_INVENTORY_TARGET_ID_PREFIX.length) : null;
+}
+
 export function resolveInventoryTargetUnitType(unit: UnitSummary): TnTargetUnitType {
     switch (unit.type) {
         case 'Mek':
@@ -0,0 +1,94 @@
+// Copyright (C) 2026 The MegaMek Team
+// SPDX-License-Identifier: GPL-3.0-or-later
+// Author: Drake
+
+import type { CBTForceUnit } from '../models/cbt-force-unit.model';
+import { applyLobbyDamage, getDamageableLocations, parseLobbyAttackProposal } from './lobby-attack.util';
+
+function damageUnit(structureType: string | null = null) {
+    const internal = new Map([['HD', 3], ['CT', 10], ['LT', 8], ['RT', 8], ['LA', 5], ['RA', 5], ['LL', 6], ['RL', 6]]);
+    const armor = new Map([...internal.keys()].map(location => [location, 4]));
+    armor.set('CT-rear', 2);
+    armor.set('LT-rear', 2);
+    const armorHits = new Map<string, number>();
+    const internalHits = new Map<string, number>();
+    const key = (location: string, rear?: boolean) => rear ? `${location}-rear` : location;
+    const unit = {
+        locations: { armor, internal },
+        getUnit: () => ({ type: 'Mek', structureType }),
+        getArmorPoints: (location: string, rear?: boolean) => armor.get(key(location, rear)) ?? 0,
+        getArmorHits: (location: string, rear?: boolean) => armorHits.get(key(location, rear)) ?? 0,
+        getInternalPoints: (location: string) => internal.get(location) ?? 0,
+        getInternalHits: (location: string) => internalHits.get(location) ?? 0,
+        addArmorHits: (location: string, hits: number, rear?: boolean) => {
+            armorHits.set(key(location, rear), (armorHits.get(key(location, rear)) ?? 0) + hits);
+        },
+        addInternalHits: (location: string, hits: number) => {
+            internalHits.set(location, (internalHits.get(location) ?? 0) + hits);
+        },
+    } as unknown as CBTForceUnit;
+    return { unit, armorHits, internalHits };
+}
+
+describe('lobby attack utilities', () => {
+    it('applies armor before structure and transfers leftover damage inward', () => {
+        const { unit, armorHits, internalHits } = damageUnit();
+
+        const applied = applyLobbyDamage(unit, { location: 'LA', rear: false, damage: 12 }, true);
+
+        expect(applied).toEqual([
+            { location: 'LA', armorRear: false, armorDamage: 4, internalDamage: 5 },
+            { location: 'LT', armorRear: false, armorDamage: 3, internalDamage: 0 },
+        ]);
+        expect(armorHits.get('LT')).toBe(3);
+        expect(internalHits.get('LA')).toBe(5);
+    });
+
+    it('marks two composite structure pips per point of damage before transferring', () => {
+        const { unit, internalHits, armorHits } = damageUnit('Composite');
+
+        applyLobbyDamage(unit, { location: 'LA', rear: false, damage: 8 }, true);
+
+        expect(armorHits.get('LA')).toBe(4);
+        expect(internalHits.get('LA')).toBe(5);
+        expect(armorHits.get('LT')).toBe(1);
+    });
+
+    it('keeps transferred rear hits on the rear armor', () => {
+        const { unit, armorHits, internalHits } = damageUnit();
+
+        applyLobbyDamage(unit, { location: 'LT', rear: true, damage: 12 }, true);
+
+        expect(armorHits.get('LT-rear')).toBe(2);
+        expect(internalHits.get('LT')).toBe(8);
+        expect(armorHits.get('CT-rear')).toBe(2);
+        expect(armorHits.get('CT')).toBeUndefined();
+    });
+
+    it('hits rear armor only where the location has it', () => {
+        const { unit, armorHits } = damageUnit();
+
+        applyLobbyDamage(unit, { location: 'CT', rear: true, damage: 1 }, true);
+        applyLobbyDamage(unit, { location: 'LA', rear: true, damage: 1 }, true);
+
+        expect(armorHits.get('CT-rear')).toBe(1);
+        expect(armorHits.get('LA')).toBe(1);
+        expect(getDamageableLocations(unit).filter(option => option.hasRear).map(option => option.location)).toEqual(['CT', 'LT']);
+    });
+
+    it('rejects malformed proposals', () => {
+        const proposal = {
+            proposalId: 'p1',
+            fromPublicId: 'player-1',
+            forceInstanceId: 'force-1',
+            unitId: 'unit-1',
+            attacker: 'Atlas AS7-D',
+            weapon: 'AC/20',
+            hits: [{ location: 'CT', rear: false, damage: 20, criticalRoll: [4, 5] }],
+        };
+        expect(parseLobbyAttackProposal(proposal)).toEqual(proposal);
+        expect(parseLobbyAttackProposal({ ...proposal, hits: [] })).toBeNull();
+        expect(parseLobbyAttackProposal({ ...proposal, hits: [{ location: 'CT', rear: false, damage: 0 }] })).toBeNull();
+        expect(parseLobbyAttackProposal({ ...proposal, hits: [{ location: 'CT', rear: false, damage: 5, criticalRoll: [7, 1] }] })).toBeNull();
+    });
+});
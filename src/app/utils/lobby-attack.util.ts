@@ -0,0 +1,74 @@
+// Copyright (C) 2026 The MegaMek Team
+// SPDX-License-Identifier: GPL-3.0-or-later
+// Author: Drake
+
+import type { CBTForceUnit } from '../models/cbt-force-unit.model';
+import type { LobbyAttackProposal, LobbyDamageHit } from '../models/lobby-attack.model';
+import { applyMekWeaponDamage, type MekLocationDamage } from './mek-critical-hit.util';
+
+const MAX_ATTACK_HITS = 40;
+const MAX_HIT_DAMAGE = 200;
+const MAX_LABEL_LENGTH = 120;
+
+function isLabel(value: unknown): value is string {
+    return typeof value === 'string' && value.length > 0 && value.length <= MAX_LABEL_LENGTH;
+}
+
+function parseHit(value: any): LobbyDamageHit | null {
+    if (!value || !isLabel(value.location) || typeof value.rear !== 'boolean'
+        || !Number.isInteger(value.damage) || value.damage < 1 || value.damage > MAX_HIT_DAMAGE) {
+        return null;
+    }
+    const criticalRoll = value.criticalRoll;
+    if (criticalRoll !== undefined && (!Array.isArray(criticalRoll) || criticalRoll.length !== 2
+        || !criticalRoll.every((die: unknown) => Number.isInteger(die) && (die as number) >= 1 && (die as number) <= 6))) {
+        return null;
+    }
+    return {
+        location: value.location,
+        rear: value.rear,
+        damage: value.damage,
+        ...(criticalRoll ? { criticalRoll: [...criticalRoll] } : {}),
+    };
+}
+
+/** Validates a proposal received from the server; null when it is malformed. */
+export function parseLobbyAttackProposal(value: any): LobbyAttackProposal | null {
+    if (!value || !isLabel(value.proposalId) || !isLabel(value.fromPublicId)
+        || !isLabel(value.forceInstanceId) || !isLabel(value.unitId)
+        || !isLabel(value.attacker) || typeof value.weapon !== 'string' || value.weapon.length > MAX_LABEL_LENGTH
+        || !Array.isArray(value.hits) || value.hits.length === 0 || value.hits.length > MAX_ATTACK_HITS) {
+        return null;
+    }
+    const hits = value.hits.map(parseHit);
+    if (hits.some((hit: LobbyDamageHit | null) => hit === null)) return null;
+    return {
+        proposalId: value.proposalId,
+        fromPublicId: value.fromPublicId,
+        forceInstanceId: value.forceInstanceId,
+        unitId: value.unitId,
+        attacker: value.attacker,
+        weapon: value.weapon,
+        hits,
+    };
+}
+
+/** Locations that can take damage, with whether each has rear armor. */
+export function getDamageableLocations(unit: CBTForceUnit): { location: string; hasRear: boolean }[] {
+    const armor = unit.locations?.armor;
+    const internal = unit.locations?.internal;
+    const keys = new Set([...(internal?.keys() ?? []), ...[...(armor?.keys() ?? [])].filter(key => !key.endsWith('-rear'))]);
+    return [...keys].map(location => ({ location, hasRear: armor?.has(`${location}-rear`) ?? false }));
+}
+
+/**
+ * Applies an accepted hit through the record sheet damage rules. Only Mek
+ * locations have a transfer path; on other units the damage stays where it hit.
+ */
+export function applyLobbyDamage(
+    unit: CBTForceUnit,
+    hit: Pick<LobbyDamageHit, 'location' | 'rear' | 'damage'>,
+    consolidateImmediately: boolean,
+): MekLocationDamage[] {
+    return applyMekWeaponDamage(unit, hit.location, hit.rear, hit.damage, consolidateImmediately);
+}
@@ -0,0 +1,46 @@
+// Copyright (C) 2026 The MegaMek Team
+// SPDX-License-Identifier: GPL-3.0-or-later
+// Author: Drake
+
+import type { LobbyMessage } from '../models/lobby-message.model';
+import { hashLobbyMessage, parseLobbyMessage, verifyLobbyLog } from './lobby-log.util';
+
+async function chain(count: number): Promise<LobbyMessage[]> {
+    const messages: LobbyMessage[] = [];
+    for (let seq = 1; seq <= count; seq++) {
+        const message = {
+            seq,
+            publicId: 'player-1',
+            displayName: 'Alice',
+            sentAt: `2026-01-01T00:00:0${seq}Z`,
+            previousHash: messages.at(-1)?.hash ?? '',
+            kind: 'roll' as const,
+            roll: { label: 'Cluster Hits', dice: '2d6', faces: [3, seq], modifier: 0, total: 3 + seq, result: `${seq} hits` },
+        };
+        messages.push({ ...message, hash: await hashLobbyMessage(message) });
+    }
+    return messages;
+}
+
+describe('lobby log utilities', () => {
+    it('verifies an intact chain and flags edited or unlinked messages', async () => {
+        const messages = await chain(3);
+        expect((await verifyLobbyLog(messages)).map(entry => entry.verified)).toEqual([true, true, true]);
+
+        const edited = messages.map(message => message.seq === 2 && message.kind === 'roll'
+            ? { ...message, roll: { ...message.roll, total: 12 } }
+            : message);
+        expect((await verifyLobbyLog(edited)).map(entry => entry.verified)).toEqual([true, false, true]);
+
+        const relinked = messages.map(message => message.seq === 3 ? { ...message, previousHash: messages[0].hash } : message);
+        expect((await verifyLobbyLog(relinked)).map(entry => entry.verified)).toEqual([true, true, false]);
+    });
+
+    it('rejects malformed messages', async () => {
+        const [message] = await chain(1);
+        expect(parseLobbyMessage(message)).toEqual(message);
+        expect(parseLobbyMessage({ ...message, hash: 'abc' })).toBeNull();
+        expect(parseLobbyMessage({ ...message, roll: { ...message.kind === 'roll' && message.roll, faces: ['6'] } })).toBeNull();
+        expect(parseLobbyMessage({ ...message, kind: 'chat', text: '' })).toBeNull();
+    });
+});
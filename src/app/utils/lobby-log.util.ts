@@ -0,0 +1,108 @@
+// Copyright (C) 2026 The MegaMek Team
+// SPDX-License-Identifier: GPL-3.0-or-later
+// Author: Drake
+
+import type { LobbyChatMessage, LobbyLogEntry, LobbyMessage, LobbyRollMessage } from '../models/lobby-message.model';
+import type { RollEvent } from '../services/roll-log.service';
+import { normalizeDisplayName } from './display-name.util';
+
+export const MAX_LOBBY_CHAT_LENGTH = 500;
+const MAX_ROLL_TEXT_LENGTH = 160;
+const MAX_ROLL_FACES = 100;
+const HASH_PATTERN = /^[0-9a-f]{64}$/;
+
+type UnhashedFields = 'hash' | 'displayName';
+type LobbyMessageHashInput = Omit<LobbyChatMessage, UnhashedFields> | Omit<LobbyRollMessage, UnhashedFields>;
+
+function isShortText(value: unknown, maxLength: number): value is string {
+    return typeof value === 'string' && value.length > 0 && value.length <= maxLength;
+}
+
+function parseRollEvent(value: any): RollEvent | null {
+    if (!value || !isShortText(value.label, MAX_ROLL_TEXT_LENGTH) || !isShortText(value.dice, 16)
+        || !Array.isArray(value.faces) || value.faces.length > MAX_ROLL_FACES
+        || !value.faces.every((face: unknown) => Number.isInteger(face))
+        || !Number.isInteger(value.modifier) || !Number.isInteger(value.total)
+        || typeof value.result !== 'string' || value.result.length > MAX_ROLL_TEXT_LENGTH
+        || (value.unit !== undefined && !isShortText(value.unit, MAX_ROLL_TEXT_LENGTH))) {
+        return null;
+    }
+    return {
+        label: value.label,
+        dice: value.dice,
+        faces: [...value.faces],
+        modifier: value.modifier,
+        total: value.total,
+        result: value.result,
+        ...(value.unit !== undefined ? { unit: value.unit } : {}),
+    };
+}
+
+/** Validates a message received from the server; null when it is malformed. */
+export function parseLobbyMessage(value: any): LobbyMessage | null {
+    if (!value || !Number.isInteger(value.seq) || value.seq < 1
+        || !isShortText(value.publicId, 128) || !isShortText(value.sentAt, 64)
+        || (value.previousHash !== '' && !HASH_PATTERN.test(value.previousHash))
+        || typeof value.hash !== 'string' || !HASH_PATTERN.test(value.hash)) {
+        return null;
+    }
+    const base = {
+        seq: value.seq,
+        publicId: value.publicId,
+        displayName: normalizeDisplayName(value.displayName) ?? `Player ${value.publicId.slice(0, 8)}`,
+        sentAt: value.sentAt,
+        previousHash: value.previousHash,
+        hash: value.hash,
+    };
+    if (value.kind === 'chat' && isShortText(value.text, MAX_LOBBY_CHAT_LENGTH)) {
+        return { ...base, kind: 'chat', text: value.text };
+    }
+    if (value.kind === 'roll') {
+        const roll = parseRollEvent(value.roll);
+        return roll ? { ...base, kind: 'roll', roll } : null;
+    }
+    return null;
+}
+
+/** JSON with object keys sorted, so equal content always hashes the same. */
+function canonicalJson(value: unknown): string {
+    if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+    if (value && typeof value === 'object') {
+        return `{${Object.keys(value).sort()
+            .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+            .map(key => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`)
+            .join(',')}}`;
+    }
+    return JSON.stringify(value);
+}
+
+/**
+ * SHA-256 over the previous hash and the message content. Display names are
+ * left out: they can change during a game, the public ID cannot.
+ */
+export async function hashLobbyMessage(message: LobbyMessageHashInput): Promise<string> {
+    const { seq, publicId, sentAt, previousHash, kind } = message;
+    const content = message.kind === 'chat' ? { text: message.text } : { roll: message.roll };
+    const digest = await crypto.subtle.digest(
+        'SHA-256',
+        new TextEncoder().encode(`${previousHash}\n${canonicalJson({ seq, publicId, sentAt, kind, ...content })}`),
+    );
+    return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Checks every message against its own hash and against the message before
+ * it. The first message of a partial history can only be checked on its own.
+ */
+export async function verifyLobbyLog(messages: readonly LobbyMessage[]): Promise<LobbyLogEntry[]> {
+    const sorted = [...messages].sort((a, b) => a.seq - b.seq);
+    const entries: LobbyLogEntry[] = [];
+    for (const [index, message] of sorted.entries()) {
+        const previous = sorted[index - 1];
+        const linked = message.seq === 1
+            ? message.previousHash === ''
+            : previous?.seq !== message.seq - 1 || previous.hash === message.previousHash;
+        entries.push({ ...message, verified: linked && await hashLobbyMessage(message) === message.hash });
+    }
+    return entries;
+}
@@ -0,0 +1,46 @@
+// Copyright (C) 2026 The MegaMek Team
+// SPDX-License-Identifier: GPL-3.0-or-later
+// Author: Drake
+
+import {
+    TestBattleArmorEntity as BattleArmorEntity,
+    TestBipedMekEntity as BipedMekEntity,
+} from '../models/entity/testing/test-entities';
+import type { BaseEntity } from '../models/entity/base-entity';
+import { MountedEngine } from '../models/entity/components/engine';
+import { createEmptyUnit } from '../testing/unit-test-helpers';
+import { collectCustomUnitFiles, MEGAMEK_CUSTOM_UNIT_DIRECTORY, writeMegaMekUnitFile } from './megamek-bundle.util';
+
+function named<T extends BaseEntity>(entity: T, chassis: string, model: string): T {
+    entity.chassis.set(chassis);
+    entity.model.set(model);
+    return entity;
+}
+
+function createMek(): BipedMekEntity {
+    const mek = named(new BipedMekEntity(), 'Homebrew', 'HB-1');
+    mek.configureEngine(new MountedEngine({ type: 'Fusion', rating: 200, techBase: 'IS', isSuperHeavy: false }));
+    return mek;
+}
+
+describe('MegaMek bundle utilities', () => {
+    it('writes Meks as MTF and other units as BLK into the custom unit folder', () => {
+        const mek = writeMegaMekUnitFile(createMek());
+        expect(mek.path).toBe(`${MEGAMEK_CUSTOM_UNIT_DIRECTORY}/Homebrew HB-1.mtf`);
+        expect(mek.content).toContain('chassis:Homebrew');
+
+        const armor = writeMegaMekUnitFile(named(new BattleArmorEntity(), 'Trooper', 'T-1'));
+        expect(armor.path).toBe(`${MEGAMEK_CUSTOM_UNIT_DIRECTORY}/Trooper T-1.blk`);
+        expect(armor.content).toContain('<Trooper Count>');
+    });
+
+    it('collects each custom unit once and skips canonical units', () => {
+        const custom = createEmptyUnit({ name: 'Custom', imported: true });
+        const canonical = createEmptyUnit({ name: 'Canonical' });
+        const entity = createMek();
+
+        const files = collectCustomUnitFiles([custom, canonical, custom], unit => unit.imported ? entity : undefined);
+
+        expect(files.map(file => file.path)).toEqual([`${MEGAMEK_CUSTOM_UNIT_DIRECTORY}/Homebrew HB-1.mtf`]);
+    });
+});
@@ -0,0 +1,98 @@
+// Copyright (C) 2026 The MegaMek Team
+// SPDX-License-Identifier: GPL-3.0-or-later
+// Author: Drake
+
+import type { BaseEntity } from '../models/entity/base-entity';
+import { writeEntity } from '../models/entity/write-entity';
+import { isMekEntity } from '../models/entity/utils/entity-type-guards';
+import { GameSystem } from '../models/common.model';
+import type { CBTForce } from '../models/cbt-force.model';
+import type { Force } from '../models/force.model';
+import type { UnitSummary } from '../models/unit-summary.model';
+import { downloadBlob, sanitizeMulFilename, serializeForceToMul } from './mul-file.util';
+import { getUnitFileName } from './unit-construction.util';
+
+/*
+ * MegaMek bundles: a zip laid out like a MegaMek install, so it can be
+ * extracted straight into the game directory. Canonical units already ship
+ * with MegaMek; only units the user imported into MekBay are written out, to
+ * the user-data unit folder MegaMek scans on startup. Classic forces also
+ * carry their `.mul` at the top level.
+ */
+
+/** Folder MegaMek loads custom unit files from, relative to its install directory. */
+export const MEGAMEK_CUSTOM_UNIT_DIRECTORY = 'userdata/data/mekfiles/MekBay';
+
+export interface MegaMekBundleFile {
+    path: string;
+    content: string;
+}
+
+/** Resolves a custom unit to its entity; undefined for canonical units. */
+export type CustomUnitEntityResolver = (unit: UnitSummary) => BaseEntity | undefined;
+
+export interface MegaMekBundleResult {
+    fileName: string;
+    unitFiles: number;
+    includesMul: boolean;
+}
+
+/** Writes an entity in its native MegaMek format: MTF for Meks, BLK for everything else. */
+export function writeMegaMekUnitFile(entity: BaseEntity): MegaMekBundleFile {
+    return {
+        path: `${MEGAMEK_CUSTOM_UNIT_DIRECTORY}/${getUnitFileName(entity)}`,
+        content: writeEntity(entity, isMekEntity(entity) ? 'mtf' : 'blk'),
+    };
+}
+
+/** Unit files for every custom unit in the list, once per unit. */
+export function collectCustomUnitFiles(
+    units: readonly UnitSummary[],
+    resolveEntity: CustomUnitEntityResolver,
+): MegaMekBundleFile[] {
+    const files = new Map<string, MegaMekBundleFile>();
+    for (const unit of units) {
+        if (files.has(unit.name)) continue;
+        const entity = resolveEntity(unit);
+        if (entity) files.set(unit.name, writeMegaMekUnitFile(entity));
+    }
+    return [...files.values()];
+}
+
+export async function buildMegaMekBundle(files: readonly MegaMekBundleFile[]): Promise<Blob> {
+    const { default: JSZip } = await import('jszip');
+    const zip = new JSZip();
+    for (const file of files) {
+        zip.file(file.path, file.content);
+    }
+    return zip.generateAsync({ type: 'blob', compression: 'DEFLATE' });
+}
+
+/** Downloads a force as a MegaMek bundle: its `.mul` (Classic only) and its custom unit files. */
+export async function exportForceToMegaMekBundle(
+    force: Force,
+    resolveEntity: CustomUnitEntityResolver,
+): Promise<MegaMekBundleResult> {
+    const baseName = sanitizeMulFilename(force.name);
+    const files = collectCustomUnitFiles(force.units().map(unit => unit.getUnit()), resolveEntity);
+    const unitFiles = files.length;
+    const includesMul = force.gameSystem === GameSystem.CLASSIC;
+    if (includesMul) {
+        files.unshift({ path: `${baseName}.mul`, content: await serializeForceToMul(force as CBTForce) });
+    }
+    if (files.length === 0) {
+        throw new Error('The force has no custom units to export.');
+    }
+
+    const fileName = `${baseName}.zip`;
+    downloadBlob(fileName, await buildMegaMekBundle(files));
+    return { fileName, unitFiles, includesMul };
+}
+
+/** Downloads a single custom unit as a MegaMek bundle. */
+export async function exportUnitToMegaMekBundle(entity: BaseEntity): Promise<MegaMekBundleResult> {
+    const file = writeMegaMekUnitFile(entity);
+    const fileName = `${sanitizeMulFilename(`${entity.chassis()} ${entity.model()}`)}.zip`;
+    downloadBlob(fileName, await buildMegaMekBundle([file]));
+    return { fileName, unitFiles: 1, includesMul: false };
+}
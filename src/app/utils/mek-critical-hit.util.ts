@@ -7,7 +7,11 @@ import { AmmoEquipment } from '../models/equipment.model';
 import type { EquipmentFlag } from '../models/equipment-flags.type';
 import type { CriticalSlot } from '../models/force-serialization';
 import { MountedWeapon, type MountedEquipment } from '../models/mounted-equipment.model';
-import type { MekExplosionProtection, MekImmediateCriticalExplosion } from '../models/rules/game-rules';
+import type {
+    MekExplosionDamageResolution,
+    MekExplosionProtection,
+    MekImmediateCriticalExplosion,
+} from '../models/rules/game-rules';
 import { getTopologyFor, LEG_LOCATIONS, MEK_TORSO_LOCATIONS } from '../models/entity/types';
 import type { CriticalDelayedExplosion } from '../services/equipment-interaction-registry.service';
 import { resolveInventoryControlWeaponDamage } from './inventory-control-damage.util';
@@ -39,11 +43,14 @@ export type MekBlowOffResult =
     | { readonly kind: 'absorbed'; readonly equipment: 'Shoulder' | 'Hip' }
     | { readonly kind: 'blown-off' };
 
-export interface MekExplosionLocationDamage {
+export interface MekLocationDamage {
     readonly location: string;
     readonly internalDamage: number;
     readonly armorDamage: number;
     readonly armorRear: boolean;
+}
+
+export interface MekExplosionLocationDamage extends MekLocationDamage {
     readonly protection: MekExplosionProtection;
 }
 
@@ -609,56 +616,55 @@ function ammoExplosionDamagePerShot(ammo: AmmoEquipment): number {
     );
 }
 
+/**
+ * Applies weapon damage the way the record sheet takes it: armor first (rear
+ * armor for rear hits where the location has it), then internal structure,
+ * with whatever a destroyed location can't absorb transferring inward.
+ */
+export function applyMekWeaponDamage(
+    unit: CBTForceUnit,
+    location: string,
+    rear: boolean,
+    damage: number,
+    consolidateImmediately: boolean,
+): MekLocationDamage[] {
+    return applyMekLocationDamage(unit, location, damage, consolidateImmediately, (current, remaining) => {
+        const armorRear = rear && unit.getArmorPoints(current, true) > 0;
+        const remainingArmor = Math.max(0, unit.getArmorPoints(current, armorRear) - unit.getArmorHits(current, armorRear));
+        const armorDamage = Math.min(remaining, remainingArmor);
+        return { armorDamage, internalDamage: remaining - armorDamage, armorRear, stopsTransfer: false };
+    });
+}
+
 function applyMekEquipmentExplosion(
     unit: CBTForceUnit,
     sourceLocation: string,
     plan: MekImmediateCriticalExplosion,
     consolidateImmediately: boolean,
 ): MekEquipmentExplosionResult {
-    const topology = getTopologyFor(unit.locations?.internal.keys() ?? []);
-    // Explosion rules resolve damage points; composite structure marks two pips per point.
-    const internalDamageMultiplier = isCompositeStructure(unit) ? 2 : 1;
-    const locations: MekExplosionLocationDamage[] = [];
-    const visited = new Set<string>();
-    let location: string | null = sourceLocation;
-    let damage = plan.rawDamage;
+    const protections = new Map<string, MekExplosionProtection>();
     let armorBlowoutPending = false;
-
-    while (location && damage > 0 && !visited.has(location)) {
-        visited.add(location);
+    const locations = applyMekLocationDamage(unit, sourceLocation, plan.rawDamage, consolidateImmediately, (
+        location,
+        damage,
+        remainingInternal,
+    ) => {
         const protection = getMekExplosionProtection(unit, location);
+        protections.set(location, protection);
         if (unit.gameRules.id === 'core2026' && protection === 'none' && damage > 20) {
             armorBlowoutPending = true;
         }
-        const remainingInternal = Math.max(0, unit.getInternalPoints(location) - unit.getInternalHits(location));
-        const remainingInternalCapacity = remainingInternal / internalDamageMultiplier;
         const torso = MEK_TORSO_LOCATIONS.has(location);
-        const remainingArmor = Math.max(0, unit.getArmorPoints(location, torso) - unit.getArmorHits(location, torso));
-        const resolution = unit.gameRules.resolveMekExplosionDamage({
+        return unit.gameRules.resolveMekExplosionDamage({
             damage,
             protection,
-            remainingInternal: remainingInternalCapacity,
-            remainingArmor,
+            remainingInternal,
+            remainingArmor: Math.max(0, unit.getArmorPoints(location, torso) - unit.getArmorHits(location, torso)),
             originalArmor: unit.getArmorPoints(location, torso),
             torso,
             armorBlowoutPending,
         });
-        const armorDamage = Math.min(remainingArmor, resolution.armorDamage);
-        const internalDamage = Math.min(
-            remainingInternal,
-            resolution.internalDamage * internalDamageMultiplier,
-        );
-
-        if (armorDamage > 0) unit.addArmorHits(location, armorDamage, resolution.armorRear, consolidateImmediately);
-        if (internalDamage > 0) unit.addInternalHits(location, internalDamage, consolidateImmediately);
-        locations.push({ location, internalDamage, armorDamage, armorRear: resolution.armorRear, protection });
-
-        const appliedInternalDamage = internalDamage / internalDamageMultiplier;
-        const overflow = Math.max(0, resolution.internalDamage - appliedInternalDamage);
-        if (overflow === 0 || resolution.stopsTransfer) break;
-        location = topology[location as keyof typeof topology]?.transfersTo ?? null;
-        damage = overflow;
-    }
+    }).map(applied => ({ ...applied, protection: protections.get(applied.location) ?? 'none' }));
 
     const pilot = unit.getCrewMember?.(0);
     if (pilot && plan.pilotHits > 0) {
@@ -677,6 +683,54 @@ function applyMekEquipmentExplosion(
     };
 }
 
+/**
+ * Walks damage inward along the Mek's topology. `resolve` splits the damage
+ * reaching each location between armor and internal structure, in damage
+ * points; whatever internal damage the location can't take transfers on.
+ */
+function applyMekLocationDamage(
+    unit: CBTForceUnit,
+    sourceLocation: string,
+    sourceDamage: number,
+    consolidateImmediately: boolean,
+    resolve: (location: string, damage: number, remainingInternal: number) => MekExplosionDamageResolution,
+): MekLocationDamage[] {
+    const topology = getTopologyFor(unit.locations?.internal.keys() ?? []);
+    // Damage rules resolve damage points; composite structure marks two pips per point.
+    const internalDamageMultiplier = isCompositeStructure(unit) ? 2 : 1;
+    const locations: MekLocationDamage[] = [];
+    const visited = new Set<string>();
+    let location: string | null = sourceLocation;
+    let damage = sourceDamage;
+
+    while (location && damage > 0 && !visited.has(location)) {
+        visited.add(location);
+        const remainingInternal = Math.max(0, unit.getInternalPoints(location) - unit.getInternalHits(location));
+        const resolution = resolve(location, damage, remainingInternal / internalDamageMultiplier);
+        const remainingArmor = Math.max(
+            0,
+            unit.getArmorPoints(location, resolution.armorRear) - unit.getArmorHits(location, resolution.armorRear),
+        );
+        const armorDamage = Math.min(remainingArmor, resolution.armorDamage);
+        const internalDamage = Math.min(
+            remainingInternal,
+            resolution.internalDamage * internalDamageMultiplier,
+        );
+
+        if (armorDamage > 0) unit.addArmorHits(location, armorDamage, resolution.armorRear, consolidateImmediately);
+        if (internalDamage > 0) unit.addInternalHits(location, internalDamage, consolidateImmediately);
+        locations.push({ location, internalDamage, armorDamage, armorRear: resolution.armorRear });
+
+        // A last composite pip still takes a whole point of damage.
+        const appliedInternalDamage = Math.ceil(internalDamage / internalDamageMultiplier);
+        const overflow = Math.max(0, resolution.internalDamage - appliedInternalDamage);
+        if (overflow === 0 || resolution.stopsTransfer) break;
+        location = topology[location as keyof typeof topology]?.transfersTo ?? null;
+        damage = overflow;
+    }
+    return locations;
+}
+
 function applyAutomaticMekCritical(
     unit: CBTForceUnit,
     entry: MountedEquipment,
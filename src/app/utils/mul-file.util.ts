@@ -128,8 +128,11 @@ export function sanitizeMulFilename(name: string | null | undefined): string {
         .slice(0, 80) || 'mekbay-force';
 }
 
-function downloadTextFile(filename: string, content: string, mimeType = 'application/xml'): void {
-    const blob = new Blob([content], { type: `${mimeType};charset=utf-8` });
+export function downloadTextFile(filename: string, content: string, mimeType = 'application/xml'): void {
+    downloadBlob(filename, new Blob([content], { type: `${mimeType};charset=utf-8` }));
+}
+
+export function downloadBlob(filename: string, blob: Blob): void {
     const url = URL.createObjectURL(blob);
     const anchor = document.createElement('a');
     anchor.href = url;
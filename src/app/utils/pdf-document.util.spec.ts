@@ -0,0 +1,48 @@
+// Copyright (C) 2026 The MegaMek Team
+// SPDX-License-Identifier: GPL-3.0-or-later
+// Author: Drake
+
+import { buildPdf, findPageBreaks, fitOnPage, PDF_LETTER_PORTRAIT, type PdfImage } from './pdf-document.util';
+
+function text(bytes: Uint8Array): string {
+    return Array.from(bytes, byte => String.fromCharCode(byte)).join('');
+}
+
+describe('pdf document util', () => {
+    it('writes pages with their images and a valid cross-reference table', () => {
+        const image: PdfImage = { data: new Uint8Array([0xff, 0xd8, 0xff, 0xd9]), width: 2, height: 3 };
+        const pdf = text(buildPdf([
+            { ...PDF_LETTER_PORTRAIT, images: [{ image, x: 10, y: 20, width: 100, height: 150 }] },
+            { ...PDF_LETTER_PORTRAIT, images: [{ image, x: 0, y: 0, width: 612, height: 792 }] },
+        ], { title: 'Alpha (Lance)' }));
+
+        expect(pdf.startsWith('%PDF-1.4\n')).toBeTrue();
+        expect(pdf).toContain('/Type /Pages /Kids [');
+        expect(pdf).toContain('/Count 2');
+        expect(pdf.match(/\/Subtype \/Image/g)?.length).toBe(1);
+        expect(pdf).toContain('q 100 0 0 150 10 622 cm /Im1 Do Q');
+        expect(pdf).toContain('/Title (Alpha \\(Lance\\))');
+
+        const startxref = Number(/startxref\n(\d+)/.exec(pdf)![1]);
+        expect(pdf.slice(startxref, startxref + 4)).toBe('xref');
+        const offsets = pdf.slice(startxref).split('\n').filter(line => / 00000 n $/.test(line)).map(line => Number(line.slice(0, 10)));
+        offsets.forEach((offset, index) => {
+            expect(pdf.slice(offset).startsWith(`${index + 1} 0 obj`)).toBeTrue();
+        });
+    });
+
+    it('fits content inside the margins without enlarging it', () => {
+        const scale = 576 / 612;
+        expect(fitOnPage(PDF_LETTER_PORTRAIT, 18, { width: 612, height: 792 }))
+            .toEqual({ x: 18, y: (792 - 792 * scale) / 2, width: 576, height: 792 * scale });
+        expect(fitOnPage(PDF_LETTER_PORTRAIT, 0, { width: 100, height: 50 })).toEqual({ x: 256, y: 371, width: 100, height: 50 });
+    });
+
+    it('breaks long content between blocks and before forced breaks', () => {
+        const rows = [0, 40, 80, 120, 160, 200, 240].map(top => ({ top, bottom: top + 40 }));
+        expect(findPageBreaks(280, 100, rows)).toEqual([0, 80, 160, 240]);
+        expect(findPageBreaks(280, 100, rows, [120])).toEqual([0, 80, 120, 200]);
+        expect(findPageBreaks(90, 100, [])).toEqual([0]);
+        expect(findPageBreaks(250, 100, [{ top: 10, bottom: 240 }])).toEqual([0, 100, 200]);
+    });
+});
@@ -0,0 +1,225 @@
+// Copyright (C) 2026 The MegaMek Team
+// SPDX-License-Identifier: GPL-3.0-or-later
+// Author: Drake
+
+/*
+ * Description: Minimal PDF writer for print exports: pages of JPEG images
+ *              placed in points from the top-left corner, plus the helpers
+ *              that fit rendered content onto pages and find where long
+ *              content breaks between them.
+ */
+
+/** Points per CSS inch. */
+export const PDF_POINTS_PER_INCH = 72;
+/** CSS pixels per point. */
+export const PDF_PX_PER_POINT = 96 / PDF_POINTS_PER_INCH;
+export const PDF_LETTER_PORTRAIT = { width: 612, height: 792 } as const;
+export const PDF_LETTER_LANDSCAPE = { width: 792, height: 612 } as const;
+
+/** A JPEG image and its size in pixels. */
+export interface PdfImage {
+    data: Uint8Array;
+    width: number;
+    height: number;
+}
+
+/** Where an image is drawn on a page, in points from the top-left corner. */
+export interface PdfImagePlacement {
+    image: PdfImage;
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+export interface PdfPage {
+    width: number;
+    height: number;
+    images: PdfImagePlacement[];
+}
+
+export interface PdfDocumentInfo {
+    title?: string;
+}
+
+/** Vertical extent of a block that should not be split across pages, in pixels. */
+export interface PdfBlockBounds {
+    top: number;
+    bottom: number;
+}
+
+/**
+ * Scales content to fit inside a page's margins, centered, without
+ * enlarging it past its natural size.
+ */
+export function fitOnPage(
+    page: { width: number; height: number },
+    margin: number,
+    content: { width: number; height: number },
+): { x: number; y: number; width: number; height: number } {
+    const availableWidth = page.width - margin * 2;
+    const availableHeight = page.height - margin * 2;
+    const scale = Math.min(1, availableWidth / content.width, availableHeight / content.height);
+    const width = content.width * scale;
+    const height = content.height * scale;
+    return {
+        x: (page.width - width) / 2,
+        y: (page.height - height) / 2,
+        width,
+        height,
+    };
+}
+
+/**
+ * Offsets at which each page of a long piece of content starts. Pages
+ * break before `forced` offsets, and otherwise as late as they can without
+ * cutting through a block; a block taller than a page is cut.
+ */
+export function findPageBreaks(
+    totalHeight: number,
+    pageHeight: number,
+    blocks: readonly PdfBlockBounds[],
+    forced: readonly number[] = [],
+): number[] {
+    const starts = [0];
+    const forcedBreaks = [...forced].filter(offset => offset > 0 && offset < totalHeight).sort((a, b) => a - b);
+    let start = 0;
+    while (start + pageHeight < totalHeight || forcedBreaks.some(offset => offset > start)) {
+        const nextForced = forcedBreaks.find(offset => offset > start);
+        let end = start + pageHeight;
+        if (nextForced !== undefined && nextForced <= end) {
+            end = nextForced;
+        } else {
+            const cut = blocks.find(block => block.top > start && block.top < end && block.bottom > end
+                && block.bottom - block.top <= pageHeight);
+            if (cut) end = cut.top;
+        }
+        if (end >= totalHeight) break;
+        starts.push(end);
+        start = end;
+    }
+    return starts;
+}
+
+/** Assembles pages of JPEG images into a PDF file. */
+export function buildPdf(pages: readonly PdfPage[], info: PdfDocumentInfo = {}): Uint8Array<ArrayBuffer> {
+    const writer = new PdfWriter();
+    const catalogId = writer.reserve();
+    const pagesId = writer.reserve();
+    const infoId = writer.reserve();
+    const pageIds: number[] = [];
+    const imageIds = new Map<PdfImage, number>();
+
+    for (const page of pages) {
+        const resources: string[] = [];
+        const operations: string[] = [];
+        page.images.forEach((placement, index) => {
+            let imageId = imageIds.get(placement.image);
+            if (imageId === undefined) {
+                imageId = writer.reserve();
+                imageIds.set(placement.image, imageId);
+                writer.writeStream(
+                    imageId,
+                    `/Type /XObject /Subtype /Image /Width ${placement.image.width} /Height ${placement.image.height}`
+                    + ' /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode',
+                    placement.image.data,
+                );
+            }
+            const name = `Im${index + 1}`;
+            resources.push(`/${name} ${imageId} 0 R`);
+            const bottom = page.height - placement.y - placement.height;
+            operations.push(`q ${num(placement.width)} 0 0 ${num(placement.height)} ${num(placement.x)} ${num(bottom)} cm /${name} Do Q`);
+        });
+
+        const contentId = writer.reserve();
+        writer.writeStream(contentId, '', ascii(operations.join('\n')));
+        const pageId = writer.reserve();
+        writer.writeObject(pageId, `<< /Type /Page /Parent ${pagesId} 0 R /MediaBox [0 0 ${num(page.width)} ${num(page.height)}]`
+            + ` /Resources << /XObject << ${resources.join(' ')} >> >> /Contents ${contentId} 0 R >>`);
+        pageIds.push(pageId);
+    }
+
+    writer.writeObject(pagesId, `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`);
+    writer.writeObject(catalogId, `<< /Type /Catalog /Pages ${pagesId} 0 R >>`);
+    const title = info.title ? ` /Title (${escapeText(info.title)})` : '';
+    writer.writeObject(infoId, `<< /Producer (MekBay)${title} /CreationDate (D:${pdfDate(new Date())}) >>`);
+    return writer.finish(catalogId, infoId);
+}
+
+class PdfWriter {
+    private readonly chunks: Uint8Array[] = [];
+    private readonly offsets: number[] = [];
+    private length = 0;
+    private nextId = 1;
+
+    constructor() {
+        this.push(ascii('%PDF-1.4\n'));
+        // Binary marker so transfer tools treat the file as binary.
+        this.push(new Uint8Array([0x25, 0xe2, 0xe3, 0xcf, 0xd3, 0x0a]));
+    }
+
+    reserve(): number {
+        return this.nextId++;
+    }
+
+    writeObject(id: number, body: string): void {
+        this.offsets[id] = this.length;
+        this.push(ascii(`${id} 0 obj\n${body}\nendobj\n`));
+    }
+
+    writeStream(id: number, dictionary: string, data: Uint8Array): void {
+        this.offsets[id] = this.length;
+        this.push(ascii(`${id} 0 obj\n<< ${dictionary} /Length ${data.length} >>\nstream\n`));
+        this.push(data);
+        this.push(ascii('\nendstream\nendobj\n'));
+    }
+
+    finish(rootId: number, infoId: number): Uint8Array<ArrayBuffer> {
+        const xrefOffset = this.length;
+        const size = this.nextId;
+        const entries = ['0000000000 65535 f \n'];
+        for (let id = 1; id < size; id++) {
+            entries.push(`${String(this.offsets[id] ?? 0).padStart(10, '0')} 00000 n \n`);
+        }
+        this.push(ascii(`xref\n0 ${size}\n${entries.join('')}`));
+        this.push(ascii(`trailer\n<< /Size ${size} /Root ${rootId} 0 R /Info ${infoId} 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`));
+
+        const output = new Uint8Array(this.length);
+        let offset = 0;
+        for (const chunk of this.chunks) {
+            output.set(chunk, offset);
+            offset += chunk.length;
+        }
+        return output;
+    }
+
+    private push(chunk: Uint8Array): void {
+        this.chunks.push(chunk);
+        this.length += chunk.length;
+    }
+}
+
+function ascii(text: string): Uint8Array {
+    const bytes = new Uint8Array(text.length);
+    for (let index = 0; index < text.length; index++) {
+        bytes[index] = text.charCodeAt(index) & 0xff;
+    }
+    return bytes;
+}
+
+function num(value: number): string {
+    return Number(value.toFixed(3)).toString();
+}
+
+/** Escapes a string for a PDF literal, dropping characters outside Latin-1. */
+function escapeText(text: string): string {
+    return text
+        .replace(/[^ -ÿ]/g, '')
+        .replace(/[\\()]/g, match => `\\${match}`);
+}
+
+function pdfDate(date: Date): string {
+    const pad = (value: number) => String(value).padStart(2, '0');
+    return `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}`
+        + `${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+}
@@ -0,0 +1,279 @@
+// Copyright (C) 2026 The MegaMek Team
+// SPDX-License-Identifier: GPL-3.0-or-later
+// Author: Drake
+
+import type { ApplicationRef, Injector } from '@angular/core';
+import type { ASForce } from '../models/as-force.model';
+import type { CBTForce } from '../models/cbt-force.model';
+import type { PrintAllOptions } from '../models/print-options.model';
+import type { AsAbilityLookupService } from '../services/as-ability-lookup.service';
+import type { OptionsService } from '../services/options.service';
+import { ASPrintUtil, type ASCardPrintOptions } from './asprint.util';
+import { ASSummaryPrintUtil } from './as-summary-print.util';
+import { CBTPrintUtil, type CBTPrintServices } from './cbtprint.util';
+import { CBTSummaryPrintUtil } from './cbt-summary-print.util';
+import {
+    buildPdf,
+    findPageBreaks,
+    fitOnPage,
+    PDF_LETTER_LANDSCAPE,
+    PDF_LETTER_PORTRAIT,
+    PDF_PX_PER_POINT,
+    type PdfImage,
+    type PdfPage,
+} from './pdf-document.util';
+import { nextAnimationFrames, waitForPrintImages, type PrintContent } from './print-overlay.util';
+import { SvgExportUtil } from './svg-export.util';
+
+/*
+ * Description: Direct PDF export of a force: the summary pages, then the
+ *              record sheets or Alpha Strike cards, rendered the way they
+ *              print and assembled into one paginated file without going
+ *              through the browser print dialog.
+ */
+
+export interface ASPdfExportServices {
+    appRef: ApplicationRef;
+    injector: Injector;
+    optionsService: OptionsService;
+    abilityLookup: Pick<AsAbilityLookupService, 'parseAbility'>;
+}
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+const XHTML_NS = 'http://www.w3.org/1999/xhtml';
+/** Pixels rendered per CSS pixel; about 200 dpi on paper. */
+const RENDER_SCALE = 2;
+/** The margin the browser applies when print margins are left to it. */
+const BROWSER_MARGIN_PT = 18;
+/** Elements long content should not be split through at a page break. */
+const KEEP_TOGETHER_SELECTOR = 'tr, li, p, h1, h2, h3, h4, img, .print-roster-qr-block';
+
+export class PdfExportUtil {
+
+    public static async exportCBTForce(
+        force: CBTForce,
+        printServices: CBTPrintServices,
+        printOptions: PrintAllOptions,
+    ): Promise<Blob> {
+        const margin = this.getMargin(printOptions.printMargin);
+        const pages: PdfPage[] = [];
+        if (force.units().length > 0) {
+            const summary = await CBTSummaryPrintUtil.createPrintContent(force, printOptions);
+            pages.push(...await this.renderFlowingContent(summary, PDF_LETTER_LANDSCAPE, margin));
+        }
+        const svgStrings = await CBTPrintUtil.createPrintSvgs(printServices, force.units(), printOptions);
+        pages.push(...await this.renderSvgPages(svgStrings, margin));
+        return this.toBlob(pages, force.displayName());
+    }
+
+    public static async exportASForce(
+        force: ASForce,
+        services: ASPdfExportServices,
+        printOptions: PrintAllOptions & Pick<ASCardPrintOptions, 'forceColor'>,
+    ): Promise<Blob> {
+        const margin = this.getMargin(printOptions.printMargin);
+        const pages: PdfPage[] = [];
+        if (force.units().length > 0) {
+            const summary = await ASSummaryPrintUtil.createPrintContent(
+                force,
+                services.abilityLookup,
+                services.optionsService.options().ASUseHex,
+                printOptions,
+            );
+            pages.push(...await this.renderFlowingContent(summary, PDF_LETTER_LANDSCAPE, margin, '.as-rules-reference'));
+        }
+        await ASPrintUtil.renderPages(
+            services.appRef,
+            services.injector,
+            services.optionsService,
+            force.groups(),
+            printOptions,
+            async (cardPages) => {
+                pages.push(...await this.renderHtmlPages(cardPages, margin));
+            },
+        );
+        return this.toBlob(pages, force.displayName());
+    }
+
+    private static getMargin(printMargin: PrintAllOptions['printMargin']): number {
+        return printMargin === 'none' ? 0 : BROWSER_MARGIN_PT;
+    }
+
+    private static toBlob(pages: PdfPage[], title: string): Blob {
+        if (pages.length === 0) throw new Error('There is nothing to export');
+        return new Blob([buildPdf(pages, { title })], { type: 'application/pdf' });
+    }
+
+    /** One Letter page per record sheet; the sheets are laid out in points already. */
+    private static async renderSvgPages(svgStrings: readonly string[], margin: number): Promise<PdfPage[]> {
+        const pages: PdfPage[] = [];
+        for (const svgString of svgStrings) {
+            const svg = new DOMParser().parseFromString(svgString, 'image/svg+xml').documentElement as unknown as SVGSVGElement;
+            const image = await this.toPdfImage(SvgExportUtil.renderJpeg([svg], { scale: RENDER_SCALE }));
+            if (!image) continue;
+            const size = { width: image.width / RENDER_SCALE, height: image.height / RENDER_SCALE };
+            pages.push({ ...PDF_LETTER_PORTRAIT, images: [{ image, ...fitOnPage(PDF_LETTER_PORTRAIT, margin, size) }] });
+        }
+        return pages;
+    }
+
+    /** One page per laid-out page element, turned to landscape when the element is wider than tall. */
+    private static async renderHtmlPages(elements: readonly HTMLElement[], margin: number): Promise<PdfPage[]> {
+        const css = await this.collectDocumentCss();
+        const pages: PdfPage[] = [];
+        for (const element of elements) {
+            const width = element.offsetWidth;
+            const height = element.offsetHeight;
+            const image = await this.renderHtml(element.outerHTML, css, width, height);
+            if (!image) continue;
+            const page = width > height ? PDF_LETTER_LANDSCAPE : PDF_LETTER_PORTRAIT;
+            const size = { width: width / PDF_PX_PER_POINT, height: height / PDF_PX_PER_POINT };
+            pages.push({ ...page, images: [{ image, ...fitOnPage(page, margin, size) }] });
+        }
+        return pages;
+    }
+
+    /**
+     * Lays out content the browser would paginate at the width of the page
+     * and cuts it into pages between rows, starting a new page at each
+     * element matching `breakBefore`.
+     */
+    private static async renderFlowingContent(
+        content: PrintContent,
+        page: { width: number; height: number },
+        margin: number,
+        breakBefore?: string,
+    ): Promise<PdfPage[]> {
+        const width = Math.floor((page.width - margin * 2) * PDF_PX_PER_POINT);
+        const pageHeight = Math.floor((page.height - margin * 2) * PDF_PX_PER_POINT);
+        const container = document.createElement('div');
+        container.id = content.containerId;
+        container.style.cssText = `display: block; position: fixed; left: -100000px; top: 0; width: ${width}px; background: white;`;
+        container.innerHTML = `<style>${content.styles}</style>${content.content}`;
+
+        let html: string;
+        let starts: number[];
+        let totalHeight: number;
+        try {
+            document.body.appendChild(container);
+            try {
+                await document.fonts?.ready;
+            } catch {
+                // Rendering can continue with the fallback font.
+            }
+            await waitForPrintImages(container);
+            await nextAnimationFrames(2);
+
+            const origin = container.getBoundingClientRect().top;
+            const bounds = (element: Element) => {
+                const rect = element.getBoundingClientRect();
+                return { top: rect.top - origin, bottom: rect.bottom - origin };
+            };
+            const blocks = Array.from(container.querySelectorAll(KEEP_TOGETHER_SELECTOR), bounds);
+            const forced = breakBefore ? Array.from(container.querySelectorAll(breakBefore), element => bounds(element).top) : [];
+            totalHeight = container.scrollHeight;
+            starts = findPageBreaks(totalHeight, pageHeight, blocks, forced);
+            html = container.innerHTML;
+        } finally {
+            container.remove();
+        }
+
+        const pages: PdfPage[] = [];
+        for (let index = 0; index < starts.length; index++) {
+            const start = starts[index];
+            const sliceHeight = Math.ceil((starts[index + 1] ?? totalHeight) - start);
+            const wrapped = `<div id="${content.containerId}" style="display: block; width: ${width}px; margin-top: ${-start}px; background: white;">${html}</div>`;
+            const image = await this.renderHtml(wrapped, '', width, sliceHeight);
+            if (!image) continue;
+            pages.push({
+                ...page,
+                images: [{
+                    image,
+                    x: margin,
+                    y: margin,
+                    width: width / PDF_PX_PER_POINT,
+                    height: sliceHeight / PDF_PX_PER_POINT,
+                }],
+            });
+        }
+        return pages;
+    }
+
+    /** Rasterizes markup through an SVG foreign object, clipped to the given size in CSS pixels. */
+    private static async renderHtml(html: string, css: string, width: number, height: number): Promise<PdfImage | null> {
+        const svg = document.createElementNS(SVG_NS, 'svg') as SVGSVGElement;
+        svg.setAttribute('width', `${width}`);
+        svg.setAttribute('height', `${height}`);
+        svg.setAttribute('viewBox', `0 0 ${width} ${height}`);
+        const foreignObject = document.createElementNS(SVG_NS, 'foreignObject');
+        foreignObject.setAttribute('width', '100%');
+        foreignObject.setAttribute('height', '100%');
+        const body = document.createElementNS(XHTML_NS, 'div') as HTMLDivElement;
+        body.style.cssText = `width: ${width}px; height: ${height}px; overflow: hidden; background: white;`;
+        body.innerHTML = (css ? `<style>${css}</style>` : '') + html;
+        foreignObject.appendChild(body);
+        svg.appendChild(foreignObject);
+        return await this.toPdfImage(SvgExportUtil.renderJpeg([svg], { scale: RENDER_SCALE }));
+    }
+
+    private static async toPdfImage(rendering: ReturnType<typeof SvgExportUtil.renderJpeg>): Promise<PdfImage | null> {
+        const rendered = await rendering;
+        if (!rendered) return null;
+        return {
+            data: new Uint8Array(await rendered.blob.arrayBuffer()),
+            width: rendered.width,
+            height: rendered.height,
+        };
+    }
+
+    /**
+     * The page's own style rules, which the cards rely on, with the
+     * resources they point to inlined: an SVG rendered as an image cannot
+     * load anything itself. Font faces are left out; the export embeds its
+     * own.
+     */
+    private static async collectDocumentCss(): Promise<string> {
+        const resources = new Map<string, Promise<string | null>>();
+        const sheets: string[] = [];
+        for (const sheet of Array.from(document.styleSheets)) {
+            let rules: CSSRule[];
+            try {
+                rules = Array.from(sheet.cssRules);
+            } catch {
+                continue; // Cross-origin sheets cannot be read.
+            }
+            const base = sheet.href ?? document.baseURI;
+            const css = rules
+                .filter(rule => !(rule instanceof CSSFontFaceRule))
+                .map(rule => rule.cssText)
+                .join('\n');
+            sheets.push(await this.inlineCssUrls(css, base, resources));
+        }
+        return sheets.join('\n');
+    }
+
+    private static async inlineCssUrls(
+        css: string,
+        base: string,
+        resources: Map<string, Promise<string | null>>,
+    ): Promise<string> {
+        const pattern = /url\(\s*(['"]?)([^'")]+)\1\s*\)/g;
+        const urls = new Map<string, string>();
+        for (const [, , href] of css.matchAll(pattern)) {
+            if (href.startsWith('data:') || href.startsWith('#') || urls.has(href)) continue;
+            let url: string;
+            try {
+                url = new URL(href, base).toString();
+            } catch {
+                continue;
+            }
+            if (!resources.has(url)) resources.set(url, SvgExportUtil.fetchImageAsDataUrl(url));
+            const dataUrl = await resources.get(url);
+            if (dataUrl) urls.set(href, dataUrl);
+        }
+        return css.replace(pattern, (match, _quote, href: string) => {
+            const dataUrl = urls.get(href);
+            return dataUrl ? `url("${dataUrl}")` : match;
+        });
+    }
+}
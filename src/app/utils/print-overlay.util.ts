@@ -2,11 +2,15 @@
 // SPDX-License-Identifier: GPL-3.0-or-later
 // Author: Drake
 
-interface PrintOverlayOptions {
+/** Markup to print and the styles scoped to the container it is printed in. */
+export interface PrintContent {
     containerId: string;
-    bodyClass: string;
     content: string;
     styles: string;
+}
+
+interface PrintOverlayOptions extends PrintContent {
+    bodyClass: string;
     triggerPrint: boolean;
     onImageError?: (image: Element) => void;
 }
@@ -0,0 +1,164 @@
+// Copyright (C) 2026 The MegaMek Team
+// SPDX-License-Identifier: GPL-3.0-or-later
+// Author: Drake
+
+import { Injector, provideZonelessChangeDetection } from '@angular/core';
+import { TestBed } from '@angular/core/testing';
+import { CBTForce } from '../models/cbt-force.model';
+import { CBTForceUnit } from '../models/cbt-force-unit.model';
+import { AmmoEquipment, WeaponEquipment } from '../models/equipment.model';
+import { EquipmentRegistry } from '../models/equipment-lookup';
+import { MountedAmmo, MountedWeapon } from '../models/mounted-equipment.model';
+import type { UnitSummary } from '../models/unit-summary.model';
+import { DataService } from '../services/data.service';
+import { DialogsService } from '../services/dialogs.service';
+import { OptionsService } from '../services/options.service';
+import { ToastService } from '../services/toast.service';
+import { UnitInitializerService } from '../services/unit-initializer.service';
+import { createEmptyUnit } from '../testing/unit-test-helpers';
+import { assessSalvage } from './salvage.util';
+
+describe('salvage utilities', () => {
+    const laserEquipment = new WeaponEquipment({
+        id: 'ISMediumLaser',
+        name: 'Medium Laser',
+        type: 'weapon',
+        stats: { cost: 40000 },
+        weapon: { ammoType: 'NA', heat: 3, damage: 5, ranges: [3, 6, 9, 12] },
+    });
+    const ammoEquipment = new AmmoEquipment({
+        id: 'ISAC10 Ammo',
+        name: 'AC/10 Ammo',
+        type: 'ammo',
+        stats: { cost: 6000 },
+        ammo: { type: 'AC', rackSize: 10, shots: 10, damagePerShot: 1 },
+    });
+    let dataService: jasmine.SpyObj<DataService>;
+    let unitInitializer: UnitInitializerService;
+    let injector: Injector;
+
+    beforeEach(() => {
+        dataService = jasmine.createSpyObj<DataService>('DataService', ['getEquipmentRegistry', 'findEquipment', 'getUnitByName']);
+        const registry = new EquipmentRegistry({ [laserEquipment.id]: laserEquipment, [ammoEquipment.id]: ammoEquipment });
+        dataService.getEquipmentRegistry.and.returnValue(registry);
+        dataService.findEquipment.and.callFake((name: string) => registry.findEquipment(name) ?? undefined);
+
+        TestBed.configureTestingModule({
+            providers: [
+                provideZonelessChangeDetection(),
+                UnitInitializerService,
+                { provide: DataService, useValue: dataService },
+                { provide: DialogsService, useValue: jasmine.createSpyObj<DialogsService>('DialogsService', ['createDialog', 'showError']) },
+                { provide: ToastService, useValue: jasmine.createSpyObj<ToastService>('ToastService', ['showToast']) },
+                { provide: OptionsService, useValue: { options: () => ({ cbtAutomations: true, CBTOptionalRules: {} }) } },
+            ],
+        });
+        unitInitializer = TestBed.inject(UnitInitializerService);
+        injector = TestBed.inject(Injector);
+    });
+
+    function createUnit(summary: UnitSummary, internal: Record<string, number>): CBTForceUnit {
+        dataService.getUnitByName.and.callFake((name: string) => name === summary.name ? summary : undefined);
+        const force = new CBTForce('Opfor', dataService, unitInitializer, injector);
+        const unit = new CBTForceUnit(summary, force, dataService, unitInitializer, injector);
+        unit.locations = {
+            armor: new Map(),
+            internal: new Map(Object.entries(internal).map(([loc, points]) => [loc, { loc, points }])),
+        };
+        return unit;
+    }
+
+    function createWreck(): { unit: CBTForceUnit; laser: MountedWeapon; armLaser: MountedWeapon; ammo: MountedAmmo } {
+        const unit = createUnit(
+            createEmptyUnit({ name: 'SLV-1', chassis: 'Salvage Test', model: 'SLV-1', type: 'Mek', subtype: 'BattleMek', cost: 3000000 }),
+            { CT: 10, LT: 8, LA: 6, RA: 6 },
+        );
+        const mount = (id: string, location: string, destroyed = false) => new MountedWeapon({
+            owner: unit,
+            id,
+            name: laserEquipment.name,
+            equipment: laserEquipment,
+            locations: new Set([location]),
+            destroyed,
+        });
+        const laser = mount('laser@LT', 'LT');
+        const armLaser = mount('laser@LA', 'LA');
+        const brokenLaser = mount('laser@RA', 'RA', true);
+        const ammo = new MountedAmmo({
+            owner: unit,
+            id: 'ammo@LT',
+            name: ammoEquipment.name,
+            equipment: ammoEquipment,
+            locations: new Set(['LT']),
+            totalAmmo: 10,
+            consumed: 4,
+        });
+        unit.setInventory([laser, armLaser, brokenLaser, ammo], true);
+        return { unit, laser, armLaser, ammo };
+    }
+
+    it('recovers a Mek whose center torso survived, valued at its cost less repairs', () => {
+        const { unit } = createWreck();
+        unit.addInternalHits('LT', 3, true);
+
+        const report = assessSalvage(unit, 'Opfor');
+
+        expect(report.verdict).toBe('recoverable');
+        expect(report.forceName).toBe('Opfor');
+        expect(report.unitCost).toBe(3000000);
+        expect(report.repairCost).toBeGreaterThan(0);
+        expect(report.recoveredValue).toBe(report.unitCost - report.repairCost);
+    });
+
+    it('writes off a Mek whose center torso is destroyed', () => {
+        const { unit } = createWreck();
+        unit.addInternalHits('CT', 10, true);
+
+        const report = assessSalvage(unit, 'Opfor');
+
+        expect(report.verdict).toBe('parts');
+        expect(report.repairCost).toBe(0);
+        expect(report.recoveredValue).toBe(0);
+    });
+
+    it('salvages only intact components, pricing ammo by its remaining shots', () => {
+        const { unit } = createWreck();
+        unit.addInternalHits('CT', 10, true);
+        unit.addInternalHits('LT', 8, true);
+
+        expect(assessSalvage(unit, 'Opfor').components).toEqual([]);
+
+        const intact = createWreck();
+        intact.unit.addInternalHits('CT', 10, true);
+        const report = assessSalvage(intact.unit, 'Opfor');
+
+        expect(report.components).toEqual([
+            { name: 'Medium Laser', location: 'LT', value: 40000 },
+            { name: 'Medium Laser', location: 'LA', value: 40000 },
+            { name: 'AC/10 Ammo', location: 'LT', shots: 6, value: 3600 },
+        ]);
+        expect(report.componentValue).toBe(83600);
+    });
+
+    it('leaves out ammo bins that were shot dry', () => {
+        const { unit, ammo } = createWreck();
+        ammo.consumed = 10;
+
+        expect(assessSalvage(unit, 'Opfor').components.map(component => component.name)).toEqual(['Medium Laser', 'Medium Laser']);
+    });
+
+    it('writes off other units once half their locations are destroyed', () => {
+        const tank = () => createUnit(
+            createEmptyUnit({ name: 'TNK-1', chassis: 'Salvage Tank', model: 'TNK-1', type: 'Tank', subtype: 'Combat Vehicle' }),
+            { FR: 5, LS: 5, RS: 5, RR: 5 },
+        );
+        const damaged = tank();
+        damaged.addInternalHits('FR', 5, true);
+        const wrecked = tank();
+        wrecked.addInternalHits('FR', 5, true);
+        wrecked.setLocationCondition('RR', 'blown-off', true, true);
+
+        expect(assessSalvage(damaged, 'Opfor').verdict).toBe('recoverable');
+        expect(assessSalvage(wrecked, 'Opfor').verdict).toBe('parts');
+    });
+});
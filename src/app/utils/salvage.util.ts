@@ -0,0 +1,76 @@
+// Copyright (C) 2026 The MegaMek Team
+// SPDX-License-Identifier: GPL-3.0-or-later
+// Author: Drake
+
+import type { CBTForceUnit } from '../models/cbt-force-unit.model';
+import { AmmoEquipment } from '../models/equipment.model';
+import type { MountedEquipment } from '../models/mounted-equipment.model';
+import { sumRepairCost } from '../models/repair.model';
+import type { SalvageComponent, SalvageUnitReport, SalvageVerdict } from '../models/salvage.model';
+import { ammoShotCost, equipmentReplacementCost } from '../models/entity/utils/cost';
+import { collectRepairItems, isCritDamaged } from './force-repair.util';
+
+/*
+ * Description: Assesses a destroyed Classic unit's wreck from its final
+ *              record-sheet state: whether it can be recovered whole and
+ *              which of its components survived, priced with the cost
+ *              utilities.
+ */
+
+/** Location whose loss writes a Mek off; other units are wrecks once half their locations are gone. */
+const MEK_CORE_LOCATION = 'CT';
+
+function salvageVerdict(unit: CBTForceUnit): SalvageVerdict {
+    const locations = [...unit.locations?.internal.keys() ?? []];
+    if (locations.includes(MEK_CORE_LOCATION)) {
+        return unit.isInternalLocPhysicallyDestroyed(MEK_CORE_LOCATION) ? 'parts' : 'recoverable';
+    }
+    const destroyed = locations.filter(loc => unit.isInternalLocPhysicallyDestroyed(loc)).length;
+    return destroyed * 2 >= locations.length && locations.length > 0 ? 'parts' : 'recoverable';
+}
+
+function isComponentIntact(unit: CBTForceUnit, entry: MountedEquipment): boolean {
+    if (entry.committedDestroyed() || (entry.critSlots ?? []).some(isCritDamaged)) return false;
+    return ![...entry.locations ?? []].some(loc => unit.isInternalLocPhysicallyDestroyed(loc));
+}
+
+function salvageComponent(unit: CBTForceUnit, entry: MountedEquipment): SalvageComponent | null {
+    if (!entry.equipment || entry.isIntrinsicPhysicalAttack() || !isComponentIntact(unit, entry)) return null;
+    const location = [...entry.locations ?? []].join('/') || undefined;
+    if (!(entry.equipment instanceof AmmoEquipment)) {
+        return { name: entry.getDisplayName(), location, value: equipmentReplacementCost(entry.equipment) };
+    }
+    // Crit-slot units track their bins on the slot; direct-inventory units on the entry.
+    const slot = entry.critSlots?.[0];
+    const shots = slot?.totalAmmo !== undefined
+        ? slot.totalAmmo - (slot.consumed ?? 0)
+        : (entry.totalAmmo ?? 0) - (entry.consumed ?? 0);
+    if (shots <= 0) return null;
+    const loaded = slot?.eq instanceof AmmoEquipment
+        ? slot.eq
+        : entry.ammo ? unit.getEquipmentRegistry().findEquipment(entry.ammo) : entry.equipment;
+    const ammo = loaded instanceof AmmoEquipment ? loaded : entry.equipment;
+    const perShot = ammoShotCost(ammo);
+    return { name: ammo.name, location, shots, value: perShot === null ? null : shots * perShot };
+}
+
+/** Salvage assessment of a loaded Classic unit; meant for destroyed units. */
+export function assessSalvage(unit: CBTForceUnit, forceName: string): SalvageUnitReport {
+    const verdict = salvageVerdict(unit);
+    const components = unit.getInventory()
+        .map(entry => salvageComponent(unit, entry))
+        .filter((component): component is SalvageComponent => component !== null);
+    const unitCost = unit.getUnit().cost ?? 0;
+    const repairCost = verdict === 'recoverable' ? sumRepairCost(collectRepairItems(unit)).total : 0;
+    return {
+        unitId: unit.id,
+        name: unit.getDisplayName(),
+        forceName,
+        verdict,
+        unitCost,
+        repairCost,
+        recoveredValue: verdict === 'recoverable' ? Math.max(0, unitCost - repairCost) : 0,
+        components,
+        componentValue: components.reduce((total, component) => total + (component.value ?? 0), 0),
+    };
+}
@@ -0,0 +1,228 @@
+// Copyright (C) 2026 The MegaMek Team
+// SPDX-License-Identifier: GPL-3.0-or-later
+// Author: Drake
+
+/**
+ * Computed expressions for the semantic search language.
+ *
+ * Syntax:
+ *   - Arithmetic over numeric fields and numbers: + - * / (usual precedence, no brackets,
+ *     since brackets group filters)
+ *   - A comparison of two such expressions: = != > >= < <=, optionally spaced
+ *
+ * Examples:
+ *   armor/tons > 3          -> armor per ton over 3
+ *   dpt/bv*1000 >= 12       -> at least 12 damage per turn per 1000 BV
+ *   jump >= walk            -> jumps at least as far as it walks
+ *
+ * A plain `field>number` or `field=min-max` stays a regular filter; only comparisons
+ * with arithmetic on the left or a field on the right are computed.
+ */
+
+export type ArithmeticOperator = '+' | '-' | '*' | '/';
+export type ComparisonOperator = '=' | '!=' | '>' | '>=' | '<' | '<=';
+
+export type ArithmeticExpression =
+    | { type: 'number'; value: number }
+    | { type: 'field'; field: string }
+    | { type: 'binary'; operator: ArithmeticOperator; left: ArithmeticExpression; right: ArithmeticExpression };
+
+/** Piece of an expression's source text, for syntax highlighting */
+export interface ExpressionPart {
+    type: 'field' | 'number' | 'arithmetic' | 'comparison' | 'whitespace';
+    start: number;
+    end: number;
+}
+
+/** A comparison between two arithmetic expressions */
+export interface ComputedComparison {
+    left: ArithmeticExpression;
+    operator: ComparisonOperator;
+    right: ArithmeticExpression;
+    parts: ExpressionPart[];
+}
+
+/** Prefix marking a sort key as a computed expression (e.g. `=dpt/bv*1000`). */
+export const COMPUTED_SORT_KEY_PREFIX = '=';
+
+const VALUE_PRECISION = 1e6;
+const COMPARISON_OPERATORS: readonly ComparisonOperator[] = ['!=', '>=', '<=', '=', '>', '<'];
+const NUMBER_PATTERN = /-?\d+(?:\.\d+)?/y;
+const FIELD_PATTERN = /[a-z_][a-z0-9_]*/iy;
+
+function isWhitespace(char: string | undefined): boolean {
+    return char === ' ' || char === '\t' || char === '\n' || char === '\r';
+}
+
+/** Match a sticky pattern at `pos`, returning the matched text. */
+function matchAt(pattern: RegExp, input: string, pos: number): string | null {
+    pattern.lastIndex = pos;
+    return pattern.exec(input)?.[0] ?? null;
+}
+
+function isArithmeticOperator(char: string | undefined): char is ArithmeticOperator {
+    return char === '+' || char === '-' || char === '*' || char === '/';
+}
+
+/**
+ * Parse an arithmetic expression at `start`: operands joined by operators, with no
+ * whitespace inside. Returns null when no operand starts there or a field is unknown.
+ */
+export function parseArithmeticExpression(
+    input: string,
+    start: number,
+    isField: (field: string) => boolean,
+): { expression: ArithmeticExpression; end: number; parts: ExpressionPart[] } | null {
+    const operands: ArithmeticExpression[] = [];
+    const operators: ArithmeticOperator[] = [];
+    const parts: ExpressionPart[] = [];
+    let pos = start;
+
+    while (true) {
+        const numberMatch = matchAt(NUMBER_PATTERN, input, pos);
+        const fieldMatch = numberMatch ? null : matchAt(FIELD_PATTERN, input, pos);
+        if (numberMatch) {
+            operands.push({ type: 'number', value: Number.parseFloat(numberMatch) });
+            parts.push({ type: 'number', start: pos, end: pos + numberMatch.length });
+            pos += numberMatch.length;
+        } else if (fieldMatch && isField(fieldMatch.toLowerCase())) {
+            operands.push({ type: 'field', field: fieldMatch.toLowerCase() });
+            parts.push({ type: 'field', start: pos, end: pos + fieldMatch.length });
+            pos += fieldMatch.length;
+        } else {
+            return null;
+        }
+
+        const next = input[pos];
+        const afterNext = input[pos + 1];
+        if (!isArithmeticOperator(next) || afterNext === undefined || isWhitespace(afterNext)) {
+            break;
+        }
+        operators.push(next);
+        parts.push({ type: 'arithmetic', start: pos, end: pos + 1 });
+        pos++;
+    }
+
+    return { expression: combineOperands(operands, operators), end: pos, parts };
+}
+
+/** Folds operands left to right, multiplication and division first. */
+function combineOperands(operands: ArithmeticExpression[], operators: ArithmeticOperator[]): ArithmeticExpression {
+    const terms: ArithmeticExpression[] = [operands[0]];
+    const termOperators: ArithmeticOperator[] = [];
+    operators.forEach((operator, index) => {
+        const operand = operands[index + 1];
+        if (operator === '*' || operator === '/') {
+            terms[terms.length - 1] = { type: 'binary', operator, left: terms[terms.length - 1], right: operand };
+        } else {
+            terms.push(operand);
+            termOperators.push(operator);
+        }
+    });
+    return termOperators.reduce<ArithmeticExpression>(
+        (left, operator, index) => ({ type: 'binary', operator, left, right: terms[index + 1] }),
+        terms[0],
+    );
+}
+
+function hasField(expression: ArithmeticExpression): boolean {
+    return expression.type === 'field'
+        || (expression.type === 'binary' && (hasField(expression.left) || hasField(expression.right)));
+}
+
+/**
+ * Parse a computed comparison at `start`. Returns null when the text there is not one,
+ * including a plain `field>number`, which is left to the regular filter parser.
+ */
+export function parseComputedComparison(
+    input: string,
+    start: number,
+    isField: (field: string) => boolean,
+): { comparison: ComputedComparison; end: number } | null {
+    const left = parseArithmeticExpression(input, start, isField);
+    if (!left) return null;
+
+    let pos = left.end;
+    const parts = [...left.parts];
+    const skipWhitespace = () => {
+        const whitespaceStart = pos;
+        while (isWhitespace(input[pos])) pos++;
+        if (pos > whitespaceStart) parts.push({ type: 'whitespace', start: whitespaceStart, end: pos });
+    };
+
+    skipWhitespace();
+    const operator = COMPARISON_OPERATORS.find(candidate => input.startsWith(candidate, pos));
+    if (!operator) return null;
+    parts.push({ type: 'comparison', start: pos, end: pos + operator.length });
+    pos += operator.length;
+    skipWhitespace();
+
+    const right = parseArithmeticExpression(input, pos, isField);
+    if (!right) return null;
+    const nextChar = input[right.end];
+    if (nextChar !== undefined && !isWhitespace(nextChar) && nextChar !== '(' && nextChar !== ')') return null;
+
+    // `tons=20-30` is a range filter, not arithmetic: only arithmetic on the left or
+    // a field on the right makes a comparison computed.
+    const isComputed = left.expression.type === 'binary' || hasField(right.expression);
+    if (!isComputed || !hasField(left.expression) && !hasField(right.expression)) return null;
+
+    return {
+        comparison: { left: left.expression, operator, right: right.expression, parts: [...parts, ...right.parts] },
+        end: right.end,
+    };
+}
+
+/**
+ * Evaluate an arithmetic expression. Returns null when a field has no value or
+ * a division by zero occurs.
+ */
+export function evaluateArithmeticExpression(
+    expression: ArithmeticExpression,
+    resolveField: (field: string) => number | null,
+): number | null {
+    switch (expression.type) {
+        case 'number':
+            return expression.value;
+        case 'field':
+            return resolveField(expression.field);
+        case 'binary': {
+            const left = evaluateArithmeticExpression(expression.left, resolveField);
+            if (left === null) return null;
+            const right = evaluateArithmeticExpression(expression.right, resolveField);
+            if (right === null) return null;
+            switch (expression.operator) {
+                case '+': return left + right;
+                case '-': return left - right;
+                case '*': return left * right;
+                case '/': return right === 0 ? null : left / right;
+            }
+        }
+    }
+}
+
+/** Compare two computed values, ignoring floating point noise (so `armor/tons=0.3` can match). */
+export function compareComputedValues(left: number, operator: ComparisonOperator, right: number): boolean {
+    left = Math.round(left * VALUE_PRECISION) / VALUE_PRECISION;
+    right = Math.round(right * VALUE_PRECISION) / VALUE_PRECISION;
+    switch (operator) {
+        case '=': return left === right;
+        case '!=': return left !== right;
+        case '>': return left > right;
+        case '>=': return left >= right;
+        case '<': return left < right;
+        case '<=': return left <= right;
+    }
+}
+
+export function isComputedSortKey(sortKey: string): boolean {
+    return sortKey.startsWith(COMPUTED_SORT_KEY_PREFIX);
+}
+
+/** Parse the expression of a computed sort key; null for other keys or invalid expressions. */
+export function parseComputedSortKey(sortKey: string, isField: (field: string) => boolean): ArithmeticExpression | null {
+    if (!isComputedSortKey(sortKey)) return null;
+    const source = sortKey.slice(COMPUTED_SORT_KEY_PREFIX.length).trim();
+    const parsed = parseArithmeticExpression(source, 0, isField);
+    return parsed && parsed.end === source.length ? parsed.expression : null;
+}
@@ -3,7 +3,7 @@
 // Author: Drake
 
 import { GameSystem } from '../models/common.model';
-import { filterUnitsWithAST, parseSemanticQueryAST, tokenizeForHighlight, type ParseResult } from './semantic-filter-ast.util';
+import { filterUnitsWithAST, hasNegatedGroups, isComplexQuery, parseSemanticQueryAST, semanticASTToText, tokenizeForHighlight, type ParseResult } from './semantic-filter-ast.util';
 import { filterStateToSemanticText, tokensToFilterState } from './semantic-filter.util';
 import { matchesSearch, parseSearchQuery } from './search.util';
 
@@ -102,6 +102,110 @@ describe('semantic boolean filters', () => {
     });
 });
 
+describe('semantic computed expressions', () => {
+    it('parses comparisons with arithmetic or a field on the right as expressions', () => {
+        const result = parseSemanticQueryAST('armor/tons > 3 jump>=walk bv>1000 tons=20-30', GameSystem.CLASSIC);
+
+        expect(result.ast.children.map(node => node.type)).toEqual(['expression', 'expression', 'filter', 'filter']);
+        expect(result.tokens.map(token => token.rawText)).toEqual(['bv>1000', 'tons=20-30']);
+        expect(result.textSearch).toBe('');
+        expect(isComplexQuery(result.ast)).toBeTrue();
+    });
+
+    it('leaves comparisons over unknown fields as text', () => {
+        const result = parseSemanticQueryAST('armor/tonz>3', GameSystem.CLASSIC);
+
+        expect(result.ast.children.map(node => node.type)).toEqual(['text']);
+    });
+
+    it('highlights fields, operators and numbers of an expression', () => {
+        const tokens = tokenizeForHighlight('dpt/bv*1000 >= 12', GameSystem.CLASSIC);
+
+        expect(tokens.map(token => [token.type, token.value])).toEqual([
+            ['key', 'dpt'],
+            ['suboperator', '/'],
+            ['key', 'bv'],
+            ['suboperator', '*'],
+            ['value', '1000'],
+            ['whitespace', ' '],
+            ['operator', '>='],
+            ['whitespace', ' '],
+            ['value', '12'],
+        ]);
+    });
+});
+
+describe('semantic negated groups', () => {
+    const units = [
+        { id: 1, name: 'Light Scout', role: 'Scout', tons: 20 },
+        { id: 2, name: 'Light Striker', role: 'Striker', tons: 25 },
+        { id: 3, name: 'Heavy Scout', role: 'Scout', tons: 70 },
+        { id: 4, name: 'Heavy Juggernaut', role: 'Juggernaut', tons: 90 },
+    ];
+
+    function filterUnitNames(query: string): string[] {
+        const result = parseSemanticQueryAST(query, GameSystem.CLASSIC);
+        return filterUnitsWithAST(units, result.ast, {
+            gameSystem: GameSystem.CLASSIC,
+            getUnitId,
+            getProperty: (unit: typeof units[number], key: string) => unit[key as keyof typeof unit],
+        }).map(unit => unit.name);
+    }
+
+    it('parses NOT before a bracketed group as a negated group', () => {
+        const result = parseSemanticQueryAST('tons>=20 NOT (role=Scout OR tons<30)', GameSystem.CLASSIC);
+        const group = result.ast.children[1];
+
+        expect(result.errors).toEqual([]);
+        expect(result.textSearch).toBe('');
+        expect(group).toEqual(jasmine.objectContaining({ type: 'group', operator: 'OR', negated: true }));
+        expect(isComplexQuery(result.ast)).toBeTrue();
+    });
+
+    it('keeps NOT without brackets as text', () => {
+        const result = parseSemanticQueryAST('not working', GameSystem.CLASSIC);
+
+        expect(result.textSearch).toBe('not working');
+        expect(hasNegatedGroups(result.ast)).toBeFalse();
+    });
+
+    it('filters out the units matching a negated group', () => {
+        expect(filterUnitNames('NOT (role=Scout)')).toEqual(['Light Striker', 'Heavy Juggernaut']);
+        expect(filterUnitNames('NOT (role=Scout OR tons<30)')).toEqual(['Heavy Juggernaut']);
+        expect(filterUnitNames('NOT (role=Scout tons<30)')).toEqual(['Light Striker', 'Heavy Scout', 'Heavy Juggernaut']);
+        expect(filterUnitNames('NOT (NOT (role=Scout))')).toEqual(['Light Scout', 'Heavy Scout']);
+    });
+});
+
+describe('semantic AST serialization', () => {
+    function roundTrip(query: string): string {
+        return semanticASTToText(parseSemanticQueryAST(query, GameSystem.CLASSIC).ast);
+    }
+
+    it('writes canonical text without redundant brackets', () => {
+        expect(roundTrip('((tons=20-30) OR (role=Scout)) AND (bv<3000)')).toBe('(tons=20-30 OR role=Scout) bv<3000');
+        expect(roundTrip('NOT ((role=Scout))')).toBe('NOT (role=Scout)');
+        expect(roundTrip('NOT(tons>30)')).toBe('NOT (tons>30)');
+        expect(roundTrip('armor/tons > 3 Atlas')).toBe('armor/tons > 3 Atlas');
+    });
+
+    it('quotes values that need it', () => {
+        expect(roundTrip('faction="Clan Wolf",Draco*')).toBe('faction="Clan Wolf",Draco*');
+    });
+
+    it('gives back the same tree when the text is parsed again', () => {
+        const queries = [
+            'type=Mek (role=Scout OR (tons>=50 walk>=5)) NOT (techBase=Clan)',
+            'role=Scout OR role=Striker OR tons<30',
+            'NOT (role=Scout OR NOT (tons<30 bv>1000))',
+        ];
+        for (const query of queries) {
+            const text = roundTrip(query);
+            expect(roundTrip(text)).toBe(text);
+        }
+    });
+});
+
 describe('semantic Alpha Strike damage filters', () => {
     const units = [
         { id: 1, name: 'zero-damage', as: { dmg: { _dmgS: 0 } } },
@@ -11,6 +11,7 @@
  *   - Grouping: (filter1 filter2) - filters inside are AND'd by default
  *   - Boolean operators: OR, AND (case insensitive)
  *   - Nested groups: ((type=Mek bv>1000) OR (type=Aero bv<1500)) AND (firepower>=50)
+ *   - Negated groups: NOT (filter1 OR filter2) - matches the units the group does not match
  *   - Escape sequences: Use backslash to escape special characters in text search
  *     Escapable: ( ) = > < ! & " ' \
  * 
@@ -24,17 +25,28 @@
  *   type=Mek OR type=Aero               -> type=Mek OR type=Aero
  *   (type=Mek bv>1000) OR type=Aero     -> (type=Mek AND bv>1000) OR type=Aero
  *   ((a=1) OR (b=2)) AND (c=3)          -> (a=1 OR b=2) AND c=3
+ *   type=Mek NOT (role=Scout OR tons<30) -> Meks that are neither scouts nor under 30 tons
  *   Puma \(Adder\)                  -> searches for "Puma (Adder)"
  *   name\=test                          -> searches for literal "name=test"
+ *   armor/tons > 3 jump>=walk           -> computed expressions (see semantic-expression.util)
  */
 
 import type { GameSystem } from '../models/common.model';
 import { ADVANCED_FILTERS, type AdvFilterConfig, AdvFilterType, type AvailabilityFilterScope, FORMATION_TARGET_FILTER_KEY, getBooleanFilterUnitValue, parseBooleanFilterSemanticValue } from '../services/unit-search-filters.model';
-import { type SemanticOperator, type SemanticToken, buildSemanticKeyMap, VIRTUAL_SEMANTIC_KEYS, parseValues, parseValueWithQuantity, type QuantityConstraint } from './semantic-filter.util';
+import { type SemanticOperator, type SemanticToken, buildSemanticKeyMap, formatSemanticValue, VIRTUAL_SEMANTIC_KEYS, parseValues, parseValueWithQuantity, type QuantityConstraint } from './semantic-filter.util';
 import { normalizeLooseText, wildcardToRegex } from './string.util';
 import { usesIndexedDropdownUniverse } from './unit-search-filter-config.util';
 import { checkQuantityConstraint as checkQuantityConstraintCore, isEmbeddedApostrophe, unitMatchesRulesRefsSelection } from './unit-search-shared.util';
 import { isASDamageSemanticKey, parseASDamageValue } from './as-damage.util';
+import {
+    type ArithmeticExpression,
+    type ComputedComparison,
+    type ExpressionPart,
+    compareComputedValues,
+    evaluateArithmeticExpression,
+    parseComputedComparison,
+    parseComputedSortKey,
+} from './semantic-expression.util';
 
 // ============================================================================
 // Helpers
@@ -75,7 +87,9 @@ export type LexTokenType =
     | 'RPAREN'      // )
     | 'OR'          // OR keyword
     | 'AND'         // AND keyword
+    | 'NOT'         // NOT keyword, before a group
     | 'FILTER'      // field=value
+    | 'EXPRESSION'  // armor/tons>3
     | 'TEXT'        // plain text (not a filter)
     | 'EOF';        // end of input
 
@@ -92,6 +106,8 @@ export interface LexToken {
         values: string[];
         rawValue: string;
     };
+    // For EXPRESSION tokens, the parsed comparison
+    expression?: ComputedComparison;
 }
 
 /** Parse error with position for highlighting */
@@ -102,7 +118,7 @@ export interface ParseError {
 }
 
 /** AST node types */
-export type ASTNodeType = 'group' | 'filter' | 'text';
+export type ASTNodeType = 'group' | 'filter' | 'text' | 'expression';
 
 /** Base AST node */
 interface BaseASTNode {
@@ -123,14 +139,23 @@ export interface TextASTNode extends BaseASTNode {
     value: string;
 }
 
+/** Expression AST node - represents a computed comparison (e.g., armor/tons>3) */
+export interface ExpressionASTNode extends BaseASTNode {
+    type: 'expression';
+    expression: ComputedComparison;
+    text: string;
+}
+
 /** Group AST node - represents a group of nodes combined with AND/OR */
 export interface GroupASTNode extends BaseASTNode {
     type: 'group';
     operator: 'AND' | 'OR';
     children: ASTNode[];
+    /** Set by a leading NOT: the group matches the units its children do not */
+    negated?: boolean;
 }
 
-export type ASTNode = FilterASTNode | TextASTNode | GroupASTNode;
+export type ASTNode = FilterASTNode | TextASTNode | ExpressionASTNode | GroupASTNode;
 
 /** Result of parsing with AST and errors */
 export interface ParseResult {
@@ -207,6 +232,33 @@ function tokenize(input: string, semanticKeyMap: Map<string, AdvFilterConfig>):
             }
         }
 
+        // Check for the NOT keyword (case insensitive, only before an opening paren)
+        if (charUpper === 'N' && input.slice(i, i + 3).toUpperCase() === 'NOT') {
+            let afterNot = i + 3;
+            while (afterNot < len && (input[afterNot] === ' ' || input[afterNot] === '\t' || input[afterNot] === '\n' || input[afterNot] === '\r')) {
+                afterNot++;
+            }
+            if (input[afterNot] === '(') {
+                tokens.push({ type: 'NOT', value: input.slice(i, i + 3), start: i, end: i + 3 });
+                i += 3;
+                continue;
+            }
+        }
+
+        // Try to parse a computed expression before a filter, which would take `jump>=walk` as a value
+        const expressionResult = parseComputedComparison(input, i, field => isExpressionField(field, semanticKeyMap));
+        if (expressionResult) {
+            tokens.push({
+                type: 'EXPRESSION',
+                value: input.slice(i, expressionResult.end),
+                start: i,
+                end: expressionResult.end,
+                expression: expressionResult.comparison,
+            });
+            i = expressionResult.end;
+            continue;
+        }
+
         // Try to parse a filter expression
         const filterResult = tryParseFilterToken(input, i, semanticKeyMap);
         if (filterResult) {
@@ -271,6 +323,13 @@ function tokenize(input: string, semanticKeyMap: Map<string, AdvFilterConfig>):
     return tokens;
 }
 
+/**
+ * Fields usable in computed expressions: the numeric (range) filters.
+ */
+function isExpressionField(field: string, semanticKeyMap: Map<string, AdvFilterConfig>): boolean {
+    return semanticKeyMap.get(field)?.type === AdvFilterType.RANGE;
+}
+
 /**
  * Try to parse a filter token at the given position.
  */
@@ -504,11 +563,30 @@ class Parser {
             return this.parseGroup();
         }
 
+        // Handle NOT - negate the group that follows (the lexer only emits NOT before a paren)
+        if (token.type === 'NOT') {
+            const notToken = this.advance();
+            const group = this.parseGroup();
+            return group ? { ...group, negated: !group.negated, start: notToken.start } : null;
+        }
+
         // Handle filter
         if (token.type === 'FILTER') {
             return this.parseFilter();
         }
 
+        // Handle computed expression
+        if (token.type === 'EXPRESSION' && token.expression) {
+            const expressionToken = this.advance();
+            return {
+                type: 'expression',
+                expression: token.expression,
+                text: expressionToken.value,
+                start: expressionToken.start,
+                end: expressionToken.end
+            };
+        }
+
         // Handle text
         if (token.type === 'TEXT') {
             const textToken = this.advance();
@@ -691,15 +769,17 @@ class Parser {
     /**
      * Extract text parts and flat filter tokens from AST.
      */
-    private extractFromAST(node: ASTNode, textParts: string[], tokens: SemanticToken[]): void {
+    private extractFromAST(node: ASTNode, textParts: string[], tokens: SemanticToken[], negated = false): void {
         if (node.type === 'text') {
+            // Names the units must not match are not searched for
+            if (negated) return;
             // Unescape escape sequences for the actual text search
             textParts.push(unescapeText(node.value));
         } else if (node.type === 'filter') {
             tokens.push(node.token);
         } else if (node.type === 'group') {
             for (const child of node.children) {
-                this.extractFromAST(child, textParts, tokens);
+                this.extractFromAST(child, textParts, tokens, negated || !!node.negated);
             }
         }
     }
@@ -803,6 +883,14 @@ export interface HighlightToken {
     errorMessage?: string;
 }
 
+const EXPRESSION_HIGHLIGHT_TYPES: Record<ExpressionPart['type'], HighlightTokenType> = {
+    field: 'key',
+    number: 'value',
+    arithmetic: 'suboperator',
+    comparison: 'operator',
+    whitespace: 'whitespace',
+};
+
 /**
  * Tokenize the value part of a filter for sub-components.
  * Handles:
@@ -974,7 +1062,17 @@ export function tokenizeForHighlight(input: string, gameSystem: GameSystem): Hig
                 // Parse value part for sub-components (ranges, qty separator, sub-operators)
                 tokenizeValuePart(input, valueStart, token.end, highlightTokens);
             }
-        } else if (token.type === 'OR' || token.type === 'AND') {
+        } else if (token.type === 'EXPRESSION' && token.expression) {
+            // Fields as keys, numbers as values, arithmetic as sub-operators
+            for (const part of token.expression.parts) {
+                highlightTokens.push({
+                    type: EXPRESSION_HIGHLIGHT_TYPES[part.type],
+                    value: input.slice(part.start, part.end),
+                    start: part.start,
+                    end: part.end
+                });
+            }
+        } else if (token.type === 'OR' || token.type === 'AND' || token.type === 'NOT') {
             highlightTokens.push({
                 type: 'keyword',
                 value: token.value,
@@ -1054,12 +1152,71 @@ export function hasNestedGroups(ast: GroupASTNode): boolean {
     return false;
 }
 
+/**
+ * Check if the query negates a group (e.g., NOT (role=Scout)).
+ */
+export function hasNegatedGroups(node: ASTNode): boolean {
+    return node.type === 'group' && (!!node.negated || node.children.some(child => hasNegatedGroups(child)));
+}
+
+/**
+ * Check if the query uses computed expressions (e.g., armor/tons>3).
+ */
+export function hasExpressions(node: ASTNode): boolean {
+    if (node.type === 'expression') return true;
+    return node.type === 'group' && node.children.some(child => hasExpressions(child));
+}
+
 /**
  * Check if the query is too complex to represent in flat UI filters.
- * Complex queries include: OR operators, nested brackets, etc.
+ * Complex queries include: OR operators, nested brackets, negated groups, computed expressions, etc.
  */
 export function isComplexQuery(ast: GroupASTNode): boolean {
-    return hasOrOperators(ast) || hasNestedGroups(ast);
+    return hasOrOperators(ast) || hasNestedGroups(ast) || hasNegatedGroups(ast) || hasExpressions(ast);
+}
+
+// ============================================================================
+// Serialization
+// ============================================================================
+
+/**
+ * Write a filter token as canonical semantic text (e.g., `faction="Clan Wolf",Draco*`).
+ */
+export function semanticTokenToText(token: Pick<SemanticToken, 'field' | 'operator' | 'values'>): string {
+    return `${token.field}${token.operator}${token.values.map(value => formatSemanticValue(value)).join(',')}`;
+}
+
+/**
+ * Write an AST back as canonical semantic text: AND'd nodes separated by spaces,
+ * OR'd nodes by ` OR `, groups of several nodes in brackets. Parsing the text gives
+ * back the same tree, without empty groups and redundant brackets.
+ */
+export function semanticASTToText(node: ASTNode): string {
+    switch (node.type) {
+        case 'filter':
+            return semanticTokenToText(node.token);
+        case 'text':
+            return node.value;
+        case 'expression':
+            return node.text;
+        case 'group': {
+            const children = node.children
+                .map(child => ({ child, text: semanticASTToText(child) }))
+                .filter(({ text }) => text.length > 0);
+            // A lone child needs no brackets, and NOT brings its own
+            const text = children
+                .map(({ child, text }) => children.length > 1 && isCompoundGroup(child) ? `(${text})` : text)
+                .join(node.operator === 'OR' ? ' OR ' : ' ');
+            return node.negated && text ? `NOT (${text})` : text;
+        }
+    }
+}
+
+/** Whether a node writes as several AND'd or OR'd parts, which need brackets among siblings. */
+function isCompoundGroup(node: ASTNode): boolean {
+    if (node.type !== 'group' || node.negated) return false;
+    const children = node.children.filter(child => semanticASTToText(child).length > 0);
+    return children.length > 1 || (children.length === 1 && isCompoundGroup(children[0]));
 }
 
 // ============================================================================
@@ -1588,7 +1745,8 @@ function collectScopedNames(
         return getPositiveScopedNamesFromFilter(node.token, context, filterKey);
     }
 
-    if (node.type !== 'group' || node.children.length === 0) {
+    // The names of a negated group are excluded, they do not scope anything
+    if (node.type !== 'group' || node.children.length === 0 || node.negated) {
         return null;
     }
 
@@ -1989,7 +2147,8 @@ function getIndexedCandidateIdsForNode(
         case 'filter':
             return getIndexedCandidateIdsForFilter(node.token, context, activeScope);
         case 'group':
-            if (node.children.length === 0) {
+            // A negated group matches outside of its indexed candidates
+            if (node.children.length === 0 || node.negated) {
                 return null;
             }
 
@@ -2923,6 +3082,56 @@ function evaluateSemanticFilter(
     return operator === '!=';
 }
 
+/**
+ * Get a field's value for a computed expression, the same value its range filter compares.
+ */
+function getExpressionFieldValue(field: string, unit: any, context: EvaluatorContext): number | null {
+    const conf = getSortedFilterConfigs(context, field).find(candidate => candidate.type === AdvFilterType.RANGE);
+    if (!conf) return null;
+
+    let unitValue: any;
+    if (conf.key === 'bv' && context.getAdjustedBV) {
+        unitValue = context.getAdjustedBV(unit);
+    } else if (conf.key === 'as.PV' && context.getAdjustedPV) {
+        unitValue = context.getAdjustedPV(unit);
+    } else {
+        unitValue = context.getProperty(unit, conf.key);
+    }
+
+    if (unitValue == null || conf.ignoreValues?.includes(unitValue)) return null;
+    const numValue = typeof unitValue === 'number' ? unitValue : parseFloat(unitValue);
+    return Number.isFinite(numValue) ? numValue : null;
+}
+
+/**
+ * Evaluate an arithmetic expression for a unit.
+ * Returns null when a field has no value for the unit or a division by zero occurs.
+ */
+export function evaluateExpressionForUnit(expression: ArithmeticExpression, unit: any, context: EvaluatorContext): number | null {
+    return evaluateArithmeticExpression(expression, field => getExpressionFieldValue(field, unit, context));
+}
+
+/**
+ * Evaluate a computed comparison (e.g., armor/tons>3) against a unit.
+ * Units missing a value on either side never match.
+ */
+function evaluateComputedComparison(comparison: ComputedComparison, unit: any, context: EvaluatorContext): boolean {
+    const left = evaluateExpressionForUnit(comparison.left, unit, context);
+    if (left === null) return false;
+    const right = evaluateExpressionForUnit(comparison.right, unit, context);
+    if (right === null) return false;
+    return compareComputedValues(left, comparison.operator, right);
+}
+
+/**
+ * Parse the expression of a computed sort key (e.g., `=dpt/bv*1000`).
+ * Returns null for regular sort keys and for expressions using unknown fields.
+ */
+export function parseComputedSortExpression(sortKey: string, gameSystem: GameSystem): ArithmeticExpression | null {
+    const semanticKeyMap = buildSemanticKeyMap(gameSystem);
+    return parseComputedSortKey(sortKey, field => isExpressionField(field, semanticKeyMap));
+}
+
 /**
  * Evaluate an AST node against a unit.
  * Returns true if the unit matches the node's criteria.
@@ -2945,6 +3154,9 @@ export function evaluateASTNode(
             
         case 'filter':
             return evaluateFilter(node.token, unit, context, activeScope);
+
+        case 'expression':
+            return evaluateComputedComparison(node.expression, unit, context);
             
         case 'group':
             return evaluateGroup(node, unit, context, activeScope);
@@ -2964,20 +3176,24 @@ function evaluateGroup(
     activeScope?: AvailabilityFilterScope,
 ): boolean {
     if (group.children.length === 0) return true;
-    
+
+    let matches: boolean;
     if (group.operator === 'AND') {
+        // Scope the children by the group's own names, even when the group is negated
+        const scopeGroup: GroupASTNode = group.negated ? { ...group, negated: false } : group;
         const nextActiveScope: AvailabilityFilterScope = {
             bridgeThroughMulMembership: activeScope?.bridgeThroughMulMembership,
-            eraNames: mergeActiveNames(activeScope?.eraNames, collectScopedNames(group, context, 'era')),
-            factionNames: mergeActiveNames(activeScope?.factionNames, collectScopedNames(group, context, 'faction')),
-            availabilityFromNames: mergeActiveNames(activeScope?.availabilityFromNames, collectScopedNames(group, context, 'availabilityFrom')),
+            eraNames: mergeActiveNames(activeScope?.eraNames, collectScopedNames(scopeGroup, context, 'era')),
+            factionNames: mergeActiveNames(activeScope?.factionNames, collectScopedNames(scopeGroup, context, 'faction')),
+            availabilityFromNames: mergeActiveNames(activeScope?.availabilityFromNames, collectScopedNames(scopeGroup, context, 'availabilityFrom')),
         };
         // All children must match
-        return group.children.every(child => evaluateASTNode(child, unit, context, nextActiveScope));
+        matches = group.children.every(child => evaluateASTNode(child, unit, context, nextActiveScope));
     } else {
         // OR: At least one child must match
-        return group.children.some(child => evaluateASTNode(child, unit, context, activeScope));
+        matches = group.children.some(child => evaluateASTNode(child, unit, context, activeScope));
     }
+    return group.negated ? !matches : matches;
 }
 
 /**
@@ -3015,7 +3231,7 @@ export function filterUnitsWithAST(
  * Check if AST contains any filter nodes.
  */
 function hasFilterNodes(node: ASTNode): boolean {
-    if (node.type === 'filter') return true;
+    if (node.type === 'filter' || node.type === 'expression') return true;
     if (node.type === 'group') {
         return node.children.some(child => hasFilterNodes(child));
     }
@@ -3065,6 +3281,10 @@ function collectMatchingText(
     }
     
     if (node.type === 'group') {
+        if (node.negated) {
+            // The text of a negated group is the one the unit does not match
+            return [];
+        }
         if (node.operator === 'AND') {
             // For AND, collect all matching text from all children
             const texts: string[] = [];
@@ -1062,15 +1062,15 @@ export function filterStateToSemanticText(
                 }
 
                 if (includeValues.length > 0) {
-                    const formatted = Array.from(new Set(includeValues)).map(v => formatValue(v)).join(',');
+                    const formatted = Array.from(new Set(includeValues)).map(v => formatSemanticValue(v)).join(',');
                     parts.push(`${semanticKey}${includeOperator}${formatted}`);
                 }
                 if (andValues.length > 0) {
-                    const formatted = Array.from(new Set(andValues)).map(v => formatValue(v)).join(',');
+                    const formatted = Array.from(new Set(andValues)).map(v => formatSemanticValue(v)).join(',');
                     parts.push(`${semanticKey}&=${formatted}`);
                 }
                 if (excludeValues.length > 0) {
-                    const formatted = Array.from(new Set(excludeValues)).map(v => formatValue(v)).join(',');
+                    const formatted = Array.from(new Set(excludeValues)).map(v => formatSemanticValue(v)).join(',');
                     parts.push(`${semanticKey}!=${formatted}`);
                 }
 
@@ -1091,15 +1091,15 @@ export function filterStateToSemanticText(
                 }
 
                 if (includeValues.length > 0) {
-                    const formatted = Array.from(new Set(includeValues)).map(v => formatValue(v)).join(',');
+                    const formatted = Array.from(new Set(includeValues)).map(v => formatSemanticValue(v)).join(',');
                     parts.push(`${semanticKey}${includeOperator}${formatted}`);
                 }
                 if (andValues.length > 0) {
-                    const formatted = Array.from(new Set(andValues)).map(v => formatValue(v)).join(',');
+                    const formatted = Array.from(new Set(andValues)).map(v => formatSemanticValue(v)).join(',');
                     parts.push(`${semanticKey}&=${formatted}`);
                 }
                 if (excludeValues.length > 0) {
-                    const formatted = Array.from(new Set(excludeValues)).map(v => formatValue(v)).join(',');
+                    const formatted = Array.from(new Set(excludeValues)).map(v => formatSemanticValue(v)).join(',');
                     parts.push(`${semanticKey}!=${formatted}`);
                 }
             }
@@ -1123,15 +1123,15 @@ export function filterStateToSemanticText(
             }
 
             if (orValues.length > 0) {
-                const formatted = Array.from(new Set(orValues)).map(v => formatValue(v)).join(',');
+                const formatted = Array.from(new Set(orValues)).map(v => formatSemanticValue(v)).join(',');
                 parts.push(`${semanticKey}${includeOperator}${formatted}`);
             }
             if (andValues.length > 0) {
-                const formatted = Array.from(new Set(andValues)).map(v => formatValue(v)).join(',');
+                const formatted = Array.from(new Set(andValues)).map(v => formatSemanticValue(v)).join(',');
                 parts.push(`${semanticKey}&=${formatted}`);
             }
             if (excludeValues.length > 0) {
-                const formatted = Array.from(new Set(excludeValues)).map(v => formatValue(v)).join(',');
+                const formatted = Array.from(new Set(excludeValues)).map(v => formatSemanticValue(v)).join(',');
                 parts.push(`${semanticKey}!=${formatted}`);
             }
         }
@@ -1143,7 +1143,7 @@ export function filterStateToSemanticText(
 /**
  * Format a value for output, adding quotes if needed.
  */
-function formatValue(value: string): string {
+export function formatSemanticValue(value: string): string {
     // Add quotes if value contains spaces, commas, special chars, or quotes
     if (/[\s,=!<>"']/.test(value)) {
         // Use double quotes, escape any internal double quotes and backslashes
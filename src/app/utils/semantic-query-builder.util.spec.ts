@@ -0,0 +1,65 @@
+// Copyright (C) 2026 The MegaMek Team
+// SPDX-License-Identifier: GPL-3.0-or-later
+// Author: Drake
+
+import { GameSystem } from '../models/common.model';
+import { parseSemanticQueryAST, semanticASTToText, type FilterASTNode, type GroupASTNode } from './semantic-filter-ast.util';
+import {
+    getFilterNodePickerState,
+    getNodeAtPath,
+    moveNode,
+    parseSemanticNode,
+    pickerValueToNode,
+    replaceNodeAtPath,
+    updateGroupAtPath,
+} from './semantic-query-builder.util';
+
+function parse(query: string): GroupASTNode {
+    return parseSemanticQueryAST(query, GameSystem.CLASSIC).ast;
+}
+
+describe('semantic query builder', () => {
+    it('moves a condition between groups', () => {
+        const root = parse('type=Mek (role=Scout OR tons<30) bv>1000');
+
+        expect(semanticASTToText(moveNode(root, [2], [1], 1))).toBe('type=Mek (role=Scout OR bv>1000 OR tons<30)');
+        expect(semanticASTToText(moveNode(root, [1, 0], [], 0))).toBe('role=Scout type=Mek tons<30 bv>1000');
+        expect(semanticASTToText(moveNode(root, [0], [1], 2))).toBe('(role=Scout OR tons<30 OR type=Mek) bv>1000');
+    });
+
+    it('does not move a group into itself', () => {
+        const root = parse('type=Mek (role=Scout OR (tons<30 bv>1000))');
+
+        expect(moveNode(root, [1], [1, 1], 0)).toBe(root);
+        expect(moveNode(root, [1], [1], 0)).toBe(root);
+    });
+
+    it('toggles the operator and negation of a group', () => {
+        const root = parse('type=Mek (role=Scout OR tons<30)');
+        const edited = updateGroupAtPath(root, [1], group => ({ ...group, operator: 'AND', negated: true }));
+
+        expect(semanticASTToText(edited)).toBe('type=Mek NOT (role=Scout tons<30)');
+        expect(semanticASTToText(root)).toBe('type=Mek (role=Scout OR tons<30)');
+    });
+
+    it('replaces and removes nodes', () => {
+        const root = parse('type=Mek (role=Scout OR tons<30)');
+
+        expect(semanticASTToText(replaceNodeAtPath(root, [1, 1], null))).toBe('type=Mek role=Scout');
+        expect(semanticASTToText(replaceNodeAtPath(root, [0], parseSemanticNode('type=Tank bv<900', GameSystem.CLASSIC))))
+            .toBe('(type=Tank bv<900) (role=Scout OR tons<30)');
+        expect(getNodeAtPath(root, [1, 5])).toBeNull();
+    });
+
+    it('edits a filter through its picker value', () => {
+        const node = getNodeAtPath(parse('role=Scout,Striker'), [0]) as FilterASTNode;
+        const picker = getFilterNodePickerState(node, GameSystem.CLASSIC, {});
+
+        expect(picker?.conf.key).toBe('role');
+        expect(picker?.state.value).toEqual(['Scout', 'Striker']);
+
+        const edited = pickerValueToNode(picker!.conf, ['Juggernaut'], GameSystem.CLASSIC, {});
+        expect(edited ? semanticASTToText(edited) : '').toBe('role=Juggernaut');
+        expect(pickerValueToNode(picker!.conf, [], GameSystem.CLASSIC, {})).toBeNull();
+    });
+});
@@ -0,0 +1,149 @@
+// Copyright (C) 2026 The MegaMek Team
+// SPDX-License-Identifier: GPL-3.0-or-later
+// Author: Drake
+
+import type { GameSystem } from '../models/common.model';
+import type { AdvFilterConfig } from '../services/unit-search-filters.model';
+import { parseSemanticQueryAST, type ASTNode, type FilterASTNode, type GroupASTNode } from './semantic-filter-ast.util';
+import { buildSemanticKeyMap, filterStateToSemanticText, tokensToFilterState, type SemanticFilterState } from './semantic-filter.util';
+
+/**
+ * Query builder: immutable edits of a semantic query tree, for the visual editor.
+ *
+ * Nodes are addressed by their path of child indexes from the root group; the
+ * root itself is the empty path. Every edit returns a new root and leaves the
+ * nodes off its path shared. Node positions (start/end) are not kept up to date:
+ * the tree is written back with semanticASTToText and parsed again.
+ */
+
+export type ASTPath = readonly number[];
+
+/** Picker state of a filter node, in the form the advanced filters panel uses */
+export interface FilterNodePickerState {
+    conf: AdvFilterConfig;
+    state: SemanticFilterState[string];
+}
+
+export function createGroupNode(operator: 'AND' | 'OR', children: ASTNode[] = []): GroupASTNode {
+    return { type: 'group', operator, children, start: 0, end: 0 };
+}
+
+export function getNodeAtPath(root: GroupASTNode, path: ASTPath): ASTNode | null {
+    let node: ASTNode = root;
+    for (const index of path) {
+        if (node.type !== 'group' || !node.children[index]) return null;
+        node = node.children[index];
+    }
+    return node;
+}
+
+/** Whether the path is the ancestor path itself or leads inside it. */
+export function isPathWithin(path: ASTPath, ancestor: ASTPath): boolean {
+    return ancestor.length <= path.length && ancestor.every((index, i) => path[i] === index);
+}
+
+/**
+ * Replace the node at the path. A null node removes it; a node can also be
+ * replaced by several, which take its place among its siblings.
+ */
+export function replaceNodeAtPath(root: GroupASTNode, path: ASTPath, node: ASTNode | ASTNode[] | null): GroupASTNode {
+    if (path.length === 0) {
+        if (Array.isArray(node)) return createGroupNode('AND', node);
+        return node?.type === 'group' ? node : createGroupNode('AND', node ? [node] : []);
+    }
+    const replacement = node === null ? [] : Array.isArray(node) ? node : [node];
+    return updateGroupAtPath(root, path.slice(0, -1), group => {
+        const children = [...group.children];
+        children.splice(path[path.length - 1], 1, ...replacement);
+        return { ...group, children };
+    });
+}
+
+export function insertNodeAtPath(root: GroupASTNode, groupPath: ASTPath, index: number, node: ASTNode): GroupASTNode {
+    return updateGroupAtPath(root, groupPath, group => {
+        const children = [...group.children];
+        children.splice(Math.max(0, Math.min(index, children.length)), 0, node);
+        return { ...group, children };
+    });
+}
+
+/**
+ * Move a node into a group, before the child at `index` (indexes as they are
+ * before the move). A group can't be moved into itself or its descendants.
+ */
+export function moveNode(root: GroupASTNode, from: ASTPath, toGroupPath: ASTPath, index: number): GroupASTNode {
+    const node = getNodeAtPath(root, from);
+    if (!node || from.length === 0 || isPathWithin(toGroupPath, from)) return root;
+
+    const fromGroupPath = from.slice(0, -1);
+    const fromIndex = from[from.length - 1];
+    let targetPath = [...toGroupPath];
+    let targetIndex = index;
+    // Removing the node shifts its later siblings, and their descendants, one place back
+    if (isPathWithin(toGroupPath, fromGroupPath)) {
+        const depth = fromGroupPath.length;
+        if (toGroupPath.length === depth) {
+            if (targetIndex > fromIndex) targetIndex--;
+        } else if (toGroupPath[depth] > fromIndex) {
+            targetPath[depth]--;
+        }
+    }
+    return insertNodeAtPath(replaceNodeAtPath(root, from, null), targetPath, targetIndex, node);
+}
+
+export function updateGroupAtPath(root: GroupASTNode, path: ASTPath, update: (group: GroupASTNode) => GroupASTNode): GroupASTNode {
+    if (path.length === 0) return update(root);
+    const [index, ...rest] = path;
+    const child = root.children[index];
+    if (!child || child.type !== 'group') return root;
+
+    const children = [...root.children];
+    children[index] = updateGroupAtPath(child, rest, update);
+    return { ...root, children };
+}
+
+/**
+ * Parse a piece of semantic text into a single node: its only node, or an AND
+ * group of them. Returns null for blank text.
+ */
+export function parseSemanticNode(text: string, gameSystem: GameSystem): ASTNode | null {
+    const { ast } = parseSemanticQueryAST(text.trim(), gameSystem);
+    if (ast.children.length === 0) return null;
+    return ast.children.length === 1 ? ast.children[0] : ast;
+}
+
+/**
+ * Picker state of a filter node, or null when no picker can show it (unknown
+ * field, or values only semantic text can express).
+ */
+export function getFilterNodePickerState(
+    node: FilterASTNode,
+    gameSystem: GameSystem,
+    totalRanges: Record<string, [number, number]>,
+): FilterNodePickerState | null {
+    const conf = buildSemanticKeyMap(gameSystem).get(node.token.field);
+    if (!conf) return null;
+
+    const state = tokensToFilterState([node.token], gameSystem, totalRanges)[conf.key];
+    if (!state || state.semanticOnly) return null;
+    return { conf, state };
+}
+
+/**
+ * The node for a picker value. Returns null when the value doesn't filter
+ * anything (e.g. nothing selected, full range), so the filter goes away.
+ */
+export function pickerValueToNode(
+    conf: AdvFilterConfig,
+    value: unknown,
+    gameSystem: GameSystem,
+    totalRanges: Record<string, [number, number]>,
+): ASTNode | null {
+    const text = filterStateToSemanticText(
+        { [conf.key]: { value, interactedWith: true } },
+        '',
+        gameSystem,
+        totalRanges,
+    );
+    return parseSemanticNode(text, gameSystem);
+}
@@ -3,6 +3,8 @@
 // Author: Drake
 
 const PNG_MIME_TYPE = 'image/png';
+const JPEG_MIME_TYPE = 'image/jpeg';
+const DEFAULT_JPEG_QUALITY = 0.92;
 const DEFAULT_PNG_SCALE = 3;
 const DEFAULT_CLIPBOARD_PNG_SCALE = 5; //workaround for some browsers that uses some internal pixel scaling that is less than the rendering one
 
@@ -19,7 +21,7 @@ export type SvgPngRenderOptions = {
     backgroundColor?: string;
 };
 
-type RenderedPng = {
+export type RenderedImage = {
     blob: Blob;
     width: number;
     height: number;
@@ -70,6 +72,11 @@ export class SvgExportUtil {
         return (await this.generatePng(svgs, options))?.blob ?? null;
     }
 
+    /** Renders SVGs side by side into an opaque JPEG, as embedded in PDF exports. */
+    static async renderJpeg(svgs: SVGSVGElement[], options: SvgPngRenderOptions = {}): Promise<RenderedImage | null> {
+        return await this.generatePng(svgs, options, JPEG_MIME_TYPE, DEFAULT_JPEG_QUALITY);
+    }
+
     static downloadPngBlob(pngBlob: Blob, fileName: string): void {
         const pngUrl = URL.createObjectURL(pngBlob);
         try {
@@ -126,7 +133,12 @@ export class SvgExportUtil {
         await this.copyPngBlobWithExecCommand(pngBlob, fileName, dimensions);
     }
 
-    private static async generatePng(svgs: SVGSVGElement[], options: SvgPngRenderOptions = {}): Promise<RenderedPng | null> {
+    private static async generatePng(
+        svgs: SVGSVGElement[],
+        options: SvgPngRenderOptions = {},
+        mimeType = PNG_MIME_TYPE,
+        quality?: number,
+    ): Promise<RenderedImage | null> {
         if (svgs.length === 0) return null;
 
         const scale = options.scale ?? DEFAULT_PNG_SCALE;
@@ -167,7 +179,7 @@ export class SvgExportUtil {
                 x += size.width;
             }
 
-            const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, PNG_MIME_TYPE));
+            const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, mimeType, quality));
             return blob ? { blob, width: canvas.width, height: canvas.height } : null;
         } finally {
             for (const entry of entries) {
@@ -236,7 +248,7 @@ export class SvgExportUtil {
         image.setAttributeNS('http://www.w3.org/1999/xlink', 'xlink:href', value);
     }
 
-    private static async fetchImageAsDataUrl(href: string): Promise<string | null> {
+    static async fetchImageAsDataUrl(href: string): Promise<string | null> {
         let url: string;
         try {
             url = new URL(href, document.baseURI).toString();
@@ -0,0 +1,95 @@
+// Copyright (C) 2026 The MegaMek Team
+// SPDX-License-Identifier: GPL-3.0-or-later
+// Author: Drake
+
+import { TestBipedMekEntity as BipedMekEntity } from '../models/entity/testing/test-entities';
+import { createTestEquipmentRegistry } from '../models/entity/testing/test-equipment-registry';
+import { MiscEquipment } from '../models/equipment.model';
+import {
+    allocateMekEquipment,
+    createNewUnitFile,
+    getFreeCriticalSlots,
+    getMekLocationSlotCount,
+    getUnitFileName,
+    releaseMekEquipment,
+} from './unit-construction.util';
+
+describe('unit construction utilities', () => {
+    const sensor = new MiscEquipment({
+        id: 'TestSensor',
+        name: 'Test Sensor',
+        type: 'misc',
+        flags: ['F_MEK_EQUIPMENT'],
+        stats: { criticalSlots: 3 },
+    });
+    const registry = createTestEquipmentRegistry({ [sensor.id]: sensor });
+
+    function createMek(): BipedMekEntity {
+        const entity = new BipedMekEntity(registry);
+        entity.chassis.set('Homebrew');
+        entity.model.set('HB-1');
+        return entity;
+    }
+
+    function install(entity: BipedMekEntity) {
+        return entity.addEquipment({
+            equipmentId: sensor.id,
+            equipment: sensor,
+            allocation: { kind: 'unallocated' },
+            rearMounted: false,
+            turretMounted: false,
+            omniPodMounted: false,
+            armored: false,
+        });
+    }
+
+    it('generates parseable templates for each unit family', () => {
+        const mek = createNewUnitFile({ kind: 'QuadMek', techBase: 'Clan', chassis: ' Homebrew ', model: 'HB-1', year: 3100 });
+        expect(mek.fileName).toBe('Homebrew HB-1.mtf');
+        expect(mek.content).toContain('Config:Quad');
+        expect(mek.content).toContain('techbase:Clan');
+        expect(mek.content).toContain('heat sinks:10 Clan Double');
+
+        const tank = createNewUnitFile({ kind: 'Tank', techBase: 'IS', chassis: 'Hauler', model: '', year: 3050 });
+        expect(tank.fileName).toBe('Hauler Unit.blk');
+        expect(tank.content.startsWith('<UnitType>\nTank\n</UnitType>')).toBeTrue();
+        expect(tank.content).toContain('<year>\n3050\n</year>');
+
+        const battleArmor = createNewUnitFile({ kind: 'BattleArmor', techBase: 'IS', chassis: 'Suit', model: 'A', year: 3060 });
+        expect(battleArmor.content).toContain('<Trooper Count>\n4\n</Trooper Count>');
+    });
+
+    it('names exported files after the unit and its format', () => {
+        const entity = createMek();
+        entity.model.set('HB/1');
+        expect(getUnitFileName(entity)).toBe('Homebrew HB_1.mtf');
+    });
+
+    it('limits head and leg locations to six slots', () => {
+        const entity = createMek();
+        expect(getMekLocationSlotCount(entity, 'HD')).toBe(6);
+        expect(getMekLocationSlotCount(entity, 'LL')).toBe(6);
+        expect(getMekLocationSlotCount(entity, 'RT')).toBe(12);
+    });
+
+    it('places and releases equipment in free critical slots', () => {
+        const entity = createMek();
+        const freeBefore = getFreeCriticalSlots(entity, 'RA');
+
+        const placed = allocateMekEquipment(entity, install(entity), 'RA');
+        expect(placed.location).toBe('RA');
+        expect(placed.placements?.map(placement => placement.slotIndex)).toEqual(freeBefore.slice(0, 3));
+        expect(getFreeCriticalSlots(entity, 'RA')).toEqual(freeBefore.slice(3));
+
+        const released = releaseMekEquipment(entity, placed);
+        expect(released.allocation.kind).toBe('unallocated');
+        expect(getFreeCriticalSlots(entity, 'RA')).toEqual(freeBefore);
+    });
+
+    it('rejects equipment that does not fit the location', () => {
+        const entity = createMek();
+        allocateMekEquipment(entity, install(entity), 'RA');
+        allocateMekEquipment(entity, install(entity), 'RA');
+        expect(() => allocateMekEquipment(entity, install(entity), 'RA')).toThrowError(/Not enough free critical slots/);
+    });
+});
@@ -0,0 +1,413 @@
+// Copyright (C) 2026 The MegaMek Team
+// SPDX-License-Identifier: GPL-3.0-or-later
+// Author: Drake
+
+import { MountedEngine } from '../models/entity/components/engine';
+import type { BaseEntity } from '../models/entity/base-entity';
+import { BattleArmorEntity } from '../models/entity/entities/infantry/battle-armor-entity';
+import type { MekEntity } from '../models/entity/entities/mek/mek-entity';
+import { encodeBlkTechLevel } from '../models/entity/parsers/blk-codec';
+import { encodeMtfEngine, encodeMtfStructure } from '../models/entity/parsers/mtf-codec';
+import type { EngineType } from '../models/entity/types/engine';
+import type { EntityMountedEquipment, MountPlacement } from '../models/entity/types/equipment';
+import type { EntityTechBase } from '../models/entity/types/tech';
+import { isMekEntity, isVehicleEntity } from '../models/entity/utils/entity-type-guards';
+import {
+    AmmoEquipment,
+    ArmorEquipment,
+    Equipment,
+    MiscEquipment,
+    StructureEquipment,
+    WeaponEquipment,
+} from '../models/equipment.model';
+import type { EquipmentFlag } from '../models/equipment-flags.type';
+import type { UnitImportFile } from '../services/imported-units.service';
+
+/*
+ * Construction helpers for the unit editor.
+ *
+ * The entity layer already derives tonnage, BV, cost and validation from its
+ * signals; these helpers cover the editing operations it does not model as a
+ * single call, mostly Mek critical-slot bookkeeping.
+ */
+
+export type UnitConstructionKind = 'BipedMek' | 'QuadMek' | 'Tank' | 'BattleArmor';
+
+export const UNIT_CONSTRUCTION_KINDS: readonly { kind: UnitConstructionKind; label: string }[] = [
+    { kind: 'BipedMek', label: 'BattleMek (Biped)' },
+    { kind: 'QuadMek', label: 'BattleMek (Quad)' },
+    { kind: 'Tank', label: 'Combat Vehicle' },
+    { kind: 'BattleArmor', label: 'Battle Armor' },
+];
+
+export const MEK_ENGINE_TYPES: readonly EngineType[] = ['Fusion', 'XL', 'XXL', 'Light', 'Compact', 'ICE', 'Fuel Cell'];
+export const VEHICLE_ENGINE_TYPES: readonly EngineType[] = ['Fusion', 'XL', 'XXL', 'Light', 'Compact', 'ICE', 'Fuel Cell'];
+
+export interface NewUnitOptions {
+    kind: UnitConstructionKind;
+    techBase: EntityTechBase;
+    chassis: string;
+    model: string;
+    year: number;
+}
+
+/** Family flags an item needs to be installable on each editable unit family. */
+const MOUNT_FLAGS: Record<'Mek' | 'Tank' | 'BattleArmor', EquipmentFlag[]> = {
+    Mek: ['F_MEK_WEAPON', 'F_MEK_EQUIPMENT'],
+    Tank: ['F_TANK_WEAPON', 'F_TANK_EQUIPMENT'],
+    BattleArmor: ['F_BA_WEAPON', 'F_BA_EQUIPMENT'],
+};
+
+const MEK_AUTO_ALLOCATION_ORDER = ['RT', 'LT', 'RA', 'LA', 'CT', 'RL', 'LL', 'FRL', 'FLL', 'RRL', 'RLL', 'HD'];
+
+/**
+ * Generates the file for a blank unit of the given kind. Starting from a file
+ * lets the regular parser apply every construction default the entity layer
+ * expects, exactly as it does for units loaded from disk.
+ */
+export function createNewUnitFile(options: NewUnitOptions): UnitImportFile {
+    const chassis = options.chassis.trim() || 'New';
+    const model = options.model.trim() || 'Unit';
+    const clan = options.techBase === 'Clan';
+    const fileName = `${chassis} ${model}`;
+
+    switch (options.kind) {
+        case 'BipedMek':
+        case 'QuadMek': {
+            const lines = [
+                `chassis:${chassis}`,
+                `model:${model}`,
+                `Config:${options.kind === 'QuadMek' ? 'Quad' : 'Biped'}`,
+                `techbase:${clan ? 'Clan' : 'Inner Sphere'}`,
+                `era:${options.year}`,
+                'rules level:2',
+                '',
+                'mass:50',
+                `engine:${encodeMtfEngine({ rating: 200, type: 'Fusion', techBase: options.techBase, mixedTech: false })}`,
+                `structure:${encodeMtfStructure('Standard', options.techBase, false)}`,
+                'myomer:Standard',
+                '',
+                `heat sinks:10 ${clan ? 'Clan Double' : 'Single'}`,
+                'walk mp:4',
+                'jump mp:0',
+                '',
+                `armor:Standard(${clan ? 'Clan' : 'Inner Sphere'})`,
+                '',
+            ];
+            return { fileName: `${fileName}.mtf`, content: lines.join('\n') };
+        }
+        case 'Tank':
+            return {
+                fileName: `${fileName}.blk`,
+                content: blkTemplate(chassis, model, options, [
+                    ['UnitType', 'Tank'],
+                    ['motion_type', 'Tracked'],
+                    ['cruiseMP', '4'],
+                    ['engine_type', '0'],
+                    ['armor_type', '0'],
+                    ['armor', '0', '0', '0', '0'],
+                    ['tonnage', '50.0'],
+                ]),
+            };
+        case 'BattleArmor':
+            return {
+                fileName: `${fileName}.blk`,
+                content: blkTemplate(chassis, model, options, [
+                    ['UnitType', 'BattleArmor'],
+                    ['chassis', 'biped'],
+                    ['Trooper Count', clan ? '5' : '4'],
+                    ['weightclass', '2'],
+                    ['motion_type', 'Leg'],
+                    ['cruiseMP', '1'],
+                    ['armor_type', '28'],
+                    ['armor', '0'],
+                ]),
+            };
+    }
+}
+
+function blkTemplate(chassis: string, model: string, options: NewUnitOptions, blocks: string[][]): string {
+    const header: string[][] = [
+        ['Name', chassis],
+        ['Model', model],
+        ['year', String(options.year)],
+        ['type', encodeBlkTechLevel({ techBase: options.techBase, rulesLevel: 2, mixedTech: false })],
+    ];
+    const [unitType, ...rest] = blocks;
+    return [unitType, ...header, ...rest]
+        .map(([tag, ...values]) => [`<${tag}>`, ...values, `</${tag}>`].join('\n'))
+        .join('\n\n') + '\n';
+}
+
+/** File name an edited unit is exported under. */
+export function getUnitFileName(entity: BaseEntity): string {
+    const base = `${entity.chassis()} ${entity.model()}`.trim().replace(/[\\/:*?"<>|]+/g, '_') || 'unit';
+    return `${base}.${isMekEntity(entity) ? 'mtf' : 'blk'}`;
+}
+
+// ── Chassis ─────────────────────────────────────────────────────────────
+
+export interface ChassisSettings {
+    tonnage: number;
+    walkMP: number;
+    engineType: EngineType;
+}
+
+/**
+ * Applies tonnage, movement and engine type together. Engine rating follows
+ * from the other two, so they can not be changed independently.
+ */
+export function applyChassisSettings(entity: BaseEntity, settings: ChassisSettings): void {
+    entity.setTonnage(settings.tonnage);
+    const structure = entity.uniformStructure();
+    if (structure && !(entity instanceof BattleArmorEntity)) {
+        entity.setUniformStructure(structure.withTonnage(settings.tonnage));
+    }
+    entity.originalWalkMP.set(settings.walkMP);
+
+    const engine = entity.mountedEngine();
+    if (isMekEntity(entity)) {
+        entity.configureEngine(new MountedEngine({
+            type: settings.engineType,
+            rating: settings.walkMP * settings.tonnage,
+            techBase: engine.techBase,
+            isSuperHeavy: settings.tonnage > 100,
+        }));
+        releaseConflictingPlacements(entity);
+    } else if (isVehicleEntity(entity)) {
+        entity.mountedEngine.set(new MountedEngine({
+            type: settings.engineType,
+            rating: entity.calculateEngineRating(settings.engineType),
+            techBase: engine.techBase,
+            isSuperHeavy: engine.isSuperHeavy,
+        }));
+    }
+}
+
+/** Fills every location with the most armor it can carry, torso armor split 3:1 front to rear. */
+export function maximizeArmor(entity: BaseEntity): void {
+    const maxArmor = entity.maxArmorValues();
+    if (entity instanceof BattleArmorEntity) {
+        entity.setArmorValue('Squad', 'front', maxArmor.get('Squad') ?? 0);
+        return;
+    }
+    for (const location of entity.armorLocations) {
+        const max = maxArmor.get(location) ?? 0;
+        if (entity.hasRearArmor(location)) {
+            const rear = Math.floor(max / 4);
+            entity.setArmorValue(location, 'front', max - rear);
+            entity.setArmorValue(location, 'rear', rear);
+        } else {
+            entity.setArmorValue(location, 'front', max);
+        }
+    }
+}
+
+// ── Equipment catalogue ─────────────────────────────────────────────────
+
+function mountFamily(entity: BaseEntity): 'Mek' | 'Tank' | 'BattleArmor' {
+    if (entity instanceof BattleArmorEntity) return 'BattleArmor';
+    return isMekEntity(entity) ? 'Mek' : 'Tank';
+}
+
+/** Structure and armor equipment that occupies critical slots (Endo Steel, Ferro-Fibrous, …). */
+export function isConstructionSlotEquipment(equipment: Equipment | undefined): boolean {
+    return equipment instanceof StructureEquipment || equipment instanceof ArmorEquipment;
+}
+
+/**
+ * Whether an item can be added to the unit from the equipment list. Heat sinks
+ * are configured through the engine, structure and armor through their own
+ * selectors, and ammunition is offered only for weapons already installed.
+ */
+export function isMountableEquipment(entity: BaseEntity, equipment: Equipment): boolean {
+    if (isConstructionSlotEquipment(equipment) || equipment.isInternalRepresentation) return false;
+    if (!equipment.isAvailableIn(entity.year(), entity.techBase())) return false;
+
+    if (equipment instanceof AmmoEquipment) {
+        if (equipment.hasFlag('F_BATTLEARMOR') !== (entity instanceof BattleArmorEntity)) return false;
+        return entity.equipment().some(mount => mount.equipment instanceof WeaponEquipment
+            && entity.getEquipmentRegistry().getAmmoForWeapon(mount.equipment).includes(equipment));
+    }
+    if (isMekEntity(entity) && equipment instanceof MiscEquipment && equipment.isHeatSink) return false;
+    return equipment.hasAnyFlag(MOUNT_FLAGS[mountFamily(entity)]);
+}
+
+export function getStructureOptions(entity: BaseEntity): StructureEquipment[] {
+    return Object.values(entity.getEquipmentRegistry().equipment)
+        .filter((equipment): equipment is StructureEquipment => equipment instanceof StructureEquipment
+            && equipment.structureTypeId >= 0
+            && isOfferedConstructionMaterial(entity, equipment))
+        .sort((a, b) => a.structureTypeId - b.structureTypeId);
+}
+
+export function getArmorOptions(entity: BaseEntity): ArmorEquipment[] {
+    const battleArmor = entity instanceof BattleArmorEntity;
+    return Object.values(entity.getEquipmentRegistry().equipment)
+        .filter((equipment): equipment is ArmorEquipment => equipment instanceof ArmorEquipment
+            && equipment.armorType !== 'PATCHWORK'
+            && equipment.armorType.startsWith('BA_') === battleArmor
+            && isOfferedConstructionMaterial(entity, equipment))
+        .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export function getHeatSinkOptions(entity: MekEntity): MiscEquipment[] {
+    return ['Heat Sink', 'ISDoubleHeatSink', 'CLDoubleHeatSink', '1 Compact Heat Sink', 'Laser Heat Sink']
+        .map(id => entity.getEquipmentRegistry().equipment[id])
+        .filter((equipment): equipment is MiscEquipment => equipment instanceof MiscEquipment
+            && (equipment.techBase === 'All' || equipment.techBase === entity.techBase()));
+}
+
+function isOfferedConstructionMaterial(entity: BaseEntity, equipment: Equipment): boolean {
+    if (equipment.techBase !== 'All' && equipment.techBase !== entity.techBase()) return false;
+    const familyFlags = Object.values(MOUNT_FLAGS).flat();
+    return !equipment.hasAnyFlag(familyFlags) || equipment.hasAnyFlag(MOUNT_FLAGS[mountFamily(entity)]);
+}
+
+/** Installs an item at the default location for the unit family. */
+export function addConstructionEquipment(entity: BaseEntity, equipment: Equipment, location: string): EntityMountedEquipment {
+    const battleArmor = entity instanceof BattleArmorEntity;
+    const mount = entity.addEquipment({
+        equipmentId: equipment.id,
+        equipment,
+        allocation: isMekEntity(entity)
+            ? { kind: 'unallocated' }
+            : { kind: 'location', location: battleArmor ? 'Squad' : location },
+        rearMounted: false,
+        turretMounted: false,
+        omniPodMounted: false,
+        armored: false,
+        ...(battleArmor ? { baMountLocation: 'Body' as const } : {}),
+    });
+    return isMekEntity(entity) ? allocateMekEquipment(entity, mount, location) : mount;
+}
+
+// ── Mek critical slots ──────────────────────────────────────────────────
+
+/** Usable critical slots in a Mek location; the grid always reports 12. */
+export function getMekLocationSlotCount(entity: MekEntity, location: string): number {
+    return entity.getLocationCriticalSlotCount(location);
+}
+
+export function getFreeCriticalSlots(entity: MekEntity, location: string): number[] {
+    const slots = entity.criticalSlotGrid().get(location) ?? [];
+    const free: number[] = [];
+    for (let index = 0; index < getMekLocationSlotCount(entity, location); index++) {
+        if (slots[index]?.type === 'empty') free.push(index);
+    }
+    return free;
+}
+
+function requiredSlots(entity: MekEntity, mount: EntityMountedEquipment): number {
+    const slots = mount.getNumCriticalSlots(entity);
+    if (slots === undefined) {
+        throw new Error(`${mount.equipment?.name ?? mount.equipmentId} has no fixed critical slot count on this unit`);
+    }
+    return slots;
+}
+
+/**
+ * Places a mount into the first free slots of a location. Spreadable items
+ * (Endo Steel, Ferro-Fibrous, …) fill free slots across every location,
+ * starting with the requested one.
+ */
+export function allocateMekEquipment(
+    entity: MekEntity,
+    mount: EntityMountedEquipment,
+    location: string,
+): EntityMountedEquipment {
+    const released = releaseMekEquipment(entity, mount);
+    const count = requiredSlots(entity, released);
+    const locations = released.equipment?.isSpreadable
+        ? [location, ...entity.locationOrder.filter(candidate => candidate !== location)]
+        : [location];
+
+    const placements: MountPlacement[] = [];
+    for (const candidate of locations) {
+        for (const slotIndex of getFreeCriticalSlots(entity, candidate)) {
+            if (placements.length === count) break;
+            placements.push({ location: candidate, slotIndex });
+        }
+    }
+    if (placements.length < count) {
+        throw new Error(`Not enough free critical slots in ${entity.componentLocationLabel(location)} for ${released.equipment?.name ?? released.equipmentId} (needs ${count})`);
+    }
+    return entity.moveEquipment(released, location, placements);
+}
+
+/** Takes a mount out of the critical slots, keeping it installed. */
+export function releaseMekEquipment(entity: MekEntity, mount: EntityMountedEquipment): EntityMountedEquipment {
+    if (mount.allocation.kind === 'unallocated') return mount;
+    const released = mount.clone({ allocation: { kind: 'unallocated' } });
+    entity.updateEquipment(equipment => equipment.map(candidate => candidate.mountId === mount.mountId ? released : candidate));
+    return released;
+}
+
+/** Releases mounts left on system slots after an engine, gyro or cockpit change. */
+export function releaseConflictingPlacements(entity: MekEntity): number {
+    const conflicting = entity.equipment().filter(mount => mount.placements?.some(placement =>
+        placement.slotIndex >= getMekLocationSlotCount(entity, placement.location)
+        || entity.isSystemSlot(placement.location, placement.slotIndex)));
+    for (const mount of conflicting) releaseMekEquipment(entity, mount);
+    return conflicting.length;
+}
+
+/**
+ * Places every unallocated mount, trying side torsos first. Returns the mounts
+ * that did not fit anywhere.
+ */
+export function autoAllocateMekEquipment(entity: MekEntity): EntityMountedEquipment[] {
+    const locations = MEK_AUTO_ALLOCATION_ORDER.filter(location => entity.locationOrder.includes(location));
+    const unplaced: EntityMountedEquipment[] = [];
+    const pending = entity.equipment()
+        .filter(mount => mount.allocation.kind === 'unallocated')
+        .sort((a, b) => (b.getNumCriticalSlots(entity) ?? 0) - (a.getNumCriticalSlots(entity) ?? 0));
+
+    for (const mount of pending) {
+        const slots = mount.getNumCriticalSlots(entity) ?? 0;
+        const target = mount.equipment?.isSpreadable
+            ? locations[0]
+            : locations.find(location => getFreeCriticalSlots(entity, location).length >= slots);
+        if (!target || slots === 0) {
+            unplaced.push(mount);
+            continue;
+        }
+        try {
+            allocateMekEquipment(entity, mount, target);
+        } catch {
+            unplaced.push(mount);
+        }
+    }
+    return unplaced;
+}
+
+/**
+ * Keeps the slot-occupying structure and armor mounts in step with the
+ * installed materials: stale ones are removed, a new one is added for a
+ * material that needs critical slots and spread over the free slots.
+ */
+export function syncConstructionSlotMounts(entity: MekEntity): void {
+    const materials = [entity.uniformStructure()?.structure, entity.uniformArmor()?.armor]
+        .filter((equipment): equipment is StructureEquipment | ArmorEquipment => !!equipment?.isSpreadable);
+
+    entity.updateEquipment(equipment => equipment.filter(mount => !isConstructionSlotEquipment(mount.equipment)
+        || materials.some(material => material.id === mount.equipment!.id)));
+
+    for (const material of materials) {
+        if (entity.equipment().some(mount => mount.equipment?.id === material.id)) continue;
+        const mount = entity.addEquipment({
+            equipmentId: material.id,
+            equipment: material,
+            allocation: { kind: 'unallocated' },
+            rearMounted: false,
+            turretMounted: false,
+            omniPodMounted: false,
+            armored: false,
+        });
+        try {
+            allocateMekEquipment(entity, mount, MEK_AUTO_ALLOCATION_ORDER.find(location => entity.locationOrder.includes(location))!);
+        } catch {
+            // Left unallocated; the validation panel reports the missing slots.
+        }
+    }
+}
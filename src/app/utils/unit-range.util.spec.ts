@@ -3,7 +3,7 @@
 // Author: Drake
 
 import type { UnitComponent } from '../models/unit-summary.model';
-import { calculateWeightedMaxRange, getMaxRangeFromComponents } from './unit-range.util';
+import { calculateWeightedMaxRange, getDamageAtRange, getMaxRangeFromComponents } from './unit-range.util';
 
 function createComponent(overrides: Partial<UnitComponent>): UnitComponent {
     return {
@@ -56,4 +56,16 @@ describe('unit-range.util', () => {
 
         expect(calculateWeightedMaxRange({ subtype: 'BattleMek', internal: 5, comp: components })).toBe(24);
     });
-});
\ No newline at end of file
+
+    it('totals the damage of weapons reaching a range, without physical attacks', () => {
+        const components = [
+            createComponent({ id: 'a', n: 'Medium Laser', md: '5', q: 2, r: '3/6/9' }),
+            createComponent({ id: 'b', n: 'LRM 10', md: '10', r: '7/14/21' }),
+            createComponent({ id: 'c', n: 'Kick', t: 'P', md: '12', r: '1' }),
+        ];
+
+        expect(getDamageAtRange({ subtype: 'BattleMek', internal: 5, comp: components }, 3)).toBe(20);
+        expect(getDamageAtRange({ subtype: 'BattleMek', internal: 5, comp: components }, 12)).toBe(10);
+        expect(getDamageAtRange({ subtype: 'BattleMek', internal: 5, comp: components }, 24)).toBe(0);
+    });
+});
@@ -4,6 +4,12 @@
 
 import type { UnitSummary, UnitComponent } from '../models/unit-summary.model';
 
+/**
+ * Hex distances Classic damage is totalled at by range band; the reach of the
+ * Alpha Strike short, medium and long range bands.
+ */
+export const CLASSIC_RANGE_BAND_HEXES = { short: 3, medium: 12, long: 21 } as const;
+
 type WeightedRangeUnit = Pick<UnitSummary, 'subtype' | 'internal' | 'comp'>;
 
 interface WeightedRangeContribution {
@@ -145,4 +151,19 @@ export function calculateWeightedMaxRange(unit: WeightedRangeUnit): number {
 
     const weightedRange = roundToHundredths(weightedRangeTotal / totalWeight);
     return roundToRangeBracket(weightedRange, contributions.map(contribution => contribution.range));
-}
\ No newline at end of file
+}
+
+/**
+ * Total maximum damage of the weapons whose range reaches `range` hexes,
+ * physical attacks excluded.
+ */
+export function getDamageAtRange(unit: WeightedRangeUnit, range: number): number {
+    let total = 0;
+    for (const component of unit.comp ?? []) {
+        if (component.t === 'P' || getComponentMaxRange(component) < range) {
+            continue;
+        }
+        total += (getComponentDamage(unit, component) ?? 0) * (component.q || 1);
+    }
+    return total;
+}
@@ -182,6 +182,19 @@ describe('unit-search-executor', () => {
         expect(sortedNames).toEqual(['Locust IIC 2', 'Locust IIC 10', 'Atlas AS7-D']);
     });
 
+    it('filters and sorts by computed expressions', () => {
+        const units = [
+            createEmptyUnit({ name: 'Brick', tons: 50, armor: 200, walk: 3, jump: 0, bv: 1000, dpt: 10 }),
+            createEmptyUnit({ name: 'Hopper', tons: 20, armor: 40, walk: 6, jump: 6, bv: 500, dpt: 8 }),
+            createEmptyUnit({ name: 'Unpriced', tons: 30, armor: 90, walk: 5, jump: 5, bv: 0, dpt: 5 }),
+        ];
+
+        expect(executeQuery(units, 'armor/tons > 3').map(unit => unit.name)).toEqual(['Brick']);
+        expect(executeQuery(units, 'jump>=walk').map(unit => unit.name)).toEqual(['Hopper', 'Unpriced']);
+        expect(executeQuery(units, 'dpt/bv*1000>=12').map(unit => unit.name)).toEqual(['Hopper']);
+        expect(executeSortedUnits(units, '=dpt/bv*1000').map(unit => unit.name)).toEqual(['Brick', 'Hopper', 'Unpriced']);
+    });
+
     it('filters plain worker-safe weapon-type counts by minimum quantity', () => {
         const oneAI = createEmptyUnit({ name: 'One AI', _weaponTypes: ['AI'], _weaponTypeCounts: { AI: 1 } });
         const twoAI = createEmptyUnit({ name: 'Two AI', _weaponTypes: ['AI'], _weaponTypeCounts: { AI: 2 } });
@@ -8,9 +8,11 @@ import type { UnitSearchNormalization, UnitSearchNormalizationMatch } from '../m
 import { getForcePacks } from '../models/forcepacks.model';
 import { ADVANCED_FILTERS, AS_MOVEMENT_MODE_DISPLAY_NAMES, AdvFilterType, isMegaMekRaritySortKey, normalizeMotiveValue, type FilterState, type SearchTelemetryStage } from '../services/unit-search-filters.model';
 import {
+    evaluateExpressionForUnit,
     filterUnitsWithAST,
     getMatchingTextForUnit,
     isComplexQuery,
+    parseComputedSortExpression,
     type EvaluatorContext,
     type ParseResult,
 } from './semantic-filter-ast.util';
@@ -307,6 +309,15 @@ export function executeUnitSearch(request: UnitSearchExecutionRequest): UnitSear
         }
     }
 
+    const computedSortExpression = parseComputedSortExpression(request.sortKey, request.gameSystem);
+    let computedSortValues: WeakMap<UnitSummary, number | null> | null = null;
+    if (computedSortExpression) {
+        computedSortValues = new WeakMap<UnitSummary, number | null>();
+        for (const unit of sorted) {
+            computedSortValues.set(unit, evaluateExpressionForUnit(computedSortExpression, unit, context));
+        }
+    }
+
     measureStage(
         telemetryStages,
         'sort',
@@ -333,6 +344,15 @@ export function executeUnitSearch(request: UnitSearchExecutionRequest): UnitSear
                     if (comparison === 0) {
                         comparison = compareUnitsByName(a, b);
                     }
+                } else if (computedSortValues) {
+                    const aValue = computedSortValues.get(a) ?? null;
+                    const bValue = computedSortValues.get(b) ?? null;
+                    if (aValue !== null && bValue !== null) {
+                        comparison = aValue - bValue;
+                    } else if (aValue !== bValue) {
+                        // Units the expression has no value for go last in either direction
+                        return aValue === null ? 1 : -1;
+                    }
                 } else {
                     const aValue = getProperty(a, request.sortKey);
                     const bValue = getProperty(b, request.sortKey);
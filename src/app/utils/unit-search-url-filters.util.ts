@@ -9,6 +9,7 @@ import { getAvailableDropdownValuesMap, type UnitSearchDropdownValuesDependencie
 import { AdvFilterType, normalizeTriStateBooleanFilterValue, type FilterState, SORT_OPTIONS } from '../services/unit-search-filters.model';
 import { getAdvancedFilterConfigByKey, getPublicUnitSearchPropertyKey, normalizeUnitSearchPropertyKey } from './unit-search-filter-config.util';
 import { parseValues } from './semantic-filter.util';
+import { isComputedSortKey } from './semantic-expression.util';
 import { normalizeMultiStateSelection } from './unit-search-shared.util';
 import type { UnitSearchViewMode } from '../models/options.model';
 import { DEFAULT_CLASSIC_BV_NORMALIZATION_MAX_DELTA, type BvNormalizationSettings, type PvNormalizationSettings, type UnitSearchBudgetMode } from '../models/unit-search-result.model';
@@ -200,7 +201,7 @@ export function parseUnitSearchScalarUrlState(
 
     return {
         searchText,
-        sortKey: sortParam && SORT_OPTIONS.some(opt => opt.key === sortParam) ? sortParam : null,
+        sortKey: sortParam && (SORT_OPTIONS.some(opt => opt.key === sortParam) || isComputedSortKey(sortParam)) ? sortParam : null,
         sortDirection: sortDirectionParam === 'asc' || sortDirectionParam === 'desc' ? sortDirectionParam : null,
         expanded: params.get('expanded') === 'true' || (viewMode !== 'table' && shouldExpand),
         gunnery: parseBoundedInteger(params.get('gunnery'), 0, 8),
@@ -9,6 +9,7 @@ import type {
     UnitSearchWorkerQueryRequest,
     UnitSearchWorkerResponseMessage,
     UnitSearchWorkerResultMessage,
+    UnitSearchWorkerSavedSearchDiffResultMessage,
 } from './unit-search-worker-protocol.util';
 
 class FakeSearchWorker implements SearchWorkerLike {
@@ -123,4 +124,92 @@ describe('UnitSearchWorkerClient', () => {
         expect(results[0]?.revision).toBe(2);
         expect(results[0]?.telemetryQuery).toBe('new');
     });
-});
\ No newline at end of file
+
+    it('dispatches saved search diffs once their corpus is ready', () => {
+        const worker = new FakeSearchWorker();
+        const diffResults: UnitSearchWorkerSavedSearchDiffResultMessage[] = [];
+        const client = new UnitSearchWorkerClient({
+            createWorker: () => worker,
+            onResult: () => fail('Unexpected query result'),
+            onSavedSearchDiff: result => diffResults.push(result),
+            onError: () => fail('Unexpected worker error'),
+        });
+
+        client.submitSavedSearchDiff(createSnapshot('2:0'), { revision: 1, corpusVersion: '2:0', searches: [] });
+
+        expect(worker.messages).toEqual([
+            jasmine.objectContaining({ type: 'init' }),
+        ]);
+
+        worker.emit({ type: 'ready', corpusVersion: '2:0' });
+
+        expect(worker.messages).toEqual([
+            jasmine.objectContaining({ type: 'init' }),
+            jasmine.objectContaining({ type: 'saved-search-diff' }),
+        ]);
+
+        worker.emit({ type: 'saved-search-diff-result', revision: 1, corpusVersion: '1:0', diffs: [] });
+        worker.emit({ type: 'saved-search-diff-result', revision: 1, corpusVersion: '2:0', diffs: [] });
+
+        expect(diffResults.length).toBe(1);
+        expect(diffResults[0]?.corpusVersion).toBe('2:0');
+    });
+
+    it('loads the corpus of a saved search diff queued while another corpus initializes', () => {
+        const worker = new FakeSearchWorker();
+        const diffResults: UnitSearchWorkerSavedSearchDiffResultMessage[] = [];
+        const dropped: number[] = [];
+        const client = new UnitSearchWorkerClient({
+            createWorker: () => worker,
+            onResult: () => undefined,
+            onSavedSearchDiff: result => diffResults.push(result),
+            onSavedSearchDiffDropped: revision => dropped.push(revision),
+            onError: () => fail('Unexpected worker error'),
+        });
+
+        client.submit(createSnapshot('1:0'), createRequest(1, '1:0'));
+        client.submitSavedSearchDiff(createSnapshot('2:0'), { revision: 1, corpusVersion: '2:0', searches: [] });
+
+        expect(worker.messages).toEqual([
+            jasmine.objectContaining({ type: 'init', snapshot: jasmine.objectContaining({ corpusVersion: '1:0' }) }),
+            jasmine.objectContaining({ type: 'init', snapshot: jasmine.objectContaining({ corpusVersion: '2:0' }) }),
+        ]);
+
+        worker.emit({ type: 'ready', corpusVersion: '1:0' });
+        expect(worker.messages.some(message => (message as { type: string }).type === 'saved-search-diff')).toBeFalse();
+
+        worker.emit({ type: 'ready', corpusVersion: '2:0' });
+        expect(worker.messages).toContain(jasmine.objectContaining({ type: 'saved-search-diff', request: jasmine.objectContaining({ revision: 1 }) }));
+
+        worker.emit({ type: 'saved-search-diff-result', revision: 1, corpusVersion: '2:0', diffs: [] });
+        expect(diffResults.map(result => result.revision)).toEqual([1]);
+        expect(dropped).toEqual([]);
+    });
+
+    it('drops saved search diffs that are superseded or whose corpus is replaced', () => {
+        const worker = new FakeSearchWorker();
+        const dropped: number[] = [];
+        const client = new UnitSearchWorkerClient({
+            createWorker: () => worker,
+            onResult: () => undefined,
+            onSavedSearchDiff: () => fail('Unexpected saved search diff'),
+            onSavedSearchDiffDropped: revision => dropped.push(revision),
+            onError: () => fail('Unexpected worker error'),
+        });
+
+        client.submitSavedSearchDiff(createSnapshot('1:0'), { revision: 1, corpusVersion: '1:0', searches: [] });
+        client.submitSavedSearchDiff(createSnapshot('1:0'), { revision: 2, corpusVersion: '1:0', searches: [] });
+        expect(dropped).toEqual([1]);
+
+        client.submit(createSnapshot('2:0'), createRequest(1, '2:0'));
+        worker.emit({ type: 'ready', corpusVersion: '1:0' });
+        expect(dropped).toEqual([1]);
+
+        worker.emit({ type: 'ready', corpusVersion: '2:0' });
+        expect(dropped).toEqual([1, 2]);
+        expect(worker.messages.some(message => (message as { type: string }).type === 'saved-search-diff')).toBeFalse();
+
+        worker.emit({ type: 'saved-search-diff-result', revision: 3, corpusVersion: '1:0', diffs: [] });
+        expect(dropped).toEqual([1, 2, 3]);
+    });
+});
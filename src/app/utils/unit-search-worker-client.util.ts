@@ -9,6 +9,8 @@ import type {
     UnitSearchWorkerQueryRequest,
     UnitSearchWorkerResponseMessage,
     UnitSearchWorkerResultMessage,
+    UnitSearchWorkerSavedSearchDiffRequest,
+    UnitSearchWorkerSavedSearchDiffResultMessage,
 } from './unit-search-worker-protocol.util';
 
 export interface SearchWorkerLike {
@@ -23,6 +25,9 @@ interface UnitSearchWorkerClientOptions {
     onResult: (result: UnitSearchWorkerResultMessage) => void;
     onError: (message: string) => void;
     onReady?: (corpusVersion: UnitSearchWorkerCorpusVersion) => void;
+    onSavedSearchDiff?: (result: UnitSearchWorkerSavedSearchDiffResultMessage) => void;
+    /** A saved search diff that gets no result: superseded, or its corpus was replaced first. */
+    onSavedSearchDiffDropped?: (revision: number) => void;
 }
 
 export class UnitSearchWorkerClient {
@@ -30,11 +35,14 @@ export class UnitSearchWorkerClient {
     private readonly onResult: (result: UnitSearchWorkerResultMessage) => void;
     private readonly onError: (message: string) => void;
     private readonly onReady?: (corpusVersion: UnitSearchWorkerCorpusVersion) => void;
+    private readonly onSavedSearchDiff?: (result: UnitSearchWorkerSavedSearchDiffResultMessage) => void;
+    private readonly onSavedSearchDiffDropped?: (revision: number) => void;
     private worker: SearchWorkerLike | null = null;
     private readyCorpusVersion: UnitSearchWorkerCorpusVersion | null = null;
     private initializingCorpusVersion: UnitSearchWorkerCorpusVersion | null = null;
     private latestSnapshot: UnitSearchWorkerCorpusSnapshot | null = null;
     private pendingRequest: UnitSearchWorkerQueryRequest | null = null;
+    private pendingSavedSearchDiff: UnitSearchWorkerSavedSearchDiffRequest | null = null;
     private latestRequestedRevision = 0;
     private failed = false;
 
@@ -43,6 +51,8 @@ export class UnitSearchWorkerClient {
         this.onResult = options.onResult;
         this.onError = options.onError;
         this.onReady = options.onReady;
+        this.onSavedSearchDiff = options.onSavedSearchDiff;
+        this.onSavedSearchDiffDropped = options.onSavedSearchDiffDropped;
     }
 
     submit(snapshot: UnitSearchWorkerCorpusSnapshot, request: UnitSearchWorkerQueryRequest): void {
@@ -66,10 +76,33 @@ export class UnitSearchWorkerClient {
         }
     }
 
+    /** Compares saved search matches once the worker holds the snapshot's corpus. */
+    submitSavedSearchDiff(snapshot: UnitSearchWorkerCorpusSnapshot, request: UnitSearchWorkerSavedSearchDiffRequest): void {
+        if (this.failed) {
+            throw new Error('Search worker client is disabled');
+        }
+
+        const worker = this.ensureWorker();
+        this.dropPendingSavedSearchDiff();
+        // Another corpus still to load would replace this one before the diff runs.
+        if (this.readyCorpusVersion === snapshot.corpusVersion && this.initializingCorpusVersion === null) {
+            worker.postMessage({ type: 'saved-search-diff', request });
+            return;
+        }
+
+        // Waits for its corpus, loading it after any other one already on its way.
+        this.pendingSavedSearchDiff = request;
+        if (this.initializingCorpusVersion !== snapshot.corpusVersion) {
+            this.initializingCorpusVersion = snapshot.corpusVersion;
+            worker.postMessage({ type: 'init', snapshot });
+        }
+    }
+
     dispose(): void {
         this.worker?.terminate();
         this.worker = null;
         this.pendingRequest = null;
+        this.dropPendingSavedSearchDiff();
         this.latestSnapshot = null;
         this.initializingCorpusVersion = null;
         this.readyCorpusVersion = null;
@@ -107,6 +140,13 @@ export class UnitSearchWorkerClient {
                 }
                 this.onResult(message);
                 return;
+            case 'saved-search-diff-result':
+                if (message.corpusVersion === this.readyCorpusVersion) {
+                    this.onSavedSearchDiff?.(message);
+                } else {
+                    this.onSavedSearchDiffDropped?.(message.revision);
+                }
+                return;
             case 'error':
                 this.handleWorkerError(message);
                 return;
@@ -114,6 +154,16 @@ export class UnitSearchWorkerClient {
     }
 
     private flushPendingRequest(): void {
+        if (this.worker && this.pendingSavedSearchDiff && this.initializingCorpusVersion === null) {
+            if (this.pendingSavedSearchDiff.corpusVersion === this.readyCorpusVersion) {
+                this.worker.postMessage({ type: 'saved-search-diff', request: this.pendingSavedSearchDiff });
+                this.pendingSavedSearchDiff = null;
+            } else {
+                // A newer corpus was loaded over the diff's one
+                this.dropPendingSavedSearchDiff();
+            }
+        }
+
         if (!this.worker || !this.pendingRequest || !this.latestSnapshot) {
             return;
         }
@@ -129,6 +179,14 @@ export class UnitSearchWorkerClient {
         this.worker.postMessage({ type: 'execute', request: this.pendingRequest });
     }
 
+    private dropPendingSavedSearchDiff(): void {
+        const revision = this.pendingSavedSearchDiff?.revision;
+        this.pendingSavedSearchDiff = null;
+        if (revision !== undefined) {
+            this.onSavedSearchDiffDropped?.(revision);
+        }
+    }
+
     private handleWorkerError(message: UnitSearchWorkerErrorMessage): void {
         this.failed = true;
         this.onError(message.message);
@@ -42,6 +42,33 @@ export interface UnitSearchWorkerQueryRequest {
     normalization: UnitSearchNormalization | null;
 }
 
+/** A saved search to run against the loaded corpus and compare with its matches on a previous one. */
+export interface UnitSearchWorkerSavedSearchQuery {
+    id: string;
+    executionQuery: string;
+    gameSystem: GameSystem;
+    pilotGunnerySkill: number;
+    pilotPilotingSkill: number;
+    /** Names of the units that matched on the previous corpus; null when there is none to compare with */
+    previousUnitNames: string[] | null;
+}
+
+export interface UnitSearchWorkerSavedSearchDiffRequest {
+    revision: number;
+    corpusVersion: UnitSearchWorkerCorpusVersion;
+    searches: UnitSearchWorkerSavedSearchQuery[];
+}
+
+export interface UnitSearchWorkerSavedSearchDiff {
+    id: string;
+    /** Names of the units matching on the loaded corpus */
+    unitNames: string[];
+    /** Matching now, but not on the previous corpus */
+    added: string[];
+    /** Matching on the previous corpus, but not anymore */
+    removed: string[];
+}
+
 export interface UnitSearchWorkerResultEntry {
     unitName: string;
     match?: UnitSearchNormalizationMatch;
@@ -62,6 +89,18 @@ export interface UnitSearchWorkerExecuteMessage {
     request: UnitSearchWorkerQueryRequest;
 }
 
+export interface UnitSearchWorkerSavedSearchDiffMessage {
+    type: 'saved-search-diff';
+    request: UnitSearchWorkerSavedSearchDiffRequest;
+}
+
+export interface UnitSearchWorkerSavedSearchDiffResultMessage {
+    type: 'saved-search-diff-result';
+    revision: number;
+    corpusVersion: UnitSearchWorkerCorpusVersion;
+    diffs: UnitSearchWorkerSavedSearchDiff[];
+}
+
 export interface UnitSearchWorkerResultMessage {
     type: 'result';
     revision: number;
@@ -83,9 +122,11 @@ export interface UnitSearchWorkerErrorMessage {
 
 export type UnitSearchWorkerRequestMessage =
     | UnitSearchWorkerInitMessage
-    | UnitSearchWorkerExecuteMessage;
+    | UnitSearchWorkerExecuteMessage
+    | UnitSearchWorkerSavedSearchDiffMessage;
 
 export type UnitSearchWorkerResponseMessage =
     | UnitSearchWorkerReadyMessage
     | UnitSearchWorkerResultMessage
+    | UnitSearchWorkerSavedSearchDiffResultMessage
     | UnitSearchWorkerErrorMessage;
\ No newline at end of file
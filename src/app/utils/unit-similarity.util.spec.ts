@@ -0,0 +1,43 @@
+// Copyright (C) 2026 The MegaMek Team
+// SPDX-License-Identifier: GPL-3.0-or-later
+// Author: Drake
+
+import { createEmptyUnit } from '../testing/unit-test-helpers';
+import { buildUnitStatVector, DEFAULT_SIMILARITY_WEIGHTS, findSimilarUnits } from './unit-similarity.util';
+
+describe('unit similarity utilities', () => {
+    const target = createEmptyUnit({ name: 'Target', tons: 50, walk: 5, armor: 150, _dmgShort: 20, role: 'Skirmisher', techBase: 'Inner Sphere' });
+    const close = createEmptyUnit({ name: 'Close', tons: 55, walk: 5, armor: 160, _dmgShort: 22, role: 'Skirmisher', techBase: 'Inner Sphere' });
+    const heavy = createEmptyUnit({ name: 'Heavy', tons: 90, walk: 3, armor: 280, _dmgShort: 50, role: 'Juggernaut', techBase: 'Inner Sphere' });
+    const clanTwin = createEmptyUnit({ name: 'Clan Twin', tons: 50, walk: 5, armor: 150, _dmgShort: 20, role: 'Skirmisher', techBase: 'Clan' });
+
+    it('ranks candidates nearest first and leaves the target out', () => {
+        const similar = findSimilarUnits(target, [heavy, target, close], DEFAULT_SIMILARITY_WEIGHTS, 10);
+
+        expect(similar.map(entry => entry.unit.name)).toEqual(['Close', 'Heavy']);
+        expect(similar[0].similarity).toBeGreaterThan(similar[1].similarity);
+    });
+
+    it('weights each dimension', () => {
+        const sameTechBase = { ...DEFAULT_SIMILARITY_WEIGHTS, techBase: 5 };
+        const statsOnly = { ...DEFAULT_SIMILARITY_WEIGHTS, techBase: 0 };
+
+        expect(findSimilarUnits(target, [clanTwin, close, heavy], sameTechBase, 1)[0].unit.name).toBe('Close');
+        expect(findSimilarUnits(target, [clanTwin, close, heavy], statsOnly, 1)[0].unit.name).toBe('Clan Twin');
+        expect(findSimilarUnits(target, [clanTwin, close, heavy], statsOnly, 1)[0].similarity).toBe(100);
+    });
+
+    it('finds nothing when every weight is zero', () => {
+        const weights = Object.fromEntries(Object.keys(DEFAULT_SIMILARITY_WEIGHTS).map(key => [key, 0])) as typeof DEFAULT_SIMILARITY_WEIGHTS;
+
+        expect(findSimilarUnits(target, [close], weights, 10)).toEqual([]);
+    });
+
+    it('takes heat efficiency from the search index, as the Heat Efficiency filter does', () => {
+        const untracked = createEmptyUnit({ name: 'Untracked', heat: 0, dissipation: -1, _dissipationEfficiency: 0 });
+        const hot = createEmptyUnit({ name: 'Hot', heat: 14, dissipation: 10, _dissipationEfficiency: -4 });
+
+        expect(buildUnitStatVector(untracked).heatEfficiency).toBe(0);
+        expect(buildUnitStatVector(hot).heatEfficiency).toBe(-4);
+    });
+});
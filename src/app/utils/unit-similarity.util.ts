@@ -0,0 +1,135 @@
+// Copyright (C) 2026 The MegaMek Team
+// SPDX-License-Identifier: GPL-3.0-or-later
+// Author: Drake
+
+import type { UnitSummary } from '../models/unit-summary.model';
+import { compareUnitsByName } from './sort.util';
+
+/**
+ * Similar-unit finder: ranks units by their distance to a target unit over a
+ * weighted stat vector.
+ *
+ * Numeric dimensions are scaled by their standard deviation over the candidates,
+ * so a ton of difference weighs the same as a point of armor only where they
+ * spread alike. Role and tech base count as one deviation when they differ.
+ */
+
+export type SimilarityDimension =
+    | 'tonnage'
+    | 'movement'
+    | 'armor'
+    | 'damageShort'
+    | 'damageMedium'
+    | 'damageLong'
+    | 'heatEfficiency'
+    | 'role'
+    | 'techBase';
+
+export type SimilarityWeights = Record<SimilarityDimension, number>;
+
+export const SIMILARITY_DIMENSIONS: readonly { key: SimilarityDimension; label: string }[] = [
+    { key: 'tonnage', label: 'Tonnage' },
+    { key: 'movement', label: 'Movement' },
+    { key: 'armor', label: 'Armor' },
+    { key: 'damageShort', label: 'Short range damage' },
+    { key: 'damageMedium', label: 'Medium range damage' },
+    { key: 'damageLong', label: 'Long range damage' },
+    { key: 'heatEfficiency', label: 'Heat efficiency' },
+    { key: 'role', label: 'Role' },
+    { key: 'techBase', label: 'Tech base' },
+];
+
+export const MAX_SIMILARITY_WEIGHT = 5;
+
+export const DEFAULT_SIMILARITY_WEIGHTS: SimilarityWeights = {
+    tonnage: 3,
+    movement: 2,
+    armor: 2,
+    damageShort: 1,
+    damageMedium: 1,
+    damageLong: 1,
+    heatEfficiency: 1,
+    role: 1,
+    techBase: 1,
+};
+
+type NumericDimension = Exclude<SimilarityDimension, 'role' | 'techBase'>;
+
+const NUMERIC_DIMENSIONS: readonly NumericDimension[] = [
+    'tonnage', 'movement', 'armor', 'damageShort', 'damageMedium', 'damageLong', 'heatEfficiency',
+];
+
+export interface UnitStatVector extends Record<NumericDimension, number> {
+    role: string;
+    techBase: string;
+}
+
+export interface SimilarUnit {
+    unit: UnitSummary;
+    /** Weighted distance to the target; 0 is identical */
+    distance: number;
+    /** 0-100, 100 is identical */
+    similarity: number;
+}
+
+export function buildUnitStatVector(unit: UnitSummary): UnitStatVector {
+    return {
+        tonnage: unit.tons,
+        movement: Math.max(unit.walk, unit.jump, unit.umu),
+        armor: unit.armor,
+        damageShort: unit._dmgShort,
+        damageMedium: unit._dmgMedium,
+        damageLong: unit._dmgLong,
+        heatEfficiency: unit._dissipationEfficiency,
+        role: unit.role,
+        techBase: unit.techBase,
+    };
+}
+
+function standardDeviation(values: readonly number[]): number {
+    if (values.length === 0) return 0;
+    const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+    const variance = values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length;
+    return Math.sqrt(variance);
+}
+
+/**
+ * Rank candidates by similarity to the target, closest first. The target itself
+ * is left out. Returns no more than `limit` units.
+ */
+export function findSimilarUnits(
+    target: UnitSummary,
+    candidates: readonly UnitSummary[],
+    weights: SimilarityWeights,
+    limit: number,
+): SimilarUnit[] {
+    const totalWeight = Object.values(weights).reduce((sum, weight) => sum + Math.max(0, weight), 0);
+    const others = candidates.filter(unit => unit.name !== target.name);
+    if (others.length === 0 || totalWeight === 0) return [];
+
+    const targetVector = buildUnitStatVector(target);
+    const vectors = others.map(buildUnitStatVector);
+    const scales = new Map(NUMERIC_DIMENSIONS.map(dimension => [
+        dimension,
+        standardDeviation([targetVector, ...vectors].map(vector => vector[dimension])),
+    ]));
+
+    const ranked = others.map((unit, index) => {
+        const vector = vectors[index];
+        let sum = 0;
+        for (const dimension of NUMERIC_DIMENSIONS) {
+            const scale = scales.get(dimension)!;
+            if (scale === 0) continue;
+            sum += Math.max(0, weights[dimension]) * ((vector[dimension] - targetVector[dimension]) / scale) ** 2;
+        }
+        if (vector.role !== targetVector.role) sum += Math.max(0, weights.role);
+        if (vector.techBase !== targetVector.techBase) sum += Math.max(0, weights.techBase);
+
+        const distance = Math.sqrt(sum / totalWeight);
+        return { unit, distance, similarity: Math.round(100 / (1 + distance)) };
+    });
+
+    return ranked
+        .sort((a, b) => a.distance - b.distance || compareUnitsByName(a.unit, b.unit))
+        .slice(0, limit);
+}